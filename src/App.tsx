@@ -17,6 +17,7 @@ import { PWAInstallPrompt } from '@/components/ui/PWAInstallPrompt';
 import { CTAProvider } from "@/components/cta/CTAProvider";
 import { ProductionErrorBoundary } from "@/components/ui/ProductionErrorBoundary";
 import { EnhancedProductionErrorBoundary } from "@/components/ui/EnhancedProductionErrorBoundary";
+import { getLocaleBasename } from "@/lib/i18n";
 
 // Public pages
 import Index from "./pages/Index";
@@ -28,6 +29,8 @@ import ProjectDetail from "./pages/ProjectDetail";
 import Pricing from "./pages/Pricing";
 import Blog from "./pages/Blog";
 import BlogCategory from "./pages/BlogCategory";
+import BlogAuthor from "./pages/BlogAuthor";
+import BlogTag from "./pages/BlogTag";
 import BlogPost from "./pages/BlogPost";
 import Insights from "./pages/Insights";
 import CaseStudies from "./pages/CaseStudies";
@@ -39,7 +42,7 @@ import LabProjectDetail from "./pages/LabProjectDetail";
 import Contact from "./pages/Contact";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import TermsConditions from "./pages/TermsConditions";
-import NotFound from "./pages/NotFound";
+import DynamicPage from "./pages/DynamicPage";
 import { FAQ } from "./pages/FAQ";
 import Sitemap from "./pages/Sitemap";
 import Login from "./pages/admin/Login";
@@ -71,11 +74,20 @@ const ContactSubmissions = lazy(() => import("./pages/admin/ContactSubmissions")
 const Settings = lazy(() => import("./pages/admin/Settings"));
 const Users = lazy(() => import("./pages/admin/Users"));
 const AdminPayments = lazy(() => import("./pages/admin/AdminPayments"));
+const AdminPricing = lazy(() => import("./pages/admin/AdminPricing"));
 const AdminQuotes = lazy(() => import("./pages/admin/AdminQuotes"));
 const AdminProposals = lazy(() => import("./pages/admin/AdminProposals"));
 const AdminClients = lazy(() => import("./pages/admin/AdminClients"));
 const AdminBlogCategories = lazy(() => import("./pages/admin/AdminBlogCategories"));
+const AdminBlogAuthors = lazy(() => import("./pages/admin/AdminBlogAuthors"));
+const AdminBlogTags = lazy(() => import("./pages/admin/AdminBlogTags"));
 const AdminFAQ = lazy(() => import("./pages/admin/AdminFAQ"));
+const AdminGlobalSections = lazy(() => import("./pages/admin/AdminGlobalSections"));
+const AdminGlobalSectionEditor = lazy(() => import("./pages/admin/AdminGlobalSectionEditor"));
+const AdminMenus = lazy(() => import("./pages/admin/AdminMenus"));
+const AdminRedirects = lazy(() => import("./pages/admin/AdminRedirects"));
+const AdminTranslations = lazy(() => import("./pages/admin/AdminTranslations"));
+const AdminContentCalendar = lazy(() => import("./pages/admin/AdminContentCalendar"));
 const AdminCaseStudies = lazy(() => import("./pages/admin/AdminCaseStudies"));
 const AdminCaseStudyEditor = lazy(() => import("./pages/admin/AdminCaseStudyEditor"));
 const AdminInnovationLab = lazy(() => import("./pages/admin/AdminInnovationLab"));
@@ -132,7 +144,8 @@ const App = () => (
           <TooltipProvider>
             <Toaster />
             <Sonner />
-            <BrowserRouter>
+            {/* Non-default locales are served under their prefix, e.g. /nl/services */}
+            <BrowserRouter basename={getLocaleBasename()}>
               <CTAProvider>
                 <PWAInstallPrompt />
                 <Routes>
@@ -148,6 +161,8 @@ const App = () => (
               {/* Blog Routes (legacy) */}
               <Route path="/blog" element={<Blog />} />
               <Route path="/blog/category/:slug" element={<BlogCategory />} />
+              <Route path="/blog/author/:slug" element={<BlogAuthor />} />
+              <Route path="/blog/tag/:tag" element={<BlogTag />} />
               <Route path="/blog/:slug" element={<BlogPost />} />
               
               {/* New Content Routes */}
@@ -252,6 +267,51 @@ const App = () => (
                     <AdminBlogCategories />
                   </SuspenseWithTimeout>
                 } />
+                <Route path="blog/authors" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminBlogAuthors />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="blog/tags" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminBlogTags />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="global-sections" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminGlobalSections />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="global-sections/:id/edit" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminGlobalSectionEditor />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="menus" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminMenus />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="redirects" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminRedirects />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="translations" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminTranslations />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="calendar" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminContentCalendar />
+                  </SuspenseWithTimeout>
+                } />
+                <Route path="pricing" element={
+                  <SuspenseWithTimeout fallback={<Spinner />}>
+                    <AdminPricing />
+                  </SuspenseWithTimeout>
+                } />
                 <Route path="faq" element={
                   <SuspenseWithTimeout fallback={<Spinner />}>
                     <AdminFAQ />
@@ -370,7 +430,8 @@ const App = () => (
               <Route path="/proposal/:id/:token/reject" element={<ProposalReject />} />
               
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
+              {/* CMS pages by (nested) slug path, falls back to NotFound */}
+              <Route path="*" element={<DynamicPage />} />
                 </Routes>
               </CTAProvider>
             </BrowserRouter>
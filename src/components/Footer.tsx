@@ -6,9 +6,18 @@ import logo from '@/assets/logo.png';
 import { LazyImageWithFallback } from '@/components/ui/LazyImageWithFallback';
 import { OptimizedAssetImage } from '@/components/ui/OptimizedAssetImage';
 import { useContactSettings } from '@/hooks/useContactSettings';
+import { useMenu } from '@/hooks/useMenu';
+import { MenuLink } from '@/components/MenuLink';
+import { MENU_LOCATIONS } from '@/lib/menus';
 
 const Footer = () => {
   const { settings, loading } = useContactSettings();
+  const footerMenu = useMenu(MENU_LOCATIONS.footer);
+  const legalMenu = useMenu(MENU_LOCATIONS.footerLegal);
+
+  // Top-level items are column headings; top-level links without children share one column
+  const linkColumns = footerMenu.filter(item => item.children.length > 0);
+  const looseLinks = footerMenu.filter(item => item.children.length === 0);
 
   // Parse address lines
   const addressLines = settings.contact_address?.split('\n') || ['6801 Hollywood Blvd, Los Angeles, CA 90028'];
@@ -74,17 +83,31 @@ const Footer = () => {
             )}
           </div>
 
-          {/* Our Links */}
-          <div>
-            <h3 className="text-agenko-white font-semibold mb-4">Our Link</h3>
-            <ul className="space-y-3 text-agenko-gray-light text-sm">
-              <li><Link to="/about" className="hover:text-agenko-green transition-colors">About us</Link></li>
-              <li><Link to="/services" className="hover:text-agenko-green transition-colors">Services</Link></li>
-              <li><Link to="/portfolio" className="hover:text-agenko-green transition-colors">Our Project</Link></li>
-              <li><Link to="/pricing" className="hover:text-agenko-green transition-colors">FAQ</Link></li>
-              <li><Link to="/contact" className="hover:text-agenko-green transition-colors">Contact us</Link></li>
-            </ul>
-          </div>
+          {/* Menu Links */}
+          {linkColumns.map((column) => (
+            <div key={column.id}>
+              <h3 className="text-agenko-white font-semibold mb-4">
+                {column.href ? (
+                  <MenuLink item={column} className="hover:text-agenko-green transition-colors" />
+                ) : column.label}
+              </h3>
+              <ul className="space-y-3 text-agenko-gray-light text-sm">
+                {column.children.map((link) => (
+                  <li key={link.id}><MenuLink item={link} className="hover:text-agenko-green transition-colors" /></li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {looseLinks.length > 0 && (
+            <div>
+              <h3 className="text-agenko-white font-semibold mb-4">Links</h3>
+              <ul className="space-y-3 text-agenko-gray-light text-sm">
+                {looseLinks.map((link) => (
+                  <li key={link.id}><MenuLink item={link} className="hover:text-agenko-green transition-colors" /></li>
+                ))}
+              </ul>
+            </div>
+          )}
 
           {/* Contact */}
           <div>
@@ -109,15 +132,9 @@ const Footer = () => {
               {settings.footer_legal_text}
             </p>
             <div className="flex space-x-6 text-agenko-gray-light text-sm">
-              <Link to="/terms-conditions" className="hover:text-agenko-green transition-colors">
-                Terms & Condition
-              </Link>
-              <Link to="/privacy-policy" className="hover:text-agenko-green transition-colors">
-                Privacy Policy
-              </Link>
-              <Link to="/contact" className="hover:text-agenko-green transition-colors">
-                Contact
-              </Link>
+              {legalMenu.map((link) => (
+                <MenuLink key={link.id} item={link} className="hover:text-agenko-green transition-colors" />
+              ))}
             </div>
           </div>
         </div>
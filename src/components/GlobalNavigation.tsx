@@ -7,6 +7,10 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import logo from '@/assets/logo.png';
 import { LazyImageWithFallback } from '@/components/ui/LazyImageWithFallback';
 import { OptimizedAssetImage } from '@/components/ui/OptimizedAssetImage';
+import { MenuLink } from '@/components/MenuLink';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useMenu } from '@/hooks/useMenu';
+import { isMenuItemActive, MENU_LOCATIONS, type ResolvedMenuItem } from '@/lib/menus';
 
 interface GlobalNavigationProps {
   /** Whether to use transparent overlay (for homepage) or solid background */
@@ -17,50 +21,17 @@ export function GlobalNavigation({ overlay = false }: GlobalNavigationProps) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const location = useLocation();
 
-  // Main navigation items
-  const mainNavItems = [
-    { label: "Home", href: "/" },
-    { label: "Services", href: "/services" },
-    { label: "Portfolio", href: "/portfolio" },
-    { label: "About", href: "/about" },
-    { label: "Pricing", href: "/pricing" },
-    { label: "Contact", href: "/contact" },
-  ];
+  const menuItems = useMenu(MENU_LOCATIONS.header);
+  const navItems = menuItems.filter(item => item.style !== 'button');
+  const buttonItems = menuItems.filter(item => item.style === 'button');
 
-  // Solutions dropdown items
-  const solutionsItems = [
-    { label: "Insights", href: "/insights" },
-    { label: "Case Studies", href: "/case-studies" },
-    { label: "Innovation Lab", href: "/innovation-lab" },
-  ];
+  // Mobile menu lists every link; group links come before their children
+  const allMobileItems = navItems.flatMap(item => [
+    ...(item.href ? [item] : []),
+    ...item.children.filter(child => child.href),
+  ]);
 
-  // Company dropdown items
-  const companyItems = [
-    { label: "Blog", href: "/blog" },
-    { label: "Careers", href: "/careers" },
-    { label: "FAQ", href: "/faq" },
-  ];
-
-  // All mobile menu items (flattened for mobile)
-  const allMobileItems = [
-    ...mainNavItems,
-    { label: "Insights", href: "/insights" },
-    { label: "Case Studies", href: "/case-studies" },
-    { label: "Innovation Lab", href: "/innovation-lab" },
-    { label: "Blog", href: "/blog" },
-    { label: "Careers", href: "/careers" },
-    { label: "FAQ", href: "/faq" },
-  ];
-
-  const isActive = (href: string) => {
-    if (href === '/') {
-      return location.pathname === '/';
-    }
-    return location.pathname.startsWith(href);
-  };
-
-  const isSolutionsActive = solutionsItems.some(item => isActive(item.href));
-  const isCompanyActive = companyItems.some(item => isActive(item.href));
+  const isActive = (item: ResolvedMenuItem) => isMenuItemActive(item, location.pathname);
 
   return (
     <div className={`relative ${overlay ? 'absolute inset-x-0 top-0 z-20' : 'relative z-10'}`}>
@@ -93,60 +64,37 @@ export function GlobalNavigation({ overlay = false }: GlobalNavigationProps) {
         {/* Desktop Navigation */}
         <div className="hidden lg:flex items-center space-x-6">
           <div className="flex items-center space-x-6">
-            {mainNavItems.map((item) => (
-              <NavItem 
-                key={item.href}
-                label={item.label} 
-                href={item.href} 
-                active={isActive(item.href)}
-              />
+            {navItems.map((item) => (
+              item.children.length === 0 ? (
+                <NavItem key={item.id} item={item} active={isActive(item)} />
+              ) : (
+                <DropdownMenu key={item.id}>
+                  <DropdownMenuTrigger className={`flex items-center space-x-1 text-white hover:text-white/80 transition-colors ${isActive(item) ? 'font-semibold' : ''}`}>
+                    <span>{item.label}</span>
+                    <ChevronDown className="h-4 w-4" />
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent className="bg-agenko-dark/95 border-agenko-green/20 backdrop-blur-sm">
+                    {[...(item.href ? [{ ...item, children: [] }] : []), ...item.children].map((child) => (
+                      <DropdownMenuItem key={child.id} asChild>
+                        <MenuLink
+                          item={child}
+                          className={`text-white hover:text-white/80 ${isActive(child) ? 'bg-white/10' : ''}`}
+                        />
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )
             ))}
-            
-            {/* Solutions Dropdown */}
-            <DropdownMenu>
-              <DropdownMenuTrigger className="flex items-center space-x-1 text-white hover:text-white/80 transition-colors">
-                <span>Solutions</span>
-                <ChevronDown className="h-4 w-4" />
-              </DropdownMenuTrigger>
-              <DropdownMenuContent className="bg-agenko-dark/95 border-agenko-green/20 backdrop-blur-sm">
-                {solutionsItems.map((item) => (
-                  <DropdownMenuItem key={item.href} asChild>
-                    <Link 
-                      to={item.href}
-                      className={`text-white hover:text-white/80 ${isActive(item.href) ? 'bg-white/10' : ''}`}
-                    >
-                      {item.label}
-                    </Link>
-                  </DropdownMenuItem>
-                ))}
-              </DropdownMenuContent>
-            </DropdownMenu>
-
-            {/* Company Dropdown */}
-            <DropdownMenu>
-              <DropdownMenuTrigger className="flex items-center space-x-1 text-white hover:text-white/80 transition-colors">
-                <span>Company</span>
-                <ChevronDown className="h-4 w-4" />
-              </DropdownMenuTrigger>
-              <DropdownMenuContent className="bg-agenko-dark/95 border-agenko-green/20 backdrop-blur-sm">
-                {companyItems.map((item) => (
-                  <DropdownMenuItem key={item.href} asChild>
-                    <Link 
-                      to={item.href}
-                      className={`text-white hover:text-white/80 ${isActive(item.href) ? 'bg-white/10' : ''}`}
-                    >
-                      {item.label}
-                    </Link>
-                  </DropdownMenuItem>
-                ))}
-              </DropdownMenuContent>
-            </DropdownMenu>
           </div>
           
           <div className="flex items-center space-x-3">
-            <Button variant="hero" asChild>
-              <Link to="/get-quote">Get Started</Link>
-            </Button>
+            <LanguageSwitcher />
+            {buttonItems.map((item) => (
+              <Button key={item.id} variant="hero" asChild>
+                <MenuLink item={item} />
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -191,26 +139,28 @@ export function GlobalNavigation({ overlay = false }: GlobalNavigationProps) {
             <div className="mt-8 flex flex-col space-y-6">
               {allMobileItems.map((item) => (
                 <MobileNavItem 
-                  key={item.href}
-                  label={item.label} 
-                  href={item.href} 
+                  key={item.id}
+                  item={item}
                   onClick={() => setMobileMenuOpen(false)}
-                  active={isActive(item.href)}
+                  active={isActive(item)}
                 />
               ))}
-              <div className="pt-4">
-                <Button 
-                  asChild 
-                  variant="hero" 
-                  className="w-full justify-start"
-                  onClick={() => setMobileMenuOpen(false)}
-                >
-                  <Link to="/get-quote" className="flex items-center">
-                    Get Started
-                    <ArrowRight className="ml-2 h-4 w-4" />
-                  </Link>
-                </Button>
-              </div>
+              {buttonItems.map((item) => (
+                <div key={item.id} className="pt-4">
+                  <Button 
+                    asChild 
+                    variant="hero" 
+                    className="w-full justify-start"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    <MenuLink item={item} className="flex items-center">
+                      {item.label}
+                      <ArrowRight className="ml-2 h-4 w-4" />
+                    </MenuLink>
+                  </Button>
+                </div>
+              ))}
+              <LanguageSwitcher className="pt-4" />
             </div>
           </motion.div>
         )}
@@ -220,19 +170,16 @@ export function GlobalNavigation({ overlay = false }: GlobalNavigationProps) {
 }
 
 interface NavItemProps {
-  label: string;
-  href: string;
+  item: ResolvedMenuItem;
   active?: boolean;
 }
 
-function NavItem({ label, href, active }: NavItemProps) {
+function NavItem({ item, active }: NavItemProps) {
   return (
-    <Link 
-      to={href} 
+    <MenuLink 
+      item={item}
       className={`text-white hover:text-white/80 transition-colors ${active ? 'font-semibold' : ''}`}
-    >
-      {label}
-    </Link>
+    />
   );
 }
 
@@ -240,15 +187,15 @@ interface MobileNavItemProps extends NavItemProps {
   onClick: () => void;
 }
 
-function MobileNavItem({ label, href, onClick, active }: MobileNavItemProps) {
+function MobileNavItem({ item, onClick, active }: MobileNavItemProps) {
   return (
-    <Link 
-      to={href} 
+    <MenuLink 
+      item={item}
       onClick={onClick}
       className={`flex items-center justify-between text-white hover:text-white/80 transition-colors ${active ? 'font-semibold' : ''}`}
     >
-      <span>{label}</span>
+      <span>{item.label}</span>
       <ArrowRight className="h-4 w-4" />
-    </Link>
+    </MenuLink>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+import { useLocation } from 'react-router-dom';
+import { Globe } from 'lucide-react';
+import { getCurrentLocale, LOCALES, localizePath } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/**
+ * Links to the current page in every locale. These are plain anchors rather than router
+ * links: each locale has its own router basename, so switching reloads the app.
+ */
+export function LanguageSwitcher({ className }: LanguageSwitcherProps) {
+  const location = useLocation();
+  const current = getCurrentLocale();
+
+  return (
+    <nav aria-label="Language" className={cn('flex items-center gap-2 text-sm', className)}>
+      <Globe className="h-4 w-4 text-white/70" aria-hidden="true" />
+      {LOCALES.map((locale, index) => (
+        <span key={locale.code} className="flex items-center gap-2">
+          {index > 0 && <span className="text-white/30" aria-hidden="true">/</span>}
+          <a
+            href={`${localizePath(location.pathname, locale.code)}${location.search}`}
+            hrefLang={locale.code}
+            lang={locale.code}
+            aria-current={locale.code === current ? 'true' : undefined}
+            aria-label={locale.label}
+            className={cn(
+              'uppercase transition-colors',
+              locale.code === current ? 'font-semibold text-white' : 'text-white/60 hover:text-white'
+            )}
+          >
+            {locale.code}
+          </a>
+        </span>
+      ))}
+    </nav>
+  );
+}
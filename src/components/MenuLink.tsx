@@ -0,0 +1,29 @@
+import { forwardRef, type AnchorHTMLAttributes } from 'react';
+import { Link } from 'react-router-dom';
+import type { ResolvedMenuItem } from '@/lib/menus';
+
+interface MenuLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  item: ResolvedMenuItem;
+}
+
+// Link for a menu item: router links for site paths, plain anchors for external URLs
+export const MenuLink = forwardRef<HTMLAnchorElement, MenuLinkProps>(({ item, children, ...props }, ref) => {
+  const target = item.openInNewTab ? '_blank' : undefined;
+  const content = children ?? item.label;
+
+  if (item.external) {
+    return (
+      <a ref={ref} href={item.href ?? undefined} target={target} rel="noopener noreferrer" {...props}>
+        {content}
+      </a>
+    );
+  }
+
+  return (
+    <Link ref={ref} to={item.href ?? '#'} target={target} rel={target ? 'noopener noreferrer' : undefined} {...props}>
+      {content}
+    </Link>
+  );
+});
+
+MenuLink.displayName = 'MenuLink';
@@ -0,0 +1,37 @@
+import { ReactNode } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { Helmet } from 'react-helmet-async';
+import { Eye, X } from 'lucide-react';
+
+/**
+ * Shown on public routes rendered through a preview link so stakeholders
+ * can tell unpublished content apart from the live site.
+ * `children` adds preview tools such as the visibility simulator.
+ */
+export function PreviewBanner({ children }: { children?: ReactNode }) {
+  const location = useLocation();
+
+  return (
+    <>
+      <Helmet>
+        <meta name="robots" content="noindex, nofollow" />
+      </Helmet>
+      <div
+        role="status"
+        className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full border border-amber-500/50 bg-amber-500 px-4 py-2 text-sm font-medium text-black shadow-lg"
+      >
+        <Eye className="h-4 w-4" aria-hidden="true" />
+        <span>Preview — this content is not published yet</span>
+        {children}
+        <Link
+          to={location.pathname}
+          className="inline-flex items-center gap-1 rounded-full bg-black/10 px-2 py-0.5 hover:bg-black/20"
+          aria-label="Exit preview"
+        >
+          <X className="h-3 w-3" aria-hidden="true" />
+          Exit
+        </Link>
+      </div>
+    </>
+  );
+}
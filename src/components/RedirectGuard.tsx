@@ -0,0 +1,58 @@
+import { ReactNode, useEffect, useMemo } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { isExternalTarget, resolveRedirect } from '@/lib/redirects';
+
+interface RedirectGuardProps {
+  // The not-found content to show when no redirect applies
+  children: ReactNode;
+}
+
+/**
+ * Wrap "not found" output with this so that old URLs (renamed slugs, moved pages) are
+ * sent to their new location first. Redirect loops are logged and fall through to
+ * the not-found content.
+ */
+export function RedirectGuard({ children }: RedirectGuardProps) {
+  const location = useLocation();
+  const { data: redirects, isLoading, isError } = useQuery({
+    queryKey: ['redirects'],
+    queryFn: () => cms.getRedirects(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const resolution = useMemo(
+    () => (redirects ? resolveRedirect(redirects, location.pathname) : null),
+    [redirects, location.pathname]
+  );
+
+  useEffect(() => {
+    if (!resolution) return;
+    if (resolution.loop) {
+      console.error(
+        'Redirect loop detected for',
+        location.pathname,
+        resolution.hops.map(hop => `${hop.source_path} -> ${hop.target_path}`)
+      );
+      return;
+    }
+
+    cms.recordRedirectHits(resolution.hops.map(hop => hop.id));
+    if (resolution.target && isExternalTarget(resolution.target)) {
+      window.location.replace(resolution.target);
+    }
+  }, [resolution, location.pathname]);
+
+  // Avoid flashing the 404 while the rules load
+  if (isLoading && !isError) return null;
+
+  if (resolution?.target) {
+    if (isExternalTarget(resolution.target)) return null;
+    // Keep the query string and hash unless the target sets its own
+    const search = resolution.target.includes('?') ? '' : location.search;
+    return <Navigate to={`${resolution.target}${search}${location.hash}`} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -28,13 +28,32 @@ import {
   Building,
   Mail,
   Calculator,
-  Layers
+  Layers,
+  Puzzle,
+  BadgeDollarSign,
+  ListTree,
+  Shuffle,
+  Languages,
+  CalendarDays,
+  Contact,
+  Hash
 } from 'lucide-react';
 import { useState } from 'react';
 
 const navItems = [
   { href: '/admin', icon: LayoutDashboard, label: 'Dashboard', exact: true },
-  { href: '/admin/pages', icon: FileText, label: 'Pages' },
+  { href: '/admin/calendar', icon: CalendarDays, label: 'Content Calendar', editorOnly: true },
+  {
+    href: '/admin/pages',
+    icon: FileText,
+    label: 'Pages',
+    subItems: [
+      { href: '/admin/global-sections', icon: Puzzle, label: 'Global Sections', editorOnly: true },
+      { href: '/admin/menus', icon: ListTree, label: 'Menus', editorOnly: true },
+      { href: '/admin/redirects', icon: Shuffle, label: 'Redirects', editorOnly: true },
+      { href: '/admin/translations', icon: Languages, label: 'Translations', editorOnly: true }
+    ]
+  },
   { href: '/admin/services', icon: Briefcase, label: 'Services' },
   { href: '/admin/projects', icon: FolderOpen, label: 'Portfolio' },
   { 
@@ -42,7 +61,9 @@ const navItems = [
     icon: BookOpen, 
     label: 'Insights (Blog)',
     subItems: [
-      { href: '/admin/blog/categories', icon: Tags, label: 'Categories', editorOnly: true }
+      { href: '/admin/blog/categories', icon: Tags, label: 'Categories', editorOnly: true },
+      { href: '/admin/blog/authors', icon: Contact, label: 'Authors', editorOnly: true },
+      { href: '/admin/blog/tags', icon: Hash, label: 'Tags', editorOnly: true }
     ]
   },
   {
@@ -61,6 +82,7 @@ const navItems = [
   { href: '/admin/contact', icon: Mail, label: 'Contact Submissions' },
   { href: '/admin/quotes', icon: Calculator, label: 'Quotes', adminOnly: true },
   { href: '/admin/proposals', icon: ProposalIcon, label: 'Proposals', editorOnly: true },
+  { href: '/admin/pricing', icon: BadgeDollarSign, label: 'Pricing', editorOnly: true },
   { href: '/admin/payments', icon: CreditCard, label: 'Payments', adminOnly: true },
   { href: '/admin/settings', icon: Settings, label: 'Settings', adminOnly: true },
   { href: '/admin/users', icon: Users, label: 'Users', adminOnly: true },
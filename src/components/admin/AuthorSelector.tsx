@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { adminCms } from '@/lib/admin-cms';
+import { getAuthorInitials } from '@/lib/authors';
+import { BlogAuthor } from '@/types/content';
+import { ArrowDown, ArrowUp, Plus, Users, X } from 'lucide-react';
+
+interface AuthorSelectorProps {
+  selectedAuthorIds: string[];
+  onAuthorChange: (authorIds: string[]) => void;
+  // Pre-selects the author linked to this user while nothing is selected (new posts)
+  defaultProfileId?: string;
+  disabled?: boolean;
+}
+
+export function AuthorSelector({ selectedAuthorIds, onAuthorChange, defaultProfileId, disabled }: AuthorSelectorProps) {
+  const [authors, setAuthors] = useState<BlogAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const defaulted = useRef(false);
+
+  useEffect(() => {
+    fetchAuthors();
+  }, []);
+
+  useEffect(() => {
+    if (loading || defaulted.current || !defaultProfileId) return;
+    defaulted.current = true;
+    const own = authors.find(author => author.profile_id === defaultProfileId);
+    if (own && selectedAuthorIds.length === 0) onAuthorChange([own.id]);
+  }, [loading, authors, defaultProfileId, selectedAuthorIds, onAuthorChange]);
+
+  const fetchAuthors = async () => {
+    try {
+      const data = await adminCms.getAllBlogAuthors();
+      setAuthors(data);
+    } catch (error) {
+      console.error('Error fetching authors:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const moveAuthor = (index: number, offset: number) => {
+    const next = [...selectedAuthorIds];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onAuthorChange(next);
+  };
+
+  const selectedAuthors = selectedAuthorIds
+    .map(id => authors.find(author => author.id === id))
+    .filter((author): author is BlogAuthor => !!author);
+  const availableAuthors = authors.filter(author => !selectedAuthorIds.includes(author.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="w-4 h-4 mr-2" />
+          Authors
+        </CardTitle>
+        <CardDescription>Shown in the byline in this order</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading authors...</p>
+        ) : (
+          <>
+            {selectedAuthors.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No authors yet; the post is credited to Devmart.</p>
+            ) : (
+              <ul className="space-y-2">
+                {selectedAuthors.map((author, index) => (
+                  <li key={author.id} className="flex items-center gap-2">
+                    <Avatar className="h-8 w-8">
+                      {author.avatar_url && <AvatarImage src={author.avatar_url} alt="" />}
+                      <AvatarFallback className="text-xs">{getAuthorInitials(author.name)}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm flex-1 truncate">{author.name}</span>
+                    {author.status === 'draft' && <Badge variant="outline" className="text-xs">Hidden</Badge>}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveAuthor(index, -1)}
+                      disabled={disabled || index === 0}
+                      aria-label={`Move ${author.name} up`}
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveAuthor(index, 1)}
+                      disabled={disabled || index === selectedAuthors.length - 1}
+                      aria-label={`Move ${author.name} down`}
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onAuthorChange(selectedAuthorIds.filter(id => id !== author.id))}
+                      disabled={disabled}
+                      aria-label={`Remove ${author.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {availableAuthors.length > 0 && (
+              <Select value="" onValueChange={(authorId) => onAuthorChange([...selectedAuthorIds, authorId])} disabled={disabled}>
+                <SelectTrigger aria-label="Add author">
+                  <SelectValue placeholder="Add author..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableAuthors.map(author => (
+                    <SelectItem key={author.id} value={author.id}>
+                      {author.name}{author.profile_id ? '' : ' (guest)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/admin/blog/authors">
+                <Plus className="w-4 h-4 mr-1" />
+                Manage authors
+              </Link>
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Link2, Ban } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import type { PreviewEntityType, PreviewToken } from '@/types/content';
+
+interface PreviewLinksCardProps {
+  entityType: PreviewEntityType;
+  entityId?: string;
+  /** Public path of the content, e.g. `/blog/my-post` */
+  path: string;
+  disabled?: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+  { hours: 720, label: '30 days' },
+];
+
+function tokenStatus(token: PreviewToken): 'active' | 'expired' | 'revoked' {
+  if (token.revoked_at) return 'revoked';
+  if (new Date(token.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+export function PreviewLinksCard({ entityType, entityId, path, disabled }: PreviewLinksCardProps) {
+  const [tokens, setTokens] = useState<PreviewToken[]>([]);
+  const [expiresIn, setExpiresIn] = useState('72');
+  const [creating, setCreating] = useState(false);
+
+  const previewUrl = (token: PreviewToken) =>
+    `${window.location.origin}${path}?preview=${encodeURIComponent(token.token)}`;
+
+  const fetchTokens = useCallback(async () => {
+    if (!entityId) return;
+    try {
+      setTokens(await adminCms.getPreviewTokens(entityType, entityId));
+    } catch (error) {
+      console.error('Error fetching preview links:', error);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const copyLink = async (token: PreviewToken) => {
+    try {
+      await navigator.clipboard.writeText(previewUrl(token));
+      adminToast.success('Preview link copied to clipboard');
+    } catch {
+      adminToast.info('Copy this preview link', previewUrl(token));
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!entityId) return;
+    setCreating(true);
+    try {
+      const token = await adminCms.createPreviewToken(entityType, entityId, parseInt(expiresIn, 10));
+      setTokens(prev => [token, ...prev]);
+      await copyLink(token);
+    } catch (error) {
+      console.error('Error creating preview link:', error);
+      adminToast.error('Failed to create preview link', error instanceof Error ? error.message : undefined);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: PreviewToken) => {
+    try {
+      await adminCms.revokePreviewToken(token.id);
+      setTokens(prev => prev.map(t => (t.id === token.id ? { ...t, revoked_at: new Date().toISOString() } : t)));
+      adminToast.success('Preview link revoked');
+    } catch (error) {
+      console.error('Error revoking preview link:', error);
+      adminToast.error('Failed to revoke preview link', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preview Links</CardTitle>
+        <CardDescription>Share unpublished content with an expiring link</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!entityId ? (
+          <p className="text-sm text-muted-foreground">Save this item to create preview links.</p>
+        ) : (
+          <>
+            <div className="flex gap-2">
+              <Select value={expiresIn} onValueChange={setExpiresIn}>
+                <SelectTrigger aria-label="Link expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreate} disabled={disabled || creating} className="shrink-0">
+                <Link2 className="h-4 w-4 mr-2" />
+                {creating ? 'Creating...' : 'Create'}
+              </Button>
+            </div>
+
+            {tokens.length > 0 && (
+              <ul className="space-y-2" aria-label="Preview links">
+                {tokens.map(token => {
+                  const status = tokenStatus(token);
+                  return (
+                    <li key={token.id} className="flex items-center justify-between gap-2 border rounded-lg p-2 text-sm">
+                      <div className="min-w-0">
+                        <Badge variant={status === 'active' ? 'default' : 'secondary'}>{status}</Badge>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {status === 'revoked' ? 'Revoked' : 'Expires'} {formatDate(token.revoked_at || token.expires_at)}
+                        </p>
+                      </div>
+                      {status === 'active' && (
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => copyLink(token)} aria-label="Copy preview link">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)} aria-label="Revoke preview link">
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState, KeyboardEvent, useRef, useEffect } from 'react';
+import { useState, KeyboardEvent, useRef, useId } from 'react';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { X, Plus } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getTagSuggestions } from '@/lib/tags';
 
 interface TagInputProps {
   tags: string[];
@@ -13,6 +14,10 @@ interface TagInputProps {
   maxTagLength?: number;
   className?: string;
   disabled?: boolean;
+  // Existing tags offered as the user types
+  suggestions?: string[];
+  // Applied to every added tag, e.g. normalizeTag for blog tags
+  normalize?: (tag: string) => string;
   'aria-label'?: string;
   'aria-describedby'?: string;
 }
@@ -25,11 +30,16 @@ export function TagInput({
   maxTagLength = 30,
   className,
   disabled = false,
+  suggestions = [],
+  normalize,
   'aria-label': ariaLabel,
   'aria-describedby': ariaDescribedBy,
 }: TagInputProps) {
   const [inputValue, setInputValue] = useState('');
   const [activeTagIndex, setActiveTagIndex] = useState(-1);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const listboxId = useId();
   const inputRef = useRef<HTMLInputElement>(null);
   const tagsContainerRef = useRef<HTMLDivElement>(null);
 
@@ -42,8 +52,16 @@ export function TagInput({
     }
   };
 
+  const matches = getTagSuggestions(inputValue, suggestions, tags);
+  const isListOpen = showSuggestions && matches.length > 0 && !disabled;
+
+  const closeSuggestions = () => {
+    setShowSuggestions(false);
+    setHighlightedIndex(-1);
+  };
+
   const addTag = (tag: string) => {
-    const trimmedTag = tag.trim();
+    const trimmedTag = normalize ? normalize(tag) : tag.trim();
     if (
       trimmedTag &&
       !tags.includes(trimmedTag) &&
@@ -53,6 +71,7 @@ export function TagInput({
       const newTags = [...tags, trimmedTag];
       onTagsChange(newTags);
       setInputValue('');
+      closeSuggestions();
       announceChange(`Added tag: ${trimmedTag}. Total tags: ${newTags.length}`);
     }
   };
@@ -73,7 +92,31 @@ export function TagInput({
     if (disabled) return;
 
     switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (isListOpen) {
+          e.preventDefault();
+          const offset = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlightedIndex(prev => (prev + offset + matches.length) % matches.length);
+        }
+        break;
+
+      case 'Escape':
+        if (isListOpen) {
+          e.preventDefault();
+          closeSuggestions();
+        }
+        break;
+
       case 'Enter':
+        e.preventDefault();
+        if (isListOpen && highlightedIndex >= 0) {
+          addTag(matches[highlightedIndex]);
+        } else if (inputValue.trim()) {
+          addTag(inputValue);
+        }
+        break;
+
       case ',':
       case ' ':
         e.preventDefault();
@@ -136,60 +179,103 @@ export function TagInput({
 
   return (
     <div className={cn("space-y-2", className)}>
-      <div 
-        ref={tagsContainerRef}
-        className={cn(
-          "flex flex-wrap gap-2 p-3 border rounded-md min-h-[42px] bg-background",
-          "focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2",
-          disabled && "opacity-50 cursor-not-allowed"
-        )}
-        onClick={() => inputRef.current?.focus()}
-      >
-        {tags.map((tag, index) => (
-          <Badge
-            key={`${tag}-${index}`}
-            variant="secondary"
-            className={cn(
-              "gap-1 pr-1 cursor-pointer transition-colors",
-              "focus:outline-none focus:ring-2 focus:ring-ring",
-              activeTagIndex === index && "ring-2 ring-ring"
-            )}
-            tabIndex={0}
-            role="button"
-            aria-label={`Tag: ${tag}. Press Delete to remove.`}
-            onKeyDown={(e) => handleTagKeyDown(e, index)}
-            onFocus={() => setActiveTagIndex(index)}
-            onBlur={() => setActiveTagIndex(-1)}
-          >
-            {tag}
-            <Button
-              variant="ghost"
-              size="sm"
-              className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
-              onClick={(e) => {
-                e.stopPropagation();
-                removeTag(index);
-              }}
-              disabled={disabled}
-              aria-label={`Remove tag: ${tag}`}
+      <div className="relative">
+        <div 
+          ref={tagsContainerRef}
+          className={cn(
+            "flex flex-wrap gap-2 p-3 border rounded-md min-h-[42px] bg-background",
+            "focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2",
+            disabled && "opacity-50 cursor-not-allowed"
+          )}
+          onClick={() => inputRef.current?.focus()}
+        >
+          {tags.map((tag, index) => (
+            <Badge
+              key={`${tag}-${index}`}
+              variant="secondary"
+              className={cn(
+                "gap-1 pr-1 cursor-pointer transition-colors",
+                "focus:outline-none focus:ring-2 focus:ring-ring",
+                activeTagIndex === index && "ring-2 ring-ring"
+              )}
+              tabIndex={0}
+              role="button"
+              aria-label={`Tag: ${tag}. Press Delete to remove.`}
+              onKeyDown={(e) => handleTagKeyDown(e, index)}
+              onFocus={() => setActiveTagIndex(index)}
+              onBlur={() => setActiveTagIndex(-1)}
             >
-              <X className="h-3 w-3" />
-            </Button>
-          </Badge>
-        ))}
-        
-        <Input
-          ref={inputRef}
-          value={inputValue}
-          onChange={(e) => setInputValue(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder={tags.length === 0 ? placeholder : ''}
-          className="border-0 shadow-none focus-visible:ring-0 p-0 h-6 flex-1 min-w-[120px]"
-          disabled={disabled || tags.length >= maxTags}
-          aria-label={ariaLabel || "Add tags"}
-          aria-describedby={ariaDescribedBy}
-          maxLength={maxTagLength}
-        />
+              {tag}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-4 w-4 p-0 hover:bg-destructive hover:text-destructive-foreground"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeTag(index);
+                }}
+                disabled={disabled}
+                aria-label={`Remove tag: ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </Badge>
+          ))}
+          
+          <Input
+            ref={inputRef}
+            value={inputValue}
+            onChange={(e) => {
+              setInputValue(e.target.value);
+              setShowSuggestions(true);
+              setHighlightedIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={closeSuggestions}
+            placeholder={tags.length === 0 ? placeholder : ''}
+            className="border-0 shadow-none focus-visible:ring-0 p-0 h-6 flex-1 min-w-[120px]"
+            disabled={disabled || tags.length >= maxTags}
+            aria-label={ariaLabel || "Add tags"}
+            aria-describedby={ariaDescribedBy}
+            maxLength={maxTagLength}
+            role={suggestions.length > 0 ? 'combobox' : undefined}
+            aria-autocomplete={suggestions.length > 0 ? 'list' : undefined}
+            aria-expanded={suggestions.length > 0 ? isListOpen : undefined}
+            aria-controls={isListOpen ? listboxId : undefined}
+            aria-activedescendant={isListOpen && highlightedIndex >= 0 ? `${listboxId}-${highlightedIndex}` : undefined}
+          />
+        </div>
+
+        {isListOpen && (
+          <div
+            id={listboxId}
+            role="listbox"
+            aria-label="Existing tags"
+            className="absolute z-50 mt-1 w-full max-h-60 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {matches.map((match, index) => (
+              <div
+                key={match}
+                id={`${listboxId}-${index}`}
+                role="option"
+                tabIndex={-1}
+                aria-selected={index === highlightedIndex}
+                className={cn(
+                  "cursor-pointer rounded-sm px-2 py-1.5 text-sm",
+                  index === highlightedIndex && "bg-accent text-accent-foreground"
+                )}
+                // Picks on mouse down so the input keeps focus; keyboard users pick from the input
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  addTag(match);
+                }}
+                onMouseEnter={() => setHighlightedIndex(index)}
+              >
+                {match}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
       
       {errorMessage && (
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { MediaPicker } from '@/components/media/MediaPicker';
+import {
+  BLOCK_TYPES,
+  createDefaultBlock,
+  getBlockIssuesById,
+  normalizeBlogBody,
+  type BlogBody,
+  type ContentBlock,
+  type ContentBlockType,
+} from '@/lib/blocks/schema';
+import {
+  CalloutFields,
+  CodeFields,
+  EmbedFields,
+  HeaderFields,
+  ImageFields,
+  ListFields,
+  ParagraphFields,
+  QuoteFields,
+  TableFields,
+} from './BlockFieldEditors';
+import { cn } from '@/lib/utils';
+
+interface BlockEditorProps {
+  /** The stored body; posts from before the block editor are brought to the block shape */
+  body: unknown;
+  onChange: (body: BlogBody) => void;
+  disabled?: boolean;
+}
+
+function AddBlockMenu({ onAdd, disabled, compact }: { onAdd: (type: ContentBlockType) => void; disabled?: boolean; compact?: boolean }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {compact ? (
+          <Button type="button" variant="ghost" size="icon" className="h-8 w-8" disabled={disabled} aria-label="Add block below">
+            <Plus className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" disabled={disabled}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Block
+          </Button>
+        )}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        {BLOCK_TYPES.map(blockType => (
+          <DropdownMenuItem key={blockType.type} onSelect={() => onAdd(blockType.type)} className="flex-col items-start">
+            <span className="font-medium">{blockType.label}</span>
+            <span className="text-xs text-muted-foreground">{blockType.description}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/**
+ * Block editor for blog post bodies. Blocks are added, reordered and edited in place;
+ * blocks that do not pass the block schema are flagged, and the post cannot be saved
+ * until they are fixed.
+ */
+export function BlockEditor({ body, onChange, disabled }: BlockEditorProps) {
+  const blocks = useMemo(() => normalizeBlogBody(body).blocks as ContentBlock[], [body]);
+  const issuesById = useMemo(() => getBlockIssuesById(blocks), [blocks]);
+  const [imageBlockId, setImageBlockId] = useState<string | null>(null);
+
+  const setBlocks = (next: ContentBlock[]) => onChange({ blocks: next });
+
+  const insertBlock = (type: ContentBlockType, index = blocks.length) => {
+    const block = createDefaultBlock(type);
+    setBlocks([...blocks.slice(0, index), block, ...blocks.slice(index)]);
+    if (type === 'image') setImageBlockId(block.id);
+  };
+
+  const updateBlock = (id: string, data: Partial<ContentBlock['data']>) => {
+    setBlocks(blocks.map(block => (block.id === id ? { ...block, data: { ...block.data, ...data } } as ContentBlock : block)));
+  };
+
+  const moveBlock = (index: number, offset: number) => {
+    const next = [...blocks];
+    const [block] = next.splice(index, 1);
+    next.splice(index + offset, 0, block);
+    setBlocks(next);
+  };
+
+  const renderFields = (block: ContentBlock) => {
+    const onBlockChange = (data: Partial<ContentBlock['data']>) => updateBlock(block.id, data);
+    switch (block.type) {
+      case 'paragraph': return <ParagraphFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'header': return <HeaderFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'list': return <ListFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'quote': return <QuoteFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'image': return <ImageFields block={block} onChange={onBlockChange} disabled={disabled} onPickImage={() => setImageBlockId(block.id)} />;
+      case 'code': return <CodeFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'table': return <TableFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'embed': return <EmbedFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'callout': return <CalloutFields block={block} onChange={onBlockChange} disabled={disabled} />;
+      case 'delimiter': return null;
+      default:
+        return <p className="text-sm text-muted-foreground">This block type is not supported any more. Remove it, or leave it and it is not shown on the site.</p>;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {blocks.length === 0 && (
+        <p className="rounded-lg border border-dashed p-6 text-center text-sm text-muted-foreground">
+          This post has no content yet. Add a block to start writing.
+        </p>
+      )}
+
+      {blocks.map((block, index) => {
+        const issues = issuesById[block.id] ?? [];
+        const label = BLOCK_TYPES.find(blockType => blockType.type === block.type)?.label ?? block.type;
+
+        return (
+          <Card key={block.id} className={cn(issues.length > 0 && 'border-destructive')}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 py-3">
+              <CardTitle className="text-sm font-medium">{label}</CardTitle>
+              <div className="flex items-center gap-1">
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveBlock(index, -1)}
+                  disabled={disabled || index === 0} aria-label={`Move ${label} block up`}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveBlock(index, 1)}
+                  disabled={disabled || index === blocks.length - 1} aria-label={`Move ${label} block down`}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <AddBlockMenu compact onAdd={(type) => insertBlock(type, index + 1)} disabled={disabled} />
+                <Button type="button" variant="ghost" size="icon" className="h-8 w-8 text-destructive"
+                  onClick={() => setBlocks(blocks.filter(candidate => candidate.id !== block.id))}
+                  disabled={disabled} aria-label={`Remove ${label} block`}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            {(block.type !== 'delimiter' || issues.length > 0) && (
+              <CardContent className="space-y-3">
+                {renderFields(block)}
+                {issues.length > 0 && (
+                  <ul className="space-y-1 text-sm text-destructive" aria-live="polite">
+                    {issues.map(issue => <li key={issue}>{issue}</li>)}
+                  </ul>
+                )}
+              </CardContent>
+            )}
+          </Card>
+        );
+      })}
+
+      <AddBlockMenu onAdd={(type) => insertBlock(type)} disabled={disabled} />
+
+      <MediaPicker
+        open={!!imageBlockId}
+        onOpenChange={(open) => !open && setImageBlockId(null)}
+        onSelect={(media) => {
+          const block = blocks.find(candidate => candidate.id === imageBlockId);
+          if (block?.type === 'image') updateBlock(block.id, { url: media.url, alt: block.data.alt || media.alt });
+          setImageBlockId(null);
+        }}
+        uploadPath="blog/"
+      />
+    </div>
+  );
+}
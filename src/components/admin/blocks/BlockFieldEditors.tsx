@@ -0,0 +1,363 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Minus, Plus, Upload } from 'lucide-react';
+import {
+  CALLOUT_VARIANTS,
+  type CalloutBlock,
+  type CodeBlock,
+  type ContentBlock,
+  type EmbedBlock,
+  type HeaderBlock,
+  type ImageBlock,
+  type ListBlock,
+  type ParagraphBlock,
+  type QuoteBlock,
+  type TableBlock,
+} from '@/lib/blocks/schema';
+import { CODE_LANGUAGES } from '@/lib/blocks/highlight';
+import { listItemsToText, textToListItems } from '@/lib/blocks/content';
+import { resolveEmbed, getEmbedProviderLabel } from '@/lib/sections/embeds';
+import { InlineTextField } from './InlineTextField';
+
+interface BlockFieldsProps<T extends ContentBlock> {
+  block: T;
+  onChange: (data: Partial<T['data']>) => void;
+  disabled?: boolean;
+}
+
+const fieldId = (block: ContentBlock, name: string) => `block-${name}-${block.id}`;
+
+export function ParagraphFields({ block, onChange, disabled }: BlockFieldsProps<ParagraphBlock>) {
+  return (
+    <InlineTextField
+      id={fieldId(block, 'text')}
+      label="Text"
+      value={block.data.text}
+      onChange={(text) => onChange({ text })}
+      rows={4}
+      disabled={disabled}
+    />
+  );
+}
+
+export function HeaderFields({ block, onChange, disabled }: BlockFieldsProps<HeaderBlock>) {
+  return (
+    <div className="grid grid-cols-[1fr_8rem] gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'text')}>Heading</Label>
+        <Input
+          id={fieldId(block, 'text')}
+          value={block.data.text}
+          onChange={(e) => onChange({ text: e.target.value })}
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'level')}>Level</Label>
+        <Select
+          value={String(block.data.level)}
+          onValueChange={(level) => onChange({ level: Number(level) as 2 | 3 | 4 })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={fieldId(block, 'level')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="2">H2</SelectItem>
+            <SelectItem value="3">H3</SelectItem>
+            <SelectItem value="4">H4</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+export function ListFields({ block, onChange, disabled }: BlockFieldsProps<ListBlock>) {
+  // Edited as text; blank lines are kept while typing and only dropped from the items
+  const [text, setText] = useState(() => listItemsToText(block.data.items));
+
+  useEffect(() => {
+    setText(current => (
+      listItemsToText(textToListItems(current)) === listItemsToText(block.data.items) ? current : listItemsToText(block.data.items)
+    ));
+  }, [block.data.items]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={fieldId(block, 'ordered')}
+          checked={block.data.style === 'ordered'}
+          onCheckedChange={(checked) => onChange({ style: checked ? 'ordered' : 'unordered' })}
+          disabled={disabled}
+        />
+        <Label htmlFor={fieldId(block, 'ordered')}>Numbered list</Label>
+      </div>
+      <InlineTextField
+        id={fieldId(block, 'items')}
+        label="Items"
+        value={text}
+        onChange={(value) => {
+          setText(value);
+          onChange({ items: textToListItems(value) });
+        }}
+        rows={5}
+        placeholder={'First item\n  Nested item\nSecond item'}
+        disabled={disabled}
+      />
+      <p className="text-xs text-muted-foreground">One item per line. Indent a line with two spaces to nest it under the line above.</p>
+    </div>
+  );
+}
+
+export function QuoteFields({ block, onChange, disabled }: BlockFieldsProps<QuoteBlock>) {
+  return (
+    <div className="space-y-4">
+      <InlineTextField
+        id={fieldId(block, 'text')}
+        label="Quote"
+        value={block.data.text}
+        onChange={(text) => onChange({ text })}
+        disabled={disabled}
+      />
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'caption')}>Source</Label>
+        <Input
+          id={fieldId(block, 'caption')}
+          value={block.data.caption || ''}
+          onChange={(e) => onChange({ caption: e.target.value || undefined })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function ImageFields({ block, onChange, disabled, onPickImage }: BlockFieldsProps<ImageBlock> & { onPickImage: () => void }) {
+  return (
+    <div className="space-y-4">
+      {block.data.url ? (
+        <div className="space-y-3">
+          <div className="overflow-hidden rounded-lg border">
+            <img src={block.data.url} alt={block.data.alt} className="max-h-64 w-full object-cover" />
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={onPickImage} disabled={disabled}>
+            <Upload className="mr-1 h-4 w-4" />
+            Change Image
+          </Button>
+        </div>
+      ) : (
+        <div className="rounded-lg border-2 border-dashed border-muted-foreground/25 p-6 text-center">
+          <Button type="button" variant="outline" onClick={onPickImage} disabled={disabled}>
+            Select Image
+          </Button>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'alt')}>Alt text</Label>
+        <Input
+          id={fieldId(block, 'alt')}
+          value={block.data.alt}
+          onChange={(e) => onChange({ alt: e.target.value })}
+          placeholder="Describe the image for screen readers"
+          disabled={disabled}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'caption')}>Caption</Label>
+        <Input
+          id={fieldId(block, 'caption')}
+          value={block.data.caption || ''}
+          onChange={(e) => onChange({ caption: e.target.value || undefined })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function CodeFields({ block, onChange, disabled }: BlockFieldsProps<CodeBlock>) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'language')}>Language</Label>
+        <Select
+          value={block.data.language}
+          onValueChange={(language) => onChange({ language: language as CodeBlock['data']['language'] })}
+          disabled={disabled}
+        >
+          <SelectTrigger id={fieldId(block, 'language')} className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CODE_LANGUAGES.map(language => (
+              <SelectItem key={language.value} value={language.value}>{language.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'code')}>Code</Label>
+        <Textarea
+          id={fieldId(block, 'code')}
+          value={block.data.code}
+          onChange={(e) => onChange({ code: e.target.value })}
+          rows={8}
+          className="font-mono text-sm"
+          spellCheck={false}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+type TableContent = TableBlock['data']['content'];
+
+const TABLE_ACTIONS: { label: string; icon: typeof Plus; apply: (content: TableContent) => TableContent; enabled: (content: TableContent) => boolean }[] = [
+  { label: 'Add row', icon: Plus, apply: content => [...content, Array(content[0]?.length ?? 1).fill('')], enabled: () => true },
+  { label: 'Remove row', icon: Minus, apply: content => content.slice(0, -1), enabled: content => content.length > 1 },
+  { label: 'Add column', icon: Plus, apply: content => content.map(row => [...row, '']), enabled: () => true },
+  { label: 'Remove column', icon: Minus, apply: content => content.map(row => row.slice(0, -1)), enabled: content => (content[0]?.length ?? 0) > 1 },
+];
+
+export function TableFields({ block, onChange, disabled }: BlockFieldsProps<TableBlock>) {
+  const { content } = block.data;
+
+  const updateCell = (rowIndex: number, cellIndex: number, value: string) => {
+    onChange({
+      content: content.map((row, index) => (
+        index === rowIndex ? row.map((cell, i) => (i === cellIndex ? value : cell)) : row
+      )),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={fieldId(block, 'headings')}
+          checked={block.data.withHeadings}
+          onCheckedChange={(withHeadings) => onChange({ withHeadings })}
+          disabled={disabled}
+        />
+        <Label htmlFor={fieldId(block, 'headings')}>First row is a heading row</Label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1">
+          <tbody>
+            {content.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <td key={cellIndex}>
+                    <Input
+                      value={cell}
+                      onChange={(e) => updateCell(rowIndex, cellIndex, e.target.value)}
+                      aria-label={`Row ${rowIndex + 1}, column ${cellIndex + 1}`}
+                      className={block.data.withHeadings && rowIndex === 0 ? 'font-semibold' : undefined}
+                      disabled={disabled}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {TABLE_ACTIONS.map(action => (
+          <Button
+            key={action.label}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ content: action.apply(content) })}
+            disabled={disabled || !action.enabled(content)}
+          >
+            <action.icon className="mr-1 h-4 w-4" />
+            {action.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function EmbedFields({ block, onChange, disabled }: BlockFieldsProps<EmbedBlock>) {
+  const embed = block.data.url ? resolveEmbed(block.data.url) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'url')}>Video or embed URL</Label>
+        <Input
+          id={fieldId(block, 'url')}
+          value={block.data.url}
+          onChange={(e) => onChange({ url: e.target.value.trim() })}
+          placeholder="https://www.youtube.com/watch?v=..."
+          aria-invalid={!!block.data.url && !embed}
+          disabled={disabled}
+        />
+        {embed && <Badge variant="secondary">{getEmbedProviderLabel(embed.provider)}</Badge>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={fieldId(block, 'caption')}>Caption</Label>
+        <Input
+          id={fieldId(block, 'caption')}
+          value={block.data.caption || ''}
+          onChange={(e) => onChange({ caption: e.target.value || undefined })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function CalloutFields({ block, onChange, disabled }: BlockFieldsProps<CalloutBlock>) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[10rem_1fr] gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={fieldId(block, 'variant')}>Style</Label>
+          <Select
+            value={block.data.variant}
+            onValueChange={(variant) => onChange({ variant: variant as CalloutBlock['data']['variant'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger id={fieldId(block, 'variant')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CALLOUT_VARIANTS.map(variant => (
+                <SelectItem key={variant.value} value={variant.value}>{variant.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={fieldId(block, 'title')}>Title</Label>
+          <Input
+            id={fieldId(block, 'title')}
+            value={block.data.title || ''}
+            onChange={(e) => onChange({ title: e.target.value || undefined })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <InlineTextField
+        id={fieldId(block, 'text')}
+        label="Text"
+        value={block.data.text}
+        onChange={(text) => onChange({ text })}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
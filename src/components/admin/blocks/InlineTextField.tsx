@@ -0,0 +1,84 @@
+import { useRef, type KeyboardEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Bold, Code, Italic, Link2 } from 'lucide-react';
+import { wrapSelection } from '@/lib/blocks/content';
+import { cn } from '@/lib/utils';
+
+interface InlineTextFieldProps {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const FORMATS = [
+  { label: 'Bold', icon: Bold, before: '**', after: '**', shortcut: 'b' },
+  { label: 'Italic', icon: Italic, before: '*', after: '*', shortcut: 'i' },
+  { label: 'Inline code', icon: Code, before: '`', after: '`', shortcut: 'e' },
+  { label: 'Link', icon: Link2, before: '[', after: '](https://)', shortcut: 'k' },
+];
+
+// Textarea for block text with a bold/italic/code/link toolbar; stores inline markdown
+export function InlineTextField({ id, label, value, onChange, rows = 3, placeholder, disabled, className }: InlineTextFieldProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const applyFormat = (before: string, after: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const next = wrapSelection(value, textarea.selectionStart, textarea.selectionEnd, before, after);
+    onChange(next.value);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.start, next.end);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const format = FORMATS.find(option => option.shortcut === e.key.toLowerCase());
+    if (!format) return;
+    e.preventDefault();
+    applyFormat(format.before, format.after);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>{label}</Label>
+        <div className="flex gap-1" role="toolbar" aria-label={`Format ${label.toLowerCase()}`}>
+          {FORMATS.map(({ label: formatLabel, icon: Icon, before, after }) => (
+            <Button
+              key={formatLabel}
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => applyFormat(before, after)}
+              disabled={disabled}
+              aria-label={formatLabel}
+              title={formatLabel}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+      </div>
+      <Textarea
+        ref={textareaRef}
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={rows}
+        placeholder={placeholder}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
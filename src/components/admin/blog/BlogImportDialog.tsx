@@ -0,0 +1,336 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { adminToast } from '@/lib/toast-utils';
+import {
+  parseBlogImportFiles,
+  planBlogImport,
+  type BlogConflictResolution,
+  type BlogImportAction,
+  type BlogImportSource,
+} from '@/lib/blog-import';
+import type { BlogCategory, BlogImportResult, BlogPost, PageImportStatus } from '@/types/content';
+
+interface BlogImportDialogProps {
+  existingPosts: BlogPost[];
+  /** Called after posts were written so the post list can reload */
+  onImported?: () => void;
+}
+
+const actionVariants: Record<BlogImportAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  overwrite: 'destructive',
+  rename: 'secondary',
+  skip: 'outline',
+  invalid: 'destructive',
+};
+
+const resultVariants: Record<PageImportStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  created: 'default',
+  updated: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive',
+};
+
+const CONFLICT_OPTIONS: { value: BlogConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'rename', label: 'Import with new slug' },
+];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Import posts from a WordPress export or markdown files, with a dry-run report before writing
+export function BlogImportDialog({ existingPosts, onImported }: BlogImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [sources, setSources] = useState<BlogImportSource[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [categories, setCategories] = useState<BlogCategory[]>([]);
+  const [conflictResolution, setConflictResolution] = useState<BlogConflictResolution>('skip');
+  const [overrides, setOverrides] = useState<Record<string, BlogConflictResolution>>({});
+  const [importAsDraft, setImportAsDraft] = useState(true);
+  const [rehostImages, setRehostImages] = useState(true);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<BlogImportResult[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    adminCms.getAllBlogCategories()
+      .then(setCategories)
+      .catch(error => console.error('Error loading blog categories:', error));
+  }, [open]);
+
+  const plan = useMemo(
+    () => planBlogImport(sources, existingPosts, categories, { conflictResolution, overrides, importAsDraft }),
+    [sources, existingPosts, categories, conflictResolution, overrides, importAsDraft]
+  );
+
+  const writable = plan.filter(item => item.post && item.action !== 'skip' && item.action !== 'invalid');
+  const imageCount = new Set(writable.flatMap(item => item.images)).size;
+  const newCategories = [...new Set(writable.flatMap(item => item.categories.filter(category => !category.existingId).map(category => category.name)))];
+
+  const reset = () => {
+    setSources([]);
+    setFileErrors([]);
+    setOverrides({});
+    setResults(null);
+  };
+
+  const handleFiles = async (files: File[]) => {
+    reset();
+    setReading(true);
+    try {
+      const parsed = parseBlogImportFiles(await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() }))));
+      setSources(parsed.sources);
+      setFileErrors(parsed.errors);
+    } catch (error) {
+      console.error('Error reading import files:', error);
+      setFileErrors([error instanceof Error ? error.message : 'The files could not be read']);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const imported = await adminCms.importBlogPosts(plan, { rehostImages });
+      setResults(imported);
+
+      const failed = imported.filter(result => result.status === 'failed').length;
+      const written = imported.filter(result => result.status === 'created' || result.status === 'updated').length;
+      const imageFailures = imported.reduce((total, result) => total + result.imageFailures.length, 0);
+      if (failed > 0 || imageFailures > 0) {
+        adminToast.warning(
+          failed > 0 ? `${plural(failed, 'post')} failed to import` : `${plural(imageFailures, 'image')} could not be re-hosted`,
+          'See the report for details'
+        );
+      } else {
+        adminToast.success('Posts imported', `${plural(written, 'post')} saved`);
+      }
+      if (written > 0) onImported?.();
+    } catch (error) {
+      console.error('Error importing blog posts:', error);
+      adminToast.error('Failed to import posts', error instanceof Error ? error.message : undefined);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Blog Posts</DialogTitle>
+          <DialogDescription>
+            Import posts from a WordPress export (.xml) or from markdown files with front matter. Review the dry-run report below; nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={reading || importing}>
+            <Upload className="h-4 w-4 mr-2" />
+            {reading ? 'Reading files...' : sources.length ? 'Choose other files' : 'Choose files'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".xml,.md,.markdown,.mdx,application/xml,text/xml,text/markdown"
+            className="hidden"
+            aria-label="WordPress export or markdown files"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              if (files.length) handleFiles(files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <p className="font-medium mb-1">Some files could not be read:</p>
+              <ul className="list-disc list-inside text-xs space-y-1">
+                {fileErrors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {sources.length > 0 && !results && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="blog-import-conflicts">When a slug already exists</Label>
+                <Select value={conflictResolution} onValueChange={(value) => setConflictResolution(value as BlogConflictResolution)}>
+                  <SelectTrigger id="blog-import-conflicts" className="sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFLICT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="blog-import-draft" checked={importAsDraft} onCheckedChange={setImportAsDraft} />
+                <Label htmlFor="blog-import-draft">Import as drafts</Label>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="blog-import-images" checked={rehostImages} onCheckedChange={setRehostImages} />
+                <Label htmlFor="blog-import-images">Copy images to the media library</Label>
+              </div>
+            </div>
+
+            <div className="max-h-[45vh] overflow-y-auto">
+              <p className="text-sm text-muted-foreground mb-2">
+                Dry run: {writable.length} of {plural(plan.length, 'post')} will be saved
+                {rehostImages && imageCount > 0 && `, ${plural(imageCount, 'image')} copied to the media library`}
+                {newCategories.length > 0 && `, new categories: ${newCategories.join(', ')}`}.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Post</TableHead>
+                    <TableHead>Slug</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(item => (
+                    <TableRow key={item.sourceName}>
+                      <TableCell>
+                        <div className="font-medium">{item.title || 'Untitled'}</div>
+                        <div className="text-xs text-muted-foreground">{item.sourceName}</div>
+                        {item.post && (
+                          <div className="text-xs text-muted-foreground">
+                            {plural(item.post.body.blocks.length, 'block')}
+                            {item.images.length > 0 && `, ${plural(item.images.length, 'remote image')}`}
+                            {item.post.status === 'published' ? ', published' : ', draft'}
+                          </div>
+                        )}
+                        {(item.categories.length > 0 || (item.post?.tags?.length ?? 0) > 0) && (
+                          <div className="mt-1 flex flex-wrap gap-1">
+                            {item.categories.map(category => (
+                              <Badge key={category.slug} variant={category.existingId ? 'secondary' : 'default'} className="text-xs">
+                                {category.name}{!category.existingId && ' (new)'}
+                              </Badge>
+                            ))}
+                            {item.post?.tags?.map(tag => (
+                              <Badge key={tag} variant="outline" className="text-xs">#{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {item.issues.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs text-destructive">
+                            {item.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                          </ul>
+                        )}
+                        {item.warnings.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs text-warning">
+                            {item.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {item.slug === item.sourceSlug ? item.slug : `${item.sourceSlug} → ${item.slug}`}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-2">
+                          <Badge variant={actionVariants[item.action]}>{item.action}</Badge>
+                          {item.conflict && item.action !== 'invalid' && (
+                            <Select
+                              value={item.action}
+                              onValueChange={(value) => setOverrides(prev => ({ ...prev, [item.sourceName]: value as BlogConflictResolution }))}
+                            >
+                              <SelectTrigger className="h-8 w-40 text-xs" aria-label={`Conflict resolution for ${item.title}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CONFLICT_OPTIONS.map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button onClick={handleImport} disabled={importing || writable.length === 0}>
+                {importing ? 'Importing...' : `Import ${plural(writable.length, 'post')}`}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {results && (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <p className="text-sm text-muted-foreground mb-2">Import complete.</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Post</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow key={result.sourceName}>
+                    <TableCell>
+                      <div className="font-medium">{result.title || 'Untitled'}</div>
+                      <div className="text-xs text-muted-foreground">{result.slug}</div>
+                      {(result.imagesRehosted > 0 || result.categoriesCreated.length > 0) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[
+                            result.imagesRehosted > 0 && `${plural(result.imagesRehosted, 'image')} copied`,
+                            result.categoriesCreated.length > 0 && `created ${result.categoriesCreated.join(', ')}`,
+                          ].filter(Boolean).join('; ')}
+                        </div>
+                      )}
+                      {result.imageFailures.length > 0 && (
+                        <div className="mt-1 text-xs text-warning">
+                          <p>Kept the original URL for {plural(result.imageFailures.length, 'image')} that could not be downloaded:</p>
+                          <ul className="list-disc list-inside">
+                            {result.imageFailures.map(url => <li key={url} className="truncate" title={url}>{url}</li>)}
+                          </ul>
+                        </div>
+                      )}
+                      {result.error && <p className="mt-1 text-xs text-destructive">{result.error}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={resultVariants[result.status]}>{result.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
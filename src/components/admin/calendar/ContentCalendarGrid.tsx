@@ -0,0 +1,127 @@
+import { DragEvent, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, isSameMonth, isToday } from 'date-fns';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CALENDAR_ENTITY_LABELS,
+  getCalendarDayKey,
+  getCalendarEditorPath,
+  getCalendarItemColor,
+  groupCalendarItemsByDay,
+  type CalendarColorMode,
+  type CalendarView,
+} from '@/lib/calendar';
+import type { CalendarItem } from '@/types/content';
+import { Card } from '@/components/ui/card';
+
+interface ContentCalendarGridProps {
+  view: CalendarView;
+  /** Any day of the month or week on show */
+  date: Date;
+  days: Date[];
+  items: CalendarItem[];
+  colorMode: CalendarColorMode;
+  onReschedule: (item: CalendarItem, day: Date) => void;
+  disabled?: boolean;
+}
+
+const itemKey = (item: CalendarItem) => `${item.entity_type}-${item.id}`;
+
+/**
+ * Month or week grid of calendar items. Items link to their editor and can be dragged
+ * onto another day to reschedule them.
+ */
+export function ContentCalendarGrid({ view, date, days, items, colorMode, onReschedule, disabled }: ContentCalendarGridProps) {
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+  const itemsByDay = groupCalendarItemsByDay(items);
+
+  const handleDrop = (event: DragEvent<HTMLElement>, day: Date) => {
+    event.preventDefault();
+    const item = items.find(candidate => itemKey(candidate) === draggedKey);
+    if (item && getCalendarDayKey(item.date) !== getCalendarDayKey(day)) {
+      onReschedule(item, day);
+    }
+    setDraggedKey(null);
+    setDropDay(null);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-[720px] grid-cols-7 border-l border-t" aria-hidden="true">
+        {days.slice(0, 7).map(day => (
+          <div key={day.toISOString()} className="border-b border-r bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+            {format(day, 'EEE')}
+          </div>
+        ))}
+      </div>
+      <ol className="grid min-w-[720px] grid-cols-7 border-l" aria-label="Content calendar">
+        {days.map(day => {
+          const key = getCalendarDayKey(day);
+          const dayItems = itemsByDay.get(key) || [];
+
+          return (
+            <li key={key} className="border-b border-r">
+              <Card
+                className={cn(
+                  'h-full space-y-1 rounded-none border-0 p-1 shadow-none',
+                  view === 'month' ? 'min-h-28' : 'min-h-80',
+                  view === 'month' && !isSameMonth(day, date) && 'bg-muted/30 text-muted-foreground',
+                  dropDay === key && 'ring-2 ring-inset ring-primary'
+                )}
+                onDragOver={(event) => {
+                  if (!draggedKey) return;
+                  event.preventDefault();
+                  setDropDay(key);
+                }}
+                onDragLeave={() => setDropDay(prev => (prev === key ? null : prev))}
+                onDrop={(event) => handleDrop(event, day)}
+              >
+                <div className={cn(
+                  'flex h-6 w-6 items-center justify-center rounded-full text-xs',
+                  isToday(day) && 'bg-primary text-primary-foreground'
+                )}>
+                  <time dateTime={key}>{format(day, 'd')}</time>
+                </div>
+                {dayItems.map(item => {
+                  const color = getCalendarItemColor(item, colorMode);
+                  return (
+                    <Link
+                      key={itemKey(item)}
+                      to={getCalendarEditorPath(item.entity_type, item.id)}
+                      draggable={!disabled}
+                      onDragStart={(event) => {
+                        event.dataTransfer.effectAllowed = 'move';
+                        event.dataTransfer.setData('text/plain', itemKey(item));
+                        setDraggedKey(itemKey(item));
+                      }}
+                      onDragEnd={() => {
+                        setDraggedKey(null);
+                        setDropDay(null);
+                      }}
+                      className={cn(
+                        'block rounded border-l-4 px-1.5 py-1 text-xs hover:opacity-80',
+                        item.scheduled && 'border-dashed',
+                        draggedKey === itemKey(item) && 'opacity-50',
+                        disabled ? 'cursor-default' : 'cursor-grab'
+                      )}
+                      style={{ borderLeftColor: color, backgroundColor: `${color}1a` }}
+                      title={`${CALENDAR_ENTITY_LABELS[item.entity_type]}${item.category ? ` · ${item.category.name}` : ''} · ${item.scheduled ? 'Scheduled' : 'Published'} ${format(new Date(item.date), 'PPp')}`}
+                    >
+                      <span className="flex items-center gap-1">
+                        {item.scheduled && <Clock className="h-3 w-3 shrink-0" aria-label="Scheduled" />}
+                        {view === 'week' && <span className="text-muted-foreground">{format(new Date(item.date), 'HH:mm')}</span>}
+                        <span className="truncate font-medium text-foreground">{item.title}</span>
+                      </span>
+                    </Link>
+                  );
+                })}
+              </Card>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
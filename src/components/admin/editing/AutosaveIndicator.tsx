@@ -0,0 +1,25 @@
+import { CloudOff, Check } from 'lucide-react';
+import type { AutosaveState } from '@/hooks/useAutosave';
+
+// Quiet "Draft saved 10:42" next to an editor's save button
+export function AutosaveIndicator({ status, lastSavedAt }: Pick<AutosaveState<unknown>, 'status' | 'lastSavedAt'>) {
+  if (status === 'idle' || !lastSavedAt) return null;
+
+  const time = new Date(lastSavedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  if (status === 'offline') {
+    return (
+      <span className="flex items-center gap-1 text-sm text-amber-600" role="status">
+        <CloudOff className="h-4 w-4" />
+        Saved on this device {time}, waiting for your session
+      </span>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-1 text-sm text-muted-foreground" role="status">
+      <Check className="h-4 w-4" />
+      {status === 'saved' ? 'Draft saved' : 'Saved on this device'} {time}
+    </span>
+  );
+}
@@ -0,0 +1,38 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Lock, Users } from 'lucide-react';
+import { getEditorDisplayName } from '@/lib/edit-locks';
+import type { EditLockState } from '@/hooks/useEditLock';
+import { cn } from '@/lib/utils';
+
+// "Anna is editing" above an editor, with a takeover for soft-locked content
+export function EditLockBanner({ lock, others, lockedByOther, takeOver, takingOver, className }: EditLockState & { className?: string }) {
+  if (lockedByOther && lock) {
+    const holder = others.find(editor => editor.user_id === lock.locked_by);
+    const name = holder?.name || (lock.locked_by_email ? getEditorDisplayName(lock.locked_by_email) : 'Another editor');
+
+    return (
+      <Alert className={cn('border-amber-500/50', className)}>
+        <Lock className="h-4 w-4" />
+        <AlertTitle>{name} is editing</AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-4">
+          <span>Saving is paused while they have this content open. Take over if they have left or you agreed to.</span>
+          <Button size="sm" variant="outline" onClick={takeOver} disabled={takingOver}>
+            {takingOver ? 'Taking over...' : 'Take over editing'}
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (others.length === 0) return null;
+
+  return (
+    <Alert className={className}>
+      <Users className="h-4 w-4" />
+      <AlertDescription>
+        {others.map(editor => editor.name).join(', ')} {others.length === 1 ? 'also has' : 'also have'} this content open.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,38 @@
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { History } from 'lucide-react';
+import { formatDate } from '@/lib/admin-utils';
+import { isDraftOutdated } from '@/lib/autosave';
+import type { EditorDraft } from '@/types/content';
+import { cn } from '@/lib/utils';
+
+interface RestoreDraftBannerProps {
+  draft: EditorDraft | null;
+  /** updated_at of the content as loaded, to warn about drafts older than the last save */
+  currentUpdatedAt?: string | null;
+  onRestore: () => void;
+  onDiscard: () => void;
+  className?: string;
+}
+
+// "Restore unsaved changes" prompt for an editor reopened after a crash or an expired session
+export function RestoreDraftBanner({ draft, currentUpdatedAt, onRestore, onDiscard, className }: RestoreDraftBannerProps) {
+  if (!draft) return null;
+
+  return (
+    <Alert className={cn('border-primary/50', className)}>
+      <History className="h-4 w-4" />
+      <AlertTitle>Unsaved changes from {formatDate(draft.saved_at)}</AlertTitle>
+      <AlertDescription className="flex flex-wrap items-center justify-between gap-4">
+        <span>
+          Your last edits were not saved.
+          {isDraftOutdated(draft, currentUpdatedAt) && ' This content has been saved since, so restoring replaces those changes.'}
+        </span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={onDiscard}>Discard</Button>
+          <Button size="sm" onClick={onRestore}>Restore unsaved changes</Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
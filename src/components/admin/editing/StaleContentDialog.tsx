@@ -0,0 +1,81 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatDate } from '@/lib/admin-utils';
+import { mergeConcurrentChanges } from '@/lib/concurrency';
+import { adminToast } from '@/lib/toast-utils';
+import type { SaveConflict } from '@/hooks/useSaveConflict';
+
+interface StaleContentDialogProps<T extends object> {
+  conflict: SaveConflict;
+  /** The editor's unsaved state */
+  current: T;
+  /** Replaces the editor's state with a merged or the latest version */
+  onResolve: (row: T) => void;
+  /** Saves the editor's state over the latest version */
+  onOverwrite: (expectedUpdatedAt: string) => void;
+}
+
+/**
+ * Shown when a save was rejected because someone else saved first. Offers to merge their
+ * changes into the editor, to overwrite them, or to drop the local changes.
+ */
+export function StaleContentDialog<T extends object>({ conflict, current, onResolve, onOverwrite }: StaleContentDialogProps<T>) {
+  const latest = conflict.error?.latest;
+
+  const handleMerge = () => {
+    if (!latest || !conflict.base) return;
+    const { merged, conflicts } = mergeConcurrentChanges(conflict.base, current, latest);
+    conflict.setBase(latest);
+    conflict.dismiss();
+    onResolve(merged);
+    if (conflicts.length > 0) {
+      adminToast.warning('Merged with conflicts', `Both of you changed ${conflicts.join(', ')}; your version was kept. Review and save again.`);
+    } else {
+      adminToast.info('Changes merged', 'Review the merged content and save again.');
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!latest) return;
+    conflict.setBase(latest);
+    conflict.dismiss();
+    onResolve(latest as T);
+  };
+
+  const handleOverwrite = () => {
+    if (!latest?.updated_at) return;
+    conflict.dismiss();
+    onOverwrite(latest.updated_at);
+  };
+
+  return (
+    <Dialog open={!!latest} onOpenChange={(open) => !open && conflict.dismiss()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>This content was changed by someone else</DialogTitle>
+          <DialogDescription>
+            {latest?.updated_at ? `It was saved on ${formatDate(latest.updated_at)}, after you opened it. ` : ''}
+            Saving now would silently replace their changes.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+          <li><span className="font-medium text-foreground">Merge</span> takes over their changes to fields you did not edit.</li>
+          <li><span className="font-medium text-foreground">Overwrite</span> saves your version over theirs.</li>
+          <li><span className="font-medium text-foreground">Discard mine</span> loads their version.</li>
+        </ul>
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={handleDiscard}>Discard mine</Button>
+          <Button variant="outline" onClick={handleOverwrite}>Overwrite</Button>
+          <Button onClick={handleMerge} disabled={!conflict.base}>Merge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
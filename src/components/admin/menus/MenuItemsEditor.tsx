@@ -0,0 +1,332 @@
+import { DragEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, ChevronDown, ChevronRight, EyeOff, GripVertical, Trash2 } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import {
+  dropMenuNode,
+  findMenuNode,
+  getMenuItemIssue,
+  isEntityLink,
+  MENU_LINK_TYPES,
+  MENU_MAX_DEPTH,
+  moveMenuNode,
+  type MenuDropPosition,
+  type MenuEntityType,
+  type MenuNode,
+} from '@/lib/menus';
+import { cn } from '@/lib/utils';
+import type { ContentOption, MenuItem, MenuLinkType } from '@/types/content';
+
+interface MenuItemsEditorProps {
+  items: MenuNode[];
+  onChange: (items: MenuNode[]) => void;
+}
+
+const AUDIENCE_LABELS: Record<MenuItem['audience'], string> = {
+  all: 'Everyone',
+  authenticated: 'Signed-in visitors',
+  anonymous: 'Signed-out visitors',
+};
+
+function replaceNode(nodes: MenuNode[], id: string, updates: Partial<MenuItem>): MenuNode[] {
+  return nodes.map(node => node.id === id
+    ? { ...node, ...updates }
+    : { ...node, children: replaceNode(node.children, id, updates) });
+}
+
+function removeNode(nodes: MenuNode[], id: string): MenuNode[] {
+  return nodes.filter(node => node.id !== id).map(node => ({ ...node, children: removeNode(node.children, id) }));
+}
+
+/**
+ * Tree editor for menu items. Items can be dragged onto the top or bottom edge of
+ * another item to reorder, or onto its middle to nest; the arrow buttons do the same
+ * from the keyboard.
+ */
+export function MenuItemsEditor({ items, onChange }: MenuItemsEditorProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: MenuDropPosition } | null>(null);
+  const [linkTargets, setLinkTargets] = useState<Partial<Record<MenuEntityType, ContentOption[]>>>({});
+
+  const loadLinkTargets = (type: MenuLinkType) => {
+    if (!isEntityLink(type) || linkTargets[type]) return;
+    adminCms.getMenuLinkTargets(type)
+      .then(options => setLinkTargets(prev => ({ ...prev, [type]: options })))
+      .catch(error => console.error('Error loading link targets:', error));
+  };
+
+  const toggleExpanded = (node: MenuNode) => {
+    if (expandedId === node.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(node.id);
+    // The entity picker of the opened item needs its options
+    loadLinkTargets(node.link_type);
+  };
+
+  const update = (id: string, updates: Partial<MenuItem>) => onChange(replaceNode(items, id, updates));
+
+  const move = (id: string, offset: 'up' | 'down' | 'indent' | 'outdent') => {
+    const found = findMenuNode(items, id);
+    if (!found) return;
+    const siblings = found.parentId ? findMenuNode(items, found.parentId)!.node.children : items;
+
+    switch (offset) {
+      case 'up':
+        onChange(moveMenuNode(items, id, found.parentId, found.index - 1));
+        break;
+      case 'down':
+        onChange(moveMenuNode(items, id, found.parentId, found.index + 1));
+        break;
+      case 'indent': {
+        const previous = siblings[found.index - 1];
+        if (previous) onChange(moveMenuNode(items, id, previous.id, previous.children.length));
+        break;
+      }
+      case 'outdent': {
+        if (!found.parentId) return;
+        const parent = findMenuNode(items, found.parentId)!;
+        onChange(moveMenuNode(items, id, parent.parentId, parent.index + 1));
+        break;
+      }
+    }
+  };
+
+  const getDropPosition = (event: DragEvent<HTMLElement>, depth: number): MenuDropPosition => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - rect.top) / rect.height;
+    if (offset < 0.25) return 'before';
+    if (offset > 0.75 || depth >= MENU_MAX_DEPTH) return 'after';
+    return 'inside';
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, targetId: string) => {
+    event.preventDefault();
+    if (draggedId && dropTarget) {
+      const next = dropMenuNode(items, draggedId, targetId, dropTarget.position);
+      onChange(next);
+    }
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const renderNodes = (nodes: MenuNode[], depth: number) => (
+    <ul className={cn('space-y-2', depth > 1 && 'ml-6 mt-2 border-l pl-3')} aria-label={depth === 1 ? 'Menu items' : undefined}>
+      {nodes.map((node, index) => {
+        const isExpanded = expandedId === node.id;
+        const issue = getMenuItemIssue(node);
+        const isDropTarget = dropTarget?.id === node.id && draggedId !== node.id;
+        const linkTypeLabel = MENU_LINK_TYPES.find(type => type.value === node.link_type)?.label;
+
+        return (
+          <li key={node.id}>
+            <Card
+              className={cn(
+                'shadow-none',
+                draggedId === node.id && 'opacity-50',
+                issue && 'border-destructive',
+                isDropTarget && dropTarget.position === 'before' && 'border-t-4 border-t-primary',
+                isDropTarget && dropTarget.position === 'after' && 'border-b-4 border-b-primary',
+                isDropTarget && dropTarget.position === 'inside' && 'ring-2 ring-primary'
+              )}
+              onDragOver={(event) => {
+                if (!draggedId) return;
+                event.preventDefault();
+                setDropTarget({ id: node.id, position: getDropPosition(event, depth) });
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev?.id === node.id ? null : prev))}
+              onDrop={(event) => handleDrop(event, node.id)}
+            >
+              <div className="flex items-center gap-2 p-2">
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.effectAllowed = 'move';
+                    event.dataTransfer.setData('text/plain', node.id);
+                    setDraggedId(node.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDropTarget(null);
+                  }}
+                  className="cursor-grab text-muted-foreground"
+                  title="Drag to reorder or nest"
+                  aria-label={`Drag ${node.label || 'item'}`}
+                >
+                  <GripVertical className="h-4 w-4" />
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex-1 justify-start gap-2 px-2"
+                  onClick={() => toggleExpanded(node)}
+                  aria-label={`${isExpanded ? 'Collapse' : 'Edit'} ${node.label || 'item'}`}
+                >
+                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  <span className="font-medium truncate">{node.label || 'Untitled'}</span>
+                  <span className="text-xs text-muted-foreground truncate">
+                    {linkTypeLabel}{(node.link_type === 'route' || node.link_type === 'external') && node.url ? ` · ${node.url}` : ''}
+                  </span>
+                </Button>
+                {node.style === 'button' && <Badge variant="secondary">Button</Badge>}
+                {node.audience !== 'all' && <Badge variant="outline">{AUDIENCE_LABELS[node.audience]}</Badge>}
+                {!node.is_visible && <EyeOff className="h-4 w-4 text-muted-foreground" aria-label="Hidden" />}
+                {issue && <Badge variant="destructive">Invalid</Badge>}
+                <div className="flex">
+                  <Button variant="ghost" size="sm" onClick={() => move(node.id, 'up')} disabled={index === 0} aria-label={`Move ${node.label} up`}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => move(node.id, 'down')} disabled={index === nodes.length - 1} aria-label={`Move ${node.label} down`}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => move(node.id, 'outdent')} disabled={depth === 1} aria-label={`Move ${node.label} out of its group`}>
+                    <ArrowLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => move(node.id, 'indent')}
+                    disabled={index === 0 || depth >= MENU_MAX_DEPTH || node.children.length > 0}
+                    aria-label={`Nest ${node.label} under the item above`}
+                  >
+                    <ArrowRight className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onChange(removeNode(items, node.id))} aria-label={`Remove ${node.label}`}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t p-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`menu-item-label-${node.id}`}>Label</Label>
+                    <Input id={`menu-item-label-${node.id}`} value={node.label} onChange={(e) => update(node.id, { label: e.target.value })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`menu-item-type-${node.id}`}>Link to</Label>
+                    <Select
+                      value={node.link_type}
+                      onValueChange={(value) => {
+                        const linkType = value as MenuLinkType;
+                        loadLinkTargets(linkType);
+                        update(node.id, {
+                          link_type: linkType,
+                          entity_id: null,
+                          url: linkType === 'route' ? '/' : linkType === 'external' ? 'https://' : null,
+                        });
+                      }}
+                    >
+                      <SelectTrigger id={`menu-item-type-${node.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MENU_LINK_TYPES.map(type => (
+                          <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {(node.link_type === 'route' || node.link_type === 'external') && (
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor={`menu-item-url-${node.id}`}>{node.link_type === 'route' ? 'Path' : 'URL'}</Label>
+                      <Input
+                        id={`menu-item-url-${node.id}`}
+                        value={node.url || ''}
+                        onChange={(e) => update(node.id, { url: e.target.value })}
+                        placeholder={node.link_type === 'route' ? '/about' : 'https://example.com'}
+                      />
+                    </div>
+                  )}
+
+                  {isEntityLink(node.link_type) && (
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor={`menu-item-entity-${node.id}`}>{linkTypeLabel}</Label>
+                      <Select value={node.entity_id || ''} onValueChange={(value) => update(node.id, { entity_id: value })}>
+                        <SelectTrigger id={`menu-item-entity-${node.id}`}>
+                          <SelectValue placeholder={linkTargets[node.link_type] ? 'Choose...' : 'Loading...'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(linkTargets[node.link_type] || []).map(option => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.label}{option.status !== 'published' && option.status !== 'open' ? ` (${option.status})` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Linked by id, so the link follows slug changes. Unpublished content is left out of the menu.
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`menu-item-style-${node.id}`}>Display</Label>
+                    <Select value={node.style} onValueChange={(value) => update(node.id, { style: value as MenuItem['style'] })}>
+                      <SelectTrigger id={`menu-item-style-${node.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="link">Link</SelectItem>
+                        <SelectItem value="button">Button</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`menu-item-audience-${node.id}`}>Show to</Label>
+                    <Select value={node.audience} onValueChange={(value) => update(node.id, { audience: value as MenuItem['audience'] })}>
+                      <SelectTrigger id={`menu-item-audience-${node.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(AUDIENCE_LABELS) as MenuItem['audience'][]).map(audience => (
+                          <SelectItem key={audience} value={audience}>{AUDIENCE_LABELS[audience]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`menu-item-visible-${node.id}`}
+                      checked={node.is_visible}
+                      onCheckedChange={(checked) => update(node.id, { is_visible: checked })}
+                    />
+                    <Label htmlFor={`menu-item-visible-${node.id}`}>Visible</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`menu-item-new-tab-${node.id}`}
+                      checked={node.open_in_new_tab}
+                      onCheckedChange={(checked) => update(node.id, { open_in_new_tab: checked })}
+                      disabled={node.link_type === 'none'}
+                    />
+                    <Label htmlFor={`menu-item-new-tab-${node.id}`}>Open in new tab</Label>
+                  </div>
+                  {issue && <p className="text-sm text-destructive md:col-span-2">{issue}</p>}
+                </div>
+              )}
+            </Card>
+
+            {node.children.length > 0 && renderNodes(node.children, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">This menu has no items yet.</p>;
+  }
+
+  return renderNodes(items, 1);
+}
@@ -0,0 +1,71 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { diffBodies, summarizeDiff, DiffEntry } from '@/lib/sections/diff';
+
+interface RevisionDiffViewProps {
+  before: unknown;
+  after: unknown;
+}
+
+const kindStyles: Record<DiffEntry['kind'], string> = {
+  added: 'border-green-500/40 bg-green-500/5',
+  removed: 'border-destructive/40 bg-destructive/5 line-through decoration-destructive/60',
+  modified: 'border-amber-500/40 bg-amber-500/5',
+  unchanged: 'border-border',
+};
+
+const kindLabels: Record<DiffEntry['kind'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+  unchanged: 'Unchanged',
+};
+
+export function RevisionDiffView({ before, after }: RevisionDiffViewProps) {
+  const entries = useMemo(() => diffBodies(before, after), [before, after]);
+  const summary = summarizeDiff(entries);
+  const hasChanges = summary.added + summary.removed + summary.modified + summary.moved > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs" aria-live="polite">
+        <Badge variant="outline">{summary.added} added</Badge>
+        <Badge variant="outline">{summary.removed} removed</Badge>
+        <Badge variant="outline">{summary.modified} modified</Badge>
+        <Badge variant="outline">{summary.moved} moved</Badge>
+      </div>
+
+      {!hasChanges && (
+        <p className="text-sm text-muted-foreground">These revisions are structurally identical.</p>
+      )}
+
+      <ol className="space-y-2" aria-label="Structural differences">
+        {entries.map(entry => (
+          <li
+            key={`${entry.kind}-${entry.id}`}
+            className={cn('border rounded-lg p-3 text-sm', kindStyles[entry.kind])}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">{entry.type}</Badge>
+                <span className="font-medium">{entry.title || entry.id}</span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                {entry.moved && (
+                  <span>Moved {(entry.fromIndex ?? 0) + 1} → {(entry.toIndex ?? 0) + 1}</span>
+                )}
+                <span>{kindLabels[entry.kind]}</span>
+              </div>
+            </div>
+            {entry.changedFields.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Changed fields: {entry.changedFields.join(', ')}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, RotateCcw, RefreshCw } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { RevisionDiffView } from './RevisionDiffView';
+import type { BlogPost, ContentRevision, Page, Project, RevisionEntityType, Service } from '@/types/content';
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId?: string;
+  /** The editor's version of the content; restoring over a newer save is refused */
+  updatedAt?: string;
+  /** Called with the restored body and saved row so the editor state matches the database */
+  onRestored: (body: ContentRevision['body'], saved: Page | Service | Project | BlogPost) => void;
+  disabled?: boolean;
+}
+
+export function RevisionHistory({ entityType, entityId, updatedAt, onRestored, disabled }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [restoreTarget, setRestoreTarget] = useState<ContentRevision | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const fetchRevisions = useCallback(async () => {
+    if (!entityId) return;
+    setLoading(true);
+    try {
+      const data = await adminCms.getRevisions(entityType, entityId);
+      setRevisions(data);
+      // Default comparison: previous revision against the latest one
+      setToId(data[0]?.id || '');
+      setFromId(data[1]?.id || data[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      adminToast.error('Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const fromRevision = useMemo(() => revisions.find(r => r.id === fromId), [revisions, fromId]);
+  const toRevision = useMemo(() => revisions.find(r => r.id === toId), [revisions, toId]);
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    setRestoring(true);
+    try {
+      const saved = await adminCms.restoreRevision(restoreTarget, updatedAt);
+      onRestored(restoreTarget.body, saved);
+      adminToast.success('Revision restored', `Content restored from ${formatDate(restoreTarget.created_at)}`);
+      await fetchRevisions();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      adminToast.error('Failed to restore revision', error instanceof Error ? error.message : undefined);
+    } finally {
+      setRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const revisionLabel = (revision: ContentRevision, index: number) =>
+    `#${revisions.length - index} · ${formatDate(revision.created_at)}${revision.author_email ? ` · ${revision.author_email}` : ''}`;
+
+  if (!entityId) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+          <History className="h-8 w-8 text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">Revision history becomes available after the first save.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Revision History</CardTitle>
+              <CardDescription>Every saved change is kept as a read-only revision.</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchRevisions} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {loading ? 'Loading revisions...' : 'No revisions recorded yet.'}
+            </p>
+          ) : (
+            <ul className="divide-y border rounded-lg" aria-label="Revisions">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="flex items-center justify-between p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">#{revisions.length - index}</span>
+                      {index === 0 && <Badge>Current</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(revision.created_at)} by {revision.author_email || 'system'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRestoreTarget(revision)}
+                    disabled={disabled || index === 0}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {revisions.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compare Revisions</CardTitle>
+            <CardDescription>Structural changes between two revisions</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="revision-from">From</Label>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger id="revision-from">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="revision-to">To</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger id="revision-to">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision, index) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision, index)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {fromRevision && toRevision && (
+              <RevisionDiffView before={fromRevision.body} after={toRevision.body} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmDialog
+        open={!!restoreTarget}
+        onOpenChange={() => setRestoreTarget(null)}
+        title="Restore Revision"
+        description={
+          restoreTarget
+            ? `Replace the current content with the revision from ${formatDate(restoreTarget.created_at)}? The current content stays available in the history.`
+            : ''
+        }
+        confirmLabel="Restore"
+        onConfirm={handleRestore}
+        loading={restoring}
+      />
+    </div>
+  );
+}
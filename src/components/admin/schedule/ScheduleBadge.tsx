@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge';
+import { CalendarClock } from 'lucide-react';
+import { formatScheduleDate, isScheduledToPublish, isScheduledToUnpublish, type Schedulable } from '@/lib/schedule';
+
+// Shown next to the status badge in admin lists; renders nothing without a pending schedule
+export function ScheduleBadge({ item }: { item: Schedulable }) {
+  const publishing = isScheduledToPublish(item);
+  if (!publishing && !isScheduledToUnpublish(item)) return null;
+
+  const label = publishing
+    ? `Scheduled · ${formatScheduleDate(item.publish_at!)}`
+    : `Unpublishes ${formatScheduleDate(item.unpublish_at!)}`;
+
+  return (
+    <Badge variant="outline" className="gap-1">
+      <CalendarClock className="h-3 w-3" />
+      {label}
+    </Badge>
+  );
+}
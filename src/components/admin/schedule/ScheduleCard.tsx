@@ -0,0 +1,79 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock } from 'lucide-react';
+import { fromDateTimeLocalValue, getScheduleIssue, toDateTimeLocalValue } from '@/lib/schedule';
+
+export interface ScheduleValue {
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+interface ScheduleCardProps {
+  /** Used to keep input ids unique, e.g. `blog` */
+  idPrefix: string;
+  value: ScheduleValue;
+  /** Live content can only be scheduled to come down */
+  isLive: boolean;
+  onChange: (value: ScheduleValue) => void;
+  disabled?: boolean;
+}
+
+export function ScheduleCard({ idPrefix, value, isLive, onChange, disabled }: ScheduleCardProps) {
+  const issue = getScheduleIssue(isLive ? null : value.publish_at, value.unpublish_at);
+  const hasSchedule = (!isLive && !!value.publish_at) || !!value.unpublish_at;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Schedule
+        </CardTitle>
+        <CardDescription>
+          {isLive ? 'Take this content down automatically' : 'Publish and take down this content automatically'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isLive && (
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-publish-at`}>Publish at</Label>
+            <Input
+              id={`${idPrefix}-publish-at`}
+              type="datetime-local"
+              value={toDateTimeLocalValue(value.publish_at)}
+              onChange={(e) => onChange({ ...value, publish_at: fromDateTimeLocalValue(e.target.value) })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-unpublish-at`}>Unpublish at</Label>
+          <Input
+            id={`${idPrefix}-unpublish-at`}
+            type="datetime-local"
+            value={toDateTimeLocalValue(value.unpublish_at)}
+            onChange={(e) => onChange({ ...value, unpublish_at: fromDateTimeLocalValue(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        {issue && <p className="text-sm text-destructive">{issue}</p>}
+        {hasSchedule && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ publish_at: null, unpublish_at: null })}
+            disabled={disabled}
+          >
+            Clear schedule
+          </Button>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Times are in your timezone. Changes take effect within a minute of the scheduled time.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { applySectionSelection, CONTENT_LIST_CONFIG, type ContentListSection } from '@/lib/sections/selection';
+import type { ContentOption } from '@/types/content';
+
+const ALL_VALUE = '__all__';
+
+interface ContentListSectionEditorProps {
+  section: ContentListSection;
+  updateSectionData: (updates: Record<string, unknown>) => void;
+}
+
+// Shared editor for sections that list live FAQs, case studies, lab projects or jobs
+export function ContentListSectionEditor({ section, updateSectionData }: ContentListSectionEditorProps) {
+  const config = CONTENT_LIST_CONFIG[section.type];
+  const [options, setOptions] = useState<ContentOption[]>([]);
+
+  useEffect(() => {
+    adminCms.getContentOptions(config.source)
+      .then(setOptions)
+      .catch(error => console.error(`Error loading ${config.itemLabel}:`, error));
+  }, [config.source, config.itemLabel]);
+
+  const selectedIds = section.data.selectedIds || [];
+  const selected = applySectionSelection(options, selectedIds);
+  const unselected = options.filter(option => !selectedIds.includes(option.id));
+  const facets = [...new Set(options.flatMap(option => option.facets))].sort();
+  const filterValue = config.filter ? (section.data as Record<string, unknown>)[config.filter.field] as string | undefined : undefined;
+  const inputId = (name: string) => `${section.type}-${name}-${section.id}`;
+
+  const toggle = (id: string, checked: boolean) => {
+    updateSectionData({ selectedIds: checked ? [...selectedIds, id] : selectedIds.filter(existing => existing !== id) });
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = selected.map(option => option.id);
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateSectionData({ selectedIds: next });
+  };
+
+  const renderOption = (option: ContentOption, index?: number) => (
+    <li key={option.id} className="flex items-center justify-between gap-2 border rounded-lg p-2 text-sm">
+      <div className="flex items-center gap-2 min-w-0">
+        <Checkbox
+          id={inputId(option.id)}
+          checked={selectedIds.includes(option.id)}
+          onCheckedChange={(checked) => toggle(option.id, checked === true)}
+        />
+        <Label htmlFor={inputId(option.id)} className="truncate">{option.label}</Label>
+        {!['published', 'open'].includes(option.status) && <Badge variant="secondary">{option.status}</Badge>}
+      </div>
+      {index !== undefined && (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} aria-label={`Move ${option.label} up`}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === selected.length - 1} aria-label={`Move ${option.label} down`}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={inputId('title')}>Title *</Label>
+        <Input
+          id={inputId('title')}
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={inputId('description')}>Description</Label>
+        <Textarea
+          id={inputId('description')}
+          value={section.data.description || ''}
+          onChange={(e) => updateSectionData({ description: e.target.value })}
+          rows={2}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={inputId('limit')}>Number of {config.itemLabel}</Label>
+          <Input
+            id={inputId('limit')}
+            type="number"
+            min="1"
+            max={config.maxLimit}
+            value={section.data.limit}
+            onChange={(e) => updateSectionData({ limit: Math.min(Math.max(parseInt(e.target.value) || 1, 1), config.maxLimit) })}
+          />
+        </div>
+        {config.filter && (
+          <div className="space-y-2">
+            <Label htmlFor={inputId('filter')}>{config.filter.label}</Label>
+            <Select
+              value={filterValue || ALL_VALUE}
+              onValueChange={(value) => updateSectionData({ [config.filter.field]: value === ALL_VALUE ? undefined : value })}
+              disabled={selectedIds.length > 0}
+            >
+              <SelectTrigger id={inputId('filter')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>All</SelectItem>
+                {facets.map(facet => (
+                  <SelectItem key={facet} value={facet}>{facet}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={inputId('show-all')}
+          checked={section.data.showAll}
+          onCheckedChange={(checked) => updateSectionData({ showAll: checked })}
+        />
+        <Label htmlFor={inputId('show-all')}>Show "View all" link</Label>
+      </div>
+      <div className="space-y-2">
+        <Label>Manual Selection</Label>
+        <p className="text-xs text-muted-foreground">
+          {selectedIds.length === 0
+            ? `Nothing selected: ${config.itemLabel}${config.filter ? ' matching the filter' : ''} are shown in their default order.`
+            : `Selected ${config.itemLabel} are shown in this order${config.filter ? ' and the filter is ignored' : ''}. Unpublished items stay hidden.`}
+        </p>
+        <ul className="space-y-2 max-h-72 overflow-y-auto" aria-label={`Selected ${config.itemLabel}`}>
+          {selected.map((option, index) => renderOption(option, index))}
+          {unselected.map(option => renderOption(option))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+interface DevicePreviewFrameProps {
+  width: number;
+  height: number;
+  title: string;
+  children: ReactNode;
+  // Called with the frame document once it is ready, e.g. to scroll to elements later
+  onDocumentReady?: (doc: Document) => void;
+}
+
+const FRAME_DOCUMENT = '<!DOCTYPE html><html><head><meta charset="utf-8"></head><body></body></html>';
+
+// Copies the app's stylesheets into the frame so Tailwind classes and theme variables apply
+function syncStyles(target: Document) {
+  target.head.querySelectorAll('[data-preview-style]').forEach(node => node.remove());
+  document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => {
+    const clone = node.cloneNode(true) as HTMLElement;
+    clone.setAttribute('data-preview-style', '');
+    target.head.appendChild(clone);
+  });
+  target.documentElement.className = document.documentElement.className;
+  target.body.className = `${document.body.className} bg-background text-foreground`;
+}
+
+/**
+ * Renders children inside an iframe of the given device size, scaled down to fit the
+ * available width. Because the frame has its own viewport, responsive breakpoints
+ * behave as they would on the device. Children are portalled, so React context
+ * (router, query client, auth) keeps working.
+ */
+export function DevicePreviewFrame({ width, height, title, children, onDocumentReady }: DevicePreviewFrameProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [mountNode, setMountNode] = useState<HTMLElement | null>(null);
+  const [availableWidth, setAvailableWidth] = useState(width);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setAvailableWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Lazy-loaded chunks add stylesheets after the frame mounted
+  useEffect(() => {
+    const doc = mountNode?.ownerDocument;
+    if (!doc) return;
+    const isStyleNode = (node: Node) => node.nodeName === 'STYLE' || node.nodeName === 'LINK' || node.parentNode?.nodeName === 'STYLE';
+    const observer = new MutationObserver(mutations => {
+      if (mutations.some(mutation => [mutation.target, ...mutation.addedNodes, ...mutation.removedNodes].some(isStyleNode))) {
+        syncStyles(doc);
+      }
+    });
+    observer.observe(document.head, { childList: true, subtree: true, characterData: true });
+    return () => observer.disconnect();
+  }, [mountNode]);
+
+  useEffect(() => {
+    if (mountNode) onDocumentReady?.(mountNode.ownerDocument);
+  }, [mountNode, onDocumentReady]);
+
+  // Registered before the browser can fire `load` for the srcdoc document
+  useLayoutEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe) return;
+    const handleLoad = () => {
+      const doc = iframe.contentDocument;
+      if (!doc) return;
+      syncStyles(doc);
+      setMountNode(doc.body);
+    };
+    iframe.addEventListener('load', handleLoad);
+    return () => iframe.removeEventListener('load', handleLoad);
+  }, []);
+
+  const scale = Math.min(1, availableWidth / width);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <div
+        className="mx-auto overflow-hidden rounded-xl border-4 border-muted-foreground/20 bg-background shadow-lg"
+        style={{ width: width * scale, height: height * scale }}
+      >
+        <iframe
+          ref={iframeRef}
+          title={title}
+          srcDoc={FRAME_DOCUMENT}
+          style={{ width, height, transform: `scale(${scale})`, transformOrigin: 'top left', border: 0 }}
+        />
+      </div>
+      {mountNode && createPortal(children, mountNode)}
+    </div>
+  );
+}
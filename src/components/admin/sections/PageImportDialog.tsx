@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { adminToast } from '@/lib/toast-utils';
+import {
+  parsePageBundle,
+  planPageImport,
+  suggestMediaUrl,
+  type PageBundle,
+  type PageConflictResolution,
+  type PageImportAction,
+} from '@/lib/sections/page-bundle';
+import type { GlobalSection, Page, PageImportResult, PageImportStatus } from '@/types/content';
+
+interface PageImportDialogProps {
+  existingPages: Page[];
+  /** Called after pages were written so the page list can reload */
+  onImported?: () => void;
+}
+
+const actionVariants: Record<PageImportAction, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  create: 'default',
+  overwrite: 'destructive',
+  rename: 'secondary',
+  skip: 'outline',
+  invalid: 'destructive',
+};
+
+const resultVariants: Record<PageImportStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  created: 'default',
+  updated: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive',
+};
+
+const CONFLICT_OPTIONS: { value: PageConflictResolution; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'rename', label: 'Import with new slug' },
+];
+
+// Import a page bundle exported from another environment, with a dry-run report before writing
+export function PageImportDialog({ existingPages, onImported }: PageImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [bundle, setBundle] = useState<PageBundle | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [globalSections, setGlobalSections] = useState<GlobalSection[]>([]);
+  const [conflictResolution, setConflictResolution] = useState<PageConflictResolution>('skip');
+  const [overrides, setOverrides] = useState<Record<string, PageConflictResolution>>({});
+  const [mediaMap, setMediaMap] = useState<Record<string, string>>({});
+  const [importAsDraft, setImportAsDraft] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<PageImportResult[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    adminCms.getAllGlobalSections()
+      .then(setGlobalSections)
+      .catch(error => console.error('Error loading global sections:', error));
+  }, [open]);
+
+  const plan = useMemo(() => bundle
+    ? planPageImport(bundle, existingPages, { conflictResolution, overrides, mediaMap, importAsDraft, globalSections })
+    : [], [bundle, existingPages, conflictResolution, overrides, mediaMap, importAsDraft, globalSections]);
+
+  const writable = plan.filter(item => item.page && item.action !== 'skip' && item.action !== 'invalid');
+
+  const reset = () => {
+    setBundle(null);
+    setFileErrors([]);
+    setOverrides({});
+    setMediaMap({});
+    setResults(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    const { bundle: parsed, errors } = parsePageBundle(await file.text());
+    setFileErrors(errors);
+    if (!parsed) return;
+
+    const mediaBaseUrl = adminCms.getMediaPublicUrl('');
+    setMediaMap(Object.fromEntries(parsed.media.map(url => [url, suggestMediaUrl(url, mediaBaseUrl)])));
+    setBundle(parsed);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const imported = await adminCms.importPages(plan);
+      setResults(imported);
+
+      const failed = imported.filter(result => result.status === 'failed').length;
+      const written = imported.filter(result => result.status === 'created' || result.status === 'updated').length;
+      if (failed > 0) {
+        adminToast.warning(`${failed} page${failed === 1 ? '' : 's'} failed to import`, 'See the report for details');
+      } else {
+        adminToast.success('Pages imported', `${written} page${written === 1 ? '' : 's'} saved`);
+      }
+      if (written > 0) onImported?.();
+    } catch (error) {
+      console.error('Error importing pages:', error);
+      adminToast.error('Failed to import pages', error instanceof Error ? error.message : undefined);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Pages</DialogTitle>
+          <DialogDescription>
+            Import a page bundle exported from another environment. Review the dry-run report below; nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            {bundle ? 'Choose another file' : 'Choose bundle file'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            aria-label="Page bundle file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <p className="font-medium mb-1">The bundle could not be read:</p>
+              <ul className="list-disc list-inside text-xs space-y-1">
+                {fileErrors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {bundle && !results && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="page-import-conflicts">When a slug already exists</Label>
+                <Select value={conflictResolution} onValueChange={(value) => setConflictResolution(value as PageConflictResolution)}>
+                  <SelectTrigger id="page-import-conflicts" className="sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFLICT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="page-import-draft" checked={importAsDraft} onCheckedChange={setImportAsDraft} />
+                <Label htmlFor="page-import-draft">Import as drafts</Label>
+              </div>
+            </div>
+
+            {bundle.media.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Media ({bundle.media.length})</p>
+                <p className="text-xs text-muted-foreground">
+                  Files on another project's storage are pointed at the same path in this site's media library.
+                  Upload them there first, or enter a different URL.
+                </p>
+                <div className="max-h-48 overflow-y-auto space-y-2">
+                  {bundle.media.map(url => (
+                    <div key={url} className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                      <span className="truncate self-center text-muted-foreground" title={url}>{url}</span>
+                      <Input
+                        value={mediaMap[url] ?? url}
+                        onChange={(e) => setMediaMap(prev => ({ ...prev, [url]: e.target.value }))}
+                        aria-label={`New URL for ${url}`}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="max-h-[40vh] overflow-y-auto">
+              <p className="text-sm text-muted-foreground mb-2">
+                Dry run: {writable.length} of {plan.length} page{plan.length === 1 ? '' : 's'} will be saved.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Page</TableHead>
+                    <TableHead>Slug</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(item => (
+                    <TableRow key={item.sourceSlug}>
+                      <TableCell>
+                        <div className="font-medium">{item.title}</div>
+                        <div className="text-xs text-muted-foreground">/{item.sourcePath}</div>
+                        {item.remappedMedia > 0 && (
+                          <div className="text-xs text-muted-foreground">{item.remappedMedia} media URL{item.remappedMedia === 1 ? '' : 's'} remapped</div>
+                        )}
+                        {item.issues.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs text-destructive">
+                            {item.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                          </ul>
+                        )}
+                        {item.warnings.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-xs text-warning">
+                            {item.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {item.slug === item.sourceSlug ? item.slug : `${item.sourceSlug} → ${item.slug}`}
+                        {item.parentSlug && <div className="text-xs text-muted-foreground">under {item.parentSlug}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col items-start gap-2">
+                          <Badge variant={actionVariants[item.action]}>{item.action}</Badge>
+                          {item.conflict && item.action !== 'invalid' && (
+                            <Select
+                              value={item.action}
+                              onValueChange={(value) => setOverrides(prev => ({ ...prev, [item.sourceSlug]: value as PageConflictResolution }))}
+                            >
+                              <SelectTrigger className="h-8 w-40 text-xs" aria-label={`Conflict resolution for ${item.title}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CONFLICT_OPTIONS.map(option => (
+                                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button onClick={handleImport} disabled={importing || writable.length === 0}>
+                {importing ? 'Importing...' : `Import ${writable.length} page${writable.length === 1 ? '' : 's'}`}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+
+        {results && (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <p className="text-sm text-muted-foreground mb-2">Import complete.</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map(result => (
+                  <TableRow key={result.slug}>
+                    <TableCell>
+                      <div className="font-medium">{result.title}</div>
+                      <div className="text-xs text-muted-foreground">{result.slug}</div>
+                      {result.error && <p className="mt-1 text-xs text-destructive">{result.error}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={resultVariants[result.status]}>{result.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DatabaseZap, Search } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { CURRENT_PAGE_BODY_VERSION } from '@/lib/sections/migrations';
+import { adminToast } from '@/lib/toast-utils';
+import type { PageMigrationReport, PageMigrationStatus } from '@/types/content';
+
+interface PageMigrationDialogProps {
+  /** Called after a non-dry run so the page list can reload */
+  onMigrated?: () => void;
+}
+
+const statusVariants: Record<PageMigrationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  migrated: 'default',
+  'up-to-date': 'secondary',
+  failed: 'destructive',
+  skipped: 'outline',
+};
+
+export function PageMigrationDialog({ onMigrated }: PageMigrationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [reports, setReports] = useState<PageMigrationReport[] | null>(null);
+  const [lastRunWasDry, setLastRunWasDry] = useState(true);
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true);
+    try {
+      const result = await adminCms.migratePageBodies({ dryRun });
+      setReports(result);
+      setLastRunWasDry(dryRun);
+
+      const failed = result.filter(report => report.status === 'failed').length;
+      const migrated = result.filter(report => report.status === 'migrated').length;
+      if (failed > 0) {
+        adminToast.warning(`${failed} page${failed === 1 ? '' : 's'} failed validation`, 'See the report for details');
+      } else if (dryRun) {
+        adminToast.info('Dry run complete', `${migrated} page${migrated === 1 ? '' : 's'} would be migrated`);
+      } else {
+        adminToast.success('Page bodies migrated', `${migrated} page${migrated === 1 ? '' : 's'} updated`);
+      }
+
+      if (!dryRun) onMigrated?.();
+    } catch (error) {
+      console.error('Error migrating page bodies:', error);
+      adminToast.error('Failed to migrate page bodies', error instanceof Error ? error.message : undefined);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <DatabaseZap className="h-4 w-4 mr-2" />
+          Migrate Content
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Migrate Page Bodies</DialogTitle>
+          <DialogDescription>
+            Upgrade every stored page body to section schema version {CURRENT_PAGE_BODY_VERSION} and validate it.
+            Pages that fail validation are left unchanged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => run(true)} disabled={running}>
+            <Search className="h-4 w-4 mr-2" />
+            Dry Run
+          </Button>
+          <Button onClick={() => run(false)} disabled={running}>
+            <DatabaseZap className="h-4 w-4 mr-2" />
+            {running ? 'Running...' : 'Migrate & Save'}
+          </Button>
+        </div>
+
+        {reports && (
+          <div className="max-h-[50vh] overflow-y-auto">
+            <p className="text-sm text-muted-foreground mb-2">
+              {lastRunWasDry ? 'Dry run: no changes were saved.' : 'Migration complete.'}
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reports.map(report => (
+                  <TableRow key={report.id}>
+                    <TableCell>
+                      <div className="font-medium">{report.title}</div>
+                      <div className="text-xs text-muted-foreground">/{report.slug}</div>
+                      {report.issues.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-xs text-destructive">
+                          {report.issues.map((issue, index) => (
+                            <li key={index}>{issue}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {report.status === 'skipped'
+                        ? '—'
+                        : report.fromVersion === report.toVersion
+                          ? `v${report.toVersion}`
+                          : `v${report.fromVersion} → v${report.toVersion}`}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[report.status]}>{report.status}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
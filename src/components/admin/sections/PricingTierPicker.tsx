@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { formatTierPrice, selectPricingTiers } from '@/lib/pricing';
+import type { PricingTier } from '@/types/payment';
+
+interface PricingTierPickerProps {
+  id: string;
+  tierIds: string[];
+  onChange: (tierIds: string[]) => void;
+}
+
+// Chooses which pricing tiers a pricing section shows and in which order
+export function PricingTierPicker({ id, tierIds, onChange }: PricingTierPickerProps) {
+  const [tiers, setTiers] = useState<PricingTier[]>([]);
+
+  useEffect(() => {
+    adminCms.getAllPricingTiers()
+      .then(setTiers)
+      .catch(error => console.error('Error loading pricing tiers:', error));
+  }, []);
+
+  const selected = selectPricingTiers(tiers, tierIds);
+  const unselected = tiers.filter(tier => !tierIds.includes(tier.id));
+
+  const toggle = (tierId: string, checked: boolean) => {
+    onChange(checked ? [...tierIds, tierId] : tierIds.filter(existing => existing !== tierId));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = selected.map(tier => tier.id);
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const renderTier = (tier: PricingTier, index?: number) => (
+    <li key={tier.id} className="flex items-center justify-between gap-2 border rounded-lg p-2 text-sm">
+      <div className="flex items-center gap-2 min-w-0">
+        <Checkbox
+          id={`${id}-${tier.id}`}
+          checked={tierIds.includes(tier.id)}
+          onCheckedChange={(checked) => toggle(tier.id, checked === true)}
+        />
+        <Label htmlFor={`${id}-${tier.id}`} className="truncate">
+          {tier.name} <span className="text-muted-foreground">({formatTierPrice(tier)})</span>
+        </Label>
+        {tier.status === 'draft' && <Badge variant="secondary">draft</Badge>}
+      </div>
+      {index !== undefined && (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} aria-label={`Move ${tier.name} up`}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => move(index, 1)} disabled={index === selected.length - 1} aria-label={`Move ${tier.name} down`}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-2">
+      <Label>Pricing Tiers</Label>
+      <p className="text-xs text-muted-foreground">
+        {tierIds.length === 0 ? 'No tiers selected: every published tier is shown.' : 'Selected tiers are shown in this order. Draft tiers stay hidden until published.'}{' '}
+        <Link to="/admin/pricing" className="text-primary underline">Manage pricing tiers</Link>
+      </p>
+      <ul className="space-y-2" aria-label="Pricing tiers">
+        {selected.map((tier, index) => renderTier(tier, index))}
+        {unselected.map(tier => renderTier(tier))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MarkdownContent } from '@/components/sections/MarkdownContent';
+import { resolveEmbed, getEmbedProviderLabel, EMBED_PROVIDERS } from '@/lib/sections/embeds';
+import type { RichTextSection, EmbedSection } from '@/lib/sections/schema';
+
+interface RichContentEditorProps<T> {
+  section: T;
+  updateSectionData: (updates: Record<string, unknown>) => void;
+}
+
+export function RichTextSectionEditor({ section, updateSectionData }: RichContentEditorProps<RichTextSection>) {
+  const inputId = (name: string) => `rich-text-${name}-${section.id}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={inputId('title')}>Title</Label>
+        <Input
+          id={inputId('title')}
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value || undefined })}
+        />
+      </div>
+      <Tabs defaultValue="write">
+        <TabsList>
+          <TabsTrigger value="write">Write</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+        <TabsContent value="write" className="space-y-2">
+          <Label htmlFor={inputId('content')}>Content (Markdown)</Label>
+          <Textarea
+            id={inputId('content')}
+            value={section.data.content}
+            onChange={(e) => updateSectionData({ content: e.target.value })}
+            rows={10}
+            className="font-mono text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Supports # headings, **bold**, *italic*, [links](/path), lists, &gt; quotes and ``` code. HTML is shown as plain text.
+          </p>
+        </TabsContent>
+        <TabsContent value="preview" className="rounded-lg border p-4">
+          <MarkdownContent content={section.data.content} />
+        </TabsContent>
+      </Tabs>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={inputId('width')}>Width</Label>
+          <Select value={section.data.width} onValueChange={(width) => updateSectionData({ width })}>
+            <SelectTrigger id={inputId('width')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="narrow">Narrow (reading width)</SelectItem>
+              <SelectItem value="wide">Wide</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={inputId('align')}>Alignment</Label>
+          <Select value={section.data.align} onValueChange={(align) => updateSectionData({ align })}>
+            <SelectTrigger id={inputId('align')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="left">Left</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function EmbedSectionEditor({ section, updateSectionData }: RichContentEditorProps<EmbedSection>) {
+  const inputId = (name: string) => `embed-${name}-${section.id}`;
+  // The URL is only saved once it resolves, so partially typed URLs do not fail validation
+  const [url, setUrl] = useState(section.data.url);
+  const embed = url ? resolveEmbed(url, section.data.privacyMode) : null;
+  const supportsPrivacyMode = !embed || EMBED_PROVIDERS.find(provider => provider.value === embed.provider)?.privacyMode;
+
+  useEffect(() => {
+    setUrl(section.data.url);
+  }, [section.data.url]);
+
+  const handleUrlChange = (value: string) => {
+    setUrl(value);
+    if (value === '' || resolveEmbed(value)) updateSectionData({ url: value.trim() });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={inputId('url')}>Video or embed URL *</Label>
+        <Input
+          id={inputId('url')}
+          value={url}
+          onChange={(e) => handleUrlChange(e.target.value)}
+          placeholder="https://www.youtube.com/watch?v=..."
+          aria-invalid={!!url && !embed}
+        />
+        {url && !embed ? (
+          <p className="text-xs text-destructive">
+            Only {EMBED_PROVIDERS.map(provider => provider.label).join(', ')} URLs can be embedded.
+          </p>
+        ) : embed ? (
+          <Badge variant="secondary">{getEmbedProviderLabel(embed.provider)}</Badge>
+        ) : (
+          <p className="text-xs text-muted-foreground">Paste the share URL from the provider. Nothing is shown until a URL is set.</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={inputId('title')}>Title</Label>
+        <Input
+          id={inputId('title')}
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value || undefined })}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={inputId('caption')}>Caption</Label>
+        <Input
+          id={inputId('caption')}
+          value={section.data.caption || ''}
+          onChange={(e) => updateSectionData({ caption: e.target.value || undefined })}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor={inputId('aspect-ratio')}>Aspect ratio</Label>
+          <Select value={section.data.aspectRatio} onValueChange={(aspectRatio) => updateSectionData({ aspectRatio })}>
+            <SelectTrigger id={inputId('aspect-ratio')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="16:9">16:9 (video)</SelectItem>
+              <SelectItem value="4:3">4:3</SelectItem>
+              <SelectItem value="1:1">1:1 (square)</SelectItem>
+              <SelectItem value="9:16">9:16 (vertical)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center space-x-2 pb-2">
+          <Switch
+            id={inputId('privacy')}
+            checked={section.data.privacyMode}
+            onCheckedChange={(checked) => updateSectionData({ privacyMode: checked })}
+            disabled={!supportsPrivacyMode}
+          />
+          <Label htmlFor={inputId('privacy')}>Privacy-enhanced mode</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
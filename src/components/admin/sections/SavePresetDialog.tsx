@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { adminCms } from '@/lib/admin-cms';
+import { adminToast } from '@/lib/toast-utils';
+import { SECTION_PRESET_CATEGORIES } from '@/lib/sections/presets';
+import { SECTION_TYPES, type ContentSection } from '@/lib/sections/schema';
+
+interface SavePresetDialogProps {
+  section: ContentSection;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SavePresetDialog({ section, open, onOpenChange }: SavePresetDialogProps) {
+  const sectionType = SECTION_TYPES.find(type => type.type === section.type);
+  const [name, setName] = useState(section.data.title || sectionType?.label || '');
+  const [category, setCategory] = useState('General');
+  const [description, setDescription] = useState('');
+  const [thumbnailUrl, setThumbnailUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      adminToast.validationError('Preset name is required');
+      return;
+    }
+    if (thumbnailUrl && !/^(https?:\/\/|\/)/.test(thumbnailUrl)) {
+      adminToast.validationError('Thumbnail must be a full URL or a path starting with /');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await adminCms.createSectionPresets([{
+        name: name.trim(),
+        category: category.trim() || 'General',
+        description: description.trim() || null,
+        thumbnail_url: thumbnailUrl.trim() || null,
+        section,
+      }]);
+      adminToast.created('Preset', name.trim());
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving section preset:', error);
+      adminToast.error('Failed to save preset', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Preset</DialogTitle>
+          <DialogDescription>
+            Save this {sectionType?.label ?? section.type} section so it can be added to other pages. Pages keep their own copy.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`preset-name-${section.id}`}>Name *</Label>
+            <Input id={`preset-name-${section.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`preset-category-${section.id}`}>Category</Label>
+            <Input
+              id={`preset-category-${section.id}`}
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              list={`preset-categories-${section.id}`}
+            />
+            <datalist id={`preset-categories-${section.id}`}>
+              {SECTION_PRESET_CATEGORIES.map(option => <option key={option} value={option}>{option}</option>)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`preset-description-${section.id}`}>Description</Label>
+            <Textarea
+              id={`preset-description-${section.id}`}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`preset-thumbnail-${section.id}`}>Thumbnail URL</Label>
+            <Input
+              id={`preset-thumbnail-${section.id}`}
+              value={thumbnailUrl}
+              onChange={(e) => setThumbnailUrl(e.target.value)}
+              placeholder="https://... or /images/..."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save Preset'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
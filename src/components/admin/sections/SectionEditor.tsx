@@ -7,10 +7,16 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Plus, Trash2, GripVertical } from 'lucide-react';
-import { Section, SectionSchema, SECTION_TYPES } from '@/lib/sections/schema';
+import { Plus, Trash2, GripVertical, BookmarkPlus } from 'lucide-react';
+import { Section, SectionSchema, SECTION_TYPES, SectionVisibility } from '@/lib/sections/schema';
 import { adminToast } from '@/lib/toast-utils';
 import { ImageReplacer } from '@/components/admin/ImageReplacer';
+import { PricingTierPicker } from './PricingTierPicker';
+import { ContentListSectionEditor } from './ContentListSectionEditor';
+import { RichTextSectionEditor, EmbedSectionEditor } from './RichContentSectionEditors';
+import { ColumnsSectionEditor } from './SectionEditorRow';
+import { SectionVisibilityEditor } from './SectionVisibilityEditor';
+import { SavePresetDialog } from './SavePresetDialog';
 
 interface SectionEditorProps {
   section: Section;
@@ -32,6 +38,7 @@ export function SectionEditor({
   canMoveDown 
 }: SectionEditorProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [showSavePreset, setShowSavePreset] = useState(false);
 
   const updateSectionData = (updates: Partial<Section['data']>) => {
     try {
@@ -49,6 +56,15 @@ export function SectionEditor({
     }
   };
 
+  const updateVisibility = (visibility: SectionVisibility | undefined) => {
+    const result = SectionSchema.safeParse({ ...section, visibility });
+    if (result.success) {
+      onUpdate({ ...section, visibility });
+    } else {
+      adminToast.validationError(result.error.issues[0]?.message || 'Invalid visibility rules');
+    }
+  };
+
   const renderHeroEditor = () => (
     <div className="space-y-4">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -908,6 +924,45 @@ export function SectionEditor({
     </div>
   );
 
+  const renderPricingEditor = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="pricing-title">Title *</Label>
+        <Input
+          id="pricing-title"
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value })}
+          placeholder="Pricing Plans"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pricing-description">Description</Label>
+        <Textarea
+          id="pricing-description"
+          value={(section.data as any).description || ''}
+          onChange={(e) => updateSectionData({ description: e.target.value })}
+          rows={3}
+        />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="pricing-checkout"
+          checked={(section.data as any).enableCheckout ?? true}
+          onCheckedChange={(checked) => updateSectionData({ enableCheckout: checked })}
+        />
+        <Label htmlFor="pricing-checkout">Enable checkout (otherwise link to the quote form)</Label>
+      </div>
+
+      <PricingTierPicker
+        id="pricing-tiers"
+        tierIds={(section.data as any).tierIds || []}
+        onChange={(tierIds) => updateSectionData({ tierIds })}
+      />
+    </div>
+  );
+
   const renderEditor = () => {
     switch (section.type) {
       case 'hero':
@@ -922,6 +977,19 @@ export function SectionEditor({
         return renderBlogPreviewEditor();
       case 'cta':
         return renderCtaEditor();
+      case 'pricing':
+        return renderPricingEditor();
+      case 'faq':
+      case 'caseStudiesPreview':
+      case 'labProjectsPreview':
+      case 'jobsPreview':
+        return <ContentListSectionEditor section={section} updateSectionData={updateSectionData} />;
+      case 'richText':
+        return <RichTextSectionEditor section={section} updateSectionData={updateSectionData} />;
+      case 'embed':
+        return <EmbedSectionEditor section={section} updateSectionData={updateSectionData} />;
+      case 'columns':
+        return <ColumnsSectionEditor section={section} updateSectionData={updateSectionData} />;
       case 'testimonials':
         return (
           <div className="text-center text-muted-foreground py-8">
@@ -929,6 +997,12 @@ export function SectionEditor({
             <p className="text-sm">Use the JSON editor for now</p>
           </div>
         );
+      case 'globalSection':
+        return (
+          <div className="text-center text-muted-foreground py-8">
+            <p>Global section references are chosen in the page's Sections tab</p>
+          </div>
+        );
       default:
         return (
           <div className="text-center text-muted-foreground py-8">
@@ -982,20 +1056,38 @@ export function SectionEditor({
             </div>
           </div>
           
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={onRemove}
-            className="text-destructive hover:text-destructive hover:bg-destructive/10"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            {section.type !== 'globalSection' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSavePreset(true)}
+                aria-label="Save as preset"
+                title="Save as preset"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </CardHeader>
+
+      {showSavePreset && section.type !== 'globalSection' && (
+        <SavePresetDialog section={section} open={showSavePreset} onOpenChange={setShowSavePreset} />
+      )}
       
       {isExpanded && (
-        <CardContent className="max-h-none overflow-visible">
+        <CardContent className="max-h-none overflow-visible space-y-4">
           {renderEditor()}
+          <SectionVisibilityEditor id={section.id} visibility={section.visibility} onChange={updateVisibility} />
         </CardContent>
       )}
     </Card>
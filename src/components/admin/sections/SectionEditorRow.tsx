@@ -1,4 +1,5 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
+import { useState, useRef, useCallback, useEffect, type FocusEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,8 +8,28 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
-import { Plus, Trash2, GripVertical, ArrowUp, ArrowDown, Move } from 'lucide-react';
-import { Section, SectionSchema, SECTION_TYPES } from '@/lib/sections/schema';
+import { Plus, Trash2, GripVertical, ArrowUp, ArrowDown, Move, EyeOff, BookmarkPlus } from 'lucide-react';
+import {
+  Section,
+  SectionSchema,
+  SECTION_TYPES,
+  COLUMN_CHILD_SECTION_TYPES,
+  GlobalSectionRef,
+  PricingSection,
+  ColumnsSection,
+  ColumnChildSection,
+  SectionVisibility,
+  createDefaultSection,
+} from '@/lib/sections/schema';
+import { describeVisibility } from '@/lib/sections/visibility';
+import { isContentListSection } from '@/lib/sections/selection';
+import { adminCms } from '@/lib/admin-cms';
+import type { GlobalSection } from '@/types/content';
+import { PricingTierPicker } from './PricingTierPicker';
+import { ContentListSectionEditor } from './ContentListSectionEditor';
+import { RichTextSectionEditor, EmbedSectionEditor } from './RichContentSectionEditors';
+import { SectionVisibilityEditor } from './SectionVisibilityEditor';
+import { SavePresetDialog } from './SavePresetDialog';
 import { adminToast } from '@/lib/toast-utils';
 import { ScreenReaderAnnouncer, KeyboardShortcuts } from '@/lib/accessibility';
 import { cn } from '@/lib/utils';
@@ -24,6 +45,9 @@ interface SectionEditorRowProps {
   canMoveUp?: boolean;
   canMoveDown?: boolean;
   onFocus?: () => void;
+  // Selected from the live preview: expand, scroll to and focus the row
+  isSelected?: boolean;
+  validationIssues?: string[];
 }
 
 export function SectionEditorRow({ 
@@ -36,10 +60,13 @@ export function SectionEditorRow({
   onMoveDown,
   canMoveUp,
   canMoveDown,
-  onFocus
+  onFocus,
+  isSelected,
+  validationIssues = []
 }: SectionEditorRowProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
+  const [showSavePreset, setShowSavePreset] = useState(false);
   const rowRef = useRef<HTMLDivElement>(null);
   const announcer = ScreenReaderAnnouncer.getInstance();
 
@@ -62,6 +89,17 @@ export function SectionEditorRow({
     }
   };
 
+  const updateVisibility = (visibility: SectionVisibility | undefined) => {
+    const result = SectionSchema.safeParse({ ...section, visibility });
+    if (result.success) {
+      onUpdate({ ...section, visibility });
+    } else {
+      adminToast.validationError(result.error.issues[0]?.message || 'Invalid visibility rules');
+    }
+  };
+
+  const visibilitySummary = describeVisibility(section.visibility);
+
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (!isFocused) return;
 
@@ -94,6 +132,13 @@ export function SectionEditorRow({
     }
   }, [isFocused, canMoveUp, canMoveDown, onMoveUp, onMoveDown, index, sectionTitle, isExpanded]);
 
+  useEffect(() => {
+    if (!isSelected || rowRef.current?.contains(document.activeElement)) return;
+    setIsExpanded(true);
+    rowRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' });
+    rowRef.current?.focus({ preventScroll: true });
+  }, [isSelected]);
+
   useEffect(() => {
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
@@ -118,12 +163,15 @@ export function SectionEditorRow({
     announcer.announce(`Removed "${sectionTitle}" section`, 'assertive');
   };
 
-  const handleFocus = () => {
+  // Rows nest inside column containers; stop propagation so only the innermost row takes focus
+  const handleFocus = (e: FocusEvent) => {
+    e.stopPropagation();
     setIsFocused(true);
     onFocus?.();
   };
 
-  const handleBlur = () => {
+  const handleBlur = (e: FocusEvent) => {
+    e.stopPropagation();
     setIsFocused(false);
   };
 
@@ -133,7 +181,8 @@ export function SectionEditorRow({
       className={cn(
         "transition-all duration-200",
         isFocused && "ring-2 ring-primary ring-offset-2",
-        isExpanded && "border-primary/50"
+        isExpanded && "border-primary/50",
+        validationIssues.length > 0 && "border-destructive"
       )}
       tabIndex={0}
       role="listitem"
@@ -160,6 +209,15 @@ export function SectionEditorRow({
                 <span className="text-xs text-muted-foreground">
                   Position {index + 1} of {totalSections}
                 </span>
+                {validationIssues.length > 0 && (
+                  <Badge variant="destructive" className="text-xs">Invalid</Badge>
+                )}
+                {visibilitySummary.length > 0 && (
+                  <Badge variant="outline" className="text-xs gap-1" title={visibilitySummary.join(' · ')}>
+                    <EyeOff className="h-3 w-3" aria-hidden="true" />
+                    Conditional
+                  </Badge>
+                )}
               </div>
             </div>
           </div>
@@ -198,6 +256,18 @@ export function SectionEditorRow({
               <Move className="h-4 w-4" />
             </Button>
             
+            {section.type !== 'globalSection' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowSavePreset(true)}
+                aria-label={`Save ${sectionTitle} as preset`}
+                title="Save as preset"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+            )}
+            
             <Button
               variant="ghost"
               size="sm"
@@ -210,13 +280,30 @@ export function SectionEditorRow({
         </div>
         
         {/* Quick preview of section content */}
+        {validationIssues.length > 0 && (
+          <ul className="text-xs text-destructive mt-2 list-disc list-inside" aria-label={`${sectionTitle} validation errors`}>
+            {validationIssues.map((issue, issueIndex) => <li key={issueIndex}>{issue}</li>)}
+          </ul>
+        )}
+        {!isExpanded && visibilitySummary.length > 0 && (
+          <div className="text-xs text-muted-foreground mt-2">
+            Visible: {visibilitySummary.join(' · ')}
+          </div>
+        )}
         {!isExpanded && (
           <div className="text-xs text-muted-foreground mt-2 line-clamp-2">
-            {section.data.description || section.data.title || 'No description available'}
+            {('description' in section.data && section.data.description) ||
+              ('content' in section.data && section.data.content) ||
+              section.data.title ||
+              'No description available'}
           </div>
         )}
       </CardHeader>
       
+      {showSavePreset && section.type !== 'globalSection' && (
+        <SavePresetDialog section={section} open={showSavePreset} onOpenChange={setShowSavePreset} />
+      )}
+      
       {/* Expanded section editor */}
       {isExpanded && (
         <CardContent className="pt-0">
@@ -242,6 +329,29 @@ export function SectionEditorRow({
             {section.type === 'cta' && (
               <CtaSectionEditor section={section} updateSectionData={updateSectionData} />
             )}
+            {section.type === 'pricing' && (
+              <PricingSectionEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            {isContentListSection(section) && (
+              <ContentListSectionEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            {section.type === 'richText' && (
+              <RichTextSectionEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            {section.type === 'embed' && (
+              <EmbedSectionEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            {section.type === 'columns' && (
+              <ColumnsSectionEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            {section.type === 'globalSection' && (
+              <GlobalSectionRefEditor section={section} updateSectionData={updateSectionData} />
+            )}
+            <SectionVisibilityEditor
+              id={section.id}
+              visibility={section.visibility}
+              onChange={updateVisibility}
+            />
           </div>
         </CardContent>
       )}
@@ -554,4 +664,237 @@ function CtaSectionEditor({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function PricingSectionEditor({ 
+  section, 
+  updateSectionData 
+}: { 
+  section: PricingSection; 
+  updateSectionData: (updates: any) => void; 
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`pricing-title-${section.id}`}>Title *</Label>
+        <Input
+          id={`pricing-title-${section.id}`}
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value })}
+          placeholder="Pricing Plans"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`pricing-description-${section.id}`}>Description</Label>
+        <Textarea
+          id={`pricing-description-${section.id}`}
+          value={section.data.description || ''}
+          onChange={(e) => updateSectionData({ description: e.target.value })}
+          rows={2}
+        />
+      </div>
+      <div className="flex items-center space-x-2">
+        <Switch
+          id={`pricing-checkout-${section.id}`}
+          checked={section.data.enableCheckout}
+          onCheckedChange={(checked) => updateSectionData({ enableCheckout: checked })}
+        />
+        <Label htmlFor={`pricing-checkout-${section.id}`}>Enable checkout (otherwise link to the quote form)</Label>
+      </div>
+      <PricingTierPicker
+        id={`pricing-tiers-${section.id}`}
+        tierIds={section.data.tierIds || []}
+        onChange={(tierIds) => updateSectionData({ tierIds })}
+      />
+    </div>
+  );
+}
+
+function GlobalSectionRefEditor({ 
+  section, 
+  updateSectionData 
+}: { 
+  section: GlobalSectionRef; 
+  updateSectionData: (updates: Partial<GlobalSectionRef['data']>) => void; 
+}) {
+  const [globalSections, setGlobalSections] = useState<GlobalSection[]>([]);
+
+  useEffect(() => {
+    adminCms.getAllGlobalSections()
+      .then(setGlobalSections)
+      .catch(error => console.error('Error loading global sections:', error));
+  }, []);
+
+  const handleSelect = (globalSectionId: string) => {
+    const selected = globalSections.find(globalSection => globalSection.id === globalSectionId);
+    updateSectionData({ globalSectionId, title: selected?.name });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`global-section-${section.id}`}>Global Section</Label>
+        <Select value={section.data.globalSectionId || undefined} onValueChange={handleSelect}>
+          <SelectTrigger id={`global-section-${section.id}`}>
+            <SelectValue placeholder="Select a global section" />
+          </SelectTrigger>
+          <SelectContent>
+            {globalSections.map(globalSection => (
+              <SelectItem key={globalSection.id} value={globalSection.id}>
+                {globalSection.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {section.data.globalSectionId && (
+        <p className="text-xs text-muted-foreground">
+          This content is shared across pages.{' '}
+          <Link to={`/admin/global-sections/${section.data.globalSectionId}/edit`} className="text-primary underline">
+            Edit the global section
+          </Link>{' '}
+          to change it everywhere.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Column container editor; child sections are edited with nested rows
+export function ColumnsSectionEditor({ 
+  section, 
+  updateSectionData 
+}: { 
+  section: ColumnsSection; 
+  updateSectionData: (updates: any) => void; 
+}) {
+  const { columns } = section.data;
+
+  const updateColumn = (columnIndex: number, sections: ColumnChildSection[]) => {
+    updateSectionData({
+      columns: columns.map((column, index) => index === columnIndex ? { ...column, sections } : column),
+    });
+  };
+
+  // Removed columns hand their sections to the last remaining column so nothing is lost
+  const setColumnCount = (count: number) => {
+    if (count > columns.length) {
+      const added = Array.from({ length: count - columns.length }, () => ({ id: crypto.randomUUID(), sections: [] }));
+      updateSectionData({ columns: [...columns, ...added] });
+    } else {
+      const kept = columns.slice(0, count);
+      const orphaned = columns.slice(count).flatMap(column => column.sections);
+      kept[count - 1] = { ...kept[count - 1], sections: [...kept[count - 1].sections, ...orphaned] };
+      updateSectionData({ columns: kept });
+    }
+  };
+
+  const moveChild = (columnIndex: number, childIndex: number, offset: number) => {
+    const sections = [...columns[columnIndex].sections];
+    [sections[childIndex], sections[childIndex + offset]] = [sections[childIndex + offset], sections[childIndex]];
+    updateColumn(columnIndex, sections);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`columns-title-${section.id}`}>Title</Label>
+        <Input
+          id={`columns-title-${section.id}`}
+          value={section.data.title || ''}
+          onChange={(e) => updateSectionData({ title: e.target.value || undefined })}
+        />
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`columns-count-${section.id}`}>Columns</Label>
+          <Select value={String(columns.length)} onValueChange={(value) => setColumnCount(parseInt(value))}>
+            <SelectTrigger id={`columns-count-${section.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[2, 3, 4].map(count => (
+                <SelectItem key={count} value={String(count)}>{count} columns</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`columns-gap-${section.id}`}>Spacing</Label>
+          <Select value={section.data.gap} onValueChange={(gap) => updateSectionData({ gap })}>
+            <SelectTrigger id={`columns-gap-${section.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sm">Small</SelectItem>
+              <SelectItem value="md">Medium</SelectItem>
+              <SelectItem value="lg">Large</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`columns-align-${section.id}`}>Vertical alignment</Label>
+          <Select value={section.data.verticalAlign} onValueChange={(verticalAlign) => updateSectionData({ verticalAlign })}>
+            <SelectTrigger id={`columns-align-${section.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="start">Top</SelectItem>
+              <SelectItem value="center">Center</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Columns stack on phones, show two per row on tablets and use the full count on desktops.
+      </p>
+      {columns.map((column, columnIndex) => (
+        <div key={column.id} className="space-y-3 rounded-lg border border-dashed p-3">
+          <div className="flex items-center justify-between gap-2">
+            <Label>Column {columnIndex + 1}</Label>
+            <Select
+              value=""
+              onValueChange={(type) => updateColumn(columnIndex, [
+                ...column.sections,
+                createDefaultSection(type as ColumnChildSection['type']) as ColumnChildSection,
+              ])}
+            >
+              <SelectTrigger className="w-48" aria-label={`Add section to column ${columnIndex + 1}`}>
+                <Plus className="h-4 w-4" />
+                <SelectValue placeholder="Add section" />
+              </SelectTrigger>
+              <SelectContent>
+                {COLUMN_CHILD_SECTION_TYPES.map(sectionType => (
+                  <SelectItem key={sectionType.type} value={sectionType.type}>{sectionType.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {column.sections.length === 0 ? (
+            <p className="text-xs text-muted-foreground">This column is empty.</p>
+          ) : (
+            <div role="list" className="space-y-2">
+              {column.sections.map((child, childIndex) => (
+                <SectionEditorRow
+                  key={child.id}
+                  section={child}
+                  index={childIndex}
+                  totalSections={column.sections.length}
+                  onUpdate={(updated) => updateColumn(
+                    columnIndex,
+                    column.sections.map(existing => existing.id === child.id ? updated as ColumnChildSection : existing)
+                  )}
+                  onRemove={() => updateColumn(columnIndex, column.sections.filter(existing => existing.id !== child.id))}
+                  onMoveUp={() => moveChild(columnIndex, childIndex, -1)}
+                  onMoveDown={() => moveChild(columnIndex, childIndex, 1)}
+                  canMoveUp={childIndex > 0}
+                  canMoveDown={childIndex < column.sections.length - 1}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Download, LayoutTemplate, Plus, Search, Trash2, Upload } from 'lucide-react';
+import { useAuth } from '@/lib/auth';
+import { adminCms, exportToJSON } from '@/lib/admin-cms';
+import { adminToast } from '@/lib/toast-utils';
+import { exportSectionPresets, instantiatePreset, parseSectionPresetImport } from '@/lib/sections/presets';
+import { SECTION_TYPES, type ContentSection } from '@/lib/sections/schema';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import type { SectionPreset } from '@/types/content';
+
+interface SectionPresetLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (section: ContentSection) => void;
+}
+
+const ALL_CATEGORIES = '__all__';
+
+// Browse, insert, import and export section presets from the page builder
+export function SectionPresetLibrary({ open, onOpenChange, onInsert }: SectionPresetLibraryProps) {
+  const { isAdmin } = useAuth();
+  const [presets, setPresets] = useState<SectionPreset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [deleteConfirm, setDeleteConfirm] = useState<SectionPreset | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadPresets = async () => {
+    try {
+      setPresets(await adminCms.getAllSectionPresets());
+    } catch (error) {
+      console.error('Error loading section presets:', error);
+      adminToast.error('Failed to load presets', error instanceof Error ? error.message : undefined);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadPresets();
+  }, [open]);
+
+  const categories = [...new Set(presets.map(preset => preset.category))].sort();
+  const query = search.trim().toLowerCase();
+  const filtered = presets.filter(preset =>
+    (category === ALL_CATEGORIES || preset.category === category) &&
+    (!query || [preset.name, preset.description, preset.section?.type].some(value => value?.toLowerCase().includes(query)))
+  );
+
+  const handleInsert = (preset: SectionPreset) => {
+    onInsert(instantiatePreset(preset.section as ContentSection));
+    onOpenChange(false);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    exportToJSON(exportSectionPresets(filtered), `section-presets-${date}.json`);
+  };
+
+  const handleImport = async (file: File) => {
+    const { presets: valid, errors } = parseSectionPresetImport(await file.text());
+    setImportErrors(errors);
+
+    if (valid.length === 0) {
+      adminToast.error('Nothing imported', errors.length ? `${errors.length} preset(s) failed validation` : 'The file has no presets');
+      return;
+    }
+
+    try {
+      await adminCms.createSectionPresets(valid);
+      adminToast.success(
+        `Imported ${valid.length} preset${valid.length === 1 ? '' : 's'}`,
+        errors.length ? `${errors.length} skipped, see the list below` : undefined
+      );
+      await loadPresets();
+    } catch (error) {
+      console.error('Error importing section presets:', error);
+      adminToast.error('Failed to import presets', error instanceof Error ? error.message : undefined);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteConfirm) return;
+    try {
+      await adminCms.deleteSectionPreset(deleteConfirm.id);
+      setPresets(prev => prev.filter(preset => preset.id !== deleteConfirm.id));
+      adminToast.deleted('Preset', deleteConfirm.name);
+    } catch (error) {
+      console.error('Error deleting section preset:', error);
+      adminToast.error('Failed to delete preset', error instanceof Error ? error.message : undefined);
+    } finally {
+      setDeleteConfirm(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Section Presets</DialogTitle>
+          <DialogDescription>Insert a saved section. The page gets its own copy you can edit freely.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search presets"
+              className="pl-9"
+              aria-label="Search presets"
+            />
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="sm:w-48" aria-label="Filter by category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+              {categories.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleExport} disabled={filtered.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            aria-label="Import presets file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {importErrors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <p className="font-medium mb-1">Skipped during import:</p>
+              <ul className="list-disc list-inside text-xs space-y-1">
+                {importErrors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Loading presets...</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            {presets.length === 0
+              ? 'No presets yet. Use "Save as preset" on any section to add one.'
+              : 'No presets match your search.'}
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4" aria-label="Section presets">
+            {filtered.map(preset => (
+              <li key={preset.id} className="flex flex-col overflow-hidden rounded-lg border">
+                {preset.thumbnail_url ? (
+                  <img src={preset.thumbnail_url} alt="" className="aspect-video w-full object-cover bg-muted" loading="lazy" />
+                ) : (
+                  <div className="aspect-video w-full flex items-center justify-center bg-muted text-muted-foreground">
+                    <LayoutTemplate className="h-8 w-8" aria-hidden="true" />
+                  </div>
+                )}
+                <div className="flex flex-1 flex-col gap-2 p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="font-medium leading-tight">{preset.name}</p>
+                    <Badge variant="secondary" className="shrink-0">{preset.category}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {SECTION_TYPES.find(type => type.type === preset.section?.type)?.label ?? preset.section?.type}
+                    {preset.description && ` · ${preset.description}`}
+                  </p>
+                  <div className="mt-auto flex gap-2">
+                    <Button size="sm" className="flex-1" onClick={() => handleInsert(preset)}>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Insert
+                    </Button>
+                    {isAdmin && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setDeleteConfirm(preset)}
+                        aria-label={`Delete preset ${preset.name}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {deleteConfirm && (
+          <ConfirmDialog
+            open={!!deleteConfirm}
+            onOpenChange={() => setDeleteConfirm(null)}
+            title="Delete Preset"
+            description={`Delete the preset "${deleteConfirm.name}"? Pages that already use it keep their copy.`}
+            confirmLabel="Delete"
+            variant="destructive"
+            onConfirm={handleDelete}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
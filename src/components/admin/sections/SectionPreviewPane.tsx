@@ -0,0 +1,132 @@
+import { MouseEvent, useEffect, useState } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AlertTriangle, EyeOff, Monitor, Smartphone, Tablet } from 'lucide-react';
+import { SectionRenderer } from '@/components/sections/SectionRenderer';
+import { useSectionVisibility } from '@/hooks/useSectionVisibility';
+import { describeVisibility, isSectionVisible, VisibilitySimulation } from '@/lib/sections/visibility';
+import { getSectionIssues } from '@/lib/sections/validation';
+import { SECTION_TYPES, type Section, type SectionDevice } from '@/lib/sections/schema';
+import { cn } from '@/lib/utils';
+import { DevicePreviewFrame } from './DevicePreviewFrame';
+import { VisibilitySimulator } from './VisibilitySimulator';
+
+interface SectionPreviewPaneProps {
+  // Unsaved page body sections; invalid entries are shown as placeholders
+  sections: unknown[];
+  selectedSectionId?: string;
+  onSelectSection?: (id: string) => void;
+}
+
+// Frame sizes sit inside the matching visibility device breakpoints
+const DEVICE_FRAMES: Record<SectionDevice, { width: number; height: number; label: string; icon: typeof Monitor }> = {
+  mobile: { width: 375, height: 812, label: 'Mobile', icon: Smartphone },
+  tablet: { width: 768, height: 1024, label: 'Tablet', icon: Tablet },
+  desktop: { width: 1280, height: 800, label: 'Desktop', icon: Monitor },
+};
+
+export function SectionPreviewPane({ sections, selectedSectionId, onSelectSection }: SectionPreviewPaneProps) {
+  const [device, setDevice] = useState<SectionDevice>('desktop');
+  const [simulation, setSimulation] = useState<VisibilitySimulation>();
+  const [frameDocument, setFrameDocument] = useState<Document | null>(null);
+
+  // Visibility rules follow the frame's device unless the simulator overrides it
+  const effectiveSimulation: VisibilitySimulation = { ...simulation, device: simulation?.device ?? device };
+  const visibilityContext = useSectionVisibility(effectiveSimulation);
+  const frame = DEVICE_FRAMES[device];
+
+  useEffect(() => {
+    if (!frameDocument || !selectedSectionId) return;
+    frameDocument
+      .querySelector(`[data-section-id="${CSS.escape(selectedSectionId)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [frameDocument, selectedSectionId]);
+
+  // Links and buttons inside the preview must not navigate the admin
+  const handleSectionClick = (event: MouseEvent, id: string) => {
+    event.preventDefault();
+    onSelectSection?.(id);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b p-2">
+        <ToggleGroup
+          type="single"
+          value={device}
+          onValueChange={(value) => value && setDevice(value as SectionDevice)}
+          aria-label="Preview device"
+        >
+          {(Object.keys(DEVICE_FRAMES) as SectionDevice[]).map(key => {
+            const Icon = DEVICE_FRAMES[key].icon;
+            return (
+              <ToggleGroupItem key={key} value={key} aria-label={DEVICE_FRAMES[key].label} title={`${DEVICE_FRAMES[key].label} (${DEVICE_FRAMES[key].width}px)`}>
+                <Icon className="h-4 w-4" />
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+        <VisibilitySimulator
+          value={simulation}
+          onChange={setSimulation}
+          className="bg-muted px-3 py-1 text-sm hover:bg-muted/80"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto bg-muted/30 p-4">
+        <DevicePreviewFrame
+          width={frame.width}
+          height={frame.height}
+          title={`${frame.label} preview`}
+          onDocumentReady={setFrameDocument}
+        >
+          {sections.length === 0 && (
+            <p className="p-8 text-center text-muted-foreground">Add a section to see the preview.</p>
+          )}
+          {sections.map((raw, index) => {
+            const issues = getSectionIssues(raw);
+            const section = raw as Section;
+            const id = typeof section?.id === 'string' ? section.id : `index-${index}`;
+            const label = SECTION_TYPES.find(type => type.type === section?.type)?.label ?? String(section?.type ?? 'Section');
+            const isSelected = id === selectedSectionId;
+            const isHidden = issues.length === 0 && !visibilityContext.ignoreRules && !isSectionVisible(section, visibilityContext);
+
+            return (
+              <div
+                key={id}
+                data-section-id={id}
+                role="button"
+                tabIndex={-1}
+                aria-label={`Select ${label} section`}
+                onClickCapture={(event) => handleSectionClick(event, id)}
+                className={cn(
+                  'relative cursor-pointer outline-offset-[-3px] hover:outline hover:outline-2 hover:outline-primary/50',
+                  isSelected && 'outline outline-4 outline-primary',
+                  issues.length > 0 && 'outline outline-4 outline-destructive'
+                )}
+              >
+                {issues.length > 0 ? (
+                  <div className="m-4 rounded-lg border-2 border-dashed border-destructive bg-destructive/10 p-4 text-sm">
+                    <p className="flex items-center gap-2 font-medium text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      {label} section is invalid and will not render
+                    </p>
+                    <ul className="mt-2 list-disc list-inside text-destructive/90">
+                      {issues.map((issue, issueIndex) => <li key={issueIndex}>{issue}</li>)}
+                    </ul>
+                  </div>
+                ) : isHidden ? (
+                  <div className="m-4 flex items-center gap-2 rounded-lg border border-dashed p-3 text-xs text-muted-foreground">
+                    <EyeOff className="h-4 w-4" />
+                    {label} hidden for this visitor ({describeVisibility(section.visibility).join(' · ')})
+                  </div>
+                ) : (
+                  <SectionRenderer sections={[section]} context="detail" simulation={effectiveSimulation} />
+                )}
+              </div>
+            );
+          })}
+        </DevicePreviewFrame>
+      </div>
+    </div>
+  );
+}
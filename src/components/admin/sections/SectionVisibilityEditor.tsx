@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, Plus, Trash2 } from 'lucide-react';
+import { AUDIENCE_OPTIONS, DEVICE_OPTIONS, hasVisibilityRules } from '@/lib/sections/visibility';
+import type { SectionVisibility } from '@/lib/sections/schema';
+
+interface SectionVisibilityEditorProps {
+  id: string;
+  visibility?: SectionVisibility;
+  onChange: (visibility: SectionVisibility | undefined) => void;
+}
+
+type QueryRule = NonNullable<SectionVisibility['query']>[number];
+
+const SUGGESTED_QUERY_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content', 'ref'];
+
+// datetime-local inputs work in the editor's timezone; rules are stored as UTC ISO strings
+function toLocalInput(value?: string): string {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+// Drop empty rules so sections without targeting keep no `visibility` at all
+function compactVisibility(visibility: SectionVisibility): SectionVisibility | undefined {
+  const compacted: SectionVisibility = {
+    audience: visibility.audience ?? 'all',
+    ...(visibility.startAt && { startAt: visibility.startAt }),
+    ...(visibility.endAt && { endAt: visibility.endAt }),
+    ...(visibility.devices?.length && { devices: visibility.devices }),
+    ...(visibility.query?.length && { query: visibility.query }),
+  };
+  return hasVisibilityRules(compacted) ? compacted : undefined;
+}
+
+export function SectionVisibilityEditor({ id, visibility, onChange }: SectionVisibilityEditorProps) {
+  const rules: SectionVisibility = visibility ?? { audience: 'all' };
+  // Rows with an empty parameter name stay local until they are filled in
+  const [queryRows, setQueryRows] = useState<QueryRule[]>(rules.query ?? []);
+  const inputId = (name: string) => `visibility-${name}-${id}`;
+
+  const update = (changes: Partial<SectionVisibility>) => onChange(compactVisibility({ ...rules, ...changes }));
+
+  const updateQueryRows = (rows: QueryRule[]) => {
+    setQueryRows(rows);
+    update({
+      query: rows
+        .filter(row => row.key.trim())
+        .map(row => ({ key: row.key.trim(), ...(row.value?.trim() && { value: row.value.trim() }) })),
+    });
+  };
+
+  const toggleDevice = (device: (typeof DEVICE_OPTIONS)[number]['value'], checked: boolean) => {
+    const devices = rules.devices ?? [];
+    update({ devices: checked ? [...devices, device] : devices.filter(existing => existing !== device) });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3" role="group" aria-label="Visibility rules">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <Eye className="h-4 w-4" />
+          Visibility
+        </Label>
+        {hasVisibilityRules(visibility) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setQueryRows([]);
+              onChange(undefined);
+            }}
+          >
+            Clear rules
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={inputId('start')}>Show from</Label>
+          <Input
+            id={inputId('start')}
+            type="datetime-local"
+            value={toLocalInput(rules.startAt)}
+            onChange={(e) => update({ startAt: fromLocalInput(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={inputId('end')}>Hide after</Label>
+          <Input
+            id={inputId('end')}
+            type="datetime-local"
+            value={toLocalInput(rules.endAt)}
+            onChange={(e) => update({ endAt: fromLocalInput(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Devices</Label>
+          <div className="flex flex-wrap gap-4">
+            {DEVICE_OPTIONS.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={inputId(option.value)}
+                  checked={rules.devices?.includes(option.value) ?? false}
+                  onCheckedChange={(checked) => toggleDevice(option.value, checked === true)}
+                />
+                <Label htmlFor={inputId(option.value)} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">None checked shows the section on every device.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={inputId('audience')}>Audience</Label>
+          <Select
+            value={rules.audience ?? 'all'}
+            onValueChange={(audience) => update({ audience: audience as SectionVisibility['audience'] })}
+          >
+            <SelectTrigger id={inputId('audience')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUDIENCE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>URL parameters</Label>
+        <datalist id={inputId('query-keys')}>
+          {SUGGESTED_QUERY_KEYS.map(key => <option key={key} value={key}>{key}</option>)}
+        </datalist>
+        {queryRows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={row.key}
+              onChange={(e) => updateQueryRows(queryRows.map((existing, i) => i === index ? { ...existing, key: e.target.value } : existing))}
+              placeholder="utm_campaign"
+              list={inputId('query-keys')}
+              aria-label={`Parameter ${index + 1} name`}
+            />
+            <span className="text-muted-foreground">=</span>
+            <Input
+              value={row.value || ''}
+              onChange={(e) => updateQueryRows(queryRows.map((existing, i) => i === index ? { ...existing, value: e.target.value } : existing))}
+              placeholder="any value"
+              aria-label={`Parameter ${index + 1} value`}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateQueryRows(queryRows.filter((_, i) => i !== index))}
+              aria-label={`Remove parameter ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={() => setQueryRows([...queryRows, { key: '' }])}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add parameter
+        </Button>
+        <p className="text-xs text-muted-foreground">All parameters must be in the page URL. Leave the value empty to match any value.</p>
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,39 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, RotateCcw } from 'lucide-react';
+import { Plus, RotateCcw, LayoutTemplate } from 'lucide-react';
 import { SectionEditorRow } from './SectionEditorRow';
+import { SectionPresetLibrary } from './SectionPresetLibrary';
 import { Section, createDefaultSection, SECTION_TYPES, PageBodySchema } from '@/lib/sections/schema';
+import { CURRENT_PAGE_BODY_VERSION } from '@/lib/sections/migrations';
+import { getSectionIssuesById } from '@/lib/sections/validation';
 import { adminToast } from '@/lib/toast-utils';
+import { adminCms } from '@/lib/admin-cms';
+import type { GlobalSection } from '@/types/content';
 import { EmptyState } from '@/components/admin/EmptyState';
 
 interface SectionsTabProps {
   pageBody: any;
   onUpdate: (body: any) => void;
+  // Shared with the live preview: clicking a preview section selects its row and vice versa
+  selectedSectionId?: string;
+  onSelectSection?: (id: string) => void;
 }
 
-export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
+export function SectionsTab({ pageBody, onUpdate, selectedSectionId, onSelectSection }: SectionsTabProps) {
   const [selectedSectionType, setSelectedSectionType] = useState<string>('');
+  const [globalSections, setGlobalSections] = useState<GlobalSection[]>([]);
+  const [selectedGlobalSectionId, setSelectedGlobalSectionId] = useState<string>('');
+  const [showPresetLibrary, setShowPresetLibrary] = useState(false);
+
+  // Global sections are only needed once the editor chooses to insert one
+  useEffect(() => {
+    if (selectedSectionType !== 'globalSection' || globalSections.length > 0) return;
+    adminCms.getAllGlobalSections()
+      .then(setGlobalSections)
+      .catch(error => console.error('Error loading global sections:', error));
+  }, [selectedSectionType, globalSections.length]);
 
   // Parse existing sections or initialize empty array
   const getSections = (): Section[] => {
@@ -28,10 +47,12 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
   };
 
   const sections = getSections();
+  const sectionIssues = getSectionIssuesById(sections);
 
   const updateSections = (newSections: Section[]) => {
     try {
       const newBody = {
+        version: CURRENT_PAGE_BODY_VERSION,
         sections: newSections
       };
       
@@ -51,10 +72,19 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
     }
 
     try {
-      const newSection = createDefaultSection(selectedSectionType as any);
+      let newSection = createDefaultSection(selectedSectionType as any);
+      if (newSection.type === 'globalSection') {
+        const globalSection = globalSections.find(item => item.id === selectedGlobalSectionId);
+        if (!globalSection) {
+          adminToast.warning('Please select a global section');
+          return;
+        }
+        newSection = { ...newSection, data: { title: globalSection.name, globalSectionId: globalSection.id } };
+      }
       const newSections = [...sections, newSection];
       updateSections(newSections);
       setSelectedSectionType('');
+      setSelectedGlobalSectionId('');
       adminToast.success('Section added successfully');
     } catch (error) {
       console.error('Error adding section:', error);
@@ -62,6 +92,11 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
     }
   };
 
+  const insertPreset = (section: Section) => {
+    updateSections([...sections, section]);
+    adminToast.success('Preset added');
+  };
+
   const updateSection = (index: number, updatedSection: Section) => {
     const newSections = [...sections];
     newSections[index] = updatedSection;
@@ -134,12 +169,34 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
                 </SelectContent>
               </Select>
             </div>
+
+            {selectedSectionType === 'globalSection' && (
+              <div className="flex-1">
+                <Select value={selectedGlobalSectionId} onValueChange={setSelectedGlobalSectionId}>
+                  <SelectTrigger aria-label="Global section to insert">
+                    <SelectValue placeholder={globalSections.length ? 'Choose global section' : 'No global sections yet'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {globalSections.map((globalSection) => (
+                      <SelectItem key={globalSection.id} value={globalSection.id}>
+                        {globalSection.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <Button onClick={addSection} disabled={!selectedSectionType}>
               <Plus className="h-4 w-4 mr-2" />
               Add Section
             </Button>
             
+            <Button variant="outline" onClick={() => setShowPresetLibrary(true)}>
+              <LayoutTemplate className="h-4 w-4 mr-2" />
+              Browse Presets
+            </Button>
+            
             <Button variant="outline" onClick={resetToHomepageLayout}>
               <RotateCcw className="h-4 w-4 mr-2" />
               Reset to Homepage Layout
@@ -148,6 +205,10 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
         </CardContent>
       </Card>
 
+      {showPresetLibrary && (
+        <SectionPresetLibrary open={showPresetLibrary} onOpenChange={setShowPresetLibrary} onInsert={insertPreset} />
+      )}
+
       {/* Sections List */}
       {sections.length === 0 ? (
         <EmptyState
@@ -175,6 +236,9 @@ export function SectionsTab({ pageBody, onUpdate }: SectionsTabProps) {
               onMoveDown={() => moveSectionDown(index)}
               canMoveUp={index > 0}
               canMoveDown={index < sections.length - 1}
+              isSelected={section.id === selectedSectionId}
+              onFocus={() => onSelectSection?.(section.id)}
+              validationIssues={sectionIssues[section.id]}
             />
           ))}
         </div>
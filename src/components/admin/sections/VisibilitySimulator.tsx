@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UserCog } from 'lucide-react';
+import { DEVICE_OPTIONS, VisibilitySimulation } from '@/lib/sections/visibility';
+import { cn } from '@/lib/utils';
+import type { SectionDevice } from '@/lib/sections/schema';
+
+interface VisibilitySimulatorProps {
+  value?: VisibilitySimulation;
+  onChange: (simulation: VisibilitySimulation | undefined) => void;
+  className?: string;
+}
+
+const LIVE = 'live';
+
+function describeSimulation(simulation?: VisibilitySimulation): string {
+  if (!simulation) return 'Live visitor';
+  if (simulation.ignoreRules) return 'All sections';
+
+  const parts = [
+    simulation.device && DEVICE_OPTIONS.find(option => option.value === simulation.device)?.label,
+    simulation.isAuthenticated !== undefined && (simulation.isAuthenticated ? 'Logged in' : 'Anonymous'),
+    simulation.now && simulation.now.toLocaleDateString(),
+    simulation.searchParams && `?${simulation.searchParams.toString()}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : 'Live visitor';
+}
+
+// "Simulate as" control for previews: evaluates section visibility rules for another visitor
+export function VisibilitySimulator({ value, onChange, className }: VisibilitySimulatorProps) {
+  const [dateInput, setDateInput] = useState('');
+  const [queryInput, setQueryInput] = useState(value?.searchParams?.toString() ?? '');
+
+  const update = (changes: Partial<VisibilitySimulation>) => {
+    const next = { ...value, ...changes };
+    const hasOverrides = Object.values(next).some(override => override !== undefined && override !== false);
+    onChange(hasOverrides ? next : undefined);
+  };
+
+  const reset = () => {
+    setDateInput('');
+    setQueryInput('');
+    onChange(undefined);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn('inline-flex items-center gap-1 rounded-full bg-black/10 px-2 py-0.5 hover:bg-black/20', className)}
+        >
+          <UserCog className="h-3 w-3" aria-hidden="true" />
+          Simulate as: {describeSimulation(value)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="center">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="simulate-ignore-rules">Show all sections</Label>
+          <Switch
+            id="simulate-ignore-rules"
+            checked={!!value?.ignoreRules}
+            onCheckedChange={(checked) => update({ ignoreRules: checked })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="simulate-device">Device</Label>
+          <Select
+            value={value?.device ?? LIVE}
+            onValueChange={(device) => update({ device: device === LIVE ? undefined : device as SectionDevice })}
+            disabled={value?.ignoreRules}
+          >
+            <SelectTrigger id="simulate-device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={LIVE}>This screen</SelectItem>
+              {DEVICE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Only changes which sections show; the layout keeps your screen width.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="simulate-audience">Audience</Label>
+          <Select
+            value={value?.isAuthenticated === undefined ? LIVE : value.isAuthenticated ? 'authenticated' : 'anonymous'}
+            onValueChange={(audience) => update({ isAuthenticated: audience === LIVE ? undefined : audience === 'authenticated' })}
+            disabled={value?.ignoreRules}
+          >
+            <SelectTrigger id="simulate-audience">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={LIVE}>Current session</SelectItem>
+              <SelectItem value="anonymous">Anonymous visitor</SelectItem>
+              <SelectItem value="authenticated">Logged-in user</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="simulate-date">Date and time</Label>
+          <Input
+            id="simulate-date"
+            type="datetime-local"
+            value={dateInput}
+            onChange={(e) => {
+              setDateInput(e.target.value);
+              update({ now: e.target.value ? new Date(e.target.value) : undefined });
+            }}
+            disabled={value?.ignoreRules}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="simulate-query">URL parameters</Label>
+          <Input
+            id="simulate-query"
+            value={queryInput}
+            onChange={(e) => {
+              setQueryInput(e.target.value);
+              const query = e.target.value.trim().replace(/^\?/, '');
+              update({ searchParams: query ? new URLSearchParams(query) : undefined });
+            }}
+            placeholder="utm_campaign=spring-sale"
+            disabled={value?.ignoreRules}
+          />
+        </div>
+        <Button variant="outline" size="sm" className="w-full" onClick={reset} disabled={!value}>
+          Reset to live visitor
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
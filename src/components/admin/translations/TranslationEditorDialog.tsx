@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { adminCms } from '@/lib/admin-cms';
+import { adminToast } from '@/lib/toast-utils';
+import { LOCALES, TRANSLATABLE_FIELDS, type Locale, type TranslatableField } from '@/lib/i18n';
+import { migrateAndValidatePageBody } from '@/lib/sections/migrations';
+import type { ContentTranslation, TranslatableEntityType, TranslationSource } from '@/types/content';
+import { Copy } from 'lucide-react';
+
+interface TranslationEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: TranslatableEntityType;
+  locale: Locale;
+  source: TranslationSource | null;
+  translation?: ContentTranslation;
+  onSaved: (translation: ContentTranslation) => void;
+}
+
+// Form values are edited as text: lists one item per line, JSON pretty-printed
+function toFormValue(field: TranslatableField, value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (field.kind === 'list') return Array.isArray(value) ? value.join('\n') : String(value);
+  if (field.kind === 'json') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function fromFormValue(field: TranslatableField, value: string): unknown {
+  if (field.kind === 'list') return value.split('\n').map(item => item.trim()).filter(Boolean);
+  if (field.kind === 'json') return value.trim() ? JSON.parse(value) : null;
+  return value.trim();
+}
+
+function buildFormValues(entityType: TranslatableEntityType, fields: Record<string, unknown> | undefined) {
+  const values: Record<string, string> = {};
+  TRANSLATABLE_FIELDS[entityType].forEach(field => {
+    values[field.name] = toFormValue(field, fields?.[field.name]);
+  });
+  return values;
+}
+
+function getFieldError(entityType: TranslatableEntityType, field: TranslatableField, value: string): string | null {
+  if (field.kind !== 'json' || !value.trim()) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSON';
+  }
+
+  if (entityType === 'page' && field.name === 'body') {
+    const validation = migrateAndValidatePageBody(parsed);
+    if (!validation.success) return validation.issues[0];
+  }
+  return null;
+}
+
+export function TranslationEditorDialog({
+  open,
+  onOpenChange,
+  entityType,
+  locale,
+  source,
+  translation,
+  onSaved,
+}: TranslationEditorDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>(() => buildFormValues(entityType, translation?.fields));
+  const [status, setStatus] = useState<ContentTranslation['status']>(translation?.status ?? 'draft');
+  const [saving, setSaving] = useState(false);
+
+  const fields = TRANSLATABLE_FIELDS[entityType];
+  const localeLabel = LOCALES.find(item => item.code === locale)?.label ?? locale;
+  const errors = Object.fromEntries(fields.map(field => [field.name, getFieldError(entityType, field, values[field.name])]));
+  const hasErrors = Object.values(errors).some(Boolean);
+
+  const copyFromSource = (field: TranslatableField) => {
+    setValues(prev => ({ ...prev, [field.name]: toFormValue(field, source?.[field.name]) }));
+  };
+
+  const handleSave = async () => {
+    if (!source || hasErrors) return;
+
+    const translatedFields: Record<string, unknown> = {};
+    fields.forEach(field => {
+      translatedFields[field.name] = fromFormValue(field, values[field.name]);
+    });
+
+    setSaving(true);
+    try {
+      const saved = await adminCms.saveTranslation({
+        entity_type: entityType,
+        entity_id: source.id,
+        locale,
+        fields: translatedFields,
+        status,
+        source_updated_at: source.updated_at,
+      });
+      adminToast.updated('Translation', source.title);
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving translation:', error);
+      adminToast.error('Failed to save translation', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Translate "{source?.title}" into {localeLabel}</DialogTitle>
+          <DialogDescription>
+            Fields left empty show the English version. Slugs, images and dates are shared between languages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {fields.map(field => {
+            const id = `translation-${field.name}`;
+            const rows = field.kind === 'json' ? 10 : field.kind === 'text' ? undefined : 4;
+            return (
+              <div key={field.name} className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">{field.label} (English)</p>
+                  <pre className="whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-sm max-h-60 overflow-y-auto">
+                    {toFormValue(field, source?.[field.name]) || '—'}
+                  </pre>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor={id}>{field.label} ({localeLabel})</Label>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => copyFromSource(field)}>
+                      <Copy className="h-3 w-3 mr-1" />
+                      Copy from English
+                    </Button>
+                  </div>
+                  {field.kind === 'text' ? (
+                    <Input
+                      id={id}
+                      value={values[field.name]}
+                      onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                    />
+                  ) : (
+                    <Textarea
+                      id={id}
+                      rows={rows}
+                      className={field.kind === 'json' ? 'font-mono text-xs' : undefined}
+                      value={values[field.name]}
+                      onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                      placeholder={field.kind === 'list' ? 'One item per line' : undefined}
+                    />
+                  )}
+                  {errors[field.name] && <p className="text-sm text-destructive">{errors[field.name]}</p>}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="translation-status">Status</Label>
+            <Select value={status} onValueChange={(value: ContentTranslation['status']) => setStatus(value)}>
+              <SelectTrigger id="translation-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="published">Published</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || hasErrors}>
+            {saving ? 'Saving...' : 'Save Translation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
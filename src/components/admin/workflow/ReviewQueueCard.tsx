@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { adminCms } from '@/lib/admin-cms';
+import { formatDate } from '@/lib/admin-utils';
+import { WORKFLOW_ENTITY_LABELS, WORKFLOW_STATE_LABELS, getWorkflowEditorPath } from '@/lib/workflow';
+import type { ReviewQueueItem } from '@/types/content';
+
+// Content submitted for review or approved and waiting to be published, oldest first
+export function ReviewQueueCard() {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    adminCms.getReviewQueue()
+      .then(setItems)
+      .catch(error => console.error('Error fetching review queue:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review Queue</CardTitle>
+        <CardDescription>Content waiting for review or publishing</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground">Nothing is waiting for review</p>
+        ) : (
+          <ul className="space-y-3">
+            {items.map(item => (
+              <li key={`${item.entity_type}-${item.id}`} className="flex items-center justify-between gap-4">
+                <div>
+                  <Link to={getWorkflowEditorPath(item.entity_type, item.id)} className="font-medium hover:underline">
+                    {item.title}
+                  </Link>
+                  <p className="text-sm text-muted-foreground">
+                    {WORKFLOW_ENTITY_LABELS[item.entity_type]} · updated {formatDate(item.updated_at)}
+                  </p>
+                </div>
+                <Badge variant={item.workflow_state === 'approved' ? 'default' : 'outline'}>
+                  {WORKFLOW_STATE_LABELS[item.workflow_state]}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare } from 'lucide-react';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { getWorkflowStateAfterEdit, WORKFLOW_ACTIONS, WORKFLOW_STATE_LABELS } from '@/lib/workflow';
+import type { ContentWorkflowEvent, WorkflowAction, WorkflowEntityType, WorkflowState } from '@/types/content';
+
+interface WorkflowPanelProps {
+  entityType: WorkflowEntityType;
+  entityId?: string;
+  state: WorkflowState;
+  /**
+   * Called with the new state so the editor can update its status fields, and with the
+   * row's new `updated_at` so the editor's next save does not look stale
+   */
+  onTransition: (state: WorkflowState, updatedAt: string | null) => void;
+  disabled?: boolean;
+}
+
+const STATE_VARIANTS: Record<WorkflowState, 'default' | 'secondary' | 'outline'> = {
+  draft: 'secondary',
+  in_review: 'outline',
+  approved: 'outline',
+  published: 'default',
+};
+
+const EVENT_LABELS: Record<WorkflowAction, string> = {
+  submit: 'Submitted for review',
+  withdraw: 'Withdrew from review',
+  approve: 'Approved',
+  request_changes: 'Requested changes',
+  publish: 'Published',
+  unpublish: 'Unpublished',
+  comment: 'Commented',
+};
+
+type TransitionAction = Exclude<WorkflowAction, 'comment'>;
+
+/**
+ * Replaces the status select while the editorial workflow is on: shows the review state,
+ * the transitions the current user may perform, and the transition log with comments.
+ */
+export function WorkflowPanel({ entityType, entityId, state, onTransition, disabled }: WorkflowPanelProps) {
+  const { canPerformWorkflowAction, isAdmin, isEditor } = useAuth();
+  const [events, setEvents] = useState<ContentWorkflowEvent[]>([]);
+  const [comment, setComment] = useState('');
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    if (!entityId) return;
+    try {
+      setEvents(await adminCms.getWorkflowEvents(entityType, entityId));
+    } catch (error) {
+      console.error('Error fetching workflow events:', error);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const actions = (Object.keys(WORKFLOW_ACTIONS) as TransitionAction[])
+    .filter(action => canPerformWorkflowAction(action, state));
+  const stateAfterEdit = getWorkflowStateAfterEdit(state, { isAdmin, isEditor });
+
+  const handleAction = async (action: WorkflowAction) => {
+    if (!entityId) return;
+    if ((action === 'comment' || WORKFLOW_ACTIONS[action]?.requiresComment) && !comment.trim()) {
+      adminToast.validationError('Add a comment explaining what needs to change');
+      return;
+    }
+
+    setPendingAction(action);
+    try {
+      const next = await adminCms.transitionWorkflow(entityType, entityId, action, comment);
+      setComment('');
+      onTransition(next, await adminCms.getContentVersion(entityType, entityId));
+      adminToast.success(EVENT_LABELS[action]);
+      await fetchEvents();
+    } catch (error) {
+      console.error('Error changing workflow state:', error);
+      adminToast.error('Failed to update review status', error instanceof Error ? error.message : undefined);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Review</CardTitle>
+        <CardDescription>Content is reviewed and approved before it is published</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Current Status</span>
+          <Badge variant={STATE_VARIANTS[state]}>{WORKFLOW_STATE_LABELS[state]}</Badge>
+        </div>
+
+        {stateAfterEdit === null ? (
+          <p className="text-sm text-muted-foreground">Unpublish this before editing it, so the changes can be reviewed.</p>
+        ) : stateAfterEdit !== state && (
+          <p className="text-sm text-muted-foreground">Saving changes sends this back to draft for another review.</p>
+        )}
+
+        {!entityId ? (
+          <p className="text-sm text-muted-foreground">Save the draft first, then submit it for review.</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="workflow-comment">Comment</Label>
+              <Textarea
+                id="workflow-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Notes for the reviewer or the author"
+                rows={3}
+                disabled={disabled || !!pendingAction}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {actions.map(action => (
+                <Button
+                  key={action}
+                  type="button"
+                  size="sm"
+                  variant={action === 'request_changes' || action === 'withdraw' || action === 'unpublish' ? 'outline' : 'default'}
+                  onClick={() => handleAction(action)}
+                  disabled={disabled || !!pendingAction}
+                >
+                  {pendingAction === action ? 'Saving...' : WORKFLOW_ACTIONS[action].label}
+                </Button>
+              ))}
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => handleAction('comment')}
+                disabled={disabled || !!pendingAction || !comment.trim()}
+              >
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Comment
+              </Button>
+            </div>
+
+            {events.length > 0 && (
+              <ol className="space-y-3 border-t pt-4">
+                {events.map(event => (
+                  <li key={event.id} className="text-sm">
+                    <p>
+                      <span className="font-medium">{EVENT_LABELS[event.action]}</span>
+                      <span className="text-muted-foreground">
+                        {' · '}{formatDate(event.created_at)}{event.actor_email ? ` · ${event.actor_email}` : ''}
+                      </span>
+                    </p>
+                    {event.comment && (
+                      <p className="mt-1 whitespace-pre-wrap rounded-md bg-muted p-2 text-muted-foreground">{event.comment}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
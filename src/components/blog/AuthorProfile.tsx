@@ -0,0 +1,99 @@
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent } from '@/components/ui/card';
+import { BLOG_AUTHOR_SOCIAL_NETWORKS, getAuthorInitials, getAuthorPath } from '@/lib/authors';
+import type { BlogAuthor, BlogAuthorSocialNetwork } from '@/types/content';
+import { Github, Globe, Linkedin, Twitter, type LucideIcon } from 'lucide-react';
+
+const SOCIAL_ICONS: Record<BlogAuthorSocialNetwork, LucideIcon> = {
+  website: Globe,
+  twitter: Twitter,
+  linkedin: Linkedin,
+  github: Github,
+};
+
+export function AuthorAvatar({ author, className }: { author: BlogAuthor; className?: string }) {
+  return (
+    <Avatar className={className}>
+      {author.avatar_url && <AvatarImage src={author.avatar_url} alt={author.name} />}
+      <AvatarFallback className="bg-agenko-green/20 text-agenko-green font-semibold">
+        {getAuthorInitials(author.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+export function AuthorSocialLinks({ author }: { author: BlogAuthor }) {
+  const networks = BLOG_AUTHOR_SOCIAL_NETWORKS.filter(network => author.social_links[network.value]);
+  if (networks.length === 0) return null;
+
+  return (
+    <div className="flex gap-2">
+      {networks.map(network => {
+        const Icon = SOCIAL_ICONS[network.value];
+        return (
+          <a
+            key={network.value}
+            href={author.social_links[network.value]}
+            target="_blank"
+            rel="noopener noreferrer me"
+            className="p-2 bg-agenko-dark hover:bg-agenko-green hover:text-agenko-dark text-agenko-gray-light rounded-lg transition-colors"
+            aria-label={`${author.name} on ${network.label}`}
+          >
+            <Icon className="w-4 h-4" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Compact "By Ada and Grace" line with overlapping avatars, for post headers */
+export function AuthorByline({ authors }: { authors: BlogAuthor[] }) {
+  if (authors.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex -space-x-2">
+        {authors.map(author => (
+          <AuthorAvatar key={author.id} author={author} className="h-8 w-8 border-2 border-agenko-dark" />
+        ))}
+      </div>
+      <span>
+        By{' '}
+        {authors.map((author, index) => (
+          <span key={author.id}>
+            {index > 0 && (index === authors.length - 1 ? ' and ' : ', ')}
+            <Link to={getAuthorPath(author)} className="text-agenko-white hover:text-agenko-green transition-colors" rel="author">
+              {author.name}
+            </Link>
+          </span>
+        ))}
+      </span>
+    </div>
+  );
+}
+
+/** Author bio card shown after a post's content */
+export function AuthorCard({ author }: { author: BlogAuthor }) {
+  return (
+    <Card className="bg-agenko-dark-lighter border-agenko-gray/20">
+      <CardContent className="p-6 flex flex-col sm:flex-row gap-6">
+        <Link to={getAuthorPath(author)} className="shrink-0">
+          <AuthorAvatar author={author} className="h-20 w-20" />
+        </Link>
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-agenko-gray-light">Written by</p>
+            <Link to={getAuthorPath(author)} className="text-xl font-semibold text-agenko-white hover:text-agenko-green transition-colors">
+              {author.name}
+            </Link>
+            {author.job_title && <p className="text-sm text-agenko-green">{author.job_title}</p>}
+          </div>
+          {author.bio && <p className="text-agenko-gray-light leading-relaxed">{author.bio}</p>}
+          <AuthorSocialLinks author={author} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { ReactNode, useMemo } from 'react';
+import { AlertTriangle, CheckCircle2, Info, Lightbulb } from 'lucide-react';
+import { InlineMarkdown } from '@/components/sections/MarkdownContent';
+import { resolveEmbed, getEmbedProviderLabel } from '@/lib/sections/embeds';
+import { parseBlogBody, type CalloutVariant, type ContentBlock, type ListItem } from '@/lib/blocks/schema';
+import { highlightCode, type CodeTokenType } from '@/lib/blocks/highlight';
+import { getHeadingId } from '@/lib/blocks/content';
+import { cn } from '@/lib/utils';
+
+interface BlockContentProps {
+  /** A stored post body, `{ blocks: [...] }` */
+  body: unknown;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string | undefined> = {
+  plain: undefined,
+  keyword: 'text-sky-400',
+  string: 'text-agenko-green',
+  comment: 'text-agenko-gray italic',
+  number: 'text-amber-400',
+};
+
+const CALLOUT_STYLES: Record<CalloutVariant, { icon: typeof Info; className: string }> = {
+  info: { icon: Info, className: 'border-sky-500/40 bg-sky-500/10' },
+  tip: { icon: Lightbulb, className: 'border-agenko-green/40 bg-agenko-green/10' },
+  warning: { icon: AlertTriangle, className: 'border-amber-500/40 bg-amber-500/10' },
+  success: { icon: CheckCircle2, className: 'border-emerald-500/40 bg-emerald-500/10' },
+};
+
+function renderListItems(items: ListItem[], ordered: boolean, nested = false): ReactNode {
+  const List = ordered ? 'ol' : 'ul';
+  return (
+    <List className={cn('space-y-3 pl-6', ordered ? 'list-decimal' : 'list-disc', nested ? 'mt-3' : 'mb-8')}>
+      {items.map((item, index) => (
+        <li key={index} className="text-agenko-gray-light">
+          <InlineMarkdown text={item.content} />
+          {item.items.length > 0 && renderListItems(item.items, ordered, true)}
+        </li>
+      ))}
+    </List>
+  );
+}
+
+function renderBlock(block: ContentBlock): ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      if (!block.data.text.trim()) return null;
+      return (
+        <p key={block.id} className="text-agenko-gray-light mb-6 leading-relaxed text-lg">
+          <InlineMarkdown text={block.data.text} />
+        </p>
+      );
+    case 'header': {
+      const Heading = `h${block.data.level}` as 'h2' | 'h3' | 'h4';
+      return (
+        <Heading
+          key={block.id}
+          id={getHeadingId(block)}
+          className={cn(
+            'font-bold text-agenko-white mb-6 mt-12',
+            block.data.level === 2 ? 'text-2xl md:text-3xl' : 'text-xl md:text-2xl'
+          )}
+        >
+          <InlineMarkdown text={block.data.text} />
+        </Heading>
+      );
+    }
+    case 'list':
+      return <div key={block.id}>{renderListItems(block.data.items, block.data.style === 'ordered')}</div>;
+    case 'quote':
+      return (
+        <blockquote key={block.id} className="border-l-4 border-agenko-green pl-6 italic text-xl text-agenko-white mb-8">
+          <p><InlineMarkdown text={block.data.text} /></p>
+          {block.data.caption && (
+            <footer className="mt-2 text-base not-italic text-agenko-gray-light">— {block.data.caption}</footer>
+          )}
+        </blockquote>
+      );
+    case 'image':
+      return (
+        <figure key={block.id} className="mb-8">
+          <img src={block.data.url} alt={block.data.alt} loading="lazy" className="w-full rounded-lg" />
+          {block.data.caption && (
+            <figcaption className="mt-3 text-center text-sm text-agenko-gray-light">{block.data.caption}</figcaption>
+          )}
+        </figure>
+      );
+    case 'code':
+      return (
+        <pre key={block.id} className="mb-8 overflow-x-auto rounded-lg bg-agenko-dark-lighter p-4 font-mono text-sm text-agenko-white">
+          <code data-language={block.data.language}>
+            {highlightCode(block.data.code, block.data.language).map((token, index) => (
+              <span key={index} className={TOKEN_CLASSES[token.type]}>{token.value}</span>
+            ))}
+          </code>
+        </pre>
+      );
+    case 'table': {
+      const [head, ...rows] = block.data.withHeadings ? block.data.content : [null, ...block.data.content];
+      return (
+        <div key={block.id} className="mb-8 overflow-x-auto">
+          <table className="w-full border-collapse text-left text-agenko-gray-light">
+            {head && (
+              <thead>
+                <tr>
+                  {head.map((cell, index) => (
+                    <th key={index} scope="col" className="border-b border-agenko-gray/40 px-4 py-2 font-semibold text-agenko-white">
+                      <InlineMarkdown text={cell} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+            )}
+            <tbody>
+              {rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} className="border-b border-agenko-dark-lighter px-4 py-2"><InlineMarkdown text={cell} /></td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    }
+    case 'embed': {
+      const embed = resolveEmbed(block.data.url);
+      if (!embed) return null;
+      return (
+        <figure key={block.id} className="mb-8">
+          <div className="overflow-hidden rounded-lg bg-agenko-dark-lighter" style={{ aspectRatio: '16 / 9' }}>
+            <iframe
+              src={embed.src}
+              title={block.data.caption || `${getEmbedProviderLabel(embed.provider)} embed`}
+              className="h-full w-full"
+              loading="lazy"
+              referrerPolicy="strict-origin-when-cross-origin"
+              sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"
+              allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+              allowFullScreen
+            />
+          </div>
+          {block.data.caption && (
+            <figcaption className="mt-3 text-center text-sm text-agenko-gray-light">{block.data.caption}</figcaption>
+          )}
+        </figure>
+      );
+    }
+    case 'callout': {
+      const { icon: Icon, className } = CALLOUT_STYLES[block.data.variant];
+      return (
+        <aside key={block.id} className={cn('mb-8 flex gap-3 rounded-lg border p-4', className)}>
+          <Icon className="mt-1 h-5 w-5 shrink-0 text-agenko-white" aria-hidden="true" />
+          <div className="text-agenko-gray-light">
+            {block.data.title && <p className="mb-1 font-semibold text-agenko-white">{block.data.title}</p>}
+            <p><InlineMarkdown text={block.data.text} /></p>
+          </div>
+        </aside>
+      );
+    }
+    case 'delimiter':
+      return <hr key={block.id} className="my-12 border-agenko-dark-lighter" />;
+  }
+}
+
+// Renders a blog post body; shared by the public post page and the editor preview
+export function BlockContent({ body, className }: BlockContentProps) {
+  const blocks = useMemo(() => parseBlogBody(body), [body]);
+
+  return <div className={className}>{blocks.map(renderBlock)}</div>;
+}
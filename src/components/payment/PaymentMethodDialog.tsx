@@ -7,6 +7,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { CreditCard, Building2, Loader2 } from 'lucide-react';
 import { PricingTier } from '@/types/payment';
 import { getPaymentProvider } from '@/lib/payment-providers';
+import { formatPrice } from '@/lib/pricing';
 import { toast } from 'sonner';
 
 interface PaymentMethodDialogProps {
@@ -24,13 +25,6 @@ export function PaymentMethodDialog({ open, onOpenChange, tier }: PaymentMethodD
   });
   const [loading, setLoading] = useState(false);
 
-  const formatPrice = (price: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency.toUpperCase(),
-    }).format(price / 100);
-  };
-
   const handlePayment = async () => {
     if (!selectedMethod) return;
 
@@ -1,64 +1,28 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Check } from 'lucide-react';
 import { PricingTier } from '@/types/payment';
+import { formatTierPrice, getBillingPeriodSuffix, isCheckoutTier } from '@/lib/pricing';
+import { cn } from '@/lib/utils';
 import { PaymentMethodDialog } from './PaymentMethodDialog';
 
-const defaultTiers: PricingTier[] = [
-  {
-    id: 'basic',
-    name: 'Basic',
-    price: 2999, // $29.99
-    currency: 'usd',
-    description: 'Perfect for getting started',
-    features: [
-      'Up to 5 projects',
-      'Basic support',
-      'Standard templates',
-      '5GB storage'
-    ]
-  },
-  {
-    id: 'premium',
-    name: 'Premium',
-    price: 4999, // $49.99
-    currency: 'usd',
-    description: 'Most popular choice',
-    features: [
-      'Unlimited projects',
-      'Priority support',
-      'Premium templates',
-      '50GB storage',
-      'Advanced analytics',
-      'Custom domain'
-    ],
-    popular: true
-  },
-  {
-    id: 'enterprise',
-    name: 'Enterprise',
-    price: 9999, // $99.99
-    currency: 'usd',
-    description: 'For large organizations',
-    features: [
-      'Everything in Premium',
-      'Dedicated support',
-      'Custom integrations',
-      '500GB storage',
-      'White-label solution',
-      'API access'
-    ]
-  }
-];
-
 interface PricingTiersProps {
-  tiers?: PricingTier[];
+  tiers: PricingTier[];
+  /** When false, every tier links to the quote form instead of opening checkout */
+  enableCheckout?: boolean;
   onSelectTier?: (tier: PricingTier) => void;
 }
 
-export function PricingTiers({ tiers = defaultTiers, onSelectTier }: PricingTiersProps) {
+const gridColumns: Record<number, string> = {
+  1: 'max-w-md',
+  2: 'md:grid-cols-2 max-w-4xl',
+  3: 'md:grid-cols-3 max-w-6xl',
+};
+
+export function PricingTiers({ tiers, enableCheckout = true, onSelectTier }: PricingTiersProps) {
   const [selectedTier, setSelectedTier] = useState<PricingTier | null>(null);
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
 
@@ -68,57 +32,67 @@ export function PricingTiers({ tiers = defaultTiers, onSelectTier }: PricingTier
     onSelectTier?.(tier);
   };
 
-  const formatPrice = (price: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency.toUpperCase(),
-    }).format(price / 100);
-  };
-
   return (
     <>
-      <div className="grid md:grid-cols-3 gap-6 max-w-6xl mx-auto">
-        {tiers.map((tier) => (
-          <Card key={tier.id} className={`relative ${tier.popular ? 'border-primary shadow-lg' : ''}`}>
-            {tier.popular && (
-              <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-primary text-primary-foreground">
-                Most Popular
-              </Badge>
-            )}
-            
-            <CardHeader className="text-center">
-              <CardTitle className="text-2xl">{tier.name}</CardTitle>
-              <CardDescription>{tier.description}</CardDescription>
-              <div className="mt-4">
-                <span className="text-4xl font-bold">
-                  {formatPrice(tier.price, tier.currency)}
-                </span>
-                <span className="text-muted-foreground">/month</span>
-              </div>
-            </CardHeader>
-            
-            <CardContent>
-              <ul className="space-y-3">
-                {tier.features.map((feature, index) => (
-                  <li key={index} className="flex items-center gap-2">
-                    <Check className="h-4 w-4 text-primary" />
-                    <span className="text-sm">{feature}</span>
-                  </li>
-                ))}
-              </ul>
-            </CardContent>
-            
-            <CardFooter>
-              <Button 
-                className="w-full" 
-                variant={tier.popular ? 'default' : 'outline'}
-                onClick={() => handleSelectTier(tier)}
-              >
-                Choose {tier.name}
-              </Button>
-            </CardFooter>
-          </Card>
-        ))}
+      <div className={cn('grid gap-6 mx-auto', gridColumns[tiers.length] || 'md:grid-cols-2 lg:grid-cols-4 max-w-7xl')}>
+        {tiers.map((tier) => {
+          const suffix = tier.billing_period !== 'custom' ? getBillingPeriodSuffix(tier.billing_period) : undefined;
+          const ctaLabel = tier.cta_label || `Choose ${tier.name}`;
+
+          return (
+            <Card key={tier.id} className={`relative ${tier.popular ? 'border-primary shadow-lg' : ''}`}>
+              {tier.popular && (
+                <Badge className="absolute -top-2 left-1/2 transform -translate-x-1/2 bg-primary text-primary-foreground">
+                  Most Popular
+                </Badge>
+              )}
+
+              <CardHeader className="text-center">
+                <CardTitle className="text-2xl">{tier.name}</CardTitle>
+                <CardDescription>{tier.description}</CardDescription>
+                <div className="mt-4">
+                  <span className="text-4xl font-bold">
+                    {formatTierPrice(tier)}
+                  </span>
+                  {suffix && <span className="text-muted-foreground">/{suffix}</span>}
+                </div>
+              </CardHeader>
+
+              <CardContent>
+                <ul className="space-y-3">
+                  {tier.features.map((feature, index) => (
+                    <li key={index} className="flex items-center gap-2">
+                      <Check className="h-4 w-4 text-primary" />
+                      <span className="text-sm">{feature}</span>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+
+              <CardFooter>
+                {enableCheckout && isCheckoutTier(tier) ? (
+                  <Button
+                    className="w-full"
+                    variant={tier.popular ? 'default' : 'outline'}
+                    onClick={() => handleSelectTier(tier)}
+                  >
+                    {ctaLabel}
+                  </Button>
+                ) : (
+                  <Button
+                    className="w-full"
+                    variant={tier.popular ? 'default' : 'outline'}
+                    asChild
+                  >
+                    <Link to={`/get-quote?service=${encodeURIComponent(tier.name.toLowerCase())}`}>
+                      {ctaLabel}
+                    </Link>
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          );
+        })}
       </div>
 
       {selectedTier && (
@@ -130,4 +104,4 @@ export function PricingTiers({ tiers = defaultTiers, onSelectTier }: PricingTier
       )}
     </>
   );
-}
\ No newline at end of file
+}
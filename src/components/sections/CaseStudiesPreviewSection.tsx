@@ -0,0 +1,95 @@
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowRight } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { CaseStudiesPreviewSection } from '@/lib/sections/schema';
+
+interface CaseStudiesPreviewSectionProps {
+  section: CaseStudiesPreviewSection;
+}
+
+export function CaseStudiesPreviewSectionComponent({ section }: CaseStudiesPreviewSectionProps) {
+  const { data } = section;
+
+  const { data: caseStudies = [], isLoading } = useQuery({
+    queryKey: ['published-case-studies', data.limit, data.industry, data.selectedIds],
+    queryFn: () => cms.getPublishedCaseStudies({ limit: data.limit, industry: data.industry, ids: data.selectedIds }),
+  });
+
+  return (
+    <section className="py-20 px-4 bg-muted/50">
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {data.title}
+          </h2>
+          {data.description && (
+            <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+              {data.description}
+            </p>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-8">
+          {isLoading
+            ? Array.from({ length: data.limit }).map((_, index) => (
+                <Card key={index} className="animate-pulse">
+                  <div className="aspect-video bg-muted" />
+                  <CardHeader>
+                    <div className="h-6 bg-muted rounded w-3/4"></div>
+                  </CardHeader>
+                </Card>
+              ))
+            : caseStudies.map((study) => (
+                <Card key={study.id} className="group overflow-hidden hover:shadow-lg transition-all duration-300 hover:-translate-y-1">
+                  {study.hero_image && (
+                    <div className="aspect-video overflow-hidden">
+                      <img
+                        src={study.hero_image}
+                        alt={study.title}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        loading="lazy"
+                      />
+                    </div>
+                  )}
+                  <CardHeader>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {study.industry && <Badge variant="secondary">{study.industry}</Badge>}
+                      {study.client && <Badge variant="outline">{study.client}</Badge>}
+                    </div>
+                    <CardTitle className="text-xl group-hover:text-primary transition-colors">
+                      {study.title}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {study.summary && (
+                      <p className="text-muted-foreground line-clamp-3">{study.summary}</p>
+                    )}
+                    <Button variant="outline" asChild>
+                      <Link to={`/case-studies/${study.slug}`}>
+                        Read Case Study
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+        </div>
+
+        {data.showAll && caseStudies.length >= data.limit && (
+          <div className="text-center mt-12">
+            <Button asChild size="lg">
+              <Link to="/case-studies">
+                View All Case Studies
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
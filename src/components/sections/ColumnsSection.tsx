@@ -0,0 +1,53 @@
+import { ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import type { ColumnsSection, ColumnChildSection } from '@/lib/sections/schema';
+
+interface ColumnsSectionProps {
+  section: ColumnsSection;
+  // Supplied by SectionRenderer so child sections render exactly like top-level ones
+  renderSections: (sections: ColumnChildSection[]) => ReactNode;
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-2 lg:grid-cols-3',
+  4: 'md:grid-cols-2 lg:grid-cols-4',
+};
+
+const GAPS: Record<ColumnsSection['data']['gap'], string> = {
+  sm: 'gap-4',
+  md: 'gap-8',
+  lg: 'gap-12',
+};
+
+export function ColumnsSectionComponent({ section, renderSections }: ColumnsSectionProps) {
+  const { data } = section;
+
+  return (
+    <section className="py-20 px-4">
+      <div className="max-w-7xl mx-auto">
+        {data.title && (
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-12 text-center">
+            {data.title}
+          </h2>
+        )}
+        <div
+          className={cn(
+            'grid grid-cols-1',
+            GRID_COLUMNS[data.columns.length],
+            GAPS[data.gap],
+            data.verticalAlign === 'center' ? 'items-center' : 'items-start',
+            // Child sections bring their own page padding, which is too much inside a column
+            '[&_section]:py-0 [&_section]:px-0'
+          )}
+        >
+          {data.columns.map(column => (
+            <div key={column.id} className="min-w-0 space-y-8">
+              {renderSections(column.sections)}
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
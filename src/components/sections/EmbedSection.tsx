@@ -0,0 +1,48 @@
+import { resolveEmbed, getEmbedProviderLabel } from '@/lib/sections/embeds';
+import type { EmbedSection } from '@/lib/sections/schema';
+
+interface EmbedSectionProps {
+  section: EmbedSection;
+}
+
+const ASPECT_RATIOS: Record<EmbedSection['data']['aspectRatio'], string> = {
+  '16:9': '16 / 9',
+  '4:3': '4 / 3',
+  '1:1': '1 / 1',
+  '9:16': '9 / 16',
+};
+
+export function EmbedSectionComponent({ section }: EmbedSectionProps) {
+  const { data } = section;
+  const embed = data.url ? resolveEmbed(data.url, data.privacyMode) : null;
+
+  // Unconfigured embeds and URLs outside the provider allowlist render nothing
+  if (!embed) return null;
+
+  return (
+    <section className="py-20 px-4">
+      <figure className={data.aspectRatio === '9:16' ? 'max-w-sm mx-auto' : 'max-w-5xl mx-auto'}>
+        {data.title && (
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-8 text-center">
+            {data.title}
+          </h2>
+        )}
+        <div className="overflow-hidden rounded-xl border bg-muted" style={{ aspectRatio: ASPECT_RATIOS[data.aspectRatio] }}>
+          <iframe
+            src={embed.src}
+            title={data.title || data.caption || `${getEmbedProviderLabel(embed.provider)} embed`}
+            className="h-full w-full"
+            loading="lazy"
+            referrerPolicy="strict-origin-when-cross-origin"
+            sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"
+            allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+        {data.caption && (
+          <figcaption className="mt-3 text-center text-sm text-muted-foreground">{data.caption}</figcaption>
+        )}
+      </figure>
+    </section>
+  );
+}
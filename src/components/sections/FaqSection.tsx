@@ -0,0 +1,68 @@
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
+import { ArrowRight } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { FaqSection } from '@/lib/sections/schema';
+
+interface FaqSectionProps {
+  section: FaqSection;
+}
+
+export function FaqSectionComponent({ section }: FaqSectionProps) {
+  const { data } = section;
+
+  const { data: faqs = [], isLoading } = useQuery({
+    queryKey: ['published-faqs', data.limit, data.selectedIds],
+    queryFn: () => cms.getPublishedFAQs({ limit: data.limit, ids: data.selectedIds }),
+  });
+
+  return (
+    <section className="py-20 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {data.title}
+          </h2>
+          {data.description && (
+            <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+              {data.description}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: Math.min(data.limit, 6) }).map((_, index) => (
+              <Skeleton key={index} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : (
+          <Accordion type="single" collapsible className="w-full">
+            {faqs.map((faq) => (
+              <AccordionItem key={faq.id} value={faq.id}>
+                <AccordionTrigger className="text-left">{faq.question}</AccordionTrigger>
+                <AccordionContent className="text-muted-foreground leading-relaxed whitespace-pre-line">
+                  {faq.answer}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+
+        {data.showAll && faqs.length >= data.limit && (
+          <div className="text-center mt-12">
+            <Button asChild size="lg">
+              <Link to="/faq">
+                View All FAQs
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,110 @@
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, MapPin, Users } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { JobsPreviewSection } from '@/lib/sections/schema';
+
+interface JobsPreviewSectionProps {
+  section: JobsPreviewSection;
+}
+
+const workModeLabels: Record<string, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site'
+};
+
+const typeLabels: Record<string, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  'contract': 'Contract',
+  'intern': 'Internship'
+};
+
+export function JobsPreviewSectionComponent({ section }: JobsPreviewSectionProps) {
+  const { data } = section;
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: ['open-jobs', data.limit, data.team, data.selectedIds],
+    queryFn: () => cms.getOpenJobs({ limit: data.limit, team: data.team, ids: data.selectedIds }),
+  });
+
+  return (
+    <section className="py-20 px-4 bg-muted/50">
+      <div className="max-w-5xl mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {data.title}
+          </h2>
+          {data.description && (
+            <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+              {data.description}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {isLoading
+            ? Array.from({ length: data.limit }).map((_, index) => (
+                <Card key={index} className="animate-pulse">
+                  <CardContent className="p-6">
+                    <div className="h-6 bg-muted rounded w-1/2 mb-3"></div>
+                    <div className="h-4 bg-muted rounded w-1/3"></div>
+                  </CardContent>
+                </Card>
+              ))
+            : jobs.map((job) => (
+                <Card key={job.id} className="group hover:shadow-lg transition-all duration-300">
+                  <CardContent className="p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="space-y-2">
+                      <h3 className="text-xl font-semibold group-hover:text-primary transition-colors">
+                        {job.title}
+                      </h3>
+                      <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                        {job.team && (
+                          <span className="flex items-center gap-1">
+                            <Users className="h-4 w-4" />
+                            {job.team}
+                          </span>
+                        )}
+                        {job.location && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-4 w-4" />
+                            {job.location}
+                          </span>
+                        )}
+                        {job.work_mode && <Badge variant="secondary">{workModeLabels[job.work_mode] || job.work_mode}</Badge>}
+                        {job.type && <Badge variant="outline">{typeLabels[job.type] || job.type}</Badge>}
+                      </div>
+                    </div>
+                    <Button variant="outline" asChild>
+                      <Link to={`/careers/${job.slug}`}>
+                        View Role
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+          {!isLoading && jobs.length === 0 && (
+            <p className="text-center text-muted-foreground">There are no open positions right now.</p>
+          )}
+        </div>
+
+        {data.showAll && jobs.length > 0 && (
+          <div className="text-center mt-12">
+            <Button asChild size="lg">
+              <Link to="/careers">
+                View All Positions
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
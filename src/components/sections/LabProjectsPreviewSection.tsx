@@ -0,0 +1,110 @@
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, ExternalLink } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import type { LabProjectsPreviewSection } from '@/lib/sections/schema';
+
+interface LabProjectsPreviewSectionProps {
+  section: LabProjectsPreviewSection;
+}
+
+export function LabProjectsPreviewSectionComponent({ section }: LabProjectsPreviewSectionProps) {
+  const { data } = section;
+
+  const { data: projects = [], isLoading } = useQuery({
+    queryKey: ['published-lab-projects', data.limit, data.tag, data.selectedIds],
+    queryFn: () => cms.getPublishedLabProjects({ limit: data.limit, tag: data.tag, ids: data.selectedIds }),
+  });
+
+  return (
+    <section className="py-20 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {data.title}
+          </h2>
+          {data.description && (
+            <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+              {data.description}
+            </p>
+          )}
+        </div>
+
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {isLoading
+            ? Array.from({ length: data.limit }).map((_, index) => (
+                <Card key={index} className="animate-pulse">
+                  <CardHeader>
+                    <div className="h-6 bg-muted rounded w-3/4"></div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-4 bg-muted rounded"></div>
+                  </CardContent>
+                </Card>
+              ))
+            : projects.map((project) => (
+                <Card key={project.id} className="group overflow-hidden hover:shadow-lg transition-all duration-300 hover:-translate-y-1">
+                  {project.hero_image && (
+                    <div className="aspect-video overflow-hidden">
+                      <img
+                        src={project.hero_image}
+                        alt={project.title}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                        loading="lazy"
+                      />
+                    </div>
+                  )}
+                  <CardHeader>
+                    <CardTitle className="text-xl group-hover:text-primary transition-colors">
+                      {project.title}
+                    </CardTitle>
+                    {project.tags && project.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {project.tags.slice(0, 3).map(tag => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {project.summary && (
+                      <p className="text-muted-foreground line-clamp-3">{project.summary}</p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button variant="outline" asChild>
+                        <Link to={`/innovation-lab/${project.slug}`}>
+                          Explore
+                          <ArrowRight className="ml-2 h-4 w-4" />
+                        </Link>
+                      </Button>
+                      {project.demo_url && (
+                        <Button variant="ghost" asChild>
+                          <a href={project.demo_url} target="_blank" rel="noopener noreferrer">
+                            Demo
+                            <ExternalLink className="ml-2 h-4 w-4" />
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+        </div>
+
+        {data.showAll && projects.length >= data.limit && (
+          <div className="text-center mt-12">
+            <Button asChild size="lg">
+              <Link to="/innovation-lab">
+                Visit the Innovation Lab
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,85 @@
+import { Fragment, ReactNode, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { parseInline, parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/lib/sections/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.value}</Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold text-foreground">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1.5 py-0.5 font-mono text-sm">{node.value}</code>;
+      case 'break':
+        return <br key={index} />;
+      case 'link':
+        return node.href.startsWith('/') ? (
+          <Link key={index} to={node.href} className="text-primary underline underline-offset-4 hover:no-underline">
+            {renderInline(node.children)}
+          </Link>
+        ) : (
+          <a
+            key={index}
+            href={node.href}
+            className="text-primary underline underline-offset-4 hover:no-underline"
+            {...(/^https?:/.test(node.href) && { target: '_blank', rel: 'noopener noreferrer nofollow' })}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlock(block: MarkdownBlock, index: number): ReactNode {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as 'h2' | 'h3' | 'h4';
+      const size = { 2: 'text-2xl md:text-3xl', 3: 'text-xl md:text-2xl', 4: 'text-lg' }[block.level];
+      return <Heading key={index} className={cn('font-bold text-foreground mt-8 first:mt-0', size)}>{renderInline(block.children)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={cn('space-y-1 pl-6', block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'blockquote':
+      return <blockquote key={index} className="border-l-4 border-primary pl-4 italic">{renderInline(block.children)}</blockquote>;
+    case 'code':
+      return <pre key={index} className="overflow-x-auto rounded-lg bg-muted p-4 font-mono text-sm"><code>{block.value}</code></pre>;
+    case 'hr':
+      return <hr key={index} className="border-border" />;
+  }
+}
+
+// A single line of inline markdown (bold, italic, code, links), e.g. blog block text
+export function InlineMarkdown({ text }: { text: string }) {
+  const nodes = useMemo(() => parseInline(text), [text]);
+
+  return <>{renderInline(nodes)}</>;
+}
+
+// Renders markdown as React elements; raw HTML in the source is shown as text
+export function MarkdownContent({ content, className }: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content || ''), [content]);
+
+  return (
+    <div className={cn('space-y-4 text-muted-foreground leading-relaxed', className)}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+}
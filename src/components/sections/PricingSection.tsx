@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { selectPricingTiers } from '@/lib/pricing';
+import { PricingTiers } from '@/components/payment/PricingTiers';
+import type { PricingSection } from '@/lib/sections/schema';
+
+interface PricingSectionProps {
+  section: PricingSection;
+}
+
+export function PricingSectionComponent({ section }: PricingSectionProps) {
+  const { data } = section;
+
+  const { data: tiers = [], isLoading } = useQuery({
+    queryKey: ['published-pricing-tiers'],
+    queryFn: () => cms.getPublishedPricingTiers(),
+  });
+
+  const selectedTiers = selectPricingTiers(tiers, data.tierIds);
+
+  return (
+    <section className="py-20 px-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
+            {data.title}
+          </h2>
+          {data.description && (
+            <p className="text-lg text-muted-foreground max-w-3xl mx-auto">
+              {data.description}
+            </p>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="grid md:grid-cols-3 gap-6 max-w-6xl mx-auto">
+            {Array.from({ length: Math.min(data.tierIds.length || 3, 4) }).map((_, index) => (
+              <div key={index} className="h-96 rounded-lg border bg-muted animate-pulse" />
+            ))}
+          </div>
+        ) : selectedTiers.length > 0 ? (
+          <PricingTiers tiers={selectedTiers} enableCheckout={data.enableCheckout} />
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,24 @@
+import { cn } from '@/lib/utils';
+import { MarkdownContent } from './MarkdownContent';
+import type { RichTextSection } from '@/lib/sections/schema';
+
+interface RichTextSectionProps {
+  section: RichTextSection;
+}
+
+export function RichTextSectionComponent({ section }: RichTextSectionProps) {
+  const { data } = section;
+
+  return (
+    <section className="py-20 px-4">
+      <div className={cn('mx-auto', data.width === 'wide' ? 'max-w-6xl' : 'max-w-3xl', data.align === 'center' && 'text-center')}>
+        {data.title && (
+          <h2 className="text-3xl md:text-4xl font-bold text-foreground mb-8">
+            {data.title}
+          </h2>
+        )}
+        <MarkdownContent content={data.content} className="text-lg" />
+      </div>
+    </section>
+  );
+}
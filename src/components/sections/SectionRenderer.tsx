@@ -6,6 +6,18 @@ import { PortfolioPreviewSectionComponent } from './PortfolioPreviewSection';
 import { TestimonialsSectionComponent } from './TestimonialsSection';
 import { BlogPreviewSectionComponent } from './BlogPreviewSection';
 import { CtaSectionComponent } from './CtaSection';
+import { PricingSectionComponent } from './PricingSection';
+import { FaqSectionComponent } from './FaqSection';
+import { CaseStudiesPreviewSectionComponent } from './CaseStudiesPreviewSection';
+import { LabProjectsPreviewSectionComponent } from './LabProjectsPreviewSection';
+import { JobsPreviewSectionComponent } from './JobsPreviewSection';
+import { RichTextSectionComponent } from './RichTextSection';
+import { EmbedSectionComponent } from './EmbedSection';
+import { ColumnsSectionComponent } from './ColumnsSection';
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { useSectionVisibility } from '@/hooks/useSectionVisibility';
+import { isSectionVisible, VisibilitySimulation } from '@/lib/sections/visibility';
 import type { Section } from '@/lib/sections/schema';
 
 type SectionContext = 'home' | 'list' | 'detail';
@@ -13,9 +25,25 @@ type SectionContext = 'home' | 'list' | 'detail';
 interface SectionRendererProps {
   sections: Section[];
   context?: SectionContext;
+  // Admin preview "simulate as" overrides for visibility rules
+  simulation?: VisibilitySimulation;
 }
 
-export function SectionRenderer({ sections, context = 'home' }: SectionRendererProps) {
+export function SectionRenderer({ sections, context = 'home', simulation }: SectionRendererProps) {
+  const visibilityContext = useSectionVisibility(simulation);
+  const isVisible = (section: Section) => visibilityContext.ignoreRules || isSectionVisible(section, visibilityContext);
+
+  // Global section references are resolved in one request per distinct set of ids
+  const globalSectionIds = [...new Set(
+    (sections || []).flatMap(section => section.type === 'globalSection' ? [section.data.globalSectionId] : [])
+  )].sort();
+
+  const { data: globalSections = {} } = useQuery({
+    queryKey: ['global-sections', globalSectionIds],
+    queryFn: () => cms.getGlobalSections(globalSectionIds),
+    enabled: globalSectionIds.length > 0,
+  });
+
   // Only log in development
   if (process.env.NODE_ENV === 'development') {
     console.log('🎨 [SectionRenderer] Rendering sections:', {
@@ -32,9 +60,18 @@ export function SectionRenderer({ sections, context = 'home' }: SectionRendererP
     return null;
   }
 
+  // Swap references for the shared content; unresolved or deleted references render nothing.
+  // The page's own section id is kept so the same global section can appear twice.
+  // Rules on a reference and on the shared section both have to pass.
+  const resolvedSections = sections.filter(isVisible).flatMap((section): Section[] => {
+    if (section.type !== 'globalSection') return [section];
+    const shared = globalSections[section.data.globalSectionId];
+    return shared && isVisible(shared) ? [{ ...shared, id: section.id }] : [];
+  });
+
   return (
     <div className="section-renderer">
-      {sections.map((section, index) => {
+      {resolvedSections.map((section, index) => {
         // Reduced logging frequency
         if (process.env.NODE_ENV === 'development' && index === 0) {
           console.log(`🔧 [SectionRenderer] Rendering ${sections.length} sections starting with:`, {
@@ -71,6 +108,28 @@ export function SectionRenderer({ sections, context = 'home' }: SectionRendererP
               return <BlogPreviewSectionComponent key={sectionToRender.id} section={sectionToRender} />;
             case 'cta':
               return <CtaSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'pricing':
+              return <PricingSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'faq':
+              return <FaqSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'caseStudiesPreview':
+              return <CaseStudiesPreviewSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'labProjectsPreview':
+              return <LabProjectsPreviewSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'jobsPreview':
+              return <JobsPreviewSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'richText':
+              return <RichTextSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'embed':
+              return <EmbedSectionComponent key={sectionToRender.id} section={sectionToRender} />;
+            case 'columns':
+              return (
+                <ColumnsSectionComponent
+                  key={sectionToRender.id}
+                  section={sectionToRender}
+                  renderSections={(children) => <SectionRenderer sections={children} context={context} simulation={simulation} />}
+                />
+              );
             default:
               console.warn(`❌ [SectionRenderer] Unknown section type: ${(sectionToRender as any).type}`);
               return (
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import {
+  AUTOSAVE_LOCAL_DELAY_MS,
+  AUTOSAVE_SERVER_INTERVAL_MS,
+  getAutosaveStorageKey,
+  getDraftFingerprint,
+  isAuthError,
+  pickNewestDraft,
+  readLocalDraft,
+  removeLocalDraft,
+  writeLocalDraft,
+} from '@/lib/autosave';
+import { useSessionRecovery } from '@/hooks/useSessionRecovery';
+import type { AutosaveEntityType, EditorDraft } from '@/types/content';
+
+export type AutosaveStatus = 'idle' | 'saved_locally' | 'saved' | 'offline';
+
+interface AutosaveOptions<T> {
+  entityType: AutosaveEntityType;
+  /** The content id, or 'new' while creating */
+  entityKey: string;
+  value: T;
+  /** False until `value` holds the loaded content; the first ready value counts as saved */
+  ready: boolean;
+  /** updated_at of the loaded content, kept with drafts to tell when they are outdated */
+  baseUpdatedAt?: string | null;
+}
+
+export interface AutosaveState<T> {
+  status: AutosaveStatus;
+  lastSavedAt: string | null;
+  /** Unsaved changes from an earlier session; autosave waits until they are restored or discarded */
+  recoverable: EditorDraft<T> | null;
+  restore: () => T | null;
+  discard: () => void;
+  /** Call after saving the content, with the state that was saved */
+  markSaved: (value: T) => void;
+}
+
+/**
+ * Autosaves unsaved editor state: to localStorage shortly after each change, and to the
+ * user's server-side draft every half minute. When the session has expired the server copy
+ * waits for the session to be recovered, and the local copy is offered back after signing in.
+ */
+export function useAutosave<T>({ entityType, entityKey, value, ready, baseUpdatedAt }: AutosaveOptions<T>): AutosaveState<T> {
+  const { user, session } = useAuth();
+  const { attemptRecovery } = useSessionRecovery({ enableAutoRecovery: false });
+  const [status, setStatus] = useState<AutosaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [recoverable, setRecoverable] = useState<EditorDraft<T> | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  const userId = user?.id;
+  const storageKey = userId ? getAutosaveStorageKey(userId, entityType, entityKey) : null;
+  const valueRef = useRef(value);
+  const baseUpdatedAtRef = useRef(baseUpdatedAt ?? null);
+  const baselineRef = useRef<string | null>(null);
+  const serverFingerprintRef = useRef<string | null>(null);
+  const dirtyRef = useRef(false);
+  // Access token of the session the server copy last failed with
+  const offlineTokenRef = useRef<string | null>(null);
+  const attemptRecoveryRef = useRef(attemptRecovery);
+  const accessToken = session?.access_token ?? null;
+  const accessTokenRef = useRef(accessToken);
+  valueRef.current = value;
+  baseUpdatedAtRef.current = baseUpdatedAt ?? null;
+  attemptRecoveryRef.current = attemptRecovery;
+  accessTokenRef.current = accessToken;
+
+  const buildDraft = useCallback((): EditorDraft<T> => ({
+    entity_type: entityType,
+    entity_key: entityKey,
+    data: valueRef.current,
+    base_updated_at: baseUpdatedAtRef.current,
+    saved_at: new Date().toISOString(),
+  }), [entityType, entityKey]);
+
+  const saveLocal = useCallback(() => {
+    if (!storageKey || !dirtyRef.current) return;
+    const draft = buildDraft();
+    if (writeLocalDraft(storageKey, draft)) {
+      setLastSavedAt(draft.saved_at);
+      setStatus(current => (current === 'offline' ? current : 'saved_locally'));
+    }
+  }, [storageKey, buildDraft]);
+
+  const saveServer = useCallback(async () => {
+    const fingerprint = getDraftFingerprint(valueRef.current);
+    if (!dirtyRef.current || fingerprint === serverFingerprintRef.current) return;
+    const draft = buildDraft();
+    try {
+      await adminCms.saveEditorDraft(draft);
+      serverFingerprintRef.current = fingerprint;
+      offlineTokenRef.current = null;
+      setLastSavedAt(draft.saved_at);
+      setStatus('saved');
+    } catch (error) {
+      if (isAuthError(error)) {
+        // The local copy keeps the changes until the session is back
+        offlineTokenRef.current = accessTokenRef.current ?? '';
+        setStatus('offline');
+        attemptRecoveryRef.current();
+      } else {
+        console.error('Error autosaving draft:', error);
+      }
+    }
+  }, [buildDraft]);
+
+  const clearDrafts = useCallback(() => {
+    if (storageKey) removeLocalDraft(storageKey);
+    serverFingerprintRef.current = null;
+    dirtyRef.current = false;
+    setStatus('idle');
+    adminCms.deleteEditorDraft(entityType, entityKey)
+      .catch(error => console.error('Error removing autosaved draft:', error));
+  }, [storageKey, entityType, entityKey]);
+
+  // Start over when the editor moves to other content (e.g. from 'new' to the created id)
+  useEffect(() => {
+    baselineRef.current = null;
+    serverFingerprintRef.current = null;
+    dirtyRef.current = false;
+    setRecoverable(null);
+    setChecked(false);
+    setStatus('idle');
+  }, [storageKey]);
+
+  // Once the content has loaded, look for unsaved changes from an earlier session
+  useEffect(() => {
+    if (!ready || !storageKey || checked) return;
+    const baseline = getDraftFingerprint(valueRef.current);
+    baselineRef.current = baseline;
+    let cancelled = false;
+
+    adminCms.getEditorDraft<T>(entityType, entityKey)
+      .catch((error) => {
+        console.error('Error fetching autosaved draft:', error);
+        return null;
+      })
+      .then((serverDraft) => {
+        if (cancelled) return;
+        const draft = pickNewestDraft(readLocalDraft<T>(storageKey), serverDraft);
+        if (draft && getDraftFingerprint(draft.data) !== baseline) {
+          setRecoverable(draft);
+        } else if (draft) {
+          clearDrafts();
+        }
+        setChecked(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ready, storageKey, checked, entityType, entityKey, clearDrafts]);
+
+  // Local copy shortly after every change
+  useEffect(() => {
+    if (!checked || recoverable || baselineRef.current === null) return;
+    const dirty = getDraftFingerprint(value) !== baselineRef.current;
+    if (!dirty) {
+      if (dirtyRef.current) clearDrafts();
+      return;
+    }
+
+    dirtyRef.current = true;
+    const timeout = window.setTimeout(saveLocal, AUTOSAVE_LOCAL_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [value, checked, recoverable, saveLocal, clearDrafts]);
+
+  // Server copy every half minute, and whenever the tab is hidden or closed
+  useEffect(() => {
+    if (!checked || recoverable) return;
+
+    const flush = () => {
+      saveLocal();
+      saveServer();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+
+    const interval = window.setInterval(saveServer, AUTOSAVE_SERVER_INTERVAL_MS);
+    window.addEventListener('pagehide', saveLocal);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      window.removeEventListener('pagehide', saveLocal);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      // Leaving the editor, including the redirect to the login page when the session expires
+      saveLocal();
+    };
+  }, [checked, recoverable, saveLocal, saveServer]);
+
+  // Catch up with the server copy once the session has been recovered
+  useEffect(() => {
+    const offlineToken = offlineTokenRef.current;
+    if (accessToken && offlineToken !== null && offlineToken !== accessToken) saveServer();
+  }, [accessToken, saveServer]);
+
+  const restore = useCallback(() => {
+    const data = recoverable?.data ?? null;
+    setRecoverable(null);
+    return data;
+  }, [recoverable]);
+
+  const discard = useCallback(() => {
+    setRecoverable(null);
+    clearDrafts();
+  }, [clearDrafts]);
+
+  const markSaved = useCallback((saved: T) => {
+    baselineRef.current = getDraftFingerprint(saved);
+    clearDrafts();
+  }, [clearDrafts]);
+
+  return { status, lastSavedAt, recoverable, restore, discard, markSaved };
+}
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import {
+  LOCK_RENEW_INTERVAL_MS,
+  getEditorDisplayName,
+  getPresenceChannelName,
+  isLockHeldByOther,
+} from '@/lib/edit-locks';
+import { adminToast } from '@/lib/toast-utils';
+import type { ContentLock, EditableEntityType, EditorPresence } from '@/types/content';
+
+export interface EditLockState {
+  lock: ContentLock | null;
+  /** Everyone else with this content open */
+  others: EditorPresence[];
+  lockedByOther: boolean;
+  takeOver: () => Promise<void>;
+  takingOver: boolean;
+}
+
+/**
+ * Soft lock and presence for an editor. Holds the lock while the editor is open, picks it
+ * up again when the holder leaves, and shows who else has the content open.
+ */
+export function useEditLock(entityType: EditableEntityType, entityId?: string): EditLockState {
+  const { user } = useAuth();
+  const [lock, setLock] = useState<ContentLock | null>(null);
+  const [others, setOthers] = useState<EditorPresence[]>([]);
+  const [takingOver, setTakingOver] = useState(false);
+  const lockRef = useRef<ContentLock | null>(null);
+  const userId = user?.id;
+  const email = user?.email;
+  const fullName = user?.user_metadata?.full_name as string | undefined;
+
+  const acquire = useCallback(async (takeover = false) => {
+    if (!entityId) return;
+    try {
+      const next = await adminCms.acquireContentLock(entityType, entityId, takeover);
+      if (lockRef.current?.locked_by === userId && isLockHeldByOther(next, userId)) {
+        adminToast.warning('Someone else took over', `${next.locked_by_email || 'Another editor'} is now editing this content.`);
+      }
+      lockRef.current = next;
+      setLock(next);
+    } catch (error) {
+      console.error('Error acquiring edit lock:', error);
+    }
+  }, [entityType, entityId, userId]);
+
+  useEffect(() => {
+    if (!entityId || !userId) return;
+
+    acquire();
+    const renewal = window.setInterval(() => acquire(), LOCK_RENEW_INTERVAL_MS);
+
+    const channel = supabase.channel(getPresenceChannelName(entityType, entityId), {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const present = Object.values(channel.presenceState<EditorPresence>())
+          .map(entries => entries[0])
+          .filter(entry => entry && entry.user_id !== userId);
+        setOthers(present);
+      })
+      // A takeover or release elsewhere shows up without waiting for the next renewal;
+      // our own renewals are ignored
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'content_locks',
+        filter: `entity_id=eq.${entityId}`,
+      }, (payload) => {
+        const changed = payload.new as Partial<ContentLock>;
+        if (payload.eventType === 'DELETE' || (changed.locked_by && changed.locked_by !== userId)) {
+          acquire();
+        }
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED' || !email) return;
+        await channel.track({
+          user_id: userId,
+          email,
+          name: getEditorDisplayName(email, fullName),
+          joined_at: new Date().toISOString(),
+        });
+      });
+
+    return () => {
+      window.clearInterval(renewal);
+      supabase.removeChannel(channel);
+      adminCms.releaseContentLock(entityType, entityId)
+        .catch(error => console.error('Error releasing edit lock:', error));
+    };
+  }, [entityType, entityId, userId, email, fullName, acquire]);
+
+  const takeOver = useCallback(async () => {
+    setTakingOver(true);
+    try {
+      await acquire(true);
+      adminToast.info('You are now editing', 'The other editor will see that you took over.');
+    } finally {
+      setTakingOver(false);
+    }
+  }, [acquire]);
+
+  return {
+    lock,
+    others,
+    lockedByOther: isLockHeldByOther(lock, userId),
+    takeOver,
+    takingOver,
+  };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { adminCms } from '@/lib/admin-cms';
+
+// Whether content has to go through review before it is published (Settings → Publishing)
+export function useEditorialWorkflow(): { enabled: boolean; isLoading: boolean } {
+  const { data: enabled = false, isLoading } = useQuery({
+    queryKey: ['editorial-workflow'],
+    queryFn: () => adminCms.isEditorialWorkflowEnabled(),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { enabled, isLoading };
+}
@@ -0,0 +1,21 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { cms } from '@/lib/cms';
+import { FALLBACK_MENUS, filterMenuForAudience, type ResolvedMenuItem } from '@/lib/menus';
+
+// Items of a database menu for the current visitor. Until the menu has loaded, or when it
+// is missing or fails to load, the built-in fallback for that location is used.
+export function useMenu(slug: string): ResolvedMenuItem[] {
+  const { user } = useAuth();
+  const { data } = useQuery({
+    queryKey: ['menu', slug],
+    queryFn: () => cms.getMenu(slug),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return useMemo(
+    () => filterMenuForAudience(data ?? FALLBACK_MENUS[slug] ?? [], !!user),
+    [data, slug, user]
+  );
+}
@@ -0,0 +1,7 @@
+import { useSearchParams } from 'react-router-dom';
+
+// Token from a shareable preview link (`?preview=<token>`), or null on normal visits
+export function usePreviewToken(): string | null {
+  const [searchParams] = useSearchParams();
+  return searchParams.get('preview');
+}
@@ -0,0 +1,32 @@
+import { useCallback, useRef, useState } from 'react';
+import { isStaleContentError, type StaleContentError } from '@/lib/concurrency';
+
+export interface SaveConflict {
+  /** The rejected save, while the merge/overwrite prompt is open */
+  error: StaleContentError | null;
+  /** The row as last loaded or saved, which merges are based on */
+  base: object | null;
+  setBase: (row: object | null) => void;
+  /** Opens the prompt for a stale save; returns false for any other error */
+  capture: (error: unknown) => boolean;
+  dismiss: () => void;
+}
+
+export function useSaveConflict(): SaveConflict {
+  const baseRef = useRef<object | null>(null);
+  const [error, setError] = useState<StaleContentError | null>(null);
+
+  const setBase = useCallback((row: object | null) => {
+    baseRef.current = row;
+  }, []);
+
+  const capture = useCallback((candidate: unknown) => {
+    if (!isStaleContentError(candidate)) return false;
+    setError(candidate);
+    return true;
+  }, []);
+
+  const dismiss = useCallback(() => setError(null), []);
+
+  return { error, base: baseRef.current, setBase, capture, dismiss };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { getDeviceForWidth, VisibilityContext, VisibilitySimulation } from '@/lib/sections/visibility';
+import type { SectionDevice } from '@/lib/sections/schema';
+
+function useDevice(): SectionDevice {
+  const [device, setDevice] = useState<SectionDevice>(() =>
+    typeof window === 'undefined' ? 'desktop' : getDeviceForWidth(window.innerWidth)
+  );
+
+  useEffect(() => {
+    const onResize = () => setDevice(getDeviceForWidth(window.innerWidth));
+    window.addEventListener('resize', onResize);
+    return () => window.removeEventListener('resize', onResize);
+  }, []);
+
+  return device;
+}
+
+// Current visitor context for section visibility rules, with optional admin preview overrides
+export function useSectionVisibility(simulation?: VisibilitySimulation): VisibilityContext & { ignoreRules: boolean } {
+  const { user } = useAuth();
+  const { search } = useLocation();
+  const device = useDevice();
+
+  return useMemo(() => ({
+    now: simulation?.now ?? new Date(),
+    device: simulation?.device ?? device,
+    isAuthenticated: simulation?.isAuthenticated ?? !!user,
+    searchParams: simulation?.searchParams ?? new URLSearchParams(search),
+    ignoreRules: !!simulation?.ignoreRules,
+  }), [simulation, device, user, search]);
+}
@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { applyTranslation, DEFAULT_LOCALE, getCurrentLocale, type Locale } from '@/lib/i18n';
+import type { TranslatableEntityType } from '@/types/content';
+
+// Content rows in the current locale. Rows without a published translation keep the
+// default-locale content, so lists never lose items because a translation is missing.
+export function useTranslatedList<T extends { id: string }>(entityType: TranslatableEntityType, items: T[]): T[] {
+  const locale = getCurrentLocale();
+  const ids = items.map(item => item.id);
+  const { data: translations = [] } = useQuery({
+    queryKey: ['translations', entityType, locale, ids],
+    queryFn: () => cms.getTranslations(entityType, ids, locale),
+    enabled: locale !== DEFAULT_LOCALE && ids.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return useMemo(() => {
+    if (translations.length === 0) return items;
+    const byId = new Map(translations.map(translation => [translation.entity_id, translation]));
+    return items.map(item => applyTranslation(entityType, item, byId.get(item.id)));
+  }, [entityType, items, translations]);
+}
+
+/**
+ * A single content row in the current locale, plus the locales it is available in
+ * (for hreflang). `isFallback` is true when the current locale has no published
+ * translation and the default-locale content is shown instead.
+ */
+export function useTranslatedEntity<T extends { id: string }>(
+  entityType: TranslatableEntityType,
+  item: T | null | undefined
+): { data: T | null | undefined; locales: Locale[]; isFallback: boolean } {
+  const locale = getCurrentLocale();
+  const { data: translations = [] } = useQuery({
+    queryKey: ['translations', entityType, item?.id],
+    queryFn: () => cms.getEntityTranslations(entityType, item!.id),
+    enabled: !!item?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return useMemo(() => {
+    const current = translations.find(translation => translation.locale === locale);
+    return {
+      data: item ? applyTranslation(entityType, item, current) : item,
+      locales: [DEFAULT_LOCALE, ...translations.map(translation => translation.locale as Locale)],
+      isFallback: locale !== DEFAULT_LOCALE && !current,
+    };
+  }, [entityType, item, translations, locale]);
+}
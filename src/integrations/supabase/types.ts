@@ -35,6 +35,56 @@ export type Database = {
         }
         Relationships: []
       }
+      blog_authors: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          id: string
+          job_title: string | null
+          name: string
+          profile_id: string | null
+          slug: string
+          social_links: Json
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          id?: string
+          job_title?: string | null
+          name: string
+          profile_id?: string | null
+          slug: string
+          social_links?: Json
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          id?: string
+          job_title?: string | null
+          name?: string
+          profile_id?: string | null
+          slug?: string
+          social_links?: Json
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_authors_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blog_categories: {
         Row: {
           color: string | null
@@ -68,6 +118,45 @@ export type Database = {
         }
         Relationships: []
       }
+      blog_post_authors: {
+        Row: {
+          author_id: string
+          blog_post_id: string
+          created_at: string
+          id: string
+          sort_order: number
+        }
+        Insert: {
+          author_id: string
+          blog_post_id: string
+          created_at?: string
+          id?: string
+          sort_order?: number
+        }
+        Update: {
+          author_id?: string
+          blog_post_id?: string
+          created_at?: string
+          id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_post_authors_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "blog_authors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_post_authors_blog_post_id_fkey"
+            columns: ["blog_post_id"]
+            isOneToOne: false
+            referencedRelation: "blog_posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blog_post_categories: {
         Row: {
           blog_post_id: string
@@ -111,6 +200,7 @@ export type Database = {
           excerpt: string | null
           feature_image_url: string | null
           id: string
+          publish_at: string | null
           published_at: string | null
           seo_canonical_url: string | null
           seo_description: string | null
@@ -122,7 +212,9 @@ export type Database = {
           status: string
           tags: string[] | null
           title: string
+          unpublish_at: string | null
           updated_at: string | null
+          workflow_state: string
         }
         Insert: {
           body?: Json | null
@@ -130,6 +222,7 @@ export type Database = {
           excerpt?: string | null
           feature_image_url?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -141,7 +234,9 @@ export type Database = {
           status?: string
           tags?: string[] | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
         Update: {
           body?: Json | null
@@ -149,6 +244,7 @@ export type Database = {
           excerpt?: string | null
           feature_image_url?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -160,7 +256,9 @@ export type Database = {
           status?: string
           tags?: string[] | null
           title?: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
         Relationships: []
       }
@@ -175,6 +273,7 @@ export type Database = {
           id: string
           industry: string | null
           metrics: Json | null
+          publish_at: string | null
           published_at: string | null
           services: string[] | null
           slug: string
@@ -182,7 +281,9 @@ export type Database = {
           summary: string | null
           tech_stack: string[] | null
           title: string
+          unpublish_at: string | null
           updated_at: string
+          workflow_state: string
         }
         Insert: {
           body?: string | null
@@ -194,6 +295,7 @@ export type Database = {
           id?: string
           industry?: string | null
           metrics?: Json | null
+          publish_at?: string | null
           published_at?: string | null
           services?: string[] | null
           slug: string
@@ -201,7 +303,9 @@ export type Database = {
           summary?: string | null
           tech_stack?: string[] | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string
+          workflow_state?: string
         }
         Update: {
           body?: string | null
@@ -213,6 +317,7 @@ export type Database = {
           id?: string
           industry?: string | null
           metrics?: Json | null
+          publish_at?: string | null
           published_at?: string | null
           services?: string[] | null
           slug?: string
@@ -220,7 +325,9 @@ export type Database = {
           summary?: string | null
           tech_stack?: string[] | null
           title?: string
+          unpublish_at?: string | null
           updated_at?: string
+          workflow_state?: string
         }
         Relationships: []
       }
@@ -290,6 +397,159 @@ export type Database = {
         }
         Relationships: []
       }
+      content_locks: {
+        Row: {
+          acquired_at: string
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          locked_by: string
+        }
+        Insert: {
+          acquired_at?: string
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          locked_by: string
+        }
+        Update: {
+          acquired_at?: string
+          entity_id?: string
+          entity_type?: string
+          expires_at?: string
+          locked_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_locks_locked_by_fkey"
+            columns: ["locked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_revisions: {
+        Row: {
+          body: Json | null
+          created_at: string
+          created_by: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          title: string | null
+        }
+        Insert: {
+          body?: Json | null
+          created_at?: string
+          created_by?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          title?: string | null
+        }
+        Update: {
+          body?: Json | null
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_translations: {
+        Row: {
+          created_at: string
+          entity_id: string
+          entity_type: string
+          fields: Json
+          id: string
+          locale: string
+          source_updated_at: string | null
+          status: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          fields?: Json
+          id?: string
+          locale: string
+          source_updated_at?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          fields?: Json
+          id?: string
+          locale?: string
+          source_updated_at?: string | null
+          status?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      content_workflow_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          comment: string | null
+          created_at: string
+          entity_id: string
+          entity_type: string
+          from_state: string
+          id: string
+          to_state: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          comment?: string | null
+          created_at?: string
+          entity_id: string
+          entity_type: string
+          from_state: string
+          id?: string
+          to_state: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          comment?: string | null
+          created_at?: string
+          entity_id?: string
+          entity_type?: string
+          from_state?: string
+          id?: string
+          to_state?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_workflow_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cta_interactions: {
         Row: {
           action: string
@@ -332,6 +592,44 @@ export type Database = {
         }
         Relationships: []
       }
+      editor_drafts: {
+        Row: {
+          base_updated_at: string | null
+          data: Json
+          entity_key: string
+          entity_type: string
+          id: string
+          saved_at: string
+          user_id: string
+        }
+        Insert: {
+          base_updated_at?: string | null
+          data: Json
+          entity_key: string
+          entity_type: string
+          id?: string
+          saved_at?: string
+          user_id?: string
+        }
+        Update: {
+          base_updated_at?: string | null
+          data?: Json
+          entity_key?: string
+          entity_type?: string
+          id?: string
+          saved_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "editor_drafts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       email_subscriptions: {
         Row: {
           confirmed_at: string | null
@@ -407,6 +705,44 @@ export type Database = {
         }
         Relationships: []
       }
+      global_sections: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          schema_version: number
+          section: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          schema_version?: number
+          section: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          schema_version?: number
+          section?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "global_sections_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
           apply_url: string | null
@@ -417,6 +753,7 @@ export type Database = {
           email: string | null
           id: string
           location: string | null
+          publish_at: string | null
           published_at: string | null
           requirements: string[] | null
           responsibilities: string[] | null
@@ -425,6 +762,7 @@ export type Database = {
           team: string | null
           title: string
           type: string | null
+          unpublish_at: string | null
           updated_at: string
           work_mode: string | null
         }
@@ -437,6 +775,7 @@ export type Database = {
           email?: string | null
           id?: string
           location?: string | null
+          publish_at?: string | null
           published_at?: string | null
           requirements?: string[] | null
           responsibilities?: string[] | null
@@ -445,6 +784,7 @@ export type Database = {
           team?: string | null
           title: string
           type?: string | null
+          unpublish_at?: string | null
           updated_at?: string
           work_mode?: string | null
         }
@@ -457,6 +797,7 @@ export type Database = {
           email?: string | null
           id?: string
           location?: string | null
+          publish_at?: string | null
           published_at?: string | null
           requirements?: string[] | null
           responsibilities?: string[] | null
@@ -465,6 +806,7 @@ export type Database = {
           team?: string | null
           title?: string
           type?: string | null
+          unpublish_at?: string | null
           updated_at?: string
           work_mode?: string | null
         }
@@ -478,6 +820,7 @@ export type Database = {
           demo_url: string | null
           hero_image: string | null
           id: string
+          publish_at: string | null
           published_at: string | null
           repo_url: string | null
           slug: string
@@ -485,6 +828,7 @@ export type Database = {
           summary: string | null
           tags: string[] | null
           title: string
+          unpublish_at: string | null
           updated_at: string
         }
         Insert: {
@@ -494,6 +838,7 @@ export type Database = {
           demo_url?: string | null
           hero_image?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           repo_url?: string | null
           slug: string
@@ -501,6 +846,7 @@ export type Database = {
           summary?: string | null
           tags?: string[] | null
           title: string
+          unpublish_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -510,6 +856,7 @@ export type Database = {
           demo_url?: string | null
           hero_image?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           repo_url?: string | null
           slug?: string
@@ -517,6 +864,7 @@ export type Database = {
           summary?: string | null
           tags?: string[] | null
           title?: string
+          unpublish_at?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -590,6 +938,99 @@ export type Database = {
         }
         Relationships: []
       }
+      menu_items: {
+        Row: {
+          audience: string
+          created_at: string
+          entity_id: string | null
+          id: string
+          is_visible: boolean
+          label: string
+          link_type: string
+          menu_id: string
+          open_in_new_tab: boolean
+          parent_id: string | null
+          sort_order: number
+          style: string
+          updated_at: string
+          url: string | null
+        }
+        Insert: {
+          audience?: string
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          is_visible?: boolean
+          label: string
+          link_type?: string
+          menu_id: string
+          open_in_new_tab?: boolean
+          parent_id?: string | null
+          sort_order?: number
+          style?: string
+          updated_at?: string
+          url?: string | null
+        }
+        Update: {
+          audience?: string
+          created_at?: string
+          entity_id?: string | null
+          id?: string
+          is_visible?: boolean
+          label?: string
+          link_type?: string
+          menu_id?: string
+          open_in_new_tab?: boolean
+          parent_id?: string | null
+          sort_order?: number
+          style?: string
+          updated_at?: string
+          url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "menu_items_menu_id_fkey"
+            columns: ["menu_id"]
+            isOneToOne: false
+            referencedRelation: "menus"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "menu_items_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "menu_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      menus: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
           amount: number
@@ -637,6 +1078,8 @@ export type Database = {
           body: Json | null
           created_at: string | null
           id: string
+          parent_id: string | null
+          publish_at: string | null
           published_at: string | null
           seo_canonical_url: string | null
           seo_description: string | null
@@ -647,12 +1090,16 @@ export type Database = {
           slug: string
           status: string
           title: string
+          unpublish_at: string | null
           updated_at: string | null
+          workflow_state: string
         }
         Insert: {
           body?: Json | null
           created_at?: string | null
           id?: string
+          parent_id?: string | null
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -663,12 +1110,16 @@ export type Database = {
           slug: string
           status?: string
           title: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
         Update: {
           body?: Json | null
           created_at?: string | null
           id?: string
+          parent_id?: string | null
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -679,9 +1130,19 @@ export type Database = {
           slug?: string
           status?: string
           title?: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "pages"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       payments: {
         Row: {
@@ -736,6 +1197,95 @@ export type Database = {
           },
         ]
       }
+      preview_tokens: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          token: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string
+          entity_type?: string
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "preview_tokens_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_tiers: {
+        Row: {
+          billing_period: string
+          created_at: string
+          cta_label: string | null
+          currency: string
+          description: string | null
+          features: string[]
+          id: string
+          name: string
+          popular: boolean
+          price: number
+          sort_order: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          billing_period?: string
+          created_at?: string
+          cta_label?: string | null
+          currency?: string
+          description?: string | null
+          features?: string[]
+          id?: string
+          name: string
+          popular?: boolean
+          price?: number
+          sort_order?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          billing_period?: string
+          created_at?: string
+          cta_label?: string | null
+          currency?: string
+          description?: string | null
+          features?: string[]
+          id?: string
+          name?: string
+          popular?: boolean
+          price?: number
+          sort_order?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -801,6 +1351,7 @@ export type Database = {
           created_at: string | null
           excerpt: string | null
           id: string
+          publish_at: string | null
           published_at: string | null
           seo_canonical_url: string | null
           seo_description: string | null
@@ -811,6 +1362,7 @@ export type Database = {
           slug: string
           status: string
           title: string
+          unpublish_at: string | null
           updated_at: string | null
         }
         Insert: {
@@ -818,6 +1370,7 @@ export type Database = {
           created_at?: string | null
           excerpt?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -828,6 +1381,7 @@ export type Database = {
           slug: string
           status?: string
           title: string
+          unpublish_at?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -835,6 +1389,7 @@ export type Database = {
           created_at?: string | null
           excerpt?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -845,6 +1400,7 @@ export type Database = {
           slug?: string
           status?: string
           title?: string
+          unpublish_at?: string | null
           updated_at?: string | null
         }
         Relationships: []
@@ -1224,12 +1780,111 @@ export type Database = {
         }
         Relationships: []
       }
+      redirects: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          entity_id: string | null
+          entity_type: string | null
+          hit_count: number
+          id: string
+          is_active: boolean
+          last_hit_at: string | null
+          match_type: string
+          note: string | null
+          source_path: string
+          status_code: number
+          target_path: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          hit_count?: number
+          id?: string
+          is_active?: boolean
+          last_hit_at?: string | null
+          match_type?: string
+          note?: string | null
+          source_path: string
+          status_code?: number
+          target_path: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          hit_count?: number
+          id?: string
+          is_active?: boolean
+          last_hit_at?: string | null
+          match_type?: string
+          note?: string | null
+          source_path?: string
+          status_code?: number
+          target_path?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      section_presets: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          schema_version: number
+          section: Json
+          thumbnail_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          schema_version?: number
+          section: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          schema_version?: number
+          section?: Json
+          thumbnail_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "section_presets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       services: {
         Row: {
           content: Json | null
           created_at: string | null
           excerpt: string | null
           id: string
+          publish_at: string | null
           published_at: string | null
           seo_canonical_url: string | null
           seo_description: string | null
@@ -1240,13 +1895,16 @@ export type Database = {
           slug: string
           status: string
           title: string
+          unpublish_at: string | null
           updated_at: string | null
+          workflow_state: string
         }
         Insert: {
           content?: Json | null
           created_at?: string | null
           excerpt?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -1257,13 +1915,16 @@ export type Database = {
           slug: string
           status?: string
           title: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
         Update: {
           content?: Json | null
           created_at?: string | null
           excerpt?: string | null
           id?: string
+          publish_at?: string | null
           published_at?: string | null
           seo_canonical_url?: string | null
           seo_description?: string | null
@@ -1274,7 +1935,9 @@ export type Database = {
           slug?: string
           status?: string
           title?: string
+          unpublish_at?: string | null
           updated_at?: string | null
+          workflow_state?: string
         }
         Relationships: []
       }
@@ -1301,6 +1964,24 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acquire_content_lock: {
+        Args: {
+          p_entity_id: string
+          p_entity_type: string
+          p_takeover?: boolean
+        }
+        Returns: {
+          acquired_at: string
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          locked_by: string
+        }
+      }
+      apply_content_schedules: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       bootstrap_promote_admin: {
         Args: { p_code: string }
         Returns: Json
@@ -1325,6 +2006,27 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      cleanup_stale_editor_drafts: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      create_preview_token: {
+        Args: {
+          p_entity_id: string
+          p_entity_type: string
+          p_expires_in_hours?: number
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          entity_id: string
+          entity_type: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          token: string
+        }
+      }
       generate_proposal_id: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -1333,6 +2035,22 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_blog_post_authors: {
+        Args: { post_id: string }
+        Returns: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          id: string
+          job_title: string | null
+          name: string
+          profile_id: string | null
+          slug: string
+          social_links: Json
+          status: string
+          updated_at: string
+        }[]
+      }
       get_blog_post_categories: {
         Args: { post_id: string }
         Returns: {
@@ -1362,10 +2080,18 @@ export type Database = {
         }
         Returns: Json
       }
+      get_preview_content: {
+        Args: { p_token: string }
+        Returns: Json
+      }
       health_check: {
         Args: Record<PropertyKey, never>
         Returns: Json
       }
+      is_editorial_workflow_enabled: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       is_registration_enabled: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -1405,14 +2131,47 @@ export type Database = {
         Args: { data: Json }
         Returns: Json
       }
+      normalize_blog_tag: {
+        Args: { tag: string }
+        Returns: string
+      }
+      normalize_blog_tags: {
+        Args: { tags: string[] }
+        Returns: string[]
+      }
+      record_redirect_hits: {
+        Args: { p_ids: string[] }
+        Returns: undefined
+      }
       redact_pii: {
         Args: { input_text: string }
         Returns: string
       }
+      release_content_lock: {
+        Args: { p_entity_id: string; p_entity_type: string }
+        Returns: undefined
+      }
+      revoke_preview_token: {
+        Args: { p_id: string }
+        Returns: undefined
+      }
+      rewrite_blog_tags: {
+        Args: { p_from: string[]; p_to: string }
+        Returns: number
+      }
       set_bootstrap_hash: {
         Args: { p_code: string }
         Returns: boolean
       }
+      transition_content_workflow: {
+        Args: {
+          p_action: string
+          p_comment?: string
+          p_entity_id: string
+          p_entity_type: string
+        }
+        Returns: string
+      }
       validate_page_sections: {
         Args: { sections: Json }
         Returns: boolean
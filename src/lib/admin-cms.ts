@@ -1,7 +1,126 @@
 import { supabase } from '@/integrations/supabase/client';
-import { ProjectImage, Service, Project, BlogPost, BlogCategory, FAQ, Page, ContactSubmission } from '@/types/content';
+import type { Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { ProjectImage, Service, Project, BlogPost, BlogCategory, BlogAuthor, FAQ, Page, ContactSubmission, ContentRevision, RevisionEntityType, PreviewEntityType, PreviewToken, PageMigrationReport, PageImportResult, BlogImportResult, Redirect, RedirectEntityType, ContentTranslation, TranslatableEntityType, TranslationSource, ContentWorkflowEvent, ReviewQueueItem, CalendarEntityType, CalendarItem, ContentLock, EditableEntityType, AutosaveEntityType, EditorDraft, WorkflowAction, WorkflowEntityType, WorkflowState, GlobalSection, GlobalSectionUsage, SectionPreset, ContentListSource, ContentOption, Menu, MenuItem } from '@/types/content';
+import { migratePageBody, migrateAndValidatePageBody, migrateSection, CURRENT_PAGE_BODY_VERSION } from '@/lib/sections/migrations';
+import type { PageImportPlanItem } from '@/lib/sections/page-bundle';
+import { SectionSchema } from '@/lib/sections/schema';
+import { replaceImageUrls, type BlogImportPlanItem } from '@/lib/blog-import';
+import { getEntityPath, type MenuEntityType } from '@/lib/menus';
+import { getRedirectMatchType } from '@/lib/redirects';
+import { toBlogAuthor } from '@/lib/authors';
+import { countBlogTags, normalizeTag, type BlogTagUsage } from '@/lib/tags';
+import { buildPagePath } from '@/lib/cms';
+import { StaleContentError, type VersionedRow } from '@/lib/concurrency';
+import type { PricingTier } from '@/types/payment';
 import { supabasePerformance } from './supabase-performance';
 
+// Slug of content that is currently public, so renaming it needs a redirect
+async function getPublishedSlug(table: 'services' | 'projects' | 'blog_posts', id: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('slug, status')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.status === 'published' ? data.slug : null;
+}
+
+async function getPageTree(): Promise<Array<Pick<Page, 'id' | 'slug' | 'parent_id' | 'status'>>> {
+  const { data, error } = await supabase
+    .from('pages')
+    .select('id, slug, parent_id, status');
+
+  if (error) throw error;
+  return (data || []) as Array<Pick<Page, 'id' | 'slug' | 'parent_id' | 'status'>>;
+}
+
+const TRANSLATION_SOURCE_TABLES = {
+  page: 'pages',
+  service: 'services',
+  project: 'projects',
+  blog_post: 'blog_posts',
+  faq: 'faqs',
+  case_study: 'case_studies',
+  job: 'jobs',
+} as const satisfies Record<TranslatableEntityType, string>;
+
+const EDITABLE_TABLES = {
+  page: 'pages',
+  service: 'services',
+  project: 'projects',
+  blog_post: 'blog_posts',
+  case_study: 'case_studies',
+  lab_project: 'lab_projects',
+  job: 'jobs',
+} as const satisfies Record<EditableEntityType, string>;
+
+type VersionedTable = (typeof EDITABLE_TABLES)[EditableEntityType]
+  | 'global_sections' | 'redirects' | 'menus' | 'blog_categories' | 'blog_authors' | 'faqs' | 'pricing_tiers';
+
+// An update guarded by `expectedUpdatedAt` matches no row once someone else has saved
+// in between; report that with the row as it is now
+async function getUpdateMissError(table: VersionedTable, id: string, expectedUpdatedAt?: string): Promise<Error> {
+  if (expectedUpdatedAt) {
+    const { data } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (data) return new StaleContentError(data as VersionedRow);
+  }
+  return new Error('Content not found or permission denied');
+}
+
+const CALENDAR_TABLES = {
+  blog_post: 'blog_posts',
+  case_study: 'case_studies',
+  lab_project: 'lab_projects',
+  job: 'jobs',
+} as const satisfies Record<CalendarEntityType, string>;
+
+interface CalendarRow {
+  id: string;
+  title: string;
+  status: string;
+  published_at: string | null;
+  publish_at: string | null;
+  updated_at: string;
+  blog_post_categories?: Array<{ blog_categories: Pick<BlogCategory, 'name' | 'color'> | null }>;
+}
+
+// Live content in the range by published_at, scheduled content by publish_at
+async function getCalendarRows(entityType: CalendarEntityType, from: string, to: string): Promise<CalendarItem[]> {
+  const live = entityType === 'job' ? 'open' : 'published';
+  const columns = entityType === 'blog_post'
+    ? 'id, title, status, published_at, publish_at, updated_at, blog_post_categories(blog_categories(name, color))'
+    : 'id, title, status, published_at, publish_at, updated_at';
+
+  const { data, error } = await supabase
+    .from(CALENDAR_TABLES[entityType])
+    .select(columns)
+    .or(
+      `and(status.eq.${live},published_at.gte.${from},published_at.lt.${to}),` +
+      `and(status.neq.${live},publish_at.gte.${from},publish_at.lt.${to})`
+    );
+
+  if (error) throw error;
+  return ((data || []) as unknown as CalendarRow[]).map(row => {
+    const scheduled = row.status !== live;
+    return {
+      id: row.id,
+      entity_type: entityType,
+      title: row.title,
+      status: row.status,
+      date: (scheduled ? row.publish_at : row.published_at) as string,
+      scheduled,
+      category: row.blog_post_categories?.[0]?.blog_categories ?? null,
+      updated_at: row.updated_at,
+    };
+  });
+}
+
 // Admin CMS functions with full CRUD capabilities
 export const adminCms = {
   // Services - Optimized version with enhanced querying capabilities
@@ -80,15 +199,18 @@ export const adminCms = {
     return data as Service;
   },
 
-  async updateService(id: string, updates: Partial<Service>): Promise<Service> {
-    const { data, error } = await supabase
+  async updateService(id: string, updates: Partial<Service>, expectedUpdatedAt?: string): Promise<Service> {
+    const previousSlug = 'slug' in updates ? await getPublishedSlug('services', id) : null;
+    let query = supabase
       .from('services')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
 
     if (error) throw error;
+    if (!data) throw await getUpdateMissError('services', id, expectedUpdatedAt);
+    if (previousSlug) await this.redirectSlugChange('service', id, previousSlug, data.slug);
     return data as Service;
   },
 
@@ -137,15 +259,18 @@ export const adminCms = {
     return data as Project;
   },
 
-  async updateProject(id: string, updates: Partial<Project>): Promise<Project> {
-    const { data, error } = await supabase
+  async updateProject(id: string, updates: Partial<Project>, expectedUpdatedAt?: string): Promise<Project> {
+    const previousSlug = 'slug' in updates ? await getPublishedSlug('projects', id) : null;
+    let query = supabase
       .from('projects')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
 
     if (error) throw error;
+    if (!data) throw await getUpdateMissError('projects', id, expectedUpdatedAt);
+    if (previousSlug) await this.redirectSlugChange('project', id, previousSlug, data.slug);
     return data as Project;
   },
 
@@ -194,6 +319,7 @@ export const adminCms = {
       return (simpleData || []).map(item => ({
         ...item,
         status: item.status as 'draft' | 'published',
+        workflow_state: item.workflow_state as WorkflowState,
         categories: []
       }));
     }
@@ -227,19 +353,23 @@ export const adminCms = {
     
     return {
       ...data,
-      status: data.status as 'draft' | 'published'
+      status: data.status as 'draft' | 'published',
+      workflow_state: data.workflow_state as WorkflowState
     };
   },
 
-  async updateBlogPost(id: string, updates: Partial<BlogPost>, categoryIds?: string[]): Promise<BlogPost> {
-    const { data, error } = await supabase
+  async updateBlogPost(id: string, updates: Partial<BlogPost>, categoryIds?: string[], expectedUpdatedAt?: string): Promise<BlogPost> {
+    const previousSlug = 'slug' in updates ? await getPublishedSlug('blog_posts', id) : null;
+    let query = supabase
       .from('blog_posts')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-    
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
     if (error) throw error;
+    if (!data) throw await getUpdateMissError('blog_posts', id, expectedUpdatedAt);
+    if (previousSlug) await this.redirectSlugChange('blog_post', id, previousSlug, data.slug);
     
     // Update categories if provided
     if (categoryIds !== undefined) {
@@ -248,17 +378,22 @@ export const adminCms = {
     
     return {
       ...data,
-      status: data.status as 'draft' | 'published'
+      status: data.status as 'draft' | 'published',
+      workflow_state: data.workflow_state as WorkflowState
     };
   },
 
-  async getBlogPost(id: string): Promise<BlogPost & { categories?: BlogCategory[] }> {
+  async getBlogPost(id: string): Promise<BlogPost & { categories?: BlogCategory[]; authors?: BlogAuthor[] }> {
     const { data, error } = await supabase
       .from('blog_posts')
       .select(`
         *,
         blog_post_categories(
           blog_categories(*)
+        ),
+        blog_post_authors(
+          sort_order,
+          blog_authors(*)
         )
       `)
       .eq('id', id)
@@ -272,10 +407,16 @@ export const adminCms = {
       status: bpc.blog_categories.status as 'draft' | 'published'
     })) || [];
     
+    const postAuthors: Array<{ sort_order: number; blog_authors: Tables<'blog_authors'> }> = blogPost.blog_post_authors || [];
+    const authors = [...postAuthors]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(bpa => toBlogAuthor(bpa.blog_authors));
+
     return {
       ...blogPost,
       status: blogPost.status as 'draft' | 'published',
-      categories
+      categories,
+      authors
     };
   },
 
@@ -296,13 +437,13 @@ export const adminCms = {
       .order('updated_at', { ascending: false });
 
     if (error) throw error;
-    return (data || []) as Page[];
+    return (data || []).map(page => ({ ...page, body: migratePageBody(page.body).body })) as Page[];
   },
 
   async createPage(page: Omit<Page, 'id' | 'created_at' | 'updated_at'>): Promise<Page> {
     const { data, error } = await supabase
       .from('pages')
-      .insert(page)
+      .insert({ ...page, body: migratePageBody(page.body).body as Page['body'] })
       .select()
       .single();
 
@@ -310,27 +451,910 @@ export const adminCms = {
     return data as Page;
   },
 
-  async updatePage(id: string, updates: Partial<Page>): Promise<Page> {
+  async updatePage(id: string, updates: Partial<Page>, expectedUpdatedAt?: string): Promise<Page> {
+    const changes = 'body' in updates ? { ...updates, body: migratePageBody(updates.body).body as Page['body'] } : updates;
+    // A page's path also depends on its parents, so moving it changes the URL too
+    const movesPage = 'slug' in updates || 'parent_id' in updates;
+    const pagesBefore = movesPage ? await getPageTree() : [];
+    let query = supabase
+      .from('pages')
+      .update(changes)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('pages', id, expectedUpdatedAt);
+
+    const previous = pagesBefore.find(page => page.id === id);
+    if (previous?.status === 'published') {
+      const pagesAfter = pagesBefore.map(page => (page.id === id ? { ...page, slug: data.slug, parent_id: data.parent_id } : page));
+      const fromPath = buildPagePath(previous, pagesBefore);
+      const toPath = buildPagePath(data, pagesAfter);
+      await this.redirectSlugChange('page', id, fromPath, toPath);
+      // Child pages move along with their parent
+      if (fromPath !== toPath && pagesBefore.some(page => page.parent_id === id)) {
+        await this.redirectSlugChange('page', id, `${fromPath}/*`, `${toPath}/*`);
+      }
+    }
+    return data as Page;
+  },
+
+  async deletePage(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('pages')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Upgrade every stored page body to the current section schema version and validate it.
+   * Only bodies that validate are written back; with `dryRun` nothing is written.
+   */
+  async migratePageBodies(options: { dryRun?: boolean } = {}): Promise<PageMigrationReport[]> {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('id, title, slug, body')
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+
+    const reports: PageMigrationReport[] = [];
+    for (const page of data || []) {
+      const result = migrateAndValidatePageBody(page.body);
+      const report: PageMigrationReport = {
+        id: page.id,
+        title: page.title,
+        slug: page.slug,
+        status: 'up-to-date',
+        fromVersion: result.fromVersion,
+        toVersion: result.toVersion,
+        issues: result.issues,
+      };
+
+      const hasSections = !!page.body && typeof page.body === 'object' && Array.isArray((page.body as { sections?: unknown }).sections);
+      if (!hasSections) {
+        report.status = 'skipped';
+        report.issues = [];
+      } else if (!result.success) {
+        report.status = 'failed';
+      } else if (result.changed) {
+        report.status = 'migrated';
+        if (!options.dryRun) {
+          const { error: updateError } = await supabase
+            .from('pages')
+            .update({ body: result.body as Page['body'] })
+            .eq('id', page.id);
+
+          if (updateError) {
+            report.status = 'failed';
+            report.issues = [updateError.message];
+          }
+        }
+      }
+
+      reports.push(report);
+    }
+
+    return reports;
+  },
+
+  /**
+   * Write a page bundle import plan (see planPageImport). Items are saved in plan order,
+   * which puts parents first, so a parent imported in the same run can be linked by slug.
+   * One failing page does not stop the rest.
+   */
+  async importPages(items: PageImportPlanItem[]): Promise<PageImportResult[]> {
     const { data, error } = await supabase
       .from('pages')
+      .select('id, slug');
+
+    if (error) throw error;
+
+    const idsBySlug = new Map((data || []).map(page => [page.slug, page.id]));
+    const results: PageImportResult[] = [];
+
+    for (const item of items) {
+      if (!item.page || item.action === 'skip' || item.action === 'invalid') {
+        results.push({ slug: item.slug, title: item.title, status: 'skipped' });
+        continue;
+      }
+
+      const parentId = item.parentSlug ? idsBySlug.get(item.parentSlug) : undefined;
+      // An overwritten page whose planned parent failed to save stays where it is
+      const page = parentId || !item.existingId ? { ...item.page, parent_id: parentId ?? null } : item.page;
+      try {
+        const saved = item.existingId
+          ? await this.updatePage(item.existingId, page)
+          : await this.createPage(page);
+        idsBySlug.set(saved.slug, saved.id);
+        results.push({ slug: item.slug, title: item.title, status: item.existingId ? 'updated' : 'created', id: saved.id });
+      } catch (saveError) {
+        results.push({
+          slug: item.slug,
+          title: item.title,
+          status: 'failed',
+          error: saveError instanceof Error ? saveError.message : (saveError as { message?: string })?.message,
+        });
+      }
+    }
+
+    return results;
+  },
+
+  getMediaPublicUrl(path: string): string {
+    return supabase.storage.from('media').getPublicUrl(path).data.publicUrl;
+  },
+
+  /**
+   * Download a remote image and store a copy in the media bucket, returning its public URL.
+   * The remote server has to allow cross-origin requests; callers keep the original URL
+   * when this throws.
+   */
+  async rehostRemoteImage(url: string, folder = 'blog/imported/'): Promise<string> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Download failed (${response.status})`);
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) throw new Error(`Not an image (${blob.type || 'unknown type'})`);
+    if (blob.size > 10 * 1024 * 1024) throw new Error('Image is larger than 10MB');
+
+    const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || 'image').replace(/[^a-zA-Z0-9.-]/g, '_');
+    const storageKey = `${folder}${Date.now()}-${fileName}`;
+    const { error } = await supabase.storage
+      .from('media')
+      .upload(storageKey, blob, { contentType: blob.type });
+
+    if (error) throw error;
+    return this.getMediaPublicUrl(storageKey);
+  },
+
+  /**
+   * Write a blog import plan (see planBlogImport). Missing categories are created first,
+   * then each post's remote images are re-hosted and the post is saved. One failing post
+   * or image does not stop the rest; the per-post results make up the import report.
+   */
+  async importBlogPosts(items: BlogImportPlanItem[], options: { rehostImages: boolean }): Promise<BlogImportResult[]> {
+    const categories = await this.getAllBlogCategories();
+    const categoryIds = new Map(categories.map(category => [category.slug, category.id]));
+    // Images shared by several posts are downloaded once
+    const rehosted = new Map<string, string | null>();
+    const results: BlogImportResult[] = [];
+
+    for (const item of items) {
+      const result: BlogImportResult = {
+        sourceName: item.sourceName,
+        slug: item.slug,
+        title: item.title,
+        status: 'skipped',
+        imagesRehosted: 0,
+        imageFailures: [],
+        categoriesCreated: [],
+      };
+      results.push(result);
+      if (!item.post || item.action === 'skip' || item.action === 'invalid') continue;
+
+      try {
+        for (const category of item.categories) {
+          const existingId = category.existingId ?? categoryIds.get(category.slug);
+          if (existingId) {
+            categoryIds.set(category.slug, existingId);
+            continue;
+          }
+          const created = await this.createBlogCategory({ name: category.name, slug: category.slug, color: '#10b981', status: 'published' });
+          categoryIds.set(category.slug, created.id);
+          result.categoriesCreated.push(category.name);
+        }
+
+        const urlMap: Record<string, string> = {};
+        if (options.rehostImages) {
+          for (const url of item.images) {
+            if (!rehosted.has(url)) {
+              try {
+                rehosted.set(url, await this.rehostRemoteImage(url));
+              } catch (imageError) {
+                console.warn('Could not re-host image:', url, imageError);
+                rehosted.set(url, null);
+              }
+            }
+            const newUrl = rehosted.get(url);
+            if (newUrl) {
+              urlMap[url] = newUrl;
+              result.imagesRehosted++;
+            } else {
+              result.imageFailures.push(url);
+            }
+          }
+        }
+
+        const post = replaceImageUrls(item.post, urlMap);
+        const postCategoryIds = item.categories.map(category => categoryIds.get(category.slug)).filter(Boolean);
+        const saved = item.existingId
+          ? await this.updateBlogPost(item.existingId, post, postCategoryIds)
+          : await this.createBlogPost(post, postCategoryIds);
+        result.status = item.existingId ? 'updated' : 'created';
+        result.id = saved.id;
+      } catch (saveError) {
+        result.status = 'failed';
+        result.error = saveError instanceof Error ? saveError.message : (saveError as { message?: string })?.message;
+      }
+    }
+
+    return results;
+  },
+
+  // Content Revisions (written by database triggers on every body change)
+  async getRevisions(entityType: RevisionEntityType, entityId: string): Promise<ContentRevision[]> {
+    const { data, error } = await supabase
+      .from('content_revisions')
+      .select(`
+        *,
+        profiles(email)
+      `)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(item => ({
+      ...item,
+      entity_type: item.entity_type as RevisionEntityType,
+      author_email: item.profiles?.email,
+    }));
+  },
+
+  async restoreRevision(revision: ContentRevision, expectedUpdatedAt?: string): Promise<Page | Service | Project | BlogPost> {
+    // Restoring writes the old body back, which records a new revision in turn. Like any
+    // save it fails with StaleContentError when the content changed since the editor loaded it
+    switch (revision.entity_type) {
+      case 'page':
+        return this.updatePage(revision.entity_id, { body: revision.body }, expectedUpdatedAt);
+      case 'service':
+        return this.updateService(revision.entity_id, { content: revision.body }, expectedUpdatedAt);
+      case 'project':
+        return this.updateProject(revision.entity_id, { body: revision.body }, expectedUpdatedAt);
+      case 'blog_post':
+        return this.updateBlogPost(revision.entity_id, { body: revision.body }, undefined, expectedUpdatedAt);
+      default:
+        throw new Error(`Unknown revision entity type: ${revision.entity_type}`);
+    }
+  },
+
+  // Global Sections
+  async getAllGlobalSections(): Promise<GlobalSection[]> {
+    const { data, error } = await supabase
+      .from('global_sections')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      ...row,
+      section: migrateSection(row.section, row.schema_version),
+    })) as GlobalSection[];
+  },
+
+  async getGlobalSection(id: string): Promise<GlobalSection | null> {
+    const { data, error } = await supabase
+      .from('global_sections')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return { ...data, section: migrateSection(data.section, data.schema_version) } as GlobalSection;
+  },
+
+  async createGlobalSection(globalSection: Pick<GlobalSection, 'name' | 'section'>): Promise<GlobalSection> {
+    const { data, error } = await supabase
+      .from('global_sections')
+      .insert({ ...globalSection, schema_version: CURRENT_PAGE_BODY_VERSION })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as GlobalSection;
+  },
+
+  async updateGlobalSection(id: string, updates: Partial<Pick<GlobalSection, 'name' | 'section'>>, expectedUpdatedAt?: string): Promise<GlobalSection> {
+    const changes = 'section' in updates ? { ...updates, schema_version: CURRENT_PAGE_BODY_VERSION } : updates;
+    let query = supabase
+      .from('global_sections')
+      .update(changes)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('global_sections', id, expectedUpdatedAt);
+    return data as GlobalSection;
+  },
+
+  async deleteGlobalSection(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('global_sections')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Section Presets
+  async getAllSectionPresets(): Promise<SectionPreset[]> {
+    const { data, error } = await supabase
+      .from('section_presets')
+      .select('*')
+      .order('category', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    // A preset that no longer validates (or references a global section) cannot be inserted
+    return (data || []).flatMap(row => {
+      const parsed = SectionSchema.safeParse(migrateSection(row.section, row.schema_version));
+      if (!parsed.success || parsed.data.type === 'globalSection') {
+        console.warn('Skipping invalid section preset:', row.name, parsed.error?.issues[0]);
+        return [];
+      }
+      return [{ ...row, section: parsed.data } as SectionPreset];
+    });
+  },
+
+  async createSectionPresets(
+    presets: Pick<SectionPreset, 'name' | 'category' | 'description' | 'thumbnail_url' | 'section'>[]
+  ): Promise<SectionPreset[]> {
+    const { data, error } = await supabase
+      .from('section_presets')
+      .insert(presets.map(preset => ({ ...preset, schema_version: CURRENT_PAGE_BODY_VERSION })))
+      .select();
+
+    if (error) throw error;
+    return (data || []) as SectionPreset[];
+  },
+
+  async deleteSectionPreset(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('section_presets')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Editorial workflow
+  async isEditorialWorkflowEnabled(): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_editorial_workflow_enabled');
+
+    if (error) throw error;
+    return !!data;
+  },
+
+  async getWorkflowEvents(entityType: WorkflowEntityType, entityId: string): Promise<ContentWorkflowEvent[]> {
+    const { data, error } = await supabase
+      .from('content_workflow_events')
+      .select(`
+        *,
+        profiles(email)
+      `)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(item => ({
+      ...item,
+      entity_type: item.entity_type as WorkflowEntityType,
+      action: item.action as WorkflowAction,
+      from_state: item.from_state as WorkflowState,
+      to_state: item.to_state as WorkflowState,
+      actor_email: item.profiles?.email,
+    }));
+  },
+
+  async getReviewQueue(): Promise<ReviewQueueItem[]> {
+    const states = ['in_review', 'approved'];
+    const results = await Promise.all([
+      supabase.from('pages').select('id, title, workflow_state, updated_at').in('workflow_state', states),
+      supabase.from('services').select('id, title, workflow_state, updated_at').in('workflow_state', states),
+      supabase.from('blog_posts').select('id, title, workflow_state, updated_at').in('workflow_state', states),
+      supabase.from('case_studies').select('id, title, workflow_state, updated_at').in('workflow_state', states),
+    ]);
+    const entityTypes: WorkflowEntityType[] = ['page', 'service', 'blog_post', 'case_study'];
+
+    return results
+      .flatMap(({ data, error }, index) => {
+        if (error) throw error;
+        return (data || []).map(item => ({
+          ...item,
+          entity_type: entityTypes[index],
+          workflow_state: item.workflow_state as WorkflowState,
+        }));
+      })
+      .sort((a, b) => new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime());
+  },
+
+  // Moves the content through the workflow; the database checks the caller's role
+  async transitionWorkflow(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    action: WorkflowAction,
+    comment?: string
+  ): Promise<WorkflowState> {
+    const { data, error } = await supabase.rpc('transition_content_workflow', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_action: action,
+      p_comment: comment?.trim() || undefined,
+    });
+
+    if (error) throw error;
+    return data as WorkflowState;
+  },
+
+  // Translations
+  async getTranslationSources(entityType: TranslatableEntityType): Promise<TranslationSource[]> {
+    const { data, error } = await supabase
+      .from(TRANSLATION_SOURCE_TABLES[entityType])
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map((row: Record<string, unknown>) => ({
+      ...row,
+      title: entityType === 'faq' ? row.question : row.title,
+    })) as TranslationSource[];
+  },
+
+  async getContentTranslations(entityType: TranslatableEntityType): Promise<ContentTranslation[]> {
+    const { data, error } = await supabase
+      .from('content_translations')
+      .select('*')
+      .eq('entity_type', entityType);
+
+    if (error) throw error;
+    return (data || []) as ContentTranslation[];
+  },
+
+  async saveTranslation(
+    translation: Pick<ContentTranslation, 'entity_type' | 'entity_id' | 'locale' | 'fields' | 'status' | 'source_updated_at'>
+  ): Promise<ContentTranslation> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('content_translations')
+      .upsert(
+        { ...translation, fields: translation.fields as Json, updated_by: user?.id ?? null },
+        { onConflict: 'entity_type,entity_id,locale' }
+      )
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as ContentTranslation;
+  },
+
+  async deleteTranslation(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('content_translations')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Core modules
+  async updateCaseStudy(id: string, updates: TablesUpdate<'case_studies'>, expectedUpdatedAt?: string): Promise<Tables<'case_studies'>> {
+    let query = supabase
+      .from('case_studies')
       .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('case_studies', id, expectedUpdatedAt);
+    return data;
+  },
+
+  async updateLabProject(id: string, updates: TablesUpdate<'lab_projects'>, expectedUpdatedAt?: string): Promise<Tables<'lab_projects'>> {
+    let query = supabase
+      .from('lab_projects')
+      .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('lab_projects', id, expectedUpdatedAt);
+    return data;
+  },
+
+  async updateJob(id: string, updates: TablesUpdate<'jobs'>, expectedUpdatedAt?: string): Promise<Tables<'jobs'>> {
+    let query = supabase
+      .from('jobs')
+      .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('jobs', id, expectedUpdatedAt);
+    return data;
+  },
+
+  // Edit locks
+  async getContentVersion(entityType: EditableEntityType, id: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from(EDITABLE_TABLES[entityType])
+      .select('updated_at')
       .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.updated_at ?? null;
+  },
+
+  // Takes or renews the lock; returns someone else's lock unchanged unless taking over
+  async acquireContentLock(entityType: EditableEntityType, entityId: string, takeover = false): Promise<ContentLock> {
+    const { data, error } = await supabase.rpc('acquire_content_lock', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_takeover: takeover,
+    });
+
+    if (error) throw error;
+    const { data: holder } = await supabase
+      .from('profiles')
+      .select('email')
+      .eq('id', data.locked_by)
+      .maybeSingle();
+
+    return {
+      ...data,
+      entity_type: data.entity_type as EditableEntityType,
+      locked_by_email: holder?.email ?? null,
+    };
+  },
+
+  async releaseContentLock(entityType: EditableEntityType, entityId: string): Promise<void> {
+    const { error } = await supabase.rpc('release_content_lock', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+    });
+
+    if (error) throw error;
+  },
+
+  // Autosaved editor drafts; each user only sees their own
+  async getEditorDraft<T>(entityType: AutosaveEntityType, entityKey: string): Promise<EditorDraft<T> | null> {
+    const { data, error } = await supabase
+      .from('editor_drafts')
+      .select('entity_type, entity_key, data, base_updated_at, saved_at')
+      .eq('entity_type', entityType)
+      .eq('entity_key', entityKey)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    return {
+      ...data,
+      entity_type: data.entity_type as AutosaveEntityType,
+      data: data.data as T,
+    };
+  },
+
+  async saveEditorDraft<T>(draft: EditorDraft<T>): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('editor_drafts')
+      .upsert({
+        user_id: user.id,
+        entity_type: draft.entity_type,
+        entity_key: draft.entity_key,
+        data: draft.data as Json,
+        base_updated_at: draft.base_updated_at,
+        saved_at: draft.saved_at,
+      }, { onConflict: 'user_id,entity_type,entity_key' });
+
+    if (error) throw error;
+  },
+
+  async deleteEditorDraft(entityType: AutosaveEntityType, entityKey: string): Promise<void> {
+    const { error } = await supabase
+      .from('editor_drafts')
+      .delete()
+      .eq('entity_type', entityType)
+      .eq('entity_key', entityKey);
+
+    if (error) throw error;
+  },
+
+  // Content calendar
+  async getCalendarItems(from: Date, to: Date): Promise<CalendarItem[]> {
+    const entityTypes = Object.keys(CALENDAR_TABLES) as CalendarEntityType[];
+    const results = await Promise.all(
+      entityTypes.map(entityType => getCalendarRows(entityType, from.toISOString(), to.toISOString()))
+    );
+    return results.flat();
+  },
+
+  // Moves the publish date of live content, or the schedule of scheduled content; returns
+  // the new updated_at. Fails with a StaleContentError when the item changed since loading.
+  async rescheduleCalendarItem(item: CalendarItem, date: string): Promise<string> {
+    const table = CALENDAR_TABLES[item.entity_type];
+    const { data, error } = await supabase
+      .from(table)
+      .update(item.scheduled ? { publish_at: date } : { published_at: date })
+      .eq('id', item.id)
+      .eq('updated_at', item.updated_at)
+      .select('updated_at')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError(table, item.id, item.updated_at);
+    return data.updated_at;
+  },
+
+  // Redirects
+  async getAllRedirects(): Promise<Redirect[]> {
+    const { data, error } = await supabase
+      .from('redirects')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as Redirect[];
+  },
+
+  async createRedirect(redirect: Pick<Redirect, 'source_path' | 'target_path' | 'status_code' | 'match_type' | 'is_active' | 'note'>): Promise<Redirect> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('redirects')
+      .insert({ ...redirect, created_by: user?.id ?? null })
       .select()
       .single();
 
     if (error) throw error;
-    return data as Page;
+    return data as Redirect;
   },
 
-  async deletePage(id: string): Promise<void> {
+  async updateRedirect(id: string, updates: Partial<Pick<Redirect, 'source_path' | 'target_path' | 'status_code' | 'match_type' | 'is_active' | 'note'>>, expectedUpdatedAt?: string): Promise<Redirect> {
+    let query = supabase
+      .from('redirects')
+      .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('redirects', id, expectedUpdatedAt);
+    return data as Redirect;
+  },
+
+  async deleteRedirect(id: string): Promise<void> {
     const { error } = await supabase
-      .from('pages')
+      .from('redirects')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Keep an old URL working after a slug change. `from` and `to` are slugs, or for pages
+   * the nested path (optionally with a trailing wildcard). Errors are logged rather than
+   * thrown because the content itself has already been saved.
+   */
+  async redirectSlugChange(entityType: RedirectEntityType, entityId: string, from: string, to: string): Promise<void> {
+    const fromPath = getEntityPath(entityType, from);
+    const toPath = getEntityPath(entityType, to);
+    if (fromPath === toPath) return;
+
+    try {
+      // The new path is live content now; a redirect away from it could only cause a loop
+      const { error: deleteError } = await supabase.from('redirects').delete().eq('source_path', toPath);
+      if (deleteError) throw deleteError;
+
+      // Send earlier redirects straight to the new path instead of chaining through the old one
+      const { error: chainError } = await supabase.from('redirects').update({ target_path: toPath }).eq('target_path', fromPath);
+      if (chainError) throw chainError;
+
+      const { error } = await supabase.from('redirects').upsert({
+        source_path: fromPath,
+        target_path: toPath,
+        status_code: 301,
+        match_type: getRedirectMatchType(fromPath),
+        is_active: true,
+        entity_type: entityType,
+        entity_id: entityId,
+      }, { onConflict: 'source_path' });
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Failed to create redirect from ${fromPath} to ${toPath}:`, error);
+    }
+  },
+
+  // Menus
+  async getAllMenus(): Promise<Menu[]> {
+    const { data, error } = await supabase
+      .from('menus')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as Menu[];
+  },
+
+  async createMenu(menu: Pick<Menu, 'name' | 'slug' | 'description'>): Promise<Menu> {
+    const { data, error } = await supabase
+      .from('menus')
+      .insert(menu)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Menu;
+  },
+
+  async updateMenu(id: string, updates: Partial<Pick<Menu, 'name' | 'slug' | 'description'>>): Promise<Menu> {
+    const { data, error } = await supabase
+      .from('menus')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Menu;
+  },
+
+  async deleteMenu(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('menus')
       .delete()
       .eq('id', id);
 
     if (error) throw error;
   },
 
+  async getMenuItems(menuId: string): Promise<MenuItem[]> {
+    const { data, error } = await supabase
+      .from('menu_items')
+      .select('*')
+      .eq('menu_id', menuId)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as MenuItem[];
+  },
+
+  /**
+   * Replace a menu's items with the given rows (see flattenMenuTree). Rows keep their ids,
+   * so new items need a client-generated id; items missing from the list are deleted.
+   */
+  async saveMenuItems(menuId: string, items: MenuItem[]): Promise<MenuItem[]> {
+    const { data: existing, error } = await supabase
+      .from('menu_items')
+      .select('id')
+      .eq('menu_id', menuId);
+
+    if (error) throw error;
+
+    const keep = new Set(items.map(item => item.id));
+    const removed = (existing || []).map(row => row.id).filter(id => !keep.has(id));
+    if (removed.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('menu_items')
+        .delete()
+        .in('id', removed);
+
+      if (deleteError) throw deleteError;
+    }
+
+    if (items.length > 0) {
+      // One statement, so parents and children inserted together satisfy the foreign key
+      const { error: upsertError } = await supabase
+        .from('menu_items')
+        .upsert(items.map(item => ({ ...item, menu_id: menuId })));
+
+      if (upsertError) throw upsertError;
+    }
+
+    return this.getMenuItems(menuId);
+  },
+
+  // Content that menu items can link to, by id
+  async getMenuLinkTargets(type: MenuEntityType): Promise<ContentOption[]> {
+    const toOptions = (rows: { id: string; title: string; status: string }[] | null) =>
+      (rows || []).map(row => ({ id: row.id, label: row.title, status: row.status, facets: [] }));
+
+    switch (type) {
+      case 'page': {
+        const { data, error } = await supabase.from('pages').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'service': {
+        const { data, error } = await supabase.from('services').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'project': {
+        const { data, error } = await supabase.from('projects').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'blog_post': {
+        const { data, error } = await supabase.from('blog_posts').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'case_study': {
+        const { data, error } = await supabase.from('case_studies').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'lab_project': {
+        const { data, error } = await supabase.from('lab_projects').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+      case 'job': {
+        const { data, error } = await supabase.from('jobs').select('id, title, status').order('title');
+        if (error) throw error;
+        return toOptions(data);
+      }
+    }
+  },
+
+  // Pages whose body embeds the given global section
+  async getGlobalSectionUsage(id: string): Promise<GlobalSectionUsage[]> {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('id, title, slug, status')
+      .contains('body', { sections: [{ type: 'globalSection', data: { globalSectionId: id } }] })
+      .order('title', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(page => ({
+      ...page,
+      status: page.status as 'draft' | 'published',
+    }));
+  },
+
+  // Preview Links
+  async getPreviewTokens(entityType: PreviewEntityType, entityId: string): Promise<PreviewToken[]> {
+    const { data, error } = await supabase
+      .from('preview_tokens')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as PreviewToken[];
+  },
+
+  async createPreviewToken(entityType: PreviewEntityType, entityId: string, expiresInHours: number): Promise<PreviewToken> {
+    const { data, error } = await supabase.rpc('create_preview_token', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_expires_in_hours: expiresInHours,
+    });
+
+    if (error) throw error;
+    return data as PreviewToken;
+  },
+
+  async revokePreviewToken(id: string): Promise<void> {
+    const { error } = await supabase.rpc('revoke_preview_token', { p_id: id });
+
+    if (error) throw error;
+  },
+
   // Contact Submissions
   async getAllContactSubmissions(): Promise<ContactSubmission[]> {
     const { data, error } = await supabase
@@ -629,15 +1653,16 @@ export const adminCms = {
     };
   },
 
-  async updateBlogCategory(id: string, updates: Partial<BlogCategory>): Promise<BlogCategory> {
-    const { data, error } = await supabase
+  async updateBlogCategory(id: string, updates: Partial<BlogCategory>, expectedUpdatedAt?: string): Promise<BlogCategory> {
+    let query = supabase
       .from('blog_categories')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-    
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
     if (error) throw error;
+    if (!data) throw await getUpdateMissError('blog_categories', id, expectedUpdatedAt);
     return {
       ...data,
       status: data.status as 'draft' | 'published'
@@ -691,6 +1716,93 @@ export const adminCms = {
     }));
   },
 
+  // Blog Authors CRUD
+  async getAllBlogAuthors(): Promise<BlogAuthor[]> {
+    const { data, error } = await supabase
+      .from('blog_authors')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(toBlogAuthor);
+  },
+
+  async createBlogAuthor(author: Omit<BlogAuthor, 'id' | 'created_at' | 'updated_at'>): Promise<BlogAuthor> {
+    const { data, error } = await supabase
+      .from('blog_authors')
+      .insert(author)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toBlogAuthor(data);
+  },
+
+  async updateBlogAuthor(id: string, updates: Partial<BlogAuthor>, expectedUpdatedAt?: string): Promise<BlogAuthor> {
+    let query = supabase
+      .from('blog_authors')
+      .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('blog_authors', id, expectedUpdatedAt);
+    return toBlogAuthor(data);
+  },
+
+  async deleteBlogAuthor(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('blog_authors')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Blog Post Author Assignments (in byline order)
+  async assignBlogPostAuthors(blogPostId: string, authorIds: string[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('blog_post_authors')
+      .delete()
+      .eq('blog_post_id', blogPostId);
+
+    if (deleteError) throw deleteError;
+
+    if (authorIds.length > 0) {
+      const { error } = await supabase
+        .from('blog_post_authors')
+        .insert(authorIds.map((authorId, index) => ({
+          blog_post_id: blogPostId,
+          author_id: authorId,
+          sort_order: index,
+        })));
+
+      if (error) throw error;
+    }
+  },
+
+  // Blog Tags (stored on the posts themselves)
+  async getBlogTagUsage(): Promise<BlogTagUsage[]> {
+    const { data, error } = await supabase
+      .from('blog_posts')
+      .select('tags, status');
+
+    if (error) throw error;
+    return countBlogTags(data || []);
+  },
+
+  // Renames (one tag), merges (several) or deletes (to = null) tags on every post
+  async rewriteBlogTags(from: string[], to: string | null): Promise<number> {
+    const { data, error } = await supabase.rpc('rewrite_blog_tags', {
+      p_from: from,
+      p_to: to === null ? null : normalizeTag(to),
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  },
+
   // FAQs CRUD
   async getAllFAQs(): Promise<FAQ[]> {
     const { data, error } = await supabase
@@ -720,15 +1832,16 @@ export const adminCms = {
     };
   },
 
-  async updateFAQ(id: string, updates: Partial<FAQ>): Promise<FAQ> {
-    const { data, error } = await supabase
+  async updateFAQ(id: string, updates: Partial<FAQ>, expectedUpdatedAt?: string): Promise<FAQ> {
+    let query = supabase
       .from('faqs')
       .update(updates)
-      .eq('id', id)
-      .select()
-      .single();
-    
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
     if (error) throw error;
+    if (!data) throw await getUpdateMissError('faqs', id, expectedUpdatedAt);
     return {
       ...data,
       status: data.status as 'draft' | 'published'
@@ -744,6 +1857,89 @@ export const adminCms = {
     if (error) throw error;
   },
 
+  // Pricing tiers CRUD
+  async getAllPricingTiers(): Promise<PricingTier[]> {
+    const { data, error } = await supabase
+      .from('pricing_tiers')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as PricingTier[];
+  },
+
+  async createPricingTier(tier: Omit<PricingTier, 'id' | 'created_at' | 'updated_at'>): Promise<PricingTier> {
+    const { data, error } = await supabase
+      .from('pricing_tiers')
+      .insert(tier)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as PricingTier;
+  },
+
+  async updatePricingTier(id: string, updates: Partial<PricingTier>, expectedUpdatedAt?: string): Promise<PricingTier> {
+    let query = supabase
+      .from('pricing_tiers')
+      .update(updates)
+      .eq('id', id);
+    if (expectedUpdatedAt) query = query.eq('updated_at', expectedUpdatedAt);
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw await getUpdateMissError('pricing_tiers', id, expectedUpdatedAt);
+    return data as PricingTier;
+  },
+
+  async deletePricingTier(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('pricing_tiers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Items a content list section can select manually, drafts included
+  async getContentOptions(source: ContentListSource): Promise<ContentOption[]> {
+    switch (source) {
+      case 'faqs': {
+        const { data, error } = await supabase
+          .from('faqs')
+          .select('id, question, status')
+          .order('sort_order', { ascending: true });
+        if (error) throw error;
+        return (data || []).map(item => ({ id: item.id, label: item.question, status: item.status, facets: [] }));
+      }
+      case 'case_studies': {
+        const { data, error } = await supabase
+          .from('case_studies')
+          .select('id, title, status, industry')
+          .order('published_at', { ascending: false });
+        if (error) throw error;
+        return (data || []).map(item => ({ id: item.id, label: item.title, status: item.status, facets: item.industry ? [item.industry] : [] }));
+      }
+      case 'lab_projects': {
+        const { data, error } = await supabase
+          .from('lab_projects')
+          .select('id, title, status, tags')
+          .order('published_at', { ascending: false });
+        if (error) throw error;
+        return (data || []).map(item => ({ id: item.id, label: item.title, status: item.status, facets: item.tags || [] }));
+      }
+      case 'jobs': {
+        const { data, error } = await supabase
+          .from('jobs')
+          .select('id, title, status, team')
+          .order('published_at', { ascending: false });
+        if (error) throw error;
+        return (data || []).map(item => ({ id: item.id, label: item.title, status: item.status, facets: item.team ? [item.team] : [] }));
+      }
+    }
+  },
+
   // Export CSV
   exportToCSV,
 
@@ -822,4 +2018,13 @@ export function exportToCSV(data: any[], filename: string) {
   link.href = URL.createObjectURL(blob);
   link.download = filename;
   link.click();
-}
\ No newline at end of file
+}
+
+// JSON export utility (content is already serialized)
+export function exportToJSON(json: string, filename: string) {
+  const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+}
@@ -9,6 +9,8 @@ import {
   getRoleLevel 
 } from './auth-middleware';
 import { toast } from 'sonner';
+import { canPerformWorkflowAction as canPerformWorkflowActionForRole } from './workflow';
+import type { WorkflowAction, WorkflowState } from '@/types/content';
 
 interface AuthContextType {
   user: User | null;
@@ -22,6 +24,7 @@ interface AuthContextType {
   refreshSession: () => Promise<void>;
   hasPermission: (requiredRoles: string[]) => boolean;
   hasMinimumRole: (minimumRole: string) => boolean;
+  canPerformWorkflowAction: (action: Exclude<WorkflowAction, 'comment'>, state: WorkflowState) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -407,6 +410,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   // Memoize computed values to prevent unnecessary re-renders
   const isAdmin = useMemo(() => userRole === 'admin', [userRole]);
   const isEditor = useMemo(() => userRole === 'editor' || userRole === 'admin', [userRole]);
+
+  const canPerformWorkflowAction = useCallback((action: Exclude<WorkflowAction, 'comment'>, state: WorkflowState) => {
+    return canPerformWorkflowActionForRole(action, state, { isAdmin, isEditor });
+  }, [isAdmin, isEditor]);
   
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
@@ -421,6 +428,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     refreshSession,
     hasPermission,
     hasMinimumRole,
+    canPerformWorkflowAction,
   }), [
     user, 
     session, 
@@ -433,7 +441,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     signOut, 
     refreshSession, 
     hasPermission, 
-    hasMinimumRole
+    hasMinimumRole,
+    canPerformWorkflowAction
   ]);
 
   return (
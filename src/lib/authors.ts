@@ -0,0 +1,54 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { BlogAuthor, BlogAuthorSocialLinks, BlogAuthorSocialNetwork } from '@/types/content';
+import { generatePersonStructuredData, type PersonStructuredData } from '@/lib/seo-advanced';
+
+export const BLOG_AUTHOR_SOCIAL_NETWORKS: { value: BlogAuthorSocialNetwork; label: string; placeholder: string }[] = [
+  { value: 'website', label: 'Website', placeholder: 'https://example.com' },
+  { value: 'twitter', label: 'X (Twitter)', placeholder: 'https://x.com/handle' },
+  { value: 'linkedin', label: 'LinkedIn', placeholder: 'https://linkedin.com/in/name' },
+  { value: 'github', label: 'GitHub', placeholder: 'https://github.com/name' },
+];
+
+// social_links is free-form JSON; only known networks with http(s) URLs are kept
+export function normalizeSocialLinks(value: unknown): BlogAuthorSocialLinks {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const links: BlogAuthorSocialLinks = {};
+  for (const { value: network } of BLOG_AUTHOR_SOCIAL_NETWORKS) {
+    const url = (value as Record<string, unknown>)[network];
+    if (typeof url === 'string' && /^https?:\/\/\S+$/i.test(url.trim())) links[network] = url.trim();
+  }
+  return links;
+}
+
+export function toBlogAuthor(row: Omit<BlogAuthor, 'status' | 'social_links'> & { status: string; social_links: Json }): BlogAuthor {
+  return {
+    ...row,
+    status: row.status as 'draft' | 'published',
+    social_links: normalizeSocialLinks(row.social_links),
+  };
+}
+
+export function getAuthorPath(author: Pick<BlogAuthor, 'slug'>): string {
+  return `/blog/author/${author.slug}`;
+}
+
+/** "Ada", "Ada and Grace", "Ada, Grace and Linus" */
+export function formatAuthorNames(authors: Pick<BlogAuthor, 'name'>[]): string {
+  const names = authors.map(author => author.name);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0] ?? '';
+}
+
+export function getAuthorInitials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+}
+
+export function getAuthorStructuredData(author: BlogAuthor, origin: string): PersonStructuredData {
+  return generatePersonStructuredData({
+    name: author.name,
+    url: `${origin}${getAuthorPath(author)}`,
+    jobTitle: author.job_title,
+    description: author.bio,
+    image: author.avatar_url,
+    sameAs: Object.values(author.social_links),
+  });
+}
@@ -0,0 +1,69 @@
+import type { AutosaveEntityType, EditorDraft } from '@/types/content';
+
+// Autosave for the admin editors. Unsaved editor state is written to localStorage shortly
+// after every change and copied to editor_drafts (see the editor drafts migration) every
+// half minute, so it survives a crashed tab as well as an expired session.
+
+export const AUTOSAVE_LOCAL_DELAY_MS = 1000;
+export const AUTOSAVE_SERVER_INTERVAL_MS = 30 * 1000;
+
+// Drafts are per user, so someone else signing in on the same browser does not see them
+export function getAutosaveStorageKey(userId: string, entityType: AutosaveEntityType, entityKey: string): string {
+  return `autosave:${userId}:${entityType}:${entityKey}`;
+}
+
+export function readLocalDraft<T>(key: string): EditorDraft<T> | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as EditorDraft<T> : null;
+  } catch {
+    return null;
+  }
+}
+
+// Storage can be full or disabled; the server copy still covers that case
+export function writeLocalDraft<T>(key: string, draft: EditorDraft<T>): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(draft));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function removeLocalDraft(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing to clean up
+  }
+}
+
+// Bookkeeping columns change on every save without the user changing anything
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at']);
+
+/** Serializes editor state for comparison, ignoring bookkeeping columns at any depth */
+export function getDraftFingerprint(value: unknown): string {
+  return JSON.stringify(value ?? null, (key, fieldValue) => (IGNORED_FIELDS.has(key) ? undefined : fieldValue));
+}
+
+export function pickNewestDraft<T>(...drafts: (EditorDraft<T> | null | undefined)[]): EditorDraft<T> | null {
+  return drafts.reduce<EditorDraft<T> | null>((newest, draft) => {
+    if (!draft) return newest;
+    if (!newest) return draft;
+    return new Date(draft.saved_at).getTime() > new Date(newest.saved_at).getTime() ? draft : newest;
+  }, null);
+}
+
+// The content was saved (by anyone) after the draft was started
+export function isDraftOutdated(draft: EditorDraft, currentUpdatedAt?: string | null): boolean {
+  if (!draft.base_updated_at || !currentUpdatedAt) return false;
+  return new Date(currentUpdatedAt).getTime() > new Date(draft.base_updated_at).getTime();
+}
+
+// Expired or missing sessions, as reported by PostgREST and the auth client
+export function isAuthError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { code, status, message } = error as { code?: string; status?: number; message?: string };
+  return code === 'PGRST301' || status === 401 || /jwt|not authenticated|invalid claim/i.test(message || '');
+}
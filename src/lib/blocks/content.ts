@@ -0,0 +1,117 @@
+import { parseInline, type MarkdownInline } from '@/lib/sections/markdown';
+import { parseBlogBody, type ContentBlock, type ListItem } from './schema';
+
+// Derived data for blog bodies (plain text, headings, reading time) and the text
+// conversions used by the block editor.
+
+function inlineToText(nodes: MarkdownInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.value;
+      case 'break':
+        return ' ';
+      default:
+        return inlineToText(node.children);
+    }
+  }).join('');
+}
+
+/** Inline markdown without its formatting, for headings, excerpts and word counts */
+export function toPlainText(text: string): string {
+  return inlineToText(parseInline(text));
+}
+
+const listText = (items: ListItem[]): string[] =>
+  items.flatMap(item => [toPlainText(item.content), ...listText(item.items)]);
+
+export function getBlockText(block: ContentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'header':
+    case 'quote':
+      return toPlainText(block.data.text);
+    case 'callout':
+      return [block.data.title, toPlainText(block.data.text)].filter(Boolean).join(' ');
+    case 'list':
+      return listText(block.data.items).join(' ');
+    case 'table':
+      return block.data.content.flat().join(' ');
+    case 'image':
+    case 'embed':
+      return block.data.caption || '';
+    default:
+      return '';
+  }
+}
+
+export function getHeadingId(block: ContentBlock): string {
+  return `heading-${block.id}`;
+}
+
+export interface BlockHeading {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export function getBlockHeadings(body: unknown): BlockHeading[] {
+  return parseBlogBody(body).flatMap(block => (
+    block.type === 'header' ? [{ id: getHeadingId(block), text: toPlainText(block.data.text), level: block.data.level }] : []
+  ));
+}
+
+const WORDS_PER_MINUTE = 200;
+
+export function getReadingTime(body: unknown): number {
+  const words = parseBlogBody(body)
+    .map(getBlockText)
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+// Lists are edited as text, one item per line, two spaces of indent per nesting level
+const INDENT = '  ';
+
+export function listItemsToText(items: ListItem[], depth = 0): string {
+  return items
+    .map(item => [`${INDENT.repeat(depth)}${item.content}`, ...(item.items.length ? [listItemsToText(item.items, depth + 1)] : [])].join('\n'))
+    .join('\n');
+}
+
+export function textToListItems(text: string): ListItem[] {
+  const root: ListItem[] = [];
+  // The open item at each depth, so deeper lines nest under the closest shallower one
+  const parents: ListItem[][] = [root];
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return;
+    const indent = line.match(/^\s*/)?.[0].replace(/\t/g, INDENT).length ?? 0;
+    const depth = Math.min(Math.floor(indent / INDENT.length), parents.length - 1);
+    const item: ListItem = { content: line.trim(), items: [] };
+    parents[depth].push(item);
+    parents.length = depth + 1;
+    parents.push(item.items);
+  });
+
+  return root;
+}
+
+export interface TextSelection {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/** Wraps the selected text in markers (e.g. `**`), keeping the same text selected */
+export function wrapSelection(value: string, start: number, end: number, before: string, after = before): TextSelection {
+  const selected = value.slice(start, end);
+  return {
+    value: `${value.slice(0, start)}${before}${selected}${after}${value.slice(end)}`,
+    start: start + before.length,
+    end: end + before.length,
+  };
+}
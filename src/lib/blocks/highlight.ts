@@ -0,0 +1,165 @@
+// Lightweight syntax highlighting for code blocks: comments, strings, numbers and
+// keywords per language. Tokens are rendered as React text, so code is never parsed as HTML.
+
+export const CODE_LANGUAGE_VALUES = [
+  'plaintext', 'javascript', 'typescript', 'json', 'html', 'css', 'python', 'bash', 'sql',
+] as const;
+
+export type CodeLanguage = typeof CODE_LANGUAGE_VALUES[number];
+
+export const CODE_LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: 'plaintext', label: 'Plain text' },
+  { value: 'javascript', label: 'JavaScript' },
+  { value: 'typescript', label: 'TypeScript' },
+  { value: 'json', label: 'JSON' },
+  { value: 'html', label: 'HTML' },
+  { value: 'css', label: 'CSS' },
+  { value: 'python', label: 'Python' },
+  { value: 'bash', label: 'Shell' },
+  { value: 'sql', label: 'SQL' },
+];
+
+const LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  js: 'javascript', jsx: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  xml: 'html', xhtml: 'html', markup: 'html',
+  scss: 'css',
+  py: 'python',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  postgres: 'sql', postgresql: 'sql', mysql: 'sql',
+  text: 'plaintext', txt: 'plaintext', plain: 'plaintext',
+};
+
+/** Maps a language name from an imported code fence or class (e.g. `js`, `language-ts`) to a supported language */
+export function getCodeLanguage(name: string | null | undefined): CodeLanguage {
+  const value = (name ?? '').trim().toLowerCase().replace(/^(language|lang)-/, '');
+  if ((CODE_LANGUAGE_VALUES as readonly string[]).includes(value)) return value as CodeLanguage;
+  return LANGUAGE_ALIASES[value] ?? 'plaintext';
+}
+
+export type CodeTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  value: string;
+}
+
+interface LanguageRules {
+  comments: RegExp[];
+  strings: RegExp[];
+  keywords?: string[];
+  /** Matched as keywords in addition to the word list, e.g. HTML tag names */
+  keywordPattern?: RegExp;
+  caseInsensitive?: boolean;
+}
+
+const LINE_COMMENT = /\/\/[^\n]*/;
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//;
+const HASH_COMMENT = /#[^\n]*/;
+const DOUBLE_QUOTED = /"(?:\\.|[^"\\\n])*"/;
+const SINGLE_QUOTED = /'(?:\\.|[^'\\\n])*'/;
+const BACKTICK_QUOTED = /`(?:\\.|[^`\\])*`/;
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do',
+  'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in',
+  'instanceof', 'let', 'new', 'null', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+const LANGUAGE_RULES: Record<Exclude<CodeLanguage, 'plaintext'>, LanguageRules> = {
+  javascript: {
+    comments: [LINE_COMMENT, BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+    keywords: JS_KEYWORDS,
+  },
+  typescript: {
+    comments: [LINE_COMMENT, BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICK_QUOTED],
+    keywords: [
+      ...JS_KEYWORDS, 'abstract', 'any', 'as', 'boolean', 'declare', 'enum', 'implements', 'interface',
+      'keyof', 'never', 'number', 'private', 'protected', 'public', 'readonly', 'string', 'type', 'unknown',
+    ],
+  },
+  json: {
+    comments: [],
+    strings: [DOUBLE_QUOTED],
+    keywords: ['true', 'false', 'null'],
+  },
+  html: {
+    comments: [/<!--[\s\S]*?-->/],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywordPattern: /<\/?[a-zA-Z][\w-]*|\/?>/,
+  },
+  css: {
+    comments: [BLOCK_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywordPattern: /@[\w-]+|!important/,
+  },
+  python: {
+    comments: [HASH_COMMENT],
+    strings: [/"""[\s\S]*?"""/, /'''[\s\S]*?'''/, DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+      'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'None',
+      'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'self', 'True', 'try', 'while', 'with', 'yield',
+    ],
+  },
+  bash: {
+    comments: [HASH_COMMENT],
+    strings: [DOUBLE_QUOTED, SINGLE_QUOTED],
+    keywords: [
+      'case', 'cd', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if',
+      'in', 'local', 'npm', 'npx', 'return', 'sudo', 'then', 'while',
+    ],
+  },
+  sql: {
+    comments: [/--[^\n]*/, BLOCK_COMMENT],
+    strings: [SINGLE_QUOTED],
+    keywords: [
+      'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'by', 'case', 'create', 'delete', 'desc', 'distinct',
+      'drop', 'else', 'end', 'exists', 'from', 'function', 'group', 'having', 'in', 'index', 'insert', 'into',
+      'is', 'join', 'left', 'like', 'limit', 'not', 'null', 'on', 'or', 'order', 'primary', 'references',
+      'returns', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'when', 'where', 'with',
+    ],
+    caseInsensitive: true,
+  },
+};
+
+const NUMBER = /\b\d+(?:\.\d+)?\b/;
+const WORD = /[A-Za-z_$][\w$]*/;
+
+const alternatives = (patterns: RegExp[]) => patterns.map(pattern => pattern.source).join('|') || '(?!)';
+
+export function highlightCode(code: string, language: string): CodeToken[] {
+  const rules = LANGUAGE_RULES[language as Exclude<CodeLanguage, 'plaintext'>];
+  if (!rules) return [{ type: 'plain', value: code }];
+
+  const keywords = new Set((rules.keywords ?? []).map(word => (rules.caseInsensitive ? word.toLowerCase() : word)));
+  const pattern = new RegExp(
+    `(${alternatives(rules.comments)})|(${alternatives(rules.strings)})|(${rules.keywordPattern?.source ?? '(?!)'})|(${NUMBER.source})|(${WORD.source})`,
+    'g'
+  );
+
+  const tokens: CodeToken[] = [];
+  const push = (type: CodeTokenType, value: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.value += value;
+    else tokens.push({ type, value });
+  };
+
+  let position = 0;
+  for (const match of code.matchAll(pattern)) {
+    const [whole, comment, string, keyword, number] = match;
+    push('plain', code.slice(position, match.index));
+    if (comment !== undefined) push('comment', whole);
+    else if (string !== undefined) push('string', whole);
+    else if (keyword !== undefined) push('keyword', whole);
+    else if (number !== undefined) push('number', whole);
+    else push(keywords.has(rules.caseInsensitive ? whole.toLowerCase() : whole) ? 'keyword' : 'plain', whole);
+    position = (match.index ?? 0) + whole.length;
+  }
+  push('plain', code.slice(position));
+
+  return tokens.filter(token => token.value !== '');
+}
@@ -0,0 +1,283 @@
+import { resolveEmbed } from '@/lib/sections/embeds';
+import { sanitizeUrl } from '@/lib/sections/markdown';
+import { getCodeLanguage } from './highlight';
+import { toHeaderLevel } from './markdown';
+import { createBlockId, type ContentBlock, type ListItem } from './schema';
+
+// Converts post HTML (e.g. WordPress `content:encoded`) into blog blocks. The HTML is only
+// read through DOMParser, which does not run scripts or load images; inline formatting is
+// turned into block inline markdown and anything without a block equivalent is reported.
+
+export interface HtmlConversion {
+  blocks: ContentBlock[];
+  warnings: string[];
+}
+
+const CONTAINER_TAGS = ['DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'FOOTER', 'ASIDE', 'CENTER'];
+const DROPPED_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'FORM', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA'];
+const BLOCK_TAGS = ['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'BLOCKQUOTE', 'PRE', 'FIGURE', 'TABLE', 'HR', 'IMG', 'IFRAME', ...CONTAINER_TAGS, ...DROPPED_TAGS];
+
+// WordPress shortcodes that wrap content we can convert; others are removed and reported
+function expandShortcodes(html: string, warnings: string[]): string {
+  return html
+    .replace(/\[caption[^\]]*\]([\s\S]*?)\[\/caption\]/gi, (_, inner: string) => {
+      const image = /^\s*(<a[^>]*>\s*<img[^>]*>\s*<\/a>|<img[^>]*>)([\s\S]*)$/i.exec(inner);
+      return image ? `<figure>${image[1]}<figcaption>${image[2].trim()}</figcaption></figure>` : inner;
+    })
+    .replace(/\[embed\]([\s\S]*?)\[\/embed\]/gi, '<p>$1</p>')
+    .replace(/\[(\/?)([a-z][\w-]*)([^\]]*)\]/gi, (match, closing: string, name: string) => {
+      // Link text such as "[1]" or "[sic]" is left alone; only known shortcode shapes are removed
+      if (!/^(gallery|audio|video|playlist|contact-form[\w-]*|vc_[\w-]+|et_pb_[\w-]+|fusion_[\w-]+)$/i.test(name)) return match;
+      if (!closing) warnings.push(`Removed the [${name}] shortcode`);
+      return '';
+    });
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return collapseWhitespace(node.textContent ?? '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const inner = () => Array.from(element.childNodes).map(inlineMarkdown).join('');
+  const wrap = (marker: string) => {
+    const text = inner();
+    const trimmed = text.trim();
+    // Markers go inside surrounding spaces, or the markdown would not parse
+    return trimmed ? `${text.match(/^\s*/)?.[0]}${marker}${trimmed}${marker}${text.match(/\s*$/)?.[0]}` : text;
+  };
+
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      return wrap('**');
+    case 'EM':
+    case 'I':
+      return wrap('*');
+    case 'CODE':
+    case 'KBD':
+      return element.textContent ? `\`${element.textContent}\`` : '';
+    case 'BR':
+      return '  \n';
+    case 'A': {
+      const text = inner();
+      const href = sanitizeUrl(element.getAttribute('href') ?? '');
+      return href && text.trim() ? `[${text.trim()}](${href.replace(/\s/g, '%20').replace(/\)/g, '%29')})` : text;
+    }
+    case 'IMG':
+    case 'SCRIPT':
+    case 'STYLE':
+      return '';
+    default:
+      return inner();
+  }
+}
+
+function textOf(element: Element): string {
+  return Array.from(element.childNodes).map(inlineMarkdown).join('').replace(/ *\n */g, '  \n').trim();
+}
+
+function imageBlock(image: Element, caption?: string): ContentBlock | null {
+  const url = image.getAttribute('src') ?? '';
+  if (!sanitizeUrl(url)) return null;
+  return {
+    id: createBlockId(),
+    type: 'image',
+    data: { url, alt: image.getAttribute('alt') ?? '', ...(caption && { caption }) },
+  };
+}
+
+function listItems(list: Element): ListItem[] {
+  return Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map(item => {
+      const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+      const content = Array.from(item.childNodes)
+        .filter(child => !nested.includes(child as Element))
+        .map(inlineMarkdown)
+        .join('')
+        .trim();
+      return { content, items: nested.flatMap(listItems) };
+    });
+}
+
+function tableBlock(table: Element): ContentBlock | null {
+  const rows = Array.from(table.querySelectorAll('tr'));
+  if (!rows.length) return null;
+  const content = rows.map(row => Array.from(row.children).map(cell => textOf(cell).replace(/ {2}\n/g, ' ')));
+  const width = Math.max(...content.map(row => row.length));
+  return {
+    id: createBlockId(),
+    type: 'table',
+    data: {
+      withHeadings: !!table.querySelector('thead') || Array.from(rows[0].children).every(cell => cell.tagName === 'TH'),
+      content: content.map(row => [...row, ...Array(width - row.length).fill('')]),
+    },
+  };
+}
+
+function codeLanguage(pre: Element): string {
+  const classes = `${pre.className} ${pre.querySelector('code')?.className ?? ''}`;
+  // Prism/highlight.js use language-*; the SyntaxHighlighter plugin uses "brush: js"
+  return /(?:language|lang)-([\w+#-]+)/.exec(classes)?.[1] ?? /brush:\s*([\w+#-]+)/.exec(classes)?.[1] ?? '';
+}
+
+class HtmlBlockConverter {
+  blocks: ContentBlock[] = [];
+  warnings: string[] = [];
+  private inline = '';
+
+  flushParagraph() {
+    const text = this.inline.replace(/ *\n */g, '  \n').trim();
+    this.inline = '';
+    if (!text) return;
+    const url = /^(https?:\/\/\S+)$/.exec(text);
+    // WordPress turns a URL on its own line into an embed
+    if (url && resolveEmbed(url[1])) this.blocks.push({ id: createBlockId(), type: 'embed', data: { url: url[1] } });
+    else this.blocks.push({ id: createBlockId(), type: 'paragraph', data: { text } });
+  }
+
+  convertChildren(parent: Node) {
+    parent.childNodes.forEach(child => this.convertNode(child));
+  }
+
+  convertNode(node: Node) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      // Text between block elements is classic editor content: blank lines separate paragraphs
+      const parts = (node.textContent ?? '').split(/\n\s*\n/);
+      parts.forEach((part, index) => {
+        if (index > 0) this.flushParagraph();
+        this.inline += collapseWhitespace(part);
+      });
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (!BLOCK_TAGS.includes(element.tagName)) {
+      this.inline += inlineMarkdown(element);
+      // Images inside inline content (e.g. a linked thumbnail) still become image blocks
+      element.querySelectorAll('img').forEach(image => this.addImage(image));
+      return;
+    }
+
+    this.flushParagraph();
+    this.convertBlock(element);
+  }
+
+  addImage(image: Element, caption?: string) {
+    const block = imageBlock(image, caption);
+    if (block) this.blocks.push(block);
+    else this.warnings.push(`Skipped an image with an unsupported URL: ${image.getAttribute('src') || '(empty)'}`);
+  }
+
+  addEmbed(url: string, caption?: string) {
+    if (resolveEmbed(url)) {
+      this.blocks.push({ id: createBlockId(), type: 'embed', data: { url, ...(caption && { caption }) } });
+    } else if (url) {
+      this.warnings.push(`Replaced an unsupported embed with a link: ${url}`);
+      this.blocks.push({ id: createBlockId(), type: 'paragraph', data: { text: `[${caption || url}](${url})` } });
+    }
+  }
+
+  convertBlock(element: Element) {
+    const tag = element.tagName;
+
+    if (CONTAINER_TAGS.includes(tag)) {
+      this.convertChildren(element);
+      this.flushParagraph();
+      return;
+    }
+    if (DROPPED_TAGS.includes(tag)) {
+      if (tag !== 'STYLE') this.warnings.push(`Removed a <${tag.toLowerCase()}> element`);
+      return;
+    }
+
+    switch (tag) {
+      case 'P': {
+        this.convertChildren(element);
+        this.flushParagraph();
+        return;
+      }
+      case 'H1':
+      case 'H2':
+      case 'H3':
+      case 'H4':
+      case 'H5':
+      case 'H6': {
+        const text = textOf(element).replace(/ {2}\n/g, ' ');
+        if (text) this.blocks.push({ id: createBlockId(), type: 'header', data: { text, level: toHeaderLevel(Number(tag[1])) } });
+        return;
+      }
+      case 'UL':
+      case 'OL': {
+        const items = listItems(element);
+        if (items.length) this.blocks.push({ id: createBlockId(), type: 'list', data: { style: tag === 'OL' ? 'ordered' : 'unordered', items } });
+        return;
+      }
+      case 'BLOCKQUOTE': {
+        const cite = element.querySelector('cite');
+        const caption = cite?.textContent?.trim().replace(/^(—|-)\s*/, '');
+        cite?.remove();
+        const paragraphs = element.querySelectorAll('p');
+        const text = paragraphs.length ? Array.from(paragraphs).map(textOf).filter(Boolean).join('  \n') : textOf(element);
+        if (text) this.blocks.push({ id: createBlockId(), type: 'quote', data: { text, ...(caption && { caption }) } });
+        return;
+      }
+      case 'PRE':
+        this.blocks.push({ id: createBlockId(), type: 'code', data: { code: element.textContent?.replace(/\n$/, '') ?? '', language: getCodeLanguage(codeLanguage(element)) } });
+        return;
+      case 'FIGURE': {
+        const caption = element.querySelector('figcaption')?.textContent?.trim() || undefined;
+        const image = element.querySelector('img');
+        const table = element.querySelector('table');
+        const iframe = element.querySelector('iframe');
+        if (table) {
+          const block = tableBlock(table);
+          if (block) this.blocks.push(block);
+        } else if (image) {
+          this.addImage(image, caption);
+        } else if (iframe) {
+          this.addEmbed(iframe.getAttribute('src') ?? '', caption);
+        } else if (element.className.includes('wp-block-embed')) {
+          // Block editor embeds store the original URL as the wrapper's text
+          this.addEmbed(element.querySelector('.wp-block-embed__wrapper')?.textContent?.trim() ?? '', caption);
+        } else {
+          this.convertChildren(element);
+          this.flushParagraph();
+        }
+        return;
+      }
+      case 'TABLE': {
+        const block = tableBlock(element);
+        if (block) this.blocks.push(block);
+        return;
+      }
+      case 'HR':
+        this.blocks.push({ id: createBlockId(), type: 'delimiter', data: {} });
+        return;
+      case 'IMG':
+        this.addImage(element);
+        return;
+      case 'IFRAME':
+        this.addEmbed(element.getAttribute('src') ?? '');
+        return;
+    }
+  }
+}
+
+export function htmlToBlocks(html: string): HtmlConversion {
+  const warnings: string[] = [];
+  const source = expandShortcodes(html.replace(/\r\n?/g, '\n'), warnings);
+  const document = new DOMParser().parseFromString(`<body>${source}</body>`, 'text/html');
+
+  const converter = new HtmlBlockConverter();
+  converter.warnings = warnings;
+  converter.convertChildren(document.body);
+  converter.flushParagraph();
+
+  return { blocks: converter.blocks, warnings: [...new Set(converter.warnings)] };
+}
@@ -0,0 +1,179 @@
+import { resolveEmbed } from '@/lib/sections/embeds';
+import { getCodeLanguage } from './highlight';
+import { textToListItems } from './content';
+import { createBlockId, type CalloutVariant, type ContentBlock } from './schema';
+
+// Converts markdown documents (e.g. posts exported from static site generators) into blog
+// blocks. Inline markdown is kept as-is because block text uses the same inline syntax.
+
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*$/;
+const HR = /^ {0,3}([-*_])( *\1){2,} *$/;
+const FENCE = /^ {0,3}(```+|~~~+)\s*([\w+#-]*)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const IMAGE_LINE = /^\s*!\[([^\]]*)\]\(([^)\s]+)(?:\s+"([^"]*)")?\)\s*$/;
+const URL_LINE = /^\s*<?(https?:\/\/[^\s>]+)>?\s*$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const CALLOUT_MARKER = /^\[!(NOTE|INFO|TIP|IMPORTANT|WARNING|CAUTION|SUCCESS)\]\s*(.*)$/i;
+
+const CALLOUT_VARIANT_BY_MARKER: Record<string, CalloutVariant> = {
+  note: 'info',
+  info: 'info',
+  tip: 'tip',
+  important: 'warning',
+  warning: 'warning',
+  caution: 'warning',
+  success: 'success',
+};
+
+/** Markdown heading levels mapped onto the h2-h4 levels posts use (the title is the h1) */
+export function toHeaderLevel(level: number): 2 | 3 | 4 {
+  return Math.min(Math.max(level, 2), 4) as 2 | 3 | 4;
+}
+
+// Autolinks (<https://...>) become regular links; everything else is already block inline syntax
+function toInline(text: string): string {
+  return text.replace(/<(https?:\/\/[^\s>]+)>/g, '[$1]($1)').trim();
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => toInline(cell));
+}
+
+function isBlockStart(line: string, next: string | undefined): boolean {
+  return HEADING.test(line) || HR.test(line) || FENCE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line)
+    || IMAGE_LINE.test(line) || (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+}
+
+function quoteToBlock(lines: string[]): ContentBlock {
+  const [first = '', ...rest] = lines;
+  const marker = CALLOUT_MARKER.exec(first.trim());
+  if (marker) {
+    const text = [marker[2], ...rest].filter(line => line.trim()).join('\n');
+    return { id: createBlockId(), type: 'callout', data: { variant: CALLOUT_VARIANT_BY_MARKER[marker[1].toLowerCase()], text: toInline(text) } };
+  }
+
+  // A last line starting with a dash is the quote's source, e.g. "> — Ada Lovelace"
+  const source = /^\s*(?:--|—|-)\s*(.+)$/.exec(lines[lines.length - 1] ?? '');
+  const textLines = source && lines.length > 1 ? lines.slice(0, -1) : lines;
+  return {
+    id: createBlockId(),
+    type: 'quote',
+    data: { text: toInline(textLines.join('\n')), ...(source && lines.length > 1 && { caption: source[1].trim() }) },
+  };
+}
+
+export function markdownToBlocks(source: string): ContentBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: ContentBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith(fence[1])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ id: createBlockId(), type: 'code', data: { code: code.join('\n'), language: getCodeLanguage(fence[2]) } });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ id: createBlockId(), type: 'header', data: { text: toInline(heading[2]), level: toHeaderLevel(heading[1].length) } });
+      index++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ id: createBlockId(), type: 'delimiter', data: {} });
+      index++;
+      continue;
+    }
+
+    const image = IMAGE_LINE.exec(line);
+    if (image) {
+      blocks.push({ id: createBlockId(), type: 'image', data: { url: image[2], alt: image[1], ...(image[3] && { caption: image[3] }) } });
+      index++;
+      continue;
+    }
+
+    const url = URL_LINE.exec(line);
+    if (url && resolveEmbed(url[1])) {
+      blocks.push({ id: createBlockId(), type: 'embed', data: { url: url[1] } });
+      index++;
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[index + 1] ?? '')) {
+      const rows = [splitTableRow(line)];
+      index += 2;
+      while (index < lines.length && lines[index].includes('|')) {
+        rows.push(splitTableRow(lines[index]));
+        index++;
+      }
+      const width = Math.max(...rows.map(row => row.length));
+      blocks.push({
+        id: createBlockId(),
+        type: 'table',
+        data: { withHeadings: true, content: rows.map(row => [...row, ...Array(width - row.length).fill('')]) },
+      });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(QUOTE.exec(lines[index])![1]);
+        index++;
+      }
+      blocks.push(quoteToBlock(quoted));
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2]);
+      // Item lines re-indented to two spaces per level, the form textToListItems reads
+      const itemLines: string[] = [];
+      const indents: number[] = [];
+      while (index < lines.length) {
+        const current = lines[index];
+        const item = LIST_ITEM.exec(current);
+        if (item) {
+          const indent = item[1].replace(/\t/g, '    ').length;
+          while (indents.length && indents[indents.length - 1] > indent) indents.pop();
+          if (!indents.length || indents[indents.length - 1] < indent) indents.push(indent);
+          itemLines.push(`${'  '.repeat(indents.length - 1)}${toInline(item[3])}`);
+        } else if (current.trim() && itemLines.length && !isBlockStart(current, lines[index + 1])) {
+          itemLines[itemLines.length - 1] += ` ${toInline(current)}`;
+        } else if (current.trim() || !LIST_ITEM.test(lines[index + 1] ?? '')) {
+          break;
+        }
+        index++;
+      }
+      blocks.push({ id: createBlockId(), type: 'list', data: { style: ordered ? 'ordered' : 'unordered', items: textToListItems(itemLines.join('\n')) } });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && (!paragraph.length || !isBlockStart(lines[index], lines[index + 1]))) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({ id: createBlockId(), type: 'paragraph', data: { text: toInline(paragraph.join('\n')) } });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,87 @@
+import { parseInline, type MarkdownInline } from '@/lib/sections/markdown';
+import { resolveEmbed, getEmbedProviderLabel } from '@/lib/sections/embeds';
+import { parseBlogBody, type ContentBlock, type ListItem } from './schema';
+
+// Renders blog blocks to an HTML string for places React does not render, such as feed
+// item content. All text is escaped and links go through the same inline parser as
+// BlockContent, so the output carries no markup from the stored body.
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Site-relative URLs made absolute, since feed readers show content away from the site */
+export function toAbsoluteUrl(url: string, baseUrl: string): string {
+  return url.startsWith('/') && !url.startsWith('//') ? `${baseUrl.replace(/\/$/, '')}${url}` : url;
+}
+
+function inlineToHtml(nodes: MarkdownInline[], baseUrl: string): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return escapeHtml(node.value);
+      case 'strong':
+        return `<strong>${inlineToHtml(node.children, baseUrl)}</strong>`;
+      case 'em':
+        return `<em>${inlineToHtml(node.children, baseUrl)}</em>`;
+      case 'code':
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case 'break':
+        return '<br>';
+      case 'link':
+        return `<a href="${escapeHtml(toAbsoluteUrl(node.href, baseUrl))}">${inlineToHtml(node.children, baseUrl)}</a>`;
+    }
+  }).join('');
+}
+
+function listToHtml(items: ListItem[], ordered: boolean, baseUrl: string): string {
+  const tag = ordered ? 'ol' : 'ul';
+  const children = items.map(item => (
+    `<li>${inlineToHtml(parseInline(item.content), baseUrl)}${item.items.length ? listToHtml(item.items, ordered, baseUrl) : ''}</li>`
+  ));
+  return `<${tag}>${children.join('')}</${tag}>`;
+}
+
+function blockToHtml(block: ContentBlock, baseUrl: string): string {
+  const inline = (text: string) => inlineToHtml(parseInline(text), baseUrl);
+  const caption = (text?: string) => (text ? `<figcaption>${escapeHtml(text)}</figcaption>` : '');
+
+  switch (block.type) {
+    case 'paragraph':
+      return block.data.text.trim() ? `<p>${inline(block.data.text)}</p>` : '';
+    case 'header':
+      return `<h${block.data.level}>${inline(block.data.text)}</h${block.data.level}>`;
+    case 'list':
+      return listToHtml(block.data.items, block.data.style === 'ordered', baseUrl);
+    case 'quote':
+      return `<blockquote><p>${inline(block.data.text)}</p>${block.data.caption ? `<cite>${escapeHtml(block.data.caption)}</cite>` : ''}</blockquote>`;
+    case 'image':
+      return `<figure><img src="${escapeHtml(toAbsoluteUrl(block.data.url, baseUrl))}" alt="${escapeHtml(block.data.alt)}">${caption(block.data.caption)}</figure>`;
+    case 'code':
+      return `<pre><code class="language-${block.data.language}">${escapeHtml(block.data.code)}</code></pre>`;
+    case 'table': {
+      const [head, ...rows] = block.data.withHeadings ? block.data.content : [null, ...block.data.content];
+      const cells = (row: string[], tag: 'th' | 'td') => `<tr>${row.map(cell => `<${tag}>${inline(cell)}</${tag}>`).join('')}</tr>`;
+      return `<table>${head ? `<thead>${cells(head, 'th')}</thead>` : ''}<tbody>${rows.map(row => cells(row, 'td')).join('')}</tbody></table>`;
+    }
+    case 'embed': {
+      // Most readers strip iframes, so embeds become a link to the original
+      const embed = resolveEmbed(block.data.url);
+      const label = block.data.caption || (embed ? `Watch on ${getEmbedProviderLabel(embed.provider)}` : block.data.url);
+      return `<p><a href="${escapeHtml(block.data.url)}">${escapeHtml(label)}</a></p>`;
+    }
+    case 'callout':
+      return `<aside>${block.data.title ? `<p><strong>${escapeHtml(block.data.title)}</strong></p>` : ''}<p>${inline(block.data.text)}</p></aside>`;
+    case 'delimiter':
+      return '<hr>';
+  }
+}
+
+export function blocksToHtml(body: unknown, baseUrl = ''): string {
+  return parseBlogBody(body).map(block => blockToHtml(block, baseUrl)).join('\n');
+}
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import { resolveEmbed } from '@/lib/sections/embeds';
+import { sanitizeUrl } from '@/lib/sections/markdown';
+import { CODE_LANGUAGE_VALUES } from './highlight';
+
+// Blog post bodies: `{ blocks: [...] }` with `{ id, type, data }` blocks, the shape posts
+// were stored in before the block editor. Text fields hold inline markdown (**bold**,
+// *italic*, `code`, [links](/path)) and are rendered by BlockContent.
+
+const BaseBlockSchema = z.object({
+  id: z.string(),
+});
+
+export const ParagraphBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('paragraph'),
+  data: z.object({
+    text: z.string(),
+  }),
+});
+
+export const HeaderBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('header'),
+  data: z.object({
+    text: z.string().min(1, 'Heading text is required'),
+    level: z.union([z.literal(2), z.literal(3), z.literal(4)]),
+  }),
+});
+
+export interface ListItem {
+  content: string;
+  items: ListItem[];
+}
+
+const ListItemSchema = z.lazy(() => z.object({
+  content: z.string(),
+  items: z.array(ListItemSchema),
+})) as z.ZodType<ListItem>;
+
+export const ListBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('list'),
+  data: z.object({
+    style: z.enum(['unordered', 'ordered']),
+    items: z.array(ListItemSchema).min(1, 'Add at least one item'),
+  }),
+});
+
+export const QuoteBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('quote'),
+  data: z.object({
+    text: z.string().min(1, 'Quote text is required'),
+    caption: z.string().optional(),
+  }),
+});
+
+export const ImageBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('image'),
+  data: z.object({
+    url: z.string()
+      .min(1, 'Choose an image')
+      .refine((val) => sanitizeUrl(val) !== null, { message: 'Use an https or site-relative image URL' }),
+    alt: z.string(),
+    caption: z.string().optional(),
+  }),
+});
+
+export const CodeBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('code'),
+  data: z.object({
+    code: z.string().min(1, 'Code is required'),
+    language: z.enum(CODE_LANGUAGE_VALUES),
+  }),
+});
+
+export const TableBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('table'),
+  data: z.object({
+    withHeadings: z.boolean(),
+    content: z.array(z.array(z.string())).min(1, 'Add at least one row'),
+  }).refine(
+    (table) => table.content.every(row => row.length === table.content[0].length),
+    { message: 'Every row needs the same number of cells', path: ['content'] }
+  ),
+});
+
+export const EmbedBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('embed'),
+  data: z.object({
+    url: z.string().refine(
+      (val) => resolveEmbed(val) !== null,
+      { message: 'Use a YouTube, Vimeo, Loom, Google Maps or Spotify URL' }
+    ),
+    caption: z.string().optional(),
+  }),
+});
+
+export const CalloutBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('callout'),
+  data: z.object({
+    variant: z.enum(['info', 'tip', 'warning', 'success']),
+    title: z.string().optional(),
+    text: z.string().min(1, 'Callout text is required'),
+  }),
+});
+
+export const DelimiterBlockSchema = BaseBlockSchema.extend({
+  type: z.literal('delimiter'),
+  data: z.object({}),
+});
+
+export const ContentBlockSchema = z.discriminatedUnion('type', [
+  ParagraphBlockSchema,
+  HeaderBlockSchema,
+  ListBlockSchema,
+  QuoteBlockSchema,
+  ImageBlockSchema,
+  CodeBlockSchema,
+  TableBlockSchema,
+  EmbedBlockSchema,
+  CalloutBlockSchema,
+  DelimiterBlockSchema,
+]);
+
+export const BlogBodySchema = z.object({
+  blocks: z.array(ContentBlockSchema),
+});
+
+export type ContentBlock = z.infer<typeof ContentBlockSchema>;
+export type ContentBlockType = ContentBlock['type'];
+export type BlogBody = z.infer<typeof BlogBodySchema>;
+export type ParagraphBlock = z.infer<typeof ParagraphBlockSchema>;
+export type HeaderBlock = z.infer<typeof HeaderBlockSchema>;
+export type ListBlock = z.infer<typeof ListBlockSchema>;
+export type QuoteBlock = z.infer<typeof QuoteBlockSchema>;
+export type ImageBlock = z.infer<typeof ImageBlockSchema>;
+export type CodeBlock = z.infer<typeof CodeBlockSchema>;
+export type TableBlock = z.infer<typeof TableBlockSchema>;
+export type EmbedBlock = z.infer<typeof EmbedBlockSchema>;
+export type CalloutBlock = z.infer<typeof CalloutBlockSchema>;
+export type CalloutVariant = CalloutBlock['data']['variant'];
+
+export const BLOCK_TYPES: { type: ContentBlockType; label: string; description: string }[] = [
+  { type: 'paragraph', label: 'Paragraph', description: 'Text with bold, italic and links' },
+  { type: 'header', label: 'Heading', description: 'Section heading, listed in the table of contents' },
+  { type: 'list', label: 'List', description: 'Bulleted or numbered list, with nesting' },
+  { type: 'quote', label: 'Quote', description: 'Pull quote with an optional source' },
+  { type: 'image', label: 'Image', description: 'Image from the media library' },
+  { type: 'code', label: 'Code', description: 'Code snippet with syntax highlighting' },
+  { type: 'table', label: 'Table', description: 'Rows and columns, optionally with a heading row' },
+  { type: 'embed', label: 'Embed', description: 'YouTube, Vimeo, Loom, Google Maps or Spotify' },
+  { type: 'callout', label: 'Callout', description: 'Highlighted note, tip or warning' },
+  { type: 'delimiter', label: 'Divider', description: 'Separates parts of the post' },
+];
+
+export const CALLOUT_VARIANTS: { value: CalloutVariant; label: string }[] = [
+  { value: 'info', label: 'Note' },
+  { value: 'tip', label: 'Tip' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'success', label: 'Success' },
+];
+
+export function createBlockId(): string {
+  return crypto.randomUUID();
+}
+
+export function createDefaultBlock(type: ContentBlockType): ContentBlock {
+  const id = createBlockId();
+
+  switch (type) {
+    case 'paragraph':
+      return { id, type, data: { text: '' } };
+    case 'header':
+      return { id, type, data: { text: '', level: 2 } };
+    case 'list':
+      return { id, type, data: { style: 'unordered', items: [{ content: '', items: [] }] } };
+    case 'quote':
+      return { id, type, data: { text: '' } };
+    case 'image':
+      return { id, type, data: { url: '', alt: '' } };
+    case 'code':
+      return { id, type, data: { code: '', language: 'javascript' } };
+    case 'table':
+      return { id, type, data: { withHeadings: true, content: [['', ''], ['', '']] } };
+    case 'embed':
+      return { id, type, data: { url: '' } };
+    case 'callout':
+      return { id, type, data: { variant: 'info', text: '' } };
+    case 'delimiter':
+      return { id, type, data: {} };
+  }
+}
+
+const toListItem = (item: unknown): ListItem => {
+  if (typeof item === 'string') return { content: item, items: [] };
+  const { content, items } = (item ?? {}) as { content?: unknown; items?: unknown };
+  return {
+    content: typeof content === 'string' ? content : '',
+    items: Array.isArray(items) ? items.map(toListItem) : [],
+  };
+};
+
+/**
+ * Brings stored blocks to the current shape: posts written before the block editor have
+ * no block ids, string list items and headings without a level.
+ */
+export function normalizeBlogBody(body: unknown): { blocks: unknown[] } {
+  const blocks = (body as { blocks?: unknown } | null)?.blocks;
+  if (!Array.isArray(blocks)) return { blocks: [] };
+
+  return {
+    blocks: blocks.map((raw, index) => {
+      const block = (raw ?? {}) as { id?: unknown; type?: unknown; data?: Record<string, unknown> };
+      const data = { ...(block.data ?? {}) };
+
+      if (block.type === 'header') data.level = [2, 3, 4].includes(data.level as number) ? data.level : 2;
+      if (block.type === 'list') {
+        data.style = data.style === 'ordered' ? 'ordered' : 'unordered';
+        data.items = Array.isArray(data.items) ? data.items.map(toListItem) : [];
+      }
+
+      return { ...block, id: typeof block.id === 'string' ? block.id : `block-${index}`, data };
+    }),
+  };
+}
+
+/** The valid blocks of a stored body; blocks that fail validation are left out */
+export function parseBlogBody(body: unknown): ContentBlock[] {
+  return normalizeBlogBody(body).blocks.flatMap((block) => {
+    const result = ContentBlockSchema.safeParse(block);
+    return result.success ? [result.data] : [];
+  });
+}
+
+// Human-readable issues per block id, for the editor; empty when the body is valid
+export function getBlockIssuesById(blocks: unknown[]): Record<string, string[]> {
+  return Object.fromEntries(
+    blocks.flatMap((block, index) => {
+      const result = ContentBlockSchema.safeParse(block);
+      if (result.success) return [];
+      const id = (block as { id?: unknown })?.id;
+      return [[typeof id === 'string' ? id : `block-${index}`, result.error.issues.map(issue => issue.message)]];
+    })
+  );
+}
@@ -0,0 +1,349 @@
+import { generateSlug } from '@/lib/admin-utils';
+import { htmlToBlocks } from '@/lib/blocks/html';
+import { markdownToBlocks } from '@/lib/blocks/markdown';
+import { getBlockIssuesById, type BlogBody, type ContentBlock } from '@/lib/blocks/schema';
+import { MEDIA_STORAGE_PATH } from '@/lib/sections/page-bundle';
+import { normalizeTags } from '@/lib/tags';
+import type { BlogCategory, BlogPost } from '@/types/content';
+
+// Imports blog posts from a WordPress export (WXR, the XML file from Tools > Export) or
+// from markdown files with front matter. Files are converted in the browser into import
+// sources; planBlogImport then builds the dry-run report, and adminCms.importBlogPosts
+// writes it, re-hosting remote images in the media bucket on the way.
+
+export interface BlogImportCategory {
+  name: string;
+  slug: string;
+}
+
+export interface BlogImportSource {
+  /** File name, plus the post id for WordPress exports; unique within an import */
+  sourceName: string;
+  title: string;
+  slug: string;
+  status: 'draft' | 'published';
+  published_at?: string;
+  publish_at?: string;
+  excerpt?: string;
+  tags: string[];
+  categories: BlogImportCategory[];
+  feature_image_url?: string;
+  body: BlogBody;
+  warnings: string[];
+}
+
+export interface BlogImportFile {
+  name: string;
+  text: string;
+}
+
+export interface BlogImportParseResult {
+  sources: BlogImportSource[];
+  errors: string[];
+}
+
+export type BlogConflictResolution = 'skip' | 'overwrite' | 'rename';
+export type BlogImportAction = 'create' | BlogConflictResolution | 'invalid';
+
+export interface BlogImportOptions {
+  // Applied to every post whose slug already exists, unless overridden per source
+  conflictResolution: BlogConflictResolution;
+  overrides?: Record<string, BlogConflictResolution>;
+  importAsDraft?: boolean;
+}
+
+export type BlogImportPayload = Omit<BlogPost, 'id' | 'created_at' | 'updated_at' | 'categories'>;
+
+export interface BlogImportPlanItem {
+  sourceName: string;
+  title: string;
+  sourceSlug: string;
+  slug: string;
+  action: BlogImportAction;
+  conflict: boolean;
+  // Id of the post that will be overwritten
+  existingId?: string;
+  post?: BlogImportPayload;
+  categories: (BlogImportCategory & { existingId?: string })[];
+  // Remote images that are re-hosted in the media bucket when importing
+  images: string[];
+  issues: string[];
+  warnings: string[];
+}
+
+type ExistingPost = Pick<BlogPost, 'id' | 'slug' | 'published_at'>;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function toDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' && !(value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== '');
+  }
+  if (/^(true|yes)$/i.test(value)) return true;
+  if (/^(false|no)$/i.test(value)) return false;
+  return value;
+}
+
+/**
+ * Reads YAML front matter (`---` fenced) as used by Jekyll, Hugo, Gatsby and similar:
+ * `key: value` pairs, quoted strings, booleans, inline `[a, b]` lists and `- item` lists.
+ * Nested maps are not supported and are ignored.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, unknown>; content: string } {
+  const match = /^\uFEFF?---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/.exec(text.replace(/\r\n?/g, '\n'));
+  if (!match) return { data: {}, content: text };
+
+  const data: Record<string, unknown> = {};
+  let listKey: string | null = null;
+  match[1].split('\n').forEach(line => {
+    const item = /^\s+-\s+(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      (data[listKey] as unknown[]).push(parseScalar(item[1]));
+      return;
+    }
+    const pair = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!pair) return;
+    const key = pair[1].toLowerCase();
+    const value = pair[2].trim();
+    // A key without a value starts a `- item` list
+    data[key] = value ? parseScalar(value) : [];
+    listKey = value ? null : key;
+  });
+
+  return { data, content: text.replace(/\r\n?/g, '\n').slice(match[0].length) };
+}
+
+// "2019-05-01-my-post.md" and "my-post/index.md" both become "my-post"
+function slugFromFileName(name: string): string {
+  const parts = name.replace(/\\/g, '/').split('/');
+  const file = parts[parts.length - 1].replace(/\.(md|markdown|mdx)$/i, '');
+  const base = file === 'index' && parts.length > 1 ? parts[parts.length - 2] : file;
+  return generateSlug(base.replace(/^\d{4}-\d{2}-\d{2}-/, ''));
+}
+
+export function parseMarkdownPost(file: BlogImportFile): BlogImportSource {
+  const { data, content } = parseFrontMatter(file.text);
+  const warnings: string[] = [];
+  let blocks = markdownToBlocks(content);
+
+  let title = typeof data.title === 'string' ? data.title.trim() : '';
+  const [first] = blocks;
+  // Without a title in the front matter, a leading heading is the title
+  if (!title && first?.type === 'header') {
+    title = first.data.text;
+    blocks = blocks.slice(1);
+  }
+
+  const permalink = typeof data.permalink === 'string' ? data.permalink.split('/').filter(Boolean).pop() : undefined;
+  const isDraft = data.draft === true || data.published === false || data.status === 'draft';
+  const published_at = toDate(data.date);
+  const feature_image_url = ['feature_image', 'featured_image', 'image', 'cover', 'cover_image', 'thumbnail']
+    .map(key => data[key])
+    .find((value): value is string => typeof value === 'string' && !!value.trim());
+
+  return {
+    sourceName: file.name,
+    title,
+    slug: generateSlug(typeof data.slug === 'string' ? data.slug : permalink || slugFromFileName(file.name) || title),
+    status: isDraft ? 'draft' : 'published',
+    published_at,
+    excerpt: ['excerpt', 'description', 'summary'].map(key => data[key]).find((value): value is string => typeof value === 'string'),
+    tags: toList(data.tags ?? data.keywords),
+    categories: toList(data.categories ?? data.category).map(name => ({ name, slug: generateSlug(name) })),
+    feature_image_url,
+    body: { blocks },
+    warnings,
+  };
+}
+
+function childText(element: Element, tagName: string): string {
+  return element.getElementsByTagName(tagName)[0]?.textContent?.trim() ?? '';
+}
+
+/** Posts in a WordPress export; pages, attachments and trashed posts are left out */
+export function parseWxr(file: BlogImportFile): BlogImportParseResult {
+  const document = new DOMParser().parseFromString(file.text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0 || !document.getElementsByTagName('rss').length) {
+    return { sources: [], errors: [`${file.name}: not a WordPress export (WXR) file`] };
+  }
+
+  const items = Array.from(document.getElementsByTagName('item'));
+  const postMeta = (item: Element, key: string) => Array.from(item.getElementsByTagName('wp:postmeta'))
+    .find(meta => childText(meta, 'wp:meta_key') === key)
+    ?.getElementsByTagName('wp:meta_value')[0]?.textContent?.trim();
+  const attachmentUrls = new Map(items
+    .filter(item => childText(item, 'wp:post_type') === 'attachment')
+    .map(item => [childText(item, 'wp:post_id'), childText(item, 'wp:attachment_url')]));
+
+  const sources = items
+    .filter(item => childText(item, 'wp:post_type') === 'post' && childText(item, 'wp:status') !== 'trash')
+    .map(item => {
+      const title = childText(item, 'title');
+      const wpStatus = childText(item, 'wp:status');
+      const date = toDate(childText(item, 'wp:post_date_gmt').replace(' ', 'T') + 'Z') ?? toDate(childText(item, 'pubDate'));
+      const { blocks, warnings } = htmlToBlocks(item.getElementsByTagName('content:encoded')[0]?.textContent ?? '');
+      const terms = (domain: string) => Array.from(item.getElementsByTagName('category'))
+        .filter(category => category.getAttribute('domain') === domain)
+        .map(category => ({ name: category.textContent?.trim() ?? '', slug: category.getAttribute('nicename') || generateSlug(category.textContent ?? '') }))
+        .filter(term => term.name);
+      const thumbnailId = postMeta(item, '_thumbnail_id');
+      const isScheduled = wpStatus === 'future' && !!date && new Date(date) > new Date();
+
+      if (wpStatus === 'future' && !isScheduled) warnings.push('Scheduled in WordPress for a date that has passed; imported as a draft');
+      if (['pending', 'private'].includes(wpStatus)) warnings.push(`WordPress status "${wpStatus}" is imported as a draft`);
+
+      return {
+        sourceName: `${file.name} #${childText(item, 'wp:post_id')}`,
+        title,
+        slug: generateSlug(decodeURIComponent(childText(item, 'wp:post_name')) || title),
+        status: wpStatus === 'publish' ? 'published' : 'draft',
+        published_at: wpStatus === 'publish' ? date : undefined,
+        publish_at: isScheduled ? date : undefined,
+        excerpt: childText(item, 'excerpt:encoded') || undefined,
+        tags: terms('post_tag').map(term => term.name),
+        categories: terms('category').filter(term => term.slug !== 'uncategorized'),
+        feature_image_url: thumbnailId ? attachmentUrls.get(thumbnailId) || undefined : undefined,
+        body: { blocks },
+        warnings,
+      } satisfies BlogImportSource;
+    });
+
+  return { sources, errors: sources.length ? [] : [`${file.name}: the export contains no posts`] };
+}
+
+/** Converts the chosen files; WordPress exports may hold many posts, markdown files one each */
+export function parseBlogImportFiles(files: BlogImportFile[]): BlogImportParseResult {
+  return files.reduce<BlogImportParseResult>((result, file) => {
+    if (/\.xml$/i.test(file.name) || /^\s*<\?xml/.test(file.text)) {
+      const parsed = parseWxr(file);
+      return { sources: [...result.sources, ...parsed.sources], errors: [...result.errors, ...parsed.errors] };
+    }
+    if (/\.(md|markdown|mdx)$/i.test(file.name)) {
+      return { ...result, sources: [...result.sources, parseMarkdownPost(file)] };
+    }
+    return { ...result, errors: [...result.errors, `${file.name}: only WordPress exports (.xml) and markdown files (.md) can be imported`] };
+  }, { sources: [], errors: [] });
+}
+
+// Absolute image URLs that are not in this site's media bucket yet
+export function collectRemoteImages(post: Pick<BlogImportPayload, 'body' | 'feature_image_url'>): string[] {
+  const blocks = (post.body as BlogBody | undefined)?.blocks ?? [];
+  const urls = [
+    ...blocks.flatMap(block => (block.type === 'image' ? [block.data.url] : [])),
+    post.feature_image_url,
+  ];
+  return [...new Set(urls.filter((url): url is string => !!url && /^https?:\/\//.test(url) && !url.includes(MEDIA_STORAGE_PATH)))];
+}
+
+export function replaceImageUrls<T extends Pick<BlogImportPayload, 'body' | 'feature_image_url'>>(post: T, urlMap: Record<string, string>): T {
+  const blocks: ContentBlock[] = (post.body as BlogBody | undefined)?.blocks ?? [];
+  return {
+    ...post,
+    feature_image_url: post.feature_image_url ? urlMap[post.feature_image_url] || post.feature_image_url : post.feature_image_url,
+    body: {
+      blocks: blocks.map(block => (
+        block.type === 'image' && urlMap[block.data.url] ? { ...block, data: { ...block.data, url: urlMap[block.data.url] } } : block
+      )),
+    },
+  };
+}
+
+function nextFreeSlug(slug: string, taken: Set<string>): string {
+  let counter = 2;
+  while (taken.has(`${slug}-${counter}`)) counter++;
+  return `${slug}-${counter}`;
+}
+
+/**
+ * Build the dry-run report for the converted posts. Nothing is written here: every post
+ * gets an action (create, overwrite, rename, skip or invalid), the payload that would be
+ * saved, the categories it is filed under and the images that will be re-hosted.
+ */
+export function planBlogImport(
+  sources: BlogImportSource[],
+  existingPosts: ExistingPost[],
+  existingCategories: Pick<BlogCategory, 'id' | 'name' | 'slug'>[],
+  options: BlogImportOptions
+): BlogImportPlanItem[] {
+  const existingBySlug = new Map(existingPosts.map(post => [post.slug, post]));
+  const taken = new Set(existingPosts.map(post => post.slug));
+  const plannedSlugs = new Set<string>();
+
+  return sources.map(source => {
+    const issues: string[] = [];
+    const warnings = [...source.warnings];
+    const existing = existingBySlug.get(source.slug);
+    const item: BlogImportPlanItem = {
+      sourceName: source.sourceName,
+      title: source.title,
+      sourceSlug: source.slug,
+      slug: source.slug,
+      action: 'create',
+      conflict: !!existing,
+      categories: source.categories.map(category => ({
+        ...category,
+        existingId: existingCategories.find(candidate => candidate.slug === category.slug || candidate.name.toLowerCase() === category.name.toLowerCase())?.id,
+      })),
+      images: [],
+      issues,
+      warnings,
+    };
+
+    if (!source.title.trim()) issues.push('The post has no title');
+    if (!SLUG_PATTERN.test(source.slug)) issues.push('No URL slug could be made from the title or file name');
+    if (issues.length) {
+      item.action = 'invalid';
+      return item;
+    }
+
+    if (existing) {
+      const resolution = options.overrides?.[source.sourceName] ?? options.conflictResolution;
+      item.action = resolution;
+      if (resolution === 'skip') return item;
+      if (resolution === 'overwrite') item.existingId = existing.id;
+      else item.slug = nextFreeSlug(source.slug, taken);
+    } else if (plannedSlugs.has(source.slug)) {
+      // Two imported posts with the same slug: the later one gets a new slug
+      item.action = 'rename';
+      item.slug = nextFreeSlug(source.slug, taken);
+    }
+    taken.add(item.slug);
+    plannedSlugs.add(item.slug);
+
+    const issuesById = getBlockIssuesById(source.body.blocks);
+    const blocks = source.body.blocks.filter(block => !issuesById[block.id]);
+    const dropped = source.body.blocks.length - blocks.length;
+    if (dropped > 0) warnings.push(`${dropped} block${dropped === 1 ? '' : 's'} could not be converted and ${dropped === 1 ? 'was' : 'were'} left out`);
+    if (!blocks.length) warnings.push('The post has no content');
+
+    const status = options.importAsDraft ? 'draft' : source.status;
+    item.post = {
+      title: source.title.trim(),
+      slug: item.slug,
+      excerpt: source.excerpt?.trim() || '',
+      body: { blocks },
+      tags: normalizeTags(source.tags),
+      status,
+      feature_image_url: source.feature_image_url || '',
+      // Overwritten posts keep their original publish date when the source has none
+      published_at: status === 'published' ? source.published_at || existing?.published_at || new Date().toISOString() : undefined,
+      publish_at: options.importAsDraft ? null : source.publish_at ?? null,
+    };
+    item.images = collectRemoteImages(item.post);
+
+    return item;
+  });
+}
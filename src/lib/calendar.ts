@@ -0,0 +1,99 @@
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { CalendarEntityType, CalendarItem } from '@/types/content';
+
+// Content calendar: live content sits on its published_at, scheduled content on its
+// publish_at. Dragging an item to another day keeps its time of day.
+
+export type CalendarView = 'month' | 'week';
+export type CalendarColorMode = 'type' | 'category';
+
+const WEEK_STARTS_ON = 1;
+
+export const CALENDAR_ENTITY_LABELS: Record<CalendarEntityType, string> = {
+  blog_post: 'Insights',
+  case_study: 'Case studies',
+  lab_project: 'Innovation Lab',
+  job: 'Jobs',
+};
+
+export const CALENDAR_TYPE_COLORS: Record<CalendarEntityType, string> = {
+  blog_post: '#2563eb',
+  case_study: '#16a34a',
+  lab_project: '#9333ea',
+  job: '#ea580c',
+};
+
+// Blog posts without a category, in category mode
+export const UNCATEGORIZED_COLOR = '#64748b';
+
+export function getCalendarEditorPath(entityType: CalendarEntityType, id: string): string {
+  switch (entityType) {
+    case 'blog_post': return `/admin/blog/edit/${id}`;
+    case 'case_study': return `/admin/case-studies/${id}/edit`;
+    case 'lab_project': return `/admin/innovation-lab/${id}/edit`;
+    case 'job': return `/admin/careers/${id}/edit`;
+  }
+}
+
+export function getCalendarItemColor(item: CalendarItem, mode: CalendarColorMode): string {
+  if (mode === 'category' && item.entity_type === 'blog_post') {
+    return item.category?.color || UNCATEGORIZED_COLOR;
+  }
+  return CALENDAR_TYPE_COLORS[item.entity_type];
+}
+
+// Whole weeks, so the month grid always starts on a Monday
+export function getCalendarDays(view: CalendarView, date: Date): Date[] {
+  const start = view === 'month' ? startOfMonth(date) : date;
+  const end = view === 'month' ? endOfMonth(date) : date;
+  return eachDayOfInterval({
+    start: startOfWeek(start, { weekStartsOn: WEEK_STARTS_ON }),
+    end: endOfWeek(end, { weekStartsOn: WEEK_STARTS_ON }),
+  });
+}
+
+export function shiftCalendarDate(view: CalendarView, date: Date, amount: number): Date {
+  return view === 'month' ? addMonths(date, amount) : addWeeks(date, amount);
+}
+
+export function getCalendarDayKey(date: Date | string): string {
+  return format(typeof date === 'string' ? new Date(date) : date, 'yyyy-MM-dd');
+}
+
+export function groupCalendarItemsByDay(items: CalendarItem[]): Map<string, CalendarItem[]> {
+  const groups = new Map<string, CalendarItem[]>();
+  [...items]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .forEach(item => {
+      const key = getCalendarDayKey(item.date);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    });
+  return groups;
+}
+
+// Same local time of day on the target day
+export function moveToDay(value: string, day: Date): string {
+  const moved = new Date(value);
+  moved.setFullYear(day.getFullYear(), day.getMonth(), day.getDate());
+  return moved.toISOString();
+}
+
+export function getRescheduleIssue(item: CalendarItem, date: string, now: Date = new Date()): string | null {
+  const isFuture = new Date(date).getTime() > now.getTime();
+  if (item.scheduled && !isFuture) {
+    return 'Scheduled content can only be moved to a future time';
+  }
+  if (!item.scheduled && isFuture) {
+    return 'Published content cannot be moved into the future. Unpublish it and schedule it instead.';
+  }
+  return null;
+}
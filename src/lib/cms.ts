@@ -1,15 +1,44 @@
 import { supabase } from '@/integrations/supabase/client';
 import { logger, LogArea } from '@/lib/observability';
+import { migratePageBody, migrateSection } from '@/lib/sections/migrations';
+import type { ContentSection } from '@/lib/sections/schema';
+import type { PricingTier } from '@/types/payment';
+import type { FAQ, BlogAuthor, CaseStudy, LabProject, Job, MenuItem, ContentTranslation, TranslatableEntityType } from '@/types/content';
+import { applySectionSelection } from '@/lib/sections/selection';
+import { buildMenuTree, isEntityLink, resolveMenuTree, type MenuEntityPaths, type MenuEntityType, type ResolvedMenuItem } from '@/lib/menus';
+import type { RedirectRule } from '@/lib/redirects';
+import { liveContentFilter } from '@/lib/schedule';
+import { toBlogAuthor } from '@/lib/authors';
 
 export interface Page {
   id: string;
   title: string;
   slug: string;
+  parent_id?: string | null;
   body: any;
   status: 'draft' | 'published';
   published_at?: string;
   created_at: string;
   updated_at: string;
+  seo_title?: string | null;
+  seo_description?: string | null;
+  seo_canonical_url?: string | null;
+  seo_og_image?: string | null;
+  seo_robots?: string | null;
+  seo_schema_type?: string | null;
+}
+
+// Options for sections listing live content. A manual selection (`ids`)
+// replaces the filters and keeps its own order.
+export interface ContentListOptions {
+  limit?: number;
+  ids?: string[];
+}
+
+export interface ResolvedPage {
+  page: Page;
+  // Ancestors ordered from the top-level page down to the direct parent
+  ancestors: Page[];
 }
 
 export interface BlogPost {
@@ -113,6 +142,93 @@ export interface ProjectImage {
   created_at: string;
 }
 
+export type PreviewEntityType = 'page' | 'blog_post' | 'case_study' | 'lab_project';
+
+// Unpublished content resolved from a shareable preview link
+export interface PreviewContent<T> {
+  entity_type: PreviewEntityType;
+  entity_id: string;
+  expires_at: string;
+  content: T;
+}
+
+// Normalize a stored page body: parse stringified JSON, unwrap PostgreSQL JSON artifacts
+// and upgrade section data to the current schema version
+export function normalizePageBody(body: unknown, slug?: string): any {
+  let processedBody: unknown = body;
+  
+  // If body is a string, try to parse it as JSON
+  if (typeof body === 'string') {
+    try {
+      processedBody = JSON.parse(body);
+      if (process.env.NODE_ENV === 'development') {
+        console.log('🔄 [CMS] Parsed string body for page:', slug);
+      }
+    } catch (e) {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('⚠️ [CMS] Failed to parse body JSON for page:', slug, e);
+      }
+      processedBody = null;
+    }
+  }
+  
+  // Handle special case where body might be wrapped in extra structure
+  if (processedBody && typeof processedBody === 'object' && !Array.isArray(processedBody)) {
+    const bodyObj = processedBody as Record<string, any>;
+    
+    // Check if body has a _type and value structure (PostgreSQL JSON artifact)
+    if (bodyObj._type === 'undefined' && bodyObj.value === 'undefined') {
+      if (process.env.NODE_ENV === 'development') {
+        console.warn('⚠️ [CMS] Found undefined body structure for page:', slug);
+      }
+      processedBody = null;
+    }
+    // If body is wrapped in a value property, unwrap it
+    else if (bodyObj.value && typeof bodyObj.value === 'object') {
+      processedBody = bodyObj.value;
+      if (process.env.NODE_ENV === 'development') {
+        console.log('🔄 [CMS] Unwrapped body.value for page:', slug);
+      }
+    }
+  }
+  
+  return migratePageBody(processedBody).body;
+}
+
+// Build the public path of a page from its parent chain, e.g. "services/web/pricing"
+export function buildPagePath(page: { id: string; slug: string; parent_id?: string | null }, pages: Array<{ id: string; slug: string; parent_id?: string | null }>): string {
+  const segments = [page.slug];
+  const visited = new Set<string>([page.id]);
+  let parentId = page.parent_id;
+  
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = pages.find(p => p.id === parentId);
+    if (!parent) break;
+    segments.unshift(parent.slug);
+    parentId = parent.parent_id;
+  }
+  
+  return segments.join('/');
+}
+
+// Full path of a page whose ancestors are all in `pages` (the published set); null when one
+// is missing, as the shortened path buildPagePath would return does not resolve publicly
+function buildPublishedPagePath(page: { id: string; slug: string; parent_id?: string | null }, pages: Array<{ id: string; slug: string; parent_id?: string | null }>): string | null {
+  const visited = new Set<string>([page.id]);
+  let parentId = page.parent_id;
+
+  while (parentId) {
+    if (visited.has(parentId)) return null;
+    visited.add(parentId);
+    const parent = pages.find(p => p.id === parentId);
+    if (!parent) return null;
+    parentId = parent.parent_id;
+  }
+
+  return buildPagePath(page, pages);
+}
+
 // CMS Functions
 export const cms = {
   /**
@@ -162,6 +278,7 @@ export const cms = {
       .from('services')
       .select('*')
       .eq('status', 'published')
+      .or(liveContentFilter())
       .order('published_at', { ascending: false });
 
     if (error) throw error;
@@ -174,6 +291,7 @@ export const cms = {
       .select('*')
       .eq('slug', slug)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .single();
 
     if (error) return null;
@@ -189,6 +307,7 @@ export const cms = {
         project_images (*)
       `)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .order('published_at', { ascending: false });
 
     if (error) throw error;
@@ -204,6 +323,7 @@ export const cms = {
       `)
       .eq('slug', slug)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .single();
 
     if (error) return null;
@@ -216,6 +336,7 @@ export const cms = {
       .from('blog_posts')
       .select('*')
       .eq('status', 'published')
+      .or(liveContentFilter())
       .order('published_at', { ascending: false });
 
     if (limit) {
@@ -233,6 +354,7 @@ export const cms = {
       .from('blog_posts')
       .select('*')
       .eq('status', 'published')
+      .or(liveContentFilter())
       .order('published_at', { ascending: false });
 
     if (limit) {
@@ -297,12 +419,258 @@ export const cms = {
       .select('*')
       .eq('slug', slug)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .single();
 
     if (error) return null;
     return data as BlogPost;
   },
 
+  /**
+   * Resolve a preview token to the current (possibly draft) row it was issued for.
+   * Returns null for unknown, expired or revoked tokens, and when the token was
+   * issued for a different entity type or slug than the route being rendered.
+   */
+  async getPreviewContent<T extends { slug?: string }>(
+    token: string,
+    entityType: PreviewEntityType,
+    slug?: string
+  ): Promise<PreviewContent<T> | null> {
+    const { data, error } = await supabase.rpc('get_preview_content', { p_token: token });
+
+    if (error || !data) return null;
+    const preview = data as unknown as PreviewContent<T>;
+    if (preview.entity_type !== entityType) return null;
+    if (slug && preview.content?.slug !== slug) return null;
+    return preview;
+  },
+
+  // Global sections referenced from page bodies, keyed by id
+  async getGlobalSections(ids: string[]): Promise<Record<string, ContentSection>> {
+    if (ids.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('global_sections')
+      .select('id, section, schema_version')
+      .in('id', ids);
+
+    if (error) throw error;
+    return Object.fromEntries(
+      (data || []).map(row => [row.id, migrateSection(row.section, row.schema_version) as ContentSection])
+    );
+  },
+
+  // Menus, with content links resolved to published paths; null when the menu doesn't exist
+  async getMenu(slug: string): Promise<ResolvedMenuItem[] | null> {
+    const { data, error } = await supabase
+      .from('menus')
+      .select('id, menu_items(*)')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const items = (data.menu_items || []) as MenuItem[];
+    const entityPaths = await this.getMenuEntityPaths(items);
+    return resolveMenuTree(buildMenuTree(items), entityPaths);
+  },
+
+  async getMenuEntityPaths(items: MenuItem[]): Promise<MenuEntityPaths> {
+    const idsByType = new Map<MenuEntityType, string[]>();
+    items.forEach(item => {
+      if (isEntityLink(item.link_type) && item.entity_id) {
+        idsByType.set(item.link_type, [...(idsByType.get(item.link_type) || []), item.entity_id]);
+      }
+    });
+
+    const paths: MenuEntityPaths = {};
+    const toMap = (rows: { id: string; slug: string }[] | null) => Object.fromEntries((rows || []).map(row => [row.id, row.slug]));
+
+    await Promise.all([...idsByType].map(async ([type, ids]) => {
+      switch (type) {
+        case 'page': {
+          // Nested pages need their parents' slugs for the full path
+          const { data, error } = await supabase.from('pages').select('id, slug, parent_id').eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          const pages = data || [];
+          paths.page = Object.fromEntries(pages
+            .filter(page => ids.includes(page.id))
+            .map(page => [page.id, buildPublishedPagePath(page, pages)])
+            .filter(([, path]) => path !== null));
+          break;
+        }
+        case 'service': {
+          const { data, error } = await supabase.from('services').select('id, slug').in('id', ids).eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          paths.service = toMap(data);
+          break;
+        }
+        case 'project': {
+          const { data, error } = await supabase.from('projects').select('id, slug').in('id', ids).eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          paths.project = toMap(data);
+          break;
+        }
+        case 'blog_post': {
+          const { data, error } = await supabase.from('blog_posts').select('id, slug').in('id', ids).eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          paths.blog_post = toMap(data);
+          break;
+        }
+        case 'case_study': {
+          const { data, error } = await supabase.from('case_studies').select('id, slug').in('id', ids).eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          paths.case_study = toMap(data);
+          break;
+        }
+        case 'lab_project': {
+          const { data, error } = await supabase.from('lab_projects').select('id, slug').in('id', ids).eq('status', 'published').or(liveContentFilter());
+          if (error) throw error;
+          paths.lab_project = toMap(data);
+          break;
+        }
+        case 'job': {
+          const { data, error } = await supabase.from('jobs').select('id, slug').in('id', ids).eq('status', 'open').or(liveContentFilter());
+          if (error) throw error;
+          paths.job = toMap(data);
+          break;
+        }
+      }
+    }));
+
+    return paths;
+  },
+
+  // Translations (published only; drafts are visible to editors through RLS)
+  async getTranslations(entityType: TranslatableEntityType, ids: string[], locale: string): Promise<ContentTranslation[]> {
+    const { data, error } = await supabase
+      .from('content_translations')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('locale', locale)
+      .eq('status', 'published')
+      .in('entity_id', ids);
+
+    if (error) throw error;
+    return (data || []) as ContentTranslation[];
+  },
+
+  async getEntityTranslations(entityType: TranslatableEntityType, id: string): Promise<ContentTranslation[]> {
+    const { data, error } = await supabase
+      .from('content_translations')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', id)
+      .eq('status', 'published');
+
+    if (error) throw error;
+    return (data || []) as ContentTranslation[];
+  },
+
+  // Redirects
+  async getRedirects(): Promise<RedirectRule[]> {
+    const { data, error } = await supabase
+      .from('redirects')
+      .select('id, source_path, target_path, status_code, match_type')
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return (data || []) as RedirectRule[];
+  },
+
+  // Best effort: a failed hit count must never block the redirect
+  async recordRedirectHits(ids: string[]): Promise<void> {
+    const { error } = await supabase.rpc('record_redirect_hits', { p_ids: ids });
+    if (error) console.warn('Failed to record redirect hits:', error.message);
+  },
+
+  // Pricing tiers
+  async getPublishedPricingTiers(): Promise<PricingTier[]> {
+    const { data, error } = await supabase
+      .from('pricing_tiers')
+      .select('*')
+      .eq('status', 'published')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as PricingTier[];
+  },
+
+  // Content list sections
+  async getPublishedFAQs({ limit, ids = [] }: ContentListOptions = {}): Promise<FAQ[]> {
+    let query = supabase
+      .from('faqs')
+      .select('*')
+      .eq('status', 'published')
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (ids.length > 0) query = query.in('id', ids);
+    else if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return applySectionSelection((data || []) as FAQ[], ids, limit);
+  },
+
+  async getPublishedCaseStudies({ limit, ids = [], industry }: ContentListOptions & { industry?: string } = {}): Promise<CaseStudy[]> {
+    let query = supabase
+      .from('case_studies')
+      .select('*')
+      .eq('status', 'published')
+      .or(liveContentFilter())
+      .order('published_at', { ascending: false });
+
+    if (ids.length > 0) query = query.in('id', ids);
+    else {
+      if (industry) query = query.ilike('industry', industry);
+      if (limit) query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return applySectionSelection((data || []) as CaseStudy[], ids, limit);
+  },
+
+  async getPublishedLabProjects({ limit, ids = [], tag }: ContentListOptions & { tag?: string } = {}): Promise<LabProject[]> {
+    let query = supabase
+      .from('lab_projects')
+      .select('*')
+      .eq('status', 'published')
+      .or(liveContentFilter())
+      .order('published_at', { ascending: false });
+
+    if (ids.length > 0) query = query.in('id', ids);
+    else {
+      if (tag) query = query.contains('tags', [tag]);
+      if (limit) query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return applySectionSelection((data || []) as LabProject[], ids, limit);
+  },
+
+  async getOpenJobs({ limit, ids = [], team }: ContentListOptions & { team?: string } = {}): Promise<Job[]> {
+    let query = supabase
+      .from('jobs')
+      .select('*')
+      .eq('status', 'open')
+      .or(liveContentFilter())
+      .order('published_at', { ascending: false });
+
+    if (ids.length > 0) query = query.in('id', ids);
+    else {
+      if (team) query = query.ilike('team', team);
+      if (limit) query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return applySectionSelection((data || []) as Job[], ids, limit);
+  },
+
   // Pages
   async getPageBySlug(slug: string): Promise<Page | null> {
     const { data, error } = await supabase
@@ -310,12 +678,59 @@ export const cms = {
       .select('*')
       .eq('slug', slug)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .single();
 
     if (error) return null;
     return data as Page;
   },
 
+  /**
+   * Resolve a nested public path (e.g. "company/team") to a published page.
+   * Every segment must match the slug of the corresponding ancestor, so a
+   * child page is only reachable under its own parent chain.
+   * With a preview token the leaf page may be an unpublished draft.
+   */
+  async getPageByPath(path: string, previewToken?: string): Promise<ResolvedPage | null> {
+    const segments = path.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+    if (segments.length === 0) return null;
+
+    // A preview token swaps in the draft leaf page; ancestors must still be published
+    const leafSlug = segments[segments.length - 1];
+    const page = previewToken
+      ? ((await this.getPreviewContent(previewToken, 'page', leafSlug))?.content as Page) ?? null
+      : await this.getPageBySlug(leafSlug);
+    if (!page) return null;
+
+    const ancestors: Page[] = [];
+    let parentId = page.parent_id;
+
+    for (let i = segments.length - 2; i >= 0; i--) {
+      if (!parentId) return null;
+
+      const { data: parent, error } = await supabase
+        .from('pages')
+        .select('*')
+        .eq('id', parentId)
+        .eq('status', 'published')
+        .or(liveContentFilter())
+        .maybeSingle();
+
+      if (error || !parent || parent.slug !== segments[i]) return null;
+
+      ancestors.unshift({ ...parent, body: normalizePageBody(parent.body, parent.slug) } as Page);
+      parentId = parent.parent_id;
+    }
+
+    // The path must start at a top-level page
+    if (parentId) return null;
+
+    return {
+      page: { ...page, body: normalizePageBody(page.body, page.slug) },
+      ancestors,
+    };
+  },
+
   // Settings
   async getSetting(key: string): Promise<any> {
     const { data, error } = await supabase
@@ -353,6 +768,7 @@ export const cms = {
       .from('pages')
       .select('*')
       .eq('status', 'published')
+      .or(liveContentFilter())
       .order('published_at', { ascending: false });
 
     if (error) {
@@ -366,8 +782,6 @@ export const cms = {
     
     // Process pages and ensure body field is properly parsed
     const processedPages = (data || []).map(page => {
-      let processedBody: any = page.body;
-      
       if (process.env.NODE_ENV === 'development') {
         console.log('🔍 [CMS] Processing page body for:', page.slug, {
           bodyType: typeof page.body,
@@ -377,40 +791,7 @@ export const cms = {
         });
       }
       
-      // If body is a string, try to parse it as JSON
-      if (typeof page.body === 'string') {
-        try {
-          processedBody = JSON.parse(page.body);
-          if (process.env.NODE_ENV === 'development') {
-            console.log('🔄 [CMS] Parsed string body for page:', page.slug);
-          }
-        } catch (e) {
-          if (process.env.NODE_ENV === 'development') {
-            console.warn('⚠️ [CMS] Failed to parse body JSON for page:', page.slug, e);
-          }
-          processedBody = null;
-        }
-      }
-      
-      // Handle special case where body might be wrapped in extra structure
-      if (processedBody && typeof processedBody === 'object' && !Array.isArray(processedBody)) {
-        const bodyObj = processedBody as Record<string, any>;
-        
-        // Check if body has a _type and value structure (PostgreSQL JSON artifact)
-        if (bodyObj._type === 'undefined' && bodyObj.value === 'undefined') {
-          if (process.env.NODE_ENV === 'development') {
-            console.warn('⚠️ [CMS] Found undefined body structure for page:', page.slug);
-          }
-          processedBody = null;
-        }
-        // If body is wrapped in a value property, unwrap it
-        else if (bodyObj.value && typeof bodyObj.value === 'object') {
-          processedBody = bodyObj.value;
-          if (process.env.NODE_ENV === 'development') {
-            console.log('🔄 [CMS] Unwrapped body.value for page:', page.slug);
-          }
-        }
-      }
+      const processedBody = normalizePageBody(page.body, page.slug);
       
       const finalPage = {
         ...page,
@@ -489,6 +870,7 @@ export const cms = {
         )
       `)
       .eq('status', 'published')
+      .or(liveContentFilter())
       .eq('blog_post_categories.blog_categories.slug', categorySlug)
       .order('published_at', { ascending: false });
 
@@ -544,6 +926,99 @@ export const cms = {
     } : null;
   },
 
+  // Byline authors of a post, in order
+  async getBlogPostAuthors(postId: string): Promise<BlogAuthor[]> {
+    try {
+      const { data, error } = await supabase
+        .rpc('get_blog_post_authors', { post_id: postId });
+
+      if (error) throw error;
+      return (data || []).map(toBlogAuthor);
+    } catch (error) {
+      console.warn('Error fetching authors for post:', postId, error);
+      return [];
+    }
+  },
+
+  getBlogAuthorBySlug: async (slug: string): Promise<BlogAuthor | null> => {
+    const { data, error } = await supabase
+      .from('blog_authors')
+      .select('*')
+      .eq('slug', slug)
+      .eq('status', 'published')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toBlogAuthor(data) : null;
+  },
+
+  // Get blog posts by author
+  getBlogPostsByAuthor: async (authorSlug: string, limit?: number): Promise<BlogPost[]> => {
+    let query = supabase
+      .from('blog_posts')
+      .select(`
+        *,
+        blog_post_authors!inner(
+          blog_authors!inner(slug)
+        )
+      `)
+      .eq('status', 'published')
+      .or(liveContentFilter())
+      .eq('blog_post_authors.blog_authors.slug', authorSlug)
+      .order('published_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map(item => ({
+      ...item,
+      status: item.status as 'draft' | 'published'
+    }));
+  },
+
+  getBlogPostsByTag: async (tag: string, options: { page?: number; pageSize?: number } = {}): Promise<{
+    posts: BlogPost[];
+    totalCount: number;
+  }> => {
+    const { page = 1, pageSize = 9 } = options;
+    const from = (page - 1) * pageSize;
+
+    const { data, error, count } = await supabase
+      .from('blog_posts')
+      .select('*', { count: 'exact' })
+      .eq('status', 'published')
+      .or(liveContentFilter())
+      .contains('tags', [tag])
+      .order('published_at', { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    // Asking for a page past the last one is an error, not an empty page
+    if (error?.code === 'PGRST103') {
+      const { count: total, error: countError } = await supabase
+        .from('blog_posts')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'published')
+        .or(liveContentFilter())
+        .contains('tags', [tag]);
+
+      if (countError) throw countError;
+      return { posts: [], totalCount: total ?? 0 };
+    }
+    if (error) throw error;
+
+    return {
+      posts: (data || []).map(item => ({
+        ...item,
+        status: item.status as 'draft' | 'published'
+      })),
+      totalCount: count ?? 0
+    };
+  },
+
   async submitContact(submission: {
     name: string;
     email: string;
@@ -0,0 +1,58 @@
+// Optimistic concurrency for admin saves. Updates carry the `updated_at` the editor loaded;
+// when someone else saved in between, the update matches no row and the adminCms update
+// method throws a StaleContentError with the row as it is now.
+
+export type VersionedRow = Record<string, unknown> & { updated_at?: string | null };
+
+export class StaleContentError extends Error {
+  readonly latest: VersionedRow;
+
+  constructor(latest: VersionedRow) {
+    super('This content was changed by someone else since you opened it');
+    this.name = 'StaleContentError';
+    this.latest = latest;
+  }
+}
+
+export function isStaleContentError(error: unknown): error is StaleContentError {
+  return error instanceof StaleContentError;
+}
+
+// Bookkeeping columns that always differ and are never merged
+const IGNORED_FIELDS = new Set(['updated_at', 'created_at']);
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export interface MergeResult<T> {
+  merged: T;
+  /** Fields both sides changed to different values; `merged` keeps the local value */
+  conflicts: string[];
+}
+
+/**
+ * Three-way merge of the editor's unsaved state (`mine`) with the latest saved row
+ * (`theirs`), both based on the row the editor loaded (`base`). Fields only they changed
+ * are taken over; the result carries their `updated_at`, so saving it passes the check.
+ */
+export function mergeConcurrentChanges<T extends object>(base: object, mine: T, theirs: VersionedRow): MergeResult<T> {
+  const baseRow = base as VersionedRow;
+  const mineRow = mine as VersionedRow;
+  const merged: VersionedRow = { ...mineRow };
+  const conflicts: string[] = [];
+
+  Object.keys(theirs).forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const theirsChanged = !isSame(theirs[field], baseRow[field]);
+    if (!theirsChanged) return;
+
+    const mineChanged = field in mineRow && !isSame(mineRow[field], baseRow[field]);
+    if (!mineChanged) {
+      merged[field] = theirs[field];
+    } else if (!isSame(mineRow[field], theirs[field])) {
+      conflicts.push(field);
+    }
+  });
+
+  merged.updated_at = theirs.updated_at;
+  return { merged: merged as T, conflicts };
+}
@@ -0,0 +1,28 @@
+import type { ContentLock, EditableEntityType } from '@/types/content';
+
+// Soft edit locks and presence for the admin editors. Locks are held and renewed through
+// acquire_content_lock() (see the edit locks migration); presence runs over a realtime
+// channel per piece of content.
+
+// Locks expire after two minutes without renewal
+export const LOCK_RENEW_INTERVAL_MS = 30 * 1000;
+
+export function getPresenceChannelName(entityType: EditableEntityType, entityId: string): string {
+  return `editing:${entityType}:${entityId}`;
+}
+
+export function isLockHeldByOther(lock: ContentLock | null, userId: string | undefined, now: Date = new Date()): boolean {
+  if (!lock || !userId) return false;
+  return lock.locked_by !== userId && new Date(lock.expires_at).getTime() > now.getTime();
+}
+
+// "anna.smith@example.com" -> "Anna Smith", for "Anna Smith is editing"
+export function getEditorDisplayName(email: string, fullName?: string | null): string {
+  if (fullName?.trim()) return fullName.trim();
+  const local = email.split('@')[0] || email;
+  return local
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ') || email;
+}
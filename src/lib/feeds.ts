@@ -0,0 +1,282 @@
+import type { BlogCategory, BlogPost } from '@/lib/cms';
+import { blocksToHtml, escapeHtml, toAbsoluteUrl } from '@/lib/blocks/render-html';
+import { isInsightPost } from '@/lib/insights';
+
+// Syndication feeds for the blog. Each scope (the whole blog, insights, one category or one
+// tag) is published as RSS 2.0, Atom and JSON Feed by the `feeds` edge function; the builders
+// here are pure so that function, the discovery links in SEOHead and the tests agree on paths
+// and content.
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FORMATS: { value: FeedFormat; label: string; file: string; mimeType: string }[] = [
+  { value: 'rss', label: 'RSS', file: 'rss.xml', mimeType: 'application/rss+xml' },
+  { value: 'atom', label: 'Atom', file: 'atom.xml', mimeType: 'application/atom+xml' },
+  { value: 'json', label: 'JSON Feed', file: 'feed.json', mimeType: 'application/feed+json' },
+];
+
+export type FeedScope =
+  | { type: 'site' }
+  | { type: 'insights' }
+  | { type: 'category'; slug: string; name?: string }
+  | { type: 'tag'; tag: string };
+
+export type FeedPost = BlogPost & { categories?: BlogCategory[] };
+
+export interface FeedLink {
+  href: string;
+  type: string;
+  title: string;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary?: string;
+  contentHtml: string;
+  publishedAt: string;
+  updatedAt: string;
+  image?: { url: string; mimeType: string };
+  categories: string[];
+}
+
+export interface FeedDocument {
+  title: string;
+  description: string;
+  pageUrl: string;
+  feedUrls: Record<FeedFormat, string>;
+  updatedAt: string;
+  items: FeedItem[];
+}
+
+export const FEED_ITEM_LIMIT = 20;
+
+// The feeds edge function serves every feed path (see getFeedPath) under its own URL
+export const FEEDS_URL = 'https://dvgubqqjvmsepkilnkak.supabase.co/functions/v1/feeds';
+
+const SITE_NAME = 'Devmart';
+const SITE_DESCRIPTION = 'Insights, trends and tips on technology, innovation and digital transformation from Devmart.';
+
+function getScopePagePath(scope: FeedScope): string {
+  switch (scope.type) {
+    case 'site':
+      return '/blog';
+    case 'insights':
+      return '/insights';
+    case 'category':
+      return `/blog/category/${scope.slug}`;
+    case 'tag':
+      return `/blog/tag/${encodeURIComponent(scope.tag)}`;
+  }
+}
+
+function getScopeTitle(scope: FeedScope): string {
+  switch (scope.type) {
+    case 'site':
+      return `${SITE_NAME} Blog`;
+    case 'insights':
+      return `${SITE_NAME} Insights`;
+    case 'category':
+      return `${scope.name || scope.slug} - ${SITE_NAME} Blog`;
+    case 'tag':
+      return `#${scope.tag} - ${SITE_NAME} Blog`;
+  }
+}
+
+/** Site-wide feeds live at the root (/rss.xml); scoped feeds sit under their listing page */
+export function getFeedPath(scope: FeedScope, format: FeedFormat): string {
+  const file = FEED_FORMATS.find(option => option.value === format)!.file;
+  return scope.type === 'site' ? `/${file}` : `${getScopePagePath(scope)}/${file}`;
+}
+
+export function getFeedUrl(scope: FeedScope, format: FeedFormat): string {
+  return `${FEEDS_URL}${getFeedPath(scope, format)}`;
+}
+
+/** The scope and format a feed path stands for, or null when it is not a feed path */
+export function parseFeedPath(path: string): { scope: FeedScope; format: FeedFormat } | null {
+  const segments = path.split('/').filter(Boolean);
+  const file = segments.pop();
+  const format = FEED_FORMATS.find(option => option.file === file)?.value;
+  if (!format) return null;
+
+  const [section, kind, value] = segments;
+  if (segments.length === 0) return { scope: { type: 'site' }, format };
+  if (segments.length === 1 && section === 'insights') return { scope: { type: 'insights' }, format };
+  if (segments.length === 3 && section === 'blog' && kind === 'category') return { scope: { type: 'category', slug: value }, format };
+  if (segments.length === 3 && section === 'blog' && kind === 'tag') {
+    try {
+      return { scope: { type: 'tag', tag: decodeURIComponent(value) }, format };
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function getFeedLinks(scope: FeedScope): FeedLink[] {
+  const title = getScopeTitle(scope);
+  return FEED_FORMATS.map(format => ({
+    href: getFeedUrl(scope, format.value),
+    type: format.mimeType,
+    title: `${title} (${format.label})`,
+  }));
+}
+
+function matchesScope(post: FeedPost, scope: FeedScope): boolean {
+  switch (scope.type) {
+    case 'site':
+      return true;
+    case 'insights':
+      return isInsightPost(post);
+    case 'category':
+      return (post.categories ?? []).some(category => category.slug === scope.slug);
+    case 'tag':
+      return (post.tags ?? []).some(tag => tag.toLowerCase() === scope.tag.toLowerCase());
+  }
+}
+
+function getImageMimeType(url: string): string {
+  const extension = /\.(\w+)(?:[?#].*)?$/.exec(url)?.[1]?.toLowerCase();
+  switch (extension) {
+    case 'png':
+      return 'image/png';
+    case 'gif':
+      return 'image/gif';
+    case 'webp':
+      return 'image/webp';
+    case 'avif':
+      return 'image/avif';
+    case 'svg':
+      return 'image/svg+xml';
+    default:
+      return 'image/jpeg';
+  }
+}
+
+function toIsoDate(...dates: (string | null | undefined)[]): string {
+  const date = dates.find(Boolean);
+  return (date ? new Date(date) : new Date(0)).toISOString();
+}
+
+export function buildFeedDocument(posts: FeedPost[], scope: FeedScope, baseUrl: string): FeedDocument {
+  const origin = baseUrl.replace(/\/$/, '');
+  // Insights posts are read under /insights, everything else under /blog
+  const postPath = scope.type === 'insights' ? '/insights' : '/blog';
+
+  const items = posts
+    .filter(post => matchesScope(post, scope))
+    .map((post): FeedItem => {
+      const url = `${origin}${postPath}/${post.slug}`;
+      const image = post.feature_image_url ? toAbsoluteUrl(post.feature_image_url, origin) : undefined;
+      return {
+        id: url,
+        url,
+        title: post.title,
+        summary: post.excerpt || undefined,
+        contentHtml: blocksToHtml(post.body, origin),
+        publishedAt: toIsoDate(post.published_at, post.created_at),
+        updatedAt: toIsoDate(post.updated_at, post.published_at, post.created_at),
+        image: image ? { url: image, mimeType: getImageMimeType(image) } : undefined,
+        categories: [...(post.categories ?? []).map(category => category.name), ...(post.tags ?? [])],
+      };
+    })
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+    .slice(0, FEED_ITEM_LIMIT);
+
+  return {
+    title: getScopeTitle(scope),
+    description: scope.type === 'category' || scope.type === 'tag'
+      ? `Latest ${scope.type === 'tag' ? `#${scope.tag}` : scope.name || scope.slug} posts from the ${SITE_NAME} blog.`
+      : SITE_DESCRIPTION,
+    pageUrl: `${origin}${getScopePagePath(scope)}`,
+    feedUrls: Object.fromEntries(
+      FEED_FORMATS.map(format => [format.value, getFeedUrl(scope, format.value)]),
+    ) as Record<FeedFormat, string>,
+    updatedAt: items.length
+      ? items.reduce((latest, item) => (item.updatedAt > latest ? item.updatedAt : latest), items[0].updatedAt)
+      : new Date().toISOString(),
+    items,
+  };
+}
+
+export function renderRssFeed(feed: FeedDocument): string {
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeHtml(item.title)}</title>
+      <link>${escapeHtml(item.url)}</link>
+      <guid isPermaLink="true">${escapeHtml(item.id)}</guid>
+      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>
+${item.summary ? `      <description>${escapeHtml(item.summary)}</description>\n` : ''}      <content:encoded>${escapeHtml(item.contentHtml)}</content:encoded>
+${item.categories.map(category => `      <category>${escapeHtml(category)}</category>\n`).join('')}${item.image ? `      <enclosure url="${escapeHtml(item.image.url)}" length="0" type="${item.image.mimeType}" />\n` : ''}    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeHtml(feed.title)}</title>
+    <link>${escapeHtml(feed.pageUrl)}</link>
+    <description>${escapeHtml(feed.description)}</description>
+    <language>en</language>
+    <lastBuildDate>${new Date(feed.updatedAt).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeHtml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>`;
+}
+
+export function renderAtomFeed(feed: FeedDocument): string {
+  const entries = feed.items.map(item => `  <entry>
+    <id>${escapeHtml(item.id)}</id>
+    <title>${escapeHtml(item.title)}</title>
+    <link rel="alternate" type="text/html" href="${escapeHtml(item.url)}" />
+    <published>${item.publishedAt}</published>
+    <updated>${item.updatedAt}</updated>
+${item.summary ? `    <summary>${escapeHtml(item.summary)}</summary>\n` : ''}    <content type="html">${escapeHtml(item.contentHtml)}</content>
+${item.categories.map(category => `    <category term="${escapeHtml(category)}" />\n`).join('')}${item.image ? `    <link rel="enclosure" type="${item.image.mimeType}" href="${escapeHtml(item.image.url)}" />\n` : ''}  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <id>${escapeHtml(feed.pageUrl)}</id>
+  <title>${escapeHtml(feed.title)}</title>
+  <subtitle>${escapeHtml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeHtml(feed.pageUrl)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeHtml(feed.feedUrls.atom)}" />
+  <updated>${feed.updatedAt}</updated>
+  <author><name>${SITE_NAME}</name></author>
+${entries.join('\n')}
+</feed>`;
+}
+
+export function renderJsonFeed(feed: FeedDocument): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.pageUrl,
+    feed_url: feed.feedUrls.json,
+    description: feed.description,
+    language: 'en',
+    authors: [{ name: SITE_NAME }],
+    items: feed.items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      image: item.image?.url,
+      date_published: item.publishedAt,
+      date_modified: item.updatedAt,
+      tags: item.categories.length ? item.categories : undefined,
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: FeedDocument, format: FeedFormat): string {
+  switch (format) {
+    case 'rss':
+      return renderRssFeed(feed);
+    case 'atom':
+      return renderAtomFeed(feed);
+    case 'json':
+      return renderJsonFeed(feed);
+  }
+}
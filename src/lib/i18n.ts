@@ -0,0 +1,143 @@
+import type { ContentTranslation, TranslatableEntityType } from '@/types/content';
+
+// Content locales. The default locale is served without a URL prefix and lives in the
+// content tables themselves; other locales are served under /<code>/... and come from
+// `content_translations` overlays (see the content_translations migration).
+
+export type Locale = 'en' | 'nl';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: { code: Locale; label: string; ogLocale: string }[] = [
+  { code: 'en', label: 'English', ogLocale: 'en_US' },
+  { code: 'nl', label: 'Nederlands', ogLocale: 'nl_NL' },
+];
+
+export type TranslationStatus = 'missing' | 'draft' | 'outdated' | 'published';
+
+export type TranslatableFieldKind = 'text' | 'textarea' | 'list' | 'json';
+
+export interface TranslatableField {
+  name: string;
+  label: string;
+  kind: TranslatableFieldKind;
+}
+
+const SEO_FIELDS: TranslatableField[] = [
+  { name: 'seo_title', label: 'SEO title', kind: 'text' },
+  { name: 'seo_description', label: 'SEO description', kind: 'textarea' },
+];
+
+// Columns that differ per locale; everything else (slug, images, dates) is shared
+export const TRANSLATABLE_FIELDS: Record<TranslatableEntityType, TranslatableField[]> = {
+  page: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'body', label: 'Sections (JSON)', kind: 'json' },
+    ...SEO_FIELDS,
+  ],
+  service: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'excerpt', label: 'Excerpt', kind: 'textarea' },
+    { name: 'content', label: 'Content (JSON)', kind: 'json' },
+    ...SEO_FIELDS,
+  ],
+  project: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'excerpt', label: 'Excerpt', kind: 'textarea' },
+    { name: 'body', label: 'Body (JSON)', kind: 'json' },
+    ...SEO_FIELDS,
+  ],
+  blog_post: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'excerpt', label: 'Excerpt', kind: 'textarea' },
+    { name: 'body', label: 'Body (JSON)', kind: 'json' },
+    ...SEO_FIELDS,
+  ],
+  faq: [
+    { name: 'question', label: 'Question', kind: 'text' },
+    { name: 'answer', label: 'Answer', kind: 'textarea' },
+  ],
+  case_study: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'summary', label: 'Summary', kind: 'textarea' },
+    { name: 'body', label: 'Body', kind: 'textarea' },
+  ],
+  job: [
+    { name: 'title', label: 'Title', kind: 'text' },
+    { name: 'team', label: 'Team', kind: 'text' },
+    { name: 'location', label: 'Location', kind: 'text' },
+    { name: 'description', label: 'Description', kind: 'textarea' },
+    { name: 'responsibilities', label: 'Responsibilities', kind: 'list' },
+    { name: 'requirements', label: 'Requirements', kind: 'list' },
+    { name: 'benefits', label: 'Benefits', kind: 'list' },
+  ],
+};
+
+export function isLocale(value: string | undefined): value is Locale {
+  return LOCALES.some(locale => locale.code === value);
+}
+
+// Split a browser path into its locale and the path the router sees
+export function getLocaleFromPath(pathname: string): { locale: Locale; path: string } {
+  const [, first, ...rest] = pathname.split('/');
+  if (first !== DEFAULT_LOCALE && isLocale(first)) {
+    return { locale: first, path: `/${rest.join('/')}` };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname || '/' };
+}
+
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+// The locale of this page load. Locales are switched with a full navigation, so it
+// does not change while the app is running.
+export function getCurrentLocale(): Locale {
+  return typeof window === 'undefined' ? DEFAULT_LOCALE : getLocaleFromPath(window.location.pathname).locale;
+}
+
+// Router basename, so that every internal link stays within the current locale
+export function getLocaleBasename(): string | undefined {
+  const locale = getCurrentLocale();
+  return locale === DEFAULT_LOCALE ? undefined : `/${locale}`;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Overlay a published translation on a content row. Fields that are not translatable
+ * or left empty in the translation keep the default-locale value.
+ */
+export function applyTranslation<T extends object>(
+  entityType: TranslatableEntityType,
+  item: T,
+  translation: Pick<ContentTranslation, 'fields' | 'status'> | undefined
+): T {
+  if (!translation || translation.status !== 'published') return item;
+
+  const overrides: Record<string, unknown> = {};
+  TRANSLATABLE_FIELDS[entityType].forEach(field => {
+    const value = translation.fields?.[field.name];
+    if (!isEmptyValue(value)) overrides[field.name] = value;
+  });
+  return { ...item, ...overrides };
+}
+
+export function getTranslationStatus(
+  source: { updated_at?: string | null },
+  translation: Pick<ContentTranslation, 'status' | 'source_updated_at'> | undefined
+): TranslationStatus {
+  if (!translation) return 'missing';
+  if (translation.status !== 'published') return 'draft';
+  if (source.updated_at && translation.source_updated_at
+    && new Date(source.updated_at).getTime() > new Date(translation.source_updated_at).getTime()) {
+    return 'outdated';
+  }
+  return 'published';
+}
@@ -0,0 +1,32 @@
+// The insights section is not a category of its own: it lists published blog posts whose
+// tags are strategic or analytical. The page and its feeds share this rule.
+
+const INSIGHT_TAGS = [
+  'industry-analysis',
+  'tech-trends',
+  'market-insights',
+  'digital-transformation',
+  'innovation',
+  'strategy',
+  'leadership',
+  'thought-leadership',
+  'future-tech',
+  'business-intelligence',
+  'data-science',
+  'ai-machine-learning',
+  'cybersecurity',
+  'cloud-computing',
+  'enterprise',
+  'startup-insights',
+];
+
+const INSIGHT_KEYWORDS = ['insight', 'trend', 'analysis', 'strategy'];
+
+export function isInsightPost(post: { tags?: string[] | null }): boolean {
+  if (!post.tags || !Array.isArray(post.tags)) return false;
+
+  return post.tags.some(tag => {
+    const normalized = tag.toLowerCase();
+    return INSIGHT_TAGS.includes(normalized) || INSIGHT_KEYWORDS.some(keyword => normalized.includes(keyword));
+  });
+}
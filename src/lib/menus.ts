@@ -0,0 +1,291 @@
+import type { MenuItem, MenuLinkType } from '@/types/content';
+
+// Database-driven menus (see the `menus` migration). Items are stored flat with
+// parent_id/sort_order and turned into a tree here. Content links store the entity id;
+// the public path is looked up when the menu is loaded, so slug changes don't break links.
+
+export type MenuEntityType = Exclude<MenuLinkType, 'route' | 'external' | 'none'>;
+
+// The header renders top-level items with one level of dropdown children
+export const MENU_MAX_DEPTH = 2;
+
+// Menus the site renders; other menus can be created for future placements
+export const MENU_LOCATIONS = {
+  header: 'header',
+  footer: 'footer',
+  footerLegal: 'footer-legal',
+} as const;
+
+export const MENU_LINK_TYPES: { value: MenuLinkType; label: string }[] = [
+  { value: 'route', label: 'Site path' },
+  { value: 'external', label: 'External URL' },
+  { value: 'none', label: 'Group (no link)' },
+  { value: 'page', label: 'Page' },
+  { value: 'service', label: 'Service' },
+  { value: 'project', label: 'Portfolio project' },
+  { value: 'blog_post', label: 'Blog post' },
+  { value: 'case_study', label: 'Case study' },
+  { value: 'lab_project', label: 'Lab project' },
+  { value: 'job', label: 'Job opening' },
+];
+
+const ENTITY_ROUTES: Record<MenuEntityType, (slug: string) => string> = {
+  page: path => (path === 'home' ? '/' : `/${path}`),
+  service: slug => `/services/${slug}`,
+  project: slug => `/portfolio/${slug}`,
+  blog_post: slug => `/blog/${slug}`,
+  case_study: slug => `/case-studies/${slug}`,
+  lab_project: slug => `/innovation-lab/${slug}`,
+  job: slug => `/careers/${slug}`,
+};
+
+// Public URL of a content entity from its slug (for pages, the nested path)
+export function getEntityPath(type: MenuEntityType, slug: string): string {
+  return ENTITY_ROUTES[type](slug);
+}
+
+// Published slug (or page path) of each linked entity, keyed by type and id
+export type MenuEntityPaths = Partial<Record<MenuEntityType, Record<string, string>>>;
+
+export interface MenuNode extends MenuItem {
+  children: MenuNode[];
+}
+
+export interface ResolvedMenuItem {
+  id: string;
+  label: string;
+  // null for groups that only hold children
+  href: string | null;
+  external: boolean;
+  openInNewTab: boolean;
+  style: MenuItem['style'];
+  audience: MenuItem['audience'];
+  children: ResolvedMenuItem[];
+}
+
+export function isEntityLink(type: MenuLinkType): type is MenuEntityType {
+  return type in ENTITY_ROUTES;
+}
+
+export function buildMenuTree(items: MenuItem[]): MenuNode[] {
+  const nodes = new Map(items.map(item => [item.id, { ...item, children: [] as MenuNode[] }]));
+  const roots: MenuNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+    // Items whose parent is gone are shown at the top level instead of disappearing
+    (parent && parent !== node ? parent.children : roots).push(node);
+  });
+
+  const sort = (list: MenuNode[]) => {
+    list.sort((a, b) => a.sort_order - b.sort_order);
+    list.forEach(node => sort(node.children));
+    return list;
+  };
+  return sort(roots);
+}
+
+// Back to rows for saving, with parent_id and sort_order taken from the tree position
+export function flattenMenuTree(nodes: MenuNode[], parentId: string | null = null): MenuItem[] {
+  return nodes.flatMap((node, index) => {
+    const { children, ...item } = node;
+    return [{ ...item, parent_id: parentId, sort_order: index }, ...flattenMenuTree(children, node.id)];
+  });
+}
+
+export function getMenuDepth(nodes: MenuNode[]): number {
+  return nodes.length === 0 ? 0 : 1 + Math.max(...nodes.map(node => getMenuDepth(node.children)));
+}
+
+export function findMenuNode(nodes: MenuNode[], id: string, parentId: string | null = null): { node: MenuNode; parentId: string | null; index: number } | null {
+  for (let index = 0; index < nodes.length; index++) {
+    if (nodes[index].id === id) return { node: nodes[index], parentId, index };
+    const found = findMenuNode(nodes[index].children, id, nodes[index].id);
+    if (found) return found;
+  }
+  return null;
+}
+
+function removeMenuNode(nodes: MenuNode[], id: string): MenuNode[] {
+  return nodes
+    .filter(node => node.id !== id)
+    .map(node => ({ ...node, children: removeMenuNode(node.children, id) }));
+}
+
+function insertMenuNode(nodes: MenuNode[], parentId: string | null, index: number, inserted: MenuNode): MenuNode[] {
+  if (parentId === null) {
+    const next = [...nodes];
+    next.splice(Math.max(0, Math.min(index, next.length)), 0, inserted);
+    return next;
+  }
+  return nodes.map(node => ({
+    ...node,
+    children: node.id === parentId
+      ? insertMenuNode(node.children, null, index, inserted)
+      : insertMenuNode(node.children, parentId, index, inserted),
+  }));
+}
+
+/**
+ * Move an item to `index` among the children of `parentId` (null for the top level).
+ * The index refers to the target list after the item was taken out. Returns the tree
+ * unchanged when the move would put an item inside itself or exceed MENU_MAX_DEPTH.
+ */
+export function moveMenuNode(nodes: MenuNode[], id: string, parentId: string | null, index: number): MenuNode[] {
+  const found = findMenuNode(nodes, id);
+  if (!found) return nodes;
+  if (parentId && (parentId === id || findMenuNode(found.node.children, parentId))) return nodes;
+
+  const parentDepth = parentId ? depthOf(nodes, parentId) : 0;
+  if (parentDepth + 1 + getMenuDepth(found.node.children) > MENU_MAX_DEPTH) return nodes;
+
+  return insertMenuNode(removeMenuNode(nodes, id), parentId, index, found.node);
+}
+
+function depthOf(nodes: MenuNode[], id: string, depth = 1): number {
+  for (const node of nodes) {
+    if (node.id === id) return depth;
+    const found = depthOf(node.children, id, depth + 1);
+    if (found) return found;
+  }
+  return 0;
+}
+
+export type MenuDropPosition = 'before' | 'after' | 'inside';
+
+// Drag and drop: place an item before, after or inside another item
+export function dropMenuNode(nodes: MenuNode[], id: string, targetId: string, position: MenuDropPosition): MenuNode[] {
+  const dragged = findMenuNode(nodes, id);
+  if (!dragged || id === targetId || findMenuNode(dragged.node.children, targetId)) return nodes;
+
+  const target = findMenuNode(removeMenuNode(nodes, id), targetId);
+  if (!target) return nodes;
+
+  return position === 'inside'
+    ? moveMenuNode(nodes, id, targetId, target.node.children.length)
+    : moveMenuNode(nodes, id, target.parentId, target.index + (position === 'after' ? 1 : 0));
+}
+
+export function createMenuItem(menuId: string, overrides: Partial<MenuItem> = {}): MenuNode {
+  return {
+    id: crypto.randomUUID(),
+    menu_id: menuId,
+    parent_id: null,
+    label: 'New link',
+    link_type: 'route',
+    entity_id: null,
+    url: '/',
+    open_in_new_tab: false,
+    style: 'link',
+    is_visible: true,
+    audience: 'all',
+    sort_order: 0,
+    ...overrides,
+    children: [],
+  };
+}
+
+// First problem that would stop the item from saving or rendering, if any
+export function getMenuItemIssue(item: MenuItem): string | null {
+  if (!item.label.trim()) return 'Label is required';
+  if (item.link_type === 'route' && !item.url?.startsWith('/')) return 'Site paths start with /';
+  if (item.link_type === 'external' && !/^(https?:\/\/|mailto:|tel:)/.test(item.url || '')) {
+    return 'External links need a full URL (https://...)';
+  }
+  if (isEntityLink(item.link_type) && !item.entity_id) return 'Choose the content to link to';
+  return null;
+}
+
+export function resolveMenuTree(nodes: MenuNode[], entityPaths: MenuEntityPaths): ResolvedMenuItem[] {
+  return nodes.flatMap(node => {
+    if (!node.is_visible) return [];
+
+    const children = resolveMenuTree(node.children, entityPaths);
+    let href: string | null = null;
+
+    if (node.link_type === 'route' || node.link_type === 'external') {
+      href = node.url || null;
+    } else if (isEntityLink(node.link_type)) {
+      const slug = node.entity_id ? entityPaths[node.link_type]?.[node.entity_id] : undefined;
+      // Unpublished or deleted content: drop the link, keep the item only as a group
+      href = slug ? getEntityPath(node.link_type, slug) : null;
+    }
+
+    if (!href && children.length === 0) return [];
+
+    return [{
+      id: node.id,
+      label: node.label,
+      href,
+      external: node.link_type === 'external',
+      openInNewTab: node.open_in_new_tab,
+      style: node.style,
+      audience: node.audience,
+      children,
+    }];
+  });
+}
+
+export function filterMenuForAudience(items: ResolvedMenuItem[], isAuthenticated: boolean): ResolvedMenuItem[] {
+  return items.flatMap(item => {
+    if (item.audience === 'authenticated' && !isAuthenticated) return [];
+    if (item.audience === 'anonymous' && isAuthenticated) return [];
+    const children = filterMenuForAudience(item.children, isAuthenticated);
+    if (!item.href && children.length === 0) return [];
+    return [{ ...item, children }];
+  });
+}
+
+export function isMenuItemActive(item: ResolvedMenuItem, pathname: string): boolean {
+  if (item.children.some(child => isMenuItemActive(child, pathname))) return true;
+  if (!item.href || item.external) return false;
+  return item.href === '/' ? pathname === '/' : pathname.startsWith(item.href);
+}
+
+const fallbackItem = (label: string, href: string | null, children: ResolvedMenuItem[] = [], style: MenuItem['style'] = 'link'): ResolvedMenuItem => ({
+  id: `fallback-${label}`,
+  label,
+  href,
+  external: false,
+  openInNewTab: false,
+  style,
+  audience: 'all',
+  children,
+});
+
+// Shown while menus load or when they cannot be loaded; mirrors the seeded menus
+export const FALLBACK_MENUS: Record<string, ResolvedMenuItem[]> = {
+  [MENU_LOCATIONS.header]: [
+    fallbackItem('Home', '/'),
+    fallbackItem('Services', '/services'),
+    fallbackItem('Portfolio', '/portfolio'),
+    fallbackItem('About', '/about'),
+    fallbackItem('Pricing', '/pricing'),
+    fallbackItem('Contact', '/contact'),
+    fallbackItem('Solutions', null, [
+      fallbackItem('Insights', '/insights'),
+      fallbackItem('Case Studies', '/case-studies'),
+      fallbackItem('Innovation Lab', '/innovation-lab'),
+    ]),
+    fallbackItem('Company', null, [
+      fallbackItem('Blog', '/blog'),
+      fallbackItem('Careers', '/careers'),
+      fallbackItem('FAQ', '/faq'),
+    ]),
+    fallbackItem('Get Started', '/get-quote', [], 'button'),
+  ],
+  [MENU_LOCATIONS.footer]: [
+    fallbackItem('Our Link', null, [
+      fallbackItem('About us', '/about'),
+      fallbackItem('Services', '/services'),
+      fallbackItem('Our Project', '/portfolio'),
+      fallbackItem('FAQ', '/faq'),
+      fallbackItem('Contact us', '/contact'),
+    ]),
+  ],
+  [MENU_LOCATIONS.footerLegal]: [
+    fallbackItem('Terms & Condition', '/terms-conditions'),
+    fallbackItem('Privacy Policy', '/privacy-policy'),
+    fallbackItem('Contact', '/contact'),
+  ],
+};
@@ -0,0 +1,38 @@
+// Pricing tier helpers shared by the Pricing page, the pricing section and checkout
+import { PricingTier, PricingBillingPeriod } from '@/types/payment';
+import { applySectionSelection } from '@/lib/sections/selection';
+
+export const BILLING_PERIOD_OPTIONS: { value: PricingBillingPeriod; label: string; suffix?: string }[] = [
+  { value: 'one_time', label: 'One-time', suffix: 'one-time' },
+  { value: 'month', label: 'Monthly', suffix: 'month' },
+  { value: 'year', label: 'Yearly', suffix: 'year' },
+  { value: 'custom', label: 'Custom quote' },
+];
+
+export function formatPrice(price: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+    // Whole amounts such as $2,999 read better without cents
+    minimumFractionDigits: price % 100 === 0 ? 0 : 2,
+  }).format(price / 100);
+}
+
+export function formatTierPrice(tier: Pick<PricingTier, 'price' | 'currency' | 'billing_period'>): string {
+  return tier.billing_period === 'custom' ? 'Custom' : formatPrice(tier.price, tier.currency);
+}
+
+export function getBillingPeriodSuffix(period: PricingBillingPeriod = 'month'): string | undefined {
+  return BILLING_PERIOD_OPTIONS.find(option => option.value === period)?.suffix;
+}
+
+// Checkout takes a single payment, so only paid one-time tiers can use it; monthly,
+// yearly, custom and free tiers go through a quote instead
+export function isCheckoutTier(tier: Pick<PricingTier, 'price' | 'billing_period'>): boolean {
+  return tier.billing_period === 'one_time' && tier.price > 0;
+}
+
+// An empty selection shows every tier; otherwise the section's selection order wins
+export function selectPricingTiers(tiers: PricingTier[], tierIds: string[] = []): PricingTier[] {
+  return applySectionSelection(tiers, tierIds);
+}
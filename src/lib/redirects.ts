@@ -0,0 +1,144 @@
+import type { Redirect } from '@/types/content';
+
+// Redirects (see the `redirects` migration) are resolved in the browser before a 404 is
+// shown. A wildcard source ends in '*' and matches any remainder of the path; a '*' in
+// the target is replaced by that remainder, e.g. /old-blog/* -> /blog/*.
+
+export type RedirectRule = Pick<Redirect, 'id' | 'source_path' | 'target_path' | 'status_code' | 'match_type'>;
+
+// Longer chains are treated like loops
+export const REDIRECT_MAX_HOPS = 10;
+
+export interface RedirectResolution {
+  // Final destination, or null when the chain loops
+  target: string | null;
+  // 301 only when every hop is permanent
+  statusCode: 301 | 302;
+  hops: RedirectRule[];
+  loop: boolean;
+}
+
+export function isExternalTarget(target: string): boolean {
+  return /^https?:\/\//.test(target);
+}
+
+export function getRedirectMatchType(sourcePath: string): Redirect['match_type'] {
+  return sourcePath.endsWith('*') ? 'wildcard' : 'exact';
+}
+
+// Paths are compared without a trailing slash, so /about/ and /about are the same
+export function normalizeRedirectPath(path: string): string {
+  const trimmed = path.trim().split(/[?#]/)[0];
+  if (!trimmed || trimmed === '/') return '/';
+  const withSlash = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return withSlash.endsWith('/') && !withSlash.endsWith('*') ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+function applyRule(rule: RedirectRule, path: string): string | null {
+  if (rule.match_type === 'exact') {
+    return normalizeRedirectPath(rule.source_path) === path ? normalizeRedirectTarget(rule.target_path) : null;
+  }
+
+  const prefix = rule.source_path.slice(0, -1);
+  let remainder: string;
+  if (path.startsWith(prefix)) {
+    remainder = path.slice(prefix.length);
+  } else if (prefix.endsWith('/') && path === prefix.slice(0, -1)) {
+    // /old/* also covers /old itself
+    remainder = '';
+  } else {
+    return null;
+  }
+
+  return normalizeRedirectTarget(rule.target_path.replace('*', remainder));
+}
+
+// Like normalizeRedirectPath, but a query string or hash on the target is kept
+function normalizeRedirectTarget(target: string): string {
+  if (isExternalTarget(target)) return target;
+  const suffixStart = target.search(/[?#]/);
+  return suffixStart === -1
+    ? normalizeRedirectPath(target)
+    : `${normalizeRedirectPath(target.slice(0, suffixStart))}${target.slice(suffixStart)}`;
+}
+
+/**
+ * The rule that applies to `path`: an exact match wins, otherwise the wildcard
+ * with the longest prefix.
+ */
+export function matchRedirect(rules: RedirectRule[], path: string): { rule: RedirectRule; target: string } | null {
+  const normalized = normalizeRedirectPath(path);
+  const candidates = [
+    ...rules.filter(rule => rule.match_type === 'exact'),
+    ...rules
+      .filter(rule => rule.match_type === 'wildcard')
+      .sort((a, b) => b.source_path.length - a.source_path.length),
+  ];
+
+  for (const rule of candidates) {
+    const target = applyRule(rule, normalized);
+    if (target !== null) return { rule, target };
+  }
+  return null;
+}
+
+/**
+ * Follow redirects from `path` to their final destination. Returns null when no rule
+ * applies. Chains that revisit a path or exceed REDIRECT_MAX_HOPS are reported as a loop.
+ */
+export function resolveRedirect(rules: RedirectRule[], path: string): RedirectResolution | null {
+  const hops: RedirectRule[] = [];
+  const visited = new Set([normalizeRedirectPath(path)]);
+  let current = normalizeRedirectPath(path);
+
+  while (!isExternalTarget(current)) {
+    const match = matchRedirect(rules, current);
+    if (!match) break;
+
+    hops.push(match.rule);
+    if (visited.has(match.target) || hops.length > REDIRECT_MAX_HOPS) {
+      return { target: null, statusCode: 302, hops, loop: true };
+    }
+    visited.add(match.target);
+    current = match.target;
+  }
+
+  if (hops.length === 0) return null;
+  return {
+    target: current,
+    statusCode: hops.every(hop => hop.status_code === 301) ? 301 : 302,
+    hops,
+    loop: false,
+  };
+}
+
+// First problem with a redirect before it is saved, if any
+export function getRedirectIssue(rule: Pick<Redirect, 'source_path' | 'target_path'>, otherRules: RedirectRule[] = []): string | null {
+  const source = rule.source_path.trim();
+  const target = rule.target_path.trim();
+
+  if (!source.startsWith('/')) return 'The source path must start with /';
+  if (source.slice(0, -1).includes('*')) return 'A wildcard (*) is only allowed at the end of the source path';
+  if (!target.startsWith('/') && !isExternalTarget(target)) return 'The target must be a path starting with / or a full URL';
+  if (target.includes('*') && !source.endsWith('*')) return 'A * in the target needs a wildcard source';
+  if (normalizeRedirectPath(source) === normalizeRedirectPath(target)) return 'The source and target are the same';
+
+  const normalizedSource = normalizeRedirectPath(source);
+  if (otherRules.some(other => normalizeRedirectPath(other.source_path) === normalizedSource)) {
+    return 'Another redirect already uses this source path';
+  }
+
+  // Try the rule together with the existing ones; wildcards are checked with a sample path
+  const candidate: RedirectRule = {
+    id: 'candidate',
+    source_path: normalizedSource,
+    target_path: target,
+    status_code: 301,
+    match_type: getRedirectMatchType(source),
+  };
+  const samplePath = normalizedSource.replace('*', 'example');
+  if (resolveRedirect([candidate, ...otherRules], samplePath)?.loop) {
+    return 'This redirect would create a redirect loop';
+  }
+  return null;
+}
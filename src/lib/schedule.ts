@@ -0,0 +1,62 @@
+// Scheduled publishing. Content with a future `publish_at` is scheduled; the
+// apply_content_schedules() job (see the scheduled publishing migration) publishes it,
+// and unpublishes live content once `unpublish_at` has passed.
+
+export interface Schedulable {
+  status?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+/**
+ * PostgREST `or` filter for rows that have not reached their unpublish time. The job runs
+ * every minute; this keeps expired content off the site in between.
+ */
+export function liveContentFilter(now: Date = new Date()): string {
+  return `unpublish_at.is.null,unpublish_at.gt.${now.toISOString()}`;
+}
+
+export function isScheduledToPublish(item: Schedulable, now: Date = new Date()): boolean {
+  return !!item.publish_at && new Date(item.publish_at).getTime() > now.getTime();
+}
+
+export function isScheduledToUnpublish(item: Schedulable, now: Date = new Date()): boolean {
+  return !!item.unpublish_at && new Date(item.unpublish_at).getTime() > now.getTime();
+}
+
+// Anything the job will still change, for the "Scheduled" filter in admin lists
+export function hasPendingSchedule(item: Schedulable, now: Date = new Date()): boolean {
+  return isScheduledToPublish(item, now) || isScheduledToUnpublish(item, now);
+}
+
+export function getScheduleIssue(publishAt?: string | null, unpublishAt?: string | null): string | null {
+  if (publishAt && unpublishAt && new Date(unpublishAt).getTime() <= new Date(publishAt).getTime()) {
+    return 'The unpublish time must be after the publish time';
+  }
+  return null;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toDateTimeLocalValue(value?: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function fromDateTimeLocalValue(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function formatScheduleDate(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,164 @@
+// Structural diff between two stored bodies (page sections or content blocks)
+
+export interface DiffItem {
+  id: string;
+  type: string;
+  data?: Record<string, unknown>;
+}
+
+export type DiffChangeKind = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DiffEntry {
+  id: string;
+  type: string;
+  title?: string;
+  kind: DiffChangeKind;
+  // True when the item kept its content but changed position relative to the others
+  moved: boolean;
+  fromIndex: number | null;
+  toIndex: number | null;
+  changedFields: string[];
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  moved: number;
+}
+
+// Stable stringify so key order does not produce false positives
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'undefined';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+}
+
+/**
+ * Normalize any stored body into a list of identifiable items:
+ * `{ sections }` page bodies, `{ blocks }` rich content, or a single opaque value.
+ */
+export function extractDiffItems(body: unknown): DiffItem[] {
+  if (body === null || body === undefined) return [];
+
+  const container = body as { sections?: unknown; blocks?: unknown };
+  const list = Array.isArray(container.sections) ? container.sections : container.blocks;
+  if (Array.isArray(list)) {
+    const prefix = list === container.sections ? 'section' : 'block';
+    return list.map((entry: Partial<DiffItem> | null, index: number) => ({
+      id: entry?.id ?? `${prefix}-${index}`,
+      type: entry?.type ?? 'unknown',
+      data: entry?.data ?? {},
+    }));
+  }
+
+  return [{ id: 'body', type: typeof body === 'string' ? 'text' : 'content', data: { value: body } }];
+}
+
+// Ids of the longest common subsequence, i.e. the items that kept their relative order
+function stableOrderIds(before: string[], after: string[]): Set<string> {
+  const table: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      table[i][j] = before[i] === after[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const result = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.add(before[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+export function diffItems(before: DiffItem[], after: DiffItem[]): DiffEntry[] {
+  const beforeById = new Map(before.map((item, index) => [item.id, { item, index }]));
+  const afterIds = new Set(after.map(item => item.id));
+
+  const commonBefore = before.filter(item => afterIds.has(item.id)).map(item => item.id);
+  const commonAfter = after.filter(item => beforeById.has(item.id)).map(item => item.id);
+  const inOrder = stableOrderIds(commonBefore, commonAfter);
+
+  const entries: DiffEntry[] = after.map((item, toIndex) => {
+    const previous = beforeById.get(item.id);
+
+    if (!previous) {
+      return {
+        id: item.id,
+        type: item.type,
+        title: item.data?.title as string | undefined,
+        kind: 'added',
+        moved: false,
+        fromIndex: null,
+        toIndex,
+        changedFields: [],
+      };
+    }
+
+    const beforeData = previous.item.data ?? {};
+    const afterData = item.data ?? {};
+    const fields = new Set([...Object.keys(beforeData), ...Object.keys(afterData)]);
+    const changedFields = [...fields].filter(field => stableStringify(beforeData[field]) !== stableStringify(afterData[field]));
+    if (previous.item.type !== item.type) changedFields.unshift('type');
+
+    return {
+      id: item.id,
+      type: item.type,
+      title: (afterData.title ?? beforeData.title) as string | undefined,
+      kind: changedFields.length > 0 ? 'modified' : 'unchanged',
+      moved: !inOrder.has(item.id),
+      fromIndex: previous.index,
+      toIndex,
+      changedFields,
+    };
+  });
+
+  // Removed items are listed at the position they used to occupy
+  before.forEach((item, fromIndex) => {
+    if (afterIds.has(item.id)) return;
+    const removed: DiffEntry = {
+      id: item.id,
+      type: item.type,
+      title: item.data?.title as string | undefined,
+      kind: 'removed',
+      moved: false,
+      fromIndex,
+      toIndex: null,
+      changedFields: [],
+    };
+    let insertAt = 0;
+    entries.forEach((entry, index) => {
+      if (entry.fromIndex !== null && entry.fromIndex < fromIndex) insertAt = index + 1;
+    });
+    entries.splice(insertAt, 0, removed);
+  });
+
+  return entries;
+}
+
+export function diffBodies(before: unknown, after: unknown): DiffEntry[] {
+  return diffItems(extractDiffItems(before), extractDiffItems(after));
+}
+
+export function summarizeDiff(entries: DiffEntry[]): DiffSummary {
+  return {
+    added: entries.filter(entry => entry.kind === 'added').length,
+    removed: entries.filter(entry => entry.kind === 'removed').length,
+    modified: entries.filter(entry => entry.kind === 'modified').length,
+    moved: entries.filter(entry => entry.moved).length,
+  };
+}
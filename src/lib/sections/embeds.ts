@@ -0,0 +1,83 @@
+// Allowlisted iframe embeds for the embed section.
+// Editors paste the normal share URL; only known providers resolve to an iframe source,
+// and privacy mode switches to each provider's no-tracking player where one exists.
+
+export type EmbedProvider = 'youtube' | 'vimeo' | 'loom' | 'googleMaps' | 'spotify';
+
+export interface ResolvedEmbed {
+  provider: EmbedProvider;
+  src: string;
+}
+
+export const EMBED_PROVIDERS: { value: EmbedProvider; label: string; privacyMode: boolean }[] = [
+  { value: 'youtube', label: 'YouTube', privacyMode: true },
+  { value: 'vimeo', label: 'Vimeo', privacyMode: true },
+  { value: 'loom', label: 'Loom', privacyMode: false },
+  { value: 'googleMaps', label: 'Google Maps', privacyMode: false },
+  { value: 'spotify', label: 'Spotify', privacyMode: false },
+];
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be', 'www.youtube-nocookie.com'];
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const SPOTIFY_TYPES = ['track', 'album', 'playlist', 'episode', 'show', 'artist'];
+
+function getYoutubeId(url: URL): string | null {
+  const segments = url.pathname.split('/').filter(Boolean);
+  const id = url.hostname === 'youtu.be'
+    ? segments[0]
+    : url.pathname === '/watch'
+      ? url.searchParams.get('v')
+      : ['embed', 'shorts', 'live'].includes(segments[0]) ? segments[1] : null;
+  return id && YOUTUBE_ID.test(id) ? id : null;
+}
+
+/** Resolves a share URL to an iframe source, or null when the provider is not allowlisted */
+export function resolveEmbed(rawUrl: string, privacyMode = true): ResolvedEmbed | null {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:') return null;
+
+  const host = url.hostname.toLowerCase();
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (YOUTUBE_HOSTS.includes(host)) {
+    const id = getYoutubeId(url);
+    if (!id) return null;
+    const start = parseInt(url.searchParams.get('start') || url.searchParams.get('t') || '', 10);
+    const domain = privacyMode ? 'www.youtube-nocookie.com' : 'www.youtube.com';
+    return { provider: 'youtube', src: `https://${domain}/embed/${id}${start > 0 ? `?start=${start}` : ''}` };
+  }
+
+  if (host === 'vimeo.com' || host === 'www.vimeo.com' || host === 'player.vimeo.com') {
+    const id = host === 'player.vimeo.com' && segments[0] === 'video' ? segments[1] : segments[0];
+    if (!id || !/^\d+$/.test(id)) return null;
+    return { provider: 'vimeo', src: `https://player.vimeo.com/video/${id}${privacyMode ? '?dnt=1' : ''}` };
+  }
+
+  if ((host === 'loom.com' || host === 'www.loom.com') && ['share', 'embed'].includes(segments[0])) {
+    const id = segments[1];
+    if (!id || !/^[a-f0-9]+$/i.test(id)) return null;
+    return { provider: 'loom', src: `https://www.loom.com/embed/${id}` };
+  }
+
+  // Google Maps only offers embeds through the URL generated by "Share > Embed a map"
+  if ((host === 'www.google.com' || host === 'maps.google.com') && url.pathname.startsWith('/maps/embed')) {
+    return { provider: 'googleMaps', src: url.toString() };
+  }
+
+  if (host === 'open.spotify.com') {
+    const [type, id] = segments[0] === 'embed' ? segments.slice(1) : segments;
+    if (!SPOTIFY_TYPES.includes(type) || !id || !/^\w+$/.test(id)) return null;
+    return { provider: 'spotify', src: `https://open.spotify.com/embed/${type}/${id}` };
+  }
+
+  return null;
+}
+
+export function getEmbedProviderLabel(provider: EmbedProvider): string {
+  return EMBED_PROVIDERS.find(option => option.value === provider)?.label ?? provider;
+}
@@ -0,0 +1,159 @@
+// Minimal markdown parser for rich text sections.
+// The output is a plain AST rendered as React elements, so raw HTML in the source is
+// never interpreted (it shows up as text) and only allowlisted link protocols survive.
+// Supported: headings, paragraphs, bold, italic, inline code, links, lists,
+// blockquotes, fenced code blocks and horizontal rules.
+
+export type MarkdownInline =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 2 | 3 | 4; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'blockquote'; children: MarkdownInline[] }
+  | { type: 'code'; value: string }
+  | { type: 'hr' };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+/** Returns the URL when it is a relative path, an anchor or uses a safe protocol */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('//')) return null;
+  if (trimmed.startsWith('/') || trimmed.startsWith('#')) return trimmed;
+
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(trimmed).protocol) ? trimmed : null;
+  } catch {
+    return null;
+  }
+}
+
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|_([^_\s][^_]*?)_|\[([^\]]+)\]\(([^)\s]+)\)|( {2,}|\\)\n/;
+
+export function parseInline(source: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = source;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else nodes.push({ type: 'text', value });
+  };
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      pushText(rest);
+      break;
+    }
+
+    pushText(rest.slice(0, match.index));
+    const [whole, code, strong, strongAlt, em, emAlt, linkText, linkHref] = match;
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', value: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkHref);
+      if (href) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+      else nodes.push(...parseInline(linkText));
+    } else {
+      nodes.push({ type: 'break' });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  // Soft line breaks inside a paragraph read as spaces
+  return nodes.map(node => (node.type === 'text' ? { ...node, value: node.value.replace(/\n/g, ' ') } : node));
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const HR = /^ {0,3}([-*_])( *\1){2,} *$/;
+const FENCE = /^ {0,3}(```|~~~)/;
+const BULLET = /^ {0,3}[-*+]\s+(.*)$/;
+const ORDERED = /^ {0,3}\d{1,9}[.)]\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trimStart().startsWith(fence[1])) code.push(lines[i]);
+      blocks.push({ type: 'code', value: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      // Section titles are h2, so markdown headings start one level lower
+      const level = Math.min(heading[1].length + 1, 4) as 2 | 3 | 4;
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (HR.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'hr' });
+      continue;
+    }
+
+    const listPattern = BULLET.test(line) ? BULLET : ORDERED.test(line) ? ORDERED : null;
+    if (listPattern) {
+      flushParagraph();
+      const items: MarkdownInline[][] = [];
+      for (; i < lines.length && listPattern.test(lines[i]); i++) {
+        items.push(parseInline(listPattern.exec(lines[i])[1]));
+      }
+      i--;
+      blocks.push({ type: 'list', ordered: listPattern === ORDERED, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const quote: string[] = [];
+      for (; i < lines.length && QUOTE.test(lines[i]); i++) quote.push(QUOTE.exec(lines[i])[1]);
+      i--;
+      blocks.push({ type: 'blockquote', children: parseInline(quote.join('\n')) });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  return blocks;
+}
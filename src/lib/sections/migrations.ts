@@ -0,0 +1,158 @@
+import { PageBodySchema, PageBody, Section } from './schema';
+
+// Versioned page body migrations.
+// Bodies without a `version` field predate versioning and are treated as version 1.
+// To change a section's stored shape, append a migration with the next version number
+// and a per-section-type function that upgrades the old data; never edit shipped entries.
+
+type SectionData = Record<string, unknown>;
+
+export type SectionDataMigration = (data: SectionData) => SectionData;
+
+export interface PageBodyMigration {
+  version: number;
+  description: string;
+  sections: Partial<Record<Section['type'], SectionDataMigration>>;
+}
+
+export interface PageBodyMigrationResult {
+  body: unknown;
+  fromVersion: number;
+  toVersion: number;
+  changed: boolean;
+}
+
+export interface PageBodyValidationResult extends PageBodyMigrationResult {
+  success: boolean;
+  data?: PageBody;
+  issues: string[];
+}
+
+// Optional URL fields cleared in the editor are stored as '' and then fail `z.string().url()`
+function dropEmptyFields(data: SectionData, fields: string[]): SectionData {
+  const result = { ...data };
+  fields.forEach(field => {
+    if (result[field] === '' || result[field] === null) delete result[field];
+  });
+  return result;
+}
+
+function coerceNumberFields(data: SectionData, fields: string[]): SectionData {
+  const result = { ...data };
+  fields.forEach(field => {
+    const value = result[field];
+    if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+      result[field] = Number(value);
+    }
+  });
+  return result;
+}
+
+const previewListMigration: SectionDataMigration = data =>
+  coerceNumberFields(dropEmptyFields(data, ['backgroundImage']), ['limit']);
+
+export const PAGE_BODY_MIGRATIONS: PageBodyMigration[] = [
+  {
+    version: 2,
+    description: 'Remove empty optional image URLs, coerce numeric fields stored as strings and drop the legacy About image once About3 images are set',
+    sections: {
+      hero: data => dropEmptyFields(data, ['backgroundImage']),
+      about: data => {
+        const result = dropEmptyFields(data, ['image']);
+        // The About3 layout never renders the legacy single image
+        if (result.mainImage) delete result.image;
+        return result;
+      },
+      servicesPreview: previewListMigration,
+      portfolioPreview: data => coerceNumberFields(data, ['limit']),
+      blogPreview: previewListMigration,
+      testimonials: data => ({
+        ...data,
+        testimonials: Array.isArray(data.testimonials)
+          ? data.testimonials.map((testimonial: SectionData) =>
+              coerceNumberFields(dropEmptyFields(testimonial, ['avatar']), ['rating'])
+            )
+          : data.testimonials,
+      }),
+      cta: data => dropEmptyFields(data, ['backgroundImage']),
+    },
+  },
+];
+
+export const CURRENT_PAGE_BODY_VERSION = PAGE_BODY_MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  1
+);
+
+function isSectionsBody(body: unknown): body is { version?: unknown; sections: unknown[] } {
+  return !!body && typeof body === 'object' && Array.isArray((body as { sections?: unknown }).sections);
+}
+
+export function getPageBodyVersion(body: unknown): number {
+  const version = isSectionsBody(body) ? body.version : undefined;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 ? version : 1;
+}
+
+// Upgrade a single stored section (e.g. a global section) written at `fromVersion`
+export function migrateSection(section: unknown, fromVersion = 1): unknown {
+  if (!section || typeof section !== 'object') return section;
+
+  const upgraded = PAGE_BODY_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current: { type?: string; data?: SectionData }, migration) => {
+      const migrate = migration.sections[current.type as Section['type']];
+      if (!migrate || !current.data || typeof current.data !== 'object') return current;
+      return { ...current, data: migrate(current.data) };
+    }, section as { type?: string; data?: SectionData });
+
+  // Sections inside a column container were written at the same version as the container
+  if (upgraded.type === 'columns' && Array.isArray(upgraded.data?.columns)) {
+    const columns = upgraded.data.columns.map((column: { sections?: unknown }) =>
+      Array.isArray(column?.sections)
+        ? { ...column, sections: column.sections.map(child => migrateSection(child, fromVersion)) }
+        : column
+    );
+    return { ...upgraded, data: { ...upgraded.data, columns } };
+  }
+
+  return upgraded;
+}
+
+/**
+ * Upgrade a stored sections body to the current schema version.
+ * Bodies without sections (raw `{ content }` pages) and bodies written by a newer
+ * schema version are returned untouched.
+ */
+export function migratePageBody(body: unknown): PageBodyMigrationResult {
+  const fromVersion = getPageBodyVersion(body);
+
+  if (!isSectionsBody(body) || fromVersion >= CURRENT_PAGE_BODY_VERSION) {
+    return { body, fromVersion, toVersion: fromVersion, changed: false };
+  }
+
+  const sections = body.sections.map(section => migrateSection(section, fromVersion));
+
+  return {
+    body: { ...body, version: CURRENT_PAGE_BODY_VERSION, sections },
+    fromVersion,
+    toVersion: CURRENT_PAGE_BODY_VERSION,
+    changed: true,
+  };
+}
+
+// Migrate, then validate against the current Zod schema
+export function migrateAndValidatePageBody(body: unknown): PageBodyValidationResult {
+  const migration = migratePageBody(body);
+  const parsed = PageBodySchema.safeParse(migration.body);
+
+  if (parsed.success) {
+    return { ...migration, success: true, data: parsed.data, issues: [] };
+  }
+
+  return {
+    ...migration,
+    success: false,
+    issues: parsed.error.issues.map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`),
+  };
+}
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { buildPagePath } from '@/lib/cms';
+import { CURRENT_PAGE_BODY_VERSION, migrateAndValidatePageBody } from './migrations';
+import type { PageBody } from './schema';
+import type { GlobalSection, Page } from '@/types/content';
+
+// Page bundles move pages between environments (e.g. staging to production).
+// A bundle carries each page's body and SEO fields, the media URLs the pages reference
+// and the names of referenced global sections, whose ids differ per environment.
+// Slugs are unique across all pages (see ensureUniqueSlug), so parents are matched by slug.
+
+export const PAGE_BUNDLE_FILE_FORMAT = 'devmart-page-bundle';
+
+export const MEDIA_STORAGE_PATH = '/storage/v1/object/public/media/';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MEDIA_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|avif|svg|mp4|webm|pdf)(\?|#|$)/i;
+
+const PAGE_SEO_FIELDS = ['seo_title', 'seo_description', 'seo_canonical_url', 'seo_og_image', 'seo_robots', 'seo_schema_type'] as const;
+
+type PageSeoField = typeof PAGE_SEO_FIELDS[number];
+
+const PageBundleEntrySchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  slug: z.string().regex(SLUG_PATTERN, 'Slug must contain lowercase letters, numbers and hyphens only'),
+  path: z.string(),
+  parent_slug: z.string().nullish(),
+  status: z.enum(['draft', 'published']).default('draft'),
+  body: z.unknown(),
+  seo_title: z.string().nullish(),
+  seo_description: z.string().nullish(),
+  seo_canonical_url: z.string().nullish(),
+  seo_og_image: z.string().nullish(),
+  seo_robots: z.string().nullish(),
+  seo_schema_type: z.string().nullish(),
+});
+
+const PageBundleFileSchema = z.object({
+  format: z.literal(PAGE_BUNDLE_FILE_FORMAT, { errorMap: () => ({ message: 'Not a page bundle file' }) }),
+  version: z.number().int().min(1),
+  exported_at: z.string().optional(),
+  pages: z.array(PageBundleEntrySchema).min(1, 'The bundle has no pages'),
+  media: z.array(z.string()).default([]),
+  global_sections: z.array(z.object({ id: z.string(), name: z.string() })).default([]),
+});
+
+export type PageBundleEntry = z.infer<typeof PageBundleEntrySchema>;
+export type PageBundle = z.infer<typeof PageBundleFileSchema>;
+
+export interface PageBundleParseResult {
+  bundle?: PageBundle;
+  errors: string[];
+}
+
+export type PageConflictResolution = 'skip' | 'overwrite' | 'rename';
+export type PageImportAction = 'create' | PageConflictResolution | 'invalid';
+
+export interface PageImportOptions {
+  // Applied to every page whose slug already exists, unless overridden per slug
+  conflictResolution: PageConflictResolution;
+  overrides?: Record<string, PageConflictResolution>;
+  // Source media URL to the URL it should have in this environment
+  mediaMap?: Record<string, string>;
+  importAsDraft?: boolean;
+  globalSections?: Pick<GlobalSection, 'id' | 'name'>[];
+}
+
+export type PageImportPayload = Omit<Page, 'id' | 'created_at' | 'updated_at' | 'parent_id'>;
+
+export interface PageImportPlanItem {
+  title: string;
+  sourceSlug: string;
+  sourcePath: string;
+  slug: string;
+  parentSlug: string | null;
+  action: PageImportAction;
+  conflict: boolean;
+  // Id of the page that will be overwritten
+  existingId?: string;
+  page?: PageImportPayload;
+  issues: string[];
+  warnings: string[];
+  remappedMedia: number;
+}
+
+type ExistingPage = Pick<Page, 'id' | 'slug' | 'parent_id' | 'published_at'>;
+
+function isMediaUrl(value: string): boolean {
+  return /^https?:\/\//.test(value) && (value.includes(MEDIA_STORAGE_PATH) || MEDIA_EXTENSION_PATTERN.test(value));
+}
+
+function visitStrings(value: unknown, visit: (text: string) => string): unknown {
+  if (typeof value === 'string') return visit(value);
+  if (Array.isArray(value)) return value.map(item => visitStrings(item, visit));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visitStrings(item, visit)]));
+  }
+  return value;
+}
+
+// Absolute media URLs in a page body or SEO field; relative /images paths ship with the app
+export function collectMediaUrls(value: unknown): string[] {
+  const urls = new Set<string>();
+  visitStrings(value, text => {
+    if (isMediaUrl(text)) urls.add(text);
+    return text;
+  });
+  return [...urls].sort();
+}
+
+// Point media on another project's storage at the same path in this project's `media` bucket
+export function suggestMediaUrl(url: string, mediaBaseUrl: string): string {
+  const index = url.indexOf(MEDIA_STORAGE_PATH);
+  if (index === -1) return url;
+  return `${mediaBaseUrl.replace(/\/$/, '')}/${url.slice(index + MEDIA_STORAGE_PATH.length)}`;
+}
+
+export function remapMediaUrls<T>(value: T, mediaMap: Record<string, string>): T {
+  return visitStrings(value, text => mediaMap[text] || text) as T;
+}
+
+export function exportPageBundle(
+  pages: Page[],
+  allPages: ExistingPage[],
+  globalSections: Pick<GlobalSection, 'id' | 'name'>[] = []
+): string {
+  const entries = pages.map(page => {
+    const parent = allPages.find(item => item.id === page.parent_id);
+    const entry: Record<string, unknown> = {
+      title: page.title,
+      slug: page.slug,
+      path: buildPagePath(page, allPages),
+      parent_slug: parent?.slug ?? null,
+      status: page.status,
+      body: page.body ?? null,
+    };
+    PAGE_SEO_FIELDS.forEach(field => {
+      entry[field] = page[field] || null;
+    });
+    return entry;
+  });
+
+  const sectionsJson = JSON.stringify(entries.map(entry => entry.body));
+  const referencedGlobalSections = globalSections
+    .filter(section => sectionsJson.includes(`"globalSectionId":"${section.id}"`))
+    .map(({ id, name }) => ({ id, name }));
+
+  return JSON.stringify({
+    format: PAGE_BUNDLE_FILE_FORMAT,
+    version: CURRENT_PAGE_BODY_VERSION,
+    exported_at: new Date().toISOString(),
+    pages: entries,
+    media: collectMediaUrls(entries.map(entry => [entry.body, entry.seo_og_image])),
+    global_sections: referencedGlobalSections,
+  }, null, 2);
+}
+
+export function parsePageBundle(json: string): PageBundleParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { errors: ['File is not valid JSON'] };
+  }
+
+  const file = PageBundleFileSchema.safeParse(raw);
+  if (!file.success) {
+    return { errors: file.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`) };
+  }
+
+  if (file.data.version > CURRENT_PAGE_BODY_VERSION) {
+    return { errors: [`File uses section schema version ${file.data.version}; this site supports up to ${CURRENT_PAGE_BODY_VERSION}`] };
+  }
+
+  const slugs = file.data.pages.map(page => page.slug);
+  const duplicates = [...new Set(slugs.filter((slug, index) => slugs.indexOf(slug) !== index))];
+  if (duplicates.length > 0) {
+    return { errors: duplicates.map(slug => `Slug "${slug}" appears more than once in the bundle`) };
+  }
+
+  return { bundle: file.data, errors: [] };
+}
+
+function remapGlobalSections(
+  body: PageBody,
+  bundle: PageBundle,
+  targets: Pick<GlobalSection, 'id' | 'name'>[],
+  warnings: string[]
+): PageBody {
+  const sections = body.sections.map(section => {
+    if (section.type !== 'globalSection') return section;
+    const source = bundle.global_sections.find(item => item.id === section.data.globalSectionId);
+    const name = source?.name ?? section.data.title;
+    const target = targets.find(item => item.name === name);
+    if (!target) {
+      warnings.push(`Global section "${name || section.data.globalSectionId}" does not exist here; it will not render until it is created`);
+      return section;
+    }
+    return { ...section, data: { ...section.data, globalSectionId: target.id } };
+  });
+  return { ...body, sections };
+}
+
+function nextFreeSlug(slug: string, taken: Set<string>): string {
+  let counter = 2;
+  while (taken.has(`${slug}-${counter}`)) counter++;
+  return `${slug}-${counter}`;
+}
+
+/**
+ * Build the dry-run report for a bundle. Nothing is written here: every page gets an
+ * action (create, overwrite, rename, skip or invalid), the payload that would be saved
+ * and the issues or warnings found. Parents are planned before their children.
+ */
+export function planPageImport(bundle: PageBundle, existingPages: ExistingPage[], options: PageImportOptions): PageImportPlanItem[] {
+  const mediaMap = options.mediaMap ?? {};
+  const existingBySlug = new Map(existingPages.map(page => [page.slug, page]));
+  const taken = new Set(existingPages.map(page => page.slug));
+  const finalSlugs = new Map<string, string>();
+  const depth = (entry: PageBundleEntry) => entry.path.split('/').length;
+
+  return [...bundle.pages].sort((a, b) => depth(a) - depth(b)).map(entry => {
+    const issues: string[] = [];
+    const warnings: string[] = [];
+    const existing = existingBySlug.get(entry.slug);
+    const item: PageImportPlanItem = {
+      title: entry.title,
+      sourceSlug: entry.slug,
+      sourcePath: entry.path,
+      slug: entry.slug,
+      parentSlug: null,
+      action: 'create',
+      conflict: !!existing,
+      issues,
+      warnings,
+      remappedMedia: 0,
+    };
+
+    const validation = migrateAndValidatePageBody(entry.body);
+    if (!validation.success || !validation.data) {
+      item.action = 'invalid';
+      issues.push(...(validation.issues.length ? validation.issues : ['body: Not a sections page body']));
+      return item;
+    }
+
+    if (existing) {
+      const resolution = options.overrides?.[entry.slug] ?? options.conflictResolution;
+      item.action = resolution;
+      if (resolution === 'skip') return item;
+      if (resolution === 'overwrite') {
+        item.existingId = existing.id;
+      } else {
+        item.slug = nextFreeSlug(entry.slug, taken);
+      }
+    }
+    taken.add(item.slug);
+    finalSlugs.set(entry.slug, item.slug);
+
+    // Overwritten pages stay under their current parent unless the bundle names one that resolves
+    const currentParentSlug = item.existingId ? existingPages.find(page => page.id === existing.parent_id)?.slug ?? null : null;
+    item.parentSlug = currentParentSlug;
+    if (entry.parent_slug) {
+      const parentSlug = finalSlugs.get(entry.parent_slug) ?? (existingBySlug.has(entry.parent_slug) ? entry.parent_slug : null);
+      if (parentSlug) {
+        item.parentSlug = parentSlug;
+      } else {
+        const placement = currentParentSlug
+          ? `the page stays under "${currentParentSlug}"`
+          : `the page ${item.existingId ? 'stays' : 'is imported'} at the top level`;
+        warnings.push(`Parent page "${entry.parent_slug}" is not in the bundle or on this site; ${placement}`);
+      }
+    }
+
+    const body = remapGlobalSections(validation.data, bundle, options.globalSections ?? [], warnings);
+    const sourceMedia = collectMediaUrls([body, entry.seo_og_image]);
+    item.remappedMedia = sourceMedia.filter(url => mediaMap[url] && mediaMap[url] !== url).length;
+
+    const status = options.importAsDraft ? 'draft' : entry.status;
+    const page: PageImportPayload = {
+      title: entry.title,
+      slug: item.slug,
+      status,
+      // Overwritten pages keep their original publish date
+      published_at: status === 'published' ? existing?.published_at || new Date().toISOString() : null,
+      body: remapMediaUrls(body, mediaMap),
+    };
+    PAGE_SEO_FIELDS.forEach((field: PageSeoField) => {
+      const value = entry[field] ? remapMediaUrls(entry[field], mediaMap) : undefined;
+      if (value) page[field] = value;
+    });
+    item.page = page;
+
+    return item;
+  });
+}
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { SectionSchema, ContentSection } from './schema';
+import { CURRENT_PAGE_BODY_VERSION, migrateSection } from './migrations';
+import type { SectionPreset } from '@/types/content';
+
+// Section presets are copied into page bodies; see the `section_presets` migration.
+// Export files carry the section schema version so older files are migrated on import.
+
+export const SECTION_PRESET_CATEGORIES = ['Hero', 'Call to Action', 'Content', 'Media', 'Pricing', 'Social Proof', 'General'];
+
+export const SECTION_PRESET_FILE_FORMAT = 'devmart-section-presets';
+
+const SectionPresetFileSchema = z.object({
+  format: z.literal(SECTION_PRESET_FILE_FORMAT, { errorMap: () => ({ message: 'Not a section presets file' }) }),
+  version: z.number().int().min(1),
+  presets: z.array(z.object({
+    name: z.string().min(1, 'Name is required'),
+    category: z.string().min(1).default('General'),
+    description: z.string().nullish(),
+    thumbnail_url: z.string().refine(
+      (val) => val.startsWith('/') || val.startsWith('http://') || val.startsWith('https://'),
+      { message: 'Thumbnail must be a relative path (starting with /) or a full URL' }
+    ).nullish(),
+    section: z.unknown(),
+  })),
+});
+
+export type SectionPresetInput = Pick<SectionPreset, 'name' | 'category' | 'description' | 'thumbnail_url'> & {
+  section: ContentSection;
+};
+
+export interface SectionPresetImportResult {
+  presets: SectionPresetInput[];
+  errors: string[];
+}
+
+export function exportSectionPresets(presets: Pick<SectionPreset, 'name' | 'category' | 'description' | 'thumbnail_url' | 'section'>[]): string {
+  return JSON.stringify({
+    format: SECTION_PRESET_FILE_FORMAT,
+    version: CURRENT_PAGE_BODY_VERSION,
+    exported_at: new Date().toISOString(),
+    presets: presets.map(({ name, category, description, thumbnail_url, section }) => ({
+      name,
+      category,
+      description: description || null,
+      thumbnail_url: thumbnail_url || null,
+      section,
+    })),
+  }, null, 2);
+}
+
+/**
+ * Parse an export file. Every preset section is migrated from the file's version and
+ * validated against SectionSchema; invalid presets are reported and skipped.
+ */
+export function parseSectionPresetImport(json: string): SectionPresetImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { presets: [], errors: ['File is not valid JSON'] };
+  }
+
+  const file = SectionPresetFileSchema.safeParse(raw);
+  if (!file.success) {
+    return {
+      presets: [],
+      errors: file.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`),
+    };
+  }
+
+  if (file.data.version > CURRENT_PAGE_BODY_VERSION) {
+    return { presets: [], errors: [`File uses section schema version ${file.data.version}; this site supports up to ${CURRENT_PAGE_BODY_VERSION}`] };
+  }
+
+  const presets: SectionPresetInput[] = [];
+  const errors: string[] = [];
+
+  file.data.presets.forEach(preset => {
+    const parsed = SectionSchema.safeParse(migrateSection(preset.section, file.data.version));
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      errors.push(`"${preset.name}": ${issue.path.join('.') || 'section'}: ${issue.message}`);
+    } else if (parsed.data.type === 'globalSection') {
+      errors.push(`"${preset.name}": global section references cannot be presets`);
+    } else {
+      presets.push({
+        name: preset.name,
+        category: preset.category,
+        description: preset.description ?? null,
+        thumbnail_url: preset.thumbnail_url ?? null,
+        section: parsed.data,
+      });
+    }
+  });
+
+  return { presets, errors };
+}
+
+// Copy a preset's section with fresh ids so the same preset can be inserted repeatedly
+export function instantiatePreset(section: ContentSection): ContentSection {
+  const copy = structuredClone(section);
+  copy.id = crypto.randomUUID();
+
+  if (copy.type === 'columns') {
+    copy.data.columns = copy.data.columns.map(column => ({
+      id: crypto.randomUUID(),
+      sections: column.sections.map(child => ({ ...child, id: crypto.randomUUID() })),
+    }));
+  }
+
+  return copy;
+}
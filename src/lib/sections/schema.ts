@@ -1,9 +1,29 @@
 import { z } from 'zod';
+import { resolveEmbed } from './embeds';
+
+// Visibility rules evaluated by SectionRenderer (see ./visibility). Every rule that is set
+// must match; a section without rules is always shown.
+export const SectionVisibilitySchema = z.object({
+  startAt: z.string().datetime().optional(),
+  endAt: z.string().datetime().optional(),
+  // Empty or missing shows the section on every device
+  devices: z.array(z.enum(['mobile', 'tablet', 'desktop'])).optional(),
+  audience: z.enum(['all', 'authenticated', 'anonymous']).default('all'),
+  // Query parameters such as utm_campaign; an empty value only requires the key
+  query: z.array(z.object({
+    key: z.string().min(1, 'Parameter name is required'),
+    value: z.string().optional(),
+  })).optional(),
+}).refine(
+  (rules) => !rules.startAt || !rules.endAt || new Date(rules.startAt).getTime() < new Date(rules.endAt).getTime(),
+  { message: 'End must be after start', path: ['endAt'] }
+);
 
 // Base section schema
 const BaseSectionSchema = z.object({
   id: z.string(),
   type: z.string(),
+  visibility: SectionVisibilitySchema.optional(),
 });
 
 // Hero section schema
@@ -234,6 +254,143 @@ export const CtaSectionSchema = BaseSectionSchema.extend({
   }),
 });
 
+// Pricing section schema - renders tiers from the `pricing_tiers` table
+export const PricingSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('pricing'),
+  data: z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    // Tier ids in display order; empty shows every published tier
+    tierIds: z.array(z.string().uuid()).default([]),
+    enableCheckout: z.boolean().default(true),
+  }),
+});
+
+// Live content list sections. `selectedIds` is a manual selection in display order;
+// when it is empty the section shows the newest items matching its filters.
+const SelectedIdsSchema = z.array(z.string().uuid()).default([]);
+
+// FAQ section schema
+export const FaqSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('faq'),
+  data: z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    limit: z.number().min(1).max(50).default(6),
+    selectedIds: SelectedIdsSchema,
+    showAll: z.boolean().default(true),
+  }),
+});
+
+// Case studies preview section schema
+export const CaseStudiesPreviewSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('caseStudiesPreview'),
+  data: z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    limit: z.number().min(1).max(12).default(4),
+    industry: z.string().optional(),
+    selectedIds: SelectedIdsSchema,
+    showAll: z.boolean().default(true),
+  }),
+});
+
+// Innovation lab projects preview section schema
+export const LabProjectsPreviewSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('labProjectsPreview'),
+  data: z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    limit: z.number().min(1).max(12).default(3),
+    tag: z.string().optional(),
+    selectedIds: SelectedIdsSchema,
+    showAll: z.boolean().default(true),
+  }),
+});
+
+// Open positions section schema
+export const JobsPreviewSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('jobsPreview'),
+  data: z.object({
+    title: z.string().min(1, 'Title is required'),
+    description: z.string().optional(),
+    limit: z.number().min(1).max(20).default(5),
+    team: z.string().optional(),
+    selectedIds: SelectedIdsSchema,
+    showAll: z.boolean().default(true),
+  }),
+});
+
+// Rich text section schema - markdown rendered without raw HTML (see ./markdown)
+export const RichTextSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('richText'),
+  data: z.object({
+    title: z.string().optional(),
+    content: z.string().max(20000, 'Content is too long'),
+    align: z.enum(['left', 'center']).default('left'),
+    width: z.enum(['narrow', 'wide']).default('narrow'),
+  }),
+});
+
+// Embed section schema - iframes from allowlisted providers only (see ./embeds)
+export const EmbedSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('embed'),
+  data: z.object({
+    title: z.string().optional(),
+    // Empty until the editor pastes a URL; an empty embed renders nothing
+    url: z.string().refine(
+      (val) => val === '' || resolveEmbed(val) !== null,
+      { message: 'Use a YouTube, Vimeo, Loom, Google Maps or Spotify URL' }
+    ),
+    caption: z.string().optional(),
+    aspectRatio: z.enum(['16:9', '4:3', '1:1', '9:16']).default('16:9'),
+    // Use the provider's no-tracking player where one exists
+    privacyMode: z.boolean().default(true),
+  }),
+});
+
+// Global section reference - renders a section stored once in `global_sections`
+export const GlobalSectionRefSchema = BaseSectionSchema.extend({
+  type: z.literal('globalSection'),
+  data: z.object({
+    // Cached name of the referenced global section, shown in the editor
+    title: z.string().optional(),
+    globalSectionId: z.string().uuid('Select a global section'),
+  }),
+});
+
+// Sections that can sit inside a column. Columns and global references cannot nest.
+export const ColumnChildSectionSchema = z.discriminatedUnion('type', [
+  HeroSectionSchema,
+  AboutSectionSchema,
+  ServicesPreviewSectionSchema,
+  PortfolioPreviewSectionSchema,
+  TestimonialsSectionSchema,
+  BlogPreviewSectionSchema,
+  CtaSectionSchema,
+  PricingSectionSchema,
+  FaqSectionSchema,
+  CaseStudiesPreviewSectionSchema,
+  LabProjectsPreviewSectionSchema,
+  JobsPreviewSectionSchema,
+  RichTextSectionSchema,
+  EmbedSectionSchema,
+]);
+
+// Column container section schema - 2 to 4 columns that stack on small screens
+export const ColumnsSectionSchema = BaseSectionSchema.extend({
+  type: z.literal('columns'),
+  data: z.object({
+    title: z.string().optional(),
+    columns: z.array(z.object({
+      id: z.string(),
+      sections: z.array(ColumnChildSectionSchema),
+    })).min(2, 'Use at least 2 columns').max(4, 'Use at most 4 columns'),
+    gap: z.enum(['sm', 'md', 'lg']).default('md'),
+    verticalAlign: z.enum(['start', 'center']).default('start'),
+  }),
+});
+
 // Union type for all sections
 export const SectionSchema = z.discriminatedUnion('type', [
   HeroSectionSchema,
@@ -243,10 +400,21 @@ export const SectionSchema = z.discriminatedUnion('type', [
   TestimonialsSectionSchema,
   BlogPreviewSectionSchema,
   CtaSectionSchema,
+  PricingSectionSchema,
+  FaqSectionSchema,
+  CaseStudiesPreviewSectionSchema,
+  LabProjectsPreviewSectionSchema,
+  JobsPreviewSectionSchema,
+  RichTextSectionSchema,
+  EmbedSectionSchema,
+  ColumnsSectionSchema,
+  GlobalSectionRefSchema,
 ]);
 
 // TypeScript types
 export type Section = z.infer<typeof SectionSchema>;
+export type SectionVisibility = z.infer<typeof SectionVisibilitySchema>;
+export type SectionDevice = NonNullable<SectionVisibility['devices']>[number];
 export type HeroSection = z.infer<typeof HeroSectionSchema>;
 export type AboutSection = z.infer<typeof AboutSectionSchema>;
 export type ServicesPreviewSection = z.infer<typeof ServicesPreviewSectionSchema>;
@@ -254,9 +422,23 @@ export type PortfolioPreviewSection = z.infer<typeof PortfolioPreviewSectionSche
 export type TestimonialsSection = z.infer<typeof TestimonialsSectionSchema>;
 export type BlogPreviewSection = z.infer<typeof BlogPreviewSectionSchema>;
 export type CtaSection = z.infer<typeof CtaSectionSchema>;
+export type PricingSection = z.infer<typeof PricingSectionSchema>;
+export type FaqSection = z.infer<typeof FaqSectionSchema>;
+export type CaseStudiesPreviewSection = z.infer<typeof CaseStudiesPreviewSectionSchema>;
+export type LabProjectsPreviewSection = z.infer<typeof LabProjectsPreviewSectionSchema>;
+export type JobsPreviewSection = z.infer<typeof JobsPreviewSectionSchema>;
+export type RichTextSection = z.infer<typeof RichTextSectionSchema>;
+export type EmbedSection = z.infer<typeof EmbedSectionSchema>;
+export type ColumnsSection = z.infer<typeof ColumnsSectionSchema>;
+export type ColumnChildSection = z.infer<typeof ColumnChildSectionSchema>;
+export type GlobalSectionRef = z.infer<typeof GlobalSectionRefSchema>;
+// Sections that can be stored as global sections (references cannot nest)
+export type ContentSection = Exclude<Section, GlobalSectionRef>;
 
 // Page body schema
+// `version` tracks the section data shape; see ./migrations for the upgrade path
 export const PageBodySchema = z.object({
+  version: z.number().int().min(1).optional(),
   sections: z.array(SectionSchema),
 });
 
@@ -375,6 +557,118 @@ export function createDefaultSection(type: Section['type']): Section {
           },
         },
       } as CtaSection;
+
+    case 'pricing':
+      return {
+        id,
+        type: 'pricing',
+        data: {
+          title: 'Pricing Plans',
+          description: 'Transparent pricing for businesses of every size.',
+          tierIds: [],
+          enableCheckout: true,
+        },
+      } as PricingSection;
+
+    case 'faq':
+      return {
+        id,
+        type: 'faq',
+        data: {
+          title: 'Frequently Asked Questions',
+          description: 'Answers to the questions we hear most often.',
+          limit: 6,
+          selectedIds: [],
+          showAll: true,
+        },
+      } as FaqSection;
+
+    case 'caseStudiesPreview':
+      return {
+        id,
+        type: 'caseStudiesPreview',
+        data: {
+          title: 'Case Studies',
+          description: 'Real results for real businesses.',
+          limit: 4,
+          selectedIds: [],
+          showAll: true,
+        },
+      } as CaseStudiesPreviewSection;
+
+    case 'labProjectsPreview':
+      return {
+        id,
+        type: 'labProjectsPreview',
+        data: {
+          title: 'From the Innovation Lab',
+          description: 'Experiments, demos and tools we are building.',
+          limit: 3,
+          selectedIds: [],
+          showAll: true,
+        },
+      } as LabProjectsPreviewSection;
+
+    case 'jobsPreview':
+      return {
+        id,
+        type: 'jobsPreview',
+        data: {
+          title: 'Open Positions',
+          description: 'Join our team and build what comes next.',
+          limit: 5,
+          selectedIds: [],
+          showAll: true,
+        },
+      } as JobsPreviewSection;
+
+    case 'richText':
+      return {
+        id,
+        type: 'richText',
+        data: {
+          content: '## Heading\n\nWrite **formatted** text with [links](/contact), lists and quotes.',
+          align: 'left',
+          width: 'narrow',
+        },
+      } as RichTextSection;
+
+    case 'embed':
+      // The editor pastes the provider URL after insertion
+      return {
+        id,
+        type: 'embed',
+        data: {
+          url: '',
+          aspectRatio: '16:9',
+          privacyMode: true,
+        },
+      } as EmbedSection;
+
+    case 'columns':
+      return {
+        id,
+        type: 'columns',
+        data: {
+          columns: [0, 1].map(() => ({
+            id: crypto.randomUUID(),
+            sections: [createDefaultSection('richText') as RichTextSection],
+          })),
+          gap: 'md',
+          verticalAlign: 'start',
+        },
+      } as ColumnsSection;
+
+    case 'globalSection':
+      // The editor picks the referenced global section after insertion
+      return {
+        id,
+        type: 'globalSection',
+        data: {
+          title: 'Global Section',
+          globalSectionId: '',
+        },
+      } as GlobalSectionRef;
       
     default:
       throw new Error(`Unknown section type: ${type}`);
@@ -390,4 +684,18 @@ export const SECTION_TYPES = [
   { type: 'testimonials', label: 'Testimonials', description: 'Client reviews and feedback' },
   { type: 'blogPreview', label: 'Blog Preview', description: 'Latest blog posts' },
   { type: 'cta', label: 'Call to Action', description: 'Conversion-focused section' },
-] as const;
\ No newline at end of file
+  { type: 'pricing', label: 'Pricing', description: 'Pricing tiers with checkout' },
+  { type: 'faq', label: 'FAQ', description: 'Frequently asked questions' },
+  { type: 'caseStudiesPreview', label: 'Case Studies', description: 'Featured case studies' },
+  { type: 'labProjectsPreview', label: 'Innovation Lab', description: 'Innovation lab projects' },
+  { type: 'jobsPreview', label: 'Open Positions', description: 'Open jobs from Careers' },
+  { type: 'richText', label: 'Rich Text', description: 'Formatted text written in markdown' },
+  { type: 'embed', label: 'Video / Embed', description: 'YouTube, Vimeo, Loom, Maps or Spotify embed' },
+  { type: 'columns', label: 'Columns', description: '2 to 4 columns of other sections' },
+  { type: 'globalSection', label: 'Global Section', description: 'Shared section reused across pages' },
+] as const;
+
+// Section types that can be added inside a column
+export const COLUMN_CHILD_SECTION_TYPES = SECTION_TYPES.filter(
+  (sectionType) => sectionType.type !== 'columns' && sectionType.type !== 'globalSection'
+);
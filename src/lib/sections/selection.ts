@@ -0,0 +1,50 @@
+// Shared rules for sections that list live content (pricing tiers, FAQs, case studies, ...)
+
+import type {
+  Section,
+  FaqSection,
+  CaseStudiesPreviewSection,
+  LabProjectsPreviewSection,
+  JobsPreviewSection,
+} from '@/lib/sections/schema';
+import type { ContentListSource } from '@/types/content';
+
+/**
+ * Apply a section's manual selection to fetched items.
+ * An empty selection keeps the fetched order; otherwise the selection order wins
+ * and ids of deleted or unpublished items are dropped. `limit` applies last.
+ */
+export function applySectionSelection<T extends { id: string }>(
+  items: T[],
+  selectedIds: string[] = [],
+  limit?: number
+): T[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+  const selected = selectedIds.length === 0 ? items : selectedIds.flatMap(id => byId.get(id) ?? []);
+  return limit === undefined ? selected : selected.slice(0, limit);
+}
+
+export type ContentListSection =
+  | FaqSection
+  | CaseStudiesPreviewSection
+  | LabProjectsPreviewSection
+  | JobsPreviewSection;
+
+interface ContentListConfig {
+  source: ContentListSource;
+  itemLabel: string;
+  maxLimit: number;
+  // Data field holding the optional filter, matched against the option facets
+  filter?: { field: 'industry' | 'tag' | 'team'; label: string };
+}
+
+export const CONTENT_LIST_CONFIG: Record<ContentListSection['type'], ContentListConfig> = {
+  faq: { source: 'faqs', itemLabel: 'FAQs', maxLimit: 50 },
+  caseStudiesPreview: { source: 'case_studies', itemLabel: 'case studies', maxLimit: 12, filter: { field: 'industry', label: 'Industry' } },
+  labProjectsPreview: { source: 'lab_projects', itemLabel: 'projects', maxLimit: 12, filter: { field: 'tag', label: 'Tag' } },
+  jobsPreview: { source: 'jobs', itemLabel: 'positions', maxLimit: 20, filter: { field: 'team', label: 'Team' } },
+};
+
+export function isContentListSection(section: Section): section is ContentListSection {
+  return section.type in CONTENT_LIST_CONFIG;
+}
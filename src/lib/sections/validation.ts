@@ -0,0 +1,23 @@
+import { SectionSchema } from './schema';
+
+// Human-readable SectionSchema issues for one stored section; empty when it is valid
+export function getSectionIssues(section: unknown): string[] {
+  const result = SectionSchema.safeParse(section);
+  if (result.success) return [];
+
+  return result.error.issues.map(issue => {
+    // Drop the leading `data` segment, editors think in field names
+    const path = issue.path[0] === 'data' ? issue.path.slice(1) : issue.path;
+    return path.length > 0 ? `${path.join('.')}: ${issue.message}` : issue.message;
+  });
+}
+
+export function getSectionIssuesById(sections: unknown[]): Record<string, string[]> {
+  return Object.fromEntries(
+    sections.flatMap((section, index) => {
+      const issues = getSectionIssues(section);
+      const id = (section as { id?: unknown })?.id;
+      return issues.length > 0 ? [[typeof id === 'string' ? id : `index-${index}`, issues]] : [];
+    })
+  );
+}
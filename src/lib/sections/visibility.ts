@@ -0,0 +1,88 @@
+import type { SectionDevice, SectionVisibility } from './schema';
+
+// Breakpoints match Tailwind's `md` and `lg`
+export const DEVICE_BREAKPOINTS = { tablet: 768, desktop: 1024 };
+
+export const DEVICE_OPTIONS: { value: SectionDevice; label: string }[] = [
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'tablet', label: 'Tablet' },
+  { value: 'desktop', label: 'Desktop' },
+];
+
+export const AUDIENCE_OPTIONS: { value: SectionVisibility['audience']; label: string }[] = [
+  { value: 'all', label: 'Everyone' },
+  { value: 'anonymous', label: 'Anonymous visitors' },
+  { value: 'authenticated', label: 'Logged-in users' },
+];
+
+export interface VisibilityContext {
+  now: Date;
+  device: SectionDevice;
+  isAuthenticated: boolean;
+  searchParams: URLSearchParams;
+}
+
+/** Admin preview overrides; unset fields fall back to the live visitor context */
+export interface VisibilitySimulation extends Partial<VisibilityContext> {
+  // Show every section regardless of its rules
+  ignoreRules?: boolean;
+}
+
+export function getDeviceForWidth(width: number): SectionDevice {
+  if (width >= DEVICE_BREAKPOINTS.desktop) return 'desktop';
+  return width >= DEVICE_BREAKPOINTS.tablet ? 'tablet' : 'mobile';
+}
+
+export function hasVisibilityRules(visibility?: SectionVisibility): boolean {
+  return !!visibility && (
+    !!visibility.startAt ||
+    !!visibility.endAt ||
+    (visibility.devices?.length ?? 0) > 0 ||
+    (visibility.audience ?? 'all') !== 'all' ||
+    (visibility.query?.length ?? 0) > 0
+  );
+}
+
+export function isSectionVisible(section: { visibility?: SectionVisibility }, context: VisibilityContext): boolean {
+  const rules = section.visibility;
+  if (!rules) return true;
+
+  const now = context.now.getTime();
+  if (rules.startAt && now < new Date(rules.startAt).getTime()) return false;
+  if (rules.endAt && now >= new Date(rules.endAt).getTime()) return false;
+
+  if (rules.devices?.length && !rules.devices.includes(context.device)) return false;
+
+  if (rules.audience === 'authenticated' && !context.isAuthenticated) return false;
+  if (rules.audience === 'anonymous' && context.isAuthenticated) return false;
+
+  return (rules.query || []).every(({ key, value }) => {
+    const actual = context.searchParams.get(key);
+    if (actual === null) return false;
+    return !value || actual.toLowerCase() === value.toLowerCase();
+  });
+}
+
+// Short human-readable summary for the section list, e.g. ["Mobile only", "Until 1 Oct 2025"]
+export function describeVisibility(visibility?: SectionVisibility): string[] {
+  if (!hasVisibilityRules(visibility)) return [];
+
+  const formatDate = (value: string) => new Date(value).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  const summary: string[] = [];
+
+  if (visibility.startAt && visibility.endAt) summary.push(`${formatDate(visibility.startAt)} – ${formatDate(visibility.endAt)}`);
+  else if (visibility.startAt) summary.push(`From ${formatDate(visibility.startAt)}`);
+  else if (visibility.endAt) summary.push(`Until ${formatDate(visibility.endAt)}`);
+
+  if (visibility.devices?.length) {
+    summary.push(`${DEVICE_OPTIONS.filter(option => visibility.devices.includes(option.value)).map(option => option.label).join(' & ')} only`);
+  }
+
+  if (visibility.audience && visibility.audience !== 'all') {
+    summary.push(AUDIENCE_OPTIONS.find(option => option.value === visibility.audience)?.label ?? visibility.audience);
+  }
+
+  visibility.query?.forEach(({ key, value }) => summary.push(value ? `?${key}=${value}` : `?${key}`));
+
+  return summary;
+}
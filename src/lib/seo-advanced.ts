@@ -288,4 +288,27 @@ export const generateSocialMetaTags = (data: {
     // LinkedIn
     'linkedin:owner-id': 'devmart-company',
   };
-};
\ No newline at end of file
+};
+
+// Generate Person structured data for blog authors
+export const generatePersonStructuredData = (author: {
+  name: string;
+  url: string;
+  jobTitle?: string | null;
+  description?: string | null;
+  image?: string | null;
+  sameAs?: string[];
+}) => {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Person',
+    name: author.name,
+    url: author.url,
+    ...(author.jobTitle && { jobTitle: author.jobTitle }),
+    ...(author.description && { description: author.description }),
+    ...(author.image && { image: author.image }),
+    ...(author.sameAs?.length && { sameAs: author.sameAs }),
+  };
+};
+
+export type PersonStructuredData = ReturnType<typeof generatePersonStructuredData>;
@@ -1,5 +1,8 @@
 import { Helmet } from 'react-helmet-async';
-import { generateBreadcrumbStructuredData, generateWebsiteStructuredData } from './seo-advanced';
+import { generateBreadcrumbStructuredData, generateWebsiteStructuredData, type PersonStructuredData } from './seo-advanced';
+import { DEFAULT_LOCALE, getLocaleFromPath, LOCALES, localizePath, type Locale } from './i18n';
+import { toPlainText } from '@/lib/blocks/content';
+import { getFeedLinks, type FeedLink } from './feeds';
 
 interface SEOProps {
   title?: string;
@@ -11,6 +14,8 @@ interface SEOProps {
   publishedAt?: string;
   modifiedAt?: string;
   author?: string;
+  // Article authors as Person data; the article is credited to the organization without them
+  authors?: PersonStructuredData[];
   tags?: string[];
   gscVerificationCode?: string;
   structuredData?: any;
@@ -18,6 +23,10 @@ interface SEOProps {
   canonical?: string;
   noindex?: boolean;
   nofollow?: boolean;
+  // Locales this content is available in (defaults to all); drives the hreflang links
+  locales?: Locale[];
+  // Feeds for this listing (e.g. a category's); the site-wide blog feeds are always linked
+  feeds?: FeedLink[];
 }
 
 export function SEOHead({
@@ -30,6 +39,7 @@ export function SEOHead({
   publishedAt,
   modifiedAt,
   author,
+  authors = [],
   tags = [],
   gscVerificationCode,
   structuredData,
@@ -37,6 +47,8 @@ export function SEOHead({
   canonical,
   noindex = false,
   nofollow = false,
+  locales,
+  feeds = [],
 }: SEOProps) {
   const siteName = 'Devmart';
   const defaultDescription = 'Innovative technology solutions for Caribbean and global markets. A leading tech company specializing in cutting-edge digital solutions, AI innovation, and reliable technology services.';
@@ -49,6 +61,17 @@ export function SEOHead({
   const seoImage = image || '/og-image.jpg';
   const storageOrigin = 'https://dvgubqqjvmsepkilnkak.supabase.co';
 
+  // Locale alternates. A page shown in a locale it has no translation for falls back to
+  // the default-locale content, so its canonical URL is the default-locale one.
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const { locale, path: localePath } = getLocaleFromPath(typeof window !== 'undefined' ? window.location.pathname : '/');
+  const availableLocales = LOCALES.filter(option => !locales || locales.includes(option.code));
+  const isLocaleFallback = !availableLocales.some(option => option.code === locale);
+  const canonicalUrl = canonical || (isLocaleFallback ? `${origin}${localizePath(localePath, DEFAULT_LOCALE)}` : currentUrl);
+  const ogLocale = LOCALES.find(option => option.code === locale)?.ogLocale || 'en_US';
+  const feedLinks = [...feeds, ...getFeedLinks({ type: 'site' })]
+    .filter((feed, index, all) => all.findIndex(other => other.href === feed.href) === index);
+
   // Robots meta tag
   const robotsContent = `${noindex ? 'noindex' : 'index'}, ${nofollow ? 'nofollow' : 'follow'}`;
 
@@ -101,7 +124,7 @@ export function SEOHead({
       headline: title,
       description: seoDescription,
       image: seoImage,
-      author: {
+      author: authors.length ? authors : {
         '@type': 'Organization',
         name: siteName,
       },
@@ -140,6 +163,8 @@ export function SEOHead({
 
   return (
     <Helmet>
+      <html lang={locale} />
+
       {/* Basic Meta Tags */}
       <title>{fullTitle}</title>
       <meta name="description" content={seoDescription} />
@@ -169,7 +194,10 @@ export function SEOHead({
       <meta property="og:image" content={seoImage} />
       <meta property="og:image:alt" content={title || siteName} />
       <meta property="og:site_name" content={siteName} />
-      <meta property="og:locale" content="en_US" />
+      <meta property="og:locale" content={ogLocale} />
+      {availableLocales.filter(option => option.code !== locale).map(option => (
+        <meta key={option.code} property="og:locale:alternate" content={option.ogLocale} />
+      ))}
       
       {/* Twitter Card */}
       <meta name="twitter:card" content="summary_large_image" />
@@ -191,7 +219,20 @@ export function SEOHead({
       )}
       
       {/* Canonical URL */}
-      <link rel="canonical" href={canonical || currentUrl} />
+      <link rel="canonical" href={canonicalUrl} />
+
+      {/* Language alternates */}
+      {availableLocales.length > 1 && availableLocales.map(option => (
+        <link key={option.code} rel="alternate" hrefLang={option.code} href={`${origin}${localizePath(localePath, option.code)}`} />
+      ))}
+      {availableLocales.length > 1 && (
+        <link rel="alternate" hrefLang="x-default" href={`${origin}${localizePath(localePath, DEFAULT_LOCALE)}`} />
+      )}
+
+      {/* Feed discovery */}
+      {feedLinks.map(feed => (
+        <link key={feed.href} rel="alternate" type={feed.type} title={feed.title} href={feed.href} />
+      ))}
       
       {/* Preconnect to external domains for better performance */}
       <link rel="preconnect" href={storageOrigin} crossOrigin="anonymous" />
@@ -225,7 +266,7 @@ export function extractTextFromContent(content: any): string {
   
   return content.blocks
     .filter((block: any) => block.type === 'paragraph')
-    .map((block: any) => block.data?.text || '')
+    .map((block: any) => toPlainText(block.data?.text || ''))
     .join(' ')
     .substring(0, 160);
 }
@@ -0,0 +1,77 @@
+// Blog post tags are stored as a text array in one canonical form (lowercase, words joined
+// by dashes) so "React" and "react" are the same tag. The database applies the same rules
+// in normalize_blog_tag(); keep the two in step.
+
+export const MAX_TAG_LENGTH = 30;
+
+export interface BlogTagUsage {
+  tag: string;
+  postCount: number;
+  publishedCount: number;
+}
+
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    // Keeps names such as c++, c# and .net intact
+    .replace(/[^\p{L}\p{N}+#.-]/gu, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/** Normalized, without empties or duplicates, in their original order */
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+  return [...new Set((tags ?? []).map(normalizeTag).filter(Boolean))];
+}
+
+export function getTagPath(tag: string): string {
+  return `/blog/tag/${encodeURIComponent(tag)}`;
+}
+
+export function countBlogTags(posts: { tags?: string[] | null; status: string }[]): BlogTagUsage[] {
+  const usage = new Map<string, BlogTagUsage>();
+  for (const post of posts) {
+    for (const tag of new Set(post.tags ?? [])) {
+      const entry = usage.get(tag) ?? { tag, postCount: 0, publishedCount: 0 };
+      entry.postCount += 1;
+      if (post.status === 'published') entry.publishedCount += 1;
+      usage.set(tag, entry);
+    }
+  }
+  return [...usage.values()].sort((a, b) => b.postCount - a.postCount || a.tag.localeCompare(b.tag));
+}
+
+// Ignores separators and the usual suffixes, so "reactjs" and "react" or "next.js" and
+// "next" compare equal; only used to suggest merges, never to merge on its own
+function getSimilarityKey(tag: string): string {
+  return tag
+    .replace(/[-.\s]/g, '')
+    .replace(/(?<=.{3})js$/, '')
+    .replace(/(?<=.{3})s$/, '');
+}
+
+/** Groups of two or more tags that look like the same thing, most used first */
+export function findSimilarTags(usage: BlogTagUsage[]): BlogTagUsage[][] {
+  const groups = new Map<string, BlogTagUsage[]>();
+  for (const entry of usage) {
+    const key = getSimilarityKey(entry.tag);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => b.postCount - a.postCount || a.tag.localeCompare(b.tag)));
+}
+
+/** Existing tags for autocomplete: prefix matches first, then other matches */
+export function getTagSuggestions(query: string, tags: string[], exclude: string[] = [], limit = 8): string[] {
+  const needle = normalizeTag(query);
+  if (!needle) return [];
+  const candidates = tags.filter(tag => !exclude.includes(tag) && tag.includes(needle));
+  return [
+    ...candidates.filter(tag => tag.startsWith(needle)),
+    ...candidates.filter(tag => !tag.startsWith(needle)),
+  ].slice(0, limit);
+}
@@ -0,0 +1,110 @@
+import type { WorkflowAction, WorkflowEntityType, WorkflowState } from '@/types/content';
+
+// Editorial workflow: draft -> in review -> approved -> published. The rules here decide
+// which buttons the editors show; transition_content_workflow() enforces the same rules
+// in the database (see the editorial workflow migration).
+
+export const WORKFLOW_SETTING_KEY = 'editorial_workflow';
+
+export const WORKFLOW_STATE_LABELS: Record<WorkflowState, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  published: 'Published',
+};
+
+export const WORKFLOW_ENTITY_LABELS: Record<WorkflowEntityType, string> = {
+  page: 'Page',
+  service: 'Service',
+  blog_post: 'Blog post',
+  case_study: 'Case study',
+};
+
+export function getWorkflowEditorPath(entityType: WorkflowEntityType, id: string): string {
+  switch (entityType) {
+    case 'page': return `/admin/pages/${id}/edit`;
+    case 'service': return `/admin/services/${id}/edit`;
+    case 'blog_post': return `/admin/blog/edit/${id}`;
+    case 'case_study': return `/admin/case-studies/${id}/edit`;
+  }
+}
+
+export type WorkflowRole = 'editor' | 'admin';
+
+export interface WorkflowActionConfig {
+  label: string;
+  from: WorkflowState[];
+  to: WorkflowState;
+  // Least role that may perform the action
+  role: WorkflowRole;
+  requiresComment?: boolean;
+}
+
+export const WORKFLOW_ACTIONS: Record<Exclude<WorkflowAction, 'comment'>, WorkflowActionConfig> = {
+  submit: { label: 'Submit for review', from: ['draft'], to: 'in_review', role: 'editor' },
+  withdraw: { label: 'Withdraw from review', from: ['in_review'], to: 'draft', role: 'editor' },
+  approve: { label: 'Approve', from: ['in_review'], to: 'approved', role: 'admin' },
+  request_changes: { label: 'Request changes', from: ['in_review', 'approved'], to: 'draft', role: 'admin', requiresComment: true },
+  publish: { label: 'Publish', from: ['approved'], to: 'published', role: 'editor' },
+  unpublish: { label: 'Unpublish', from: ['published'], to: 'draft', role: 'editor' },
+};
+
+export interface WorkflowPermissions {
+  isAdmin: boolean;
+  isEditor: boolean;
+}
+
+// Rows saved before the workflow existed only have a status
+export function getWorkflowState(item: { status?: string; workflow_state?: string | null }): WorkflowState {
+  if (item.workflow_state && item.workflow_state in WORKFLOW_STATE_LABELS) return item.workflow_state as WorkflowState;
+  return item.status === 'published' ? 'published' : 'draft';
+}
+
+export function canPerformWorkflowAction(
+  action: Exclude<WorkflowAction, 'comment'>,
+  state: WorkflowState,
+  { isAdmin, isEditor }: WorkflowPermissions
+): boolean {
+  const config = WORKFLOW_ACTIONS[action];
+  if (!isEditor) return false;
+  if (config.role === 'admin' && !isAdmin) return false;
+  // Admins may publish without waiting for an approval
+  if (action === 'publish' && isAdmin) return state !== 'published';
+  return config.from.includes(state);
+}
+
+export function getAvailableWorkflowActions(
+  state: WorkflowState,
+  permissions: WorkflowPermissions
+): Exclude<WorkflowAction, 'comment'>[] {
+  return (Object.keys(WORKFLOW_ACTIONS) as Exclude<WorkflowAction, 'comment'>[])
+    .filter(action => canPerformWorkflowAction(action, state, permissions));
+}
+
+// The state content is left in when changes to it are saved while the workflow is on, or
+// null when enforce_content_workflow() refuses the save until it is unpublished
+export function getWorkflowStateAfterEdit(state: WorkflowState, { isAdmin }: WorkflowPermissions): WorkflowState | null {
+  if (isAdmin) return state;
+  if (state === 'published') return null;
+  return state === 'approved' ? 'draft' : state;
+}
+
+// Settings are stored as JSON, older values as strings
+export function isWorkflowEnabled(settings: Record<string, unknown>): boolean {
+  const value = settings[WORKFLOW_SETTING_KEY];
+  return value === true || value === 'true';
+}
+
+// Status fields after a transition, so the editor's unsaved state matches the database
+export function getWorkflowStatusUpdate(
+  state: WorkflowState,
+  item: { status?: string; published_at?: string }
+): { workflow_state: WorkflowState; status?: 'draft' | 'published'; published_at?: string } {
+  if (state === 'published') {
+    return { workflow_state: state, status: 'published', published_at: item.published_at || new Date().toISOString() };
+  }
+  if (item.status === 'published') {
+    return { workflow_state: state, status: 'draft' };
+  }
+  return { workflow_state: state };
+}
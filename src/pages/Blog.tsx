@@ -11,6 +11,9 @@ import { Button } from '@/components/ui/button';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { Calendar, Clock, ArrowRight, ArrowLeft, Mail } from 'lucide-react';
 import { EmailCaptureModal } from '@/components/cta/EmailCaptureModal';
+import { useTranslatedList } from '@/hooks/useTranslations';
+import { getReadingTime } from '@/lib/blocks/content';
+import { getTagPath } from '@/lib/tags';
 
 const Blog = () => {
   const [searchParams] = useSearchParams();
@@ -18,10 +21,11 @@ const Blog = () => {
   const postsPerPage = 6;
   const [showNewsletterModal, setShowNewsletterModal] = useState(false);
 
-  const { data: blogPosts = [], isLoading } = useQuery({
+  const { data: sourcePosts = [], isLoading } = useQuery({
     queryKey: ['blog-posts', page],
     queryFn: () => cms.getPublishedBlogPostsWithCategories(),
   });
+  const blogPosts = useTranslatedList('blog_post', sourcePosts);
 
   // Simple pagination logic (in a real app, you'd implement server-side pagination)
   const startIndex = (page - 1) * postsPerPage;
@@ -37,19 +41,6 @@ const Blog = () => {
     });
   };
 
-  const calculateReadingTime = (content: any): number => {
-    if (!content?.blocks) return 1;
-    
-    const text = content.blocks
-      .filter((block: any) => block.type === 'paragraph')
-      .map((block: any) => block.data?.text || '')
-      .join(' ');
-    
-    const wordsPerMinute = 200;
-    const wordCount = text.split(' ').length;
-    return Math.max(1, Math.ceil(wordCount / wordsPerMinute));
-  };
-
   return (
     <>
       <SEOHead 
@@ -131,7 +122,7 @@ const Blog = () => {
                           </div>
                           <div className="flex items-center space-x-1">
                             <Clock className="w-4 h-4" />
-                            <span>{calculateReadingTime(post.body)} min read</span>
+                            <span>{getReadingTime(post.body)} min read</span>
                           </div>
                         </div>
                         
@@ -154,9 +145,11 @@ const Blog = () => {
                           ))}
                           {/* Display tags as secondary badges if there's room */}
                           {(!post.categories || post.categories.length === 0) && post.tags?.slice(0, 2).map((tag) => (
-                            <Badge key={tag} variant="secondary" className="bg-agenko-dark text-agenko-green">
-                              {tag}
-                            </Badge>
+                            <Link key={tag} to={getTagPath(tag)}>
+                              <Badge variant="secondary" className="bg-agenko-dark text-agenko-green hover:opacity-80 transition-opacity">
+                                {tag}
+                              </Badge>
+                            </Link>
                           ))}
                         </div>
                         
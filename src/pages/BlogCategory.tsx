@@ -15,6 +15,9 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
+import { getReadingTime } from '@/lib/blocks/content';
+import { getTagPath } from '@/lib/tags';
+import { getFeedLinks } from '@/lib/feeds';
 
 const BlogCategory = () => {
   const { slug } = useParams<{ slug: string }>();
@@ -39,19 +42,6 @@ const BlogCategory = () => {
     });
   };
 
-  const calculateReadingTime = (content: any): number => {
-    if (!content?.blocks) return 1;
-    
-    const text = content.blocks
-      .filter((block: any) => block.type === 'paragraph')
-      .map((block: any) => block.data?.text || '')
-      .join(' ');
-    
-    const wordsPerMinute = 200;
-    const wordCount = text.split(' ').length;
-    return Math.max(1, Math.ceil(wordCount / wordsPerMinute));
-  };
-
   if (categoryLoading) {
     return (
       <div className="min-h-screen bg-agenko-dark">
@@ -94,6 +84,7 @@ const BlogCategory = () => {
         title={`${category.name} Articles - Devmart Blog`}
         description={category.description || `Read the latest ${category.name.toLowerCase()} articles from Devmart. Expert insights, tips, and knowledge to help drive technology innovation.`}
         keywords={[category.name.toLowerCase(), 'blog', 'articles', 'insights']}
+        feeds={getFeedLinks({ type: 'category', slug: category.slug, name: category.name })}
         structuredData={{
           "@context": "https://schema.org",
           "@type": "CollectionPage",
@@ -225,7 +216,7 @@ const BlogCategory = () => {
                         </div>
                         <div className="flex items-center space-x-1">
                           <Clock className="w-4 h-4" />
-                          <span>{calculateReadingTime(post.body)} min read</span>
+                          <span>{getReadingTime(post.body)} min read</span>
                         </div>
                       </div>
                       
@@ -234,9 +225,11 @@ const BlogCategory = () => {
                           {category.name}
                         </Badge>
                         {post.tags?.slice(0, 1).map((tag) => (
-                          <Badge key={tag} variant="secondary" className="bg-agenko-dark text-agenko-green">
-                            {tag}
-                          </Badge>
+                          <Link key={tag} to={getTagPath(tag)}>
+                            <Badge variant="secondary" className="bg-agenko-dark text-agenko-green hover:opacity-80 transition-opacity">
+                              {tag}
+                            </Badge>
+                          </Link>
                         ))}
                       </div>
                       
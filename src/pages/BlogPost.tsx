@@ -1,9 +1,11 @@
 import { useParams, Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { SEOHead, generateMetaDescription } from '@/lib/seo';
-import { cms } from '@/lib/cms';
+import { cms, BlogPost as BlogPostData } from '@/lib/cms';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
+import { PreviewBanner } from '@/components/PreviewBanner';
+import { usePreviewToken } from '@/hooks/usePreviewToken';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -20,7 +22,9 @@ import {
   Home
 } from 'lucide-react';
 import { ReadingProgress } from '@/components/ui/ReadingProgress';
-import { useState, useEffect } from 'react';
+import { useMemo } from 'react';
+import { RedirectGuard } from '@/components/RedirectGuard';
+import { useTranslatedEntity, useTranslatedList } from '@/hooks/useTranslations';
 import { 
   Breadcrumb,
   BreadcrumbList,
@@ -29,16 +33,24 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
+import { BlockContent } from '@/components/blog/BlockContent';
+import { getBlockHeadings, getReadingTime } from '@/lib/blocks/content';
+import { AuthorByline, AuthorCard } from '@/components/blog/AuthorProfile';
+import { formatAuthorNames, getAuthorStructuredData } from '@/lib/authors';
+import { getTagPath } from '@/lib/tags';
 
 const BlogPost = () => {
   const { slug } = useParams<{ slug: string }>();
-  const [tableOfContents, setTableOfContents] = useState<Array<{id: string, text: string, level: number}>>([]);
-  
-  const { data: post, isLoading } = useQuery({
-    queryKey: ['blog-post', slug],
-    queryFn: () => cms.getBlogPostBySlug(slug!),
+  const previewToken = usePreviewToken();
+  const { data: sourcePost, isLoading } = useQuery({
+    queryKey: ['blog-post', slug, previewToken],
+    queryFn: async () => previewToken
+      ? (await cms.getPreviewContent<BlogPostData>(previewToken, 'blog_post', slug))?.content ?? null
+      : cms.getBlogPostBySlug(slug!),
     enabled: !!slug,
   });
+  const { data: post, locales } = useTranslatedEntity('blog_post', sourcePost);
+  const tableOfContents = useMemo(() => getBlockHeadings(post?.body), [post]);
 
   const { data: postCategories = [] } = useQuery({
     queryKey: ['blog-post-categories', post?.id],
@@ -46,10 +58,17 @@ const BlogPost = () => {
     enabled: !!post?.id,
   });
 
-  const { data: allPosts = [] } = useQuery({
+  const { data: postAuthors = [] } = useQuery({
+    queryKey: ['blog-post-authors', post?.id],
+    queryFn: () => cms.getBlogPostAuthors(post!.id),
+    enabled: !!post?.id,
+  });
+
+  const { data: sourcePosts = [] } = useQuery({
     queryKey: ['all-blog-posts'],
     queryFn: () => cms.getPublishedBlogPosts(),
   });
+  const allPosts = useTranslatedList('blog_post', sourcePosts);
 
   // Get related posts based on tags
   const relatedPosts = post && allPosts.length > 0 
@@ -63,19 +82,6 @@ const BlogPost = () => {
   const previousPost = currentIndex > 0 ? allPosts[currentIndex - 1] : null;
   const nextPost = currentIndex < allPosts.length - 1 ? allPosts[currentIndex + 1] : null;
 
-  const calculateReadingTime = (content: any): number => {
-    if (!content?.blocks) return 1;
-    
-    const text = content.blocks
-      .filter((block: any) => block.type === 'paragraph')
-      .map((block: any) => block.data?.text || '')
-      .join(' ');
-    
-    const wordsPerMinute = 200;
-    const wordCount = text.split(' ').length;
-    return Math.max(1, Math.ceil(wordCount / wordsPerMinute));
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -84,20 +90,6 @@ const BlogPost = () => {
     });
   };
 
-  // Generate table of contents from headers
-  useEffect(() => {
-    if (post?.body?.blocks) {
-      const toc = post.body.blocks
-        .filter((block: any) => block.type === 'header')
-        .map((block: any, index: number) => ({
-          id: `heading-${index}`,
-          text: block.data.text,
-          level: block.data.level || 2
-        }));
-      setTableOfContents(toc);
-    }
-  }, [post]);
-
   const shareUrl = typeof window !== 'undefined' ? window.location.href : '';
   const shareText = post ? `Check out this article: ${post.title}` : '';
 
@@ -122,24 +114,27 @@ const BlogPost = () => {
 
   if (!post) {
     return (
-      <div className="min-h-screen bg-agenko-dark">
-        <GlobalNavigation overlay={false} />
-        <div className="pt-24 px-4">
-          <div className="max-w-4xl mx-auto text-center">
-            <h1 className="text-4xl font-bold text-agenko-white mb-4">Post Not Found</h1>
-            <p className="text-agenko-gray-light mb-8">The blog post you're looking for doesn't exist.</p>
-            <Link to="/blog">
-              <Button variant="cta">
-                Back to Blog
-              </Button>
-            </Link>
+      <RedirectGuard>
+        <div className="min-h-screen bg-agenko-dark">
+          <GlobalNavigation overlay={false} />
+          <div className="pt-24 px-4">
+            <div className="max-w-4xl mx-auto text-center">
+              <h1 className="text-4xl font-bold text-agenko-white mb-4">Post Not Found</h1>
+              <p className="text-agenko-gray-light mb-8">The blog post you're looking for doesn't exist.</p>
+              <Link to="/blog">
+                <Button variant="cta">
+                  Back to Blog
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
-      </div>
+      </RedirectGuard>
     );
   }
 
   const contentText = generateMetaDescription(post.body, post.excerpt || '');
+  const authorSchemas = postAuthors.map(author => getAuthorStructuredData(author, window.location.origin));
 
   return (
     <>
@@ -149,16 +144,18 @@ const BlogPost = () => {
         type="article"
         publishedAt={post.published_at || post.created_at}
         modifiedAt={post.updated_at}
-        author="Devmart"
+        author={formatAuthorNames(postAuthors) || 'Devmart'}
+        authors={authorSchemas}
         tags={post.tags || []}
         keywords={post.tags || []}
         image={post.feature_image_url}
+        locales={locales}
         structuredData={{
           "@context": "https://schema.org",
           "@type": "Article",
           "headline": post.title,
           "description": contentText,
-          "author": {
+          "author": authorSchemas.length ? authorSchemas : {
             "@type": "Organization",
             "name": "Devmart"
           },
@@ -271,9 +268,11 @@ const BlogPost = () => {
                 </Link>
               ))}
               {post.tags?.map((tag) => (
-                <Badge key={tag} variant="secondary" className="bg-agenko-dark-lighter text-agenko-green">
-                  {tag}
-                </Badge>
+                <Link key={tag} to={getTagPath(tag)} rel="tag">
+                  <Badge variant="secondary" className="bg-agenko-dark-lighter text-agenko-green hover:opacity-80 transition-opacity">
+                    {tag}
+                  </Badge>
+                </Link>
               ))}
             </div>
             
@@ -282,14 +281,15 @@ const BlogPost = () => {
             </h1>
             
             <div className="flex items-center justify-between flex-wrap gap-4 mb-8 pb-8 border-b border-agenko-dark-lighter">
-              <div className="flex items-center space-x-6 text-agenko-gray-light text-sm">
+              <div className="flex items-center flex-wrap gap-6 text-agenko-gray-light text-sm">
+                <AuthorByline authors={postAuthors} />
                 <div className="flex items-center space-x-2">
                   <Calendar className="w-4 h-4" />
                   <span>{formatDate(post.published_at || post.created_at)}</span>
                 </div>
                 <div className="flex items-center space-x-2">
                   <Clock className="w-4 h-4" />
-                  <span>{calculateReadingTime(post.body)} min read</span>
+                  <span>{getReadingTime(post.body)} min read</span>
                 </div>
               </div>
               
@@ -362,49 +362,16 @@ const BlogPost = () => {
               {/* Main Content */}
               <div className={tableOfContents.length > 0 ? 'lg:col-span-3' : 'lg:col-span-4'}>
                 <div className="prose prose-lg prose-invert max-w-none">
-                  {post.body?.blocks?.map((block: any, index: number) => {
-                    switch (block.type) {
-                      case 'paragraph':
-                        return (
-                          <p key={index} className="text-agenko-gray-light mb-6 leading-relaxed text-lg">
-                            {block.data.text}
-                          </p>
-                        );
-                      case 'header':
-                        const HeadingTag = `h${block.data.level || 2}` as keyof JSX.IntrinsicElements;
-                        const headingId = `heading-${index}`;
-                        return (
-                          <HeadingTag 
-                            key={index} 
-                            id={headingId}
-                            className={`font-bold text-agenko-white mb-6 mt-12 ${
-                              block.data.level === 2 ? 'text-2xl md:text-3xl' : 'text-xl md:text-2xl'
-                            }`}
-                          >
-                            {block.data.text}
-                          </HeadingTag>
-                        );
-                      case 'list':
-                        return (
-                          <ul key={index} className="space-y-3 mb-8 list-disc list-inside">
-                            {block.data.items.map((item: string, itemIndex: number) => (
-                              <li key={itemIndex} className="text-agenko-gray-light">
-                                {item}
-                              </li>
-                            ))}
-                          </ul>
-                        );
-                      case 'quote':
-                        return (
-                          <blockquote key={index} className="border-l-4 border-agenko-green pl-6 italic text-xl text-agenko-white mb-8">
-                            {block.data.text}
-                          </blockquote>
-                        );
-                      default:
-                        return null;
-                    }
-                  })}
+                  <BlockContent body={post.body} />
                 </div>
+
+                {postAuthors.length > 0 && (
+                  <div className="mt-12 space-y-4">
+                    {postAuthors.map(author => (
+                      <AuthorCard key={author.id} author={author} />
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -492,6 +459,7 @@ const BlogPost = () => {
         )}
 
         <Footer />
+        {previewToken && <PreviewBanner />}
       </div>
     </>
   );
@@ -0,0 +1,322 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link, Navigate, useParams, useSearchParams } from 'react-router-dom';
+import { SEOHead } from '@/lib/seo';
+import { cms } from '@/lib/cms';
+import { GlobalNavigation } from '@/components/GlobalNavigation';
+import Footer from '@/components/Footer';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Calendar, Clock, ArrowRight, ArrowLeft, Hash, Home } from 'lucide-react';
+import {
+  Breadcrumb,
+  BreadcrumbList,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { getReadingTime } from '@/lib/blocks/content';
+import { getFeedLinks } from '@/lib/feeds';
+import { getTagPath, normalizeTag } from '@/lib/tags';
+
+const POSTS_PER_PAGE = 9;
+
+const BlogTag = () => {
+  const { tag: tagParam = '' } = useParams<{ tag: string }>();
+  const [searchParams] = useSearchParams();
+  const tag = normalizeTag(tagParam);
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['blog-posts-tag', tag, page],
+    queryFn: () => cms.getBlogPostsByTag(tag, { page, pageSize: POSTS_PER_PAGE }),
+    enabled: !!tag && tag === tagParam,
+  });
+
+  // Old links and hand-typed URLs ("/blog/tag/React") land on the canonical spelling
+  if (tag && tag !== tagParam) {
+    return <Navigate to={`${getTagPath(tag)}${page > 1 ? `?page=${page}` : ''}`} replace />;
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-agenko-dark">
+        <GlobalNavigation overlay={false} />
+        <div className="pt-24 px-4">
+          <div className="max-w-6xl mx-auto">
+            <div className="animate-pulse">
+              <div className="h-8 bg-agenko-dark-lighter rounded mb-4"></div>
+              <div className="h-12 bg-agenko-dark-lighter rounded mb-6"></div>
+              <div className="h-4 bg-agenko-dark-lighter rounded mb-2"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const posts = data?.posts ?? [];
+  const totalCount = data?.totalCount ?? 0;
+  const totalPages = Math.ceil(totalCount / POSTS_PER_PAGE);
+
+  if (!tag || totalCount === 0) {
+    return (
+      <div className="min-h-screen bg-agenko-dark">
+        <SEOHead title="Tag Not Found - Devmart Blog" noindex />
+        <GlobalNavigation overlay={false} />
+        <div className="pt-24 px-4">
+          <div className="max-w-6xl mx-auto text-center">
+            <h1 className="text-4xl font-bold text-agenko-white mb-4">Tag Not Found</h1>
+            <p className="text-agenko-gray-light mb-8">There are no articles tagged "{tagParam}".</p>
+            <Link to="/blog">
+              <button className="bg-agenko-green text-agenko-dark hover:bg-agenko-green-hover font-semibold px-6 py-3 rounded-lg transition-colors">
+                Back to Blog
+              </button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const origin = window.location.origin;
+  const tagPath = getTagPath(tag);
+  const pagePath = (pageNum: number) => (pageNum > 1 ? `${tagPath}?page=${pageNum}` : tagPath);
+
+  return (
+    <>
+      <SEOHead
+        title={`Articles tagged "${tag}"${page > 1 ? ` - Page ${page}` : ''} - Devmart Blog`}
+        description={`${totalCount} ${totalCount === 1 ? 'article' : 'articles'} about ${tag} from the Devmart blog.`}
+        keywords={[tag, 'blog', 'articles', 'insights']}
+        canonical={`${origin}${pagePath(page)}`}
+        // Pages past the last one have no articles, so keep them out of search results
+        noindex={page > totalPages}
+        feeds={getFeedLinks({ type: 'tag', tag })}
+        breadcrumbs={[
+          { name: 'Home', url: origin },
+          { name: 'Blog', url: `${origin}/blog` },
+          { name: `#${tag}`, url: `${origin}${tagPath}` },
+        ]}
+        structuredData={{
+          "@context": "https://schema.org",
+          "@type": "CollectionPage",
+          "name": `Articles tagged "${tag}"`,
+          "url": `${origin}${pagePath(page)}`,
+          "mainEntity": {
+            "@type": "ItemList",
+            "numberOfItems": totalCount,
+            "itemListElement": posts.map((post, index) => ({
+              "@type": "ListItem",
+              "position": (page - 1) * POSTS_PER_PAGE + index + 1,
+              "item": {
+                "@type": "Article",
+                "headline": post.title,
+                "description": post.excerpt,
+                "url": `${origin}/blog/${post.slug}`
+              }
+            }))
+          }
+        }}
+      />
+
+      <div className="min-h-screen bg-agenko-dark">
+        <GlobalNavigation overlay={false} />
+
+        {/* Breadcrumbs */}
+        <div className="px-4 pt-24 pb-4">
+          <div className="max-w-6xl mx-auto">
+            <Breadcrumb>
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/" className="flex items-center text-agenko-gray-light hover:text-agenko-green">
+                    <Home className="w-4 h-4 mr-1" />
+                    Home
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbLink href="/blog" className="text-agenko-gray-light hover:text-agenko-green">
+                    Blog
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                <BreadcrumbSeparator />
+                <BreadcrumbItem>
+                  <BreadcrumbPage className="text-agenko-white">
+                    #{tag}
+                  </BreadcrumbPage>
+                </BreadcrumbItem>
+              </BreadcrumbList>
+            </Breadcrumb>
+          </div>
+        </div>
+
+        {/* Hero Section */}
+        <section className="py-16 px-4">
+          <div className="max-w-6xl mx-auto">
+            <Link
+              to="/blog"
+              className="inline-flex items-center text-agenko-green hover:text-agenko-green-hover transition-colors mb-8"
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Blog
+            </Link>
+
+            <div className="text-center">
+              <div className="w-16 h-16 bg-agenko-green/20 rounded-full flex items-center justify-center mx-auto mb-6">
+                <Hash className="w-8 h-8 text-agenko-green" />
+              </div>
+
+              <h1 className="text-4xl md:text-6xl font-bold text-agenko-white leading-tight mb-6">
+                {tag}
+              </h1>
+
+              <p className="text-agenko-gray text-sm">
+                {totalCount} {totalCount === 1 ? 'article' : 'articles'} tagged "{tag}"
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Blog Posts Grid */}
+        <section className="py-12 px-4">
+          <div className="max-w-6xl mx-auto">
+            {posts.length > 0 ? (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 mb-12">
+                  {posts.map((post) => (
+                    <Card key={post.id} className="bg-agenko-dark-lighter border-agenko-gray/20 overflow-hidden group hover:border-agenko-green/20 transition-all duration-300">
+                      {post.feature_image_url ? (
+                        <div className="aspect-video overflow-hidden">
+                          <img
+                            src={post.feature_image_url}
+                            alt={post.title}
+                            className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                            loading="lazy"
+                          />
+                        </div>
+                      ) : (
+                        <div className="aspect-video bg-gradient-to-br from-agenko-green/20 to-agenko-dark flex items-center justify-center">
+                          <span className="text-agenko-green text-6xl font-bold">{post.title.charAt(0)}</span>
+                        </div>
+                      )}
+
+                      <CardContent className="p-6">
+                        <div className="flex items-center space-x-4 text-agenko-gray text-sm mb-4">
+                          <div className="flex items-center space-x-1">
+                            <Calendar className="w-4 h-4" />
+                            <span>{formatDate(post.published_at || post.created_at)}</span>
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            <Clock className="w-4 h-4" />
+                            <span>{getReadingTime(post.body)} min read</span>
+                          </div>
+                        </div>
+
+                        {/* The other tags on the post; this one is in the page title */}
+                        {post.tags && post.tags.some(t => t !== tag) && (
+                          <div className="flex flex-wrap gap-2 mb-3">
+                            {post.tags.filter(t => t !== tag).slice(0, 2).map((t) => (
+                              <Link key={t} to={getTagPath(t)}>
+                                <Badge variant="secondary" className="bg-agenko-dark text-agenko-green hover:opacity-80 transition-opacity">
+                                  {t}
+                                </Badge>
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+
+                        <h3 className="text-xl font-bold text-agenko-white mb-3 line-clamp-2 group-hover:text-agenko-green transition-colors">
+                          {post.title}
+                        </h3>
+
+                        {post.excerpt && (
+                          <p className="text-agenko-gray-light text-sm mb-4 line-clamp-3">
+                            {post.excerpt}
+                          </p>
+                        )}
+
+                        <Link
+                          to={`/blog/${post.slug}`}
+                          className="inline-flex items-center text-agenko-green hover:text-agenko-green-hover transition-colors"
+                        >
+                          Read More <ArrowRight className="w-4 h-4 ml-2" />
+                        </Link>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                  <nav className="flex justify-center items-center space-x-4" aria-label="Pagination">
+                    {page > 1 && (
+                      <Link
+                        to={pagePath(page - 1)}
+                        rel="prev"
+                        className="flex items-center text-agenko-green hover:text-agenko-green-hover transition-colors"
+                      >
+                        <ArrowLeft className="w-4 h-4 mr-2" />
+                        Previous
+                      </Link>
+                    )}
+
+                    <div className="flex space-x-2">
+                      {[...Array(totalPages)].map((_, i) => {
+                        const pageNum = i + 1;
+                        return (
+                          <Link
+                            key={pageNum}
+                            to={pagePath(pageNum)}
+                            aria-current={pageNum === page ? 'page' : undefined}
+                            className={`w-10 h-10 rounded-full flex items-center justify-center transition-colors ${
+                              pageNum === page
+                                ? 'bg-agenko-green text-agenko-dark'
+                                : 'bg-agenko-dark-lighter text-agenko-gray-light hover:text-agenko-white'
+                            }`}
+                          >
+                            {pageNum}
+                          </Link>
+                        );
+                      })}
+                    </div>
+
+                    {page < totalPages && (
+                      <Link
+                        to={pagePath(page + 1)}
+                        rel="next"
+                        className="flex items-center text-agenko-green hover:text-agenko-green-hover transition-colors"
+                      >
+                        Next
+                        <ArrowRight className="w-4 h-4 ml-2" />
+                      </Link>
+                    )}
+                  </nav>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-16">
+                <p className="text-agenko-gray-light text-xl">There are only {totalPages} {totalPages === 1 ? 'page' : 'pages'} of articles tagged "{tag}".</p>
+                <Link to={tagPath} className="text-agenko-green hover:text-agenko-green-hover transition-colors mt-4 inline-block">
+                  Go to the first page
+                </Link>
+              </div>
+            )}
+          </div>
+        </section>
+
+        <Footer />
+      </div>
+    </>
+  );
+};
+
+export default BlogTag;
@@ -12,6 +12,7 @@ import { useScrollReveal } from '@/hooks/useScrollReveal';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
+import { useTranslatedList } from '@/hooks/useTranslations';
 
 interface Job {
   id: string;
@@ -39,7 +40,7 @@ const Careers = () => {
   const { elementRef: heroRef, isVisible: heroVisible } = useScrollReveal();
   const { elementRef: gridRef, isVisible: gridVisible } = useScrollReveal();
 
-  const { data: jobs = [], isLoading } = useQuery({
+  const { data: sourceJobs = [], isLoading } = useQuery({
     queryKey: ['jobs'],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -52,6 +53,7 @@ const Careers = () => {
       return data || [];
     }
   });
+  const jobs = useTranslatedList('job', sourceJobs);
 
   const workModeLabels = {
     remote: 'Remote',
@@ -9,6 +9,7 @@ import { useScrollReveal } from '@/hooks/useScrollReveal';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
+import { useTranslatedList } from '@/hooks/useTranslations';
 
 interface CaseStudy {
   id: string;
@@ -28,7 +29,7 @@ const CaseStudies = () => {
   const { elementRef: heroRef, isVisible: heroVisible } = useScrollReveal();
   const { elementRef: gridRef, isVisible: gridVisible } = useScrollReveal();
 
-  const { data: caseStudies = [], isLoading } = useQuery({
+  const { data: sourceCaseStudies = [], isLoading } = useQuery({
     queryKey: ['case-studies'],
     queryFn: async () => {
       const { data, error } = await supabase
@@ -41,6 +42,7 @@ const CaseStudies = () => {
       return data || [];
     }
   });
+  const caseStudies = useTranslatedList('case_study', sourceCaseStudies);
 
   return (
     <>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import { Badge } from '@/components/ui/badge';
@@ -8,8 +8,13 @@ import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { supabase } from '@/integrations/supabase/client';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
+import { PreviewBanner } from '@/components/PreviewBanner';
+import { usePreviewToken } from '@/hooks/usePreviewToken';
+import { cms } from '@/lib/cms';
 import { CaseStudyStory } from '@/components/ui/CaseStudyStory';
 import { ExternalLink, ArrowRight } from 'lucide-react';
+import { RedirectGuard } from '@/components/RedirectGuard';
+import { useTranslatedEntity } from '@/hooks/useTranslations';
 
 interface CaseStudyMetric {
   label: string;
@@ -35,18 +40,24 @@ interface CaseStudy {
 
 export default function CaseStudyDetail() {
   const { slug } = useParams<{ slug: string }>();
-  const [caseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
+  const previewToken = usePreviewToken();
+  const [sourceCaseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const { data: caseStudy } = useTranslatedEntity('case_study', sourceCaseStudy);
 
-  useEffect(() => {
-    if (slug) {
-      fetchCaseStudy();
-    }
-  }, [slug]);
-
-  const fetchCaseStudy = async () => {
+  const fetchCaseStudy = useCallback(async () => {
     try {
+      if (previewToken) {
+        const preview = await cms.getPreviewContent<CaseStudy>(previewToken, 'case_study', slug);
+        if (preview) {
+          setCaseStudy({ ...preview.content, metrics: preview.content.metrics || [] });
+        } else {
+          setNotFound(true);
+        }
+        return;
+      }
+
       const { data, error } = await supabase
         .from('case_studies')
         .select('*')
@@ -72,7 +83,13 @@ export default function CaseStudyDetail() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [slug, previewToken]);
+
+  useEffect(() => {
+    if (slug) {
+      fetchCaseStudy();
+    }
+  }, [slug, fetchCaseStudy]);
 
   if (loading) {
     return (
@@ -97,7 +114,11 @@ export default function CaseStudyDetail() {
   }
 
   if (notFound || !caseStudy) {
-    return <Navigate to="/case-studies" replace />;
+    return (
+      <RedirectGuard>
+        <Navigate to="/case-studies" replace />
+      </RedirectGuard>
+    );
   }
 
   const structuredData = {
@@ -261,6 +282,7 @@ export default function CaseStudyDetail() {
       </main>
 
       <Footer />
+      {previewToken && <PreviewBanner />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Home } from 'lucide-react';
+import { cms, Page } from '@/lib/cms';
+import { SEOHead } from '@/lib/seo';
+import { GlobalNavigation } from '@/components/GlobalNavigation';
+import { PreviewBanner } from '@/components/PreviewBanner';
+import { VisibilitySimulator } from '@/components/admin/sections/VisibilitySimulator';
+import { usePreviewToken } from '@/hooks/usePreviewToken';
+import Footer from '@/components/Footer';
+import { SectionRenderer } from '@/components/sections/SectionRenderer';
+import { PageBodySchema, Section } from '@/lib/sections/schema';
+import { migratePageBody } from '@/lib/sections/migrations';
+import type { VisibilitySimulation } from '@/lib/sections/visibility';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import NotFound from './NotFound';
+import { useTranslatedEntity } from '@/hooks/useTranslations';
+
+// Catch-all public route that renders published `pages` rows by their (nested) path
+const DynamicPage = () => {
+  const location = useLocation();
+  const path = location.pathname.replace(/^\/+|\/+$/g, '');
+  const previewToken = usePreviewToken();
+  const [simulation, setSimulation] = useState<VisibilitySimulation>();
+
+  const { data: resolved, isLoading } = useQuery({
+    queryKey: ['page-path', path, previewToken],
+    queryFn: () => cms.getPageByPath(path, previewToken || undefined),
+    // The homepage is served by the index route only, except when previewing a draft of it
+    enabled: !!path && (path !== 'home' || !!previewToken),
+  });
+  const { data: translatedPage, locales } = useTranslatedEntity('page', resolved?.page);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-agenko-dark">
+        <GlobalNavigation overlay={false} />
+        <div className="pt-24 px-4">
+          <div className="max-w-4xl mx-auto">
+            <div className="animate-pulse">
+              <div className="h-8 bg-agenko-dark-lighter rounded mb-4"></div>
+              <div className="h-12 bg-agenko-dark-lighter rounded mb-6"></div>
+              <div className="h-4 bg-agenko-dark-lighter rounded mb-2"></div>
+              <div className="h-4 bg-agenko-dark-lighter rounded w-3/4"></div>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!resolved) {
+    return <NotFound />;
+  }
+
+  const { ancestors } = resolved;
+  const page = translatedPage ?? resolved.page;
+  const trail = [...ancestors, page];
+  const pathFor = (index: number) => `/${trail.slice(0, index + 1).map(p => p.slug).join('/')}`;
+
+  let sections: Section[] = [];
+  if (page.body?.sections) {
+    // Translated bodies are stored as saved, so bring them up to the current schema too
+    const parsed = PageBodySchema.safeParse(migratePageBody(page.body).body);
+    if (parsed.success) {
+      sections = parsed.data.sections;
+    } else {
+      console.error(`Invalid sections in page "${page.slug}":`, parsed.error.issues);
+    }
+  }
+  const content: string = typeof page.body?.content === 'string' ? page.body.content : '';
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  const robots = (page.seo_robots || '').toLowerCase();
+
+  return (
+    <>
+      <SEOHead
+        title={page.seo_title || page.title}
+        description={page.seo_description || undefined}
+        image={page.seo_og_image || undefined}
+        canonical={page.seo_canonical_url || undefined}
+        locales={locales}
+        noindex={!!previewToken || robots.includes('noindex')}
+        nofollow={robots.includes('nofollow')}
+        breadcrumbs={[
+          { name: 'Home', url: `${origin}/` },
+          ...trail.map((p, index) => ({ name: p.title, url: `${origin}${pathFor(index)}` })),
+        ]}
+        structuredData={{
+          '@context': 'https://schema.org',
+          '@type': page.seo_schema_type || 'WebPage',
+          name: page.seo_title || page.title,
+          description: page.seo_description || undefined,
+          url: `${origin}${pathFor(trail.length - 1)}`,
+          dateModified: page.updated_at,
+        }}
+      />
+
+      <div className="min-h-screen bg-background">
+        <GlobalNavigation overlay={false} />
+
+        <div className="container mx-auto px-4 pt-24">
+          <PageBreadcrumb trail={trail} pathFor={pathFor} />
+        </div>
+
+        <main id="main-content">
+          {sections.length > 0 ? (
+            <SectionRenderer sections={sections} context="detail" simulation={previewToken ? simulation : undefined} />
+          ) : (
+            <section className="py-12 px-4">
+              <div className="max-w-4xl mx-auto">
+                <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-8">{page.title}</h1>
+                {content && (
+                  <div className="text-muted-foreground leading-relaxed whitespace-pre-line">{content}</div>
+                )}
+              </div>
+            </section>
+          )}
+        </main>
+
+        <Footer />
+        {previewToken && (
+          <PreviewBanner>
+            {sections.length > 0 && <VisibilitySimulator value={simulation} onChange={setSimulation} />}
+          </PreviewBanner>
+        )}
+      </div>
+    </>
+  );
+};
+
+function PageBreadcrumb({ trail, pathFor }: { trail: Page[]; pathFor: (index: number) => string }) {
+  return (
+    <Breadcrumb className="mb-6">
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild>
+            <Link to="/" className="text-muted-foreground hover:text-primary flex items-center gap-1">
+              <Home className="h-4 w-4" />
+              Home
+            </Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        {trail.map((crumb, index) => (
+          <React.Fragment key={crumb.id}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              {index === trail.length - 1 ? (
+                <BreadcrumbPage className="text-primary">{crumb.title}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <Link to={pathFor(index)} className="text-muted-foreground hover:text-primary">
+                    {crumb.title}
+                  </Link>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          </React.Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+}
+
+export default DynamicPage;
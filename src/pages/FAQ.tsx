@@ -12,10 +12,11 @@ import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { HelpCircle, Search } from 'lucide-react';
 import { useState, useMemo } from 'react';
 import type { FAQ } from '@/types/content';
+import { useTranslatedList } from '@/hooks/useTranslations';
 
 export function FAQ() {
   const [searchQuery, setSearchQuery] = useState('');
-  const { data: faqs = [], isLoading, error } = useQuery({
+  const { data: sourceFaqs = [], isLoading, error } = useQuery({
     queryKey: ['faqs'],
     queryFn: async (): Promise<FAQ[]> => {
       const { data, error } = await supabase
@@ -32,6 +33,7 @@ export function FAQ() {
       }));
     }
   });
+  const faqs = useTranslatedList('faq', sourceFaqs);
 
   // Filter FAQs based on search query
   const filteredFaqs = useMemo(() => {
@@ -10,6 +10,8 @@ import { useScrollReveal } from '@/hooks/useScrollReveal';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
+import { isInsightPost } from '@/lib/insights';
+import { getFeedLinks } from '@/lib/feeds';
 
 interface BlogPost {
   id: string;
@@ -38,39 +40,7 @@ const Insights = () => {
 
       if (error) throw error;
       
-      // Filter for insights content - posts with strategic/analytical tags
-      const insightTags = [
-        'industry-analysis',
-        'tech-trends', 
-        'market-insights',
-        'digital-transformation',
-        'innovation',
-        'strategy',
-        'leadership',
-        'thought-leadership',
-        'future-tech',
-        'business-intelligence',
-        'data-science',
-        'ai-machine-learning',
-        'cybersecurity',
-        'cloud-computing',
-        'enterprise',
-        'startup-insights'
-      ];
-
-      const insightPosts = (data || []).filter(post => {
-        if (!post.tags || !Array.isArray(post.tags)) return false;
-        
-        return post.tags.some(tag => 
-          insightTags.includes(tag.toLowerCase()) ||
-          tag.toLowerCase().includes('insight') ||
-          tag.toLowerCase().includes('trend') ||
-          tag.toLowerCase().includes('analysis') ||
-          tag.toLowerCase().includes('strategy')
-        );
-      });
-
-      return insightPosts;
+      return (data || []).filter(isInsightPost);
     }
   });
 
@@ -108,6 +78,9 @@ const Insights = () => {
         <meta property="og:description" content="Stay ahead with the latest insights, trends, and expert perspectives on digital innovation, technology, and business growth." />
         <meta property="og:type" content="website" />
         <link rel="canonical" href="https://devmart.sr/insights" />
+        {[...getFeedLinks({ type: 'insights' }), ...getFeedLinks({ type: 'site' })].map(feed => (
+          <link key={feed.href} rel="alternate" type={feed.type} title={feed.title} href={feed.href} />
+        ))}
       </Helmet>
 
       <div className="min-h-screen bg-agenko-dark">
@@ -9,6 +9,8 @@ import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
 import { StickyApplyCTA } from '@/components/ui/StickyApplyCTA';
 import { ExternalLink, MapPin, Clock, Users, Mail, CheckCircle } from 'lucide-react';
+import { RedirectGuard } from '@/components/RedirectGuard';
+import { useTranslatedEntity } from '@/hooks/useTranslations';
 
 interface Job {
   id: string;
@@ -30,9 +32,10 @@ interface Job {
 
 export default function JobDetail() {
   const { slug } = useParams<{ slug: string }>();
-  const [job, setJob] = useState<Job | null>(null);
+  const [sourceJob, setJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
+  const { data: job } = useTranslatedEntity('job', sourceJob);
 
   useEffect(() => {
     if (slug) {
@@ -89,7 +92,11 @@ export default function JobDetail() {
   }
 
   if (notFound || !job) {
-    return <Navigate to="/careers" replace />;
+    return (
+      <RedirectGuard>
+        <Navigate to="/careers" replace />
+      </RedirectGuard>
+    );
   }
 
   const structuredData = {
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, Navigate } from 'react-router-dom';
 import { Helmet } from 'react-helmet-async';
 import { Badge } from '@/components/ui/badge';
@@ -7,8 +7,12 @@ import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { GlobalNavigation } from '@/components/GlobalNavigation';
 import Footer from '@/components/Footer';
+import { PreviewBanner } from '@/components/PreviewBanner';
+import { usePreviewToken } from '@/hooks/usePreviewToken';
+import { cms } from '@/lib/cms';
 import { DemoShowcase } from '@/components/ui/DemoShowcase';
 import { ExternalLink, Github, Play, Star } from 'lucide-react';
+import { RedirectGuard } from '@/components/RedirectGuard';
 
 interface LabProject {
   id: string;
@@ -26,18 +30,23 @@ interface LabProject {
 
 export default function LabProjectDetail() {
   const { slug } = useParams<{ slug: string }>();
+  const previewToken = usePreviewToken();
   const [project, setProject] = useState<LabProject | null>(null);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
 
-  useEffect(() => {
-    if (slug) {
-      fetchProject();
-    }
-  }, [slug]);
-
-  const fetchProject = async () => {
+  const fetchProject = useCallback(async () => {
     try {
+      if (previewToken) {
+        const preview = await cms.getPreviewContent<LabProject>(previewToken, 'lab_project', slug);
+        if (preview) {
+          setProject({ ...preview.content });
+        } else {
+          setNotFound(true);
+        }
+        return;
+      }
+
       const { data, error } = await supabase
         .from('lab_projects')
         .select('*')
@@ -60,7 +69,13 @@ export default function LabProjectDetail() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [slug, previewToken]);
+
+  useEffect(() => {
+    if (slug) {
+      fetchProject();
+    }
+  }, [slug, fetchProject]);
 
   if (loading) {
     return (
@@ -85,7 +100,11 @@ export default function LabProjectDetail() {
   }
 
   if (notFound || !project) {
-    return <Navigate to="/innovation-lab" replace />;
+    return (
+      <RedirectGuard>
+        <Navigate to="/innovation-lab" replace />
+      </RedirectGuard>
+    );
   }
 
   const structuredData = {
@@ -253,6 +272,7 @@ export default function LabProjectDetail() {
       </main>
 
       <Footer />
+      {previewToken && <PreviewBanner />}
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { RedirectGuard } from "@/components/RedirectGuard";
 
-const NotFound = () => {
+const NotFoundContent = () => {
   const location = useLocation();
 
   useEffect(() => {
@@ -24,4 +25,11 @@ const NotFound = () => {
   );
 };
 
+// Old URLs that have a redirect are sent on before the 404 is shown
+const NotFound = () => (
+  <RedirectGuard>
+    <NotFoundContent />
+  </RedirectGuard>
+);
+
 export default NotFound;
@@ -9,12 +9,14 @@ import { Badge } from '@/components/ui/badge';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { PortfolioFilters } from '@/components/ui/PortfolioFilters';
 import { Link } from 'react-router-dom';
+import { useTranslatedList } from '@/hooks/useTranslations';
 
 const Portfolio = () => {
-  const { data: projects = [] } = useQuery({
+  const { data: sourceProjects = [] } = useQuery({
     queryKey: ['published-projects'],
     queryFn: cms.getPublishedProjects,
   });
+  const projects = useTranslatedList('project', sourceProjects);
 
   const [filters, setFilters] = useState({
     search: '',
@@ -7,85 +7,20 @@ import { Badge } from '@/components/ui/badge';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { Check, Star } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { cms } from '@/lib/cms';
+import { formatTierPrice, getBillingPeriodSuffix, isCheckoutTier } from '@/lib/pricing';
+import { PaymentMethodDialog } from '@/components/payment/PaymentMethodDialog';
+import type { PricingTier } from '@/types/payment';
 
 const Pricing = () => {
-  const plans = [
-    {
-      name: 'Starter',
-      price: '$2,999',
-      period: 'one-time',
-      description: 'Perfect for small businesses getting started with digital marketing',
-      features: [
-        'Website Design & Development',
-        'Basic SEO Setup',
-        'Google Analytics Integration',
-        'Mobile Responsive Design',
-        'Content Management System',
-        '30 Days Support',
-        '3 Revision Rounds'
-      ],
-      cta: 'Get Started',
-      popular: false,
-      subject: 'Starter Package Inquiry'
-    },
-    {
-      name: 'Business',
-      price: '$5,999',
-      period: 'one-time',
-      description: 'Comprehensive solution for growing businesses',
-      features: [
-        'Everything in Starter',
-        'Advanced SEO Optimization',
-        'Social Media Integration',
-        'E-commerce Functionality',
-        'Brand Identity Design',
-        '90 Days Support',
-        '5 Revision Rounds',
-        'Marketing Strategy Consultation'
-      ],
-      cta: 'Choose Business',
-      popular: true,
-      subject: 'Business Package Inquiry'
-    },
-    {
-      name: 'Pro',
-      price: '$9,999',
-      period: 'one-time',
-      description: 'Advanced solution for established businesses',
-      features: [
-        'Everything in Business',
-        'Custom Web Application',
-        'Advanced Analytics Setup',
-        'Marketing Automation',
-        'Performance Optimization',
-        '6 Months Support',
-        'Unlimited Revisions',
-        'Dedicated Account Manager'
-      ],
-      cta: 'Go Pro',
-      popular: false,
-      subject: 'Pro Package Inquiry'
-    },
-    {
-      name: 'Enterprise',
-      price: 'Custom',
-      period: 'quote',
-      description: 'Tailored solutions for large organizations',
-      features: [
-        'Everything in Pro',
-        'Custom Development',
-        'Multi-site Management',
-        'Enterprise Security',
-        'API Integrations',
-        '1 Year Support',
-        'Priority Support',
-        'Quarterly Strategy Reviews'
-      ],
-      cta: 'Contact Sales',
-      popular: false,
-      subject: 'Enterprise Package Inquiry'
-    }
-  ];
+  const [checkoutTier, setCheckoutTier] = useState<PricingTier | null>(null);
+
+  const { data: plans = [], isLoading } = useQuery({
+    queryKey: ['published-pricing-tiers'],
+    queryFn: () => cms.getPublishedPricingTiers(),
+  });
 
   const faqs = [
     {
@@ -155,70 +90,96 @@ const Pricing = () => {
         <section className="py-12 px-4">
           <div className="max-w-7xl mx-auto">
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
-              {plans.map((plan, index) => (
-                <Card 
-                  key={plan.name} 
-                  className={`relative bg-agenko-dark-lighter border-agenko-gray/20 transition-all duration-300 hover:border-agenko-green/20 ${
-                    plan.popular ? 'ring-2 ring-agenko-green scale-105' : ''
-                  }`}
-                >
-                  {plan.popular && (
-                    <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
-                      <div className="bg-agenko-green text-agenko-dark px-4 py-1 rounded-full text-sm font-semibold flex items-center">
-                        <Star className="w-4 h-4 mr-1" />
-                        Most Popular
+              {isLoading && Array.from({ length: 4 }).map((_, index) => (
+                <Card key={index} className="bg-agenko-dark-lighter border-agenko-gray/20 h-[560px] animate-pulse" />
+              ))}
+              {plans.map((plan) => {
+                const suffix = plan.billing_period !== 'custom' ? getBillingPeriodSuffix(plan.billing_period) : undefined;
+                const budget = plan.billing_period === 'custom' ? 'not-sure' : String(plan.price / 100);
+
+                return (
+                  <Card 
+                    key={plan.id} 
+                    className={`relative bg-agenko-dark-lighter border-agenko-gray/20 transition-all duration-300 hover:border-agenko-green/20 ${
+                      plan.popular ? 'ring-2 ring-agenko-green scale-105' : ''
+                    }`}
+                  >
+                    {plan.popular && (
+                      <div className="absolute -top-4 left-1/2 transform -translate-x-1/2">
+                        <div className="bg-agenko-green text-agenko-dark px-4 py-1 rounded-full text-sm font-semibold flex items-center">
+                          <Star className="w-4 h-4 mr-1" />
+                          Most Popular
+                        </div>
                       </div>
-                    </div>
-                  )}
-                  
-                  <CardContent className="p-8">
-                    <div className="text-center mb-8">
-                      <h3 className="text-2xl font-bold text-agenko-white mb-2">{plan.name}</h3>
-                      <div className="mb-4">
-                        <span className="text-4xl font-bold text-agenko-green">{plan.price}</span>
-                        {plan.period !== 'quote' && (
-                          <span className="text-agenko-gray-light text-sm ml-2">/{plan.period}</span>
-                        )}
+                    )}
+                    
+                    <CardContent className="p-8">
+                      <div className="text-center mb-8">
+                        <h3 className="text-2xl font-bold text-agenko-white mb-2">{plan.name}</h3>
+                        <div className="mb-4">
+                          <span className="text-4xl font-bold text-agenko-green">{formatTierPrice(plan)}</span>
+                          {suffix && (
+                            <span className="text-agenko-gray-light text-sm ml-2">/{suffix}</span>
+                          )}
+                        </div>
+                        <p className="text-agenko-gray-light text-sm">{plan.description}</p>
                       </div>
-                      <p className="text-agenko-gray-light text-sm">{plan.description}</p>
-                    </div>
 
-                    <ul className="space-y-4 mb-8">
-                      {plan.features.map((feature, featureIndex) => (
-                        <li key={featureIndex} className="flex items-start space-x-3">
-                          <Check className="w-5 h-5 text-agenko-green mt-0.5 flex-shrink-0" />
-                          <span className="text-agenko-gray-light text-sm">{feature}</span>
-                        </li>
-                      ))}
-                    </ul>
+                      <ul className="space-y-4 mb-8">
+                        {plan.features.map((feature, featureIndex) => (
+                          <li key={featureIndex} className="flex items-start space-x-3">
+                            <Check className="w-5 h-5 text-agenko-green mt-0.5 flex-shrink-0" />
+                            <span className="text-agenko-gray-light text-sm">{feature}</span>
+                          </li>
+                        ))}
+                      </ul>
 
-                    <div className="space-y-3">
-                      <Link to={`/get-quote?service=${encodeURIComponent(plan.name.toLowerCase())}&budget=${encodeURIComponent(plan.price === 'Custom' ? 'not-sure' : plan.price.replace('$', '').replace(',', ''))}`}>
-                        <Button 
-                          variant={plan.popular ? "hero" : "outline-green"} 
-                          className="w-full"
-                          size="lg"
-                        >
-                          Get Quote for {plan.name}
-                        </Button>
-                      </Link>
-                      <Link to={`/contact?subject=${encodeURIComponent(plan.subject)}`}>
-                        <Button 
-                          variant="outline" 
-                          className="w-full"
-                          size="sm"
-                        >
-                          Contact Sales
-                        </Button>
-                      </Link>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                      <div className="space-y-3">
+                        {isCheckoutTier(plan) && (
+                          <Button 
+                            variant={plan.popular ? "hero" : "outline-green"} 
+                            className="w-full"
+                            size="lg"
+                            onClick={() => setCheckoutTier(plan)}
+                          >
+                            {plan.cta_label || `Choose ${plan.name}`}
+                          </Button>
+                        )}
+                        <Link to={`/get-quote?service=${encodeURIComponent(plan.name.toLowerCase())}&budget=${encodeURIComponent(budget)}`}>
+                          <Button 
+                            variant={isCheckoutTier(plan) ? "outline" : plan.popular ? "hero" : "outline-green"} 
+                            className="w-full"
+                            size={isCheckoutTier(plan) ? "sm" : "lg"}
+                          >
+                            Get Quote for {plan.name}
+                          </Button>
+                        </Link>
+                        <Link to={`/contact?subject=${encodeURIComponent(`${plan.name} Package Inquiry`)}`}>
+                          <Button 
+                            variant="outline" 
+                            className="w-full"
+                            size="sm"
+                          >
+                            Contact Sales
+                          </Button>
+                        </Link>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
           </div>
         </section>
 
+        {checkoutTier && (
+          <PaymentMethodDialog
+            open={!!checkoutTier}
+            onOpenChange={(open) => !open && setCheckoutTier(null)}
+            tier={checkoutTier}
+          />
+        )}
+
         {/* Features Comparison */}
         <section className="py-24 px-4">
           <div className="max-w-6xl mx-auto">
@@ -10,21 +10,25 @@ import { Badge } from '@/components/ui/badge';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { ArrowLeft, ExternalLink, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useState } from 'react';
+import { RedirectGuard } from '@/components/RedirectGuard';
+import { useTranslatedEntity, useTranslatedList } from '@/hooks/useTranslations';
 
 const ProjectDetail = () => {
   const { slug } = useParams<{ slug: string }>();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   
-  const { data: project, isLoading } = useQuery({
+  const { data: sourceProject, isLoading } = useQuery({
     queryKey: ['project', slug],
     queryFn: () => cms.getProjectBySlug(slug!),
     enabled: !!slug,
   });
+  const { data: project, locales } = useTranslatedEntity('project', sourceProject);
 
-  const { data: allProjects = [] } = useQuery({
+  const { data: sourceProjects = [] } = useQuery({
     queryKey: ['all-projects'],
     queryFn: () => cms.getPublishedProjects(),
   });
+  const allProjects = useTranslatedList('project', sourceProjects);
 
   const relatedProjects = allProjects.filter(p => p.id !== project?.id).slice(0, 3);
 
@@ -47,17 +51,19 @@ const ProjectDetail = () => {
 
   if (!project) {
     return (
-      <div className="min-h-screen bg-agenko-dark">
-        <GlobalNavigation overlay={false} />
-        <div className="pt-24 px-4">
-          <div className="max-w-4xl mx-auto text-center">
-            <h1 className="text-4xl font-bold text-agenko-white mb-4">Project Not Found</h1>
-            <Link to="/portfolio">
-              <Button variant="cta">Back to Portfolio</Button>
-            </Link>
+      <RedirectGuard>
+        <div className="min-h-screen bg-agenko-dark">
+          <GlobalNavigation overlay={false} />
+          <div className="pt-24 px-4">
+            <div className="max-w-4xl mx-auto text-center">
+              <h1 className="text-4xl font-bold text-agenko-white mb-4">Project Not Found</h1>
+              <Link to="/portfolio">
+                <Button variant="cta">Back to Portfolio</Button>
+              </Link>
+            </div>
           </div>
         </div>
-      </div>
+      </RedirectGuard>
     );
   }
 
@@ -71,6 +77,7 @@ const ProjectDetail = () => {
         description={contentText}
         type="article"
         keywords={[project.title.toLowerCase(), 'portfolio', 'web design']}
+        locales={locales}
       />
       
       <div className="min-h-screen bg-agenko-dark">
@@ -9,15 +9,18 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { AutoBreadcrumb } from '@/components/ui/breadcrumb';
 import { ArrowLeft, CheckCircle } from 'lucide-react';
+import { RedirectGuard } from '@/components/RedirectGuard';
+import { useTranslatedEntity } from '@/hooks/useTranslations';
 
 const ServiceDetail = () => {
   const { slug } = useParams<{ slug: string }>();
   
-  const { data: service, isLoading } = useQuery({
+  const { data: sourceService, isLoading } = useQuery({
     queryKey: ['service', slug],
     queryFn: () => cms.getServiceBySlug(slug!),
     enabled: !!slug,
   });
+  const { data: service, locales } = useTranslatedEntity('service', sourceService);
 
   if (isLoading) {
     return (
@@ -40,20 +43,22 @@ const ServiceDetail = () => {
 
   if (!service) {
     return (
-      <div className="min-h-screen bg-agenko-dark">
-        <GlobalNavigation overlay={false} />
-        <div className="pt-24 px-4">
-          <div className="max-w-4xl mx-auto text-center">
-            <h1 className="text-4xl font-bold text-agenko-white mb-4">Service Not Found</h1>
-            <p className="text-agenko-gray-light mb-8">The service you're looking for doesn't exist.</p>
-            <Link to="/services">
-              <Button variant="cta">
-                Back to Services
-              </Button>
-            </Link>
+      <RedirectGuard>
+        <div className="min-h-screen bg-agenko-dark">
+          <GlobalNavigation overlay={false} />
+          <div className="pt-24 px-4">
+            <div className="max-w-4xl mx-auto text-center">
+              <h1 className="text-4xl font-bold text-agenko-white mb-4">Service Not Found</h1>
+              <p className="text-agenko-gray-light mb-8">The service you're looking for doesn't exist.</p>
+              <Link to="/services">
+                <Button variant="cta">
+                  Back to Services
+                </Button>
+              </Link>
+            </div>
           </div>
         </div>
-      </div>
+      </RedirectGuard>
     );
   }
 
@@ -66,6 +71,7 @@ const ServiceDetail = () => {
         description={contentText}
         type="service"
         keywords={['technology solutions', service.title.toLowerCase(), 'devmart services']}
+        locales={locales}
       />
       
       <div className="min-h-screen bg-agenko-dark">
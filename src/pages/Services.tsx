@@ -12,12 +12,14 @@ import { ServiceFilters } from '@/components/ui/ServiceFilters';
 import { ScrollReveal } from '@/components/ui/ScrollReveal';
 import { Building, Zap, Palette, Target, Globe, Smartphone, Code, Cpu, Rocket } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { useTranslatedList } from '@/hooks/useTranslations';
 
 const Services = () => {
-  const { data: services = [] } = useQuery({
+  const { data: sourceServices = [] } = useQuery({
     queryKey: ['published-services'],
     queryFn: cms.getPublishedServices,
   });
+  const services = useTranslatedList('service', sourceServices);
 
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
-import { cms } from '@/lib/cms';
+import { cms, buildPagePath } from '@/lib/cms';
 import { supabase } from '@/integrations/supabase/client';
+import { getTagPath } from '@/lib/tags';
 
 interface SitemapUrl {
   loc: string;
@@ -67,6 +68,39 @@ const Sitemap = () => {
           });
         });
 
+        // Blog authors
+        const { data: authors } = await supabase
+          .from('blog_authors')
+          .select('slug, updated_at')
+          .eq('status', 'published');
+
+        authors?.forEach(author => {
+          urls.push({
+            loc: `${baseUrl}/blog/author/${author.slug}`,
+            lastmod: new Date(author.updated_at).toISOString().split('T')[0],
+            changefreq: 'weekly',
+            priority: '0.5'
+          });
+        });
+
+        // Blog tags, dated by their most recently updated post
+        const tagLastmod = new Map<string, string>();
+        blogPosts.forEach(post => {
+          const lastmod = new Date(post.updated_at || post.published_at || post.created_at).toISOString().split('T')[0];
+          post.tags?.forEach(tag => {
+            if (!tagLastmod.has(tag) || tagLastmod.get(tag)! < lastmod) tagLastmod.set(tag, lastmod);
+          });
+        });
+
+        tagLastmod.forEach((lastmod, tag) => {
+          urls.push({
+            loc: `${baseUrl}${getTagPath(tag)}`,
+            lastmod,
+            changefreq: 'weekly',
+            priority: '0.4'
+          });
+        });
+
         // Projects
         const projects = await cms.getPublishedProjects();
         projects.forEach(project => {
@@ -89,6 +123,19 @@ const Sitemap = () => {
           });
         });
 
+        // CMS pages (nested pages follow their parent chain)
+        const pages = await cms.getPublishedPages();
+        pages.forEach(page => {
+          const loc = `${baseUrl}/${buildPagePath(page, pages)}`;
+          if (page.slug === 'home' || urls.some(url => url.loc === loc)) return;
+          urls.push({
+            loc,
+            lastmod: new Date(page.updated_at || page.published_at || page.created_at).toISOString().split('T')[0],
+            changefreq: 'monthly',
+            priority: '0.6'
+          });
+        });
+
       } catch (error) {
         console.error('Error generating sitemap:', error);
       }
@@ -17,6 +17,9 @@ import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, Tag, FileText } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
+import { BlogImportDialog } from '@/components/admin/blog/BlogImportDialog';
 
 function AdminBlog() {
   const { isAdmin, isEditor } = useAuth();
@@ -69,7 +72,9 @@ function AdminBlog() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(post => post.status === statusFilter);
+      filtered = filtered.filter(post =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(post) : post.status === statusFilter
+      );
     }
 
     if (tagFilter !== 'all') {
@@ -154,12 +159,15 @@ function AdminBlog() {
             <p className="text-muted-foreground">Manage your blog content</p>
           </div>
           
-          <Link to="/admin/blog/new">
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              New Post
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <BlogImportDialog existingPosts={posts} onImported={fetchPosts} />
+            <Link to="/admin/blog/new">
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Post
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Filters */}
@@ -187,6 +195,7 @@ function AdminBlog() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={tagFilter} onValueChange={setTagFilter}>
@@ -245,6 +254,7 @@ function AdminBlog() {
                           <Badge variant={getStatusBadgeVariant(post.status)}>
                             {post.status}
                           </Badge>
+                          <ScheduleBadge item={post} />
                         </div>
                         <p className="text-sm text-muted-foreground">/blog/{post.slug}</p>
                         {post.excerpt && (
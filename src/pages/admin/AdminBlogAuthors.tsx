@@ -0,0 +1,491 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { adminCms } from '@/lib/admin-cms';
+import { generateSlug, ensureUniqueSlug, formatDate, getStatusBadgeVariant } from '@/lib/admin-utils';
+import { BLOG_AUTHOR_SOCIAL_NETWORKS, getAuthorInitials, normalizeSocialLinks } from '@/lib/authors';
+import { MediaPicker } from '@/components/media/MediaPicker';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Plus, Pencil, Trash2, Upload } from 'lucide-react';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import type { BlogAuthor, BlogAuthorSocialLinks } from '@/types/content';
+
+// Select items cannot have an empty value
+const GUEST_AUTHOR = 'guest';
+
+const EMPTY_FORM = {
+  name: '',
+  slug: '',
+  job_title: '',
+  bio: '',
+  avatar_url: '',
+  social_links: {} as BlogAuthorSocialLinks,
+  profile_id: GUEST_AUTHOR,
+  status: 'published' as 'draft' | 'published'
+};
+
+function toAuthorData(form: typeof EMPTY_FORM) {
+  return {
+    name: form.name.trim(),
+    slug: form.slug || generateSlug(form.name),
+    job_title: form.job_title.trim() || null,
+    bio: form.bio.trim() || null,
+    avatar_url: form.avatar_url || null,
+    social_links: normalizeSocialLinks(form.social_links),
+    profile_id: form.profile_id === GUEST_AUTHOR ? null : form.profile_id,
+    status: form.status
+  };
+}
+
+function AdminBlogAuthors() {
+  const { isEditor, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [showMediaPicker, setShowMediaPicker] = useState(false);
+  const [editingAuthor, setEditingAuthor] = useState<BlogAuthor | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const saveConflict = useSaveConflict();
+
+  const { data: authors = [], isLoading } = useQuery({
+    queryKey: ['admin', 'blog-authors'],
+    queryFn: () => adminCms.getAllBlogAuthors()
+  });
+
+  // Only admins can list users; editors can still manage guest authors and existing links
+  const { data: profiles = [] } = useQuery({
+    queryKey: ['admin', 'profiles'],
+    queryFn: () => adminCms.getAllProfiles(),
+    enabled: isAdmin
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (author: Omit<BlogAuthor, 'id' | 'created_at' | 'updated_at'>) =>
+      adminCms.createBlogAuthor(author),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'blog-authors'] });
+      toast.success('Author created successfully');
+      handleDialogClose();
+    },
+    onError: (error) => {
+      toast.error('Failed to create author: ' + error.message);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, expectedUpdatedAt, ...updates }: { id: string; expectedUpdatedAt?: string } & Partial<BlogAuthor>) =>
+      adminCms.updateBlogAuthor(id, updates, expectedUpdatedAt),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'blog-authors'] });
+      toast.success('Author updated successfully');
+      handleDialogClose();
+    },
+    onError: (error) => {
+      if (saveConflict.capture(error)) return;
+      toast.error('Failed to update author: ' + error.message);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => adminCms.deleteBlogAuthor(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'blog-authors'] });
+      toast.success('Author deleted successfully');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete author: ' + error.message);
+    }
+  });
+
+  if (!isEditor) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need editor permissions to manage blog authors.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const getProfileEmail = (profileId?: string | null) =>
+    profiles.find(profile => profile.id === profileId)?.email;
+
+  // Users that do not have an author profile yet, plus the one being edited
+  const linkableProfiles = profiles.filter(profile =>
+    profile.id === editingAuthor?.profile_id || !authors.some(author => author.profile_id === profile.id)
+  );
+
+  const handleNameChange = async (name: string) => {
+    setFormData(prev => ({ ...prev, name }));
+
+    if (name && !editingAuthor) {
+      const baseSlug = generateSlug(name);
+      const uniqueSlug = await ensureUniqueSlug('blog_authors', baseSlug);
+      setFormData(prev => ({ ...prev, slug: uniqueSlug }));
+    }
+  };
+
+  const handleSocialLinkChange = (network: keyof BlogAuthorSocialLinks, url: string) => {
+    setFormData(prev => ({ ...prev, social_links: { ...prev.social_links, [network]: url } }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveAuthor();
+  };
+
+  const saveAuthor = async (expectedUpdatedAt = editingAuthor?.updated_at) => {
+    if (!formData.name.trim()) {
+      toast.error('Author name is required');
+      return;
+    }
+
+    const authorData = toAuthorData(formData);
+    const invalidLink = BLOG_AUTHOR_SOCIAL_NETWORKS.find(({ value }) => formData.social_links[value]?.trim() && !authorData.social_links[value]);
+    if (invalidLink) {
+      toast.error(`${invalidLink.label} must be a full URL starting with https://`);
+      return;
+    }
+
+    try {
+      if (editingAuthor) {
+        await updateMutation.mutateAsync({
+          id: editingAuthor.id,
+          expectedUpdatedAt,
+          ...authorData
+        });
+      } else {
+        await createMutation.mutateAsync(authorData);
+      }
+    } catch (error) {
+      console.error('Error saving author:', error);
+    }
+  };
+
+  const loadAuthor = (author: BlogAuthor) => {
+    setEditingAuthor(author);
+    setFormData({
+      name: author.name,
+      slug: author.slug,
+      job_title: author.job_title || '',
+      bio: author.bio || '',
+      avatar_url: author.avatar_url || '',
+      social_links: author.social_links,
+      profile_id: author.profile_id || GUEST_AUTHOR,
+      status: author.status
+    });
+  };
+
+  const handleEdit = (author: BlogAuthor) => {
+    loadAuthor(author);
+    saveConflict.setBase(author);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this author? Their posts will no longer credit them. This action cannot be undone.')) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingAuthor(null);
+    saveConflict.dismiss();
+    setFormData(EMPTY_FORM);
+  };
+
+  return (
+    <>
+      <div className="p-6 border-b border-border bg-background/95 backdrop-blur">
+        <h1 className="text-2xl font-bold text-foreground">Blog Authors</h1>
+        <p className="text-muted-foreground mt-1">Manage the people credited on blog posts</p>
+      </div>
+
+      <div className="p-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Authors</CardTitle>
+                <CardDescription>
+                  Team members linked to a user account, or guest authors
+                </CardDescription>
+              </div>
+
+              <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : handleDialogClose())}>
+                <DialogTrigger asChild>
+                  <Button onClick={() => setIsDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Author
+                  </Button>
+                </DialogTrigger>
+
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingAuthor ? 'Edit Author' : 'Create New Author'}
+                    </DialogTitle>
+                    <DialogDescription>
+                      {editingAuthor ? 'Update the author profile below.' : 'Add a person who writes for the blog.'}
+                    </DialogDescription>
+                  </DialogHeader>
+
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="flex items-center gap-4">
+                      <Avatar className="h-16 w-16">
+                        {formData.avatar_url && <AvatarImage src={formData.avatar_url} alt="" />}
+                        <AvatarFallback>{getAuthorInitials(formData.name) || '?'}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setShowMediaPicker(true)}>
+                          <Upload className="h-4 w-4 mr-1" />
+                          {formData.avatar_url ? 'Change Photo' : 'Add Photo'}
+                        </Button>
+                        {formData.avatar_url && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => setFormData(prev => ({ ...prev, avatar_url: '' }))}>
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="name">Name *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => handleNameChange(e.target.value)}
+                        placeholder="Full name"
+                        required
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="slug">Slug</Label>
+                      <Input
+                        id="slug"
+                        value={formData.slug}
+                        onChange={(e) => setFormData(prev => ({ ...prev, slug: e.target.value }))}
+                        placeholder="author-slug"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="job_title">Job title</Label>
+                      <Input
+                        id="job_title"
+                        value={formData.job_title}
+                        onChange={(e) => setFormData(prev => ({ ...prev, job_title: e.target.value }))}
+                        placeholder="e.g. Lead Engineer"
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="bio">Bio</Label>
+                      <Textarea
+                        id="bio"
+                        value={formData.bio}
+                        onChange={(e) => setFormData(prev => ({ ...prev, bio: e.target.value }))}
+                        placeholder="A short introduction shown on posts and the author page"
+                        rows={3}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Social links</Label>
+                      {BLOG_AUTHOR_SOCIAL_NETWORKS.map(network => (
+                        <div key={network.value} className="grid grid-cols-3 items-center gap-2">
+                          <Label htmlFor={`social-${network.value}`} className="text-sm text-muted-foreground">
+                            {network.label}
+                          </Label>
+                          <Input
+                            id={`social-${network.value}`}
+                            className="col-span-2"
+                            type="url"
+                            value={formData.social_links[network.value] || ''}
+                            onChange={(e) => handleSocialLinkChange(network.value, e.target.value)}
+                            placeholder={network.placeholder}
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div>
+                      <Label htmlFor="profile_id">User account</Label>
+                      <Select
+                        value={formData.profile_id}
+                        onValueChange={(profileId) => setFormData(prev => ({ ...prev, profile_id: profileId }))}
+                        disabled={!isAdmin}
+                      >
+                        <SelectTrigger id="profile_id">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={GUEST_AUTHOR}>Guest author (no account)</SelectItem>
+                          {linkableProfiles.map(profile => (
+                            <SelectItem key={profile.id} value={profile.id}>{profile.email}</SelectItem>
+                          ))}
+                          {!isAdmin && formData.profile_id !== GUEST_AUTHOR && (
+                            <SelectItem value={formData.profile_id}>Linked user</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Linked users are added as the author of posts they create.
+                      </p>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="status">Status</Label>
+                      <Select
+                        value={formData.status}
+                        onValueChange={(status: 'draft' | 'published') =>
+                          setFormData(prev => ({ ...prev, status }))
+                        }
+                      >
+                        <SelectTrigger id="status">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="draft">Hidden</SelectItem>
+                          <SelectItem value="published">Published</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleDialogClose}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        type="submit"
+                        disabled={createMutation.isPending || updateMutation.isPending}
+                      >
+                        {createMutation.isPending || updateMutation.isPending ? 'Saving...' : 'Save'}
+                      </Button>
+                    </div>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div>Loading authors...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Slug</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {authors.map((author) => (
+                    <TableRow key={author.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <Avatar className="h-8 w-8">
+                            {author.avatar_url && <AvatarImage src={author.avatar_url} alt="" />}
+                            <AvatarFallback className="text-xs">{getAuthorInitials(author.name)}</AvatarFallback>
+                          </Avatar>
+                          <div>
+                            <div className="font-medium">{author.name}</div>
+                            {author.job_title && <div className="text-xs text-muted-foreground">{author.job_title}</div>}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{author.slug}</TableCell>
+                      <TableCell>
+                        {author.profile_id ? (
+                          <span className="text-sm">{getProfileEmail(author.profile_id) || 'Linked user'}</span>
+                        ) : (
+                          <Badge variant="outline">Guest</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusBadgeVariant(author.status)}>
+                          {author.status === 'draft' ? 'hidden' : author.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatDate(author.updated_at)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(author)}
+                            aria-label={`Edit ${author.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(author.id)}
+                              className="text-destructive hover:text-destructive"
+                              aria-label={`Delete ${author.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {authors.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        No authors yet. Posts without authors are credited to Devmart.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <MediaPicker
+        open={showMediaPicker}
+        onOpenChange={setShowMediaPicker}
+        onSelect={(media) => setFormData(prev => ({ ...prev, avatar_url: media.url }))}
+        uploadPath="blog/authors/"
+      />
+
+      {editingAuthor && (
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={{ ...editingAuthor, ...toAuthorData(formData) }}
+          onResolve={loadAuthor}
+          onOverwrite={saveAuthor}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminBlogAuthors;
@@ -16,6 +16,8 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from 'sonner';
 import { Plus, Pencil, Trash2, Palette } from 'lucide-react';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
 import type { BlogCategory } from '@/types/content';
 
 const CATEGORY_COLORS = [
@@ -28,6 +30,7 @@ function AdminBlogCategories() {
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<BlogCategory | null>(null);
+  const saveConflict = useSaveConflict();
   
   const [formData, setFormData] = useState({
     name: '',
@@ -56,14 +59,15 @@ function AdminBlogCategories() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, ...updates }: { id: string } & Partial<BlogCategory>) =>
-      adminCms.updateBlogCategory(id, updates),
+    mutationFn: ({ id, expectedUpdatedAt, ...updates }: { id: string; expectedUpdatedAt?: string } & Partial<BlogCategory>) =>
+      adminCms.updateBlogCategory(id, updates, expectedUpdatedAt),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin', 'blog-categories'] });
       toast.success('Category updated successfully');
       handleDialogClose();
     },
     onError: (error) => {
+      if (saveConflict.capture(error)) return;
       toast.error('Failed to update category: ' + error.message);
     }
   });
@@ -100,9 +104,12 @@ function AdminBlogCategories() {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+    saveCategory();
+  };
+
+  const saveCategory = async (expectedUpdatedAt = editingCategory?.updated_at) => {
     if (!formData.name.trim()) {
       toast.error('Category name is required');
       return;
@@ -120,6 +127,7 @@ function AdminBlogCategories() {
       if (editingCategory) {
         await updateMutation.mutateAsync({
           id: editingCategory.id,
+          expectedUpdatedAt,
           ...categoryData
         });
       } else {
@@ -130,7 +138,7 @@ function AdminBlogCategories() {
     }
   };
 
-  const handleEdit = (category: BlogCategory) => {
+  const loadCategory = (category: BlogCategory) => {
     setEditingCategory(category);
     setFormData({
       name: category.name,
@@ -139,6 +147,11 @@ function AdminBlogCategories() {
       color: category.color,
       status: category.status
     });
+  };
+
+  const handleEdit = (category: BlogCategory) => {
+    loadCategory(category);
+    saveConflict.setBase(category);
     setIsDialogOpen(true);
   };
 
@@ -151,6 +164,7 @@ function AdminBlogCategories() {
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingCategory(null);
+    saveConflict.dismiss();
     setFormData({
       name: '',
       slug: '',
@@ -347,6 +361,15 @@ function AdminBlogCategories() {
           </CardContent>
         </Card>
       </div>
+
+      {editingCategory && (
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={{ ...editingCategory, ...formData }}
+          onResolve={loadCategory}
+          onOverwrite={saveCategory}
+        />
+      )}
     </>
   );
 }
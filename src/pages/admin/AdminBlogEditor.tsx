@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -18,14 +18,36 @@ import { TagInput } from '@/components/admin/TagInput';
 import { SEOEditor, SEOData } from '@/components/admin/SEOEditor';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { CategorySelector } from '@/components/admin/CategorySelector';
+import { AuthorSelector } from '@/components/admin/AuthorSelector';
 import { MediaPicker } from '@/components/media/MediaPicker';
+import { RevisionHistory } from '@/components/admin/revisions/RevisionHistory';
+import { PreviewLinksCard } from '@/components/admin/PreviewLinksCard';
 import { ArrowLeft, Save, Eye, Image, Upload } from 'lucide-react';
+import { WorkflowPanel } from '@/components/admin/workflow/WorkflowPanel';
+import { useEditorialWorkflow } from '@/hooks/useEditorialWorkflow';
+import { getWorkflowState, getWorkflowStatusUpdate } from '@/lib/workflow';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useAutosave } from '@/hooks/useAutosave';
+import { RestoreDraftBanner } from '@/components/admin/editing/RestoreDraftBanner';
+import { AutosaveIndicator } from '@/components/admin/editing/AutosaveIndicator';
+import { BlockEditor } from '@/components/admin/blocks/BlockEditor';
+import { BlockContent } from '@/components/blog/BlockContent';
+import { getBlockIssuesById, normalizeBlogBody } from '@/lib/blocks/schema';
+import { MAX_TAG_LENGTH, normalizeTag, normalizeTags } from '@/lib/tags';
 
 function AdminBlogEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { isEditor } = useAuth();
+  const { user, isEditor } = useAuth();
+  const workflow = useEditorialWorkflow();
   const isEditing = id !== 'new' && isValidUUID(id || '');
+  const editLock = useEditLock('blog_post', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
 
   const [post, setPost] = useState<Partial<BlogPost>>({
     title: '',
@@ -43,9 +65,22 @@ function AdminBlogEditor() {
     seo_schema_type: 'Article',
   });
   const [selectedCategoryIds, setSelectedCategoryIds] = useState<string[]>([]);
+  const [selectedAuthorIds, setSelectedAuthorIds] = useState<string[]>([]);
+  const [existingTags, setExistingTags] = useState<string[]>([]);
   const [showMediaPicker, setShowMediaPicker] = useState(false);
   const [loading, setLoading] = useState(isEditing);
   const [saving, setSaving] = useState(false);
+  const editorState = useMemo(
+    () => ({ post, categoryIds: selectedCategoryIds, authorIds: selectedAuthorIds }),
+    [post, selectedCategoryIds, selectedAuthorIds],
+  );
+  const autosave = useAutosave({
+    entityType: 'blog_post',
+    entityKey: isEditing ? id! : 'new',
+    value: editorState,
+    ready: !loading && (!isEditing || post.id === id),
+    baseUpdatedAt: post.updated_at,
+  });
 
   useEffect(() => {
     if (isEditing && id && isValidUUID(id)) {
@@ -53,15 +88,23 @@ function AdminBlogEditor() {
     }
   }, [id, isEditing]);
 
+  useEffect(() => {
+    adminCms.getBlogTagUsage()
+      .then(usage => setExistingTags(usage.map(({ tag }) => tag)))
+      .catch(error => console.error('Error fetching tags:', error));
+  }, []);
+
   const fetchPost = async (postId: string) => {
     try {
       const data = await adminCms.getBlogPost(postId);
       setPost(data);
+      saveConflict.setBase(data);
       
       // Set categories if they exist
       if (data.categories) {
         setSelectedCategoryIds(data.categories.map(cat => cat.id));
       }
+      setSelectedAuthorIds((data.authors || []).map(author => author.id));
     } catch (error) {
       console.error('Error fetching blog post:', error);
       if (error instanceof Error && error.message.includes('permission')) {
@@ -75,6 +118,16 @@ function AdminBlogEditor() {
     }
   };
 
+  const restoreDraft = () => {
+    const draft = autosave.restore();
+    if (!draft) return;
+    // Keep the loaded version so saving still checks for changes made by others
+    setPost(prev => ({ ...draft.post, id: prev.id, updated_at: prev.updated_at }));
+    setSelectedCategoryIds(draft.categoryIds);
+    // Drafts saved before posts had authors do not carry them
+    if (draft.authorIds) setSelectedAuthorIds(draft.authorIds);
+  };
+
   const handleTitleChange = async (title: string) => {
     setPost(prev => ({ ...prev, title }));
     
@@ -85,12 +138,25 @@ function AdminBlogEditor() {
     }
   };
 
-  const handleSave = async () => {
+  const handleSave = async (expectedUpdatedAt = post.updated_at) => {
     if (!post.title?.trim()) {
       adminToast.validationError('Title is required');
       return;
     }
 
+    const scheduleIssue = getScheduleIssue(post.publish_at, post.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
+    const body = normalizeBlogBody(post.body);
+    const blockIssueCount = Object.keys(getBlockIssuesById(body.blocks)).length;
+    if (blockIssueCount > 0) {
+      adminToast.validationError(`${blockIssueCount} content block${blockIssueCount === 1 ? ' needs' : 's need'} fixing before saving`);
+      return;
+    }
+
     setSaving(true);
     try {
       const slug = await ensureUniqueSlug('blog_posts', generateSlug(post.title), isEditing ? post.id : undefined);
@@ -98,11 +164,13 @@ function AdminBlogEditor() {
         title: post.title!,
         slug,
         excerpt: post.excerpt || '',
-        body: post.body || {},
-        tags: post.tags || [],
+        body,
+        tags: normalizeTags(post.tags),
         status: post.status!,
         feature_image_url: post.feature_image_url || '',
         published_at: post.status === 'published' && !post.published_at ? new Date().toISOString() : post.published_at,
+        publish_at: post.publish_at ?? null,
+        unpublish_at: post.unpublish_at ?? null,
         seo_title: post.seo_title,
         seo_description: post.seo_description,
         seo_canonical_url: post.seo_canonical_url,
@@ -112,14 +180,21 @@ function AdminBlogEditor() {
       };
 
       if (isEditing) {
-        await adminCms.updateBlogPost(post.id!, postData, selectedCategoryIds);
+        const saved = await adminCms.updateBlogPost(post.id!, postData, selectedCategoryIds, expectedUpdatedAt);
+        await adminCms.assignBlogPostAuthors(saved.id, selectedAuthorIds);
+        setPost(prev => ({ ...prev, updated_at: saved.updated_at }));
+        saveConflict.setBase(saved);
+        autosave.markSaved(editorState);
         adminToast.updated('Blog Post', post.title);
       } else {
         const newPost = await adminCms.createBlogPost(postData, selectedCategoryIds);
+        await adminCms.assignBlogPostAuthors(newPost.id, selectedAuthorIds);
+        autosave.markSaved(editorState);
         adminToast.created('Blog Post', post.title);
         navigate(`/admin/blog/${newPost.id}/edit`);
       }
     } catch (error) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving blog post:', error);
       if (error instanceof Error && error.message.includes('permission')) {
         adminToast.permissionDenied('save blog posts');
@@ -191,6 +266,7 @@ function AdminBlogEditor() {
           </div>
           
           <div className="flex items-center space-x-2">
+            <AutosaveIndicator {...autosave} />
             {post.status === 'published' && post.slug && (
               <Button variant="outline" asChild>
                 <a href={`/blog/${post.slug}`} target="_blank" rel="noopener noreferrer">
@@ -199,17 +275,27 @@ function AdminBlogEditor() {
                 </a>
               </Button>
             )}
-            <Button onClick={handleSave} disabled={saving}>
+            <Button onClick={() => handleSave()} disabled={saving || editLock.lockedByOther}>
               <Save className="h-4 w-4 mr-2" />
               {saving ? 'Saving...' : 'Save Post'}
             </Button>
           </div>
         </div>
 
+        <EditLockBanner {...editLock} />
+
+        <RestoreDraftBanner
+          draft={autosave.recoverable}
+          currentUpdatedAt={post.updated_at}
+          onRestore={restoreDraft}
+          onDiscard={autosave.discard}
+        />
+
         <Tabs defaultValue="content" className="space-y-6">
           <TabsList>
             <TabsTrigger value="content">Content</TabsTrigger>
             <TabsTrigger value="seo">SEO</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
 
           <TabsContent value="content">
@@ -270,68 +356,116 @@ function AdminBlogEditor() {
                     </div>
 
                     <div>
-                      <Label htmlFor="blog-content">Content</Label>
-                      <Textarea
-                        id="blog-content"
-                        value={typeof post.body === 'object' ? JSON.stringify(post.body, null, 2) : ''}
-                        onChange={(e) => {
-                          try {
-                            const parsed = JSON.parse(e.target.value || '{}');
-                            setPost(prev => ({ ...prev, body: parsed }));
-                          } catch {
-                            // Invalid JSON, keep as is for now
-                          }
-                        }}
-                        placeholder="Blog post content (JSON format)"
-                        rows={15}
-                        className="font-mono text-sm"
+                      <Label>Tags</Label>
+                      <TagInput
+                        tags={post.tags || []}
+                        onTagsChange={(tags) => setPost(prev => ({ ...prev, tags }))}
+                        suggestions={existingTags}
+                        normalize={normalizeTag}
+                        maxTagLength={MAX_TAG_LENGTH}
                         disabled={saving}
-                        aria-describedby="content-help"
+                        placeholder="Add tags (press Enter)"
+                        aria-label="Add blog post tags"
+                        aria-describedby="tags-help"
                       />
-                      <p id="content-help" className="text-sm text-muted-foreground mt-1">
-                        Rich content in JSON format (future rich text editor)
+                      <p id="tags-help" className="text-sm text-muted-foreground mt-1">
+                        Saved in lowercase with dashes, so "React Native" becomes "react-native". Pick an existing tag where one fits.
                       </p>
                     </div>
+
+                    <div className="space-y-2">
+                      <Label id="blog-content-label">Content</Label>
+                      <Tabs defaultValue="write" aria-labelledby="blog-content-label">
+                        <TabsList>
+                          <TabsTrigger value="write">Write</TabsTrigger>
+                          <TabsTrigger value="preview">Preview</TabsTrigger>
+                        </TabsList>
+                        <TabsContent value="write">
+                          <BlockEditor
+                            body={post.body}
+                            onChange={(body) => setPost(prev => ({ ...prev, body }))}
+                            disabled={saving}
+                          />
+                        </TabsContent>
+                        <TabsContent value="preview">
+                          <div className="rounded-lg bg-agenko-dark p-6">
+                            <BlockContent body={post.body} />
+                          </div>
+                        </TabsContent>
+                      </Tabs>
+                    </div>
                   </CardContent>
                 </Card>
               </div>
 
               {/* Sidebar */}
               <div className="space-y-6">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Publishing</CardTitle>
-                    <CardDescription>Control post visibility</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div>
-                      <Label htmlFor="blog-status">Status</Label>
-                      <Select value={post.status} onValueChange={(value) => setPost(prev => ({ ...prev, status: value as 'draft' | 'published' }))}>
-                        <SelectTrigger id="blog-status">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="draft">Draft</SelectItem>
-                          <SelectItem value="published">Published</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                {workflow.enabled ? (
+                  <WorkflowPanel
+                    entityType="blog_post"
+                    entityId={isEditing ? post.id : undefined}
+                    state={getWorkflowState(post)}
+                    onTransition={(state, updatedAt) => setPost(prev => ({ ...prev, ...getWorkflowStatusUpdate(state, prev), updated_at: updatedAt ?? prev.updated_at }))}
+                    disabled={saving}
+                  />
+                ) : (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Publishing</CardTitle>
+                      <CardDescription>Control post visibility</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <Label htmlFor="blog-status">Status</Label>
+                        <Select value={post.status} onValueChange={(value) => setPost(prev => ({ ...prev, status: value as 'draft' | 'published' }))}>
+                          <SelectTrigger id="blog-status">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="draft">Draft</SelectItem>
+                            <SelectItem value="published">Published</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                    <div className="pt-4 border-t">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium">Current Status</span>
-                        <Badge variant={post.status === 'published' ? 'default' : 'secondary'}>
-                          {post.status}
-                        </Badge>
+                      <div className="pt-4 border-t">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">Current Status</span>
+                          <Badge variant={post.status === 'published' ? 'default' : 'secondary'}>
+                            {post.status}
+                          </Badge>
+                        </div>
+                        {post.published_at && (
+                          <p className="text-sm text-muted-foreground mt-2">
+                            Published {new Date(post.published_at).toLocaleDateString()}
+                          </p>
+                        )}
                       </div>
-                      {post.published_at && (
-                        <p className="text-sm text-muted-foreground mt-2">
-                          Published {new Date(post.published_at).toLocaleDateString()}
-                        </p>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <ScheduleCard
+                  idPrefix="blog"
+                  value={post}
+                  isLive={post.status === 'published'}
+                  onChange={(schedule) => setPost(prev => ({ ...prev, ...schedule }))}
+                  disabled={saving}
+                />
+
+                <PreviewLinksCard
+                  entityType="blog_post"
+                  entityId={isEditing ? post.id : undefined}
+                  path={`/blog/${post.slug}`}
+                  disabled={saving}
+                />
+
+                <AuthorSelector
+                  selectedAuthorIds={selectedAuthorIds}
+                  onAuthorChange={setSelectedAuthorIds}
+                  defaultProfileId={isEditing ? undefined : user?.id}
+                  disabled={saving}
+                />
 
                 <CategorySelector
                   selectedCategoryIds={selectedCategoryIds}
@@ -416,6 +550,19 @@ function AdminBlogEditor() {
               disabled={saving}
             />
           </TabsContent>
+
+          <TabsContent value="history">
+            <RevisionHistory
+              entityType="blog_post"
+              entityId={isEditing ? post.id : undefined}
+              updatedAt={post.updated_at}
+              onRestored={(body, saved) => {
+                setPost(prev => ({ ...prev, body, updated_at: saved.updated_at }));
+                saveConflict.setBase(saved);
+              }}
+              disabled={saving}
+            />
+          </TabsContent>
         </Tabs>
 
         <MediaPicker
@@ -428,6 +575,13 @@ function AdminBlogEditor() {
           uploadPath="blog/"
         />
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={post}
+        onResolve={setPost}
+        onOverwrite={handleSave}
+      />
     </>
   );
 }
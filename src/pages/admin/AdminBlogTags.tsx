@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { adminCms } from '@/lib/admin-cms';
+import { findSimilarTags, getTagPath, normalizeTag } from '@/lib/tags';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ExternalLink, GitMerge, Pencil, Search, Trash2 } from 'lucide-react';
+
+function AdminBlogTags() {
+  const { isEditor } = useAuth();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  // Tags being renamed (one) or merged (several) in the dialog
+  const [rewriteFrom, setRewriteFrom] = useState<string[] | null>(null);
+  const [rewriteTo, setRewriteTo] = useState('');
+
+  const { data: tags = [], isLoading } = useQuery({
+    queryKey: ['admin', 'blog-tags'],
+    queryFn: () => adminCms.getBlogTagUsage()
+  });
+
+  const rewriteMutation = useMutation({
+    mutationFn: ({ from, to }: { from: string[]; to: string | null }) =>
+      adminCms.rewriteBlogTags(from, to),
+    onSuccess: (count, { to }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'blog-tags'] });
+      toast.success(`${to === null ? 'Removed tag from' : 'Updated tags on'} ${count} ${count === 1 ? 'post' : 'posts'}`);
+      setSelectedTags([]);
+      handleDialogClose();
+    },
+    onError: (error) => {
+      toast.error('Failed to update tags: ' + error.message);
+    }
+  });
+
+  if (!isEditor) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need editor permissions to manage blog tags.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const similarGroups = findSimilarTags(tags);
+  const query = normalizeTag(search);
+  const visibleTags = query ? tags.filter(({ tag }) => tag.includes(query)) : tags;
+  const target = normalizeTag(rewriteTo);
+  const isMerge = (rewriteFrom?.length ?? 0) > 1;
+
+  const openRewrite = (from: string[], to = from[0]) => {
+    setRewriteFrom(from);
+    setRewriteTo(to);
+  };
+
+  const handleDialogClose = () => {
+    setRewriteFrom(null);
+    setRewriteTo('');
+  };
+
+  const handleRewrite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rewriteFrom) return;
+
+    if (!target) {
+      toast.error('Tag name is required');
+      return;
+    }
+    if (rewriteFrom.length === 1 && rewriteFrom[0] === target) {
+      handleDialogClose();
+      return;
+    }
+
+    rewriteMutation.mutate({ from: rewriteFrom, to: target });
+  };
+
+  const handleDelete = (tag: string, postCount: number) => {
+    if (window.confirm(`Remove "${tag}" from ${postCount} ${postCount === 1 ? 'post' : 'posts'}? This action cannot be undone.`)) {
+      rewriteMutation.mutate({ from: [tag], to: null });
+    }
+  };
+
+  const toggleSelected = (tag: string, checked: boolean) => {
+    setSelectedTags(prev => checked ? [...prev, tag] : prev.filter(t => t !== tag));
+  };
+
+  return (
+    <>
+      <div className="p-6 border-b border-border bg-background/95 backdrop-blur">
+        <h1 className="text-2xl font-bold text-foreground">Blog Tags</h1>
+        <p className="text-muted-foreground mt-1">Rename, merge and remove tags across all blog posts</p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {similarGroups.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Possible duplicates</CardTitle>
+              <CardDescription>
+                These tags look like spellings of the same thing. Merging keeps the posts and replaces the tags with one.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {similarGroups.map(group => (
+                <div key={group[0].tag} className="flex flex-wrap items-center gap-2">
+                  {group.map(({ tag, postCount }) => (
+                    <Badge key={tag} variant="secondary">
+                      {tag} <span className="ml-1 text-muted-foreground">{postCount}</span>
+                    </Badge>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openRewrite(group.map(({ tag }) => tag))}
+                    disabled={rewriteMutation.isPending}
+                  >
+                    <GitMerge className="h-4 w-4 mr-2" />
+                    Merge into "{group[0].tag}"
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <div>
+                <CardTitle>Tags</CardTitle>
+                <CardDescription>
+                  Every tag in use, with the number of posts that carry it
+                </CardDescription>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <div className="relative">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Filter tags"
+                    className="pl-8 w-48"
+                    aria-label="Filter tags"
+                  />
+                </div>
+                <Button
+                  onClick={() => openRewrite(selectedTags)}
+                  disabled={selectedTags.length < 2 || rewriteMutation.isPending}
+                >
+                  <GitMerge className="h-4 w-4 mr-2" />
+                  Merge selected{selectedTags.length > 1 ? ` (${selectedTags.length})` : ''}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div>Loading tags...</div>
+            ) : visibleTags.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {query ? `No tags match "${query}".` : 'No posts have tags yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"><span className="sr-only">Select</span></TableHead>
+                    <TableHead>Tag</TableHead>
+                    <TableHead>Posts</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead className="w-32">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleTags.map(({ tag, postCount, publishedCount }) => (
+                    <TableRow key={tag}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedTags.includes(tag)}
+                          onCheckedChange={(checked) => toggleSelected(tag, checked === true)}
+                          aria-label={`Select ${tag}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">{tag}</TableCell>
+                      <TableCell>{postCount}</TableCell>
+                      <TableCell>{publishedCount}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {publishedCount > 0 && (
+                            <Button variant="ghost" size="sm" asChild>
+                              <Link to={getTagPath(tag)} target="_blank" aria-label={`View ${tag} tag page`}>
+                                <ExternalLink className="h-4 w-4" />
+                              </Link>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openRewrite([tag])}
+                            aria-label={`Rename ${tag}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(tag, postCount)}
+                            className="text-destructive hover:text-destructive"
+                            aria-label={`Delete ${tag}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={rewriteFrom !== null} onOpenChange={(open) => !open && handleDialogClose()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{isMerge ? 'Merge Tags' : 'Rename Tag'}</DialogTitle>
+            <DialogDescription>
+              {isMerge
+                ? `Replaces ${rewriteFrom?.map(tag => `"${tag}"`).join(', ')} with a single tag on every post.`
+                : `Renames "${rewriteFrom?.[0]}" on every post. Renaming to an existing tag merges the two.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleRewrite} className="space-y-4">
+            <div>
+              <Label htmlFor="tag-name">{isMerge ? 'Merge into' : 'New name'} *</Label>
+              <Input
+                id="tag-name"
+                value={rewriteTo}
+                onChange={(e) => setRewriteTo(e.target.value)}
+                placeholder="tag-name"
+                required
+              />
+              {rewriteTo && target !== rewriteTo && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Saved as <span className="font-mono">{target || '(empty)'}</span>
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={handleDialogClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={rewriteMutation.isPending}>
+                {rewriteMutation.isPending ? 'Saving...' : isMerge ? 'Merge' : 'Rename'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default AdminBlogTags;
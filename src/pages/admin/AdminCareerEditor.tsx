@@ -12,6 +12,16 @@ import { generateSlug, ensureUniqueSlug, formatDate, getStatusBadgeVariant, isVa
 import { adminToast } from '@/lib/toast-utils';
 import { SEOHead } from '@/lib/seo';
 import { ArrowLeft, ExternalLink, Save, Eye, Plus, X } from 'lucide-react';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { adminCms } from '@/lib/admin-cms';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useAutosave } from '@/hooks/useAutosave';
+import { RestoreDraftBanner } from '@/components/admin/editing/RestoreDraftBanner';
+import { AutosaveIndicator } from '@/components/admin/editing/AutosaveIndicator';
 
 interface Job {
   id: string;
@@ -29,6 +39,8 @@ interface Job {
   email: string;
   status: string;
   published_at: string | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -43,6 +55,15 @@ export default function AdminCareerEditor() {
   const [saving, setSaving] = useState(false);
 
   const isEditing = id !== 'new';
+  const editLock = useEditLock('job', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
+  const autosave = useAutosave({
+    entityType: 'job',
+    entityKey: isEditing ? id! : 'new',
+    value: job,
+    ready: !loading && !authLoading && !!job && (!isEditing || job.id === id),
+    baseUpdatedAt: isEditing ? job?.updated_at : null,
+  });
 
   useEffect(() => {
     if (authLoading) return; // Wait for auth to load
@@ -84,6 +105,7 @@ export default function AdminCareerEditor() {
 
       if (error) throw error;
       setJob(data);
+      saveConflict.setBase(data);
     } catch (error) {
       console.error('Error fetching job:', error);
       adminToast.error('Failed to load job');
@@ -92,6 +114,13 @@ export default function AdminCareerEditor() {
     }
   };
 
+  const restoreDraft = () => {
+    const draft = autosave.restore();
+    if (!draft) return;
+    // Keep the loaded version so saving still checks for changes made by others
+    setJob(prev => ({ ...draft, id: prev?.id ?? draft.id, updated_at: prev?.updated_at ?? draft.updated_at }));
+  };
+
   const handleTitleChange = async (newTitle: string) => {
     if (!job) return;
 
@@ -107,12 +136,18 @@ export default function AdminCareerEditor() {
     });
   };
 
-  const handleSave = async () => {
+  const handleSave = async (expectedUpdatedAt = job?.updated_at) => {
     if (!job || !job.title.trim()) {
       adminToast.validationError('Title is required');
       return;
     }
 
+    const scheduleIssue = getScheduleIssue(job.publish_at, job.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
     try {
       const slug = await ensureUniqueSlug('jobs', job.slug || generateSlug(job.title), isEditing ? job.id : undefined);
@@ -127,15 +162,7 @@ export default function AdminCareerEditor() {
 
       let savedJob;
       if (isEditing) {
-        const { data, error } = await supabase
-          .from('jobs')
-          .update(jobData)
-          .eq('id', id)
-          .select()
-          .single();
-
-        if (error) throw error;
-        savedJob = data;
+        savedJob = await adminCms.updateJob(id!, jobData, expectedUpdatedAt);
         adminToast.updated('Job');
       } else {
         const { data, error } = await supabase
@@ -151,7 +178,10 @@ export default function AdminCareerEditor() {
       }
 
       setJob(savedJob);
+      saveConflict.setBase(savedJob);
+      autosave.markSaved(savedJob);
     } catch (error) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving job:', error);
       adminToast.error('Failed to save job');
     } finally {
@@ -247,6 +277,7 @@ export default function AdminCareerEditor() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <AutosaveIndicator {...autosave} />
             {job.status === 'open' && (
               <Button
                 variant="outline"
@@ -261,8 +292,8 @@ export default function AdminCareerEditor() {
               </Button>
             )}
             <Button
-              onClick={handleSave}
-              disabled={saving}
+              onClick={() => handleSave()}
+              disabled={saving || editLock.lockedByOther}
               className="flex items-center gap-2"
             >
               <Save className="h-4 w-4" />
@@ -271,6 +302,16 @@ export default function AdminCareerEditor() {
           </div>
         </div>
 
+        <EditLockBanner {...editLock} className="mb-6" />
+
+        <RestoreDraftBanner
+          draft={autosave.recoverable}
+          currentUpdatedAt={isEditing ? job.updated_at : null}
+          onRestore={restoreDraft}
+          onDiscard={autosave.discard}
+          className="mb-6"
+        />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -485,6 +526,7 @@ export default function AdminCareerEditor() {
                     value={job.status}
                     onChange={(e) => setJob({ ...job, status: e.target.value })}
                   >
+                    <option value="draft">Draft</option>
                     <option value="open">Open</option>
                     <option value="closed">Closed</option>
                   </select>
@@ -506,6 +548,14 @@ export default function AdminCareerEditor() {
               </CardContent>
             </Card>
 
+            <ScheduleCard
+              idPrefix="job"
+              value={job}
+              isLive={job.status === 'open'}
+              onChange={(schedule) => setJob(prev => prev && { ...prev, ...schedule })}
+              disabled={saving}
+            />
+
             {/* Application Details */}
             <Card>
               <CardHeader>
@@ -575,6 +625,13 @@ export default function AdminCareerEditor() {
           </div>
         </div>
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={job}
+        onResolve={setJob}
+        onOverwrite={handleSave}
+      />
     </>
   );
-}
\ No newline at end of file
+}
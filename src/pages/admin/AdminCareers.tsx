@@ -14,6 +14,8 @@ import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, Users, ExternalLink } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 interface Job {
   id: string;
@@ -28,6 +30,8 @@ interface Job {
   email?: string;
   status: string;
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   updated_at?: string;
 }
 
@@ -53,7 +57,7 @@ function AdminCareers() {
     try {
       const { data, error } = await supabase
         .from('jobs')
-        .select('id, title, slug, team, location, work_mode, type, description, apply_url, email, status, published_at, updated_at')
+        .select('id, title, slug, team, location, work_mode, type, description, apply_url, email, status, published_at, publish_at, unpublish_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -81,7 +85,9 @@ function AdminCareers() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(job => job.status === statusFilter);
+      filtered = filtered.filter(job =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(job) : job.status === statusFilter
+      );
     }
 
     setFilteredJobs(filtered);
@@ -200,6 +206,7 @@ function AdminCareers() {
                   <SelectItem value="open">Open</SelectItem>
                   <SelectItem value="closed">Closed</SelectItem>
                   <SelectItem value="filled">Filled</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -242,6 +249,7 @@ function AdminCareers() {
                           <Badge variant={getJobStatusVariant(job.status)}>
                             {job.status}
                           </Badge>
+                          <ScheduleBadge item={job} />
                         </div>
                         <p className="text-sm text-muted-foreground">/careers/{job.slug}</p>
                         
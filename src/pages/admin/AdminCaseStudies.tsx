@@ -14,6 +14,8 @@ import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, Briefcase } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 interface CaseStudy {
   id: string;
@@ -24,6 +26,8 @@ interface CaseStudy {
   industry?: string;
   status: 'draft' | 'published';
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   updated_at?: string;
 }
 
@@ -49,7 +53,7 @@ function AdminCaseStudies() {
     try {
       const { data, error } = await supabase
         .from('case_studies')
-        .select('id, title, slug, summary, client, industry, status, published_at, updated_at')
+        .select('id, title, slug, summary, client, industry, status, published_at, publish_at, unpublish_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -79,7 +83,9 @@ function AdminCaseStudies() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(caseStudy => caseStudy.status === statusFilter);
+      filtered = filtered.filter(caseStudy =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(caseStudy) : caseStudy.status === statusFilter
+      );
     }
 
     setFilteredCaseStudies(filtered);
@@ -188,6 +194,7 @@ function AdminCaseStudies() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -230,6 +237,7 @@ function AdminCaseStudies() {
                           <Badge variant={getStatusBadgeVariant(caseStudy.status)}>
                             {caseStudy.status}
                           </Badge>
+                          <ScheduleBadge item={caseStudy} />
                         </div>
                         <p className="text-sm text-muted-foreground">/case-studies/{caseStudy.slug}</p>
                         {caseStudy.client && (
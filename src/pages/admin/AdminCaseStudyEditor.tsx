@@ -14,8 +14,19 @@ import { SEOEditor } from '@/components/admin/SEOEditor';
 import { TagInput } from '@/components/admin/TagInput';
 import { generateSlug, ensureUniqueSlug, formatDate, getStatusBadgeVariant } from '@/lib/admin-utils';
 import { adminToast } from '@/lib/toast-utils';
+import { PreviewLinksCard } from '@/components/admin/PreviewLinksCard';
 import { SEOHead } from '@/lib/seo';
 import { ArrowLeft, ExternalLink, Save, Eye, Plus, X } from 'lucide-react';
+import { WorkflowPanel } from '@/components/admin/workflow/WorkflowPanel';
+import { useEditorialWorkflow } from '@/hooks/useEditorialWorkflow';
+import { getWorkflowState, getWorkflowStatusUpdate } from '@/lib/workflow';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { adminCms } from '@/lib/admin-cms';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
 
 interface CaseStudy {
   id: string;
@@ -31,7 +42,10 @@ interface CaseStudy {
   body: string;
   metrics: any;
   status: string;
+  workflow_state?: string;
   published_at: string | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -41,11 +55,14 @@ export default function AdminCaseStudyEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { user, isEditor, loading: authLoading } = useAuth();
+  const workflow = useEditorialWorkflow();
   const [caseStudy, setCaseStudy] = useState<CaseStudy | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
   const isEditing = id !== 'new';
+  const editLock = useEditLock('case_study', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
 
   useEffect(() => {
     if (authLoading) return; // Wait for auth to load
@@ -86,6 +103,7 @@ export default function AdminCaseStudyEditor() {
 
       if (error) throw error;
       setCaseStudy(data);
+      saveConflict.setBase(data);
     } catch (error) {
       console.error('Error fetching case study:', error);
       adminToast.error('Failed to load case study');
@@ -109,12 +127,18 @@ export default function AdminCaseStudyEditor() {
     });
   };
 
-  const handleSave = async () => {
+  const handleSave = async (expectedUpdatedAt = caseStudy?.updated_at) => {
     if (!caseStudy || !caseStudy.title.trim()) {
       adminToast.validationError('Title is required');
       return;
     }
 
+    const scheduleIssue = getScheduleIssue(caseStudy.publish_at, caseStudy.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
     try {
       const slug = await ensureUniqueSlug('case_studies', caseStudy.slug || generateSlug(caseStudy.title), isEditing ? caseStudy.id : undefined);
@@ -129,15 +153,7 @@ export default function AdminCaseStudyEditor() {
 
       let savedCaseStudy;
       if (isEditing) {
-        const { data, error } = await supabase
-          .from('case_studies')
-          .update(caseStudyData)
-          .eq('id', id)
-          .select()
-          .single();
-
-        if (error) throw error;
-        savedCaseStudy = data;
+        savedCaseStudy = await adminCms.updateCaseStudy(id!, caseStudyData, expectedUpdatedAt);
         adminToast.updated('Case Study');
       } else {
         const { data, error } = await supabase
@@ -153,7 +169,9 @@ export default function AdminCaseStudyEditor() {
       }
 
       setCaseStudy(savedCaseStudy);
+      saveConflict.setBase(savedCaseStudy);
     } catch (error) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving case study:', error);
       adminToast.error('Failed to save case study');
     } finally {
@@ -236,8 +254,8 @@ export default function AdminCaseStudyEditor() {
               </Button>
             )}
             <Button
-              onClick={handleSave}
-              disabled={saving}
+              onClick={() => handleSave()}
+              disabled={saving || editLock.lockedByOther}
               className="flex items-center gap-2"
             >
               <Save className="h-4 w-4" />
@@ -246,6 +264,8 @@ export default function AdminCaseStudyEditor() {
           </div>
         </div>
 
+        <EditLockBanner {...editLock} className="mb-6" />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -412,17 +432,19 @@ export default function AdminCaseStudyEditor() {
                 <CardTitle>Publishing</CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium mb-2">Status</label>
-                  <select
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
-                    value={caseStudy.status}
-                    onChange={(e) => setCaseStudy({ ...caseStudy, status: e.target.value })}
-                  >
-                    <option value="draft">Draft</option>
-                    <option value="published">Published</option>
-                  </select>
-                </div>
+                {!workflow.enabled && (
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Status</label>
+                    <select
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      value={caseStudy.status}
+                      onChange={(e) => setCaseStudy({ ...caseStudy, status: e.target.value })}
+                    >
+                      <option value="draft">Draft</option>
+                      <option value="published">Published</option>
+                    </select>
+                  </div>
+                )}
                 {caseStudy.published_at && (
                   <div>
                     <label className="block text-sm font-medium mb-2">Published Date</label>
@@ -440,6 +462,31 @@ export default function AdminCaseStudyEditor() {
               </CardContent>
             </Card>
 
+            {workflow.enabled && (
+              <WorkflowPanel
+                entityType="case_study"
+                entityId={isEditing ? caseStudy.id : undefined}
+                state={getWorkflowState(caseStudy)}
+                onTransition={(state, updatedAt) => setCaseStudy(prev => prev && { ...prev, ...getWorkflowStatusUpdate(state, prev), updated_at: updatedAt ?? prev.updated_at })}
+                disabled={saving}
+              />
+            )}
+
+            <ScheduleCard
+              idPrefix="case-study"
+              value={caseStudy}
+              isLive={caseStudy.status === 'published'}
+              onChange={(schedule) => setCaseStudy(prev => prev && { ...prev, ...schedule })}
+              disabled={saving}
+            />
+
+            <PreviewLinksCard
+              entityType="case_study"
+              entityId={isEditing ? caseStudy.id : undefined}
+              path={`/case-studies/${caseStudy.slug}`}
+              disabled={saving}
+            />
+
             {/* Metrics */}
             <Card>
               <CardHeader>
@@ -470,6 +517,13 @@ export default function AdminCaseStudyEditor() {
           </div>
         </div>
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={caseStudy}
+        onResolve={setCaseStudy}
+        onOverwrite={handleSave}
+      />
     </>
   );
 }
\ No newline at end of file
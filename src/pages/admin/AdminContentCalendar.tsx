@@ -0,0 +1,229 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { addDays, endOfWeek, format, startOfWeek } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SEOHead } from '@/lib/seo';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { adminToast } from '@/lib/toast-utils';
+import { isStaleContentError } from '@/lib/concurrency';
+import {
+  CALENDAR_ENTITY_LABELS,
+  CALENDAR_TYPE_COLORS,
+  UNCATEGORIZED_COLOR,
+  getCalendarDays,
+  getRescheduleIssue,
+  moveToDay,
+  shiftCalendarDate,
+  type CalendarColorMode,
+  type CalendarView,
+} from '@/lib/calendar';
+import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
+import { ContentCalendarGrid } from '@/components/admin/calendar/ContentCalendarGrid';
+import type { CalendarEntityType, CalendarItem } from '@/types/content';
+import { ChevronLeft, ChevronRight, Clock } from 'lucide-react';
+
+function AdminContentCalendar() {
+  const { isEditor } = useAuth();
+  const [view, setView] = useState<CalendarView>('month');
+  const [date, setDate] = useState(() => new Date());
+  const [colorMode, setColorMode] = useState<CalendarColorMode>('type');
+  const [typeFilter, setTypeFilter] = useState<CalendarEntityType | 'all'>('all');
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const days = useMemo(() => getCalendarDays(view, date), [view, date]);
+
+  const fetchItems = useCallback(async (from: Date, to: Date) => {
+    try {
+      setItems(await adminCms.getCalendarItems(from, to));
+    } catch (error) {
+      console.error('Error fetching calendar items:', error);
+      adminToast.networkError();
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchItems(days[0], addDays(days[days.length - 1], 1));
+  }, [days, fetchItems]);
+
+  const visibleItems = typeFilter === 'all' ? items : items.filter(item => item.entity_type === typeFilter);
+
+  const categories = useMemo(() => {
+    const byName = new Map<string, string>();
+    items.forEach(item => {
+      if (item.category) byName.set(item.category.name, item.category.color);
+    });
+    return [...byName.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [items]);
+
+  const handleReschedule = async (item: CalendarItem, day: Date) => {
+    const nextDate = moveToDay(item.date, day);
+    const issue = getRescheduleIssue(item, nextDate);
+    if (issue) {
+      adminToast.validationError(issue);
+      return;
+    }
+
+    const previous = items;
+    setItems(prev => prev.map(candidate =>
+      candidate.id === item.id && candidate.entity_type === item.entity_type ? { ...candidate, date: nextDate } : candidate
+    ));
+    setSaving(true);
+    try {
+      const updatedAt = await adminCms.rescheduleCalendarItem(item, nextDate);
+      setItems(prev => prev.map(candidate =>
+        candidate.id === item.id && candidate.entity_type === item.entity_type ? { ...candidate, updated_at: updatedAt } : candidate
+      ));
+      adminToast.success('Rescheduled', `"${item.title}" moved to ${format(new Date(nextDate), 'PPp')}`);
+    } catch (error) {
+      console.error('Error rescheduling content:', error);
+      setItems(previous);
+      if (isStaleContentError(error)) {
+        // Someone else changed the item since the calendar loaded; show it as it is now
+        adminToast.error('Failed to reschedule', `"${item.title}" was changed by someone else. The calendar has been refreshed.`);
+        fetchItems(days[0], addDays(days[days.length - 1], 1));
+      } else {
+        adminToast.error('Failed to reschedule', error instanceof Error ? error.message : undefined);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="text-center py-8">
+        <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+        <p className="text-muted-foreground">You don't have permission to view the content calendar.</p>
+      </div>
+    );
+  }
+
+  const title = view === 'month'
+    ? format(date, 'MMMM yyyy')
+    : `${format(startOfWeek(date, { weekStartsOn: 1 }), 'MMM d')} – ${format(endOfWeek(date, { weekStartsOn: 1 }), 'MMM d, yyyy')}`;
+
+  return (
+    <>
+      <SEOHead
+        title="Content Calendar - Admin Panel"
+        description="Published and scheduled content"
+      />
+      <meta name="robots" content="noindex,nofollow" />
+
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Content Calendar</h1>
+          <p className="text-muted-foreground">Published and scheduled content. Drag an item to another day to reschedule it.</p>
+        </div>
+
+        <Card>
+          <CardHeader className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => setDate(prev => shiftCalendarDate(view, prev, -1))} aria-label={`Previous ${view}`}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setDate(new Date())}>Today</Button>
+                <Button variant="outline" size="icon" onClick={() => setDate(prev => shiftCalendarDate(view, prev, 1))} aria-label={`Next ${view}`}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <CardTitle className="ml-2">{title}</CardTitle>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={typeFilter} onValueChange={(value: CalendarEntityType | 'all') => setTypeFilter(value)}>
+                  <SelectTrigger className="w-44" aria-label="Content type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Content</SelectItem>
+                    {(Object.keys(CALENDAR_ENTITY_LABELS) as CalendarEntityType[]).map(type => (
+                      <SelectItem key={type} value={type}>{CALENDAR_ENTITY_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={colorMode} onValueChange={(value: CalendarColorMode) => setColorMode(value)}>
+                  <SelectTrigger className="w-44" aria-label="Color coding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="type">Color by type</SelectItem>
+                    <SelectItem value="category">Color by category</SelectItem>
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  value={view}
+                  onValueChange={(value) => value && setView(value as CalendarView)}
+                  aria-label="Calendar view"
+                >
+                  <ToggleGroupItem value="month">Month</ToggleGroupItem>
+                  <ToggleGroupItem value="week">Week</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground" aria-label="Legend">
+              {colorMode === 'type'
+                ? (Object.keys(CALENDAR_TYPE_COLORS) as CalendarEntityType[]).map(type => (
+                  <span key={type} className="flex items-center gap-1.5">
+                    <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: CALENDAR_TYPE_COLORS[type] }} />
+                    {CALENDAR_ENTITY_LABELS[type]}
+                  </span>
+                ))
+                : (
+                  <>
+                    {categories.map(([name, color]) => (
+                      <span key={name} className="flex items-center gap-1.5">
+                        <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: color }} />
+                        {name}
+                      </span>
+                    ))}
+                    <span className="flex items-center gap-1.5">
+                      <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: UNCATEGORIZED_COLOR }} />
+                      Uncategorized
+                    </span>
+                    {(Object.keys(CALENDAR_TYPE_COLORS) as CalendarEntityType[])
+                      .filter(type => type !== 'blog_post')
+                      .map(type => (
+                        <span key={type} className="flex items-center gap-1.5">
+                          <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: CALENDAR_TYPE_COLORS[type] }} />
+                          {CALENDAR_ENTITY_LABELS[type]}
+                        </span>
+                      ))}
+                  </>
+                )}
+              <span className="flex items-center gap-1.5">
+                <Clock className="h-3 w-3" />
+                Scheduled
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <LoadingListSkeleton />
+            ) : (
+              <ContentCalendarGrid
+                view={view}
+                date={date}
+                days={days}
+                items={visibleItems}
+                colorMode={colorMode}
+                onReschedule={handleReschedule}
+                disabled={saving}
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
+
+export default AdminContentCalendar;
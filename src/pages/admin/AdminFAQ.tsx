@@ -16,6 +16,8 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from 'sonner';
 import { Plus, Pencil, Trash2, Download } from 'lucide-react';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
 import type { FAQ } from '@/types/content';
 
 function AdminFAQ() {
@@ -23,6 +25,7 @@ function AdminFAQ() {
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingFaq, setEditingFaq] = useState<FAQ | null>(null);
+  const saveConflict = useSaveConflict();
   
   const [formData, setFormData] = useState({
     question: '',
@@ -50,14 +53,15 @@ function AdminFAQ() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, ...updates }: { id: string } & Partial<FAQ>) =>
-      adminCms.updateFAQ(id, updates),
+    mutationFn: ({ id, expectedUpdatedAt, ...updates }: { id: string; expectedUpdatedAt?: string } & Partial<FAQ>) =>
+      adminCms.updateFAQ(id, updates, expectedUpdatedAt),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin', 'faqs'] });
       toast.success('FAQ updated successfully');
       handleDialogClose();
     },
     onError: (error) => {
+      if (saveConflict.capture(error)) return;
       toast.error('Failed to update FAQ: ' + error.message);
     }
   });
@@ -84,9 +88,12 @@ function AdminFAQ() {
     );
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+    saveFaq();
+  };
+
+  const saveFaq = async (expectedUpdatedAt = editingFaq?.updated_at) => {
     if (!formData.question.trim() || !formData.answer.trim()) {
       toast.error('Question and answer are required');
       return;
@@ -103,6 +110,7 @@ function AdminFAQ() {
       if (editingFaq) {
         await updateMutation.mutateAsync({
           id: editingFaq.id,
+          expectedUpdatedAt,
           ...faqData
         });
       } else {
@@ -113,7 +121,7 @@ function AdminFAQ() {
     }
   };
 
-  const handleEdit = (faq: FAQ) => {
+  const loadFaq = (faq: FAQ) => {
     setEditingFaq(faq);
     setFormData({
       question: faq.question,
@@ -121,6 +129,11 @@ function AdminFAQ() {
       status: faq.status,
       sort_order: faq.sort_order
     });
+  };
+
+  const handleEdit = (faq: FAQ) => {
+    loadFaq(faq);
+    saveConflict.setBase(faq);
     setIsDialogOpen(true);
   };
 
@@ -133,6 +146,7 @@ function AdminFAQ() {
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingFaq(null);
+    saveConflict.dismiss();
     setFormData({
       question: '',
       answer: '',
@@ -349,6 +363,15 @@ function AdminFAQ() {
           </CardContent>
         </Card>
       </div>
+
+      {editingFaq && (
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={{ ...editingFaq, ...formData }}
+          onResolve={loadFaq}
+          onOverwrite={saveFaq}
+        />
+      )}
     </>
   );
 }
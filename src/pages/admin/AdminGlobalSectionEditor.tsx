@@ -0,0 +1,283 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/lib/auth';
+import { adminCms } from '@/lib/admin-cms';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { ArrowLeft, Save, ExternalLink } from 'lucide-react';
+import { AdminErrorBoundary } from '@/components/admin/ErrorBoundary';
+import { LoadingCardSkeleton } from '@/components/admin/LoadingSkeleton';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { SectionEditor } from '@/components/admin/sections/SectionEditor';
+import { SectionRenderer } from '@/components/sections/SectionRenderer';
+import { VisibilitySimulator } from '@/components/admin/sections/VisibilitySimulator';
+import { SectionSchema, Section } from '@/lib/sections/schema';
+import { adminToast } from '@/lib/toast-utils';
+import { isValidUUID } from '@/lib/admin-utils';
+import { Helmet } from 'react-helmet-async';
+import type { GlobalSection, GlobalSectionUsage } from '@/types/content';
+import type { VisibilitySimulation } from '@/lib/sections/visibility';
+
+function AdminGlobalSectionEditorContent() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { isAdmin, isEditor } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [globalSection, setGlobalSection] = useState<GlobalSection | null>(null);
+  const [usage, setUsage] = useState<GlobalSectionUsage[]>([]);
+  const [simulation, setSimulation] = useState<VisibilitySimulation>();
+  const saveConflict = useSaveConflict();
+  const { setBase: setConflictBase } = saveConflict;
+
+  const fetchGlobalSection = useCallback(async (globalSectionId: string) => {
+    try {
+      const [data, pages] = await Promise.all([
+        adminCms.getGlobalSection(globalSectionId),
+        adminCms.getGlobalSectionUsage(globalSectionId),
+      ]);
+      if (data) {
+        setGlobalSection(data);
+        setConflictBase(data);
+        setUsage(pages);
+      } else {
+        adminToast.error('Global section not found');
+        navigate('/admin/global-sections');
+      }
+    } catch (error) {
+      console.error('Error fetching global section:', error);
+      adminToast.error('Failed to load global section', error instanceof Error ? error.message : undefined);
+      navigate('/admin/global-sections');
+    } finally {
+      setLoading(false);
+    }
+  }, [navigate, setConflictBase]);
+
+  useEffect(() => {
+    if (id && isValidUUID(id)) {
+      fetchGlobalSection(id);
+    } else {
+      navigate('/admin/global-sections');
+    }
+  }, [id, navigate, fetchGlobalSection]);
+
+  const handleSave = async (expectedUpdatedAt = globalSection?.updated_at) => {
+    if (!id || !globalSection) return;
+
+    if (!globalSection.name.trim()) {
+      adminToast.validationError('Name is required');
+      return;
+    }
+
+    const result = SectionSchema.safeParse(globalSection.section);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      adminToast.validationError(`${issue.path.join('.')}: ${issue.message}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await adminCms.updateGlobalSection(id, {
+        name: globalSection.name.trim(),
+        section: result.data,
+      }, expectedUpdatedAt);
+      setGlobalSection(updated);
+      setConflictBase(updated);
+      adminToast.updated('Global section', updated.name);
+    } catch (error) {
+      if (saveConflict.capture(error)) return;
+      console.error('Error saving global section:', error);
+      adminToast.error('Failed to save global section', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!id) return;
+    setDeleting(true);
+
+    try {
+      await adminCms.deleteGlobalSection(id);
+      adminToast.deleted('Global section');
+      navigate('/admin/global-sections');
+    } catch (error) {
+      console.error('Error deleting global section:', error);
+      adminToast.error('Failed to delete global section', error instanceof Error ? error.message : undefined);
+    } finally {
+      setDeleting(false);
+      setShowDeleteDialog(false);
+    }
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+          <p className="text-muted-foreground">You don't have permission to edit global sections.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading || !globalSection) {
+    return <LoadingCardSkeleton />;
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>{`Edit Global Section - ${globalSection.name}`} | Admin</title>
+        <meta name="robots" content="noindex,nofollow" />
+      </Helmet>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/admin/global-sections')}
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to Global Sections</span>
+            </Button>
+            <Separator orientation="vertical" className="h-6" />
+            <h1 className="text-2xl font-bold">Edit Global Section</h1>
+          </div>
+          <div className="flex items-center space-x-2">
+            {isAdmin && (
+              <Button
+                variant="destructive"
+                onClick={() => setShowDeleteDialog(true)}
+                disabled={deleting}
+              >
+                Delete
+              </Button>
+            )}
+            <Button onClick={() => handleSave()} disabled={saving} className="flex items-center space-x-2">
+              <Save className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+                <CardDescription>The name is only shown in the admin panel</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <Label htmlFor="global-section-name">Name *</Label>
+                  <Input
+                    id="global-section-name"
+                    value={globalSection.name}
+                    onChange={(e) => setGlobalSection(prev => prev && { ...prev, name: e.target.value })}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <SectionEditor
+              section={globalSection.section as Section}
+              onUpdate={(section) => setGlobalSection(prev => prev && { ...prev, section })}
+              onRemove={() => isAdmin && setShowDeleteDialog(true)}
+            />
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Preview</CardTitle>
+                <VisibilitySimulator
+                  value={simulation}
+                  onChange={setSimulation}
+                  className="bg-muted px-3 py-1 text-sm hover:bg-muted/80"
+                />
+              </CardHeader>
+              <CardContent className="overflow-hidden rounded-lg border p-0">
+                <SectionRenderer sections={[globalSection.section as Section]} context="detail" simulation={simulation} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Used On ({usage.length})</CardTitle>
+              <CardDescription>Saving updates this section on every page listed here</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {usage.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No pages embed this section yet.</p>
+              ) : (
+                <ul className="space-y-2" aria-label="Pages using this section">
+                  {usage.map(page => (
+                    <li key={page.id} className="flex items-center justify-between gap-2 border rounded-lg p-2 text-sm">
+                      <div className="min-w-0">
+                        <Link to={`/admin/pages/${page.id}/edit`} className="font-medium hover:underline">
+                          {page.title}
+                        </Link>
+                        <p className="text-xs text-muted-foreground truncate">/{page.slug}</p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={page.status === 'published' ? 'default' : 'secondary'}>{page.status}</Badge>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link to={`/${page.slug}`} target="_blank" aria-label={`View ${page.title}`}>
+                            <ExternalLink className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <ConfirmDialog
+          open={showDeleteDialog}
+          onOpenChange={setShowDeleteDialog}
+          title="Delete Global Section"
+          description={`Are you sure you want to delete "${globalSection.name}"? ${
+            usage.length > 0 ? `It is embedded on ${usage.length} page${usage.length === 1 ? '' : 's'}, which will stop showing it. ` : ''
+          }This action cannot be undone.`}
+          confirmLabel="Delete Global Section"
+          cancelLabel="Cancel"
+          variant="destructive"
+          onConfirm={handleDelete}
+          loading={deleting}
+        />
+
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={globalSection}
+          onResolve={setGlobalSection}
+          onOverwrite={handleSave}
+        />
+      </div>
+    </>
+  );
+}
+
+export function AdminGlobalSectionEditor() {
+  return (
+    <AdminErrorBoundary>
+      <AdminGlobalSectionEditorContent />
+    </AdminErrorBoundary>
+  );
+}
+
+export default AdminGlobalSectionEditor;
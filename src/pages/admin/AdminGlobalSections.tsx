@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SEOHead } from '@/lib/seo';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { createDefaultSection, SECTION_TYPES, Section } from '@/lib/sections/schema';
+import { EmptyState } from '@/components/admin/EmptyState';
+import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { GlobalSection } from '@/types/content';
+import { Plus, Edit, Trash2, Puzzle } from 'lucide-react';
+
+// Section types that can be shared; references cannot point at other references
+const GLOBAL_SECTION_TYPES = SECTION_TYPES.filter(type => type.type !== 'globalSection');
+
+function AdminGlobalSections() {
+  const { isAdmin, isEditor } = useAuth();
+  const navigate = useNavigate();
+  const [globalSections, setGlobalSections] = useState<GlobalSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<string>('cta');
+  const [creating, setCreating] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<GlobalSection | null>(null);
+  const [deleteUsageCount, setDeleteUsageCount] = useState(0);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    fetchGlobalSections();
+  }, []);
+
+  const fetchGlobalSections = async () => {
+    try {
+      const data = await adminCms.getAllGlobalSections();
+      setGlobalSections(data);
+    } catch (error) {
+      console.error('Error fetching global sections:', error);
+      adminToast.networkError();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      adminToast.validationError('Name is required');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const section = createDefaultSection(newType as Section['type']);
+      const created = await adminCms.createGlobalSection({ name: newName.trim(), section });
+      adminToast.created('Global section', created.name);
+      navigate(`/admin/global-sections/${created.id}/edit`);
+    } catch (error) {
+      console.error('Error creating global section:', error);
+      adminToast.error('Failed to create global section', error instanceof Error ? error.message : undefined);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const confirmDelete = async (globalSection: GlobalSection) => {
+    setDeleteConfirm(globalSection);
+    try {
+      const usage = await adminCms.getGlobalSectionUsage(globalSection.id);
+      setDeleteUsageCount(usage.length);
+    } catch (error) {
+      console.error('Error loading global section usage:', error);
+      setDeleteUsageCount(0);
+    }
+  };
+
+  const handleDelete = async (globalSection: GlobalSection) => {
+    setDeleting(true);
+    try {
+      await adminCms.deleteGlobalSection(globalSection.id);
+      setGlobalSections(prev => prev.filter(item => item.id !== globalSection.id));
+      adminToast.deleted('Global section', globalSection.name);
+    } catch (error) {
+      console.error('Error deleting global section:', error);
+      adminToast.error('Failed to Delete', 'Unable to delete global section. Please try again.');
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="text-center py-8">
+        <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+        <p className="text-muted-foreground">You don't have permission to manage global sections.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SEOHead
+        title="Global Sections - Admin Panel"
+        description="Manage sections shared across pages"
+      />
+      <meta name="robots" content="noindex,nofollow" />
+
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Global Sections</h1>
+            <p className="text-muted-foreground">Sections stored once and reused across pages</p>
+          </div>
+
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Global Section
+          </Button>
+        </div>
+
+        {loading ? (
+          <LoadingListSkeleton />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Global Sections ({globalSections.length})</CardTitle>
+              <CardDescription>Changes to a global section appear on every page that embeds it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {globalSections.length === 0 ? (
+                <EmptyState
+                  icon={Puzzle}
+                  title="No global sections yet"
+                  description="Create a global section for content such as calls to action or testimonials that appears on many pages."
+                  actionLabel="Create Global Section"
+                  onActionClick={() => setCreateOpen(true)}
+                />
+              ) : (
+                <div className="space-y-4">
+                  {globalSections.map((globalSection) => (
+                    <div key={globalSection.id} className="border rounded-lg p-4">
+                      <div className="flex justify-between items-start">
+                        <div className="space-y-2 flex-1">
+                          <div className="flex items-center space-x-2">
+                            <h3 className="font-semibold">{globalSection.name}</h3>
+                            <Badge variant="secondary">
+                              {SECTION_TYPES.find(type => type.type === globalSection.section?.type)?.label || globalSection.section?.type}
+                            </Badge>
+                          </div>
+                          {globalSection.section?.data?.title && (
+                            <p className="text-sm text-muted-foreground">{globalSection.section.data.title}</p>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            Updated {formatDate(globalSection.updated_at)}
+                          </p>
+                        </div>
+
+                        <div className="flex items-center space-x-2">
+                          <Button variant="outline" size="sm" asChild>
+                            <Link to={`/admin/global-sections/${globalSection.id}/edit`}>
+                              <Edit className="h-4 w-4 mr-1" />
+                              Edit
+                            </Link>
+                          </Button>
+
+                          {isAdmin && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => confirmDelete(globalSection)}
+                              aria-label={`Delete ${globalSection.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Global Section</DialogTitle>
+            <DialogDescription>Choose a name and section type. You can edit the content next.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="global-section-name">Name *</Label>
+              <Input
+                id="global-section-name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Primary call to action"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="global-section-type">Section Type</Label>
+              <Select value={newType} onValueChange={setNewType}>
+                <SelectTrigger id="global-section-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GLOBAL_SECTION_TYPES.map(type => (
+                    <SelectItem key={type.type} value={type.type}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={creating}>
+              {creating ? 'Creating...' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {deleteConfirm && (
+        <ConfirmDialog
+          open={!!deleteConfirm}
+          onOpenChange={() => setDeleteConfirm(null)}
+          title="Delete Global Section"
+          description={
+            <>
+              Are you sure you want to delete <strong>"{deleteConfirm.name}"</strong>?
+              <br /><br />
+              This action cannot be undone.
+              {deleteUsageCount > 0 && (
+                <div className="mt-2 p-2 bg-destructive/10 border border-destructive/20 rounded">
+                  <strong>Warning:</strong> {deleteUsageCount} page{deleteUsageCount === 1 ? '' : 's'} embed this section and will stop showing it.
+                </div>
+              )}
+            </>
+          }
+          confirmLabel="Delete Global Section"
+          variant="destructive"
+          onConfirm={() => handleDelete(deleteConfirm)}
+          loading={deleting}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminGlobalSections;
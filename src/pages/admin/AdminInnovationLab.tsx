@@ -14,6 +14,8 @@ import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, Beaker, ExternalLink } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 interface LabProject {
   id: string;
@@ -25,6 +27,8 @@ interface LabProject {
   tags?: string[];
   status: 'draft' | 'published';
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   updated_at?: string;
 }
 
@@ -50,7 +54,7 @@ function AdminInnovationLab() {
     try {
       const { data, error } = await supabase
         .from('lab_projects')
-        .select('id, title, slug, summary, demo_url, repo_url, tags, status, published_at, updated_at')
+        .select('id, title, slug, summary, demo_url, repo_url, tags, status, published_at, publish_at, unpublish_at, updated_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -79,7 +83,9 @@ function AdminInnovationLab() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(project => project.status === statusFilter);
+      filtered = filtered.filter(project =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(project) : project.status === statusFilter
+      );
     }
 
     setFilteredProjects(filtered);
@@ -188,6 +194,7 @@ function AdminInnovationLab() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -230,6 +237,7 @@ function AdminInnovationLab() {
                           <Badge variant={getStatusBadgeVariant(project.status)}>
                             {project.status}
                           </Badge>
+                          <ScheduleBadge item={project} />
                         </div>
                         <p className="text-sm text-muted-foreground">/innovation-lab/{project.slug}</p>
                         
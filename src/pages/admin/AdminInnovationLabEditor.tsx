@@ -11,8 +11,16 @@ import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { TagInput } from '@/components/admin/TagInput';
 import { generateSlug, ensureUniqueSlug, formatDate, getStatusBadgeVariant, isValidUUID } from '@/lib/admin-utils';
 import { adminToast } from '@/lib/toast-utils';
+import { PreviewLinksCard } from '@/components/admin/PreviewLinksCard';
 import { SEOHead } from '@/lib/seo';
 import { ArrowLeft, ExternalLink, Save, Eye, Github } from 'lucide-react';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { adminCms } from '@/lib/admin-cms';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
 
 interface LabProject {
   id: string;
@@ -26,6 +34,8 @@ interface LabProject {
   body: string;
   status: string;
   published_at: string | null;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_by: string;
   created_at: string;
   updated_at: string;
@@ -40,6 +50,8 @@ export default function AdminInnovationLabEditor() {
   const [saving, setSaving] = useState(false);
 
   const isEditing = id !== 'new' && isValidUUID(id || '');
+  const editLock = useEditLock('lab_project', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
 
   useEffect(() => {
     if (authLoading) return; // Wait for auth to load
@@ -77,6 +89,7 @@ export default function AdminInnovationLabEditor() {
 
       if (error) throw error;
       setProject(data);
+      saveConflict.setBase(data);
     } catch (error) {
       console.error('Error fetching lab project:', error);
       adminToast.error('Failed to load lab project');
@@ -100,12 +113,18 @@ export default function AdminInnovationLabEditor() {
     });
   };
 
-  const handleSave = async () => {
+  const handleSave = async (expectedUpdatedAt = project?.updated_at) => {
     if (!project || !project.title.trim()) {
       adminToast.validationError('Title is required');
       return;
     }
 
+    const scheduleIssue = getScheduleIssue(project.publish_at, project.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
     try {
       const slug = await ensureUniqueSlug('lab_projects', project.slug || generateSlug(project.title), isEditing ? project.id : undefined);
@@ -120,15 +139,7 @@ export default function AdminInnovationLabEditor() {
 
       let savedProject;
       if (isEditing) {
-        const { data, error } = await supabase
-          .from('lab_projects')
-          .update(projectData)
-          .eq('id', id)
-          .select()
-          .single();
-
-        if (error) throw error;
-        savedProject = data;
+        savedProject = await adminCms.updateLabProject(id!, projectData, expectedUpdatedAt);
         adminToast.updated('Lab Project');
       } else {
         const { data, error } = await supabase
@@ -144,7 +155,9 @@ export default function AdminInnovationLabEditor() {
       }
 
       setProject(savedProject);
+      saveConflict.setBase(savedProject);
     } catch (error) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving lab project:', error);
       adminToast.error('Failed to save lab project');
     } finally {
@@ -227,8 +240,8 @@ export default function AdminInnovationLabEditor() {
               </Button>
             )}
             <Button
-              onClick={handleSave}
-              disabled={saving}
+              onClick={() => handleSave()}
+              disabled={saving || editLock.lockedByOther}
               className="flex items-center gap-2"
             >
               <Save className="h-4 w-4" />
@@ -237,6 +250,8 @@ export default function AdminInnovationLabEditor() {
           </div>
         </div>
 
+        <EditLockBanner {...editLock} className="mb-6" />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -404,6 +419,21 @@ export default function AdminInnovationLabEditor() {
               </CardContent>
             </Card>
 
+            <ScheduleCard
+              idPrefix="lab-project"
+              value={project}
+              isLive={project.status === 'published'}
+              onChange={(schedule) => setProject(prev => prev && { ...prev, ...schedule })}
+              disabled={saving}
+            />
+
+            <PreviewLinksCard
+              entityType="lab_project"
+              entityId={isEditing ? project.id : undefined}
+              path={`/innovation-lab/${project.slug}`}
+              disabled={saving}
+            />
+
             {/* Links Preview */}
             {(project.demo_url || project.repo_url) && (
               <Card>
@@ -466,6 +496,13 @@ export default function AdminInnovationLabEditor() {
           </div>
         </div>
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={project}
+        onResolve={setProject}
+        onOverwrite={handleSave}
+      />
     </>
   );
-}
\ No newline at end of file
+}
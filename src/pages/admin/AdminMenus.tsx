@@ -0,0 +1,308 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SEOHead } from '@/lib/seo';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { generateSlug } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { buildMenuTree, createMenuItem, flattenMenuTree, getMenuItemIssue, MENU_LOCATIONS, type MenuNode } from '@/lib/menus';
+import { EmptyState } from '@/components/admin/EmptyState';
+import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { MenuItemsEditor } from '@/components/admin/menus/MenuItemsEditor';
+import type { Menu } from '@/types/content';
+import { ListTree, Plus, Save, Trash2 } from 'lucide-react';
+
+// The site loads these menus by slug, so they cannot be renamed or deleted
+const BUILT_IN_MENUS: string[] = Object.values(MENU_LOCATIONS);
+
+function AdminMenus() {
+  const { isAdmin, isEditor } = useAuth();
+  const queryClient = useQueryClient();
+  const [menus, setMenus] = useState<Menu[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [items, setItems] = useState<MenuNode[]>([]);
+  const [itemsLoading, setItemsLoading] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newSlug, setNewSlug] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<Menu | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const selectedMenu = menus.find(menu => menu.id === selectedId);
+
+  useEffect(() => {
+    fetchMenus();
+  }, []);
+
+  useEffect(() => {
+    if (selectedId) fetchItems(selectedId);
+  }, [selectedId]);
+
+  const fetchMenus = async () => {
+    try {
+      const data = await adminCms.getAllMenus();
+      setMenus(data);
+      setSelectedId(prev => prev ?? data.find(menu => menu.slug === MENU_LOCATIONS.header)?.id ?? data[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error fetching menus:', error);
+      adminToast.networkError();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchItems = async (menuId: string) => {
+    setItemsLoading(true);
+    try {
+      setItems(buildMenuTree(await adminCms.getMenuItems(menuId)));
+      setDirty(false);
+    } catch (error) {
+      console.error('Error fetching menu items:', error);
+      adminToast.networkError();
+    } finally {
+      setItemsLoading(false);
+    }
+  };
+
+  const selectMenu = (id: string) => {
+    if (dirty && !window.confirm('Discard unsaved changes to this menu?')) return;
+    setSelectedId(id);
+  };
+
+  const handleItemsChange = (next: MenuNode[]) => {
+    setItems(next);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!selectedMenu) return;
+    const rows = flattenMenuTree(items);
+    const invalid = rows.find(row => getMenuItemIssue(row));
+    if (invalid) {
+      adminToast.validationError(`"${invalid.label || 'Untitled'}": ${getMenuItemIssue(invalid)}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setItems(buildMenuTree(await adminCms.saveMenuItems(selectedMenu.id, rows)));
+      setDirty(false);
+      queryClient.invalidateQueries({ queryKey: ['menu', selectedMenu.slug] });
+      adminToast.updated('Menu', selectedMenu.name);
+    } catch (error) {
+      console.error('Error saving menu:', error);
+      adminToast.error('Failed to save menu', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const slug = newSlug || generateSlug(newName);
+    if (!newName.trim() || !slug) {
+      adminToast.validationError('Name is required');
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const created = await adminCms.createMenu({ name: newName.trim(), slug, description: null });
+      setMenus(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(created.id);
+      setCreateOpen(false);
+      setNewName('');
+      setNewSlug('');
+      adminToast.created('Menu', created.name);
+    } catch (error) {
+      console.error('Error creating menu:', error);
+      adminToast.error('Failed to create menu', error instanceof Error ? error.message : undefined);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (menu: Menu) => {
+    setDeleting(true);
+    try {
+      await adminCms.deleteMenu(menu.id);
+      const remaining = menus.filter(item => item.id !== menu.id);
+      setMenus(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+      adminToast.deleted('Menu', menu.name);
+    } catch (error) {
+      console.error('Error deleting menu:', error);
+      adminToast.error('Failed to Delete', 'Unable to delete menu. Please try again.');
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="text-center py-8">
+        <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+        <p className="text-muted-foreground">You don't have permission to manage menus.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SEOHead
+        title="Menus - Admin Panel"
+        description="Manage site navigation menus"
+      />
+      <meta name="robots" content="noindex,nofollow" />
+
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Menus</h1>
+            <p className="text-muted-foreground">Header and footer navigation, edited without a deploy</p>
+          </div>
+
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Menu
+          </Button>
+        </div>
+
+        {loading ? (
+          <LoadingListSkeleton />
+        ) : menus.length === 0 ? (
+          <EmptyState
+            icon={ListTree}
+            title="No menus yet"
+            description="Create a menu to manage navigation links."
+            actionLabel="Create Menu"
+            onActionClick={() => setCreateOpen(true)}
+          />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <Card className="lg:col-span-1 h-fit">
+              <CardHeader>
+                <CardTitle>Menus</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {menus.map(menu => (
+                  <Button
+                    key={menu.id}
+                    variant={menu.id === selectedId ? 'secondary' : 'ghost'}
+                    className="w-full justify-between"
+                    onClick={() => selectMenu(menu.id)}
+                  >
+                    <span className="truncate">{menu.name}</span>
+                    <span className="text-xs text-muted-foreground">{menu.slug}</span>
+                  </Button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {selectedMenu && (
+              <Card className="lg:col-span-3">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2">
+                      {selectedMenu.name}
+                      {BUILT_IN_MENUS.includes(selectedMenu.slug) && <Badge variant="secondary">Used by the site</Badge>}
+                      {dirty && <Badge variant="outline">Unsaved changes</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {selectedMenu.description || `Loaded by the site as "${selectedMenu.slug}"`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    {isAdmin && !BUILT_IN_MENUS.includes(selectedMenu.slug) && (
+                      <Button variant="destructive" size="sm" onClick={() => setDeleteConfirm(selectedMenu)} aria-label={`Delete ${selectedMenu.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleItemsChange([...items, createMenuItem(selectedMenu.id)])}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Item
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={saving || !dirty}>
+                      <Save className="h-4 w-4 mr-1" />
+                      {saving ? 'Saving...' : 'Save Menu'}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {itemsLoading ? (
+                    <LoadingListSkeleton />
+                  ) : (
+                    <MenuItemsEditor items={items} onChange={handleItemsChange} />
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Drag items by the handle: drop on the top or bottom edge of an item to reorder, or on its middle to nest it.
+                    {selectedMenu.slug === MENU_LOCATIONS.header && ' In the header, items with children open as dropdowns and Button items appear as call-to-action buttons.'}
+                    {selectedMenu.slug === MENU_LOCATIONS.footer && ' In the footer, each top-level item is a column heading for its children.'}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Menu</DialogTitle>
+            <DialogDescription>The slug is how the site refers to the menu and cannot change later.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="menu-name">Name *</Label>
+              <Input id="menu-name" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Sidebar links" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="menu-slug">Slug</Label>
+              <Input
+                id="menu-slug"
+                value={newSlug}
+                onChange={(e) => setNewSlug(generateSlug(e.target.value))}
+                placeholder={generateSlug(newName) || 'sidebar-links'}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={creating}>{creating ? 'Creating...' : 'Create Menu'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {deleteConfirm && (
+        <ConfirmDialog
+          open={!!deleteConfirm}
+          onOpenChange={() => setDeleteConfirm(null)}
+          title="Delete Menu"
+          description={`Delete the menu "${deleteConfirm.name}" and all of its items? This action cannot be undone.`}
+          confirmLabel="Delete Menu"
+          variant="destructive"
+          onConfirm={() => handleDelete(deleteConfirm)}
+          loading={deleting}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminMenus;
@@ -12,18 +12,35 @@ import { adminCms } from '@/lib/admin-cms';
 import { Page } from '@/types/content';
 import { useAuth } from '@/lib/auth';
 import { generateSlug, ensureUniqueSlug } from '@/lib/admin-utils';
-import { Save, ArrowLeft } from 'lucide-react';
+import { buildPagePath } from '@/lib/cms';
+import { Save, ArrowLeft, PanelRightOpen, PanelRightClose } from 'lucide-react';
 import { AdminErrorBoundary } from '@/components/admin/ErrorBoundary';
 import { LoadingCardSkeleton } from '@/components/admin/LoadingSkeleton';
 import { adminToast } from '@/lib/toast-utils';
 import { SectionsTab } from '@/components/admin/sections/SectionsTab';
+import { SectionPreviewPane } from '@/components/admin/sections/SectionPreviewPane';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 import { SEOEditor, SEOData } from '@/components/admin/SEOEditor';
+import { RevisionHistory } from '@/components/admin/revisions/RevisionHistory';
+import { PreviewLinksCard } from '@/components/admin/PreviewLinksCard';
+import { WorkflowPanel } from '@/components/admin/workflow/WorkflowPanel';
+import { useEditorialWorkflow } from '@/hooks/useEditorialWorkflow';
+import { getWorkflowState, getWorkflowStatusUpdate } from '@/lib/workflow';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
 
 function AdminPageEditorContent() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { isEditor, userRole, user, loading } = useAuth();
+  const workflow = useEditorialWorkflow();
   const isEditing = id !== 'new';
+  const editLock = useEditLock('page', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
   
   // Check if auth is still loading (either loading state or userRole not resolved)
   const isAuthLoading = loading || (user && userRole === null);
@@ -46,6 +63,7 @@ function AdminPageEditorContent() {
   const [page, setPage] = useState<Partial<Page>>({
     title: '',
     slug: '',
+    parent_id: null,
     body: {},
     status: 'draft',
     published_at: null,
@@ -57,9 +75,12 @@ function AdminPageEditorContent() {
     seo_schema_type: 'WebPage',
   });
   const [content, setContent] = useState('');
+  const [allPages, setAllPages] = useState<Page[]>([]);
   // Explicit loading control - never load for new pages
   const [dataLoading, setDataLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [showLivePreview, setShowLivePreview] = useState(false);
+  const [selectedSectionId, setSelectedSectionId] = useState<string>();
 
   // Debug probe for dataLoading changes
   useEffect(() => {
@@ -73,6 +94,13 @@ function AdminPageEditorContent() {
     }
   }, [dataLoading, isEditing, id]);
 
+  // Load all pages for the parent selector and path preview
+  useEffect(() => {
+    adminCms.getAllPages()
+      .then(setAllPages)
+      .catch((error) => console.error('Error fetching pages for parent selector:', error));
+  }, []);
+
   useEffect(() => {
     // Defensive guard - only fetch for existing pages with valid IDs
     if (isEditing && id && id !== 'new') {
@@ -93,6 +121,7 @@ function AdminPageEditorContent() {
       if (foundPage) {
         setPage(foundPage);
         setContent(foundPage.body?.content || '');
+        saveConflict.setBase(foundPage);
       } else {
         adminToast.error('Page not found');
         navigate('/admin/pages');
@@ -105,6 +134,24 @@ function AdminPageEditorContent() {
     }
   };
 
+  // A page cannot be nested under itself or one of its own descendants
+  const parentOptions = allPages.filter(candidate => {
+    if (!isEditing) return true;
+    let current: Page | undefined = candidate;
+    const visited = new Set<string>();
+    while (current && !visited.has(current.id)) {
+      if (current.id === id) return false;
+      visited.add(current.id);
+      current = allPages.find(p => p.id === current?.parent_id);
+    }
+    return true;
+  });
+
+  const pagePath = buildPagePath(
+    { id: page.id || 'new', slug: page.slug || 'page-url-slug', parent_id: page.parent_id },
+    allPages
+  );
+
   const handleTitleChange = async (title: string) => {
     setPage(prev => ({ ...prev, title }));
     
@@ -116,8 +163,18 @@ function AdminPageEditorContent() {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    savePage();
+  };
+
+  const savePage = async (expectedUpdatedAt = page.updated_at) => {
+    const scheduleIssue = getScheduleIssue(page.publish_at, page.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -132,7 +189,7 @@ function AdminPageEditorContent() {
       };
 
       if (isEditing && id) {
-        await adminCms.updatePage(id, pageData);
+        await adminCms.updatePage(id, pageData, expectedUpdatedAt);
         adminToast.updated('Page');
       } else {
         // Ensure unique slug before creating
@@ -143,6 +200,7 @@ function AdminPageEditorContent() {
       
       navigate('/admin/pages');
     } catch (error: any) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving page:', error);
       adminToast.error('Failed to save page', error.message);
     } finally {
@@ -196,12 +254,15 @@ function AdminPageEditorContent() {
           </div>
         </div>
 
+        <EditLockBanner {...editLock} />
+
         <Tabs defaultValue="details" className="space-y-6">
           <TabsList>
             <TabsTrigger value="details">Page Details</TabsTrigger>
             <TabsTrigger value="sections">Sections</TabsTrigger>
             <TabsTrigger value="content">Raw Content</TabsTrigger>
             <TabsTrigger value="seo">SEO</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
           </TabsList>
 
           <TabsContent value="details">
@@ -232,34 +293,121 @@ function AdminPageEditorContent() {
                     required
                   />
                   <p className="text-sm text-muted-foreground">
-                    This will be the URL: /{page.slug || 'page-url-slug'}
+                    This will be the URL: /{pagePath}
                   </p>
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="status">Status</Label>
+                  <Label htmlFor="parent">Parent Page</Label>
                   <Select
-                    value={page.status || 'draft'}
-                    onValueChange={(value) => setPage(prev => ({ ...prev, status: value as 'draft' | 'published' }))}
+                    value={page.parent_id || 'none'}
+                    onValueChange={(value) => setPage(prev => ({ ...prev, parent_id: value === 'none' ? null : value }))}
                   >
-                    <SelectTrigger>
+                    <SelectTrigger id="parent">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="draft">Draft</SelectItem>
-                      <SelectItem value="published">Published</SelectItem>
+                      <SelectItem value="none">None (top-level page)</SelectItem>
+                      {parentOptions.map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.title} (/{buildPagePath(option, allPages)})
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-sm text-muted-foreground">
+                    Nest this page under another page to build paths like /parent/child.
+                  </p>
                 </div>
+                
+                {!workflow.enabled && (
+                  <div className="space-y-2">
+                    <Label htmlFor="status">Status</Label>
+                    <Select
+                      value={page.status || 'draft'}
+                      onValueChange={(value) => setPage(prev => ({ ...prev, status: value as 'draft' | 'published' }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="draft">Draft</SelectItem>
+                        <SelectItem value="published">Published</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </CardContent>
             </Card>
+
+            {workflow.enabled && (
+              <div className="mt-6">
+                <WorkflowPanel
+                  entityType="page"
+                  entityId={isEditing ? id : undefined}
+                  state={getWorkflowState(page)}
+                  onTransition={(state, updatedAt) => setPage(prev => ({ ...prev, ...getWorkflowStatusUpdate(state, prev), updated_at: updatedAt ?? prev.updated_at }))}
+                  disabled={saving}
+                />
+              </div>
+            )}
+
+            <div className="mt-6">
+              <ScheduleCard
+                idPrefix="page"
+                value={page}
+                isLive={page.status === 'published'}
+                onChange={(schedule) => setPage(prev => ({ ...prev, ...schedule }))}
+                disabled={saving}
+              />
+            </div>
+
+            <div className="mt-6">
+              <PreviewLinksCard
+                entityType="page"
+                entityId={isEditing ? id : undefined}
+                path={`/${pagePath}`}
+                disabled={saving}
+              />
+            </div>
           </TabsContent>
 
-          <TabsContent value="sections">
-            <SectionsTab 
-              pageBody={page.body}
-              onUpdate={(body) => setPage(prev => ({ ...prev, body }))}
-            />
+          <TabsContent value="sections" className="space-y-4">
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => setShowLivePreview(!showLivePreview)} aria-pressed={showLivePreview}>
+                {showLivePreview ? <PanelRightClose className="h-4 w-4 mr-2" /> : <PanelRightOpen className="h-4 w-4 mr-2" />}
+                {showLivePreview ? 'Hide' : 'Show'} Live Preview
+              </Button>
+            </div>
+            {showLivePreview ? (
+              <ResizablePanelGroup direction="horizontal" className="min-h-[75vh] rounded-lg border">
+                <ResizablePanel defaultSize={45} minSize={30}>
+                  <div className="h-[75vh] overflow-y-auto p-4">
+                    <SectionsTab 
+                      pageBody={page.body}
+                      onUpdate={(body) => setPage(prev => ({ ...prev, body }))}
+                      selectedSectionId={selectedSectionId}
+                      onSelectSection={setSelectedSectionId}
+                    />
+                  </div>
+                </ResizablePanel>
+                <ResizableHandle withHandle />
+                <ResizablePanel defaultSize={55} minSize={30}>
+                  <div className="h-[75vh]">
+                    <SectionPreviewPane
+                      sections={Array.isArray(page.body?.sections) ? page.body.sections : []}
+                      selectedSectionId={selectedSectionId}
+                      onSelectSection={setSelectedSectionId}
+                    />
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            ) : (
+              <SectionsTab 
+                pageBody={page.body}
+                onUpdate={(body) => setPage(prev => ({ ...prev, body }))}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="content">
@@ -305,6 +453,20 @@ function AdminPageEditorContent() {
               disabled={saving}
             />
           </TabsContent>
+
+          <TabsContent value="history">
+            <RevisionHistory
+              entityType="page"
+              entityId={isEditing ? id : undefined}
+              updatedAt={page.updated_at}
+              onRestored={(body, saved) => {
+                setPage(prev => ({ ...prev, body, updated_at: saved.updated_at }));
+                saveConflict.setBase(saved);
+                setContent((body as Page['body'])?.content || '');
+              }}
+              disabled={saving}
+            />
+          </TabsContent>
         </Tabs>
 
         <div className="flex justify-end space-x-2">
@@ -316,12 +478,22 @@ function AdminPageEditorContent() {
           >
             Cancel
           </Button>
-          <Button onClick={handleSubmit} disabled={saving}>
+          <Button onClick={handleSubmit} disabled={saving || editLock.lockedByOther}>
             <Save className="h-4 w-4 mr-2" />
             {saving ? 'Saving...' : 'Save Page'}
           </Button>
         </div>
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={page}
+        onResolve={(row) => {
+          setPage(row);
+          setContent(row.body?.content || '');
+        }}
+        onOverwrite={savePage}
+      />
     </>
   );
 }
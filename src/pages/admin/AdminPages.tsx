@@ -5,10 +5,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { SEOHead } from '@/lib/seo';
-import { adminCms } from '@/lib/admin-cms';
+import { adminCms, exportToJSON } from '@/lib/admin-cms';
+import { buildPagePath } from '@/lib/cms';
 import { Page } from '@/types/content';
 import { useAuth } from '@/lib/auth';
 import { formatDate, getStatusBadgeVariant } from '@/lib/admin-utils';
@@ -16,7 +18,12 @@ import { adminToast } from '@/lib/toast-utils';
 import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
-import { Plus, Search, Edit, Trash2, Eye, FileText } from 'lucide-react';
+import { PageMigrationDialog } from '@/components/admin/sections/PageMigrationDialog';
+import { PageImportDialog } from '@/components/admin/sections/PageImportDialog';
+import { exportPageBundle } from '@/lib/sections/page-bundle';
+import { Plus, Search, Edit, Trash2, Eye, FileText, Download } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 function AdminPages() {
   const { isAdmin, isEditor } = useAuth();
@@ -28,6 +35,7 @@ function AdminPages() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [deleteConfirm, setDeleteConfirm] = useState<Page | null>(null);
   const [deleting, setDeleting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     fetchPages();
@@ -64,17 +72,44 @@ function AdminPages() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(page => page.status === statusFilter);
+      filtered = filtered.filter(page =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(page) : page.status === statusFilter
+      );
     }
 
     setFilteredPages(filtered);
   };
 
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // Exports the selected pages, or every page matching the filters when none are selected
+  const handleExport = async () => {
+    const selected = pages.filter(page => selectedIds.has(page.id));
+    const toExport = selected.length > 0 ? selected : filteredPages;
+    try {
+      const globalSections = await adminCms.getAllGlobalSections();
+      const date = new Date().toISOString().slice(0, 10);
+      exportToJSON(exportPageBundle(toExport, pages, globalSections), `pages-${date}.json`);
+      adminToast.success(`Exported ${toExport.length} page${toExport.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error exporting pages:', error);
+      adminToast.error('Failed to export pages', error instanceof Error ? error.message : undefined);
+    }
+  };
+
   const handleDelete = async (page: Page) => {
     setDeleting(true);
     try {
       await adminCms.deletePage(page.id);
       setPages(prev => prev.filter(p => p.id !== page.id));
+      toggleSelected(page.id, false);
       adminToast.deleted('Page', page.title);
     } catch (error) {
       console.error('Error deleting page:', error);
@@ -138,12 +173,20 @@ function AdminPages() {
             <p className="text-muted-foreground">Manage website pages and content</p>
           </div>
           
-          <Link to="/admin/pages/new">
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              New Page
+          <div className="flex gap-2">
+            {isAdmin && <PageMigrationDialog onMigrated={fetchPages} />}
+            <Button variant="outline" onClick={handleExport} disabled={filteredPages.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {selectedIds.size > 0 ? `Export (${selectedIds.size})` : 'Export'}
             </Button>
-          </Link>
+            <PageImportDialog existingPages={pages} onImported={fetchPages} />
+            <Link to="/admin/pages/new">
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Page
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Filters */}
@@ -171,6 +214,7 @@ function AdminPages() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -209,12 +253,18 @@ function AdminPages() {
                     <div className="flex justify-between items-start">
                       <div className="space-y-2 flex-1">
                         <div className="flex items-center space-x-2">
+                          <Checkbox
+                            checked={selectedIds.has(page.id)}
+                            onCheckedChange={(checked) => toggleSelected(page.id, checked === true)}
+                            aria-label={`Select ${page.title} for export`}
+                          />
                           <h3 className="font-semibold">{page.title}</h3>
                           <Badge variant={getStatusBadgeVariant(page.status)}>
                             {page.status}
                           </Badge>
+                          <ScheduleBadge item={page} />
                         </div>
-                        <p className="text-sm text-muted-foreground">/{page.slug}</p>
+                        <p className="text-sm text-muted-foreground">/{buildPagePath(page, pages)}</p>
                         <p className="text-sm text-muted-foreground">
                           {page.status === 'published' 
                             ? `Published ${formatDate(page.published_at)}`
@@ -226,7 +276,7 @@ function AdminPages() {
                       <div className="flex items-center space-x-2">
                         {page.status === 'published' && (
                           <Button variant="ghost" size="sm" asChild>
-                            <Link to={`/${page.slug}`} target="_blank">
+                            <Link to={`/${buildPagePath(page, pages)}`} target="_blank">
                               <Eye className="h-4 w-4" />
                             </Link>
                           </Button>
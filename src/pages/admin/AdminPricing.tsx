@@ -0,0 +1,491 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/lib/auth';
+import { adminCms } from '@/lib/admin-cms';
+import { formatDate, getStatusBadgeVariant } from '@/lib/admin-utils';
+import { BILLING_PERIOD_OPTIONS, formatTierPrice } from '@/lib/pricing';
+import { adminToast } from '@/lib/toast-utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { Plus, Pencil, Trash2, Star } from 'lucide-react';
+import type { PricingTier, PricingBillingPeriod } from '@/types/payment';
+
+type PricingTierForm = {
+  name: string;
+  description: string;
+  // Edited in major units, stored in cents
+  price: string;
+  currency: string;
+  billing_period: PricingBillingPeriod;
+  features: string;
+  popular: boolean;
+  cta_label: string;
+  status: 'draft' | 'published';
+  sort_order: number;
+};
+
+const emptyForm: PricingTierForm = {
+  name: '',
+  description: '',
+  price: '',
+  currency: 'usd',
+  billing_period: 'one_time',
+  features: '',
+  popular: false,
+  cta_label: '',
+  status: 'draft',
+  sort_order: 0
+};
+
+function toTierData(form: PricingTierForm) {
+  const isCustom = form.billing_period === 'custom';
+  return {
+    name: form.name.trim(),
+    description: form.description.trim(),
+    price: isCustom ? 0 : Math.round(parseFloat(form.price) * 100),
+    currency: form.currency.trim().toLowerCase(),
+    billing_period: form.billing_period,
+    features: form.features.split('\n').map(feature => feature.trim()).filter(Boolean),
+    popular: form.popular,
+    cta_label: form.cta_label.trim() || null,
+    status: form.status,
+    sort_order: form.sort_order || 0
+  };
+}
+
+function AdminPricing() {
+  const { isEditor, isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTier, setEditingTier] = useState<PricingTier | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<PricingTier | null>(null);
+  const [formData, setFormData] = useState<PricingTierForm>(emptyForm);
+  const saveConflict = useSaveConflict();
+
+  const { data: tiers = [], isLoading } = useQuery({
+    queryKey: ['admin', 'pricing-tiers'],
+    queryFn: () => adminCms.getAllPricingTiers()
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin', 'pricing-tiers'] });
+    queryClient.invalidateQueries({ queryKey: ['published-pricing-tiers'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (tier: Omit<PricingTier, 'id' | 'created_at' | 'updated_at'>) =>
+      adminCms.createPricingTier(tier),
+    onSuccess: (tier) => {
+      invalidate();
+      adminToast.created('Pricing tier', tier.name);
+      handleDialogClose();
+    },
+    onError: (error) => {
+      adminToast.error('Failed to create pricing tier', error.message);
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, expectedUpdatedAt, ...updates }: { id: string; expectedUpdatedAt?: string } & Partial<PricingTier>) =>
+      adminCms.updatePricingTier(id, updates, expectedUpdatedAt),
+    onSuccess: (tier) => {
+      invalidate();
+      adminToast.updated('Pricing tier', tier.name);
+      handleDialogClose();
+    },
+    onError: (error) => {
+      if (saveConflict.capture(error)) return;
+      adminToast.error('Failed to update pricing tier', error.message);
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => adminCms.deletePricingTier(id),
+    onSuccess: () => {
+      invalidate();
+      adminToast.deleted('Pricing tier', deleteConfirm?.name);
+      setDeleteConfirm(null);
+    },
+    onError: (error) => {
+      adminToast.error('Failed to delete pricing tier', error.message);
+    }
+  });
+
+  if (!isEditor) {
+    return (
+      <div className="p-6">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Access Denied</h2>
+          <p className="text-muted-foreground">You need editor permissions to manage pricing.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveTier();
+  };
+
+  const saveTier = async (expectedUpdatedAt = editingTier?.updated_at) => {
+    const isCustom = formData.billing_period === 'custom';
+    const tierData = toTierData(formData);
+    const { price } = tierData;
+
+    if (!formData.name.trim()) {
+      adminToast.validationError('Name is required');
+      return;
+    }
+    if (!isCustom && (!Number.isFinite(price) || price < 0)) {
+      adminToast.validationError('Enter a valid price or choose the custom quote billing period');
+      return;
+    }
+    if (!/^[a-z]{3}$/i.test(formData.currency.trim())) {
+      adminToast.validationError('Currency must be a three-letter ISO code such as USD');
+      return;
+    }
+
+    try {
+      if (editingTier) {
+        await updateMutation.mutateAsync({ id: editingTier.id, expectedUpdatedAt, ...tierData });
+      } else {
+        await createMutation.mutateAsync(tierData);
+      }
+    } catch (error) {
+      console.error('Error saving pricing tier:', error);
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingTier(null);
+    setFormData({
+      ...emptyForm,
+      sort_order: tiers.reduce((max, tier) => Math.max(max, tier.sort_order ?? 0), 0) + 1
+    });
+    setIsDialogOpen(true);
+  };
+
+  const loadTier = (tier: PricingTier) => {
+    setEditingTier(tier);
+    setFormData({
+      name: tier.name,
+      description: tier.description || '',
+      price: tier.billing_period === 'custom' ? '' : (tier.price / 100).toString(),
+      currency: tier.currency,
+      billing_period: tier.billing_period || 'one_time',
+      features: tier.features.join('\n'),
+      popular: !!tier.popular,
+      cta_label: tier.cta_label || '',
+      status: tier.status || 'draft',
+      sort_order: tier.sort_order ?? 0
+    });
+  };
+
+  const handleEdit = (tier: PricingTier) => {
+    loadTier(tier);
+    saveConflict.setBase(tier);
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogClose = () => {
+    setIsDialogOpen(false);
+    setEditingTier(null);
+    setFormData(emptyForm);
+    saveConflict.dismiss();
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <>
+      <div className="p-6 border-b border-border bg-background/95 backdrop-blur">
+        <h1 className="text-2xl font-bold text-foreground">Pricing</h1>
+        <p className="text-muted-foreground mt-1">Manage the pricing tiers shown on the Pricing page and in pricing sections</p>
+      </div>
+
+      <div className="p-6">
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Pricing Tiers</CardTitle>
+                <CardDescription>
+                  Prices are charged through the configured payment providers at checkout
+                </CardDescription>
+              </div>
+
+              <Button onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </Button>
+            </div>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div>Loading pricing tiers...</div>
+            ) : tiers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pricing tiers yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tier</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Sort Order</TableHead>
+                    <TableHead>Updated</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tiers.map((tier) => (
+                    <TableRow key={tier.id}>
+                      <TableCell>
+                        <div className="max-w-md">
+                          <p className="font-medium flex items-center gap-1">
+                            {tier.name}
+                            {tier.popular && <Star className="h-3 w-3 text-primary" aria-label="Most popular" />}
+                          </p>
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
+                            {tier.features.length} feature{tier.features.length === 1 ? '' : 's'}
+                          </p>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {formatTierPrice(tier)}
+                        <span className="text-xs text-muted-foreground ml-1">
+                          {BILLING_PERIOD_OPTIONS.find(option => option.value === tier.billing_period)?.label}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusBadgeVariant(tier.status || 'draft')}>
+                          {tier.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{tier.sort_order}</TableCell>
+                      <TableCell>{tier.updated_at && formatDate(tier.updated_at)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(tier)}
+                            aria-label={`Edit ${tier.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {isAdmin && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeleteConfirm(tier)}
+                              className="text-destructive hover:text-destructive"
+                              aria-label={`Delete ${tier.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && handleDialogClose()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingTier ? 'Edit Pricing Tier' : 'Create Pricing Tier'}
+            </DialogTitle>
+            <DialogDescription>
+              {editingTier ? 'Update the tier details below.' : 'Add a new plan customers can choose.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tier-name">Name *</Label>
+                <Input
+                  id="tier-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Business"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="tier-cta">Button Label</Label>
+                <Input
+                  id="tier-cta"
+                  value={formData.cta_label}
+                  onChange={(e) => setFormData(prev => ({ ...prev, cta_label: e.target.value }))}
+                  placeholder={`Choose ${formData.name || 'plan'}`}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="tier-description">Description</Label>
+              <Textarea
+                id="tier-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="tier-billing">Billing</Label>
+                <Select
+                  value={formData.billing_period}
+                  onValueChange={(billing_period: PricingBillingPeriod) =>
+                    setFormData(prev => ({ ...prev, billing_period }))
+                  }
+                >
+                  <SelectTrigger id="tier-billing">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BILLING_PERIOD_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(formData.billing_period === 'month' || formData.billing_period === 'year') && (
+                  <p className="text-xs text-muted-foreground mt-1">Recurring tiers are sold through a quote, not checkout</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="tier-price">Price</Label>
+                <Input
+                  id="tier-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.price}
+                  onChange={(e) => setFormData(prev => ({ ...prev, price: e.target.value }))}
+                  placeholder="2999"
+                  disabled={formData.billing_period === 'custom'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="tier-currency">Currency</Label>
+                <Input
+                  id="tier-currency"
+                  value={formData.currency}
+                  onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                  placeholder="usd"
+                  maxLength={3}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="tier-features">Features</Label>
+              <Textarea
+                id="tier-features"
+                value={formData.features}
+                onChange={(e) => setFormData(prev => ({ ...prev, features: e.target.value }))}
+                placeholder="One feature per line"
+                rows={6}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 items-end">
+              <div>
+                <Label htmlFor="tier-status">Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(status: 'draft' | 'published') =>
+                    setFormData(prev => ({ ...prev, status }))
+                  }
+                >
+                  <SelectTrigger id="tier-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="published">Published</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="tier-sort-order">Sort Order</Label>
+                <Input
+                  id="tier-sort-order"
+                  type="number"
+                  value={formData.sort_order}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    sort_order: parseInt(e.target.value) || 0
+                  }))}
+                  min="0"
+                />
+              </div>
+              <div className="flex items-center space-x-2 pb-2">
+                <Switch
+                  id="tier-popular"
+                  checked={formData.popular}
+                  onCheckedChange={(popular) => setFormData(prev => ({ ...prev, popular }))}
+                />
+                <Label htmlFor="tier-popular">Most popular</Label>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={handleDialogClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {deleteConfirm && (
+        <ConfirmDialog
+          open={!!deleteConfirm}
+          onOpenChange={() => setDeleteConfirm(null)}
+          title="Delete Pricing Tier"
+          description={`Are you sure you want to delete "${deleteConfirm.name}"? Pricing sections that selected it will stop showing it. This action cannot be undone.`}
+          confirmLabel="Delete Tier"
+          variant="destructive"
+          onConfirm={() => deleteMutation.mutate(deleteConfirm.id)}
+          loading={deleteMutation.isPending}
+        />
+      )}
+
+      {editingTier && (
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={{ ...editingTier, ...toTierData(formData) }}
+          onResolve={loadTier}
+          onOverwrite={saveTier}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminPricing;
@@ -17,13 +17,22 @@ import { LoadingCardSkeleton } from '@/components/admin/LoadingSkeleton';
 import { GalleryManager } from '@/components/admin/GalleryManager';
 import { SEOEditor, SEOData } from '@/components/admin/SEOEditor';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RevisionHistory } from '@/components/admin/revisions/RevisionHistory';
 import { ArrowLeft, Save, Eye } from 'lucide-react';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
 
 function AdminProjectEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { isEditor } = useAuth();
   const isEditing = id !== 'new' && isValidUUID(id || '');
+  const editLock = useEditLock('project', isEditing ? id : undefined);
+  const saveConflict = useSaveConflict();
 
   const [project, setProject] = useState<Partial<Project>>({
     title: '',
@@ -46,6 +55,7 @@ function AdminProjectEditor() {
     try {
       const data = await adminCms.getProject(projectId);
       setProject(data);
+      saveConflict.setBase(data);
       
       const imageData = await adminCms.getProjectImages(projectId);
       setImages(imageData);
@@ -72,12 +82,18 @@ function AdminProjectEditor() {
     }
   };
 
-  const handleSave = async () => {
+  const handleSave = async (expectedUpdatedAt = project.updated_at) => {
     if (!project.title?.trim()) {
       adminToast.validationError('Project title is required');
       return;
     }
 
+    const scheduleIssue = getScheduleIssue(project.publish_at, project.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
     try {
       const slug = await ensureUniqueSlug('projects', generateSlug(project.title), isEditing ? project.id : undefined);
@@ -88,10 +104,14 @@ function AdminProjectEditor() {
         body: project.body || {},
         status: project.status!,
         published_at: project.status === 'published' && !project.published_at ? new Date().toISOString() : project.published_at,
+        publish_at: project.publish_at ?? null,
+        unpublish_at: project.unpublish_at ?? null,
       };
 
       if (isEditing) {
-        await adminCms.updateProject(project.id!, projectData);
+        const saved = await adminCms.updateProject(project.id!, projectData, expectedUpdatedAt);
+        setProject(prev => ({ ...prev, updated_at: saved.updated_at }));
+        saveConflict.setBase(saved);
         adminToast.updated('Project', project.title);
       } else {
         const newProject = await adminCms.createProject(projectData);
@@ -99,6 +119,7 @@ function AdminProjectEditor() {
         navigate(`/admin/projects/${newProject.id}/edit`);
       }
     } catch (error) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving project:', error);
       if (error instanceof Error && error.message.includes('permission')) {
         adminToast.permissionDenied('save projects');
@@ -178,13 +199,15 @@ function AdminProjectEditor() {
                 </a>
               </Button>
             )}
-            <Button onClick={handleSave} disabled={saving}>
+            <Button onClick={() => handleSave()} disabled={saving || editLock.lockedByOther}>
               <Save className="h-4 w-4 mr-2" />
               {saving ? 'Saving...' : 'Save Project'}
             </Button>
           </div>
         </div>
 
+        <EditLockBanner {...editLock} />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
@@ -276,6 +299,19 @@ function AdminProjectEditor() {
                 disabled={saving}
               />
             )}
+
+            {isEditing && id && (
+              <RevisionHistory
+                entityType="project"
+                entityId={id}
+                updatedAt={project.updated_at}
+                onRestored={(body, saved) => {
+                  setProject(prev => ({ ...prev, body, updated_at: saved.updated_at }));
+                  saveConflict.setBase(saved);
+                }}
+                disabled={saving}
+              />
+            )}
           </div>
 
           {/* Sidebar */}
@@ -314,9 +350,24 @@ function AdminProjectEditor() {
                 </div>
               </CardContent>
             </Card>
+
+            <ScheduleCard
+              idPrefix="project"
+              value={project}
+              isLive={project.status === 'published'}
+              onChange={(schedule) => setProject(prev => ({ ...prev, ...schedule }))}
+              disabled={saving}
+            />
           </div>
         </div>
       </div>
+
+      <StaleContentDialog
+        conflict={saveConflict}
+        current={project}
+        onResolve={setProject}
+        onOverwrite={handleSave}
+      />
     </>
   );
 }
@@ -17,6 +17,8 @@ import { EmptyState } from '@/components/admin/EmptyState';
 import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, FolderOpen } from 'lucide-react';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 function AdminProjects() {
   const { isAdmin, isEditor } = useAuth();
@@ -65,7 +67,9 @@ function AdminProjects() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(project => project.status === statusFilter);
+      filtered = filtered.filter(project =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(project) : project.status === statusFilter
+      );
     }
 
     setFilteredProjects(filtered);
@@ -170,6 +174,7 @@ function AdminProjects() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="published">Published</SelectItem>
                   <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -212,6 +217,7 @@ function AdminProjects() {
                           <Badge variant={getStatusBadgeVariant(project.status)}>
                             {project.status}
                           </Badge>
+                          <ScheduleBadge item={project} />
                         </div>
                         <p className="text-sm text-muted-foreground">/portfolio/{project.slug}</p>
                         {project.excerpt && (
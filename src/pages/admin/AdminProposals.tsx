@@ -44,6 +44,9 @@ import {
   exportTemplateAsJSON,
   logTemplateOperation
 } from '@/lib/proposal-helpers';
+import { useAutosave } from '@/hooks/useAutosave';
+import { RestoreDraftBanner } from '@/components/admin/editing/RestoreDraftBanner';
+import { AutosaveIndicator } from '@/components/admin/editing/AutosaveIndicator';
 
 export default function AdminProposals() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -75,6 +78,12 @@ export default function AdminProposals() {
     currency: 'usd'
   });
   const [editorMode, setEditorMode] = useState<'rich' | 'html'>('rich');
+  const autosave = useAutosave({
+    entityType: 'proposal',
+    entityKey: 'new',
+    value: proposalForm,
+    ready: !loading,
+  });
 
   useEffect(() => {
     fetchProposals();
@@ -207,19 +216,29 @@ export default function AdminProposals() {
 
       adminToast.created('proposal', proposalForm.title);
       setShowCreateDialog(false);
-      setProposalForm({
+      const emptyForm: CreateProposalData = {
         title: '',
         subject: '',
         content: '',
         recipients: [{ email: '', name: '', role: 'primary' }],
         currency: 'usd'
-      });
+      };
+      setProposalForm(emptyForm);
+      autosave.markSaved(emptyForm);
       fetchProposals();
     } catch (error: any) {
       adminToast.error('Failed to create proposal', error.message);
     }
   };
 
+  const restoreDraft = () => {
+    const draft = autosave.restore();
+    if (!draft) return;
+    setProposalForm(draft);
+    setActiveTab('proposals');
+    setShowCreateDialog(true);
+  };
+
   const sendProposal = async (proposalId: string) => {
     try {
       const { data, error } = await supabase.functions.invoke('send-proposal', {
@@ -446,6 +465,12 @@ export default function AdminProposals() {
         </Button>
       </div>
 
+      <RestoreDraftBanner
+        draft={autosave.recoverable}
+        onRestore={restoreDraft}
+        onDiscard={autosave.discard}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
@@ -963,7 +988,8 @@ export default function AdminProposals() {
               </Button>
             </div>
 
-            <div className="flex justify-end space-x-2 pt-4">
+            <div className="flex items-center justify-end space-x-2 pt-4">
+              <AutosaveIndicator {...autosave} />
               <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
                 Cancel
               </Button>
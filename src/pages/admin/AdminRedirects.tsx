@@ -0,0 +1,505 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { SEOHead } from '@/lib/seo';
+import { adminCms, exportToCSV } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { getRedirectIssue, getRedirectMatchType, normalizeRedirectPath, resolveRedirect } from '@/lib/redirects';
+import { EmptyState } from '@/components/admin/EmptyState';
+import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
+import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { isStaleContentError } from '@/lib/concurrency';
+import type { Redirect } from '@/types/content';
+import { AlertTriangle, Download, Pencil, Plus, Search, Shuffle, Trash2 } from 'lucide-react';
+
+type RedirectFilter = 'all' | 'manual' | 'automatic' | 'inactive';
+
+interface RedirectForm {
+  source_path: string;
+  target_path: string;
+  status_code: Redirect['status_code'];
+  is_active: boolean;
+  note: string;
+}
+
+const EMPTY_FORM: RedirectForm = { source_path: '', target_path: '', status_code: 301, is_active: true, note: '' };
+
+const ENTITY_LABELS: Record<string, string> = {
+  page: 'Page',
+  service: 'Service',
+  project: 'Project',
+  blog_post: 'Blog post',
+  case_study: 'Case study',
+  lab_project: 'Lab project',
+  job: 'Job',
+};
+
+function AdminRedirects() {
+  const { isEditor } = useAuth();
+  const queryClient = useQueryClient();
+  const [redirects, setRedirects] = useState<Redirect[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<RedirectFilter>('all');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Redirect | null>(null);
+  const [form, setForm] = useState<RedirectForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<Redirect | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [testPath, setTestPath] = useState('');
+  const saveConflict = useSaveConflict();
+
+  useEffect(() => {
+    fetchRedirects();
+  }, []);
+
+  const fetchRedirects = async () => {
+    try {
+      setRedirects(await adminCms.getAllRedirects());
+    } catch (error) {
+      console.error('Error fetching redirects:', error);
+      adminToast.networkError();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const activeRedirects = useMemo(() => redirects.filter(redirect => redirect.is_active), [redirects]);
+
+  // Rules that currently end up in a loop, checked the same way visitors resolve them
+  const loopingIds = useMemo(() => new Set(
+    activeRedirects
+      .filter(redirect => resolveRedirect(activeRedirects, redirect.source_path.replace('*', 'example'))?.loop)
+      .map(redirect => redirect.id)
+  ), [activeRedirects]);
+
+  const filteredRedirects = redirects.filter(redirect => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term
+      || redirect.source_path.toLowerCase().includes(term)
+      || redirect.target_path.toLowerCase().includes(term);
+    const matchesFilter = filter === 'all'
+      || (filter === 'manual' && !redirect.entity_type)
+      || (filter === 'automatic' && !!redirect.entity_type)
+      || (filter === 'inactive' && !redirect.is_active);
+    return matchesSearch && matchesFilter;
+  });
+
+  const testResult = testPath.trim() ? resolveRedirect(activeRedirects, testPath) : null;
+
+  // The public site caches the rules; drop them so changes apply straight away
+  const refreshPublicRedirects = () => queryClient.invalidateQueries({ queryKey: ['redirects'] });
+
+  const loadRedirect = (redirect: Redirect | null) => {
+    setEditing(redirect);
+    setForm(redirect
+      ? {
+          source_path: redirect.source_path,
+          target_path: redirect.target_path,
+          status_code: redirect.status_code,
+          is_active: redirect.is_active,
+          note: redirect.note || '',
+        }
+      : EMPTY_FORM);
+  };
+
+  const openDialog = (redirect: Redirect | null) => {
+    loadRedirect(redirect);
+    saveConflict.setBase(redirect);
+    saveConflict.dismiss();
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveRedirect();
+  };
+
+  const saveRedirect = async (expectedUpdatedAt = editing?.updated_at) => {
+    const sourcePath = normalizeRedirectPath(form.source_path);
+    const targetPath = form.target_path.trim();
+    const otherRules = activeRedirects.filter(redirect => redirect.id !== editing?.id);
+    const issue = getRedirectIssue({ source_path: sourcePath, target_path: targetPath }, form.is_active ? otherRules : []);
+    if (issue) {
+      adminToast.validationError(issue);
+      return;
+    }
+
+    const values = {
+      source_path: sourcePath,
+      target_path: targetPath,
+      status_code: form.status_code,
+      match_type: getRedirectMatchType(sourcePath),
+      is_active: form.is_active,
+      note: form.note.trim() || null,
+    };
+
+    setSaving(true);
+    try {
+      if (editing) {
+        const saved = await adminCms.updateRedirect(editing.id, values, expectedUpdatedAt);
+        setRedirects(prev => prev.map(redirect => (redirect.id === saved.id ? saved : redirect)));
+        adminToast.updated('Redirect', saved.source_path);
+      } else {
+        const saved = await adminCms.createRedirect(values);
+        setRedirects(prev => [saved, ...prev]);
+        adminToast.created('Redirect', saved.source_path);
+      }
+      refreshPublicRedirects();
+      setDialogOpen(false);
+    } catch (error) {
+      if (saveConflict.capture(error)) return;
+      console.error('Error saving redirect:', error);
+      adminToast.error('Failed to save redirect', error instanceof Error ? error.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (redirect: Redirect, isActive: boolean) => {
+    if (isActive) {
+      const issue = getRedirectIssue(redirect, activeRedirects.filter(other => other.id !== redirect.id));
+      if (issue) {
+        adminToast.validationError(issue);
+        return;
+      }
+    }
+
+    try {
+      const saved = await adminCms.updateRedirect(redirect.id, { is_active: isActive }, redirect.updated_at);
+      setRedirects(prev => prev.map(item => (item.id === saved.id ? saved : item)));
+      refreshPublicRedirects();
+    } catch (error) {
+      console.error('Error updating redirect:', error);
+      if (isStaleContentError(error)) {
+        adminToast.error('Failed to update redirect', 'It was changed by someone else. The list has been refreshed.');
+        fetchRedirects();
+      } else {
+        adminToast.error('Failed to update redirect', error instanceof Error ? error.message : undefined);
+      }
+    }
+  };
+
+  const handleDelete = async (redirect: Redirect) => {
+    setDeleting(true);
+    try {
+      await adminCms.deleteRedirect(redirect.id);
+      setRedirects(prev => prev.filter(item => item.id !== redirect.id));
+      refreshPublicRedirects();
+      adminToast.deleted('Redirect', redirect.source_path);
+    } catch (error) {
+      console.error('Error deleting redirect:', error);
+      adminToast.error('Failed to Delete', 'Unable to delete redirect. Please try again.');
+    } finally {
+      setDeleting(false);
+      setDeleteConfirm(null);
+    }
+  };
+
+  const handleExport = () => {
+    exportToCSV(filteredRedirects.map(redirect => ({
+      Source: redirect.source_path,
+      Target: redirect.target_path,
+      Status: redirect.status_code,
+      Match: redirect.match_type,
+      Active: redirect.is_active,
+      Hits: redirect.hit_count,
+      'Last Hit': redirect.last_hit_at || '',
+      Origin: redirect.entity_type ? `Slug change (${ENTITY_LABELS[redirect.entity_type]})` : 'Manual',
+      Note: redirect.note || '',
+    })), 'redirects');
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="text-center py-8">
+        <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+        <p className="text-muted-foreground">You don't have permission to manage redirects.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SEOHead
+        title="Redirects - Admin Panel"
+        description="Manage URL redirects"
+      />
+      <meta name="robots" content="noindex,nofollow" />
+
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Redirects</h1>
+            <p className="text-muted-foreground">Send visitors from old URLs to their new location</p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={filteredRedirects.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Redirect
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Test a URL</CardTitle>
+            <CardDescription>See where a path would be redirected with the active rules</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Input
+              value={testPath}
+              onChange={(e) => setTestPath(e.target.value)}
+              placeholder="/services/old-name"
+              aria-label="Path to test"
+            />
+            {testPath.trim() && (
+              <p className="text-sm text-muted-foreground">
+                {!testResult && 'No redirect applies; the page is shown or a 404 if it does not exist.'}
+                {testResult?.loop && (
+                  <span className="text-destructive">
+                    Redirect loop: {testResult.hops.map(hop => hop.source_path).join(' → ')} → …
+                  </span>
+                )}
+                {testResult && !testResult.loop && (
+                  <>
+                    {testResult.statusCode} to <span className="font-mono text-foreground">{testResult.target}</span>
+                    {testResult.hops.length > 1 && ` after ${testResult.hops.length} redirects`}
+                  </>
+                )}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Redirects</CardTitle>
+            <CardDescription>Redirects marked "Slug change" were created when content was renamed</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by source or target..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={filter} onValueChange={(value: RedirectFilter) => setFilter(value)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Redirects</SelectItem>
+                  <SelectItem value="manual">Manual</SelectItem>
+                  <SelectItem value="automatic">Slug changes</SelectItem>
+                  <SelectItem value="inactive">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading ? (
+              <LoadingListSkeleton />
+            ) : filteredRedirects.length === 0 ? (
+              <EmptyState
+                icon={Shuffle}
+                title={redirects.length === 0 ? 'No redirects yet' : 'No matching redirects'}
+                description={redirects.length === 0
+                  ? 'Redirects are added automatically when a published slug changes, or you can add one yourself.'
+                  : 'Try a different search or filter.'}
+                actionLabel={redirects.length === 0 ? 'Create Redirect' : 'Clear Filters'}
+                onActionClick={redirects.length === 0
+                  ? () => openDialog(null)
+                  : () => {
+                      setSearchTerm('');
+                      setFilter('all');
+                    }}
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Hits</TableHead>
+                    <TableHead>Last Hit</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRedirects.map(redirect => (
+                    <TableRow key={redirect.id}>
+                      <TableCell>
+                        <div className="font-mono text-sm break-all">{redirect.source_path}</div>
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {redirect.match_type === 'wildcard' && <Badge variant="outline">Wildcard</Badge>}
+                          {redirect.entity_type && <Badge variant="secondary">Slug change · {ENTITY_LABELS[redirect.entity_type]}</Badge>}
+                          {loopingIds.has(redirect.id) && (
+                            <Badge variant="destructive">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Loop
+                            </Badge>
+                          )}
+                        </div>
+                        {redirect.note && <p className="text-xs text-muted-foreground mt-1">{redirect.note}</p>}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm break-all">{redirect.target_path}</TableCell>
+                      <TableCell>{redirect.status_code}</TableCell>
+                      <TableCell>{redirect.hit_count}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {redirect.last_hit_at ? formatDate(redirect.last_hit_at) : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={redirect.is_active}
+                          onCheckedChange={(checked) => toggleActive(redirect, checked)}
+                          aria-label={`${redirect.is_active ? 'Deactivate' : 'Activate'} redirect from ${redirect.source_path}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(redirect)} aria-label={`Edit redirect from ${redirect.source_path}`}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteConfirm(redirect)}
+                            className="text-destructive hover:text-destructive"
+                            aria-label={`Delete redirect from ${redirect.source_path}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Redirect' : 'New Redirect'}</DialogTitle>
+            <DialogDescription>
+              End the source with * to match everything below it; a * in the target is replaced by the matched part.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="redirect-source">Source path *</Label>
+              <Input
+                id="redirect-source"
+                value={form.source_path}
+                onChange={(e) => setForm(prev => ({ ...prev, source_path: e.target.value }))}
+                placeholder="/old-blog/*"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="redirect-target">Target *</Label>
+              <Input
+                id="redirect-target"
+                value={form.target_path}
+                onChange={(e) => setForm(prev => ({ ...prev, target_path: e.target.value }))}
+                placeholder="/blog/*"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="redirect-status">Type</Label>
+                <Select
+                  value={String(form.status_code)}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, status_code: Number(value) as Redirect['status_code'] }))}
+                >
+                  <SelectTrigger id="redirect-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="301">301 Permanent</SelectItem>
+                    <SelectItem value="302">302 Temporary</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pt-7">
+                <Switch
+                  id="redirect-active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+                />
+                <Label htmlFor="redirect-active">Active</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="redirect-note">Note</Label>
+              <Textarea
+                id="redirect-note"
+                value={form.note}
+                onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="Why this redirect exists"
+                rows={2}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save Redirect'}</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {deleteConfirm && (
+        <ConfirmDialog
+          open={!!deleteConfirm}
+          onOpenChange={() => setDeleteConfirm(null)}
+          title="Delete Redirect"
+          description={`Delete the redirect from "${deleteConfirm.source_path}"? Visitors to that URL will see a 404 page.`}
+          confirmLabel="Delete Redirect"
+          variant="destructive"
+          onConfirm={() => handleDelete(deleteConfirm)}
+          loading={deleting}
+        />
+      )}
+
+      {dialogOpen && editing && (
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={{ ...editing, ...form, note: form.note || null }}
+          onResolve={loadRedirect}
+          onOverwrite={saveRedirect}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminRedirects;
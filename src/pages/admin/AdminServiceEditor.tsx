@@ -16,14 +16,25 @@ import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { SEOEditor, SEOData } from '@/components/admin/SEOEditor';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { adminToast } from '@/lib/toast-utils';
+import { RevisionHistory } from '@/components/admin/revisions/RevisionHistory';
 import { isValidUUID } from '@/lib/admin-utils';
 import { Helmet } from 'react-helmet-async';
 import type { Service } from '@/types/content';
+import { WorkflowPanel } from '@/components/admin/workflow/WorkflowPanel';
+import { useEditorialWorkflow } from '@/hooks/useEditorialWorkflow';
+import { getWorkflowState, getWorkflowStatusUpdate } from '@/lib/workflow';
+import { ScheduleCard } from '@/components/admin/schedule/ScheduleCard';
+import { getScheduleIssue } from '@/lib/schedule';
+import { useEditLock } from '@/hooks/useEditLock';
+import { useSaveConflict } from '@/hooks/useSaveConflict';
+import { EditLockBanner } from '@/components/admin/editing/EditLockBanner';
+import { StaleContentDialog } from '@/components/admin/editing/StaleContentDialog';
 
 function AdminServiceEditorContent() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { userRole } = useAuth();
+  const workflow = useEditorialWorkflow();
   const [loading, setLoading] = useState(!!id);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -35,6 +46,8 @@ function AdminServiceEditorContent() {
     content: '',
     status: 'draft'
   });
+  const editLock = useEditLock('service', id && id !== 'new' ? id : undefined);
+  const saveConflict = useSaveConflict();
 
   useEffect(() => {
     if (id && id !== 'new' && isValidUUID(id)) {
@@ -51,6 +64,7 @@ function AdminServiceEditorContent() {
       const data = await adminCms.getService(id);
       if (data) {
         setService(data);
+        saveConflict.setBase(data);
       } else {
         adminToast.error('Service not found');
         navigate('/admin/services');
@@ -79,8 +93,18 @@ function AdminServiceEditorContent() {
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    saveService();
+  };
+
+  const saveService = async (expectedUpdatedAt = service.updated_at) => {
+    const scheduleIssue = getScheduleIssue(service.publish_at, service.unpublish_at);
+    if (scheduleIssue) {
+      adminToast.validationError(scheduleIssue);
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -90,7 +114,7 @@ function AdminServiceEditorContent() {
       };
 
       if (id) {
-        await adminCms.updateService(id, serviceData);
+        await adminCms.updateService(id, serviceData, expectedUpdatedAt);
         adminToast.updated('Service');
       } else {
         await adminCms.createService(serviceData as Omit<Service, 'id' | 'created_at' | 'updated_at'>);
@@ -99,6 +123,7 @@ function AdminServiceEditorContent() {
 
       navigate('/admin/services');
     } catch (error: any) {
+      if (saveConflict.capture(error)) return;
       console.error('Error saving service:', error);
       adminToast.error('Failed to save service', error.message);
     } finally {
@@ -177,7 +202,7 @@ function AdminServiceEditorContent() {
             <Button
               type="submit"
               form="service-form"
-              disabled={saving}
+              disabled={saving || editLock.lockedByOther}
               className="flex items-center space-x-2"
             >
               <Save className="h-4 w-4" />
@@ -186,6 +211,8 @@ function AdminServiceEditorContent() {
           </div>
         </div>
 
+        <EditLockBanner {...editLock} />
+
         {/* Service Form */}
         <Card>
           <CardHeader>
@@ -223,21 +250,23 @@ function AdminServiceEditorContent() {
                 </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select
-                  value={service.status}
-                  onValueChange={(value) => setService(prev => ({ ...prev, status: value as 'draft' | 'published' }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="draft">Draft</SelectItem>
-                    <SelectItem value="published">Published</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {!workflow.enabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="status">Status</Label>
+                  <Select
+                    value={service.status}
+                    onValueChange={(value) => setService(prev => ({ ...prev, status: value as 'draft' | 'published' }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="draft">Draft</SelectItem>
+                      <SelectItem value="published">Published</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
 
               {/* Content */}
               <Separator />
@@ -273,6 +302,39 @@ function AdminServiceEditorContent() {
           </CardContent>
         </Card>
 
+        {/* Review workflow */}
+        {workflow.enabled && (
+          <WorkflowPanel
+            entityType="service"
+            entityId={id}
+            state={getWorkflowState(service)}
+            onTransition={(state, updatedAt) => setService(prev => ({ ...prev, ...getWorkflowStatusUpdate(state, prev), updated_at: updatedAt ?? prev.updated_at }))}
+            disabled={saving}
+          />
+        )}
+
+        <ScheduleCard
+          idPrefix="service"
+          value={service}
+          isLive={service.status === 'published'}
+          onChange={(schedule) => setService(prev => ({ ...prev, ...schedule }))}
+          disabled={saving}
+        />
+
+        {/* Revision History */}
+        {id && (
+          <RevisionHistory
+            entityType="service"
+            entityId={id}
+            updatedAt={service.updated_at}
+            onRestored={(content, saved) => {
+              setService(prev => ({ ...prev, content, updated_at: saved.updated_at }));
+              saveConflict.setBase(saved);
+            }}
+            disabled={saving}
+          />
+        )}
+
         {/* Delete Confirmation Dialog */}
         <ConfirmDialog
           open={showDeleteDialog}
@@ -285,6 +347,13 @@ function AdminServiceEditorContent() {
           onConfirm={handleDelete}
           loading={deleting}
         />
+
+        <StaleContentDialog
+          conflict={saveConflict}
+          current={service}
+          onResolve={setService}
+          onOverwrite={saveService}
+        />
       </div>
     </>
   );
@@ -18,6 +18,8 @@ import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
 import { ConfirmDialog } from '@/components/admin/ConfirmDialog';
 import { Plus, Search, Edit, Trash2, Eye, Settings, Wifi, WifiOff, RefreshCw } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScheduleBadge } from '@/components/admin/schedule/ScheduleBadge';
+import { hasPendingSchedule } from '@/lib/schedule';
 
 function AdminServices() {
   const { isAdmin, isEditor } = useAuth();
@@ -266,7 +268,9 @@ function AdminServices() {
     }
 
     if (statusFilter !== 'all') {
-      filtered = filtered.filter(service => service.status === statusFilter);
+      filtered = filtered.filter(service =>
+        statusFilter === 'scheduled' ? hasPendingSchedule(service) : service.status === statusFilter
+      );
     }
 
     setFilteredServices(filtered);
@@ -452,6 +456,7 @@ function AdminServices() {
                     <SelectItem value="all">All Status</SelectItem>
                     <SelectItem value="published">Published</SelectItem>
                     <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -515,6 +520,7 @@ function AdminServices() {
                             <Badge variant={getStatusBadgeVariant(service.status)}>
                               {service.status}
                             </Badge>
+                            <ScheduleBadge item={service} />
                           </div>
                           <p className="text-sm text-muted-foreground">/services/{service.slug}</p>
                           {service.excerpt && (
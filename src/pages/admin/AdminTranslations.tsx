@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SEOHead } from '@/lib/seo';
+import { adminCms } from '@/lib/admin-cms';
+import { useAuth } from '@/lib/auth';
+import { formatDate } from '@/lib/admin-utils';
+import { adminToast } from '@/lib/toast-utils';
+import { DEFAULT_LOCALE, LOCALES, getTranslationStatus, type Locale, type TranslationStatus } from '@/lib/i18n';
+import { EmptyState } from '@/components/admin/EmptyState';
+import { LoadingListSkeleton } from '@/components/admin/LoadingSkeleton';
+import { TranslationEditorDialog } from '@/components/admin/translations/TranslationEditorDialog';
+import type { ContentTranslation, TranslatableEntityType, TranslationSource } from '@/types/content';
+import { Languages, Pencil, Plus, Search } from 'lucide-react';
+
+const ENTITY_LABELS: Record<TranslatableEntityType, string> = {
+  page: 'Pages',
+  service: 'Services',
+  project: 'Projects',
+  blog_post: 'Blog posts',
+  faq: 'FAQs',
+  case_study: 'Case studies',
+  job: 'Jobs',
+};
+
+const STATUS_LABELS: Record<TranslationStatus, string> = {
+  missing: 'Missing',
+  draft: 'Draft',
+  outdated: 'Outdated',
+  published: 'Published',
+};
+
+const STATUS_VARIANTS: Record<TranslationStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  missing: 'outline',
+  draft: 'secondary',
+  outdated: 'destructive',
+  published: 'default',
+};
+
+const TRANSLATION_LOCALES = LOCALES.filter(locale => locale.code !== DEFAULT_LOCALE);
+
+function AdminTranslations() {
+  const { isEditor } = useAuth();
+  const queryClient = useQueryClient();
+  const [entityType, setEntityType] = useState<TranslatableEntityType>('page');
+  const [locale, setLocale] = useState<Locale>(TRANSLATION_LOCALES[0].code);
+  const [statusFilter, setStatusFilter] = useState<TranslationStatus | 'all'>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sources, setSources] = useState<TranslationSource[]>([]);
+  const [translations, setTranslations] = useState<ContentTranslation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<TranslationSource | null>(null);
+
+  const fetchContent = useCallback(async (type: TranslatableEntityType) => {
+    setLoading(true);
+    try {
+      const [sourceRows, translationRows] = await Promise.all([
+        adminCms.getTranslationSources(type),
+        adminCms.getContentTranslations(type),
+      ]);
+      setSources(sourceRows);
+      setTranslations(translationRows);
+    } catch (error) {
+      console.error('Error fetching translations:', error);
+      adminToast.networkError();
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchContent(entityType);
+  }, [entityType, fetchContent]);
+
+  const translationsById = useMemo(() => new Map(
+    translations
+      .filter(translation => translation.locale === locale)
+      .map(translation => [translation.entity_id, translation])
+  ), [translations, locale]);
+
+  const rows = useMemo(() => sources.map(source => ({
+    source,
+    translation: translationsById.get(source.id),
+    status: getTranslationStatus(source, translationsById.get(source.id)),
+  })), [sources, translationsById]);
+
+  const counts = useMemo(() => {
+    const result: Record<TranslationStatus, number> = { missing: 0, draft: 0, outdated: 0, published: 0 };
+    rows.forEach(row => { result[row.status] += 1; });
+    return result;
+  }, [rows]);
+
+  const filteredRows = rows.filter(row => {
+    const matchesStatus = statusFilter === 'all' || row.status === statusFilter;
+    const matchesSearch = !searchTerm || (row.source.title || '').toLowerCase().includes(searchTerm.toLowerCase());
+    return matchesStatus && matchesSearch;
+  });
+
+  const handleSaved = (saved: ContentTranslation) => {
+    setTranslations(prev => [...prev.filter(translation => translation.id !== saved.id), saved]);
+    queryClient.invalidateQueries({ queryKey: ['translations', entityType] });
+  };
+
+  if (!isEditor) {
+    return (
+      <div className="text-center py-8">
+        <h1 className="text-2xl font-bold text-destructive mb-2">Access Denied</h1>
+        <p className="text-muted-foreground">You don't have permission to manage translations.</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <SEOHead
+        title="Translations - Admin Panel"
+        description="Manage content translations"
+      />
+      <meta name="robots" content="noindex,nofollow" />
+
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Translations</h1>
+          <p className="text-muted-foreground">Translate content and keep translations in step with the English version</p>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          {(Object.keys(STATUS_LABELS) as TranslationStatus[]).map(status => (
+            <Card key={status}>
+              <CardHeader className="pb-2">
+                <CardDescription>{STATUS_LABELS[status]}</CardDescription>
+                <CardTitle className="text-2xl">{loading ? '—' : counts[status]}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{ENTITY_LABELS[entityType]}</CardTitle>
+            <CardDescription>
+              "Outdated" translations were published before the English version last changed
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+              <div className="relative flex-1 min-w-48">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by title..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Select value={entityType} onValueChange={(value: TranslatableEntityType) => setEntityType(value)}>
+                <SelectTrigger className="w-40" aria-label="Content type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ENTITY_LABELS) as TranslatableEntityType[]).map(type => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={locale} onValueChange={(value: Locale) => setLocale(value)}>
+                <SelectTrigger className="w-40" aria-label="Language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSLATION_LOCALES.map(item => (
+                    <SelectItem key={item.code} value={item.code}>{item.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={(value: TranslationStatus | 'all') => setStatusFilter(value)}>
+                <SelectTrigger className="w-40" aria-label="Translation status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {(Object.keys(STATUS_LABELS) as TranslationStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loading ? (
+              <LoadingListSkeleton />
+            ) : filteredRows.length === 0 ? (
+              <EmptyState
+                icon={Languages}
+                title={sources.length === 0 ? `No ${ENTITY_LABELS[entityType].toLowerCase()} yet` : 'No matching content'}
+                description={sources.length === 0
+                  ? 'Content appears here once it has been created in English.'
+                  : 'Try a different search or status.'}
+                actionLabel="Clear Filters"
+                onActionClick={() => {
+                  setSearchTerm('');
+                  setStatusFilter('all');
+                }}
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Title</TableHead>
+                    <TableHead>Content Status</TableHead>
+                    <TableHead>English Updated</TableHead>
+                    <TableHead>Translation</TableHead>
+                    <TableHead className="w-32">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRows.map(({ source, translation, status }) => (
+                    <TableRow key={source.id}>
+                      <TableCell className="font-medium">{source.title}</TableCell>
+                      <TableCell className="capitalize">{source.status}</TableCell>
+                      <TableCell>{formatDate(source.updated_at)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => setEditing(source)}>
+                          {translation ? <Pencil className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                          {translation ? 'Edit' : 'Translate'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {editing && (
+        <TranslationEditorDialog
+          key={`${editing.id}-${locale}`}
+          open={!!editing}
+          onOpenChange={(open) => { if (!open) setEditing(null); }}
+          entityType={entityType}
+          locale={locale}
+          source={editing}
+          translation={translationsById.get(editing.id)}
+          onSaved={handleSaved}
+        />
+      )}
+    </>
+  );
+}
+
+export default AdminTranslations;
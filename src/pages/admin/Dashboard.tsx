@@ -17,6 +17,8 @@ import { SystemHealthWidget } from '@/components/admin/SystemHealthWidget';
 import { ErrorBoundaryWrapper } from '@/components/admin/ErrorBoundaryWrapper';
 import { SecurityMonitor } from '@/components/admin/SecurityMonitor';
 import { NetworkDebugWidget } from '@/components/admin/NetworkDebugWidget';
+import { ReviewQueueCard } from '@/components/admin/workflow/ReviewQueueCard';
+import { useEditorialWorkflow } from '@/hooks/useEditorialWorkflow';
 
 interface DashboardStats {
   services: number;
@@ -51,6 +53,7 @@ interface RecentItem {
 
 export default function AdminDashboard() {
   const { userRole, isEditor } = useAuth();
+  const workflow = useEditorialWorkflow();
   const navigate = useNavigate();
   const [stats, setStats] = useState<DashboardStats>({
     services: 0,
@@ -417,6 +420,9 @@ export default function AdminDashboard() {
           </ErrorBoundaryWrapper>
         </div>
 
+        {/* Review Queue */}
+        {isEditor && workflow.enabled && <ReviewQueueCard />}
+
         {/* Recent Activity */}
         {isEditor && (
           <Card>
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation, type Location } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,14 +11,18 @@ import { AlertCircle } from 'lucide-react';
 
 export default function AdminLogin() {
   const { user, signIn, loading } = useAuth();
+  const location = useLocation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated, back to the admin page that sent us here (e.g. an
+  // editor whose session expired, which then offers to restore its autosaved changes)
   if (user && !loading) {
-    return <Navigate to="/admin" replace />;
+    const from = (location.state as { from?: Location } | null)?.from;
+    const returnTo = from?.pathname.startsWith('/admin') ? `${from.pathname}${from.search}` : '/admin';
+    return <Navigate to={returnTo} replace />;
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
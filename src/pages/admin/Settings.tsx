@@ -1,14 +1,18 @@
 import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { SEOHead } from '@/lib/seo';
 import { adminCms } from '@/lib/admin-cms';
 import { useAuth } from '@/lib/auth';
+import { isWorkflowEnabled } from '@/lib/workflow';
 import { Save, Upload, Palette, Phone, Mail, MapPin, Globe, Search, FileText, AlertTriangle } from 'lucide-react';
 import { PaymentsTab } from '@/components/settings/PaymentsTab';
 import { ProposalsTab } from '@/components/settings/ProposalsTab';
@@ -53,11 +57,15 @@ interface SiteSettings {
   gsc_verification_code?: string;
   tracking_enabled?: boolean;
   show_consent_banner?: boolean;
+
+  // Publishing
+  editorial_workflow?: boolean;
 }
 
 export default function Settings() {
   const { isAdmin } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [settings, setSettings] = useState<SiteSettings>({
     site_title: '',
     site_description: '',
@@ -134,6 +142,7 @@ export default function Settings() {
         gsc_verification_code: data.gsc_verification_code || '',
         tracking_enabled: data.tracking_enabled !== false,
         show_consent_banner: data.show_consent_banner !== false,
+        editorial_workflow: isWorkflowEnabled(data),
       });
 
       // Phase 7: Load payment and proposal settings
@@ -222,6 +231,7 @@ export default function Settings() {
       const proposalUpdate = adminCms.updateSetting('proposals', JSON.stringify(proposalSettings));
       
       await Promise.all([...settingsToUpdate, paymentUpdate, proposalUpdate]);
+      queryClient.invalidateQueries({ queryKey: ['editorial-workflow'] });
 
       toast({
         title: 'Success',
@@ -285,11 +295,12 @@ export default function Settings() {
         </div>
 
         <Tabs defaultValue="appearance" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="appearance">Appearance</TabsTrigger>
             <TabsTrigger value="contact">Contact</TabsTrigger>
             <TabsTrigger value="seo">SEO</TabsTrigger>
             <TabsTrigger value="footer">Footer</TabsTrigger>
+            <TabsTrigger value="publishing">Publishing</TabsTrigger>
             <TabsTrigger value="integrations">Integrations</TabsTrigger>
             <TabsTrigger value="payments">Payments</TabsTrigger>
             <TabsTrigger value="proposals">Proposals</TabsTrigger>
@@ -748,21 +759,10 @@ export default function Settings() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="footer_links">Footer Links (JSON)</Label>
-                    <Textarea
-                      id="footer_links"
-                      value={settings.footer_links}
-                      onChange={(e) => handleInputChange('footer_links', e.target.value)}
-                      placeholder={JSON.stringify([
-                        { title: "Company", links: [{ text: "About", href: "/about" }, { text: "Contact", href: "/contact" }] },
-                        { title: "Services", links: [{ text: "Web Design", href: "/services/web-design" }] }
-                      ], null, 2)}
-                      rows={8}
-                      className="font-mono text-sm"
-                      aria-describedby="footer-links-help"
-                    />
-                    <p id="footer-links-help" className="text-sm text-muted-foreground">
-                      JSON format with title and links array. Each link needs text and href properties.
+                    <Label>Footer Links</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Footer and header links are managed in{' '}
+                      <Link to="/admin/menus" className="text-primary underline-offset-4 hover:underline">Menus</Link>.
                     </p>
                   </div>
 
@@ -783,6 +783,32 @@ export default function Settings() {
               </Card>
             </TabsContent>
 
+            {/* Publishing Tab */}
+            <TabsContent value="publishing" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Editorial Workflow</CardTitle>
+                  <CardDescription>Review pages, services, blog posts and case studies before they go live</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id="editorial-workflow"
+                      checked={settings.editorial_workflow === true}
+                      onCheckedChange={(checked) => setSettings(prev => ({ ...prev, editorial_workflow: checked }))}
+                      disabled={saving}
+                    />
+                    <Label htmlFor="editorial-workflow" className="text-sm font-normal">
+                      Require review and approval before publishing
+                    </Label>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Editors submit content for review; admins approve it or request changes. Approved content can then be published.
+                  </p>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             {/* Phase 7: Payments Tab */}
             <TabsContent value="payments" className="space-y-6">
               <PaymentsTab
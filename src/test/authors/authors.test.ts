@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import { formatAuthorNames, getAuthorInitials, getAuthorStructuredData, normalizeSocialLinks, toBlogAuthor } from '@/lib/authors';
+
+describe('blog authors', () => {
+  test('keeps only known social networks with web URLs', () => {
+    expect(normalizeSocialLinks({
+      website: ' https://ada.dev ',
+      twitter: 'javascript:alert(1)',
+      github: '',
+      mastodon: 'https://example.social/@ada',
+    })).toEqual({ website: 'https://ada.dev' });
+    expect(normalizeSocialLinks(['https://ada.dev'])).toEqual({});
+    expect(normalizeSocialLinks(null)).toEqual({});
+  });
+
+  test('formats bylines and initials', () => {
+    expect(formatAuthorNames([])).toBe('');
+    expect(formatAuthorNames([{ name: 'Ada' }])).toBe('Ada');
+    expect(formatAuthorNames([{ name: 'Ada' }, { name: 'Grace' }])).toBe('Ada and Grace');
+    expect(formatAuthorNames([{ name: 'Ada' }, { name: 'Grace' }, { name: 'Linus' }])).toBe('Ada, Grace and Linus');
+    expect(getAuthorInitials('ada byron lovelace')).toBe('AB');
+  });
+
+  test('describes an author as a schema.org Person', () => {
+    const author = toBlogAuthor({
+      id: 'author-1',
+      name: 'Ada Lovelace',
+      slug: 'ada-lovelace',
+      job_title: 'Engineer',
+      bio: null,
+      avatar_url: 'https://cdn.example.com/ada.jpg',
+      social_links: { linkedin: 'https://linkedin.com/in/ada', github: 'https://github.com/ada' },
+      profile_id: null,
+      status: 'published',
+    });
+
+    expect(getAuthorStructuredData(author, 'https://example.com')).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Person',
+      name: 'Ada Lovelace',
+      url: 'https://example.com/blog/author/ada-lovelace',
+      jobTitle: 'Engineer',
+      image: 'https://cdn.example.com/ada.jpg',
+      sameAs: ['https://linkedin.com/in/ada', 'https://github.com/ada'],
+    });
+  });
+});
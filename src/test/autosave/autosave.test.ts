@@ -0,0 +1,67 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import {
+  getAutosaveStorageKey,
+  getDraftFingerprint,
+  isAuthError,
+  isDraftOutdated,
+  pickNewestDraft,
+  readLocalDraft,
+  removeLocalDraft,
+  writeLocalDraft,
+} from '@/lib/autosave';
+import type { EditorDraft } from '@/types/content';
+
+const draft = (saved_at: string, data: unknown = {}): EditorDraft => ({
+  entity_type: 'blog_post',
+  entity_key: 'post-1',
+  data,
+  base_updated_at: '2025-10-01T10:00:00Z',
+  saved_at,
+});
+
+describe('local drafts', () => {
+  beforeEach(() => localStorage.clear());
+
+  test('are stored per user and content', () => {
+    const key = getAutosaveStorageKey('user-1', 'blog_post', 'post-1');
+    expect(key).not.toBe(getAutosaveStorageKey('user-2', 'blog_post', 'post-1'));
+
+    writeLocalDraft(key, draft('2025-10-01T10:05:00Z', { title: 'Hello' }));
+    expect(readLocalDraft(key)?.data).toEqual({ title: 'Hello' });
+
+    removeLocalDraft(key);
+    expect(readLocalDraft(key)).toBeNull();
+  });
+});
+
+describe('draft comparison', () => {
+  test('ignores bookkeeping columns at any depth', () => {
+    const saved = { post: { title: 'Hello', updated_at: '2025-10-01T10:00:00Z' }, categoryIds: ['a'] };
+    const resaved = { post: { title: 'Hello', updated_at: '2025-10-01T10:05:00Z' }, categoryIds: ['a'] };
+    expect(getDraftFingerprint(saved)).toBe(getDraftFingerprint(resaved));
+    expect(getDraftFingerprint(saved)).not.toBe(getDraftFingerprint({ ...saved, categoryIds: [] }));
+  });
+
+  test('the newest of the local and server copies wins', () => {
+    const local = draft('2025-10-01T10:05:00Z');
+    const server = draft('2025-10-01T10:03:00Z');
+    expect(pickNewestDraft(local, server)).toBe(local);
+    expect(pickNewestDraft(null, server)).toBe(server);
+    expect(pickNewestDraft(null, undefined)).toBeNull();
+  });
+
+  test('drafts started before the last save are outdated', () => {
+    expect(isDraftOutdated(draft('2025-10-01T10:05:00Z'), '2025-10-01T10:02:00Z')).toBe(true);
+    expect(isDraftOutdated(draft('2025-10-01T10:05:00Z'), '2025-10-01T10:00:00Z')).toBe(false);
+    expect(isDraftOutdated(draft('2025-10-01T10:05:00Z'), null)).toBe(false);
+  });
+});
+
+describe('isAuthError', () => {
+  test('recognizes expired sessions', () => {
+    expect(isAuthError({ code: 'PGRST301', message: 'JWT expired' })).toBe(true);
+    expect(isAuthError(new Error('Not authenticated'))).toBe(true);
+    expect(isAuthError({ code: '23505', message: 'duplicate key value' })).toBe(false);
+    expect(isAuthError(null)).toBe(false);
+  });
+});
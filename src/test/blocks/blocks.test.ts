@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { getBlockIssuesById, normalizeBlogBody, parseBlogBody } from '@/lib/blocks/schema';
+import { getBlockHeadings, getReadingTime, listItemsToText, textToListItems, wrapSelection } from '@/lib/blocks/content';
+import { highlightCode } from '@/lib/blocks/highlight';
+
+const legacyBody = {
+  blocks: [
+    { type: 'header', data: { text: 'Intro' } },
+    { type: 'paragraph', data: { text: 'Some **bold** words' } },
+    { type: 'list', data: { items: ['One', 'Two'] } },
+  ],
+};
+
+describe('blog bodies', () => {
+  test('posts written before the block editor are normalized', () => {
+    const blocks = parseBlogBody(legacyBody);
+
+    expect(blocks.map(block => block.id)).toEqual(['block-0', 'block-1', 'block-2']);
+    expect(blocks[0]).toMatchObject({ type: 'header', data: { level: 2 } });
+    expect(blocks[2]).toMatchObject({
+      type: 'list',
+      data: { style: 'unordered', items: [{ content: 'One', items: [] }, { content: 'Two', items: [] }] },
+    });
+  });
+
+  test('invalid blocks are reported and left out when rendering', () => {
+    const body = normalizeBlogBody({
+      blocks: [
+        { id: 'a', type: 'image', data: { url: 'javascript:alert(1)', alt: '' } },
+        { id: 'b', type: 'embed', data: { url: 'https://example.com/video' } },
+        { id: 'c', type: 'table', data: { withHeadings: false, content: [['a', 'b'], ['c']] } },
+        { id: 'd', type: 'paragraph', data: { text: 'Fine' } },
+      ],
+    });
+
+    expect(Object.keys(getBlockIssuesById(body.blocks))).toEqual(['a', 'b', 'c']);
+    expect(parseBlogBody(body).map(block => block.id)).toEqual(['d']);
+  });
+
+  test('headings and reading time use the plain text of blocks', () => {
+    expect(getBlockHeadings(legacyBody)).toEqual([{ id: 'heading-block-0', text: 'Intro', level: 2 }]);
+    expect(getReadingTime({ blocks: [{ type: 'paragraph', data: { text: 'word '.repeat(401) } }] })).toBe(3);
+    expect(getReadingTime(null)).toBe(1);
+  });
+});
+
+describe('block editor text helpers', () => {
+  test('nested lists round-trip through their text form', () => {
+    const items = textToListItems('First\n  Nested\n    Deeper\n\nSecond');
+
+    expect(items).toEqual([
+      { content: 'First', items: [{ content: 'Nested', items: [{ content: 'Deeper', items: [] }] }] },
+      { content: 'Second', items: [] },
+    ]);
+    expect(listItemsToText(items)).toBe('First\n  Nested\n    Deeper\nSecond');
+  });
+
+  test('wrapping a selection keeps the same text selected', () => {
+    expect(wrapSelection('make this bold', 5, 9, '**')).toEqual({ value: 'make **this** bold', start: 7, end: 11 });
+  });
+
+  test('code is split into highlighted tokens without losing text', () => {
+    const code = 'const name = "agenko"; // greet\nreturn 42;';
+    const tokens = highlightCode(code, 'javascript');
+
+    expect(tokens.map(token => token.value).join('')).toBe(code);
+    expect(tokens).toEqual(expect.arrayContaining([
+      { type: 'keyword', value: 'const' },
+      { type: 'string', value: '"agenko"' },
+      { type: 'comment', value: '// greet' },
+      { type: 'number', value: '42' },
+    ]));
+    expect(highlightCode(code, 'plaintext')).toEqual([{ type: 'plain', value: code }]);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, test, expect } from 'vitest';
+import { markdownToBlocks } from '@/lib/blocks/markdown';
+import { htmlToBlocks } from '@/lib/blocks/html';
+import type { ContentBlock } from '@/lib/blocks/schema';
+import { parseBlogImportFiles, parseMarkdownPost, planBlogImport, replaceImageUrls } from '@/lib/blog-import';
+
+const withoutIds = (blocks: ContentBlock[]) => blocks.map(({ id: _id, ...block }) => block);
+
+const wxr = (items: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:excerpt="http://wordpress.org/export/1.2/excerpt/" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:wp="http://wordpress.org/export/1.2/">
+  <channel>${items}</channel>
+</rss>`;
+
+describe('markdown conversion', () => {
+  test('turns markdown into blocks and keeps inline formatting', () => {
+    const blocks = markdownToBlocks([
+      '## Setup',
+      '',
+      'Install it **now**, see <https://example.com>.',
+      '',
+      '- One',
+      '  - Nested',
+      '- Two',
+      '',
+      '```ts',
+      'const a = 1;',
+      '```',
+      '',
+      '| Plan | Price |',
+      '| --- | --- |',
+      '| Pro | $10 |',
+      '',
+      '> [!TIP] Back up first',
+      '',
+      '![A chart](https://old.example.com/chart.png "Results")',
+      '',
+      'https://youtu.be/dQw4w9WgXcQ',
+      '',
+      '---',
+    ].join('\n'));
+
+    expect(withoutIds(blocks)).toEqual([
+      { type: 'header', data: { text: 'Setup', level: 2 } },
+      { type: 'paragraph', data: { text: 'Install it **now**, see [https://example.com](https://example.com).' } },
+      { type: 'list', data: { style: 'unordered', items: [{ content: 'One', items: [{ content: 'Nested', items: [] }] }, { content: 'Two', items: [] }] } },
+      { type: 'code', data: { code: 'const a = 1;', language: 'typescript' } },
+      { type: 'table', data: { withHeadings: true, content: [['Plan', 'Price'], ['Pro', '$10']] } },
+      { type: 'callout', data: { variant: 'tip', text: 'Back up first' } },
+      { type: 'image', data: { url: 'https://old.example.com/chart.png', alt: 'A chart', caption: 'Results' } },
+      { type: 'embed', data: { url: 'https://youtu.be/dQw4w9WgXcQ' } },
+      { type: 'delimiter', data: {} },
+    ]);
+  });
+
+  test('reads front matter for the post fields', () => {
+    const source = parseMarkdownPost({
+      name: '2019-05-01-hello-world.md',
+      text: '---\ntitle: "Hello, world"\ndate: 2019-05-01\ntags: [news, Launch]\ncategories:\n  - Company News\ndraft: false\n---\nFirst post.',
+    });
+
+    expect(source).toMatchObject({
+      title: 'Hello, world',
+      slug: 'hello-world',
+      status: 'published',
+      published_at: '2019-05-01T00:00:00.000Z',
+      tags: ['news', 'Launch'],
+      categories: [{ name: 'Company News', slug: 'company-news' }],
+    });
+    expect(withoutIds(source.body.blocks)).toEqual([{ type: 'paragraph', data: { text: 'First post.' } }]);
+  });
+});
+
+describe('WordPress conversion', () => {
+  test('converts post HTML, shortcodes and classic editor paragraphs', () => {
+    const { blocks, warnings } = htmlToBlocks([
+      'Intro with <strong>bold</strong> and <a href="https://example.com">a link</a>.',
+      '',
+      'Second paragraph',
+      '[caption id="attachment_1"]<img src="https://old.example.com/a.jpg" alt="Team" /> Our team[/caption]',
+      '<h3>Details</h3>',
+      '<ol><li>First<ul><li>Inner</li></ul></li></ol>',
+      '<pre class="wp-block-code"><code class="language-js">let x;</code></pre>',
+      '<blockquote class="wp-block-quote"><p>Ship it.</p><cite>Ada</cite></blockquote>',
+      '[gallery ids="1,2"]',
+      '<script>alert(1)</script>',
+    ].join('\n'));
+
+    expect(withoutIds(blocks)).toEqual([
+      { type: 'paragraph', data: { text: 'Intro with **bold** and [a link](https://example.com).' } },
+      { type: 'paragraph', data: { text: 'Second paragraph' } },
+      { type: 'image', data: { url: 'https://old.example.com/a.jpg', alt: 'Team', caption: 'Our team' } },
+      { type: 'header', data: { text: 'Details', level: 3 } },
+      { type: 'list', data: { style: 'ordered', items: [{ content: 'First', items: [{ content: 'Inner', items: [] }] }] } },
+      { type: 'code', data: { code: 'let x;', language: 'javascript' } },
+      { type: 'quote', data: { text: 'Ship it.', caption: 'Ada' } },
+    ]);
+    expect(warnings).toEqual(['Removed the [gallery] shortcode', 'Removed a <script> element']);
+  });
+
+  test('reads posts, terms and featured images from a WXR export', () => {
+    const { sources, errors } = parseBlogImportFiles([{
+      name: 'export.xml',
+      text: wxr(`
+        <item>
+          <title>Old news</title>
+          <content:encoded><![CDATA[<p>Hello</p>]]></content:encoded>
+          <excerpt:encoded><![CDATA[Short]]></excerpt:encoded>
+          <wp:post_id>10</wp:post_id>
+          <wp:post_date_gmt>2015-03-02 10:00:00</wp:post_date_gmt>
+          <wp:post_name>old-news</wp:post_name>
+          <wp:status>publish</wp:status>
+          <wp:post_type>post</wp:post_type>
+          <category domain="category" nicename="updates"><![CDATA[Updates]]></category>
+          <category domain="category" nicename="uncategorized"><![CDATA[Uncategorized]]></category>
+          <category domain="post_tag" nicename="react"><![CDATA[React]]></category>
+          <wp:postmeta><wp:meta_key>_thumbnail_id</wp:meta_key><wp:meta_value>11</wp:meta_value></wp:postmeta>
+        </item>
+        <item>
+          <title>cover.jpg</title>
+          <wp:post_id>11</wp:post_id>
+          <wp:post_type>attachment</wp:post_type>
+          <wp:attachment_url>https://old.example.com/cover.jpg</wp:attachment_url>
+        </item>
+        <item>
+          <title>About</title>
+          <wp:post_id>12</wp:post_id>
+          <wp:post_type>page</wp:post_type>
+        </item>`),
+    }]);
+
+    expect(errors).toEqual([]);
+    expect(sources).toHaveLength(1);
+    expect(sources[0]).toMatchObject({
+      sourceName: 'export.xml #10',
+      title: 'Old news',
+      slug: 'old-news',
+      status: 'published',
+      published_at: '2015-03-02T10:00:00.000Z',
+      excerpt: 'Short',
+      tags: ['React'],
+      categories: [{ name: 'Updates', slug: 'updates' }],
+      feature_image_url: 'https://old.example.com/cover.jpg',
+    });
+  });
+});
+
+describe('import plan', () => {
+  const source = parseMarkdownPost({
+    name: 'launch.md',
+    text: '---\ntitle: Launch\ncategories: [Updates, Events]\nimage: https://old.example.com/cover.jpg\n---\n![Stage](https://old.example.com/stage.jpg)',
+  });
+
+  test('resolves slug conflicts, categories and images to re-host', () => {
+    const [overwrite] = planBlogImport([source], [{ id: 'post-1', slug: 'launch' }], [{ id: 'cat-1', name: 'Updates', slug: 'updates' }], {
+      conflictResolution: 'overwrite',
+      importAsDraft: true,
+    });
+
+    expect(overwrite).toMatchObject({ action: 'overwrite', existingId: 'post-1', slug: 'launch' });
+    expect(overwrite.post?.status).toBe('draft');
+    expect(overwrite.categories).toEqual([
+      { name: 'Updates', slug: 'updates', existingId: 'cat-1' },
+      { name: 'Events', slug: 'events', existingId: undefined },
+    ]);
+    expect(overwrite.images).toEqual(['https://old.example.com/stage.jpg', 'https://old.example.com/cover.jpg']);
+
+    const [first, duplicate] = planBlogImport([source, source], [], [], { conflictResolution: 'skip' });
+    expect([first.slug, duplicate.slug]).toEqual(['launch', 'launch-2']);
+  });
+
+  test('swaps re-hosted image URLs into the post', () => {
+    const [item] = planBlogImport([source], [], [], { conflictResolution: 'skip' });
+    const post = replaceImageUrls(item.post!, { 'https://old.example.com/stage.jpg': 'https://cdn.example.com/stage.jpg' });
+
+    expect(post.body.blocks[0].data.url).toBe('https://cdn.example.com/stage.jpg');
+    expect(post.feature_image_url).toBe('https://old.example.com/cover.jpg');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import {
+  getCalendarDays,
+  getCalendarItemColor,
+  getRescheduleIssue,
+  groupCalendarItemsByDay,
+  moveToDay,
+  CALENDAR_TYPE_COLORS,
+  UNCATEGORIZED_COLOR,
+} from '@/lib/calendar';
+import type { CalendarItem } from '@/types/content';
+
+const item = (overrides: Partial<CalendarItem> = {}): CalendarItem => ({
+  id: '1',
+  entity_type: 'blog_post',
+  title: 'Post',
+  status: 'published',
+  date: new Date(2025, 9, 1, 9, 30).toISOString(),
+  scheduled: false,
+  updated_at: '2025-09-20T08:00:00.000Z',
+  ...overrides,
+});
+
+describe('calendar grid', () => {
+  test('month view covers whole weeks starting on Monday', () => {
+    const days = getCalendarDays('month', new Date(2025, 9, 15));
+    expect(days).toHaveLength(35);
+    expect(days[0].getDay()).toBe(1);
+    expect(days[0].getDate()).toBe(29);
+  });
+
+  test('week view covers the week of the date', () => {
+    const days = getCalendarDays('week', new Date(2025, 9, 15));
+    expect(days).toHaveLength(7);
+    expect(days[0].getDate()).toBe(13);
+  });
+
+  test('groups items by local day in time order', () => {
+    const late = item({ id: '2', date: new Date(2025, 9, 1, 17, 0).toISOString() });
+    const groups = groupCalendarItemsByDay([late, item()]);
+    expect(groups.get('2025-10-01')?.map(entry => entry.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('calendar items', () => {
+  test('colors blog posts by category in category mode', () => {
+    const post = item({ category: { name: 'News', color: '#ff0000' } });
+    expect(getCalendarItemColor(post, 'category')).toBe('#ff0000');
+    expect(getCalendarItemColor(post, 'type')).toBe(CALENDAR_TYPE_COLORS.blog_post);
+    expect(getCalendarItemColor(item(), 'category')).toBe(UNCATEGORIZED_COLOR);
+    expect(getCalendarItemColor(item({ entity_type: 'job' }), 'category')).toBe(CALENDAR_TYPE_COLORS.job);
+  });
+
+  test('moving to another day keeps the time of day', () => {
+    const moved = new Date(moveToDay(item().date, new Date(2025, 9, 20)));
+    expect(moved.getDate()).toBe(20);
+    expect(moved.getHours()).toBe(9);
+    expect(moved.getMinutes()).toBe(30);
+  });
+
+  test('scheduled items stay in the future and live items in the past', () => {
+    const now = new Date(2025, 9, 10);
+    const past = new Date(2025, 9, 5).toISOString();
+    const future = new Date(2025, 9, 15).toISOString();
+    expect(getRescheduleIssue(item({ scheduled: true }), past, now)).not.toBeNull();
+    expect(getRescheduleIssue(item({ scheduled: true }), future, now)).toBeNull();
+    expect(getRescheduleIssue(item(), future, now)).not.toBeNull();
+    expect(getRescheduleIssue(item(), past, now)).toBeNull();
+  });
+});
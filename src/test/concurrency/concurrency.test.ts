@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'vitest';
+import { StaleContentError, isStaleContentError, mergeConcurrentChanges } from '@/lib/concurrency';
+import { getEditorDisplayName, isLockHeldByOther } from '@/lib/edit-locks';
+import type { ContentLock } from '@/types/content';
+
+const base = { id: 'p1', title: 'Hello', excerpt: 'Old', tags: ['a'], updated_at: '2025-10-01T10:00:00Z' };
+
+describe('mergeConcurrentChanges', () => {
+  test('takes fields only the other editor changed', () => {
+    const mine = { ...base, title: 'Hello there' };
+    const theirs = { ...base, excerpt: 'New', updated_at: '2025-10-01T10:05:00Z' };
+    const { merged, conflicts } = mergeConcurrentChanges(base, mine, theirs);
+
+    expect(merged).toMatchObject({ title: 'Hello there', excerpt: 'New', updated_at: '2025-10-01T10:05:00Z' });
+    expect(conflicts).toEqual([]);
+  });
+
+  test('reports fields both editors changed differently and keeps the local value', () => {
+    const mine = { ...base, title: 'Mine', tags: ['a', 'b'] };
+    const theirs = { ...base, title: 'Theirs', tags: ['a', 'b'], updated_at: '2025-10-01T10:05:00Z' };
+    const { merged, conflicts } = mergeConcurrentChanges(base, mine, theirs);
+
+    expect(conflicts).toEqual(['title']);
+    expect(merged.title).toBe('Mine');
+  });
+});
+
+describe('StaleContentError', () => {
+  test('carries the latest row', () => {
+    const error = new StaleContentError({ ...base, title: 'Theirs' });
+    expect(isStaleContentError(error)).toBe(true);
+    expect(isStaleContentError(new Error('other'))).toBe(false);
+    expect(error.latest.title).toBe('Theirs');
+  });
+});
+
+describe('edit locks', () => {
+  const now = new Date('2025-10-01T12:00:00Z');
+  const lock: ContentLock = {
+    entity_type: 'blog_post',
+    entity_id: 'p1',
+    locked_by: 'user-2',
+    acquired_at: '2025-10-01T11:59:00Z',
+    expires_at: '2025-10-01T12:01:00Z',
+  };
+
+  test('only live locks held by someone else block editing', () => {
+    expect(isLockHeldByOther(lock, 'user-1', now)).toBe(true);
+    expect(isLockHeldByOther(lock, 'user-2', now)).toBe(false);
+    expect(isLockHeldByOther({ ...lock, expires_at: '2025-10-01T11:59:30Z' }, 'user-1', now)).toBe(false);
+    expect(isLockHeldByOther(null, 'user-1', now)).toBe(false);
+  });
+
+  test('display names fall back to the email address', () => {
+    expect(getEditorDisplayName('anna.smith@example.com')).toBe('Anna Smith');
+    expect(getEditorDisplayName('anna@example.com', ' Anna K. ')).toBe('Anna K.');
+  });
+});
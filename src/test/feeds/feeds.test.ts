@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import type { BlogCategory } from '@/lib/cms';
+import { blocksToHtml } from '@/lib/blocks/render-html';
+import { buildFeedDocument, FEEDS_URL, getFeedLinks, getFeedPath, parseFeedPath, renderAtomFeed, renderJsonFeed, renderRssFeed, type FeedPost } from '@/lib/feeds';
+
+const baseUrl = 'https://example.com';
+
+const category = (slug: string, name: string) => ({ id: slug, slug, name, status: 'published' }) as BlogCategory;
+
+const post = (overrides: Partial<FeedPost>): FeedPost => ({
+  id: 'post-1',
+  title: 'Launch',
+  slug: 'launch',
+  body: { blocks: [{ id: 'a', type: 'paragraph', data: { text: 'Hello **world**' } }] },
+  status: 'published',
+  published_at: '2026-03-02T10:00:00.000Z',
+  created_at: '2026-03-01T10:00:00.000Z',
+  updated_at: '2026-03-02T10:00:00.000Z',
+  tags: [],
+  categories: [],
+  ...overrides,
+});
+
+const posts = [
+  post({ feature_image_url: '/uploads/cover.png', excerpt: 'Short & sweet', categories: [category('news', 'News')], tags: ['React'] }),
+  post({ id: 'post-2', slug: 'trends', title: 'Tech trends', published_at: '2026-04-01T08:00:00.000Z', tags: ['tech-trends'] }),
+];
+
+describe('feed content', () => {
+  test('renders blocks to escaped HTML with absolute links', () => {
+    const html = blocksToHtml({
+      blocks: [
+        { id: 'a', type: 'header', data: { text: 'Q&A', level: 2 } },
+        { id: 'b', type: 'paragraph', data: { text: 'See [the docs](/docs) <script>' } },
+        { id: 'c', type: 'image', data: { url: '/uploads/a.jpg', alt: 'Chart' } },
+      ],
+    }, baseUrl);
+
+    expect(html).toBe([
+      '<h2>Q&amp;A</h2>',
+      '<p>See <a href="https://example.com/docs">the docs</a> &lt;script&gt;</p>',
+      '<figure><img src="https://example.com/uploads/a.jpg" alt="Chart"></figure>',
+    ].join('\n'));
+  });
+
+  test('filters posts by scope and orders them newest first', () => {
+    expect(buildFeedDocument(posts, { type: 'site' }, baseUrl).items.map(item => item.url)).toEqual([
+      'https://example.com/blog/trends',
+      'https://example.com/blog/launch',
+    ]);
+    expect(buildFeedDocument(posts, { type: 'category', slug: 'news', name: 'News' }, baseUrl).items).toHaveLength(1);
+    expect(buildFeedDocument(posts, { type: 'tag', tag: 'react' }, baseUrl).items[0].title).toBe('Launch');
+    expect(buildFeedDocument(posts, { type: 'insights' }, baseUrl).items.map(item => item.url)).toEqual(['https://example.com/insights/trends']);
+  });
+});
+
+describe('feed formats', () => {
+  const feed = buildFeedDocument(posts, { type: 'category', slug: 'news', name: 'News' }, baseUrl);
+
+  test('builds feed paths and discovery links per scope', () => {
+    expect(getFeedPath({ type: 'site' }, 'rss')).toBe('/rss.xml');
+    expect(getFeedPath({ type: 'category', slug: 'news' }, 'json')).toBe('/blog/category/news/feed.json');
+    expect(getFeedLinks({ type: 'insights' })[1]).toEqual({
+      href: `${FEEDS_URL}/insights/atom.xml`,
+      type: 'application/atom+xml',
+      title: 'Devmart Insights (Atom)',
+    });
+  });
+
+  test('parses the feed paths the feeds function serves', () => {
+    expect(parseFeedPath('/rss.xml')).toEqual({ scope: { type: 'site' }, format: 'rss' });
+    expect(parseFeedPath(getFeedPath({ type: 'tag', tag: 'c#' }, 'atom'))).toEqual({ scope: { type: 'tag', tag: 'c#' }, format: 'atom' });
+    expect(parseFeedPath('/blog/category/news/feed.json')?.scope).toEqual({ type: 'category', slug: 'news' });
+    expect(parseFeedPath('/blog/rss.xml')).toBeNull();
+    expect(parseFeedPath('/insights/feed.xml')).toBeNull();
+  });
+
+  test('renders RSS and Atom with full content and image enclosures', () => {
+    const rss = new DOMParser().parseFromString(renderRssFeed(feed), 'application/xml');
+    expect(rss.querySelector('parsererror')).toBeNull();
+    expect(rss.querySelector('channel > title')?.textContent).toBe('News - Devmart Blog');
+    expect(rss.querySelector('item > description')?.textContent).toBe('Short & sweet');
+    expect(rss.getElementsByTagName('content:encoded')[0].textContent).toBe('<p>Hello <strong>world</strong></p>');
+    expect(rss.querySelector('enclosure')?.getAttribute('url')).toBe('https://example.com/uploads/cover.png');
+    expect(rss.querySelector('enclosure')?.getAttribute('type')).toBe('image/png');
+
+    const atom = new DOMParser().parseFromString(renderAtomFeed(feed), 'application/xml');
+    expect(atom.querySelector('parsererror')).toBeNull();
+    expect(atom.querySelector('feed > link[rel="self"]')?.getAttribute('href')).toBe(`${FEEDS_URL}/blog/category/news/atom.xml`);
+    expect(atom.querySelector('entry > link[rel="enclosure"]')?.getAttribute('href')).toBe('https://example.com/uploads/cover.png');
+    expect(atom.querySelectorAll('entry > category')).toHaveLength(2);
+  });
+
+  test('renders JSON Feed 1.1', () => {
+    const json = JSON.parse(renderJsonFeed(feed));
+    expect(json).toMatchObject({
+      version: 'https://jsonfeed.org/version/1.1',
+      feed_url: `${FEEDS_URL}/blog/category/news/feed.json`,
+      home_page_url: 'https://example.com/blog/category/news',
+    });
+    expect(json.items[0]).toMatchObject({
+      id: 'https://example.com/blog/launch',
+      content_html: '<p>Hello <strong>world</strong></p>',
+      image: 'https://example.com/uploads/cover.png',
+      date_published: '2026-03-02T10:00:00.000Z',
+      tags: ['News', 'React'],
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'vitest';
+import { applyTranslation, getLocaleFromPath, getTranslationStatus, localizePath } from '@/lib/i18n';
+
+describe('locale paths', () => {
+  test('splits the locale prefix off non-default locales only', () => {
+    expect(getLocaleFromPath('/nl/services/web')).toEqual({ locale: 'nl', path: '/services/web' });
+    expect(getLocaleFromPath('/nl')).toEqual({ locale: 'nl', path: '/' });
+    expect(getLocaleFromPath('/en/services')).toEqual({ locale: 'en', path: '/en/services' });
+    expect(getLocaleFromPath('/news/latest')).toEqual({ locale: 'en', path: '/news/latest' });
+  });
+
+  test('prefixes paths for non-default locales', () => {
+    expect(localizePath('/blog/hello', 'nl')).toBe('/nl/blog/hello');
+    expect(localizePath('/', 'nl')).toBe('/nl');
+    expect(localizePath('/blog/hello', 'en')).toBe('/blog/hello');
+  });
+});
+
+describe('translations', () => {
+  const post = { id: '1', title: 'Hello', excerpt: 'English excerpt', slug: 'hello', updated_at: '2025-01-02T00:00:00Z' };
+
+  test('overlays published fields and falls back for empty ones', () => {
+    const translated = applyTranslation('blog_post', post, {
+      status: 'published',
+      fields: { title: 'Hallo', excerpt: '  ', slug: 'hallo' },
+    });
+    expect(translated).toMatchObject({ title: 'Hallo', excerpt: 'English excerpt', slug: 'hello' });
+    expect(applyTranslation('blog_post', post, { status: 'draft', fields: { title: 'Hallo' } }).title).toBe('Hello');
+  });
+
+  test('reports missing, draft, outdated and published translations', () => {
+    expect(getTranslationStatus(post, undefined)).toBe('missing');
+    expect(getTranslationStatus(post, { status: 'draft', source_updated_at: post.updated_at })).toBe('draft');
+    expect(getTranslationStatus(post, { status: 'published', source_updated_at: '2025-01-01T00:00:00Z' })).toBe('outdated');
+    expect(getTranslationStatus(post, { status: 'published', source_updated_at: post.updated_at })).toBe('published');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildMenuTree,
+  flattenMenuTree,
+  moveMenuNode,
+  dropMenuNode,
+  resolveMenuTree,
+  filterMenuForAudience,
+  getMenuItemIssue,
+  type MenuNode,
+} from '@/lib/menus';
+import type { MenuItem } from '@/types/content';
+
+const item = (id: string, overrides: Partial<MenuItem> = {}): MenuItem => ({
+  id,
+  menu_id: 'menu-1',
+  parent_id: null,
+  label: id,
+  link_type: 'route',
+  entity_id: null,
+  url: `/${id}`,
+  open_in_new_tab: false,
+  style: 'link',
+  is_visible: true,
+  audience: 'all',
+  sort_order: 0,
+  ...overrides,
+});
+
+const ids = (nodes: MenuNode[]): unknown[] =>
+  nodes.map(node => (node.children.length ? [node.id, ids(node.children)] : node.id));
+
+describe('menu tree', () => {
+  const rows = [
+    item('company', { link_type: 'none', url: null, sort_order: 1 }),
+    item('blog', { parent_id: 'company', sort_order: 1 }),
+    item('careers', { parent_id: 'company', sort_order: 0 }),
+    item('home', { sort_order: 0 }),
+    item('orphan', { parent_id: 'deleted', sort_order: 2 }),
+  ];
+
+  test('builds a sorted tree and keeps orphans at the top level', () => {
+    expect(ids(buildMenuTree(rows))).toEqual(['home', ['company', ['careers', 'blog']], 'orphan']);
+  });
+
+  test('flattening writes parent and order from the tree position', () => {
+    const flat = flattenMenuTree(buildMenuTree(rows));
+    expect(flat.map(row => [row.id, row.parent_id, row.sort_order])).toEqual([
+      ['home', null, 0],
+      ['company', null, 1],
+      ['careers', 'company', 0],
+      ['blog', 'company', 1],
+      ['orphan', null, 2],
+    ]);
+  });
+
+  test('moves and drops items, refusing cycles and extra depth', () => {
+    const tree = buildMenuTree(rows);
+
+    expect(ids(moveMenuNode(tree, 'home', 'company', 2))).toEqual([['company', ['careers', 'blog', 'home']], 'orphan']);
+    expect(ids(dropMenuNode(tree, 'orphan', 'home', 'before'))).toEqual(['orphan', 'home', ['company', ['careers', 'blog']]]);
+    expect(ids(dropMenuNode(tree, 'blog', 'company', 'after'))).toEqual(['home', ['company', ['careers']], 'blog', 'orphan']);
+
+    // A group cannot be nested into its own child, and a third level is not allowed
+    expect(dropMenuNode(tree, 'company', 'blog', 'inside')).toBe(tree);
+    expect(dropMenuNode(tree, 'home', 'blog', 'inside')).toBe(tree);
+    expect(dropMenuNode(tree, 'company', 'home', 'inside')).toBe(tree);
+  });
+});
+
+describe('menu resolution', () => {
+  test('links content by id and drops links to unpublished content', () => {
+    const tree = buildMenuTree([
+      item('about', { link_type: 'page', url: null, entity_id: 'page-1' }),
+      item('draft', { link_type: 'service', url: null, entity_id: 'service-draft', sort_order: 1 }),
+      item('hidden', { is_visible: false, sort_order: 2 }),
+      item('docs', { link_type: 'external', url: 'https://docs.example.com', open_in_new_tab: true, sort_order: 3 }),
+    ]);
+
+    const resolved = resolveMenuTree(tree, { page: { 'page-1': 'company/about-us' } });
+    expect(resolved.map(entry => [entry.id, entry.href, entry.external])).toEqual([
+      ['about', '/company/about-us', false],
+      ['docs', 'https://docs.example.com', true],
+    ]);
+  });
+
+  test('filters items by audience and removes emptied groups', () => {
+    const resolved = resolveMenuTree(buildMenuTree([
+      item('account', { link_type: 'none', url: null }),
+      item('dashboard', { parent_id: 'account', audience: 'authenticated' }),
+      item('login', { audience: 'anonymous', sort_order: 1 }),
+    ]), {});
+
+    expect(filterMenuForAudience(resolved, false).map(entry => entry.id)).toEqual(['login']);
+    expect(filterMenuForAudience(resolved, true).map(entry => entry.id)).toEqual(['account']);
+  });
+
+  test('reports items that cannot be saved', () => {
+    expect(getMenuItemIssue(item('bad', { url: 'about' }))).toBe('Site paths start with /');
+    expect(getMenuItemIssue(item('job', { link_type: 'job', url: null }))).toBe('Choose the content to link to');
+    expect(getMenuItemIssue(item('ok'))).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { getRedirectIssue, matchRedirect, resolveRedirect, type RedirectRule } from '@/lib/redirects';
+
+const rule = (source_path: string, target_path: string, status_code: 301 | 302 = 301): RedirectRule => ({
+  id: source_path,
+  source_path,
+  target_path,
+  status_code,
+  match_type: source_path.endsWith('*') ? 'wildcard' : 'exact',
+});
+
+describe('redirect matching', () => {
+  const rules = [
+    rule('/old-blog/*', '/blog/*'),
+    rule('/old-blog/archive/*', '/blog'),
+    rule('/services/web', '/services/web-design'),
+  ];
+
+  test('prefers exact rules, then the longest wildcard', () => {
+    expect(matchRedirect(rules, '/services/web/')?.target).toBe('/services/web-design');
+    expect(matchRedirect(rules, '/old-blog/archive/2020')?.target).toBe('/blog');
+    expect(matchRedirect(rules, '/old-blog/hello-world')?.target).toBe('/blog/hello-world');
+    expect(matchRedirect(rules, '/old-blog')?.target).toBe('/blog');
+    expect(matchRedirect(rules, '/services/web-design')).toBeNull();
+  });
+
+  test('follows chains and reports temporary hops', () => {
+    const result = resolveRedirect([...rules, rule('/services/web-design', '/services/websites', 302)], '/services/web');
+    expect(result).toMatchObject({ target: '/services/websites', statusCode: 302, loop: false });
+    expect(result?.hops).toHaveLength(2);
+  });
+
+  test('detects loops instead of redirecting forever', () => {
+    const looping = [rule('/a', '/b'), rule('/b', '/c'), rule('/c', '/a')];
+    expect(resolveRedirect(looping, '/a')).toMatchObject({ target: null, loop: true });
+
+    // A wildcard that keeps matching its own target never settles either
+    expect(resolveRedirect([rule('/blog/*', '/blog/posts/*')], '/blog/x')?.loop).toBe(true);
+  });
+});
+
+describe('redirect validation', () => {
+  test('rejects malformed rules and rules that would loop', () => {
+    const existing = [rule('/new-name', '/old-name')];
+    expect(getRedirectIssue({ source_path: 'about', target_path: '/' })).toBe('The source path must start with /');
+    expect(getRedirectIssue({ source_path: '/a/*/b', target_path: '/' })).toMatch(/only allowed at the end/);
+    expect(getRedirectIssue({ source_path: '/old-name', target_path: '/new-name' }, existing)).toBe('This redirect would create a redirect loop');
+    expect(getRedirectIssue({ source_path: '/new-name/', target_path: '/x' }, existing)).toMatch(/already uses this source/);
+    expect(getRedirectIssue({ source_path: '/old/*', target_path: 'https://example.com/*' })).toBeNull();
+  });
+});
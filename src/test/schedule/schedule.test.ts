@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import {
+  fromDateTimeLocalValue,
+  getScheduleIssue,
+  hasPendingSchedule,
+  isScheduledToPublish,
+  isScheduledToUnpublish,
+  liveContentFilter,
+  toDateTimeLocalValue,
+} from '@/lib/schedule';
+
+const now = new Date('2025-10-01T12:00:00Z');
+
+describe('schedule state', () => {
+  test('only future times count as pending', () => {
+    expect(isScheduledToPublish({ publish_at: '2025-10-02T09:00:00Z' }, now)).toBe(true);
+    expect(isScheduledToPublish({ publish_at: '2025-09-30T09:00:00Z' }, now)).toBe(false);
+    expect(isScheduledToUnpublish({ unpublish_at: '2025-10-02T09:00:00Z' }, now)).toBe(true);
+    expect(isScheduledToUnpublish({ unpublish_at: null }, now)).toBe(false);
+  });
+
+  test('content with either time pending is scheduled', () => {
+    expect(hasPendingSchedule({ status: 'published', unpublish_at: '2025-12-01T00:00:00Z' }, now)).toBe(true);
+    expect(hasPendingSchedule({ status: 'draft' }, now)).toBe(false);
+  });
+
+  test('the unpublish time must come after the publish time', () => {
+    expect(getScheduleIssue('2025-10-02T09:00:00Z', '2025-10-02T08:00:00Z')).not.toBeNull();
+    expect(getScheduleIssue('2025-10-02T09:00:00Z', '2025-10-03T09:00:00Z')).toBeNull();
+    expect(getScheduleIssue(null, '2025-10-03T09:00:00Z')).toBeNull();
+  });
+});
+
+describe('schedule inputs and queries', () => {
+  test('datetime-local values round-trip', () => {
+    const iso = '2025-10-02T09:30:00.000Z';
+    expect(fromDateTimeLocalValue(toDateTimeLocalValue(iso))).toBe(iso);
+    expect(toDateTimeLocalValue(null)).toBe('');
+    expect(fromDateTimeLocalValue('')).toBeNull();
+  });
+
+  test('public queries exclude content past its unpublish time', () => {
+    expect(liveContentFilter(now)).toBe('unpublish_at.is.null,unpublish_at.gt.2025-10-01T12:00:00.000Z');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, test, expect } from 'vitest';
+import { SectionSchema, createDefaultSection } from '@/lib/sections/schema';
+import { applySectionSelection } from '@/lib/sections/selection';
+
+const items = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+describe('Content List Section Tests', () => {
+  test.each(['faq', 'caseStudiesPreview', 'labProjectsPreview', 'jobsPreview'] as const)(
+    'default %s section validates',
+    (type) => {
+      expect(SectionSchema.safeParse(createDefaultSection(type)).success).toBe(true);
+    }
+  );
+
+  test('applies the limit to the default order', () => {
+    expect(applySectionSelection(items, [], 2)).toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+
+  test('manual selection keeps its order, drops missing items and respects the limit', () => {
+    expect(applySectionSelection(items, ['c', 'missing', 'a', 'b'], 2)).toEqual([{ id: 'c' }, { id: 'a' }]);
+  });
+
+  test('rejects manual selections that are not ids', () => {
+    const section = createDefaultSection('jobsPreview');
+    const result = SectionSchema.safeParse({ ...section, data: { ...section.data, selectedIds: ['senior-dev'] } });
+    expect(result.success).toBe(false);
+  });
+});
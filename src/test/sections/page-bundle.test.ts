@@ -0,0 +1,121 @@
+import { describe, test, expect } from 'vitest';
+import { createDefaultSection } from '@/lib/sections/schema';
+import { CURRENT_PAGE_BODY_VERSION } from '@/lib/sections/migrations';
+import {
+  exportPageBundle,
+  parsePageBundle,
+  planPageImport,
+  suggestMediaUrl,
+  collectMediaUrls,
+  PAGE_BUNDLE_FILE_FORMAT,
+} from '@/lib/sections/page-bundle';
+import type { Page } from '@/types/content';
+
+const STAGING_GLOBAL_ID = '4b0d6a0e-0000-4000-8000-000000000001';
+const PROD_GLOBAL_ID = '4b0d6a0e-0000-4000-8000-000000000002';
+const STAGING_IMAGE = 'https://staging.supabase.co/storage/v1/object/public/media/hero/launch.webp';
+
+const hero = { ...createDefaultSection('hero'), id: 'hero-1' };
+hero.data = { ...hero.data, backgroundImage: STAGING_IMAGE };
+
+const page = (overrides: Partial<Page>): Page => ({
+  id: overrides.slug ?? 'page',
+  title: 'Page',
+  slug: 'page',
+  status: 'published',
+  body: { version: CURRENT_PAGE_BODY_VERSION, sections: [hero] },
+  ...overrides,
+});
+
+const services = page({ id: 'p1', title: 'Services', slug: 'services', seo_title: 'Our services' });
+const webDesign = page({ id: 'p2', title: 'Web Design', slug: 'web-design', parent_id: 'p1', seo_og_image: STAGING_IMAGE });
+
+const exported = () => {
+  const { bundle, errors } = parsePageBundle(exportPageBundle([webDesign, services], [services, webDesign]));
+  expect(errors).toEqual([]);
+  return bundle!;
+};
+
+describe('Page Bundle Tests', () => {
+  test('export carries paths, SEO fields and referenced media', () => {
+    const bundle = exported();
+
+    expect(bundle.pages.map(p => p.path)).toEqual(['services/web-design', 'services']);
+    expect(bundle.pages[1]).toMatchObject({ seo_title: 'Our services', parent_slug: null });
+    expect(bundle.media).toEqual([STAGING_IMAGE]);
+    expect(collectMediaUrls({ image: '/images/local.png' })).toEqual([]);
+  });
+
+  test('dry run plans parents first and remaps media', () => {
+    const target = suggestMediaUrl(STAGING_IMAGE, 'https://prod.supabase.co/storage/v1/object/public/media/');
+    const plan = planPageImport(exported(), [], {
+      conflictResolution: 'skip',
+      mediaMap: { [STAGING_IMAGE]: target },
+      importAsDraft: true,
+    });
+
+    expect(target).toBe('https://prod.supabase.co/storage/v1/object/public/media/hero/launch.webp');
+    expect(plan.map(item => [item.slug, item.action, item.parentSlug])).toEqual([
+      ['services', 'create', null],
+      ['web-design', 'create', 'services'],
+    ]);
+    expect(plan[1].page?.seo_og_image).toBe(target);
+    expect(JSON.stringify(plan[1].page?.body)).not.toContain('staging.supabase.co');
+    expect(plan[1].page?.status).toBe('draft');
+  });
+
+  test('slug conflicts follow the chosen resolution', () => {
+    const existing = [{ id: 'prod-services', slug: 'services', parent_id: null, published_at: '2025-01-01T00:00:00Z' }];
+
+    const skipped = planPageImport(exported(), existing, { conflictResolution: 'skip' });
+    expect(skipped.find(item => item.sourceSlug === 'services')).toMatchObject({ action: 'skip', conflict: true });
+    expect(skipped.find(item => item.sourceSlug === 'web-design')?.parentSlug).toBe('services');
+
+    const overwritten = planPageImport(exported(), existing, { conflictResolution: 'overwrite' });
+    expect(overwritten[0]).toMatchObject({ action: 'overwrite', existingId: 'prod-services' });
+    expect(overwritten[0].page?.published_at).toBe('2025-01-01T00:00:00Z');
+
+    const renamed = planPageImport(exported(), existing, { conflictResolution: 'skip', overrides: { services: 'rename' } });
+    expect(renamed.map(item => [item.slug, item.parentSlug])).toEqual([['services-2', null], ['web-design', 'services-2']]);
+  });
+
+  test('overwritten pages keep their parent unless the bundle names one that resolves', () => {
+    const existing = [
+      { id: 'prod-about', slug: 'about', parent_id: null, published_at: null },
+      { id: 'prod-services', slug: 'services', parent_id: 'prod-about', published_at: null },
+    ];
+    const file = JSON.parse(exportPageBundle([services, webDesign], [services, webDesign]));
+    file.pages[1].parent_slug = 'missing';
+    const plan = planPageImport(parsePageBundle(JSON.stringify(file)).bundle!, existing, { conflictResolution: 'overwrite' });
+
+    expect(plan.map(item => [item.slug, item.parentSlug])).toEqual([['services', 'about'], ['web-design', null]]);
+    expect(plan[1].warnings[0]).toContain('imported at the top level');
+
+    const moved = planPageImport(exported(), [...existing, { id: 'prod-web', slug: 'web-design', parent_id: 'prod-about', published_at: null }], { conflictResolution: 'overwrite' });
+    expect(moved.map(item => [item.slug, item.parentSlug])).toEqual([['services', 'about'], ['web-design', 'services']]);
+  });
+
+  test('invalid bodies, foreign files and duplicate slugs are reported', () => {
+    const file = JSON.parse(exportPageBundle([services], [services]));
+    file.pages[0].body = { sections: [{ id: 'x', type: 'hero', data: { title: '' } }] };
+    const [item] = planPageImport(parsePageBundle(JSON.stringify(file)).bundle!, [], { conflictResolution: 'skip' });
+
+    expect(item.action).toBe('invalid');
+    expect(item.issues[0]).toContain('sections.0');
+    expect(parsePageBundle('{"format":"other"}').errors[0]).toContain('Not a page bundle file');
+    expect(parsePageBundle(JSON.stringify({ ...file, pages: [file.pages[0], file.pages[0]] })).errors[0]).toContain('"services"');
+    expect(parsePageBundle(JSON.stringify({ ...file, format: PAGE_BUNDLE_FILE_FORMAT, version: 99 })).errors[0]).toContain('version 99');
+  });
+
+  test('global section references are matched by name', () => {
+    const ref = { ...createDefaultSection('globalSection'), id: 'g', data: { title: 'Footer CTA', globalSectionId: STAGING_GLOBAL_ID } };
+    const withRef = page({ id: 'p3', slug: 'contact', body: { version: CURRENT_PAGE_BODY_VERSION, sections: [ref] } });
+    const bundle = parsePageBundle(exportPageBundle([withRef], [withRef], [{ id: STAGING_GLOBAL_ID, name: 'Footer CTA' }])).bundle!;
+
+    const [matched] = planPageImport(bundle, [], { conflictResolution: 'skip', globalSections: [{ id: PROD_GLOBAL_ID, name: 'Footer CTA' }] });
+    expect(JSON.stringify(matched.page?.body)).toContain(PROD_GLOBAL_ID);
+
+    const [missing] = planPageImport(bundle, [], { conflictResolution: 'skip' });
+    expect(missing.warnings[0]).toContain('Footer CTA');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { SectionSchema, createDefaultSection } from '@/lib/sections/schema';
+import { formatTierPrice, isCheckoutTier, selectPricingTiers } from '@/lib/pricing';
+import type { PricingTier } from '@/types/payment';
+
+const tier = (id: string, overrides: Partial<PricingTier> = {}): PricingTier => ({
+  id,
+  name: id,
+  price: 299900,
+  currency: 'usd',
+  description: '',
+  features: [],
+  billing_period: 'one_time',
+  ...overrides,
+});
+
+const starter = tier('00000000-0000-4000-8000-000000000001');
+const business = tier('00000000-0000-4000-8000-000000000002');
+const enterprise = tier('00000000-0000-4000-8000-000000000003', { price: 0, billing_period: 'custom' });
+
+describe('Pricing Section Tests', () => {
+  test('shows every tier when none are selected', () => {
+    expect(selectPricingTiers([starter, business], [])).toEqual([starter, business]);
+  });
+
+  test('keeps the selection order and drops unknown tiers', () => {
+    const result = selectPricingTiers(
+      [starter, business, enterprise],
+      [enterprise.id, 'deleted-tier', starter.id]
+    );
+    expect(result.map(t => t.id)).toEqual([enterprise.id, starter.id]);
+  });
+
+  test('custom and recurring tiers are quoted instead of checked out', () => {
+    expect(isCheckoutTier(starter)).toBe(true);
+    expect(isCheckoutTier(enterprise)).toBe(false);
+    expect(isCheckoutTier({ ...starter, billing_period: 'month' })).toBe(false);
+    expect(isCheckoutTier({ ...starter, billing_period: 'year' })).toBe(false);
+    expect(formatTierPrice(enterprise)).toBe('Custom');
+    expect(formatTierPrice(starter)).toBe('$2,999');
+    expect(formatTierPrice({ ...starter, price: 4999 })).toBe('$49.99');
+  });
+
+  test('default pricing section validates and rejects non-uuid tier ids', () => {
+    const section = createDefaultSection('pricing');
+    expect(SectionSchema.safeParse(section).success).toBe(true);
+    expect(SectionSchema.safeParse({ ...section, data: { ...section.data, tierIds: ['basic'] } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import { SectionSchema, createDefaultSection } from '@/lib/sections/schema';
+import { parseMarkdown, parseInline, sanitizeUrl } from '@/lib/sections/markdown';
+import { resolveEmbed } from '@/lib/sections/embeds';
+import { migratePageBody } from '@/lib/sections/migrations';
+
+describe('Rich Content Sections Tests', () => {
+  test('markdown keeps raw HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', value: '<script>alert(1)</script>' }] },
+    ]);
+  });
+
+  test('markdown drops links with unsafe protocols', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull();
+    expect(sanitizeUrl('//evil.example')).toBeNull();
+    expect(sanitizeUrl('/contact')).toBe('/contact');
+    expect(parseInline('[click](javascript:void)')).toEqual([{ type: 'text', value: 'click' }]);
+    expect(parseInline('**[Contact](mailto:hi@devmart.co)**')).toEqual([
+      { type: 'strong', children: [{ type: 'link', href: 'mailto:hi@devmart.co', children: [{ type: 'text', value: 'Contact' }] }] },
+    ]);
+  });
+
+  test('markdown parses block structure', () => {
+    const blocks = parseMarkdown('# Title\n\n- one\n- two\n\n> quote\n\n---');
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'blockquote', 'hr']);
+    expect(blocks[0]).toMatchObject({ level: 2 });
+  });
+
+  test('embeds resolve allowlisted providers with privacy mode', () => {
+    expect(resolveEmbed('https://youtu.be/abcdefghijk')?.src).toBe('https://www.youtube-nocookie.com/embed/abcdefghijk');
+    expect(resolveEmbed('https://www.youtube.com/watch?v=abcdefghijk', false)?.src).toBe('https://www.youtube.com/embed/abcdefghijk');
+    expect(resolveEmbed('https://vimeo.com/123456')?.src).toBe('https://player.vimeo.com/video/123456?dnt=1');
+    expect(resolveEmbed('https://evil.example/embed/abcdefghijk')).toBeNull();
+    expect(resolveEmbed('http://www.youtube.com/watch?v=abcdefghijk')).toBeNull();
+  });
+
+  test('embed sections reject unsupported URLs', () => {
+    const section = createDefaultSection('embed');
+    expect(SectionSchema.safeParse(section).success).toBe(true);
+    expect(SectionSchema.safeParse({ ...section, data: { ...section.data, url: 'https://evil.example/video' } }).success).toBe(false);
+  });
+
+  test('columns hold 2-4 columns and cannot nest', () => {
+    const section = createDefaultSection('columns');
+    expect(SectionSchema.safeParse(section).success).toBe(true);
+    if (section.type !== 'columns') throw new Error('Expected a columns section');
+
+    const [column] = section.data.columns;
+    expect(SectionSchema.safeParse({ ...section, data: { ...section.data, columns: [column] } }).success).toBe(false);
+    expect(SectionSchema.safeParse({
+      ...section,
+      data: { ...section.data, columns: [column, { id: 'nested', sections: [createDefaultSection('columns')] }] },
+    }).success).toBe(false);
+  });
+
+  test('migrations upgrade sections inside columns', () => {
+    const hero = { id: 'hero', type: 'hero', data: { title: 'Hi', backgroundImage: '' } };
+    const body = { sections: [{ id: 'cols', type: 'columns', data: { columns: [{ id: 'a', sections: [hero] }, { id: 'b', sections: [] }] } }] };
+    const { body: migrated } = migratePageBody(body) as { body: { sections: { data: { columns: { sections: { data: object }[] }[] } }[] } };
+    expect(migrated.sections[0].data.columns[0].sections[0].data).toEqual({ title: 'Hi' });
+  });
+});
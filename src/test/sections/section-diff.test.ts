@@ -0,0 +1,41 @@
+import { describe, test, expect } from 'vitest';
+import { diffBodies, extractDiffItems, summarizeDiff } from '@/lib/sections/diff';
+
+const hero = { type: 'hero', id: 's1', data: { title: 'Hero' } };
+const about = { type: 'about', id: 's2', data: { title: 'About' } };
+const cta = { type: 'cta', id: 's3', data: { title: 'Call to action' } };
+
+describe('Section Revision Diff Tests', () => {
+  test('extracts sections, blocks and opaque bodies', () => {
+    expect(extractDiffItems({ sections: [hero] })).toHaveLength(1);
+    expect(extractDiffItems({ blocks: [{ type: 'paragraph' }] })[0].id).toBe('block-0');
+    expect(extractDiffItems('plain text')[0].type).toBe('text');
+    expect(extractDiffItems(null)).toEqual([]);
+  });
+
+  test('detects added, removed and modified sections', () => {
+    const entries = diffBodies(
+      { sections: [hero, about] },
+      { sections: [{ ...hero, data: { title: 'New hero' } }, cta] },
+    );
+
+    expect(summarizeDiff(entries)).toEqual({ added: 1, removed: 1, modified: 1, moved: 0 });
+    expect(entries.find(entry => entry.id === 's1')?.changedFields).toEqual(['title']);
+    expect(entries.map(entry => entry.id)).toEqual(['s1', 's2', 's3']);
+  });
+
+  test('reports reordered sections as moved without marking them modified', () => {
+    const entries = diffBodies({ sections: [hero, about, cta] }, { sections: [cta, hero, about] });
+    const moved = entries.filter(entry => entry.moved);
+
+    expect(moved.map(entry => entry.id)).toEqual(['s3']);
+    expect(moved[0].kind).toBe('unchanged');
+  });
+
+  test('ignores key order inside section data', () => {
+    const before = { sections: [{ ...hero, data: { title: 'Hero', subtitle: 'Sub' } }] };
+    const after = { sections: [{ ...hero, data: { subtitle: 'Sub', title: 'Hero' } }] };
+
+    expect(summarizeDiff(diffBodies(before, after)).modified).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, test, expect } from 'vitest';
+import {
+  CURRENT_PAGE_BODY_VERSION,
+  getPageBodyVersion,
+  migrateAndValidatePageBody,
+  migratePageBody,
+} from '@/lib/sections/migrations';
+
+const legacyBody = {
+  sections: [
+    { id: 's1', type: 'hero', data: { title: 'Hero', backgroundImage: '' } },
+    {
+      id: 's2',
+      type: 'about',
+      data: {
+        title: 'About',
+        description: 'Who we are',
+        image: 'https://example.com/legacy.jpg',
+        mainImage: { src: '/about.jpg', alt: 'Team' },
+      },
+    },
+    { id: 's3', type: 'servicesPreview', data: { title: 'Services', limit: '4', showAll: true } },
+  ],
+};
+
+describe('Section Schema Migration Tests', () => {
+  test('treats unversioned bodies as version 1', () => {
+    expect(getPageBodyVersion(legacyBody)).toBe(1);
+    expect(getPageBodyVersion({ version: 2, sections: [] })).toBe(2);
+  });
+
+  test('upgrades legacy section data and stamps the current version', () => {
+    const result = migratePageBody(legacyBody);
+    const body = result.body as typeof legacyBody & { version: number };
+
+    expect(result.changed).toBe(true);
+    expect(body.version).toBe(CURRENT_PAGE_BODY_VERSION);
+    expect(body.sections[0].data).not.toHaveProperty('backgroundImage');
+    expect(body.sections[1].data).not.toHaveProperty('image');
+    expect(body.sections[2].data.limit).toBe(4);
+    // The stored body is not mutated
+    expect(legacyBody.sections[2].data.limit).toBe('4');
+  });
+
+  test('leaves current and non-section bodies untouched', () => {
+    const current = { version: CURRENT_PAGE_BODY_VERSION, sections: [] };
+    expect(migratePageBody(current)).toMatchObject({ body: current, changed: false });
+    expect(migratePageBody({ content: 'Plain text' }).changed).toBe(false);
+  });
+
+  test('reports validation issues with their section path', () => {
+    const result = migrateAndValidatePageBody({
+      sections: [{ id: 's1', type: 'hero', data: { title: '' } }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.issues[0]).toContain('sections.0.data.title');
+  });
+
+  test('migrated legacy bodies validate against the current schema', () => {
+    expect(migrateAndValidatePageBody(legacyBody).success).toBe(true);
+  });
+});
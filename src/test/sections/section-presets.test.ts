@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'vitest';
+import { createDefaultSection, ContentSection } from '@/lib/sections/schema';
+import { exportSectionPresets, parseSectionPresetImport, instantiatePreset, SECTION_PRESET_FILE_FORMAT } from '@/lib/sections/presets';
+
+const preset = (section: unknown, name = 'Spring hero') => ({
+  name,
+  category: 'Hero',
+  description: null,
+  thumbnail_url: '/images/presets/hero.jpg',
+  section,
+});
+
+describe('Section Presets Tests', () => {
+  test('exported presets import again', () => {
+    const hero = createDefaultSection('hero');
+    const { presets, errors } = parseSectionPresetImport(exportSectionPresets([preset(hero)]));
+
+    expect(errors).toEqual([]);
+    expect(presets).toHaveLength(1);
+    expect(presets[0]).toMatchObject({ name: 'Spring hero', category: 'Hero', section: hero });
+  });
+
+  test('invalid and global sections are skipped with a reason', () => {
+    const file = JSON.stringify({
+      format: SECTION_PRESET_FILE_FORMAT,
+      version: 2,
+      presets: [
+        preset({ id: 'a', type: 'hero', data: { title: '' } }, 'Empty hero'),
+        preset(createDefaultSection('globalSection'), 'Shared'),
+        preset(createDefaultSection('cta'), 'Footer CTA'),
+      ],
+    });
+    const { presets, errors } = parseSectionPresetImport(file);
+
+    expect(presets.map(p => p.name)).toEqual(['Footer CTA']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('"Empty hero"');
+  });
+
+  test('older files are migrated and foreign files rejected', () => {
+    const legacyHero = { id: 'h', type: 'hero', data: { title: 'Legacy', backgroundImage: '' } };
+    const file = JSON.stringify({ format: SECTION_PRESET_FILE_FORMAT, version: 1, presets: [preset(legacyHero)] });
+    expect(parseSectionPresetImport(file).presets[0].section.data).toEqual({ title: 'Legacy' });
+
+    expect(parseSectionPresetImport('not json').errors).toEqual(['File is not valid JSON']);
+    expect(parseSectionPresetImport(JSON.stringify({ format: 'other', version: 1, presets: [] })).errors).toHaveLength(1);
+  });
+
+  test('inserted presets get fresh ids', () => {
+    const columns = createDefaultSection('columns') as ContentSection;
+    const copy = instantiatePreset(columns);
+
+    expect(copy.id).not.toBe(columns.id);
+    if (copy.type !== 'columns' || columns.type !== 'columns') throw new Error('Expected columns');
+    expect(copy.data.columns[0].id).not.toBe(columns.data.columns[0].id);
+    expect(copy.data.columns[0].sections[0].id).not.toBe(columns.data.columns[0].sections[0].id);
+  });
+});
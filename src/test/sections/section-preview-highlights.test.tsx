@@ -0,0 +1,35 @@
+import { describe, test, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { SectionsTab } from '@/components/admin/sections/SectionsTab';
+import { getSectionIssues, getSectionIssuesById } from '@/lib/sections/validation';
+
+const validHero = { type: 'hero', id: 'hero-1', data: { title: 'Hero' } };
+const invalidAbout = { type: 'about', id: 'about-1', data: { title: 'About', description: '' } };
+
+describe('Section Preview Highlight Tests', () => {
+  test('issues use field paths without the data prefix', () => {
+    expect(getSectionIssues(validHero)).toEqual([]);
+    expect(getSectionIssues(invalidAbout)).toEqual(['description: Description is required']);
+    expect(Object.keys(getSectionIssuesById([validHero, invalidAbout]))).toEqual(['about-1']);
+  });
+
+  test('invalid sections are highlighted in the editor list', () => {
+    render(<SectionsTab pageBody={{ sections: [validHero, invalidAbout] }} onUpdate={() => {}} />);
+
+    expect(screen.getAllByText('Invalid')).toHaveLength(1);
+    expect(screen.getByRole('list', { name: 'About validation errors' })).toHaveTextContent('description: Description is required');
+  });
+
+  test('selecting a section from the preview expands its editor row', () => {
+    render(
+      <SectionsTab
+        pageBody={{ sections: [validHero, invalidAbout] }}
+        onUpdate={() => {}}
+        selectedSectionId="hero-1"
+      />
+    );
+
+    expect(screen.getByRole('group', { name: 'Hero section editor' })).toBeInTheDocument();
+    expect(screen.queryByRole('group', { name: 'About section editor' })).not.toBeInTheDocument();
+  });
+});
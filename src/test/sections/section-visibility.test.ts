@@ -0,0 +1,57 @@
+import { describe, test, expect } from 'vitest';
+import { SectionSchema, createDefaultSection } from '@/lib/sections/schema';
+import { isSectionVisible, getDeviceForWidth, describeVisibility, VisibilityContext } from '@/lib/sections/visibility';
+
+const context = (overrides: Partial<VisibilityContext> = {}): VisibilityContext => ({
+  now: new Date('2025-10-01T12:00:00Z'),
+  device: 'desktop',
+  isAuthenticated: false,
+  searchParams: new URLSearchParams(),
+  ...overrides,
+});
+
+describe('Section Visibility Tests', () => {
+  test('sections without rules are always visible', () => {
+    expect(isSectionVisible(createDefaultSection('cta'), context())).toBe(true);
+  });
+
+  test('schedule windows include the start and exclude the end', () => {
+    const section = { visibility: { audience: 'all' as const, startAt: '2025-10-01T12:00:00.000Z', endAt: '2025-10-02T00:00:00.000Z' } };
+    expect(isSectionVisible(section, context())).toBe(true);
+    expect(isSectionVisible(section, context({ now: new Date('2025-09-30T23:59:00Z') }))).toBe(false);
+    expect(isSectionVisible(section, context({ now: new Date('2025-10-02T00:00:00Z') }))).toBe(false);
+  });
+
+  test('device, audience and query rules must all match', () => {
+    const section = {
+      visibility: {
+        audience: 'anonymous' as const,
+        devices: ['mobile' as const, 'tablet' as const],
+        query: [{ key: 'utm_campaign', value: 'Spring' }, { key: 'ref' }],
+      },
+    };
+    const matching = context({ device: 'mobile', searchParams: new URLSearchParams('utm_campaign=spring&ref=x') });
+
+    expect(isSectionVisible(section, matching)).toBe(true);
+    expect(isSectionVisible(section, { ...matching, device: 'desktop' })).toBe(false);
+    expect(isSectionVisible(section, { ...matching, isAuthenticated: true })).toBe(false);
+    expect(isSectionVisible(section, { ...matching, searchParams: new URLSearchParams('utm_campaign=spring') })).toBe(false);
+  });
+
+  test('device breakpoints follow md and lg', () => {
+    expect(getDeviceForWidth(375)).toBe('mobile');
+    expect(getDeviceForWidth(768)).toBe('tablet');
+    expect(getDeviceForWidth(1024)).toBe('desktop');
+  });
+
+  test('schema rejects schedules that end before they start', () => {
+    const section = createDefaultSection('cta');
+    const visibility = { startAt: '2025-10-02T00:00:00.000Z', endAt: '2025-10-01T00:00:00.000Z' };
+    expect(SectionSchema.safeParse({ ...section, visibility }).success).toBe(false);
+    expect(SectionSchema.safeParse({ ...section, visibility: { devices: ['mobile'] } }).success).toBe(true);
+    // Compared as times, not text: '.500Z' sorts before 'Z' but is later
+    expect(SectionSchema.safeParse({ ...section, visibility: { startAt: '2025-10-01T10:00:00Z', endAt: '2025-10-01T10:00:00.500Z' } }).success).toBe(true);
+    expect(SectionSchema.safeParse({ ...section, visibility: { startAt: '2025-10-01T10:00:00.500Z', endAt: '2025-10-01T10:00:00Z' } }).success).toBe(false);
+    expect(describeVisibility({ audience: 'all', devices: ['mobile'] })).toEqual(['Mobile only']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'vitest';
+import { countBlogTags, findSimilarTags, getTagPath, getTagSuggestions, normalizeTag, normalizeTags } from '@/lib/tags';
+
+describe('tag normalization', () => {
+  test('lowercases and joins words with dashes', () => {
+    expect(normalizeTag('  React Native ')).toBe('react-native');
+    expect(normalizeTag('machine_learning')).toBe('machine-learning');
+    expect(normalizeTag('--Web  -- Dev!--')).toBe('web-dev');
+  });
+
+  test('keeps the characters in names like c++, c# and next.js', () => {
+    expect(['C++', 'C#', 'Next.js', 'Café'].map(normalizeTag)).toEqual(['c++', 'c#', 'next.js', 'café']);
+    expect(getTagPath('c#')).toBe('/blog/tag/c%23');
+  });
+
+  test('drops empty tags and duplicates, keeping the first position', () => {
+    expect(normalizeTags(['React', 'news', ' react ', '!!', 'News'])).toEqual(['react', 'news']);
+    expect(normalizeTags(null)).toEqual([]);
+  });
+});
+
+describe('tag usage', () => {
+  const usage = countBlogTags([
+    { tags: ['react', 'news'], status: 'published' },
+    { tags: ['react'], status: 'draft' },
+    { tags: ['reactjs', 'react.js'], status: 'published' },
+    { tags: null, status: 'published' },
+  ]);
+
+  test('counts posts and published posts per tag, most used first', () => {
+    expect(usage).toEqual([
+      { tag: 'react', postCount: 2, publishedCount: 1 },
+      { tag: 'news', postCount: 1, publishedCount: 1 },
+      { tag: 'react.js', postCount: 1, publishedCount: 1 },
+      { tag: 'reactjs', postCount: 1, publishedCount: 1 },
+    ]);
+  });
+
+  test('groups spellings of the same tag as merge suggestions', () => {
+    expect(findSimilarTags(usage).map(group => group.map(({ tag }) => tag))).toEqual([['react', 'react.js', 'reactjs']]);
+  });
+
+  test('suggests existing tags for autocomplete, prefix matches first', () => {
+    const tags = ['news', 'react-native', 'react', 'preact'];
+    expect(getTagSuggestions('Rea', tags)).toEqual(['react-native', 'react', 'preact']);
+    expect(getTagSuggestions('rea', tags, ['react'], 2)).toEqual(['react-native', 'preact']);
+    expect(getTagSuggestions('  ', tags)).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { getAvailableWorkflowActions, getWorkflowState, getWorkflowStateAfterEdit, getWorkflowStatusUpdate, isWorkflowEnabled } from '@/lib/workflow';
+
+const editor = { isEditor: true, isAdmin: false };
+const admin = { isEditor: true, isAdmin: true };
+const viewer = { isEditor: false, isAdmin: false };
+
+describe('editorial workflow transitions', () => {
+  test('editors submit, withdraw and publish approved content', () => {
+    expect(getAvailableWorkflowActions('draft', editor)).toEqual(['submit']);
+    expect(getAvailableWorkflowActions('in_review', editor)).toEqual(['withdraw']);
+    expect(getAvailableWorkflowActions('approved', editor)).toEqual(['publish']);
+    expect(getAvailableWorkflowActions('published', editor)).toEqual(['unpublish']);
+  });
+
+  test('admins approve, request changes and may publish without approval', () => {
+    expect(getAvailableWorkflowActions('in_review', admin)).toEqual(['withdraw', 'approve', 'request_changes', 'publish']);
+    expect(getAvailableWorkflowActions('approved', admin)).toEqual(['request_changes', 'publish']);
+    expect(getAvailableWorkflowActions('draft', admin)).toContain('publish');
+  });
+
+  test('viewers cannot move content', () => {
+    expect(getAvailableWorkflowActions('draft', viewer)).toEqual([]);
+  });
+
+  test('editing approved content needs a new approval before it is published', () => {
+    const edited = getWorkflowStateAfterEdit('approved', editor);
+    expect(edited).toBe('draft');
+    expect(getAvailableWorkflowActions(edited!, editor)).not.toContain('publish');
+  });
+
+  test('editors unpublish content before editing it, admins edit it in place', () => {
+    expect(getWorkflowStateAfterEdit('published', editor)).toBeNull();
+    expect(getWorkflowStateAfterEdit('published', admin)).toBe('published');
+    expect(getWorkflowStateAfterEdit('approved', admin)).toBe('approved');
+    expect(getWorkflowStateAfterEdit('in_review', editor)).toBe('in_review');
+  });
+});
+
+describe('workflow state helpers', () => {
+  test('derives the state of rows saved before the workflow existed', () => {
+    expect(getWorkflowState({ status: 'published' })).toBe('published');
+    expect(getWorkflowState({ status: 'draft' })).toBe('draft');
+    expect(getWorkflowState({ status: 'draft', workflow_state: 'in_review' })).toBe('in_review');
+  });
+
+  test('keeps the status in step with the new state', () => {
+    expect(getWorkflowStatusUpdate('published', { status: 'draft', published_at: '2025-01-01' }))
+      .toEqual({ workflow_state: 'published', status: 'published', published_at: '2025-01-01' });
+    expect(getWorkflowStatusUpdate('draft', { status: 'published' })).toEqual({ workflow_state: 'draft', status: 'draft' });
+    expect(getWorkflowStatusUpdate('in_review', { status: 'draft' })).toEqual({ workflow_state: 'in_review' });
+  });
+
+  test('reads the setting stored as JSON or as a string', () => {
+    expect(isWorkflowEnabled({ editorial_workflow: true })).toBe(true);
+    expect(isWorkflowEnabled({ editorial_workflow: 'true' })).toBe(true);
+    expect(isWorkflowEnabled({})).toBe(false);
+  });
+});
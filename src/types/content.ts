@@ -1,4 +1,7 @@
 // Content types for CMS
+import type { Json } from '@/integrations/supabase/types';
+import type { Section } from '@/lib/sections/schema';
+
 export interface ProjectImage {
   id: string;
   project_id: string;
@@ -15,7 +18,10 @@ export interface Service {
   excerpt?: string;
   content?: any; // JSONB
   status: 'draft' | 'published';
+  workflow_state?: WorkflowState;
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_at?: string;
   updated_at?: string;
   seo_title?: string;
@@ -34,6 +40,8 @@ export interface Project {
   body?: any; // JSONB
   status: 'draft' | 'published';
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_at?: string;
   updated_at?: string;
   project_images?: ProjectImage[];
@@ -56,6 +64,25 @@ export interface BlogCategory {
   updated_at?: string;
 }
 
+export type BlogAuthorSocialNetwork = 'website' | 'twitter' | 'linkedin' | 'github';
+
+export type BlogAuthorSocialLinks = Partial<Record<BlogAuthorSocialNetwork, string>>;
+
+export interface BlogAuthor {
+  id: string;
+  name: string;
+  slug: string;
+  job_title?: string | null;
+  bio?: string | null;
+  avatar_url?: string | null;
+  social_links: BlogAuthorSocialLinks;
+  // The CMS user this author is, or null for a guest author
+  profile_id?: string | null;
+  status: 'draft' | 'published';
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface BlogPost {
   id: string;
   title: string;
@@ -65,10 +92,14 @@ export interface BlogPost {
   tags?: string[];
   feature_image_url?: string;
   status: 'draft' | 'published';
+  workflow_state?: WorkflowState;
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_at?: string;
   updated_at?: string;
   categories?: BlogCategory[];
+  authors?: BlogAuthor[];
   seo_title?: string;
   seo_description?: string;
   seo_canonical_url?: string;
@@ -87,13 +118,76 @@ export interface FAQ {
   updated_at?: string;
 }
 
+export interface CaseStudy {
+  id: string;
+  title: string;
+  slug: string;
+  summary?: string;
+  client?: string;
+  industry?: string;
+  services?: string[];
+  tech_stack?: string[];
+  metrics?: Json; // JSONB array of { label, value, unit?, delta? }
+  hero_image?: string;
+  status: 'draft' | 'published';
+  workflow_state?: WorkflowState;
+  published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+export interface LabProject {
+  id: string;
+  title: string;
+  slug: string;
+  summary?: string;
+  demo_url?: string;
+  repo_url?: string;
+  hero_image?: string;
+  tags?: string[];
+  status: 'draft' | 'published';
+  published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+export interface Job {
+  id: string;
+  title: string;
+  slug: string;
+  team?: string;
+  location?: string;
+  work_mode?: 'remote' | 'hybrid' | 'onsite';
+  type?: 'full-time' | 'part-time' | 'contract' | 'intern';
+  description?: string;
+  status: 'draft' | 'open' | 'closed';
+  published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
+}
+
+// Tables that content list sections (FAQ, case studies, ...) can pick items from
+export type ContentListSource = 'faqs' | 'case_studies' | 'lab_projects' | 'jobs';
+
+export interface ContentOption {
+  id: string;
+  label: string;
+  status: string;
+  // Filter values of the item: industry, tags or team
+  facets: string[];
+}
+
 export interface Page {
   id: string;
   title: string;
   slug: string;
+  parent_id?: string | null;
   body?: any; // JSONB
   status: 'draft' | 'published';
+  workflow_state?: WorkflowState;
   published_at?: string;
+  publish_at?: string | null;
+  unpublish_at?: string | null;
   created_at?: string;
   updated_at?: string;
   seo_title?: string;
@@ -112,4 +206,237 @@ export interface ContactSubmission {
   message: string;
   ip?: string;
   created_at?: string;
-}
\ No newline at end of file
+}
+
+export type RevisionEntityType = 'page' | 'service' | 'project' | 'blog_post';
+
+export interface ContentRevision {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  title?: string;
+  body?: Json; // JSONB snapshot of the body/content column
+  created_by?: string;
+  created_at: string;
+  author_email?: string;
+}
+
+export type WorkflowEntityType = 'page' | 'service' | 'blog_post' | 'case_study';
+
+export type WorkflowState = 'draft' | 'in_review' | 'approved' | 'published';
+
+export type WorkflowAction = 'submit' | 'withdraw' | 'approve' | 'request_changes' | 'publish' | 'unpublish' | 'comment';
+
+export interface ContentWorkflowEvent {
+  id: string;
+  entity_type: WorkflowEntityType;
+  entity_id: string;
+  action: WorkflowAction;
+  from_state: WorkflowState;
+  to_state: WorkflowState;
+  comment?: string | null;
+  actor_id?: string | null;
+  created_at: string;
+  actor_email?: string;
+}
+
+// Content waiting for an admin or for publishing, listed on the dashboard
+export interface ReviewQueueItem {
+  id: string;
+  title: string;
+  entity_type: WorkflowEntityType;
+  workflow_state: WorkflowState;
+  updated_at: string;
+}
+
+export type EditableEntityType = 'page' | 'service' | 'project' | 'blog_post' | 'case_study' | 'lab_project' | 'job';
+
+export interface ContentLock {
+  entity_type: EditableEntityType;
+  entity_id: string;
+  locked_by: string;
+  locked_by_email?: string | null;
+  acquired_at: string;
+  expires_at: string;
+}
+
+// Someone with the same content open, from the realtime presence channel
+export interface EditorPresence {
+  user_id: string;
+  email: string;
+  name: string;
+  joined_at: string;
+}
+
+export type CalendarEntityType = 'blog_post' | 'case_study' | 'lab_project' | 'job';
+
+// Published or scheduled content on the admin content calendar
+export interface CalendarItem {
+  id: string;
+  entity_type: CalendarEntityType;
+  title: string;
+  status: string;
+  /** published_at of live content, publish_at of scheduled content */
+  date: string;
+  scheduled: boolean;
+  category?: Pick<BlogCategory, 'name' | 'color'> | null;
+  updated_at: string;
+}
+
+export type PreviewEntityType = 'page' | 'blog_post' | 'case_study' | 'lab_project';
+
+export interface PreviewToken {
+  id: string;
+  token: string;
+  entity_type: PreviewEntityType;
+  entity_id: string;
+  expires_at: string;
+  revoked_at?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type PageMigrationStatus = 'migrated' | 'up-to-date' | 'failed' | 'skipped';
+
+export interface PageMigrationReport {
+  id: string;
+  title: string;
+  slug: string;
+  status: PageMigrationStatus;
+  fromVersion: number;
+  toVersion: number;
+  issues: string[];
+}
+
+export type PageImportStatus = 'created' | 'updated' | 'skipped' | 'failed';
+
+export interface PageImportResult {
+  slug: string;
+  title: string;
+  status: PageImportStatus;
+  id?: string;
+  error?: string;
+}
+
+export interface BlogImportResult {
+  sourceName: string;
+  slug: string;
+  title: string;
+  status: PageImportStatus;
+  id?: string;
+  error?: string;
+  imagesRehosted: number;
+  // Images that could not be downloaded; the post keeps their original URLs
+  imageFailures: string[];
+  categoriesCreated: string[];
+}
+
+export type MenuLinkType = 'route' | 'external' | 'none' | 'page' | 'service' | 'project' | 'blog_post' | 'case_study' | 'lab_project' | 'job';
+
+export interface Menu {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface MenuItem {
+  id: string;
+  menu_id: string;
+  parent_id?: string | null;
+  label: string;
+  link_type: MenuLinkType;
+  entity_id?: string | null;
+  url?: string | null;
+  open_in_new_tab: boolean;
+  style: 'link' | 'button';
+  is_visible: boolean;
+  audience: 'all' | 'authenticated' | 'anonymous';
+  sort_order: number;
+}
+
+export type TranslatableEntityType = 'page' | 'service' | 'project' | 'blog_post' | 'faq' | 'case_study' | 'job';
+
+export interface ContentTranslation {
+  id: string;
+  entity_type: TranslatableEntityType;
+  entity_id: string;
+  locale: string;
+  fields: Record<string, unknown>; // JSONB, translated values keyed by column name
+  status: 'draft' | 'published';
+  source_updated_at?: string | null;
+  updated_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Source row as listed in the translation overview
+export interface TranslationSource {
+  id: string;
+  title: string;
+  status: string;
+  updated_at: string;
+  [field: string]: unknown;
+}
+
+export type RedirectEntityType = 'page' | 'service' | 'project' | 'blog_post' | 'case_study' | 'lab_project' | 'job';
+
+export interface Redirect {
+  id: string;
+  source_path: string;
+  target_path: string;
+  status_code: 301 | 302;
+  match_type: 'exact' | 'wildcard';
+  is_active: boolean;
+  entity_type?: RedirectEntityType | null;
+  entity_id?: string | null;
+  note?: string | null;
+  hit_count: number;
+  last_hit_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GlobalSection {
+  id: string;
+  name: string;
+  section: Section; // JSONB (never another globalSection)
+  schema_version: number;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SectionPreset {
+  id: string;
+  name: string;
+  category: string;
+  description?: string | null;
+  thumbnail_url?: string | null;
+  section: Section; // JSONB (never a globalSection reference)
+  schema_version: number;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GlobalSectionUsage {
+  id: string;
+  title: string;
+  slug: string;
+  status: 'draft' | 'published';
+}
+
+export type AutosaveEntityType = 'blog_post' | 'job' | 'proposal';
+
+// Unsaved editor state, kept in localStorage and copied to editor_drafts
+export interface EditorDraft<T = unknown> {
+  entity_type: AutosaveEntityType;
+  /** The content id, or 'new' for content that has not been created yet */
+  entity_key: string;
+  data: T;
+  base_updated_at: string | null;
+  saved_at: string;
+}
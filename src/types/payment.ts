@@ -64,6 +64,9 @@ export interface BankDetails {
   instructions: string[];
 }
 
+// 'custom' tiers are quoted individually and never go through checkout
+export type PricingBillingPeriod = 'one_time' | 'month' | 'year' | 'custom';
+
 export interface PricingTier {
   id: string;
   name: string;
@@ -72,4 +75,10 @@ export interface PricingTier {
   description: string;
   features: string[];
   popular?: boolean;
+  billing_period?: PricingBillingPeriod;
+  cta_label?: string;
+  status?: 'draft' | 'published';
+  sort_order?: number;
+  created_at?: string;
+  updated_at?: string;
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+// The blog feed builders are shared with the app; deno.json maps their imports (and the
+// modules they import) to the files in src/lib, so keep it in step with those imports
+import { buildFeedDocument, FEED_FORMATS, FEED_ITEM_LIMIT, parseFeedPath, renderFeed, type FeedPost } from "@/lib/feeds";
+import { liveContentFilter } from "@/lib/schedule";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[FEEDS] ${step}${details ? ` - ${JSON.stringify(details)}` : ''}`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Feed paths follow the function name, e.g. /feeds/blog/tag/react/rss.xml
+  const path = new URL(req.url).pathname.replace(/^.*?\/feeds(?=\/|$)/, "");
+  const feed = parseFeedPath(path);
+  if (!feed) {
+    return new Response("Feed not found", {
+      headers: { ...corsHeaders, "Content-Type": "text/plain" },
+      status: 404,
+    });
+  }
+
+  try {
+    // The anon key keeps row level security in place: only published posts are readable
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Category feeds join on a second copy of the category links, so each post still lists
+    // all of its categories rather than only the one the feed is for
+    const scope = feed.scope;
+    let query = supabase
+      .from("blog_posts")
+      .select(scope.type === "category"
+        ? "*, blog_post_categories(blog_categories(*)), category_scope:blog_post_categories!inner(blog_categories!inner(slug))"
+        : "*, blog_post_categories(blog_categories(*))")
+      .eq("status", "published")
+      .or(liveContentFilter())
+      .order("published_at", { ascending: false });
+
+    if (scope.type === "category") query = query.eq("category_scope.blog_categories.slug", scope.slug);
+    if (scope.type === "tag") query = query.contains("tags", [scope.tag]);
+    // Insights are picked by their tags in buildFeedDocument, which applies the limit after that filter
+    if (scope.type !== "insights") query = query.limit(FEED_ITEM_LIMIT);
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(`Failed to load posts: ${error.message}`);
+
+    type PostRow = FeedPost & {
+      blog_post_categories?: { blog_categories: FeedPost['categories'][number] | null }[];
+      category_scope?: unknown;
+    };
+    const posts: FeedPost[] = ((data || []) as PostRow[]).map(({ blog_post_categories, category_scope, ...post }) => ({
+      ...post,
+      categories: (blog_post_categories || []).map(link => link.blog_categories).filter(Boolean),
+    }));
+
+    let documentScope = scope;
+    if (scope.type === "category") {
+      const slug = scope.slug;
+      const category = posts.flatMap(post => post.categories ?? []).find(item => item.slug === slug);
+      documentScope = { ...scope, name: category?.name };
+    }
+
+    const siteUrl = Deno.env.get("SITE_URL") || "https://devmart.sr";
+    const body = renderFeed(buildFeedDocument(posts, documentScope, siteUrl), feed.format);
+    logStep("Feed rendered", { path, posts: posts.length });
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": `${FEED_FORMATS.find(option => option.value === feed.format)!.mimeType}; charset=utf-8`,
+        "Cache-Control": "public, max-age=300",
+      },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
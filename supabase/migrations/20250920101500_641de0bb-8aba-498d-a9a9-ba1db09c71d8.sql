@@ -0,0 +1,13 @@
+-- Dynamic CMS page routing
+-- Adds parent/child hierarchy to pages so published pages can be served on nested paths
+
+ALTER TABLE public.pages
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.pages(id) ON DELETE SET NULL;
+
+-- A page can never be its own parent
+ALTER TABLE public.pages
+  ADD CONSTRAINT pages_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_pages_parent_id ON public.pages(parent_id) WHERE parent_id IS NOT NULL;
+
+ANALYZE pages;
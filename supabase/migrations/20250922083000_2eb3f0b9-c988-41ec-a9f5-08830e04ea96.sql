@@ -0,0 +1,72 @@
+-- Content revision history
+-- Every change to a page, service, project or blog post body is stored as an immutable revision
+
+CREATE TABLE public.content_revisions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('page', 'service', 'project', 'blog_post')),
+    entity_id UUID NOT NULL,
+    title TEXT,
+    body JSONB,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_content_revisions_entity ON public.content_revisions(entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors and admins can view content revisions" 
+ON public.content_revisions 
+FOR SELECT 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+-- Revisions are written by trigger only and are never modified afterwards
+CREATE OR REPLACE FUNCTION public.prevent_content_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Content revisions are immutable';
+END;
+$$ LANGUAGE plpgsql SET search_path = 'public';
+
+CREATE TRIGGER content_revisions_immutable
+    BEFORE UPDATE ON public.content_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_content_revision_update();
+
+-- Record a revision whenever the body column changes
+-- TG_ARGV[0] = entity type, TG_ARGV[1] = name of the body column
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_body JSONB := to_jsonb(NEW) -> TG_ARGV[1];
+BEGIN
+  IF TG_OP = 'UPDATE' AND new_body IS NOT DISTINCT FROM (to_jsonb(OLD) -> TG_ARGV[1]) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.content_revisions (entity_type, entity_id, title, body, created_by)
+  VALUES (TG_ARGV[0], NEW.id, NEW.title, new_body, auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+CREATE TRIGGER record_pages_revision
+    AFTER INSERT OR UPDATE ON public.pages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_content_revision('page', 'body');
+
+CREATE TRIGGER record_services_revision
+    AFTER INSERT OR UPDATE ON public.services
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_content_revision('service', 'content');
+
+CREATE TRIGGER record_projects_revision
+    AFTER INSERT OR UPDATE ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_content_revision('project', 'body');
+
+CREATE TRIGGER record_blog_posts_revision
+    AFTER INSERT OR UPDATE ON public.blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_content_revision('blog_post', 'body');
@@ -0,0 +1,118 @@
+-- Shareable preview links for unpublished content
+-- Tokens are random, expire, and can be revoked; drafts are only exposed through get_preview_content
+
+CREATE TABLE public.preview_tokens (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    token TEXT NOT NULL UNIQUE,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('page', 'blog_post', 'case_study', 'lab_project')),
+    entity_id UUID NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_preview_tokens_entity ON public.preview_tokens(entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.preview_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Editors and admins can view preview tokens" 
+ON public.preview_tokens 
+FOR SELECT 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Admins can delete preview tokens" 
+ON public.preview_tokens 
+FOR DELETE 
+USING (get_current_user_role() = 'admin'::text);
+
+-- Create a preview token; the token itself is generated server-side
+CREATE OR REPLACE FUNCTION public.create_preview_token(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_expires_in_hours INTEGER DEFAULT 72
+)
+RETURNS public.preview_tokens AS $$
+DECLARE
+  new_token public.preview_tokens;
+  raw_token TEXT;
+BEGIN
+  IF get_current_user_role() NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can create preview links';
+  END IF;
+
+  IF p_expires_in_hours IS NULL OR p_expires_in_hours < 1 OR p_expires_in_hours > 720 THEN
+    RAISE EXCEPTION 'Preview links must expire within 1 to 720 hours';
+  END IF;
+
+  raw_token := encode(gen_random_bytes(32), 'base64');
+  raw_token := replace(replace(replace(raw_token, '+', '-'), '/', '_'), '=', '');
+
+  INSERT INTO public.preview_tokens (token, entity_type, entity_id, expires_at, created_by)
+  VALUES (raw_token, p_entity_type, p_entity_id, now() + make_interval(hours => p_expires_in_hours), auth.uid())
+  RETURNING * INTO new_token;
+
+  RETURN new_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+-- Revoke a preview token; there is no UPDATE policy, so this is the only change allowed
+-- to an existing token (expiry and target stay as created)
+CREATE OR REPLACE FUNCTION public.revoke_preview_token(p_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF get_current_user_role() NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Only editors and admins can revoke preview links';
+  END IF;
+
+  UPDATE public.preview_tokens
+  SET revoked_at = now()
+  WHERE id = p_id AND revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+-- Resolve a preview token to the current (draft or published) row it points at
+-- Returns NULL for unknown, expired or revoked tokens
+CREATE OR REPLACE FUNCTION public.get_preview_content(p_token TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  preview public.preview_tokens;
+  content JSONB;
+BEGIN
+  SELECT * INTO preview
+  FROM public.preview_tokens
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  CASE preview.entity_type
+    WHEN 'page' THEN
+      SELECT to_jsonb(p) INTO content FROM public.pages p WHERE p.id = preview.entity_id;
+    WHEN 'blog_post' THEN
+      SELECT to_jsonb(b) INTO content FROM public.blog_posts b WHERE b.id = preview.entity_id;
+    WHEN 'case_study' THEN
+      SELECT to_jsonb(c) INTO content FROM public.case_studies c WHERE c.id = preview.entity_id;
+    WHEN 'lab_project' THEN
+      SELECT to_jsonb(l) INTO content FROM public.lab_projects l WHERE l.id = preview.entity_id;
+  END CASE;
+
+  IF content IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'entity_type', preview.entity_type,
+    'entity_id', preview.entity_id,
+    'expires_at', preview.expires_at,
+    'content', content
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.get_preview_content(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_preview_token(TEXT, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_preview_token(UUID) TO authenticated;
@@ -0,0 +1,46 @@
+-- Global sections: a section stored once and referenced from page bodies by id
+-- Page bodies embed { "type": "globalSection", "data": { "globalSectionId": "<id>" } }
+
+CREATE TABLE public.global_sections (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    section JSONB NOT NULL,
+    -- Section schema version the data was written with (see src/lib/sections/migrations.ts)
+    schema_version INTEGER NOT NULL DEFAULT 1,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    -- A global section cannot reference another global section
+    CONSTRAINT global_sections_no_nesting CHECK (section->>'type' IS DISTINCT FROM 'globalSection')
+);
+
+ALTER TABLE public.global_sections ENABLE ROW LEVEL SECURITY;
+
+-- Global sections are rendered on public pages
+CREATE POLICY "Anyone can view global sections" 
+ON public.global_sections 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Editors and admins can create global sections" 
+ON public.global_sections 
+FOR INSERT 
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update global sections" 
+ON public.global_sections 
+FOR UPDATE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Admins can delete global sections" 
+ON public.global_sections 
+FOR DELETE 
+USING (get_current_user_role() = 'admin'::text);
+
+CREATE TRIGGER update_global_sections_updated_at
+    BEFORE UPDATE ON public.global_sections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Speeds up the usage lookup (body @> '{"sections":[{"data":{"globalSectionId":"..."}}]}')
+CREATE INDEX idx_pages_body_gin ON public.pages USING GIN (body jsonb_path_ops);
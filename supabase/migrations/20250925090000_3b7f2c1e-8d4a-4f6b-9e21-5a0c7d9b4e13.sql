@@ -0,0 +1,68 @@
+-- Pricing tiers: managed plans rendered by the Pricing page and the `pricing` page section.
+-- Prices are stored in cents, matching the amounts passed to the payment providers.
+
+CREATE TABLE public.pricing_tiers (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    price INTEGER NOT NULL DEFAULT 0 CHECK (price >= 0),
+    currency TEXT NOT NULL DEFAULT 'usd',
+    -- 'custom' tiers have no fixed price and are sold through a quote instead of checkout
+    billing_period TEXT NOT NULL DEFAULT 'one_time' CHECK (billing_period IN ('one_time', 'month', 'year', 'custom')),
+    features TEXT[] NOT NULL DEFAULT '{}',
+    popular BOOLEAN NOT NULL DEFAULT false,
+    cta_label TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pricing_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view published pricing tiers" 
+ON public.pricing_tiers 
+FOR SELECT 
+USING (status = 'published');
+
+CREATE POLICY "Editors and admins can view all pricing tiers" 
+ON public.pricing_tiers 
+FOR SELECT 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can create pricing tiers" 
+ON public.pricing_tiers 
+FOR INSERT 
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update pricing tiers" 
+ON public.pricing_tiers 
+FOR UPDATE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Only admins can delete pricing tiers" 
+ON public.pricing_tiers 
+FOR DELETE 
+USING (get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_pricing_tiers_updated_at
+    BEFORE UPDATE ON public.pricing_tiers
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_pricing_tiers_status_sort ON public.pricing_tiers (status, sort_order);
+
+-- Seed with the plans previously hard-coded on the Pricing page
+INSERT INTO public.pricing_tiers (name, description, price, currency, billing_period, features, popular, cta_label, status, sort_order) VALUES
+('Starter', 'Perfect for small businesses getting started with digital marketing', 299900, 'usd', 'one_time',
+ ARRAY['Website Design & Development', 'Basic SEO Setup', 'Google Analytics Integration', 'Mobile Responsive Design', 'Content Management System', '30 Days Support', '3 Revision Rounds'],
+ false, 'Get Started', 'published', 1),
+('Business', 'Comprehensive solution for growing businesses', 599900, 'usd', 'one_time',
+ ARRAY['Everything in Starter', 'Advanced SEO Optimization', 'Social Media Integration', 'E-commerce Functionality', 'Brand Identity Design', '90 Days Support', '5 Revision Rounds', 'Marketing Strategy Consultation'],
+ true, 'Choose Business', 'published', 2),
+('Pro', 'Advanced solution for established businesses', 999900, 'usd', 'one_time',
+ ARRAY['Everything in Business', 'Custom Web Application', 'Advanced Analytics Setup', 'Marketing Automation', 'Performance Optimization', '6 Months Support', 'Unlimited Revisions', 'Dedicated Account Manager'],
+ false, 'Go Pro', 'published', 3),
+('Enterprise', 'Tailored solutions for large organizations', 0, 'usd', 'custom',
+ ARRAY['Everything in Pro', 'Custom Development', 'Multi-site Management', 'Enterprise Security', 'API Integrations', '1 Year Support', 'Priority Support', 'Quarterly Strategy Reviews'],
+ false, 'Contact Sales', 'published', 4);
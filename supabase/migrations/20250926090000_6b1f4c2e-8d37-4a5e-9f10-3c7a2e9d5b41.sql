@@ -0,0 +1,49 @@
+-- Section presets: named, reusable section configurations for the page builder.
+-- Inserting a preset copies its section into the page body (unlike global sections,
+-- later changes to the preset do not affect pages that used it).
+
+CREATE TABLE public.section_presets (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    category TEXT NOT NULL DEFAULT 'General',
+    description TEXT,
+    thumbnail_url TEXT,
+    section JSONB NOT NULL,
+    -- Section schema version the data was written with (see src/lib/sections/migrations.ts)
+    schema_version INTEGER NOT NULL DEFAULT 1,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    -- References to global sections are inserted directly, not through presets
+    CONSTRAINT section_presets_no_global_refs CHECK (section->>'type' IS DISTINCT FROM 'globalSection')
+);
+
+ALTER TABLE public.section_presets ENABLE ROW LEVEL SECURITY;
+
+-- Presets are only used inside the admin
+CREATE POLICY "Editors and admins can view section presets" 
+ON public.section_presets 
+FOR SELECT 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can create section presets" 
+ON public.section_presets 
+FOR INSERT 
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update section presets" 
+ON public.section_presets 
+FOR UPDATE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Admins can delete section presets" 
+ON public.section_presets 
+FOR DELETE 
+USING (get_current_user_role() = 'admin'::text);
+
+CREATE TRIGGER update_section_presets_updated_at
+    BEFORE UPDATE ON public.section_presets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_section_presets_category ON public.section_presets (category, name);
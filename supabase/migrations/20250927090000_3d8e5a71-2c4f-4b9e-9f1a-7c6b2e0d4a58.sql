@@ -0,0 +1,150 @@
+-- Menus: named, database-driven navigation menus (header, footer, ...) edited in the admin.
+-- Items form a tree through parent_id. Links to CMS content store the entity id and are
+-- resolved to the current slug when the menu is rendered, so renaming a slug never breaks them.
+
+CREATE TABLE public.menus (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    -- Stable key the site uses to load the menu, e.g. 'header'
+    slug TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT menus_slug_format CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+CREATE TABLE public.menu_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    menu_id UUID NOT NULL REFERENCES public.menus(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES public.menu_items(id) ON DELETE CASCADE,
+    label TEXT NOT NULL,
+    link_type TEXT NOT NULL DEFAULT 'route',
+    -- Set for content links (page, service, ...)
+    entity_id UUID,
+    -- Set for 'route' (internal path) and 'external' links
+    url TEXT,
+    open_in_new_tab BOOLEAN NOT NULL DEFAULT false,
+    style TEXT NOT NULL DEFAULT 'link',
+    is_visible BOOLEAN NOT NULL DEFAULT true,
+    audience TEXT NOT NULL DEFAULT 'all',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT menu_items_link_type CHECK (link_type IN ('route', 'external', 'none', 'page', 'service', 'project', 'blog_post', 'case_study', 'lab_project', 'job')),
+    CONSTRAINT menu_items_link_target CHECK (
+      CASE
+        WHEN link_type IN ('route', 'external') THEN url IS NOT NULL AND url <> ''
+        WHEN link_type = 'none' THEN true
+        ELSE entity_id IS NOT NULL
+      END
+    ),
+    CONSTRAINT menu_items_style CHECK (style IN ('link', 'button')),
+    CONSTRAINT menu_items_audience CHECK (audience IN ('all', 'authenticated', 'anonymous')),
+    CONSTRAINT menu_items_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+ALTER TABLE public.menus ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.menu_items ENABLE ROW LEVEL SECURITY;
+
+-- Menus render on every public page
+CREATE POLICY "Anyone can view menus" 
+ON public.menus 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Editors and admins can create menus" 
+ON public.menus 
+FOR INSERT 
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update menus" 
+ON public.menus 
+FOR UPDATE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Admins can delete menus" 
+ON public.menus 
+FOR DELETE 
+USING (get_current_user_role() = 'admin'::text);
+
+CREATE POLICY "Anyone can view menu items" 
+ON public.menu_items 
+FOR SELECT 
+USING (true);
+
+CREATE POLICY "Editors and admins can create menu items" 
+ON public.menu_items 
+FOR INSERT 
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update menu items" 
+ON public.menu_items 
+FOR UPDATE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+-- Removing an item is part of editing a menu, so editors may delete items
+CREATE POLICY "Editors and admins can delete menu items" 
+ON public.menu_items 
+FOR DELETE 
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE TRIGGER update_menus_updated_at
+    BEFORE UPDATE ON public.menus
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_menu_items_updated_at
+    BEFORE UPDATE ON public.menu_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_menu_items_menu ON public.menu_items (menu_id, parent_id, sort_order);
+
+-- Seed the menus the header and footer used to hard-code
+DO $$
+DECLARE
+  header_id UUID;
+  footer_id UUID;
+  legal_id UUID;
+  solutions_id UUID := gen_random_uuid();
+  company_id UUID := gen_random_uuid();
+  links_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.menus (name, slug, description)
+  VALUES ('Main Navigation', 'header', 'Top navigation bar and mobile menu')
+  RETURNING id INTO header_id;
+
+  INSERT INTO public.menus (name, slug, description)
+  VALUES ('Footer', 'footer', 'Footer link columns; top-level items are column headings')
+  RETURNING id INTO footer_id;
+
+  INSERT INTO public.menus (name, slug, description)
+  VALUES ('Footer Legal', 'footer-legal', 'Links in the footer bottom bar')
+  RETURNING id INTO legal_id;
+
+  INSERT INTO public.menu_items (id, menu_id, parent_id, label, link_type, url, style, sort_order) VALUES
+    (gen_random_uuid(), header_id, NULL, 'Home', 'route', '/', 'link', 0),
+    (gen_random_uuid(), header_id, NULL, 'Services', 'route', '/services', 'link', 1),
+    (gen_random_uuid(), header_id, NULL, 'Portfolio', 'route', '/portfolio', 'link', 2),
+    (gen_random_uuid(), header_id, NULL, 'About', 'route', '/about', 'link', 3),
+    (gen_random_uuid(), header_id, NULL, 'Pricing', 'route', '/pricing', 'link', 4),
+    (gen_random_uuid(), header_id, NULL, 'Contact', 'route', '/contact', 'link', 5),
+    (solutions_id, header_id, NULL, 'Solutions', 'none', NULL, 'link', 6),
+    (company_id, header_id, NULL, 'Company', 'none', NULL, 'link', 7),
+    (gen_random_uuid(), header_id, NULL, 'Get Started', 'route', '/get-quote', 'button', 8),
+    (gen_random_uuid(), header_id, solutions_id, 'Insights', 'route', '/insights', 'link', 0),
+    (gen_random_uuid(), header_id, solutions_id, 'Case Studies', 'route', '/case-studies', 'link', 1),
+    (gen_random_uuid(), header_id, solutions_id, 'Innovation Lab', 'route', '/innovation-lab', 'link', 2),
+    (gen_random_uuid(), header_id, company_id, 'Blog', 'route', '/blog', 'link', 0),
+    (gen_random_uuid(), header_id, company_id, 'Careers', 'route', '/careers', 'link', 1),
+    (gen_random_uuid(), header_id, company_id, 'FAQ', 'route', '/faq', 'link', 2),
+    (links_id, footer_id, NULL, 'Our Link', 'none', NULL, 'link', 0),
+    (gen_random_uuid(), footer_id, links_id, 'About us', 'route', '/about', 'link', 0),
+    (gen_random_uuid(), footer_id, links_id, 'Services', 'route', '/services', 'link', 1),
+    (gen_random_uuid(), footer_id, links_id, 'Our Project', 'route', '/portfolio', 'link', 2),
+    (gen_random_uuid(), footer_id, links_id, 'FAQ', 'route', '/faq', 'link', 3),
+    (gen_random_uuid(), footer_id, links_id, 'Contact us', 'route', '/contact', 'link', 4),
+    (gen_random_uuid(), legal_id, NULL, 'Terms & Condition', 'route', '/terms-conditions', 'link', 0),
+    (gen_random_uuid(), legal_id, NULL, 'Privacy Policy', 'route', '/privacy-policy', 'link', 1),
+    (gen_random_uuid(), legal_id, NULL, 'Contact', 'route', '/contact', 'link', 2);
+END $$;
@@ -0,0 +1,76 @@
+-- Redirects: old public paths that should send visitors somewhere else, resolved by the
+-- client before it shows a 404. Created by hand in the admin or automatically when a
+-- content slug changes. A wildcard source ends in '*' and matches any remainder, which
+-- replaces a '*' in the target (e.g. /old-blog/* -> /blog/*).
+
+CREATE TABLE public.redirects (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    source_path TEXT NOT NULL UNIQUE,
+    target_path TEXT NOT NULL,
+    status_code INTEGER NOT NULL DEFAULT 301,
+    match_type TEXT NOT NULL DEFAULT 'exact',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    -- Set when the redirect was created for a slug change of this content
+    entity_type TEXT,
+    entity_id UUID,
+    note TEXT,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT redirects_status_code CHECK (status_code IN (301, 302)),
+    CONSTRAINT redirects_match_type CHECK (match_type IN ('exact', 'wildcard')),
+    CONSTRAINT redirects_source_format CHECK (
+      source_path LIKE '/%'
+      AND CASE WHEN match_type = 'wildcard' THEN source_path LIKE '%*' ELSE source_path NOT LIKE '%*%' END
+    ),
+    CONSTRAINT redirects_target_format CHECK (target_path ~ '^(/|https?://)'),
+    CONSTRAINT redirects_not_self CHECK (source_path <> target_path),
+    CONSTRAINT redirects_entity_type CHECK (entity_type IS NULL OR entity_type IN ('page', 'service', 'project', 'blog_post', 'case_study', 'lab_project', 'job'))
+);
+
+ALTER TABLE public.redirects ENABLE ROW LEVEL SECURITY;
+
+-- Visitors need the active rules to resolve them
+CREATE POLICY "Anyone can view active redirects"
+ON public.redirects
+FOR SELECT
+USING (is_active = true OR get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can create redirects"
+ON public.redirects
+FOR INSERT
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update redirects"
+ON public.redirects
+FOR UPDATE
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+-- Slug changes made by editors replace redirects that would otherwise loop
+CREATE POLICY "Editors and admins can delete redirects"
+ON public.redirects
+FOR DELETE
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE TRIGGER update_redirects_updated_at
+    BEFORE UPDATE ON public.redirects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_redirects_entity ON public.redirects (entity_type, entity_id);
+
+-- Hit counting for anonymous visitors, who cannot update the table directly
+CREATE OR REPLACE FUNCTION public.record_redirect_hits(p_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.redirects
+  SET hit_count = hit_count + 1,
+      last_hit_at = now()
+  WHERE id = ANY (p_ids)
+    AND is_active = true;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.record_redirect_hits(UUID[]) TO anon, authenticated;
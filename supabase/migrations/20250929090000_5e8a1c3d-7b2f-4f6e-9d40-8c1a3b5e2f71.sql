@@ -0,0 +1,68 @@
+-- Content translations: per-locale variants of content rows. The content tables keep the
+-- default locale (English); a translation stores only the translatable fields for one
+-- other locale and is overlaid on the row when that locale is requested. Missing fields
+-- and unpublished translations fall back to the default locale.
+
+CREATE TABLE public.content_translations (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    entity_type TEXT NOT NULL,
+    entity_id UUID NOT NULL,
+    locale TEXT NOT NULL,
+    -- Translated values keyed by column name, e.g. {"title": "...", "excerpt": "..."}
+    fields JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status TEXT NOT NULL DEFAULT 'draft',
+    -- updated_at of the source row when this translation was saved, to spot outdated ones
+    source_updated_at TIMESTAMP WITH TIME ZONE,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CONSTRAINT content_translations_entity_type CHECK (entity_type IN ('page', 'service', 'project', 'blog_post', 'faq', 'case_study', 'job')),
+    CONSTRAINT content_translations_locale CHECK (locale ~ '^[a-z]{2}$' AND locale <> 'en'),
+    CONSTRAINT content_translations_status CHECK (status IN ('draft', 'published')),
+    CONSTRAINT content_translations_fields CHECK (jsonb_typeof(fields) = 'object'),
+    UNIQUE (entity_type, entity_id, locale)
+);
+
+ALTER TABLE public.content_translations ENABLE ROW LEVEL SECURITY;
+
+-- A published translation is only public while its source row is
+CREATE POLICY "Anyone can view published translations"
+ON public.content_translations
+FOR SELECT
+USING (status = 'published' AND CASE entity_type
+  WHEN 'page' THEN EXISTS (SELECT 1 FROM public.pages WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'service' THEN EXISTS (SELECT 1 FROM public.services WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'project' THEN EXISTS (SELECT 1 FROM public.projects WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'blog_post' THEN EXISTS (SELECT 1 FROM public.blog_posts WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'faq' THEN EXISTS (SELECT 1 FROM public.faqs WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'case_study' THEN EXISTS (SELECT 1 FROM public.case_studies WHERE id = content_translations.entity_id AND status = 'published')
+  WHEN 'job' THEN EXISTS (SELECT 1 FROM public.jobs WHERE id = content_translations.entity_id AND status IN ('open', 'closed'))
+  ELSE false
+END);
+
+CREATE POLICY "Editors and admins can view all translations"
+ON public.content_translations
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can create translations"
+ON public.content_translations
+FOR INSERT
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update translations"
+ON public.content_translations
+FOR UPDATE
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Admins can delete translations"
+ON public.content_translations
+FOR DELETE
+USING (get_current_user_role() = 'admin'::text);
+
+CREATE TRIGGER update_content_translations_updated_at
+    BEFORE UPDATE ON public.content_translations
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_content_translations_lookup ON public.content_translations (entity_type, locale, status);
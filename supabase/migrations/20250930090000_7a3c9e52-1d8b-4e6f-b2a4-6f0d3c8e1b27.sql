@@ -0,0 +1,201 @@
+-- Editorial workflow: draft -> in review -> approved -> published for pages, services,
+-- blog posts and case studies. `status` stays the public visibility flag; `workflow_state`
+-- tracks where the content is in review. The workflow is optional and switched on with the
+-- `editorial_workflow` setting; while it is on, editors can only publish approved content
+-- and every state change goes through transition_content_workflow(), which logs it.
+
+ALTER TABLE public.pages ADD COLUMN workflow_state TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_state IN ('draft', 'in_review', 'approved', 'published'));
+ALTER TABLE public.services ADD COLUMN workflow_state TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_state IN ('draft', 'in_review', 'approved', 'published'));
+ALTER TABLE public.blog_posts ADD COLUMN workflow_state TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_state IN ('draft', 'in_review', 'approved', 'published'));
+ALTER TABLE public.case_studies ADD COLUMN workflow_state TEXT NOT NULL DEFAULT 'draft'
+    CHECK (workflow_state IN ('draft', 'in_review', 'approved', 'published'));
+
+UPDATE public.pages SET workflow_state = 'published' WHERE status = 'published';
+UPDATE public.services SET workflow_state = 'published' WHERE status = 'published';
+UPDATE public.blog_posts SET workflow_state = 'published' WHERE status = 'published';
+UPDATE public.case_studies SET workflow_state = 'published' WHERE status = 'published';
+
+-- Transition log, including review comments
+CREATE TABLE public.content_workflow_events (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('page', 'service', 'blog_post', 'case_study')),
+    entity_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('submit', 'withdraw', 'approve', 'request_changes', 'publish', 'unpublish', 'comment')),
+    from_state TEXT NOT NULL,
+    to_state TEXT NOT NULL,
+    comment TEXT,
+    actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_content_workflow_events_entity ON public.content_workflow_events(entity_type, entity_id, created_at DESC);
+
+ALTER TABLE public.content_workflow_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by transition_content_workflow() only
+CREATE POLICY "Editors and admins can view workflow events"
+ON public.content_workflow_events
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE OR REPLACE FUNCTION public.is_editorial_workflow_enabled()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.settings
+    WHERE key = 'editorial_workflow' AND value IN ('true'::jsonb, '"true"'::jsonb)
+  );
+$$ LANGUAGE SQL STABLE SECURITY DEFINER SET search_path = 'public';
+
+-- Only transition_content_workflow() moves workflow_state; direct saves keep it in step
+-- with the status. While the workflow is on, editors cannot publish directly, an edit to
+-- approved content sends it back to draft (the approval covered the old content), and
+-- published content has to be unpublished before editors change it. Admins are exempt,
+-- as they may publish without approval. Status, schedule and bookkeeping columns are not
+-- content. The rules mirror getWorkflowStateAfterEdit() in src/lib/workflow.ts.
+CREATE OR REPLACE FUNCTION public.enforce_content_workflow()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_bookkeeping TEXT[] := ARRAY['workflow_state', 'status', 'published_at', 'publish_at', 'unpublish_at', 'updated_at'];
+  v_reviewed BOOLEAN;
+BEGIN
+  IF coalesce(current_setting('app.workflow_transition', true), '') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    NEW.workflow_state := OLD.workflow_state;
+  ELSE
+    NEW.workflow_state := 'draft';
+  END IF;
+
+  v_reviewed := auth.uid() IS NOT NULL
+    AND coalesce(get_current_user_role(), '') <> 'admin'
+    AND public.is_editorial_workflow_enabled();
+
+  IF v_reviewed
+     AND NEW.status = 'published'
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'published') THEN
+    RAISE EXCEPTION 'Content must be reviewed and approved before it is published'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_reviewed
+     AND TG_OP = 'UPDATE'
+     AND to_jsonb(NEW) - v_bookkeeping IS DISTINCT FROM to_jsonb(OLD) - v_bookkeeping THEN
+    IF OLD.status = 'published' AND NEW.status = 'published' THEN
+      RAISE EXCEPTION 'Unpublish this content before editing it, so the changes can be reviewed'
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF OLD.workflow_state = 'approved' THEN
+      NEW.workflow_state := 'draft';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'published' THEN
+    NEW.workflow_state := 'published';
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'published' THEN
+    NEW.workflow_state := 'draft';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = 'public';
+
+CREATE TRIGGER enforce_pages_workflow
+    BEFORE INSERT OR UPDATE ON public.pages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_content_workflow();
+
+CREATE TRIGGER enforce_services_workflow
+    BEFORE INSERT OR UPDATE ON public.services
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_content_workflow();
+
+CREATE TRIGGER enforce_blog_posts_workflow
+    BEFORE INSERT OR UPDATE ON public.blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_content_workflow();
+
+CREATE TRIGGER enforce_case_studies_workflow
+    BEFORE INSERT OR UPDATE ON public.case_studies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_content_workflow();
+
+-- Move content to its next workflow state and log the transition. The rules mirror
+-- WORKFLOW_ACTIONS in src/lib/workflow.ts. Returns the new state.
+CREATE OR REPLACE FUNCTION public.transition_content_workflow(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_action TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_role TEXT := get_current_user_role();
+  v_table TEXT;
+  v_from TEXT;
+  v_to TEXT;
+BEGIN
+  IF coalesce(v_role, '') NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_table := CASE p_entity_type
+    WHEN 'page' THEN 'pages'
+    WHEN 'service' THEN 'services'
+    WHEN 'blog_post' THEN 'blog_posts'
+    WHEN 'case_study' THEN 'case_studies'
+  END;
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown content type %', p_entity_type;
+  END IF;
+
+  EXECUTE format('SELECT workflow_state FROM public.%I WHERE id = $1 FOR UPDATE', v_table)
+    INTO v_from
+    USING p_entity_id;
+  IF v_from IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  v_to := CASE
+    WHEN p_action = 'comment' THEN v_from
+    WHEN p_action = 'submit' AND v_from = 'draft' THEN 'in_review'
+    WHEN p_action = 'withdraw' AND v_from = 'in_review' THEN 'draft'
+    WHEN p_action = 'approve' AND v_from = 'in_review' AND v_role = 'admin' THEN 'approved'
+    WHEN p_action = 'request_changes' AND v_from IN ('in_review', 'approved') AND v_role = 'admin' THEN 'draft'
+    WHEN p_action = 'publish' AND v_from <> 'published' AND (v_from = 'approved' OR v_role = 'admin') THEN 'published'
+    WHEN p_action = 'unpublish' AND v_from = 'published' THEN 'draft'
+  END;
+  IF v_to IS NULL THEN
+    RAISE EXCEPTION 'Cannot % content that is %', replace(p_action, '_', ' '), replace(v_from, '_', ' ')
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_action IN ('request_changes', 'comment') AND coalesce(trim(p_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM set_config('app.workflow_transition', 'on', true);
+  IF p_action = 'publish' THEN
+    EXECUTE format('UPDATE public.%I SET workflow_state = $2, status = ''published'', published_at = coalesce(published_at, now()) WHERE id = $1', v_table)
+      USING p_entity_id, v_to;
+  ELSIF p_action = 'unpublish' THEN
+    EXECUTE format('UPDATE public.%I SET workflow_state = $2, status = ''draft'' WHERE id = $1', v_table)
+      USING p_entity_id, v_to;
+  ELSIF v_to <> v_from THEN
+    EXECUTE format('UPDATE public.%I SET workflow_state = $2 WHERE id = $1', v_table)
+      USING p_entity_id, v_to;
+  END IF;
+  PERFORM set_config('app.workflow_transition', 'off', true);
+
+  INSERT INTO public.content_workflow_events (entity_type, entity_id, action, from_state, to_state, comment, actor_id)
+  VALUES (p_entity_type, p_entity_id, p_action, v_from, v_to, nullif(trim(p_comment), ''), auth.uid());
+
+  RETURN v_to;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.transition_content_workflow(TEXT, UUID, TEXT, TEXT) TO authenticated;
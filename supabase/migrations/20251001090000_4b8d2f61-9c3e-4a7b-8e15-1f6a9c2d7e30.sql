@@ -0,0 +1,157 @@
+-- Scheduled publishing: publish_at and unpublish_at on every content table, and a job
+-- that flips the status once those times have passed. Saving published content with a
+-- future published_at schedules it instead of publishing it straight away.
+
+ALTER TABLE public.pages
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT pages_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.services
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT services_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.projects
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT projects_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.blog_posts
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT blog_posts_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.case_studies
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT case_studies_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.lab_projects
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT lab_projects_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+ALTER TABLE public.jobs
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT jobs_schedule_order CHECK (unpublish_at IS NULL OR publish_at IS NULL OR unpublish_at > publish_at);
+
+-- Content that was "published" with a future date so far went live immediately
+UPDATE public.pages SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.services SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.projects SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.blog_posts SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.case_studies SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.lab_projects SET status = 'draft', publish_at = published_at WHERE status = 'published' AND published_at > now();
+UPDATE public.jobs SET status = 'draft', publish_at = published_at WHERE status = 'open' AND published_at > now();
+
+-- Turn "published with a future date" into a schedule, and drop the publish time of
+-- content that is already live
+-- TG_ARGV[0] = status of live content ('published', or 'open' for jobs)
+CREATE OR REPLACE FUNCTION public.normalize_content_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = TG_ARGV[0]
+     AND NEW.published_at > now()
+     AND (TG_OP = 'INSERT'
+          OR OLD.status IS DISTINCT FROM NEW.status
+          OR OLD.published_at IS DISTINCT FROM NEW.published_at) THEN
+    NEW.status := 'draft';
+    NEW.publish_at := NEW.published_at;
+  ELSIF NEW.status = TG_ARGV[0] THEN
+    NEW.publish_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = 'public';
+
+-- Named so they run before the editorial workflow triggers
+CREATE TRIGGER apply_pages_schedule
+    BEFORE INSERT OR UPDATE ON public.pages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_services_schedule
+    BEFORE INSERT OR UPDATE ON public.services
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_projects_schedule
+    BEFORE INSERT OR UPDATE ON public.projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_blog_posts_schedule
+    BEFORE INSERT OR UPDATE ON public.blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_case_studies_schedule
+    BEFORE INSERT OR UPDATE ON public.case_studies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_lab_projects_schedule
+    BEFORE INSERT OR UPDATE ON public.lab_projects
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('published');
+
+CREATE TRIGGER apply_jobs_schedule
+    BEFORE INSERT OR UPDATE ON public.jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_content_schedule('open');
+
+-- Publish and unpublish everything whose scheduled time has passed. While the editorial
+-- workflow is on, only approved content is published. Returns the number of rows changed.
+CREATE OR REPLACE FUNCTION public.apply_content_schedules()
+RETURNS INTEGER AS $$
+DECLARE
+  v_table TEXT;
+  v_live TEXT;
+  v_offline TEXT;
+  v_approval TEXT;
+  v_count INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['pages', 'services', 'projects', 'blog_posts', 'case_studies', 'lab_projects', 'jobs'] LOOP
+    v_live := CASE WHEN v_table = 'jobs' THEN 'open' ELSE 'published' END;
+    v_offline := CASE WHEN v_table = 'jobs' THEN 'closed' ELSE 'draft' END;
+    v_approval := CASE
+      WHEN v_table IN ('pages', 'services', 'blog_posts', 'case_studies') AND public.is_editorial_workflow_enabled()
+        THEN ' AND workflow_state = ''approved'''
+      ELSE ''
+    END;
+
+    EXECUTE format(
+      'UPDATE public.%I SET status = %L, published_at = publish_at, publish_at = NULL
+       WHERE status <> %L AND publish_at <= now()' || v_approval,
+      v_table, v_live, v_live
+    );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+
+    EXECUTE format(
+      'UPDATE public.%I SET status = %L, unpublish_at = NULL
+       WHERE status = %L AND unpublish_at <= now()',
+      v_table, v_offline, v_live
+    );
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+REVOKE ALL ON FUNCTION public.apply_content_schedules() FROM public;
+
+CREATE INDEX idx_pages_schedule ON public.pages (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_services_schedule ON public.services (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_projects_schedule ON public.projects (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_blog_posts_schedule ON public.blog_posts (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_case_studies_schedule ON public.case_studies (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_lab_projects_schedule ON public.lab_projects (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+CREATE INDEX idx_jobs_schedule ON public.jobs (publish_at, unpublish_at) WHERE publish_at IS NOT NULL OR unpublish_at IS NOT NULL;
+
+-- Run every minute; public queries also hide content past its unpublish time in between
+SELECT cron.schedule(
+  'apply-content-schedules',
+  '* * * * *',
+  $$ SELECT public.apply_content_schedules(); $$
+);
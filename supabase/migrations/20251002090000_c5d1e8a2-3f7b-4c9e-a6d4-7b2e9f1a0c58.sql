@@ -0,0 +1,70 @@
+-- Soft edit locks: the editor that opens content first holds its lock and renews it while
+-- the editor stays open. Others see who holds it and can take it over; locks that were not
+-- renewed for two minutes (closed tab, lost connection) are free again.
+
+CREATE TABLE public.content_locks (
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('page', 'service', 'project', 'blog_post', 'case_study', 'lab_project', 'job')),
+    entity_id UUID NOT NULL,
+    locked_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    acquired_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+ALTER TABLE public.content_locks ENABLE ROW LEVEL SECURITY;
+
+-- Locks are written by acquire_content_lock() and release_content_lock() only
+CREATE POLICY "Editors and admins can view content locks"
+ON public.content_locks
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+-- Takes or renews the lock and returns the lock as it stands afterwards. While someone
+-- else holds a live lock it is returned unchanged, unless p_takeover is set.
+CREATE OR REPLACE FUNCTION public.acquire_content_lock(
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_takeover BOOLEAN DEFAULT false
+)
+RETURNS public.content_locks AS $$
+DECLARE
+  v_lock public.content_locks;
+BEGIN
+  IF coalesce(get_current_user_role(), '') NOT IN ('admin', 'editor') THEN
+    RAISE EXCEPTION 'Permission denied' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM public.content_locks
+  WHERE entity_type = p_entity_type AND entity_id = p_entity_id
+  FOR UPDATE;
+
+  IF FOUND AND v_lock.locked_by <> auth.uid() AND v_lock.expires_at > now() AND NOT p_takeover THEN
+    RETURN v_lock;
+  END IF;
+
+  INSERT INTO public.content_locks (entity_type, entity_id, locked_by, acquired_at, expires_at)
+  VALUES (p_entity_type, p_entity_id, auth.uid(), now(), now() + interval '2 minutes')
+  ON CONFLICT (entity_type, entity_id) DO UPDATE
+    SET locked_by = EXCLUDED.locked_by,
+        -- Renewing keeps the original acquisition time
+        acquired_at = CASE WHEN content_locks.locked_by = EXCLUDED.locked_by THEN content_locks.acquired_at ELSE now() END,
+        expires_at = EXCLUDED.expires_at
+  RETURNING * INTO v_lock;
+
+  RETURN v_lock;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+CREATE OR REPLACE FUNCTION public.release_content_lock(p_entity_type TEXT, p_entity_id UUID)
+RETURNS VOID AS $$
+  DELETE FROM public.content_locks
+  WHERE entity_type = p_entity_type AND entity_id = p_entity_id AND locked_by = auth.uid();
+$$ LANGUAGE SQL SECURITY DEFINER SET search_path = 'public';
+
+GRANT EXECUTE ON FUNCTION public.acquire_content_lock(TEXT, UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_content_lock(TEXT, UUID) TO authenticated;
+
+-- Lock changes are pushed to open editors, so a takeover shows up straight away
+ALTER TABLE public.content_locks REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.content_locks;
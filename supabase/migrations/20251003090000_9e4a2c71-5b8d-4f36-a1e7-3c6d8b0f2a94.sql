@@ -0,0 +1,62 @@
+-- Autosaved editor drafts: a server-side copy of each user's unsaved editor state, so long
+-- edits survive a crashed tab or an expired session. Drafts are private to their author
+-- and are removed once the content is saved or the draft is discarded.
+
+CREATE TABLE public.editor_drafts (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('blog_post', 'job', 'proposal')),
+    -- The content id, or 'new' for content that has not been created yet
+    entity_key TEXT NOT NULL,
+    data JSONB NOT NULL,
+    -- updated_at of the saved content the draft started from
+    base_updated_at TIMESTAMP WITH TIME ZONE,
+    saved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, entity_type, entity_key)
+);
+
+ALTER TABLE public.editor_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own editor drafts"
+ON public.editor_drafts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Editors and admins can create their own editor drafts"
+ON public.editor_drafts
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text])
+);
+
+CREATE POLICY "Users can update their own editor drafts"
+ON public.editor_drafts
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own editor drafts"
+ON public.editor_drafts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Drafts nobody came back for
+CREATE OR REPLACE FUNCTION public.cleanup_stale_editor_drafts()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM public.editor_drafts WHERE saved_at < now() - INTERVAL '30 days';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = 'public';
+
+REVOKE ALL ON FUNCTION public.cleanup_stale_editor_drafts() FROM public;
+
+SELECT cron.schedule(
+  'cleanup-stale-editor-drafts',
+  '30 3 * * *',
+  $$ SELECT public.cleanup_stale_editor_drafts(); $$
+);
@@ -0,0 +1,99 @@
+-- Blog authors: public profiles shown in post bylines and on /blog/author/:slug. An author
+-- is either linked to a CMS user (profile_id) or a standalone guest author. Posts can have
+-- several authors; blog_post_authors keeps them in byline order.
+
+CREATE TABLE public.blog_authors (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    job_title TEXT,
+    bio TEXT,
+    avatar_url TEXT,
+    -- { "website": "...", "twitter": "...", "linkedin": "...", "github": "..." }
+    social_links JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- NULL for guest authors
+    profile_id UUID UNIQUE REFERENCES public.profiles(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('draft', 'published')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.blog_authors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view published authors"
+ON public.blog_authors
+FOR SELECT
+USING (status = 'published');
+
+CREATE POLICY "Editors and admins can view all authors"
+ON public.blog_authors
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can create authors"
+ON public.blog_authors
+FOR INSERT
+WITH CHECK (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can update authors"
+ON public.blog_authors
+FOR UPDATE
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Only admins can delete authors"
+ON public.blog_authors
+FOR DELETE
+USING (get_current_user_role() = 'admin');
+
+CREATE TRIGGER update_blog_authors_updated_at
+    BEFORE UPDATE ON public.blog_authors
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.blog_post_authors (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    blog_post_id UUID NOT NULL REFERENCES public.blog_posts(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES public.blog_authors(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (blog_post_id, author_id)
+);
+
+ALTER TABLE public.blog_post_authors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view published post authors"
+ON public.blog_post_authors
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.blog_posts
+  WHERE id = blog_post_authors.blog_post_id
+  AND status = 'published'
+));
+
+CREATE POLICY "Editors and admins can view all post authors"
+ON public.blog_post_authors
+FOR SELECT
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE POLICY "Editors and admins can manage post authors"
+ON public.blog_post_authors
+FOR ALL
+USING (get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]));
+
+CREATE INDEX idx_blog_post_authors_blog_post_id ON public.blog_post_authors(blog_post_id);
+CREATE INDEX idx_blog_post_authors_author_id ON public.blog_post_authors(author_id);
+
+-- Byline authors of a post, in order
+CREATE OR REPLACE FUNCTION public.get_blog_post_authors(post_id UUID)
+RETURNS SETOF public.blog_authors
+LANGUAGE SQL
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT ba.*
+  FROM blog_authors ba
+  INNER JOIN blog_post_authors bpa ON ba.id = bpa.author_id
+  WHERE bpa.blog_post_id = post_id
+  AND ba.status = 'published'
+  ORDER BY bpa.sort_order, ba.name;
+$$;
@@ -0,0 +1,86 @@
+-- Blog tags: one canonical spelling per tag (lowercase, words joined by dashes; the same
+-- rules as normalizeTag() in src/lib/tags.ts), enforced on every write so near-duplicates
+-- such as "React" and "react" cannot come back. rewrite_blog_tags() renames, merges and
+-- deletes tags across all posts in one statement for the admin tag manager.
+
+CREATE OR REPLACE FUNCTION public.normalize_blog_tag(tag TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT left(
+    trim(both '-' from regexp_replace(
+      regexp_replace(
+        regexp_replace(lower(trim(tag)), '[\s_]+', '-', 'g'),
+        '[^[:alnum:]+#.-]', '', 'g'
+      ),
+      '-{2,}', '-', 'g'
+    )),
+    30
+  );
+$$;
+
+-- Normalized, without empties or duplicates, in their original order
+CREATE OR REPLACE FUNCTION public.normalize_blog_tags(tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(normalized ORDER BY first_position), '{}')
+  FROM (
+    SELECT public.normalize_blog_tag(tag) AS normalized, min(position) AS first_position
+    FROM unnest(tags) WITH ORDINALITY AS t(tag, position)
+    WHERE tag IS NOT NULL
+    GROUP BY 1
+  ) normalized_tags
+  WHERE normalized <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_blog_post_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.tags := public.normalize_blog_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_blog_post_tags
+    BEFORE INSERT OR UPDATE OF tags ON public.blog_posts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_blog_post_tags();
+
+UPDATE public.blog_posts
+SET tags = public.normalize_blog_tags(tags)
+WHERE tags IS DISTINCT FROM public.normalize_blog_tags(tags);
+
+CREATE INDEX IF NOT EXISTS idx_blog_posts_tags ON public.blog_posts USING GIN (tags);
+
+-- Replaces every tag in p_from with p_to on all posts, or removes them when p_to is NULL.
+-- Runs with the caller's rights, so only roles that may update posts can use it.
+CREATE OR REPLACE FUNCTION public.rewrite_blog_tags(p_from TEXT[], p_to TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT COALESCE(get_current_user_role() = ANY (ARRAY['admin'::text, 'editor'::text]), false) THEN
+    RAISE EXCEPTION 'permission denied to rewrite blog tags';
+  END IF;
+
+  UPDATE blog_posts
+  SET tags = ARRAY(
+    SELECT CASE WHEN tag = ANY (p_from) THEN p_to ELSE tag END
+    FROM unnest(tags) WITH ORDINALITY AS t(tag, position)
+    WHERE p_to IS NOT NULL OR tag <> ALL (p_from)
+    ORDER BY position
+  )
+  WHERE tags && p_from;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;